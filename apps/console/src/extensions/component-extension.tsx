@@ -19,8 +19,9 @@
 import { I18n } from "@wso2is/i18n";
 import { EmptyPlaceholder, ErrorBoundary } from "@wso2is/react-components";
 import React, { Suspense, lazy } from "react";
-import { Placeholder } from "semantic-ui-react";
+import { Placeholder, StrictTabProps } from "semantic-ui-react";
 import { ExtensionsManager } from "./extensions-manager";
+import { ComponentExtensionConfigInterface, ComponentExtensionPaneConfigInterface } from "./models";
 import { getEmptyPlaceholderIllustrations } from "../features/core";
 
 interface ComponentExtensionInterface {
@@ -36,11 +37,13 @@ interface ComponentExtensionInterface {
  * key and will generate appropriate extension content.
  *
  * Current Support : Tab Extensions
- * TODO : Support for other types of components
+ * Other types of components are supported through the `extensionPoints` and `ExtensionPoint`.
  *
  * @param {ComponentExtensionInterface} args - Extensions.
+ *
+ * @return {StrictTabProps["panes"]} Extension tab panes.
  */
-export const ComponentExtensionPlaceholder = (args: ComponentExtensionInterface): any[] => {
+export const ComponentExtensionPlaceholder = (args: ComponentExtensionInterface): StrictTabProps[ "panes" ] => {
 
     const {
         component,
@@ -50,19 +53,19 @@ export const ComponentExtensionPlaceholder = (args: ComponentExtensionInterface)
     } = args;
 
     if (type === "tab") {
-        const componentExtensionConfig: any[] = ExtensionsManager.getConfig().componentExtensions;
-        const tabPanes: any[] = [];
-
-        if (componentExtensionConfig.length < 1) {
-            return tabPanes;
-        }
+        const componentExtensionConfig: ComponentExtensionConfigInterface[] =
+            ExtensionsManager.getConfig().componentExtensions;
+        const tabPanes: StrictTabProps[ "panes" ] = [];
 
-        const config = componentExtensionConfig.reduce(config => {
-            return config.component === component && config.subComponent === subComponent && config.type === type;
-        });
+        const configs: ComponentExtensionConfigInterface[] = componentExtensionConfig
+            .filter((config: ComponentExtensionConfigInterface) => {
+                return config.component === component
+                    && config.subComponent === subComponent
+                    && config.type === type;
+            });
 
-        if (config && config.panes && config.panes.length > 0) {
-            config.panes.map(pane => {
+        configs.forEach((config: ComponentExtensionConfigInterface) => {
+            config.panes?.forEach((pane: ComponentExtensionPaneConfigInterface) => {
                 const DynamicLoader = lazy(() => import(`${ pane.path }`));
                 tabPanes.push({
                     menuItem: I18n.instance.t(pane.title),
@@ -95,7 +98,7 @@ export const ComponentExtensionPlaceholder = (args: ComponentExtensionInterface)
                     )
                 });
             });
-        }
+        });
 
         return tabPanes;
     }
@@ -20,6 +20,7 @@ import { ExtensionsConfigInterface } from "./models";
 
 export const ExtensionsConfig = (): ExtensionsConfigInterface => ({
     componentExtensions: [],
+    extensionPoints: [],
     routes: {
         develop: [],
         fullscreen: [],
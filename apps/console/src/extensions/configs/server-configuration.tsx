@@ -18,10 +18,15 @@
 
 import React, { ReactElement } from "react";
 import { Divider, Grid, Header } from "semantic-ui-react";
-import { GovernanceConnectorInterface } from "../../features/server-configurations";
+import {
+    GovernanceConnectorHistoryStorageInterface,
+    GovernanceConnectorInterface
+} from "../../features/server-configurations";
 
 export const serverConfigurationConfig = {
     autoEnableConnectorToggleProperty: false,
+    // Persistence adapter of the connector change history. Falls back to the user preferences if not provided.
+    connectorHistoryStorage: undefined as GovernanceConnectorHistoryStorageInterface,
     connectorPropertiesToShow: [
         "all"
     ],
@@ -0,0 +1,222 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { AuthenticateUtils } from "@wso2is/core/utils";
+import { lazy } from "react";
+import { ExtensionsManager } from "./extensions-manager";
+import {
+    ExtensionPointConfigInterface,
+    ExtensionPointInterface,
+    ExtensionPointSlots,
+    ExtensionPointTypes,
+    ExtensionPointValidationIssueInterface,
+    ExtensionPointValidationReportInterface
+} from "./models";
+import { store } from "../features/core";
+
+/**
+ * Class to resolve the components plugged in to the extension points of the console.
+ */
+export class ExtensionPointRegistry {
+
+    /**
+     * Kind of the components accepted by each slot.
+     * @constant
+     * @type {Map<ExtensionPointSlots, ExtensionPointTypes>}
+     * @default
+     */
+    public static readonly SLOT_TYPES: Map<ExtensionPointSlots, ExtensionPointTypes> = new Map([
+        [ ExtensionPointSlots.APPLICATION_EDIT_TABS, ExtensionPointTypes.TAB ],
+        [ ExtensionPointSlots.APPLICATION_LIST_HEADER_ACTIONS, ExtensionPointTypes.HEADER_ACTION ],
+        [ ExtensionPointSlots.APPLICATION_LIST_ROW_ACTIONS, ExtensionPointTypes.TABLE_ROW_ACTION ],
+        [ ExtensionPointSlots.IDENTITY_PROVIDER_EDIT_TABS, ExtensionPointTypes.TAB ],
+        [ ExtensionPointSlots.IDENTITY_PROVIDER_LIST_HEADER_ACTIONS, ExtensionPointTypes.HEADER_ACTION ],
+        [ ExtensionPointSlots.IDENTITY_PROVIDER_LIST_ROW_ACTIONS, ExtensionPointTypes.TABLE_ROW_ACTION ],
+        [ ExtensionPointSlots.SERVER_CONFIGURATION_SECTIONS, ExtensionPointTypes.FORM_SECTION ],
+        [ ExtensionPointSlots.SERVER_CONFIGURATION_WIDGETS, ExtensionPointTypes.DASHBOARD_WIDGET ],
+        [ ExtensionPointSlots.USER_EDIT_TABS, ExtensionPointTypes.TAB ],
+        [ ExtensionPointSlots.USER_LIST_HEADER_ACTIONS, ExtensionPointTypes.HEADER_ACTION ],
+        [ ExtensionPointSlots.USER_LIST_ROW_ACTIONS, ExtensionPointTypes.TABLE_ROW_ACTION ]
+    ]);
+
+    private static entries: ExtensionPointInterface[];
+    private static report: ExtensionPointValidationReportInterface;
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Returns the entries of a slot which the current user is allowed to see, in order.
+     *
+     * @param {ExtensionPointSlots} slot - Slot.
+     * @return {ExtensionPointInterface[]}
+     */
+    public static getEntries(slot: ExtensionPointSlots): ExtensionPointInterface[] {
+
+        const allowedScopes: string = store.getState().auth?.scope;
+
+        return ExtensionPointRegistry.load()
+            .filter((entry: ExtensionPointInterface) => entry.slot === slot)
+            .filter((entry: ExtensionPointInterface) => {
+                return !entry.scopes || entry.scopes.every((scope: string) => {
+                    return AuthenticateUtils.hasScope(scope, allowedScopes);
+                });
+            });
+    }
+
+    /**
+     * Validates the extension point config and returns the report. Misconfigured entries are skipped.
+     *
+     * @return {ExtensionPointValidationReportInterface}
+     */
+    public static getValidationReport(): ExtensionPointValidationReportInterface {
+
+        ExtensionPointRegistry.load();
+
+        return ExtensionPointRegistry.report;
+    }
+
+    /**
+     * Validates a set of extension point entries.
+     *
+     * @param {ExtensionPointConfigInterface[]} configs - Entries to validate.
+     * @return {ExtensionPointValidationReportInterface}
+     */
+    public static validate(configs: ExtensionPointConfigInterface[]): ExtensionPointValidationReportInterface {
+
+        const issues: ExtensionPointValidationIssueInterface[] = [];
+        const registered: string[] = [];
+
+        if (!Array.isArray(configs)) {
+            return {
+                issues: [ { index: -1, message: "Extension points should be an array." } ],
+                registered
+            };
+        }
+
+        configs.forEach((config: ExtensionPointConfigInterface, index: number) => {
+            const messages: string[] = ExtensionPointRegistry.getIssues(config);
+
+            if (config?.id && registered.includes(config.id)) {
+                messages.push(`An extension point with the id "${ config.id }" is already registered.`);
+            }
+
+            if (messages.length > 0) {
+                messages.forEach((message: string) => issues.push({ id: config?.id, index, message }));
+
+                return;
+            }
+
+            registered.push(config.id);
+        });
+
+        return {
+            issues,
+            registered
+        };
+    }
+
+    /**
+     * Validates the configured entries and resolves the components of the valid ones.
+     *
+     * @return {ExtensionPointInterface[]}
+     */
+    private static load(): ExtensionPointInterface[] {
+
+        if (ExtensionPointRegistry.entries) {
+            return ExtensionPointRegistry.entries;
+        }
+
+        const configs: ExtensionPointConfigInterface[] = ExtensionsManager.getConfig().extensionPoints ?? [];
+
+        ExtensionPointRegistry.report = ExtensionPointRegistry.validate(configs);
+        ExtensionPointRegistry.entries = (Array.isArray(configs) ? configs : [])
+            .filter((config: ExtensionPointConfigInterface, index: number) => {
+                return !ExtensionPointRegistry.report.issues
+                    .some((issue: ExtensionPointValidationIssueInterface) => issue.index === index);
+            })
+            .map((config: ExtensionPointConfigInterface) => {
+                const path: string = config.component;
+
+                return {
+                    ...config,
+                    component: lazy(() => import(`${ path }`)),
+                    type: ExtensionPointRegistry.SLOT_TYPES.get(config.slot)
+                };
+            })
+            .sort((a: ExtensionPointInterface, b: ExtensionPointInterface) => {
+                return (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER);
+            });
+
+        return ExtensionPointRegistry.entries;
+    }
+
+    /**
+     * Finds the problems in a single entry.
+     *
+     * @param {ExtensionPointConfigInterface} config - Entry.
+     * @return {string[]} Descriptions of the problems.
+     */
+    private static getIssues(config: ExtensionPointConfigInterface): string[] {
+
+        if (!config || typeof config !== "object") {
+            return [ "The entry should be an object." ];
+        }
+
+        const messages: string[] = [];
+        const type: ExtensionPointTypes = ExtensionPointRegistry.SLOT_TYPES.get(config.slot);
+
+        if (!config.id || typeof config.id !== "string") {
+            messages.push("The id is required.");
+        }
+
+        if (!type) {
+            messages.push(`"${ config.slot }" is not a known slot.`);
+        }
+
+        if (!config.component || typeof config.component !== "string") {
+            messages.push("The component should be the path of a module.");
+        }
+
+        if ((type === ExtensionPointTypes.TAB || type === ExtensionPointTypes.HEADER_ACTION
+            || type === ExtensionPointTypes.TABLE_ROW_ACTION) && !config.title) {
+            messages.push(`A title is required for the entries of "${ config.slot }".`);
+        }
+
+        if (type === ExtensionPointTypes.TABLE_ROW_ACTION && !config.icon) {
+            messages.push(`An icon is required for the entries of "${ config.slot }".`);
+        }
+
+        if (config.order !== undefined && !Number.isFinite(config.order)) {
+            messages.push("The order should be a number.");
+        }
+
+        if (config.scopes !== undefined && (!Array.isArray(config.scopes)
+            || config.scopes.some((scope: string) => typeof scope !== "string"))) {
+            messages.push("The scopes should be a list of strings.");
+        }
+
+        return messages;
+    }
+}
@@ -0,0 +1,288 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import { I18n } from "@wso2is/i18n";
+import {
+    EmptyPlaceholder,
+    ErrorBoundary,
+    SecondaryButton,
+    TableActionsInterface
+} from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, Suspense, SyntheticEvent, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Grid, Icon, Modal, Placeholder, StrictTabProps } from "semantic-ui-react";
+import { ExtensionPointRegistry } from "./extension-point-registry";
+import { ExtensionPointInterface, ExtensionPointSlots, ExtensionPointTypes } from "./models";
+import { getEmptyPlaceholderIllustrations } from "../features/core";
+
+/**
+ * Props for the extension point component.
+ */
+interface ExtensionPointPropsInterface extends TestableComponentInterface {
+    /**
+     * Slot to render.
+     */
+    slot: ExtensionPointSlots;
+    /**
+     * Props passed down to the plugged in components.
+     */
+    props?: Record<string, unknown>;
+}
+
+/**
+ * Props for the extension point renderer.
+ */
+interface ExtensionPointRendererPropsInterface {
+    /**
+     * Entry to render.
+     */
+    entry: ExtensionPointInterface;
+    /**
+     * Props passed down to the component.
+     */
+    props?: Record<string, unknown>;
+}
+
+/**
+ * Result of the extension point row actions hook.
+ */
+interface ExtensionPointRowActionsInterface {
+    /**
+     * Actions to be appended to the table actions.
+     */
+    actions: TableActionsInterface[];
+    /**
+     * Modal rendering the selected action. Should be rendered along with the table.
+     */
+    modal: ReactElement;
+}
+
+/**
+ * Lazy loads and renders the component of an extension point entry. A failing component
+ * does not break the hosting page.
+ *
+ * @param {ExtensionPointRendererPropsInterface} args - Entry and the props.
+ *
+ * @return {React.ReactElement}
+ */
+const ExtensionPointRenderer = (args: ExtensionPointRendererPropsInterface): ReactElement => {
+
+    const { entry, props } = args;
+
+    const Component = entry.component;
+
+    return (
+        <ErrorBoundary
+            fallback={ (
+                <EmptyPlaceholder
+                    image={ getEmptyPlaceholderIllustrations().genericError }
+                    imageSize="tiny"
+                    subtitle={ [
+                        I18n.instance.t("console:common.placeholders.genericError.subtitles.0"),
+                        I18n.instance.t("console:common.placeholders.genericError.subtitles.1")
+                    ] }
+                    title={ I18n.instance.t("console:common.placeholders.genericError.title") }
+                />
+            ) }
+        >
+            <Suspense
+                fallback={ (
+                    <Placeholder>
+                        <Placeholder.Header>
+                            <Placeholder.Line />
+                            <Placeholder.Line />
+                        </Placeholder.Header>
+                    </Placeholder>
+                ) }>
+                <Component { ...entry.props } { ...props } />
+            </Suspense>
+        </ErrorBoundary>
+    );
+};
+
+/**
+ * Renders the modal of a selected action.
+ *
+ * @param {ExtensionPointInterface} entry - Selected entry.
+ * @param {Record<string, unknown>} props - Props passed down to the component.
+ * @param {() => void} onClose - Callback to close the modal.
+ * @param {string} testId - Test id.
+ *
+ * @return {React.ReactElement}
+ */
+const renderActionModal = (entry: ExtensionPointInterface, props: Record<string, unknown>, onClose: () => void,
+                           testId: string): ReactElement => {
+
+    if (!entry) {
+        return null;
+    }
+
+    return (
+        <Modal
+            open
+            closeIcon
+            dimmer="blurring"
+            size="small"
+            onClose={ onClose }
+            data-testid={ `${ testId }-modal` }
+        >
+            <Modal.Header>{ I18n.instance.t(entry.title) }</Modal.Header>
+            <Modal.Content>
+                <ExtensionPointRenderer entry={ entry } props={ { ...props, onClose } }/>
+            </Modal.Content>
+        </Modal>
+    );
+};
+
+/**
+ * Renders the components plugged in to a slot. Form sections are stacked, dashboard widgets are
+ * placed in a grid and header actions are rendered as buttons which open the component in a modal.
+ * Tabs and table row actions are resolved with `getExtensionPointTabPanes` and
+ * `useExtensionPointRowActions`.
+ *
+ * @param {ExtensionPointPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const ExtensionPoint: FunctionComponent<ExtensionPointPropsInterface> = (
+    props: ExtensionPointPropsInterface
+): ReactElement => {
+
+    const {
+        slot,
+        props: componentProps,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ selectedEntry, setSelectedEntry ] = useState<ExtensionPointInterface>(null);
+
+    const entries: ExtensionPointInterface[] = useMemo(() => ExtensionPointRegistry.getEntries(slot), [ slot ]);
+
+    if (entries.length === 0) {
+        return null;
+    }
+
+    if (ExtensionPointRegistry.SLOT_TYPES.get(slot) === ExtensionPointTypes.HEADER_ACTION) {
+        return (
+            <>
+                {
+                    entries.map((entry: ExtensionPointInterface) => (
+                        <SecondaryButton
+                            key={ entry.id }
+                            onClick={ () => setSelectedEntry(entry) }
+                            data-testid={ `${ testId }-${ entry.id }-button` }
+                        >
+                            { entry.icon && <Icon name={ entry.icon }/> }
+                            { t(entry.title) }
+                        </SecondaryButton>
+                    ))
+                }
+                { renderActionModal(selectedEntry, componentProps, () => setSelectedEntry(null), testId) }
+            </>
+        );
+    }
+
+    if (ExtensionPointRegistry.SLOT_TYPES.get(slot) === ExtensionPointTypes.DASHBOARD_WIDGET) {
+        return (
+            <Grid stackable columns={ 2 } data-testid={ testId }>
+                {
+                    entries.map((entry: ExtensionPointInterface) => (
+                        <Grid.Column key={ entry.id }>
+                            <ExtensionPointRenderer entry={ entry } props={ componentProps }/>
+                        </Grid.Column>
+                    ))
+                }
+            </Grid>
+        );
+    }
+
+    return (
+        <div data-testid={ testId }>
+            {
+                entries.map((entry: ExtensionPointInterface) => (
+                    <ExtensionPointRenderer key={ entry.id } entry={ entry } props={ componentProps }/>
+                ))
+            }
+        </div>
+    );
+};
+
+/**
+ * Default props for the extension point component.
+ */
+ExtensionPoint.defaultProps = {
+    "data-testid": "extension-point"
+};
+
+/**
+ * Resolves the tab panes plugged in to a slot.
+ *
+ * @param {ExtensionPointSlots} slot - Slot.
+ * @param {Record<string, unknown>} props - Props passed down to the components.
+ *
+ * @return {StrictTabProps["panes"]} Tab panes.
+ */
+export const getExtensionPointTabPanes = (
+    slot: ExtensionPointSlots,
+    props?: Record<string, unknown>
+): StrictTabProps[ "panes" ] => {
+
+    return ExtensionPointRegistry.getEntries(slot)
+        .filter((entry: ExtensionPointInterface) => entry.type === ExtensionPointTypes.TAB)
+        .map((entry: ExtensionPointInterface) => ({
+            menuItem: I18n.instance.t(entry.title),
+            render: () => <ExtensionPointRenderer entry={ entry } props={ props }/>
+        }));
+};
+
+/**
+ * Hook to resolve the table row actions plugged in to a slot. Selecting an action opens the
+ * component in a modal with the row passed down as the `item` prop.
+ *
+ * @param {ExtensionPointSlots} slot - Slot.
+ * @param {string} testId - Test id of the hosting table.
+ *
+ * @return {ExtensionPointRowActionsInterface}
+ */
+export const useExtensionPointRowActions = (
+    slot: ExtensionPointSlots,
+    testId: string
+): ExtensionPointRowActionsInterface => {
+
+    const [ selected, setSelected ] = useState<{ entry: ExtensionPointInterface; item: unknown }>(null);
+
+    const actions: TableActionsInterface[] = useMemo(() => {
+        return ExtensionPointRegistry.getEntries(slot)
+            .filter((entry: ExtensionPointInterface) => entry.type === ExtensionPointTypes.TABLE_ROW_ACTION)
+            .map((entry: ExtensionPointInterface) => ({
+                "data-testid": `${ testId }-${ entry.id }-button`,
+                icon: () => entry.icon,
+                onClick: (e: SyntheticEvent, item: unknown) => setSelected({ entry, item }),
+                popupText: () => I18n.instance.t(entry.title),
+                renderer: "semantic-icon"
+            }));
+    }, [ slot ]);
+
+    return {
+        actions,
+        modal: renderActionModal(selected?.entry, { item: selected?.item }, () => setSelected(null), testId)
+    };
+};
@@ -20,5 +20,7 @@ export * from "./extension";
 export * from "./extensions-manager";
 export * from "./extension-menu";
 export * from "./component-extension";
+export * from "./extension-point";
+export * from "./extension-point-registry";
 export * from "./models";
 export * from "./configs";
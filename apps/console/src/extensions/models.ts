@@ -17,7 +17,8 @@
  */
 
 import { RouteInterface } from "@wso2is/core/models";
-import { ReactElement } from "react";
+import { ComponentType, LazyExoticComponent } from "react";
+import { SemanticICONS } from "semantic-ui-react";
 import { ApplicationTemplatesConfigInterface } from "../features/applications/data/application-templates";
 import { IdentityProviderTemplatesConfigInterface } from "../features/identity-providers/data/identity-provider-templates";
 
@@ -25,12 +26,31 @@ import { IdentityProviderTemplatesConfigInterface } from "../features/identity-p
  * Interface for the core extensions config.
  */
 export interface ExtensionsConfigInterface {
-    componentExtensions: ReactElement[] | any[];
+    componentExtensions: ComponentExtensionConfigInterface[];
+    extensionPoints: ExtensionPointConfigInterface[];
     routes: ExtensionRoutesInterface;
     sections: SectionExtensionsConfigInterface;
     templateExtensions: TemplateExtensionsConfigInterface;
 }
 
+/**
+ * Interface for a component extension declared in the `componentExtensions` config.
+ */
+export interface ComponentExtensionConfigInterface {
+    component: string;
+    panes?: ComponentExtensionPaneConfigInterface[];
+    subComponent?: string;
+    type: string;
+}
+
+/**
+ * Interface for a tab pane of a component extension.
+ */
+export interface ComponentExtensionPaneConfigInterface {
+    path: string;
+    title: string;
+}
+
 /**
  * Interface for routes extensions.
  */
@@ -71,3 +91,113 @@ export type ApplicationTemplateExtensionsConfigInterface = ApplicationTemplatesC
  * Interface for the application template extensions config.
  */
 export type IdentityProviderTemplateExtensionsConfigInterface = IdentityProviderTemplatesConfigInterface;
+
+/**
+ * Kinds of components which can be plugged in to an extension point.
+ * @readonly
+ * @enum {string}
+ */
+export enum ExtensionPointTypes {
+    DASHBOARD_WIDGET = "dashboardWidget",
+    FORM_SECTION = "formSection",
+    HEADER_ACTION = "headerAction",
+    TAB = "tab",
+    TABLE_ROW_ACTION = "tableRowAction"
+}
+
+/**
+ * Named slots exposed by the console pages.
+ * @readonly
+ * @enum {string}
+ */
+export enum ExtensionPointSlots {
+    APPLICATION_EDIT_TABS = "application.edit.tabs",
+    APPLICATION_LIST_HEADER_ACTIONS = "application.list.headerActions",
+    APPLICATION_LIST_ROW_ACTIONS = "application.list.rowActions",
+    IDENTITY_PROVIDER_EDIT_TABS = "identityProvider.edit.tabs",
+    IDENTITY_PROVIDER_LIST_HEADER_ACTIONS = "identityProvider.list.headerActions",
+    IDENTITY_PROVIDER_LIST_ROW_ACTIONS = "identityProvider.list.rowActions",
+    SERVER_CONFIGURATION_SECTIONS = "serverConfiguration.sections",
+    SERVER_CONFIGURATION_WIDGETS = "serverConfiguration.widgets",
+    USER_EDIT_TABS = "user.edit.tabs",
+    USER_LIST_HEADER_ACTIONS = "user.list.headerActions",
+    USER_LIST_ROW_ACTIONS = "user.list.rowActions"
+}
+
+/**
+ * Interface for an extension point entry in the extensions config.
+ */
+export interface ExtensionPointConfigInterface {
+    /**
+     * Unique id of the entry.
+     */
+    id: string;
+    /**
+     * Slot to plug the component in to.
+     */
+    slot: ExtensionPointSlots;
+    /**
+     * Path of the module exporting the component as the default export.
+     */
+    component: string;
+    /**
+     * i18n key or the text of the tab or the action. Required for tabs and actions.
+     */
+    title?: string;
+    /**
+     * Icon of the action. Required for table row actions.
+     */
+    icon?: SemanticICONS;
+    /**
+     * Position of the entry in the slot. Entries without an order are placed last.
+     */
+    order?: number;
+    /**
+     * Scopes the user should have for the entry to be shown.
+     */
+    scopes?: string[];
+    /**
+     * Additional props passed down to the component.
+     */
+    props?: Record<string, unknown>;
+}
+
+/**
+ * Interface for a validated extension point entry with the component ready to be rendered.
+ */
+export interface ExtensionPointInterface extends Omit<ExtensionPointConfigInterface, "component"> {
+    component: LazyExoticComponent<ComponentType<any>>;
+    type: ExtensionPointTypes;
+}
+
+/**
+ * Interface for a problem found in the extension point config.
+ */
+export interface ExtensionPointValidationIssueInterface {
+    /**
+     * Id of the entry if available.
+     */
+    id?: string;
+    /**
+     * Index of the entry in the config.
+     */
+    index: number;
+    /**
+     * Description of the problem.
+     */
+    message: string;
+}
+
+/**
+ * Interface for the validation report of the extension point config.
+ */
+export interface ExtensionPointValidationReportInterface {
+    /**
+     * Ids of the entries which were registered.
+     */
+    registered: string[];
+    /**
+     * Problems which caused entries to be skipped.
+     */
+    issues: ExtensionPointValidationIssueInterface[];
+}
@@ -40,6 +40,7 @@ import React, { FunctionComponent, ReactElement, ReactNode, SyntheticEvent, useE
 import { Trans, useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
 import { Header, Icon, Label, SemanticICONS } from "semantic-ui-react";
+import { ExtensionPointSlots, useExtensionPointRowActions } from "../../../extensions";
 import {
     AppConstants,
     AppState,
@@ -142,6 +143,9 @@ export const ApplicationList: FunctionComponent<ApplicationListPropsInterface> =
 
     const { t } = useTranslation();
 
+    const { actions: extensionActions, modal: extensionActionModal } = useExtensionPointRowActions(
+        ExtensionPointSlots.APPLICATION_LIST_ROW_ACTIONS, testId);
+
     const dispatch = useDispatch();
 
     const applicationTemplates: ApplicationTemplateListItemInterface[] = useSelector(
@@ -366,7 +370,8 @@ export const ApplicationList: FunctionComponent<ApplicationListPropsInterface> =
                 },
                 popupText: (): string => t("common:delete"),
                 renderer: "semantic-icon"
-            }
+            },
+            ...extensionActions
         ];
     };
 
@@ -443,6 +448,7 @@ export const ApplicationList: FunctionComponent<ApplicationListPropsInterface> =
                 transparent={ !(isLoading || isApplicationTemplateRequestLoading) && (showPlaceholders() !== null) }
                 data-testid={ testId }
             />
+            { extensionActionModal }
             {
                 deletingApplication && (
                     <ConfirmationModal
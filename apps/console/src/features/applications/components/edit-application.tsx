@@ -16,16 +16,25 @@
  * under the License.
  */
 
+import { ResourceBundleConstants } from "@wso2is/core/constants";
 import { isFeatureEnabled } from "@wso2is/core/helpers";
-import { AlertLevels, SBACInterface, TestableComponentInterface } from "@wso2is/core/models";
+import {
+    AlertLevels,
+    ResourceBundleFormats,
+    ResourceBundleInterface,
+    SBACInterface,
+    TestableComponentInterface
+} from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
+import { ResourceBundleUtils } from "@wso2is/core/utils";
 import { ConfirmationModal, ContentLoader, CopyInputField, ResourceTab } from "@wso2is/react-components";
 import Axios from "axios";
+import { saveAs } from "file-saver";
 import isEmpty from "lodash-es/isEmpty";
 import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
-import { Form, Grid } from "semantic-ui-react";
+import { Form, Grid, StrictTabProps } from "semantic-ui-react";
 import { InboundProtocolsMeta } from "./meta";
 import {
     AccessConfiguration,
@@ -36,7 +45,13 @@ import {
     SignOnMethods
 } from "./settings";
 import { Info } from "./settings/info";
-import { ComponentExtensionPlaceholder, applicationConfig } from "../../../extensions";
+import { TokenPreview } from "./settings/token-preview";
+import {
+    ComponentExtensionPlaceholder,
+    ExtensionPointSlots,
+    applicationConfig,
+    getExtensionPointTabPanes
+} from "../../../extensions";
 import { AppState, CORSOriginsListInterface, FeatureConfigInterface, getCORSOrigins } from "../../core";
 import { getInboundProtocolConfig } from "../api";
 import { ApplicationManagementConstants } from "../constants";
@@ -44,6 +59,7 @@ import {
     ApplicationInterface,
     ApplicationTemplateInterface,
     AuthProtocolMetaListItemInterface,
+    MainApplicationInterface,
     OIDCApplicationConfigurationInterface,
     OIDCDataInterface,
     SAMLApplicationConfigurationInterface,
@@ -330,6 +346,38 @@ export const EditApplication: FunctionComponent<EditApplicationPropsInterface> =
         setShowClientSecretHashDisclaimerModal(true);
     }, [ urlSearchParams.get(ApplicationManagementConstants.CLIENT_SECRET_HASH_ENABLED_URL_SEARCH_PARAM_KEY) ]);
 
+    /**
+     * Exports the application and the configured inbound protocols as a bundle file.
+     *
+     * @param {ResourceBundleFormats} format - Format of the exported file.
+     */
+    const handleApplicationExport = (format: ResourceBundleFormats): void => {
+        try {
+            const bundle: ResourceBundleInterface<MainApplicationInterface> = ApplicationManagementUtils
+                .buildApplicationBundle(application, inboundProtocolConfig);
+            const blob: Blob = new Blob([ ResourceBundleUtils.serialize(bundle, format) ], {
+                type: ResourceBundleConstants.MIME_TYPES.get(format)
+            });
+
+            saveAs(blob, ResourceBundleUtils.getFileName(bundle, application.name, format));
+
+            dispatch(addAlert({
+                description: t("console:develop.features.applications.notifications.exportApplication.success" +
+                    ".description"),
+                level: AlertLevels.SUCCESS,
+                message: t("console:develop.features.applications.notifications.exportApplication.success.message")
+            }));
+        } catch (error) {
+            dispatch(addAlert({
+                description: t("console:develop.features.applications.notifications.exportApplication.genericError" +
+                    ".description"),
+                level: AlertLevels.ERROR,
+                message: t("console:develop.features.applications.notifications.exportApplication.genericError" +
+                    ".message")
+            }));
+        }
+    };
+
     /**
      * Todo Remove this mapping and fix the backend.
      */
@@ -487,6 +535,7 @@ export const EditApplication: FunctionComponent<EditApplicationPropsInterface> =
                 name={ application.name }
                 isLoading={ isLoading }
                 onDelete={ onDelete }
+                onExport={ !isInboundProtocolConfigRequestLoading ? handleApplicationExport : undefined }
                 onUpdate={ handleApplicationUpdate }
                 featureConfig={ featureConfig }
                 template={ template }
@@ -597,6 +646,16 @@ export const EditApplication: FunctionComponent<EditApplicationPropsInterface> =
         </ResourceTab.Pane>
     );
 
+    const TokenPreviewTabPane = (): ReactElement => (
+        <ResourceTab.Pane controlledSegmentation>
+            <TokenPreview
+                application={ application }
+                oidcConfiguration={ inboundProtocolConfig?.oidc }
+                data-testid={ `${ testId }-token-preview` }
+            />
+        </ResourceTab.Pane>
+    );
+
     /**
      * Resolves the tab panes based on the application config.
      *
@@ -604,6 +663,8 @@ export const EditApplication: FunctionComponent<EditApplicationPropsInterface> =
      */
     const resolveTabPanes = (): any[] => {
         const panes: any[] = [];
+        const isTokenPreviewAvailable: boolean = inboundProtocolList.includes(SupportedAuthProtocolTypes.OIDC)
+            && !!inboundProtocolConfig?.oidc;
 
         if (!tabPaneExtensions && applicationConfig.editApplication.extendTabs) {
             return [];
@@ -665,6 +726,17 @@ export const EditApplication: FunctionComponent<EditApplicationPropsInterface> =
                     render: AdvancedSettingsTabPane
                 });
             }
+            if (isTokenPreviewAvailable
+                && isFeatureEnabled(featureConfig?.applications,
+                    ApplicationManagementConstants.FEATURE_DICTIONARY.get("APPLICATION_EDIT_TOKEN_PREVIEW"))) {
+
+                panes.push({
+                    menuItem: t("console:develop.features.applications.edit.sections.tokenPreview.tabName"),
+                    render: TokenPreviewTabPane
+                });
+            }
+            panes.push(...resolveExtensionPointTabPanes());
+
             if (isFeatureEnabled(featureConfig?.applications,
                 ApplicationManagementConstants.FEATURE_DICTIONARY.get("APPLICATION_EDIT_INFO"))) {
 
@@ -705,6 +777,11 @@ export const EditApplication: FunctionComponent<EditApplicationPropsInterface> =
                 menuItem: t("console:develop.features.applications.edit.sections.advanced.tabName"),
                 render: AdvancedSettingsTabPane
             },
+            isTokenPreviewAvailable && {
+                menuItem: t("console:develop.features.applications.edit.sections.tokenPreview.tabName"),
+                render: TokenPreviewTabPane
+            },
+            ...resolveExtensionPointTabPanes(),
             {
                 menuItem: {
                     content: t("console:develop.features.applications.edit.sections.info.tabName"),
@@ -715,6 +792,19 @@ export const EditApplication: FunctionComponent<EditApplicationPropsInterface> =
         ];
     };
 
+    /**
+     * Resolves the tab panes registered for the application edit page through the extension points.
+     *
+     * @return {StrictTabProps["panes"]} Extension tab panes.
+     */
+    const resolveExtensionPointTabPanes = (): StrictTabProps[ "panes" ] => {
+
+        return getExtensionPointTabPanes(ExtensionPointSlots.APPLICATION_EDIT_TABS, {
+            application,
+            onApplicationUpdate: () => onUpdate(application?.id)
+        });
+    };
+
     /**
      * Handles the tab change.
      */
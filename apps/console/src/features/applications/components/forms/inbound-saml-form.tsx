@@ -16,10 +16,16 @@
  * under the License.
  */
 
-import { AlertInterface, AlertLevels, DisplayCertificate, TestableComponentInterface } from "@wso2is/core/models";
+import {
+    AlertInterface,
+    AlertLevels,
+    DisplayCertificate,
+    MandatoryArray,
+    TestableComponentInterface
+} from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
 import { CertificateManagementUtils, URLUtils } from "@wso2is/core/utils";
-import { Field, Forms, Validation } from "@wso2is/forms";
+import { Field, FormValue, Forms, Validation } from "@wso2is/forms";
 import { Code, CopyInputField, Heading, Hint, LinkButton, URLInput } from "@wso2is/react-components";
 import { FormValidation } from "@wso2is/validation";
 import isEmpty from "lodash-es/isEmpty";
@@ -27,7 +33,7 @@ import union from "lodash-es/union";
 import React, { FunctionComponent, MouseEvent, ReactElement, useEffect, useRef, useState } from "react";
 import { Trans, useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
-import { Button, Divider, Form, Grid, Label } from "semantic-ui-react";
+import { Button, Divider, Form, Grid, Icon, Label } from "semantic-ui-react";
 import { AppState, ConfigReducerStateInterface } from "../../../core";
 import { ApplicationManagementConstants } from "../../constants";
 import {
@@ -38,9 +44,11 @@ import {
     SAML2BindingTypes,
     SAML2ServiceProviderInterface,
     SAMLApplicationConfigurationInterface,
-    SAMLMetaDataInterface
+    SAMLMetaDataInterface,
+    SAMLMetadataImportResultInterface
 } from "../../models";
-import { CertificateFormFieldModal } from "../modals";
+import { ApplicationManagementUtils } from "../../utils";
+import { CertificateFormFieldModal, SAMLMetadataExportModal, SAMLMetadataImportModal } from "../modals";
 import { applicationConfig } from "../../../../extensions";
 
 interface InboundSAMLFormPropsInterface extends TestableComponentInterface {
@@ -133,6 +141,20 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
     const [ PEMValue, setPEMValue ] = useState<string>(undefined);
     const [ certificateDisplay, setCertificateDisplay ] = useState<DisplayCertificate>(null);
 
+    // State to manage the values imported from the service provider metadata.
+    const [ showMetadataImportModal, setShowMetadataImportModal ] = useState<boolean>(false);
+    const [ showMetadataExportModal, setShowMetadataExportModal ] = useState<boolean>(false);
+    const [ importedValues, setImportedValues ] = useState<SAML2ServiceProviderInterface>(undefined);
+    const [ importedCertificate, setImportedCertificate ] = useState<string>(undefined);
+    const [ importCount, setImportCount ] = useState<number>(0);
+
+    const samlValues: SAML2ServiceProviderInterface = importedValues ?? initialValues;
+    const savedCertificate: string = (CertificateTypeInterface.PEM === certificate?.type)
+        ? certificate?.value
+        : undefined;
+
+    const formValues = useRef<Map<string, FormValue>>();
+
     const issuer = useRef<HTMLElement>();
     const applicationQualifier = useRef<HTMLElement>();
     const consumerURL = useRef<HTMLDivElement>();
@@ -175,6 +197,15 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
         }
     }, [ certificate ]);
 
+    /**
+     * Drops the imported metadata values once the saved configuration is reloaded.
+     */
+    useEffect(() => {
+        setImportedValues(undefined);
+        setImportedCertificate(undefined);
+        formValues.current = undefined;
+    }, [ initialValues, certificate ]);
+
     const createDefaultAssertionConsumerUrl = () => {
         const allowedOptions = [];
         if (!isEmpty(assertionConsumerUrls)) {
@@ -255,17 +286,17 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
 
     useEffect(
         () => {
-            if (initialValues) {
-                setIsSingleLogoutProfileEnabled(initialValues?.singleLogoutProfile.enabled);
+            if (samlValues) {
+                setIsSingleLogoutProfileEnabled(samlValues?.singleLogoutProfile.enabled);
                 setIsIdpInitiatedSingleLogoutEnabled(
-                    initialValues?.singleLogoutProfile.idpInitiatedSingleLogout.enabled);
-                setIsAttributeProfileEnabled(initialValues?.attributeProfile.enabled);
-                setIsRequestSignatureValidationEnabled(initialValues?.requestValidation.enableSignatureValidation);
-                setAssertionEncryptionEnabled(initialValues?.singleSignOnProfile.assertion.encryption.enabled);
-                setIsArtifactBindingEnabled(initialValues?.singleSignOnProfile?.bindings?.
+                    samlValues?.singleLogoutProfile.idpInitiatedSingleLogout.enabled);
+                setIsAttributeProfileEnabled(samlValues?.attributeProfile.enabled);
+                setIsRequestSignatureValidationEnabled(samlValues?.requestValidation.enableSignatureValidation);
+                setAssertionEncryptionEnabled(samlValues?.singleSignOnProfile.assertion.encryption.enabled);
+                setIsArtifactBindingEnabled(samlValues?.singleSignOnProfile?.bindings?.
                 includes(SAML2BindingTypes.ARTIFACT));
             }
-        }, [initialValues]
+        }, [samlValues]
     );
 
     /**
@@ -391,10 +422,63 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
         }
     };
 
+    /**
+     * Resolves the configuration in the form including the changes which are not saved yet.
+     *
+     * @return {SAML2ServiceProviderInterface}
+     */
+    const getCurrentConfiguration = (): SAML2ServiceProviderInterface => {
+        if (formValues.current) {
+            return updateConfiguration(formValues.current).inbound
+                .manualConfiguration as unknown as SAML2ServiceProviderInterface;
+        }
+
+        // None of the fields are touched yet, but the URL inputs keep their own state.
+        return {
+            ...samlValues,
+            assertionConsumerUrls: assertionConsumerUrls.split(",") as MandatoryArray<string>,
+            singleLogoutProfile: {
+                ...samlValues?.singleLogoutProfile,
+                idpInitiatedSingleLogout: {
+                    ...samlValues?.singleLogoutProfile?.idpInitiatedSingleLogout,
+                    returnToUrls: returnToURLS ? returnToURLS.split(",") : []
+                }
+            },
+            singleSignOnProfile: {
+                ...samlValues?.singleSignOnProfile,
+                assertion: {
+                    ...samlValues?.singleSignOnProfile?.assertion,
+                    audiences: audiences ? audiences.split(",") : [],
+                    recipients: recipients ? recipients.split(",") : []
+                }
+            }
+        };
+    };
+
+    /**
+     * Fills the form with the values read from the service provider metadata.
+     *
+     * @param {SAMLMetadataImportResultInterface} result - Values read from the metadata.
+     */
+    const handleMetadataImport = (result: SAMLMetadataImportResultInterface): void => {
+        setImportedValues(result.configuration);
+        setImportedCertificate(result.certificate ?? PEMValue);
+        setPEMValue(result.certificate ?? PEMValue);
+        setShowMetadataImportModal(false);
+
+        // Re-mounts the form to pick the imported values.
+        formValues.current = undefined;
+        setImportCount(importCount + 1);
+    };
+
     return (
         metadata ?
             (
                 <Forms
+                    key={ importCount }
+                    onChange={ (isPure: boolean, values: Map<string, FormValue>) => {
+                        formValues.current = values;
+                    } }
                     onSubmit={ (values) => {
                         if (isEmpty(assertionConsumerUrls)) {
                             setAssertionConsumerUrlError(true);
@@ -418,6 +502,47 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                     } }
                 >
                     <Grid className="form-container with-max-width">
+                        <Grid.Row columns={ 1 }>
+                            <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 16 }>
+                                <Heading as="h5">
+                                    { t("console:develop.features.applications.forms.inboundSAML.metadata.heading") }
+                                </Heading>
+                                <Hint compact>
+                                    { t("console:develop.features.applications.forms.inboundSAML.metadata.hint") }
+                                </Hint>
+                                {
+                                    !readOnly && (
+                                        <Button
+                                            basic
+                                            type="button"
+                                            size="small"
+                                            onClick={ () => setShowMetadataImportModal(true) }
+                                            data-testid={ `${ testId }-metadata-import-button` }
+                                        >
+                                            <Icon name="upload"/>
+                                            { t("console:develop.features.applications.forms.inboundSAML.metadata" +
+                                                ".actions.import") }
+                                        </Button>
+                                    )
+                                }
+                                {
+                                    initialValues?.issuer && (
+                                        <Button
+                                            basic
+                                            type="button"
+                                            size="small"
+                                            onClick={ () => setShowMetadataExportModal(true) }
+                                            data-testid={ `${ testId }-metadata-export-button` }
+                                        >
+                                            <Icon name="download"/>
+                                            { t("console:develop.features.applications.forms.inboundSAML.metadata" +
+                                                ".actions.export") }
+                                        </Button>
+                                    )
+                                }
+                                <Divider/>
+                            </Grid.Column>
+                        </Grid.Row>
                         <Grid.Row columns={ 1 }>
                             <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 16 }>
                                 {
@@ -450,7 +575,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                                     t("console:develop.features.applications.forms.inboundSAML.fields" +
                                                         ".issuer.placeholder")
                                                 }
-                                                value={ initialValues?.issuer }
+                                                value={ samlValues?.issuer }
                                                 readOnly={ readOnly }
                                                 data-testid={ `${ testId }-issuer-input` }
                                                 ref={ issuer }
@@ -494,7 +619,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                                 t("console:develop.features.applications.forms.inboundSAML." +
                                                     "fields.qualifier.placeholder")
                                             }
-                                            value={ initialValues?.serviceProviderQualifier }
+                                            value={ samlValues?.serviceProviderQualifier }
                                             readOnly={ readOnly }
                                             data-testid={ `${ testId }-application-qualifier-input` }
                                         />
@@ -517,7 +642,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                         t("console:develop.features.applications.forms.inboundSAML.fields" +
                                             ".assertionURLs.label")
                                     }
-                                    value={ initialValues?.assertionConsumerUrls.toString() }
+                                    value={ samlValues?.assertionConsumerUrls.toString() }
                                     placeholder={
                                         t("console:develop.features.applications.forms.inboundSAML.fields" +
                                             ".assertionURLs" +
@@ -587,7 +712,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     children={ createDefaultAssertionConsumerUrl() }
                                     readOnly={ readOnly }
                                     data-testid={ `${ testId }-default-assertion-consumer-url-input` }
-                                    value={ initialValues?.defaultAssertionConsumerUrl }
+                                    value={ samlValues?.defaultAssertionConsumerUrl }
                                 />
                                 <Hint>
                                     { t("console:develop.features.applications.forms.inboundSAML.fields" +
@@ -614,7 +739,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                         t("console:develop.features.applications.forms.inboundSAML.fields" +
                                             ".idpEntityIdAlias.validations.empty")
                                     }
-                                    value={ initialValues?.idpEntityIdAlias }
+                                    value={ samlValues?.idpEntityIdAlias }
                                     readOnly={ readOnly }
                                     data-testid={ `${ testId }-idp-entity-id-alias-input` }
                                 />
@@ -668,7 +793,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                         }
                                     }
                                     value={
-                                        initialValues?.requestValidation.enableSignatureValidation ?
+                                        samlValues?.requestValidation.enableSignatureValidation ?
                                             ["enableSignatureValidation"] : []
                                     }
                                     children={ [
@@ -703,7 +828,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                         type="dropdown"
                                         required={ false }
                                         disabled={ !isRequestSignatureValidationEnabled }
-                                        value={ initialValues?.requestValidation.signatureValidationCertAlias }
+                                        value={ samlValues?.requestValidation.signatureValidationCertAlias }
                                         requiredErrorMessage={
                                             t("console:develop.features.applications.forms.inboundSAML.sections" +
                                                 ".requestValidation.fields.signatureValidationCertAlias.validations" +
@@ -742,7 +867,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                         required={ false }
                                         requiredErrorMessage="this is needed"
                                         type="checkbox"
-                                        value={ initialValues?.responseSigning.enabled ? ["enabled"] : [] }
+                                        value={ samlValues?.responseSigning.enabled ? ["enabled"] : [] }
                                         listen={
                                             (values) => {
                                                 setSignSAMLResponsesEnabled(
@@ -784,7 +909,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                             ".responseSigning.fields.digestAlgorithm.validations.empty")
                                     }
                                     default={ metadata?.responseDigestAlgorithm.defaultValue }
-                                    value={ initialValues?.singleSignOnProfile.assertion.digestAlgorithm }
+                                    value={ samlValues?.singleSignOnProfile.assertion.digestAlgorithm }
                                     children={ getAllowedOptions(metadata?.responseDigestAlgorithm) }
                                     readOnly={ readOnly }
                                     disabled={ !isSignSAMLResponsesEnabled }
@@ -803,7 +928,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     name="signingAlgorithm"
                                     type="dropdown"
                                     required={ false }
-                                    value={ initialValues?.responseSigning.signingAlgorithm }
+                                    value={ samlValues?.responseSigning.signingAlgorithm }
                                     requiredErrorMessage={
                                         t("console:develop.features.applications.forms.inboundSAML.sections" +
                                             ".responseSigning.fields.signingAlgorithm.validations.empty")
@@ -857,7 +982,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                         { label: "Artifact", value: "ARTIFACT" }
                                     ] }
                                     value={
-                                        union(initialValues?.singleSignOnProfile?.bindings,
+                                        union(samlValues?.singleSignOnProfile?.bindings,
                                             [ "HTTP_POST", "HTTP_REDIRECT" ])
                                     }
                                     readOnly={ readOnly }
@@ -889,7 +1014,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     requiredErrorMessage="this is needed"
                                     type="checkbox"
                                     value={
-                                        isArtifactBindingEnabled && initialValues?.singleSignOnProfile
+                                        isArtifactBindingEnabled && samlValues?.singleSignOnProfile
                                             .enableSignatureValidationForArtifactBinding ?
                                             ["enableSignatureValidationForArtifactBinding"] : [] }
                                     children={ [
@@ -922,7 +1047,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     }
                                     type="checkbox"
                                     value={
-                                        initialValues?.singleSignOnProfile.enableIdpInitiatedSingleSignOn ?
+                                        samlValues?.singleSignOnProfile.enableIdpInitiatedSingleSignOn ?
                                             ["enableIdPInitiatedSSO"] : []
                                     }
                                     children={ [
@@ -970,7 +1095,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                         t("console:develop.features.applications.forms.inboundSAML.sections" +
                                             ".assertion.fields.nameIdFormat.validations.empty")
                                     }
-                                    value={ initialValues?.singleSignOnProfile.assertion.nameIdFormat }
+                                    value={ samlValues?.singleSignOnProfile.assertion.nameIdFormat }
                                     readOnly={ readOnly }
                                     data-testid={ `${ testId }-name-id-format-input` }
                                 />
@@ -990,7 +1115,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                         t("console:develop.features.applications.forms.inboundSAML.sections" +
                                             ".assertion.fields.audience.label")
                                     }
-                                    value={ initialValues?.singleSignOnProfile.assertion.audiences.toString() }
+                                    value={ samlValues?.singleSignOnProfile.assertion.audiences.toString() }
                                     placeholder={
                                         t("console:develop.features.applications.forms.inboundSAML.sections" +
                                             ".assertion.fields.audience.placeholder")
@@ -1044,7 +1169,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                         t("console:develop.features.applications.forms.inboundSAML.sections" +
                                             ".assertion.fields.recipients.label")
                                     }
-                                    value={ initialValues?.singleSignOnProfile.assertion.recipients.toString() }
+                                    value={ samlValues?.singleSignOnProfile.assertion.recipients.toString() }
                                     placeholder={
                                         t("console:develop.features.applications.forms.inboundSAML.sections" +
                                             ".assertion.fields.recipients.placeholder")
@@ -1100,7 +1225,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                             ".encryption.fields.assertionEncryption.validations.empty")
                                     }
                                     value={
-                                        initialValues?.singleSignOnProfile.assertion.encryption.enabled ?
+                                        samlValues?.singleSignOnProfile.assertion.encryption.enabled ?
                                             ["enableAssertionEncryption"] : []
                                     }
                                     type="checkbox"
@@ -1141,7 +1266,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     disabled={ !isAssertionEncryptionEnabled }
                                     default={ metadata?.assertionEncryptionAlgorithm.defaultValue }
                                     value={
-                                        initialValues?.singleSignOnProfile.assertion.encryption
+                                        samlValues?.singleSignOnProfile.assertion.encryption
                                             .assertionEncryptionAlgorithm
                                     }
                                     children={ getAllowedOptions(metadata?.assertionEncryptionAlgorithm) }
@@ -1168,7 +1293,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     }
                                     default={ metadata?.keyEncryptionAlgorithm.defaultValue }
                                     value={
-                                        initialValues?.singleSignOnProfile.assertion.encryption
+                                        samlValues?.singleSignOnProfile.assertion.encryption
                                             .keyEncryptionAlgorithm
                                     }
                                     children={ getAllowedOptions(metadata?.keyEncryptionAlgorithm) }
@@ -1196,7 +1321,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     requiredErrorMessage="this is needed"
                                     type="checkbox"
                                     value={
-                                        initialValues?.attributeProfile.enabled ?
+                                        samlValues?.attributeProfile.enabled ?
                                             ["enabled"] : []
                                     }
                                     listen={
@@ -1246,7 +1371,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                                 t("console:develop.features.applications.forms.inboundSAML.sections" +
                                                     ".attributeProfile.fields.serviceIndex.validations.empty")
                                             }
-                                            value={ initialValues?.singleSignOnProfile.attributeConsumingServiceIndex }
+                                            value={ samlValues?.singleSignOnProfile.attributeConsumingServiceIndex }
                                             readOnly={ readOnly }
                                             data-testid={ `${ testId }-attribute-consuming-service-index-input` }
                                         />
@@ -1283,7 +1408,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     }
                                     type="checkbox"
                                     value={
-                                        initialValues?.singleLogoutProfile.enabled ?
+                                        samlValues?.singleLogoutProfile.enabled ?
                                             ["enabled"] : []
                                     }
                                     listen={
@@ -1321,7 +1446,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     name="logoutMethod"
                                     type="dropdown"
                                     required={ false }
-                                    value={ initialValues?.singleLogoutProfile.logoutMethod }
+                                    value={ samlValues?.singleLogoutProfile.logoutMethod }
                                     requiredErrorMessage={
                                         t("console:develop.features.applications.forms.inboundSAML.sections" +
                                             ".sloProfile.fields.logoutMethod.validations.empty")
@@ -1380,7 +1505,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     }
                                     disabled={ !isSingleLogoutProfileEnabled }
                                     type="text"
-                                    value={ initialValues?.singleLogoutProfile.logoutResponseUrl }
+                                    value={ samlValues?.singleLogoutProfile.logoutResponseUrl }
                                     readOnly={ readOnly }
                                     data-testid={ `${ testId }-single-logout-response-url-input` }
                                 />
@@ -1421,7 +1546,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     }
                                     disabled={ !isSingleLogoutProfileEnabled }
                                     type="text"
-                                    value={ initialValues?.singleLogoutProfile.logoutRequestUrl }
+                                    value={ samlValues?.singleLogoutProfile.logoutRequestUrl }
                                     readOnly={ readOnly }
                                     data-testid={ `${ testId }-single-logout-request-url-input` }
                                 />
@@ -1452,7 +1577,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     type="checkbox"
                                     disabled={ !isSingleLogoutProfileEnabled }
                                     value={
-                                        initialValues?.singleLogoutProfile.idpInitiatedSingleLogout.enabled ?
+                                        samlValues?.singleLogoutProfile.idpInitiatedSingleLogout.enabled ?
                                             ["enabled"] : []
                                     }
                                     listen={
@@ -1487,7 +1612,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     ".idpInitiatedSLO.fields.returnToURLs.label")
                             }
                             value={
-                                initialValues?.singleLogoutProfile.idpInitiatedSingleLogout.returnToUrls.toString()
+                                samlValues?.singleLogoutProfile.idpInitiatedSingleLogout.returnToUrls.toString()
                             }
                             placeholder={
                                 t("console:develop.features.applications.forms.inboundSAML.sections" +
@@ -1558,7 +1683,7 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                                     ".requestProfile.fields.enable.validations.empty")
                                             }
                                             value={
-                                                initialValues?.enableAssertionQueryProfile ?
+                                                samlValues?.enableAssertionQueryProfile ?
                                                     ["enableAssertionQueryProfile"] : []
                                             }
                                             type="checkbox"
@@ -1602,8 +1727,10 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                     }
                                     type="textarea"
                                     value={
-                                        (CertificateTypeInterface.PEM === certificate?.type)
-                                        && certificate?.value
+                                        importedCertificate ?? (
+                                            (CertificateTypeInterface.PEM === certificate?.type)
+                                            && certificate?.value
+                                        )
                                     }
                                     listen={
                                         (values) => {
@@ -1649,6 +1776,30 @@ export const InboundSAMLForm: FunctionComponent<InboundSAMLFormPropsInterface> =
                                 />
                             )
                         }
+                        {
+                            showMetadataImportModal && (
+                                <SAMLMetadataImportModal
+                                    configuration={ getCurrentConfiguration() }
+                                    certificate={ PEMValue }
+                                    onApply={ handleMetadataImport }
+                                    onClose={ () => setShowMetadataImportModal(false) }
+                                    data-testid={ `${ testId }-metadata-import-modal` }
+                                />
+                            )
+                        }
+                        {
+                            showMetadataExportModal && (
+                                <SAMLMetadataExportModal
+                                    configuration={ initialValues }
+                                    changes={
+                                        ApplicationManagementUtils.getSAMLConfigurationChanges(initialValues,
+                                            getCurrentConfiguration(), savedCertificate, PEMValue)
+                                    }
+                                    onClose={ () => setShowMetadataExportModal(false) }
+                                    data-testid={ `${ testId }-metadata-export-modal` }
+                                />
+                            )
+                        }
                         {
                             !readOnly && (
                                 <Grid.Row columns={ 1 }>
@@ -17,3 +17,4 @@
  */
 
 export * from "./certificate-form-field-modal";
+export * from "./saml-metadata-modals";
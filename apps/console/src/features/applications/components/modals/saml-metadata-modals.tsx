@@ -0,0 +1,467 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { ResourceDiffInterface, TestableComponentInterface } from "@wso2is/core/models";
+import { SAMLMetadataUtils } from "@wso2is/core/utils";
+import {
+    CodeEditor,
+    FilePicker,
+    Heading,
+    Hint,
+    LinkButton,
+    PrimaryButton,
+    XMLFileStrategy
+} from "@wso2is/react-components";
+import { saveAs } from "file-saver";
+import React, { FunctionComponent, ReactElement, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useSelector } from "react-redux";
+import { Icon, List, Message, Modal, Table } from "semantic-ui-react";
+import { AppState } from "../../../core";
+import {
+    SAML2ServiceProviderInterface,
+    SAMLApplicationConfigurationInterface,
+    SAMLMetadataImportResultInterface
+} from "../../models";
+import { ApplicationManagementUtils } from "../../utils";
+
+/**
+ * File strategy to read the service provider metadata.
+ * @constant
+ * @type {XMLFileStrategy}
+ */
+const FILE_STRATEGY: XMLFileStrategy = new XMLFileStrategy();
+
+/**
+ * Prop types of the `SAMLMetadataImportModal` component.
+ */
+interface SAMLMetadataImportModalPropsInterface extends TestableComponentInterface {
+    /**
+     * Configuration the metadata is applied on.
+     */
+    configuration: SAML2ServiceProviderInterface;
+    /**
+     * PEM encoded certificate of the configuration.
+     */
+    certificate?: string;
+    /**
+     * Callback to be triggered with the resolved configuration.
+     */
+    onApply: (result: SAMLMetadataImportResultInterface) => void;
+    /**
+     * Callback to close the modal.
+     */
+    onClose: () => void;
+}
+
+/**
+ * Prop types of the `SAMLMetadataExportModal` component.
+ */
+interface SAMLMetadataExportModalPropsInterface extends TestableComponentInterface {
+    /**
+     * Saved configuration of the application.
+     */
+    configuration: SAML2ServiceProviderInterface;
+    /**
+     * Changes in the form which are not saved yet.
+     */
+    changes: ResourceDiffInterface[];
+    /**
+     * Callback to close the modal.
+     */
+    onClose: () => void;
+}
+
+/**
+ * Prop types of the `SAMLConfigurationChanges` component.
+ */
+interface SAMLConfigurationChangesPropsInterface extends TestableComponentInterface {
+    /**
+     * Changes to be listed.
+     */
+    changes: ResourceDiffInterface[];
+}
+
+/**
+ * Stringifies a diff value for the preview.
+ *
+ * @param {unknown} value - Value to be shown.
+ * @return {string} Readable value.
+ */
+const resolveDiffValue = (value: unknown): string => {
+    if (value === undefined) {
+        return "-";
+    }
+
+    return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+/**
+ * Lists the changes between two SAML configurations.
+ *
+ * @param {SAMLConfigurationChangesPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+const SAMLConfigurationChanges: FunctionComponent<SAMLConfigurationChangesPropsInterface> = (
+    props: SAMLConfigurationChangesPropsInterface
+): ReactElement => {
+
+    const {
+        changes,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    return (
+        <Table compact="very" size="small" data-testid={ testId }>
+            <Table.Header>
+                <Table.Row>
+                    <Table.HeaderCell>
+                        { t("console:develop.features.applications.forms.inboundSAML.metadata.diff.columns.path") }
+                    </Table.HeaderCell>
+                    <Table.HeaderCell>
+                        { t("console:develop.features.applications.forms.inboundSAML.metadata.diff.columns.current") }
+                    </Table.HeaderCell>
+                    <Table.HeaderCell>
+                        { t("console:develop.features.applications.forms.inboundSAML.metadata.diff.columns.incoming") }
+                    </Table.HeaderCell>
+                </Table.Row>
+            </Table.Header>
+            <Table.Body>
+                { changes.map((change: ResourceDiffInterface) => (
+                    <Table.Row key={ change.path }>
+                        <Table.Cell><code>{ change.path }</code></Table.Cell>
+                        <Table.Cell className="ellipsis">{ resolveDiffValue(change.currentValue) }</Table.Cell>
+                        <Table.Cell className="ellipsis">{ resolveDiffValue(change.incomingValue) }</Table.Cell>
+                    </Table.Row>
+                )) }
+            </Table.Body>
+        </Table>
+    );
+};
+
+/**
+ * Reads a service provider metadata document and previews the values it fills in the SAML configuration
+ * along with the elements which can't be mapped to the configuration.
+ *
+ * @param {SAMLMetadataImportModalPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const SAMLMetadataImportModal: FunctionComponent<SAMLMetadataImportModalPropsInterface> = (
+    props: SAMLMetadataImportModalPropsInterface
+): ReactElement => {
+
+    const {
+        certificate,
+        configuration,
+        onApply,
+        onClose,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ selectedFile, setSelectedFile ] = useState<File>(null);
+    const [ pastedContent, setPastedContent ] = useState<string>(null);
+    const [ result, setResult ] = useState<SAMLMetadataImportResultInterface>(null);
+    const [ error, setError ] = useState<string>(null);
+
+    const changes: ResourceDiffInterface[] = useMemo(() => {
+        if (!result) {
+            return [];
+        }
+
+        return ApplicationManagementUtils.getSAMLConfigurationChanges(configuration, result.configuration,
+            certificate, result.certificate ?? certificate);
+    }, [ result ]);
+
+    /**
+     * Reads the selected metadata.
+     *
+     * @param {string} serialized - Base64 encoded metadata.
+     */
+    const readMetadata = (serialized: string): void => {
+        setResult(null);
+        setError(null);
+
+        if (!serialized) {
+            return;
+        }
+
+        try {
+            setResult(ApplicationManagementUtils.getSAMLConfigurationFromMetadata(
+                SAMLMetadataUtils.parseServiceProviderMetadata(atob(serialized)), configuration));
+        } catch (e) {
+            setError(e.message);
+        }
+    };
+
+    return (
+        <Modal
+            open
+            closeIcon
+            dimmer="blurring"
+            size="small"
+            onClose={ onClose }
+            data-testid={ testId }
+        >
+            <Modal.Header>
+                { t("console:develop.features.applications.forms.inboundSAML.metadata.import.heading") }
+                <div className="sub header">
+                    { t("console:develop.features.applications.forms.inboundSAML.metadata.import.hint") }
+                </div>
+            </Modal.Header>
+            <Modal.Content scrolling>
+                <FilePicker
+                    fileStrategy={ FILE_STRATEGY }
+                    file={ selectedFile }
+                    pastedContent={ pastedContent }
+                    onChange={ (picked) => {
+                        setSelectedFile(picked.file);
+                        setPastedContent(picked.pastedContent);
+                        readMetadata(picked.valid ? picked.serialized as string : null);
+                    } }
+                    uploadButtonText={
+                        t("console:develop.features.applications.forms.inboundSAML.metadata.import.filePicker" +
+                            ".uploadButtonText")
+                    }
+                    dropzoneText={
+                        t("console:develop.features.applications.forms.inboundSAML.metadata.import.filePicker" +
+                            ".dropzoneText")
+                    }
+                    pasteAreaPlaceholderText={
+                        t("console:develop.features.applications.forms.inboundSAML.metadata.import.filePicker" +
+                            ".pasteAreaPlaceholderText")
+                    }
+                    placeholderIcon={ <Icon name="file code outline" size="huge"/> }
+                    normalizeStateOnRemoveOperations={ true }
+                    data-testid={ `${ testId }-file-picker` }
+                />
+                {
+                    error && (
+                        <Message
+                            error
+                            visible
+                            header={
+                                t("console:develop.features.applications.forms.inboundSAML.metadata.import.error")
+                            }
+                            content={ error }
+                            data-testid={ `${ testId }-error` }
+                        />
+                    )
+                }
+                {
+                    result && (
+                        <>
+                            {
+                                configuration?.issuer && configuration.issuer !== result.entityId && (
+                                    <Message
+                                        warning
+                                        visible
+                                        content={
+                                            t("console:develop.features.applications.forms.inboundSAML.metadata" +
+                                                ".import.issuerMismatch", {
+                                                entityId: result.entityId,
+                                                issuer: configuration.issuer
+                                            })
+                                        }
+                                        data-testid={ `${ testId }-issuer-mismatch` }
+                                    />
+                                )
+                            }
+                            {
+                                result.unsupportedElements.length > 0 && (
+                                    <Message warning visible data-testid={ `${ testId }-unsupported-elements` }>
+                                        <Message.Header>
+                                            { t("console:develop.features.applications.forms.inboundSAML.metadata" +
+                                                ".import.unsupported.heading") }
+                                        </Message.Header>
+                                        <p>
+                                            { t("console:develop.features.applications.forms.inboundSAML.metadata" +
+                                                ".import.unsupported.description") }
+                                        </p>
+                                        <List bulleted>
+                                            {
+                                                result.unsupportedElements.map((element: string) => (
+                                                    <List.Item key={ element }><code>{ element }</code></List.Item>
+                                                ))
+                                            }
+                                        </List>
+                                    </Message>
+                                )
+                            }
+                            <Heading as="h5">
+                                { t("console:develop.features.applications.forms.inboundSAML.metadata.diff.heading") }
+                            </Heading>
+                            {
+                                changes.length === 0
+                                    ? (
+                                        <Hint compact>
+                                            { t("console:develop.features.applications.forms.inboundSAML.metadata" +
+                                                ".import.empty") }
+                                        </Hint>
+                                    )
+                                    : <SAMLConfigurationChanges changes={ changes } data-testid={ `${ testId }-diff` }/>
+                            }
+                        </>
+                    )
+                }
+            </Modal.Content>
+            <Modal.Actions>
+                <LinkButton onClick={ onClose } data-testid={ `${ testId }-cancel-button` }>
+                    { t("common:cancel") }
+                </LinkButton>
+                <PrimaryButton
+                    disabled={ !result }
+                    onClick={ () => onApply(result) }
+                    data-testid={ `${ testId }-apply-button` }
+                >
+                    { t("console:develop.features.applications.forms.inboundSAML.metadata.import.actions.apply") }
+                </PrimaryButton>
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the SAML metadata import modal.
+ */
+SAMLMetadataImportModal.defaultProps = {
+    "data-testid": "saml-metadata-import-modal"
+};
+
+/**
+ * Shows the identity provider metadata of an application generated from its saved configuration along with
+ * the changes in the form which are not reflected in the metadata until they are saved.
+ *
+ * @param {SAMLMetadataExportModalPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const SAMLMetadataExportModal: FunctionComponent<SAMLMetadataExportModalPropsInterface> = (
+    props: SAMLMetadataExportModalPropsInterface
+): ReactElement => {
+
+    const {
+        changes,
+        configuration,
+        onClose,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const samlConfigurations: SAMLApplicationConfigurationInterface = useSelector(
+        (state: AppState) => state.application.samlConfigurations);
+
+    const metadata: string = useMemo(() => {
+        if (!samlConfigurations?.metadata) {
+            return null;
+        }
+
+        return ApplicationManagementUtils.getApplicationIdPMetadata(samlConfigurations.metadata, configuration);
+    }, [ samlConfigurations, configuration ]);
+
+    /**
+     * Downloads the metadata as an XML file.
+     */
+    const handleDownload = (): void => {
+        const blob: Blob = new Blob([ metadata ], { type: "application/xml;charset=utf-8" });
+
+        saveAs(blob, `${ configuration.issuer.replace(/[^A-Za-z0-9._-]+/g, "_") }-idp-metadata.xml`);
+    };
+
+    return (
+        <Modal
+            open
+            closeIcon
+            dimmer="blurring"
+            size="small"
+            onClose={ onClose }
+            data-testid={ testId }
+        >
+            <Modal.Header>
+                { t("console:develop.features.applications.forms.inboundSAML.metadata.export.heading") }
+                <div className="sub header">
+                    { t("console:develop.features.applications.forms.inboundSAML.metadata.export.hint") }
+                </div>
+            </Modal.Header>
+            <Modal.Content scrolling>
+                {
+                    metadata
+                        ? (
+                            <CodeEditor
+                                readOnly
+                                language="htmlmixed"
+                                sourceCode={ metadata }
+                                options={ {
+                                    lineWrapping: true
+                                } }
+                                data-testid={ `${ testId }-code-editor` }
+                            />
+                        )
+                        : (
+                            <Message
+                                warning
+                                visible
+                                content={
+                                    t("console:develop.features.applications.forms.inboundSAML.metadata.export" +
+                                        ".unavailable")
+                                }
+                                data-testid={ `${ testId }-unavailable` }
+                            />
+                        )
+                }
+                <Heading as="h5">
+                    { t("console:develop.features.applications.forms.inboundSAML.metadata.export.unsavedChanges") }
+                </Heading>
+                {
+                    changes.length === 0
+                        ? (
+                            <Hint compact>
+                                { t("console:develop.features.applications.forms.inboundSAML.metadata.export.empty") }
+                            </Hint>
+                        )
+                        : <SAMLConfigurationChanges changes={ changes } data-testid={ `${ testId }-diff` }/>
+                }
+            </Modal.Content>
+            <Modal.Actions>
+                <LinkButton onClick={ onClose } data-testid={ `${ testId }-close-button` }>
+                    { t("common:close") }
+                </LinkButton>
+                <PrimaryButton
+                    disabled={ !metadata }
+                    onClick={ handleDownload }
+                    data-testid={ `${ testId }-download-button` }
+                >
+                    { t("console:develop.features.applications.forms.inboundSAML.metadata.export.actions.download") }
+                </PrimaryButton>
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the SAML metadata export modal.
+ */
+SAMLMetadataExportModal.defaultProps = {
+    "data-testid": "saml-metadata-export-modal"
+};
@@ -17,19 +17,26 @@
  */
 
 import { hasRequiredScopes } from "@wso2is/core/helpers";
-import { AlertLevels, SBACInterface, TestableComponentInterface } from "@wso2is/core/models";
+import {
+    AlertLevels,
+    ResourceBundleFormats,
+    SBACInterface,
+    TestableComponentInterface
+} from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
 import {
     ConfirmationModal,
     ContentLoader,
     DangerZone,
     DangerZoneGroup,
-    EmphasizedSegment
+    EmphasizedSegment,
+    Heading,
+    Hint
 } from "@wso2is/react-components";
 import React, { FunctionComponent, ReactElement, useState } from "react";
 import { Trans, useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
-import { Divider } from "semantic-ui-react";
+import { Button, Divider, Grid } from "semantic-ui-react";
 import { AppState, FeatureConfigInterface, UIConfigInterface } from "../../../core";
 import { deleteApplication, updateApplicationDetails } from "../../api";
 import {
@@ -80,6 +87,10 @@ interface GeneralApplicationSettingsInterface extends SBACInterface<FeatureConfi
      * Callback to be triggered after deleting the application.
      */
     onDelete: () => void;
+    /**
+     * Callback to export the application in the given format. Export section is hidden if not passed.
+     */
+    onExport?: (format: ResourceBundleFormats) => void;
     /**
      * Callback to update the application details.
      */
@@ -116,6 +127,7 @@ export const GeneralApplicationSettings: FunctionComponent<GeneralApplicationSet
         accessUrl,
         isLoading,
         onDelete,
+        onExport,
         onUpdate,
         readOnly,
         [ "data-testid" ]: testId
@@ -207,6 +219,60 @@ export const GeneralApplicationSettings: FunctionComponent<GeneralApplicationSet
             });
     };
 
+    /**
+     * Resolves the application export section.
+     *
+     * @return {React.ReactElement} Export section.
+     */
+    const resolveExportSection = (): ReactElement => {
+        if (!onExport) {
+            return null;
+        }
+
+        return (
+            <>
+                <EmphasizedSegment padded="very" data-testid={ `${ testId }-export-section` }>
+                    <Grid>
+                        <Grid.Row columns={ 2 } verticalAlign="middle">
+                            <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 10 }>
+                                <Heading as="h4">
+                                    { t("console:develop.features.applications.edit.sections.general.export" +
+                                        ".heading") }
+                                </Heading>
+                                <Hint compact>
+                                    { t("console:develop.features.applications.edit.sections.general.export.hint") }
+                                </Hint>
+                            </Grid.Column>
+                            <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 6 } textAlign="right">
+                                <Button
+                                    basic
+                                    icon="download"
+                                    content={
+                                        t("console:develop.features.applications.edit.sections.general.export" +
+                                            ".buttons.json")
+                                    }
+                                    onClick={ (): void => onExport(ResourceBundleFormats.JSON) }
+                                    data-testid={ `${ testId }-export-json-button` }
+                                />
+                                <Button
+                                    basic
+                                    icon="download"
+                                    content={
+                                        t("console:develop.features.applications.edit.sections.general.export" +
+                                            ".buttons.yaml")
+                                    }
+                                    onClick={ (): void => onExport(ResourceBundleFormats.YAML) }
+                                    data-testid={ `${ testId }-export-yaml-button` }
+                                />
+                            </Grid.Column>
+                        </Grid.Row>
+                    </Grid>
+                </EmphasizedSegment>
+                <Divider hidden />
+            </>
+        );
+    };
+
     /**
      * Resolves the danger actions.
      *
@@ -279,6 +345,7 @@ export const GeneralApplicationSettings: FunctionComponent<GeneralApplicationSet
                         />
                     </EmphasizedSegment>
                     <Divider hidden />
+                    { resolveExportSection() }
                     { resolveDangerActions() }
                     <ConfirmationModal
                         onClose={ (): void => setShowDeleteConfirmationModal(false) }
@@ -0,0 +1,511 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import { Code, Heading, Hint, LinkButton, PrimaryButton, Text } from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { DropdownProps, Form, Grid, Label, List, Message, Modal, SemanticCOLORS } from "semantic-ui-react";
+import {
+    AdaptiveScriptSimulationLogInterface,
+    AdaptiveScriptSimulationOutcomes,
+    AdaptiveScriptSimulationResultInterface,
+    AdaptiveScriptSimulationScenarioInterface,
+    AdaptiveScriptSimulationStepResults,
+    AdaptiveScriptSimulationTraceItemInterface
+} from "../../../../models";
+import { AdaptiveScriptUtils } from "../../../../utils";
+
+/**
+ * Proptypes for the adaptive script simulator component.
+ */
+interface AdaptiveScriptSimulatorPropsInterface extends TestableComponentInterface {
+    /**
+     * ID of the application. Scenarios are saved per application.
+     */
+    appId: string;
+    /**
+     * Script to be simulated.
+     */
+    script: string | string[];
+    /**
+     * Number of steps in the authentication flow.
+     */
+    stepCount: number;
+    /**
+     * Should the simulator be opened.
+     */
+    open: boolean;
+    /**
+     * Callback to be triggered when the simulator is closed.
+     */
+    onClose: () => void;
+}
+
+/**
+ * Prefix of the translation keys of the simulator.
+ * @constant
+ * @type {string}
+ */
+const I18N_PREFIX: string = "console:develop.features.applications.edit.sections.signOnMethod.sections." +
+    "authenticationFlow.sections.scriptBased.editor.simulator.";
+
+/**
+ * Colors of the simulation outcome labels.
+ * @constant
+ * @type {Map<AdaptiveScriptSimulationOutcomes, SemanticCOLORS>}
+ */
+const OUTCOME_COLORS: Map<AdaptiveScriptSimulationOutcomes, SemanticCOLORS> = new Map()
+    .set(AdaptiveScriptSimulationOutcomes.SUCCESS, "green")
+    .set(AdaptiveScriptSimulationOutcomes.FAILED, "red")
+    .set(AdaptiveScriptSimulationOutcomes.ERROR_REDIRECT, "orange")
+    .set(AdaptiveScriptSimulationOutcomes.NO_STEPS, "grey")
+    .set(AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR, "red")
+    .set(AdaptiveScriptSimulationOutcomes.TIMEOUT, "orange");
+
+/**
+ * Parses `key=value` lines in to a map.
+ *
+ * @param {string} text - Text to parse.
+ * @return {Record<string, string>}
+ */
+const parseKeyValuePairs = (text: string): Record<string, string> => {
+    return text.split("\n").reduce((pairs: Record<string, string>, line: string) => {
+        const separatorIndex: number = line.indexOf("=");
+
+        if (separatorIndex < 1) {
+            return pairs;
+        }
+
+        pairs[ line.substring(0, separatorIndex).trim() ] = line.substring(separatorIndex + 1).trim();
+
+        return pairs;
+    }, {});
+};
+
+/**
+ * Serializes a map in to `key=value` lines.
+ *
+ * @param {Record<string, string>} pairs - Map to serialize.
+ * @return {string}
+ */
+const serializeKeyValuePairs = (pairs: Record<string, string>): string => {
+    return Object.keys(pairs)
+        .map((key: string) => `${ key }=${ pairs[ key ] }`)
+        .join("\n");
+};
+
+/**
+ * Runs the adaptive script against saved mock login scenarios and shows the
+ * steps taken, the final outcome and the log output.
+ *
+ * @param {AdaptiveScriptSimulatorPropsInterface} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const AdaptiveScriptSimulator: FunctionComponent<AdaptiveScriptSimulatorPropsInterface> = (
+    props: AdaptiveScriptSimulatorPropsInterface
+): ReactElement => {
+
+    const {
+        appId,
+        script,
+        stepCount,
+        open,
+        onClose,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ scenarios, setScenarios ] = useState<AdaptiveScriptSimulationScenarioInterface[]>([]);
+    const [ scenarioId, setScenarioId ] = useState<string>(null);
+    const [ name, setName ] = useState<string>("");
+    const [ username, setUsername ] = useState<string>("");
+    const [ roles, setRoles ] = useState<string>("");
+    const [ claims, setClaims ] = useState<string>("");
+    const [ ip, setIp ] = useState<string>("");
+    const [ userAgent, setUserAgent ] = useState<string>("");
+    const [ params, setParams ] = useState<string>("");
+    const [ stepResults, setStepResults ] = useState<Record<number, AdaptiveScriptSimulationStepResults>>({});
+    const [ result, setResult ] = useState<AdaptiveScriptSimulationResultInterface>(null);
+    const [ isRunning, setIsRunning ] = useState<boolean>(false);
+
+    /**
+     * Loads the saved scenarios when the simulator is opened.
+     */
+    useEffect(() => {
+        if (!open) {
+            return;
+        }
+
+        const savedScenarios: AdaptiveScriptSimulationScenarioInterface[] =
+            AdaptiveScriptUtils.getSimulationScenarios(appId);
+
+        setScenarios(savedScenarios);
+        loadScenario(savedScenarios[ 0 ]);
+    }, [ open, appId ]);
+
+    /**
+     * Loads a scenario in to the form. Resets the form if a scenario is not provided.
+     *
+     * @param {AdaptiveScriptSimulationScenarioInterface} scenario - Scenario to load.
+     */
+    const loadScenario = (scenario?: AdaptiveScriptSimulationScenarioInterface): void => {
+        setScenarioId(scenario?.id ?? null);
+        setName(scenario?.name ?? "");
+        setUsername(scenario?.user.username ?? "");
+        setRoles(scenario?.user.roles.join(", ") ?? "");
+        setClaims(scenario ? serializeKeyValuePairs(scenario.user.claims) : "");
+        setIp(scenario?.request.ip ?? "");
+        setUserAgent(scenario?.request.userAgent ?? "");
+        setParams(scenario ? serializeKeyValuePairs(scenario.request.params) : "");
+        setStepResults(scenario?.stepResults ?? {});
+        setResult(null);
+    };
+
+    /**
+     * Builds the scenario from the form values.
+     *
+     * @return {AdaptiveScriptSimulationScenarioInterface}
+     */
+    const buildScenario = (): AdaptiveScriptSimulationScenarioInterface => {
+        return {
+            id: scenarioId ?? Date.now().toString(),
+            name: name.trim() || username.trim() || t(I18N_PREFIX + "fields.scenario.untitled"),
+            request: {
+                ip: ip.trim(),
+                params: parseKeyValuePairs(params),
+                userAgent: userAgent.trim()
+            },
+            stepResults,
+            user: {
+                claims: parseKeyValuePairs(claims),
+                roles: roles.split(",").map((role: string) => role.trim()).filter(Boolean),
+                username: username.trim()
+            }
+        };
+    };
+
+    /**
+     * Persists the scenarios of the application.
+     *
+     * @param {AdaptiveScriptSimulationScenarioInterface[]} updatedScenarios - Scenarios to save.
+     */
+    const persistScenarios = (updatedScenarios: AdaptiveScriptSimulationScenarioInterface[]): void => {
+        setScenarios(updatedScenarios);
+        AdaptiveScriptUtils.setSimulationScenarios(appId, updatedScenarios);
+    };
+
+    /**
+     * Handles the scenario save button click event.
+     */
+    const handleScenarioSave = (): void => {
+        const scenario: AdaptiveScriptSimulationScenarioInterface = buildScenario();
+        const exists: boolean = scenarios.some((item: AdaptiveScriptSimulationScenarioInterface) => {
+            return item.id === scenario.id;
+        });
+
+        persistScenarios(exists
+            ? scenarios.map((item: AdaptiveScriptSimulationScenarioInterface) => {
+                return item.id === scenario.id ? scenario : item;
+            })
+            : [ ...scenarios, scenario ]);
+        setScenarioId(scenario.id);
+        setName(scenario.name);
+    };
+
+    /**
+     * Handles the scenario delete button click event.
+     */
+    const handleScenarioDelete = (): void => {
+        persistScenarios(scenarios.filter((item: AdaptiveScriptSimulationScenarioInterface) => {
+            return item.id !== scenarioId;
+        }));
+        loadScenario();
+    };
+
+    /**
+     * Handles the run button click event.
+     */
+    const handleSimulationRun = (): void => {
+        setIsRunning(true);
+
+        AdaptiveScriptUtils.simulateScript(script, buildScenario())
+            .then((simulationResult: AdaptiveScriptSimulationResultInterface) => {
+                setResult(simulationResult);
+            })
+            .finally(() => {
+                setIsRunning(false);
+            });
+    };
+
+    /**
+     * Renders the form of the mock login scenario.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderScenarioForm = (): ReactElement => (
+        <Form>
+            <Form.Group widths="equal">
+                <Form.Select
+                    label={ t(I18N_PREFIX + "fields.scenario.label") }
+                    placeholder={ t(I18N_PREFIX + "fields.scenario.placeholder") }
+                    options={ scenarios.map((scenario: AdaptiveScriptSimulationScenarioInterface) => ({
+                        key: scenario.id,
+                        text: scenario.name,
+                        value: scenario.id
+                    })) }
+                    value={ scenarioId }
+                    onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                        loadScenario(scenarios.find((scenario: AdaptiveScriptSimulationScenarioInterface) => {
+                            return scenario.id === value;
+                        }));
+                    } }
+                    data-testid={ `${ testId }-scenario-dropdown` }
+                />
+                <Form.Input
+                    label={ t(I18N_PREFIX + "fields.name.label") }
+                    placeholder={ t(I18N_PREFIX + "fields.name.placeholder") }
+                    value={ name }
+                    onChange={ (e, { value }) => setName(value) }
+                    data-testid={ `${ testId }-name-input` }
+                />
+            </Form.Group>
+            <Heading as="h5">{ t(I18N_PREFIX + "sections.user") }</Heading>
+            <Form.Group widths="equal">
+                <Form.Input
+                    label={ t(I18N_PREFIX + "fields.username.label") }
+                    placeholder={ t(I18N_PREFIX + "fields.username.placeholder") }
+                    value={ username }
+                    onChange={ (e, { value }) => setUsername(value) }
+                    data-testid={ `${ testId }-username-input` }
+                />
+                <Form.Input
+                    label={ t(I18N_PREFIX + "fields.roles.label") }
+                    placeholder={ t(I18N_PREFIX + "fields.roles.placeholder") }
+                    value={ roles }
+                    onChange={ (e, { value }) => setRoles(value) }
+                    data-testid={ `${ testId }-roles-input` }
+                />
+            </Form.Group>
+            <Form.TextArea
+                label={ t(I18N_PREFIX + "fields.claims.label") }
+                placeholder={ t(I18N_PREFIX + "fields.claims.placeholder") }
+                value={ claims }
+                onChange={ (e, { value }) => setClaims(value as string) }
+                data-testid={ `${ testId }-claims-input` }
+            />
+            <Hint>{ t(I18N_PREFIX + "fields.claims.hint") }</Hint>
+            <Heading as="h5">{ t(I18N_PREFIX + "sections.request") }</Heading>
+            <Form.Group widths="equal">
+                <Form.Input
+                    label={ t(I18N_PREFIX + "fields.ip.label") }
+                    placeholder={ t(I18N_PREFIX + "fields.ip.placeholder") }
+                    value={ ip }
+                    onChange={ (e, { value }) => setIp(value) }
+                    data-testid={ `${ testId }-ip-input` }
+                />
+                <Form.Input
+                    label={ t(I18N_PREFIX + "fields.userAgent.label") }
+                    placeholder={ t(I18N_PREFIX + "fields.userAgent.placeholder") }
+                    value={ userAgent }
+                    onChange={ (e, { value }) => setUserAgent(value) }
+                    data-testid={ `${ testId }-user-agent-input` }
+                />
+            </Form.Group>
+            <Form.TextArea
+                label={ t(I18N_PREFIX + "fields.params.label") }
+                placeholder={ t(I18N_PREFIX + "fields.params.placeholder") }
+                value={ params }
+                onChange={ (e, { value }) => setParams(value as string) }
+                data-testid={ `${ testId }-params-input` }
+            />
+            <Hint>{ t(I18N_PREFIX + "fields.params.hint") }</Hint>
+            <Heading as="h5">{ t(I18N_PREFIX + "sections.steps") }</Heading>
+            <Form.Group widths="equal">
+                {
+                    Array.from({ length: stepCount }, (item: unknown, index: number) => index + 1)
+                        .map((step: number) => (
+                            <Form.Select
+                                key={ step }
+                                label={ t(I18N_PREFIX + "fields.stepResult.label", { step }) }
+                                options={ Object.values(AdaptiveScriptSimulationStepResults).map(
+                                    (stepResult: AdaptiveScriptSimulationStepResults) => ({
+                                        key: stepResult,
+                                        text: t(I18N_PREFIX + "stepResults." + stepResult),
+                                        value: stepResult
+                                    })
+                                ) }
+                                value={ stepResults[ step ] ?? AdaptiveScriptSimulationStepResults.SUCCESS }
+                                onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                                    setStepResults({
+                                        ...stepResults,
+                                        [ step ]: value as AdaptiveScriptSimulationStepResults
+                                    });
+                                } }
+                                data-testid={ `${ testId }-step-${ step }-result-dropdown` }
+                            />
+                        ))
+                }
+            </Form.Group>
+        </Form>
+    );
+
+    /**
+     * Renders the result of the last simulation.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderResult = (): ReactElement => {
+
+        if (!result) {
+            return <Message info content={ t(I18N_PREFIX + "placeholders.noResult") }/>;
+        }
+
+        return (
+            <>
+                <Label
+                    color={ OUTCOME_COLORS.get(result.outcome) }
+                    data-testid={ `${ testId }-outcome` }
+                >
+                    { t(I18N_PREFIX + "outcomes." + result.outcome, {
+                        error: result.error,
+                        url: result.redirectUrl
+                    }) }
+                </Label>
+                <Heading as="h5">{ t(I18N_PREFIX + "sections.trace") }</Heading>
+                {
+                    result.trace.length > 0
+                        ? (
+                            <List ordered data-testid={ `${ testId }-trace` }>
+                                {
+                                    result.trace.map((item: AdaptiveScriptSimulationTraceItemInterface,
+                                        index: number) => (
+                                        <List.Item key={ index }>
+                                            { t(I18N_PREFIX + "traceItem", {
+                                                result: t(I18N_PREFIX + "stepResults." + item.result),
+                                                step: item.step
+                                            }) }
+                                            {
+                                                item.authenticationOptions && (
+                                                    <Text muted compact>
+                                                        <Code>{ JSON.stringify(item.authenticationOptions) }</Code>
+                                                    </Text>
+                                                )
+                                            }
+                                        </List.Item>
+                                    ))
+                                }
+                            </List>
+                        )
+                        : <Text muted>{ t(I18N_PREFIX + "placeholders.noSteps") }</Text>
+                }
+                <Heading as="h5">{ t(I18N_PREFIX + "sections.logs") }</Heading>
+                {
+                    result.logs.length > 0
+                        ? (
+                            <pre data-testid={ `${ testId }-logs` }>
+                                {
+                                    result.logs.map((log: AdaptiveScriptSimulationLogInterface) => {
+                                        return `[${ log.level.toUpperCase() }] ${ log.message }`;
+                                    }).join("\n")
+                                }
+                            </pre>
+                        )
+                        : <Text muted>{ t(I18N_PREFIX + "placeholders.noLogs") }</Text>
+                }
+            </>
+        );
+    };
+
+    return (
+        <Modal
+            open={ open }
+            onClose={ onClose }
+            dimmer="blurring"
+            size="large"
+            closeOnDimmerClick={ false }
+            data-testid={ testId }
+        >
+            <Modal.Header>
+                { t(I18N_PREFIX + "heading") }
+                <Heading as="h6">{ t(I18N_PREFIX + "subHeading") }</Heading>
+            </Modal.Header>
+            <Modal.Content scrolling>
+                <Grid>
+                    <Grid.Row columns={ 2 }>
+                        <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 9 }>
+                            { renderScenarioForm() }
+                            <LinkButton
+                                onClick={ () => loadScenario() }
+                                data-testid={ `${ testId }-new-scenario-button` }
+                            >
+                                { t(I18N_PREFIX + "actions.new") }
+                            </LinkButton>
+                            <LinkButton
+                                onClick={ handleScenarioSave }
+                                data-testid={ `${ testId }-save-scenario-button` }
+                            >
+                                { t(I18N_PREFIX + "actions.save") }
+                            </LinkButton>
+                            {
+                                scenarioId && (
+                                    <LinkButton
+                                        onClick={ handleScenarioDelete }
+                                        data-testid={ `${ testId }-delete-scenario-button` }
+                                    >
+                                        { t(I18N_PREFIX + "actions.delete") }
+                                    </LinkButton>
+                                )
+                            }
+                        </Grid.Column>
+                        <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 7 }>
+                            <Heading as="h5">{ t(I18N_PREFIX + "sections.result") }</Heading>
+                            { renderResult() }
+                        </Grid.Column>
+                    </Grid.Row>
+                </Grid>
+            </Modal.Content>
+            <Modal.Actions>
+                <LinkButton
+                    floated="left"
+                    onClick={ onClose }
+                    data-testid={ `${ testId }-close-button` }
+                >
+                    { t("common:close") }
+                </LinkButton>
+                <PrimaryButton
+                    onClick={ handleSimulationRun }
+                    loading={ isRunning }
+                    disabled={ isRunning }
+                    data-testid={ `${ testId }-run-button` }
+                >
+                    { t(I18N_PREFIX + "actions.run") }
+                </PrimaryButton>
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the adaptive script simulator component.
+ */
+AdaptiveScriptSimulator.defaultProps = {
+    "data-testid": "adaptive-script-simulator"
+};
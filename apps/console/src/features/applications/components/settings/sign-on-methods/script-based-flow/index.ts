@@ -16,4 +16,5 @@
  * under the License.
  */
 
+export * from "./adaptive-script-simulator";
 export * from "./script-based-flow";
@@ -23,6 +23,7 @@ import { StringUtils } from "@wso2is/core/utils";
 import {
     Code,
     CodeEditor,
+    CodeEditorLintAnnotationInterface,
     ConfirmationModal,
     Heading,
     SegmentedAccordion,
@@ -33,12 +34,13 @@ import cloneDeep from "lodash-es/cloneDeep";
 import get from "lodash-es/get";
 import isEmpty from "lodash-es/isEmpty";
 import set from "lodash-es/set";
-import React, { FunctionComponent, ReactElement, useEffect, useRef, useState } from "react";
+import React, { FunctionComponent, ReactElement, useCallback, useEffect, useRef, useState } from "react";
 import { Trans, useTranslation } from "react-i18next";
 import Joyride, { CallBackProps, STATUS, Step } from "react-joyride";
 import { useDispatch } from "react-redux";
 import { Checkbox, Icon, Menu, Sidebar } from "semantic-ui-react";
 import { stripSlashes } from "slashes";
+import { AdaptiveScriptSimulator } from "./adaptive-script-simulator";
 import { ScriptTemplatesSidePanel } from "./script-templates-side-panel";
 import { AppUtils } from "../../../../../core/utils";
 import { getAdaptiveAuthTemplates } from "../../../../api";
@@ -46,6 +48,8 @@ import { ApplicationManagementConstants } from "../../../../constants";
 import {
     AdaptiveAuthTemplateInterface,
     AdaptiveAuthTemplatesListInterface,
+    AdaptiveScriptAnalyzerContextInterface,
+    AdaptiveScriptDiagnosticInterface,
     AuthenticationSequenceInterface
 } from "../../../../models";
 import { AdaptiveScriptUtils } from "../../../../utils";
@@ -54,6 +58,14 @@ import { AdaptiveScriptUtils } from "../../../../utils";
  * Proptypes for the adaptive scripts component.
  */
 interface AdaptiveScriptsPropsInterface extends TestableComponentInterface {
+    /**
+     * Context used to validate the script. Static analysis is skipped if not provided.
+     */
+    analyzerContext?: AdaptiveScriptAnalyzerContextInterface;
+    /**
+     * ID of the application. Script simulation is disabled if not provided.
+     */
+    appId?: string;
     /**
      * Currently configured authentication sequence for the application.
      */
@@ -107,6 +119,8 @@ export const ScriptBasedFlow: FunctionComponent<AdaptiveScriptsPropsInterface> =
 ): ReactElement => {
 
     const {
+        analyzerContext,
+        appId,
         authenticationSequence,
         onTemplateSelect,
         onScriptChange,
@@ -135,6 +149,27 @@ export const ScriptBasedFlow: FunctionComponent<AdaptiveScriptsPropsInterface> =
     const [ isNewlyAddedScriptTemplate, setIsNewlyAddedScriptTemplate ] = useState<boolean>(false);
     const [ showScriptResetWarning, setShowScriptResetWarning ] = useState<boolean>(false);
     const [ showConditionalAuthContent, setShowConditionalAuthContent ] = useState<boolean>(isMinimized);
+    const [ showScriptSimulator, setShowScriptSimulator ] = useState<boolean>(false);
+
+    /**
+     * Resolves the editor annotations for the issues detected by the script analyzer.
+     *
+     * @param {string} code - Script in the editor.
+     * @return {CodeEditorLintAnnotationInterface[]}
+     */
+    const resolveLintAnnotations = useCallback((code: string): CodeEditorLintAnnotationInterface[] => {
+        return AdaptiveScriptUtils.analyzeScript(code, analyzerContext)
+            .map((diagnostic: AdaptiveScriptDiagnosticInterface) => {
+                return {
+                    from: { ch: diagnostic.from.column, line: diagnostic.from.line },
+                    message: t("console:develop.features.applications.edit.sections.signOnMethod.sections." +
+                        "authenticationFlow.sections.scriptBased.editor.diagnostics." + diagnostic.code,
+                    diagnostic.params),
+                    severity: diagnostic.severity,
+                    to: { ch: diagnostic.to.column, line: diagnostic.to.line }
+                };
+            });
+    }, [ analyzerContext ]);
 
     useEffect(() => {
         getAdaptiveAuthTemplates()
@@ -600,6 +635,20 @@ export const ScriptBasedFlow: FunctionComponent<AdaptiveScriptsPropsInterface> =
                                                         slider
                                                     />
                                                 </Menu.Item>
+                                                { appId && (
+                                                    <Menu.Item
+                                                        onClick={ () => setShowScriptSimulator(true) }
+                                                        className="action"
+                                                        title={
+                                                            t("console:develop.features.applications.edit.sections" +
+                                                                ".signOnMethod.sections.authenticationFlow.sections" +
+                                                                ".scriptBased.editor.simulator.actions.open")
+                                                        }
+                                                        data-testid={ `${ testId }-script-simulator-toggle` }
+                                                    >
+                                                        <Icon name="play"/>
+                                                    </Menu.Item>
+                                                ) }
                                                 { !readOnly && (
                                                     <Menu.Item
                                                         onClick={ handleScriptTemplateSidebarToggle }
@@ -615,6 +664,7 @@ export const ScriptBasedFlow: FunctionComponent<AdaptiveScriptsPropsInterface> =
                                     <div className="code-editor-wrapper">
                                         <CodeEditor
                                             lint
+                                            lintAnnotations={ analyzerContext && resolveLintAnnotations }
                                             language="javascript"
                                             sourceCode={ sourceCode }
                                             options={ {
@@ -635,6 +685,16 @@ export const ScriptBasedFlow: FunctionComponent<AdaptiveScriptsPropsInterface> =
                     </SegmentedAccordion.Content>
                 </SegmentedAccordion>
             </div>
+            { appId && (
+                <AdaptiveScriptSimulator
+                    appId={ appId }
+                    script={ internalScript ?? sourceCode }
+                    stepCount={ authenticationSteps }
+                    open={ showScriptSimulator }
+                    onClose={ (): void => setShowScriptSimulator(false) }
+                    data-testid={ `${ testId }-script-simulator` }
+                />
+            ) }
             <ConfirmationModal
                 onClose={ (): void => setShowScriptResetWarning(false) }
                 type="warning"
@@ -20,7 +20,7 @@ import { AlertLevels, SBACInterface, TestableComponentInterface } from "@wso2is/
 import { addAlert } from "@wso2is/core/store";
 import { Field, Forms } from "@wso2is/forms";
 import { Heading, Hint, LinkButton, PrimaryButton } from "@wso2is/react-components";
-import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
+import React, { FunctionComponent, ReactElement, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
 import { Divider, Grid, Icon } from "semantic-ui-react";
@@ -32,6 +32,9 @@ import { GenericAuthenticatorInterface } from "../../../../identity-providers";
 import { getRequestPathAuthenticators, updateAuthenticationSequence } from "../../../api";
 import {
     AdaptiveAuthTemplateInterface,
+    AdaptiveScriptAnalyzerContextInterface,
+    AdaptiveScriptDiagnosticInterface,
+    AdaptiveScriptDiagnosticSeverities,
     AuthenticationSequenceInterface,
     AuthenticationStepInterface
 } from "../../../models";
@@ -115,6 +118,21 @@ export const SignInMethodCustomization: FunctionComponent<SignInMethodCustomizat
     const [ isDefaultScript, setIsDefaultScript ] = useState<boolean>(true);
     const [ isButtonDisabled, setIsButtonDisabled ] = useState<boolean>(false);
 
+    /**
+     * Context used to validate the adaptive script against the step based flow.
+     */
+    const scriptAnalyzerContext: AdaptiveScriptAnalyzerContextInterface = useMemo(() => {
+        return {
+            authenticators: authenticators?.[ 0 ]?.map((authenticator: GenericAuthenticatorInterface) => {
+                return authenticator.name;
+            }),
+            identityProviders: authenticators?.[ 1 ]?.map((authenticator: GenericAuthenticatorInterface) => {
+                return authenticator.idp;
+            }),
+            stepCount: steps
+        };
+    }, [ authenticators, steps ]);
+
     /**
      * Toggles the update trigger.
      */
@@ -310,6 +328,24 @@ export const SignInMethodCustomization: FunctionComponent<SignInMethodCustomizat
             setAdaptiveScript(AdaptiveScriptUtils.generateScript(steps + 1).join("\n"));
             setIsDefaultScript(true);
         }
+
+        const hasScriptErrors: boolean = AdaptiveScriptUtils.analyzeScript(adaptiveScript, scriptAnalyzerContext)
+            .some((diagnostic: AdaptiveScriptDiagnosticInterface) => {
+                return diagnostic.severity === AdaptiveScriptDiagnosticSeverities.ERROR;
+            });
+
+        if (hasScriptErrors) {
+            dispatch(addAlert({
+                description: t("console:develop.features.applications.notifications.updateAuthenticationScript" +
+                    ".error.description"),
+                level: AlertLevels.ERROR,
+                message: t("console:develop.features.applications.notifications.updateAuthenticationScript" +
+                    ".error.message")
+            }));
+
+            return;
+        }
+
         setUpdateTrigger(true);
     };
 
@@ -430,6 +466,7 @@ export const SignInMethodCustomization: FunctionComponent<SignInMethodCustomizat
             <StepBasedFlow
                 authenticators={ authenticators }
                 authenticationSequence={ sequence }
+                adaptiveScript={ adaptiveScript }
                 isLoading={ isLoading }
                 onUpdate={ handleSequenceUpdate }
                 triggerUpdate={ updateTrigger }
@@ -448,6 +485,8 @@ export const SignInMethodCustomization: FunctionComponent<SignInMethodCustomizat
                 readOnly={ readOnly }
                 data-testid={ `${ testId }-script-based-flow` }
                 authenticationSteps={ steps }
+                analyzerContext={ scriptAnalyzerContext }
+                appId={ appId }
                 isDefaultScript={ isDefaultScript }
                 onAdaptiveScriptReset={ () => setIsDefaultScript(true) }
             />
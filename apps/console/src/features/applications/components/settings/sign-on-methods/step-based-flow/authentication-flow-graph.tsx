@@ -0,0 +1,533 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import { GenericIcon, Heading, Hint, LinkButton } from "@wso2is/react-components";
+import classNames from "classnames";
+import React, { FunctionComponent, ReactElement } from "react";
+import {
+    DragDropContext,
+    Draggable,
+    DraggableProvided,
+    DraggableStateSnapshot,
+    DropResult,
+    Droppable,
+    DroppableProvided
+} from "react-beautiful-dnd";
+import { useTranslation } from "react-i18next";
+import { Icon, Label, List, Message, Popup } from "semantic-ui-react";
+import {
+    AuthenticatorMeta,
+    GenericAuthenticatorInterface,
+    IdentityProviderManagementConstants
+} from "../../../../../identity-providers";
+import {
+    AdaptiveScriptStepBranchInterface,
+    AuthenticationFlowValidationIssueInterface,
+    AuthenticationStepInterface,
+    AuthenticatorInterface
+} from "../../../../models";
+
+/**
+ * Proptypes for the authentication flow graph component.
+ */
+interface AuthenticationFlowGraphPropsInterface extends TestableComponentInterface {
+    /**
+     * List of all available authenticators.
+     */
+    authenticators: GenericAuthenticatorInterface[];
+    /**
+     * Authentication steps.
+     */
+    steps: AuthenticationStepInterface[];
+    /**
+     * Step to pick the Subject.
+     */
+    subjectStepId: number;
+    /**
+     * Step to pick the Attributes.
+     */
+    attributeStepId: number;
+    /**
+     * Branches of the adaptive script.
+     */
+    branches: AdaptiveScriptStepBranchInterface[];
+    /**
+     * Issues detected in the flow.
+     */
+    issues: AuthenticationFlowValidationIssueInterface[];
+    /**
+     * Callback to trigger when the add authentication button of a step is clicked.
+     */
+    onAddAuthenticationClick: (stepIndex: number) => void;
+    /**
+     * Callback to trigger when the add new step button is clicked.
+     */
+    onStepAdd: () => void;
+    /**
+     * Callback to trigger when a step is dropped to a new position.
+     */
+    onStepMove: (sourceIndex: number, destinationIndex: number) => void;
+    /**
+     * Callback to trigger when an authenticator is dropped to a new position.
+     */
+    onStepOptionMove: (sourceStepIndex: number, sourceOptionIndex: number, destinationStepIndex: number,
+                       destinationOptionIndex: number) => void;
+    /**
+     * Callback for the step option delete.
+     */
+    onStepOptionDelete: (stepIndex: number, optionIndex: number) => void;
+    /**
+     * Callback for the subject step change.
+     */
+    onSubjectStepChange: (stepId: number) => void;
+    /**
+     * Callback for the attribute step change.
+     */
+    onAttributeStepChange: (stepId: number) => void;
+    /**
+     * Make the graph read only.
+     */
+    readOnly?: boolean;
+}
+
+/**
+ * Droppable id of the steps.
+ * @constant
+ * @type {string}
+ */
+const STEPS_DROPPABLE_ID: string = "authentication-flow-graph-steps";
+
+/**
+ * Prefix of the droppable ids of the step options.
+ * @constant
+ * @type {string}
+ */
+const STEP_OPTIONS_DROPPABLE_ID_PREFIX: string = "authentication-flow-graph-step-";
+
+/**
+ * Renders the step based authentication flow as a graph. Steps are the nodes and the authenticators
+ * of a step are chips of the node. Branches of the adaptive script are listed as the edges between steps.
+ *
+ * @param {AuthenticationFlowGraphPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const AuthenticationFlowGraph: FunctionComponent<AuthenticationFlowGraphPropsInterface> = (
+    props: AuthenticationFlowGraphPropsInterface
+): ReactElement => {
+
+    const {
+        authenticators,
+        steps,
+        subjectStepId,
+        attributeStepId,
+        branches,
+        issues,
+        onAddAuthenticationClick,
+        onStepAdd,
+        onStepMove,
+        onStepOptionMove,
+        onStepOptionDelete,
+        onSubjectStepChange,
+        onAttributeStepChange,
+        readOnly,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    /**
+     * Resolves the authenticator of a step option.
+     *
+     * @param {AuthenticatorInterface} option - Authenticator step option.
+     *
+     * @return {GenericAuthenticatorInterface}
+     */
+    const resolveAuthenticator = (option: AuthenticatorInterface): GenericAuthenticatorInterface => {
+        if (option.idp === IdentityProviderManagementConstants.LOCAL_IDP_IDENTIFIER) {
+            return authenticators.find((item: GenericAuthenticatorInterface) => {
+                return item.defaultAuthenticator.name === option.authenticator;
+            });
+        }
+
+        return authenticators.find((item: GenericAuthenticatorInterface) => item.idp === option.idp);
+    };
+
+    /**
+     * Resolves the display name of an authenticator.
+     *
+     * @param {string} name - Name of the authenticator.
+     *
+     * @return {string}
+     */
+    const resolveAuthenticatorName = (name: string): string => {
+        return AuthenticatorMeta.getAuthenticatorDisplayName(name)
+            || authenticators.find((item: GenericAuthenticatorInterface) => {
+                return item.defaultAuthenticator?.name === name;
+            })?.displayName
+            || name;
+    };
+
+    /**
+     * Resolves the message of a validation issue.
+     *
+     * @param {AuthenticationFlowValidationIssueInterface} issue - Validation issue.
+     *
+     * @return {string}
+     */
+    const resolveIssueMessage = (issue: AuthenticationFlowValidationIssueInterface): string => {
+        return t("console:develop.features.applications.edit.sections.signOnMethod.sections.authenticationFlow" +
+            ".sections.stepBased.graph.validations." + issue.code, {
+            authenticator: issue.authenticator && resolveAuthenticatorName(issue.authenticator),
+            step: issue.stepIndex + 1
+        });
+    };
+
+    /**
+     * Handles the drop of a step or an authenticator.
+     *
+     * @param {DropResult} result - Drop result.
+     */
+    const handleDragEnd = (result: DropResult): void => {
+        const { destination, source, type } = result;
+
+        if (!destination
+            || (destination.droppableId === source.droppableId && destination.index === source.index)) {
+
+            return;
+        }
+
+        if (type === STEPS_DROPPABLE_ID) {
+            onStepMove(source.index, destination.index);
+
+            return;
+        }
+
+        onStepOptionMove(
+            Number(source.droppableId.replace(STEP_OPTIONS_DROPPABLE_ID_PREFIX, "")),
+            source.index,
+            Number(destination.droppableId.replace(STEP_OPTIONS_DROPPABLE_ID_PREFIX, "")),
+            destination.index
+        );
+    };
+
+    /**
+     * Renders an authenticator chip of a step.
+     *
+     * @param {AuthenticatorInterface} option - Authenticator step option.
+     * @param {number} stepIndex - Index of the step.
+     * @param {number} optionIndex - Index of the option.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderOption = (option: AuthenticatorInterface, stepIndex: number, optionIndex: number): ReactElement => {
+        const authenticator: GenericAuthenticatorInterface = resolveAuthenticator(option);
+
+        return (
+            <Draggable
+                key={ `${ option.idp }-${ option.authenticator }` }
+                draggableId={ `${ stepIndex }-${ option.idp }-${ option.authenticator }` }
+                index={ optionIndex }
+                isDragDisabled={ readOnly }
+            >
+                { (provided: DraggableProvided) => (
+                    <div
+                        ref={ provided.innerRef }
+                        { ...provided.draggableProps }
+                        { ...provided.dragHandleProps }
+                        className="authenticator-chip"
+                        data-testid={ `${ testId }-step-${ stepIndex }-option-${ optionIndex }` }
+                    >
+                        <Label image basic>
+                            {
+                                authenticator?.image && (
+                                    <GenericIcon
+                                        square
+                                        inline
+                                        transparent
+                                        size="nano"
+                                        spaced="right"
+                                        icon={ authenticator.image }
+                                    />
+                                )
+                            }
+                            {
+                                AuthenticatorMeta.getAuthenticatorDisplayName(option.authenticator)
+                                || authenticator?.displayName
+                                || option.authenticator
+                            }
+                            {
+                                !readOnly && (
+                                    <Icon
+                                        name="delete"
+                                        onClick={ () => onStepOptionDelete(stepIndex, optionIndex) }
+                                        data-testid={ `${ testId }-step-${ stepIndex }-option-${ optionIndex }-delete` }
+                                    />
+                                )
+                            }
+                        </Label>
+                    </div>
+                ) }
+            </Draggable>
+        );
+    };
+
+    /**
+     * Renders a step node.
+     *
+     * @param {AuthenticationStepInterface} step - Authentication step.
+     * @param {number} stepIndex - Index of the step.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderStep = (step: AuthenticationStepInterface, stepIndex: number): ReactElement => {
+        const stepIssues: AuthenticationFlowValidationIssueInterface[] = issues
+            .filter((issue: AuthenticationFlowValidationIssueInterface) => issue.stepIndex === stepIndex);
+
+        return (
+            <Draggable
+                key={ step.id }
+                draggableId={ `step-${ step.id }` }
+                index={ stepIndex }
+                isDragDisabled={ readOnly }
+            >
+                { (provided: DraggableProvided, snapshot: DraggableStateSnapshot) => (
+                    <div
+                        ref={ provided.innerRef }
+                        { ...provided.draggableProps }
+                        className={ classNames("flow-node step-node with-connector", {
+                            dragging: snapshot.isDragging,
+                            invalid: stepIssues.length > 0
+                        }) }
+                        data-testid={ `${ testId }-step-${ stepIndex }` }
+                    >
+                        <div className="step-node-header" { ...provided.dragHandleProps }>
+                            { !readOnly && <Icon name="bars" color="grey"/> }
+                            <Heading as="h6" bold="500" compact>
+                                { t("console:develop.features.applications.edit.sections.signOnMethod.sections" +
+                                    ".authenticationFlow.sections.stepBased.graph.nodes.step",
+                                { step: stepIndex + 1 }) }
+                            </Heading>
+                            {
+                                stepIssues.length > 0 && (
+                                    <Popup
+                                        inverted
+                                        size="mini"
+                                        trigger={ <Icon name="warning circle" color="red"/> }
+                                        content={ stepIssues.map(resolveIssueMessage).join(" ") }
+                                    />
+                                )
+                            }
+                        </div>
+                        <div className="step-node-identifiers">
+                            <Label
+                                as={ readOnly ? undefined : "a" }
+                                size="mini"
+                                color={ subjectStepId === stepIndex + 1 ? "blue" : undefined }
+                                onClick={ () => !readOnly && onSubjectStepChange(stepIndex + 1) }
+                                data-testid={ `${ testId }-step-${ stepIndex }-subject` }
+                            >
+                                { t("console:develop.features.applications.edit.sections.signOnMethod.sections" +
+                                    ".authenticationFlow.sections.stepBased.graph.labels.subject") }
+                            </Label>
+                            <Label
+                                as={ readOnly ? undefined : "a" }
+                                size="mini"
+                                color={ attributeStepId === stepIndex + 1 ? "blue" : undefined }
+                                onClick={ () => !readOnly && onAttributeStepChange(stepIndex + 1) }
+                                data-testid={ `${ testId }-step-${ stepIndex }-attributes` }
+                            >
+                                { t("console:develop.features.applications.edit.sections.signOnMethod.sections" +
+                                    ".authenticationFlow.sections.stepBased.graph.labels.attributes") }
+                            </Label>
+                        </div>
+                        <Droppable
+                            droppableId={ `${ STEP_OPTIONS_DROPPABLE_ID_PREFIX }${ stepIndex }` }
+                            type="authentication-flow-graph-options"
+                        >
+                            { (droppableProvided: DroppableProvided) => (
+                                <div
+                                    ref={ droppableProvided.innerRef }
+                                    { ...droppableProvided.droppableProps }
+                                    className="step-node-options"
+                                >
+                                    {
+                                        step.options.map((option: AuthenticatorInterface, optionIndex: number) => {
+                                            return renderOption(option, stepIndex, optionIndex);
+                                        })
+                                    }
+                                    { droppableProvided.placeholder }
+                                </div>
+                            ) }
+                        </Droppable>
+                        {
+                            !readOnly && (
+                                <LinkButton
+                                    compact
+                                    className="pl-0"
+                                    onClick={ () => onAddAuthenticationClick(stepIndex) }
+                                    data-testid={ `${ testId }-step-${ stepIndex }-add-button` }
+                                >
+                                    <Icon name="plus"/>
+                                    {
+                                        t("console:develop.features.applications.edit.sections.signOnMethod." +
+                                            "sections.authenticationFlow.sections.stepBased.actions." +
+                                            "addAuthentication")
+                                    }
+                                </LinkButton>
+                            )
+                        }
+                    </div>
+                ) }
+            </Draggable>
+        );
+    };
+
+    return (
+        <div className="authentication-flow-graph" data-testid={ testId }>
+            {
+                !readOnly && (
+                    <Hint>
+                        { t("console:develop.features.applications.edit.sections.signOnMethod.sections" +
+                            ".authenticationFlow.sections.stepBased.graph.hint") }
+                    </Hint>
+                )
+            }
+            <DragDropContext onDragEnd={ handleDragEnd }>
+                <div className="flow-graph-nodes">
+                    <div className="flow-node terminal-node">
+                        { t("console:develop.features.applications.edit.sections.signOnMethod.sections" +
+                            ".authenticationFlow.sections.stepBased.graph.nodes.start") }
+                    </div>
+                    <Droppable droppableId={ STEPS_DROPPABLE_ID } type={ STEPS_DROPPABLE_ID } direction="horizontal">
+                        { (provided: DroppableProvided) => (
+                            <div
+                                ref={ provided.innerRef }
+                                { ...provided.droppableProps }
+                                className="flow-graph-steps"
+                            >
+                                {
+                                    steps.map((step: AuthenticationStepInterface, stepIndex: number) => {
+                                        return renderStep(step, stepIndex);
+                                    })
+                                }
+                                { provided.placeholder }
+                            </div>
+                        ) }
+                    </Droppable>
+                    <div className="flow-node terminal-node with-connector">
+                        { t("console:develop.features.applications.edit.sections.signOnMethod.sections" +
+                            ".authenticationFlow.sections.stepBased.graph.nodes.end") }
+                    </div>
+                </div>
+            </DragDropContext>
+            {
+                !readOnly && (
+                    <LinkButton
+                        className="pl-0"
+                        onClick={ onStepAdd }
+                        data-testid={ `${ testId }-add-step-button` }
+                    >
+                        <Icon name="plus"/>
+                        {
+                            t("console:develop.features.applications.edit.sections.signOnMethod." +
+                                "sections.authenticationFlow.sections.stepBased.actions.addNewStep")
+                        }
+                    </LinkButton>
+                )
+            }
+            {
+                issues.length > 0 && (
+                    <Message
+                        error
+                        visible
+                        size="small"
+                        header={
+                            t("console:develop.features.applications.edit.sections.signOnMethod.sections" +
+                                ".authenticationFlow.sections.stepBased.graph.validations.heading")
+                        }
+                        list={ issues.map(resolveIssueMessage) }
+                        data-testid={ `${ testId }-issues` }
+                    />
+                )
+            }
+            <Heading as="h6" bold="500">
+                { t("console:develop.features.applications.edit.sections.signOnMethod.sections" +
+                    ".authenticationFlow.sections.stepBased.graph.branches.heading") }
+            </Heading>
+            {
+                branches.length > 0
+                    ? (
+                        <List className="flow-graph-branches" data-testid={ `${ testId }-branches` }>
+                            {
+                                branches.map((branch: AdaptiveScriptStepBranchInterface, index: number) => (
+                                    <List.Item key={ index }>
+                                        <Label size="mini">
+                                            {
+                                                branch.from
+                                                    ? t("console:develop.features.applications.edit.sections" +
+                                                        ".signOnMethod.sections.authenticationFlow.sections" +
+                                                        ".stepBased.graph.nodes.step", { step: branch.from })
+                                                    : t("console:develop.features.applications.edit.sections" +
+                                                        ".signOnMethod.sections.authenticationFlow.sections" +
+                                                        ".stepBased.graph.nodes.start")
+                                            }
+                                        </Label>
+                                        { branch.condition && <code className="ml-1 mr-1">{ branch.condition }</code> }
+                                        <Icon name="long arrow alternate right" color="grey"/>
+                                        <Label
+                                            size="mini"
+                                            color={ branch.to > steps.length ? "red" : undefined }
+                                        >
+                                            { t("console:develop.features.applications.edit.sections.signOnMethod" +
+                                                ".sections.authenticationFlow.sections.stepBased.graph.nodes.step",
+                                            { step: branch.to }) }
+                                        </Label>
+                                        {
+                                            branch.conditional && (
+                                                <Label size="mini" basic color="orange">
+                                                    { t("console:develop.features.applications.edit.sections" +
+                                                        ".signOnMethod.sections.authenticationFlow.sections" +
+                                                        ".stepBased.graph.branches.conditional") }
+                                                </Label>
+                                            )
+                                        }
+                                    </List.Item>
+                                ))
+                            }
+                        </List>
+                    )
+                    : (
+                        <Hint>
+                            { t("console:develop.features.applications.edit.sections.signOnMethod.sections" +
+                                ".authenticationFlow.sections.stepBased.graph.branches.empty") }
+                        </Hint>
+                    )
+            }
+        </div>
+    );
+};
+
+/**
+ * Default props for the authentication flow graph component.
+ */
+AuthenticationFlowGraph.defaultProps = {
+    "data-testid": "authentication-flow-graph"
+};
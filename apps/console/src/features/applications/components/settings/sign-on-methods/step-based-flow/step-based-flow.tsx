@@ -28,13 +28,15 @@ import React, {
     FunctionComponent,
     ReactElement,
     useEffect,
+    useMemo,
     useRef,
     useState
 } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
-import { Icon } from "semantic-ui-react";
+import { Button, Icon, Popup } from "semantic-ui-react";
 import { AddAuthenticatorModal } from "./add-authenticator-modal";
+import { AuthenticationFlowGraph } from "./authentication-flow-graph";
 import { AuthenticationStep } from "./authentication-step";
 import { AppState, ConfigReducerStateInterface } from "../../../../../core";
 import {
@@ -51,12 +53,15 @@ import {
 } from "../../../../../identity-providers";
 import { ApplicationManagementConstants } from "../../../../constants";
 import {
+    AdaptiveScriptStepBranchInterface,
+    AuthenticationFlowValidationIssueInterface,
+    AuthenticationFlowViews,
     AuthenticationSequenceInterface,
     AuthenticationSequenceType,
     AuthenticationStepInterface,
     AuthenticatorInterface
 } from "../../../../models";
-import { SignInMethodUtils } from "../../../../utils";
+import { AdaptiveScriptUtils, SignInMethodUtils } from "../../../../utils";
 
 /**
  * Proptypes for the applications settings component.
@@ -71,6 +76,10 @@ interface AuthenticationFlowPropsInterface extends TestableComponentInterface {
      * Currently configured authentication sequence for the application.
      */
     authenticationSequence: AuthenticationSequenceInterface;
+    /**
+     * Adaptive script being edited. Falls back to the script of the sequence.
+     */
+    adaptiveScript?: string | string[];
     /**
      * Is the application info request loading.
      */
@@ -116,6 +125,7 @@ export const StepBasedFlow: FunctionComponent<AuthenticationFlowPropsInterface>
     const {
         authenticators,
         authenticationSequence,
+        adaptiveScript,
         onIDPCreateWizardTrigger,
         onUpdate,
         readOnly,
@@ -147,9 +157,24 @@ export const StepBasedFlow: FunctionComponent<AuthenticationFlowPropsInterface>
     const [ categorizedTemplates, setCategorizedTemplates ] =
         useState<IdentityProviderTemplateCategoryInterface[]>(undefined);
     const [ addNewAuthenticatorClicked, setAddNewAuthenticatorClicked ] = useState<boolean>(false);
+    const [ flowView, setFlowView ] = useState<AuthenticationFlowViews>(AuthenticationFlowViews.LIST);
 
     const authenticationStepsDivRef = useRef<HTMLDivElement>(null);
 
+    /**
+     * Issues of the current combination of steps and authenticators.
+     */
+    const flowIssues: AuthenticationFlowValidationIssueInterface[] = useMemo(() => {
+        return SignInMethodUtils.validateAuthenticationFlow(authenticationSteps, subjectStepId, attributeStepId);
+    }, [ authenticationSteps, subjectStepId, attributeStepId ]);
+
+    /**
+     * Branches of the adaptive script shown as the edges of the graph.
+     */
+    const scriptBranches: AdaptiveScriptStepBranchInterface[] = useMemo(() => {
+        return AdaptiveScriptUtils.getStepBranches(adaptiveScript ?? authenticationSequence?.script);
+    }, [ adaptiveScript, authenticationSequence?.script ]);
+
     /**
      * Separates out the different authenticators to their relevant categories.
      */
@@ -596,6 +621,56 @@ export const StepBasedFlow: FunctionComponent<AuthenticationFlowPropsInterface>
         updateSteps(true);
     };
 
+    /**
+     * Handles moving a step to a new position in the graph. The subject and attribute steps
+     * follow the steps they were pointing to.
+     *
+     * @param {number} sourceIndex - Current index of the step.
+     * @param {number} destinationIndex - New index of the step.
+     */
+    const handleStepMove = (sourceIndex: number, destinationIndex: number): void => {
+
+        setAuthenticationSteps(SignInMethodUtils.moveStep(authenticationSteps, sourceIndex, destinationIndex));
+        setSubjectStepId(SignInMethodUtils.resolveMovedStepId(subjectStepId, sourceIndex, destinationIndex));
+        setAttributeStepId(SignInMethodUtils.resolveMovedStepId(attributeStepId, sourceIndex, destinationIndex));
+    };
+
+    /**
+     * Handles moving an authenticator to another step or position in the graph.
+     *
+     * @param {number} sourceStepIndex - Index of the step the authenticator belongs to.
+     * @param {number} sourceOptionIndex - Index of the authenticator in the step.
+     * @param {number} destinationStepIndex - Index of the step to move the authenticator to.
+     * @param {number} destinationOptionIndex - New index of the authenticator.
+     */
+    const handleStepOptionMove = (sourceStepIndex: number, sourceOptionIndex: number,
+                                  destinationStepIndex: number, destinationOptionIndex: number): void => {
+
+        const steps: AuthenticationStepInterface[] = SignInMethodUtils.moveStepOption(authenticationSteps,
+            sourceStepIndex, sourceOptionIndex, destinationStepIndex, destinationOptionIndex);
+
+        // Moving is rejected if the destination step already has the authenticator.
+        if (steps === authenticationSteps) {
+            dispatch(
+                addAlert({
+                    description: t(
+                        "console:develop.features.applications.notifications.duplicateAuthenticationStep" +
+                        ".genericError.description"
+                    ),
+                    level: AlertLevels.WARNING,
+                    message: t(
+                        "console:develop.features.applications.notifications.duplicateAuthenticationStep" +
+                        ".genericError.message"
+                    )
+                })
+            );
+
+            return;
+        }
+
+        setAuthenticationSteps(steps);
+    };
+
     /**
      * Handles the subject identifier value onchange event.
      *
@@ -644,6 +719,24 @@ export const StepBasedFlow: FunctionComponent<AuthenticationFlowPropsInterface>
             return false;
         }
 
+        if (flowIssues.length > 0) {
+            dispatch(
+                addAlert({
+                    description: t(
+                        "console:develop.features.applications.notifications.invalidAuthenticationFlow" +
+                        ".genericError.description"
+                    ),
+                    level: AlertLevels.WARNING,
+                    message: t(
+                        "console:develop.features.applications.notifications.invalidAuthenticationFlow" +
+                        ".genericError.message"
+                    )
+                })
+            );
+
+            return false;
+        }
+
         return true;
     };
 
@@ -806,7 +899,68 @@ export const StepBasedFlow: FunctionComponent<AuthenticationFlowPropsInterface>
 
     return (
         <div className="authentication-flow-wrapper" data-testid={ testId }>
-            <div className="authentication-flow-section">
+            <div className="authentication-flow-view-switcher">
+                <Button.Group basic size="mini">
+                    {
+                        [
+                            { icon: "list", view: AuthenticationFlowViews.LIST },
+                            { icon: "sitemap", view: AuthenticationFlowViews.GRAPH }
+                        ].map(({ icon, view }) => (
+                            <Popup
+                                key={ view }
+                                inverted
+                                size="mini"
+                                content={
+                                    t("console:develop.features.applications.edit.sections.signOnMethod.sections." +
+                                        "authenticationFlow.sections.stepBased.graph.views." + view)
+                                }
+                                trigger={ (
+                                    <Button
+                                        type="button"
+                                        icon={ icon }
+                                        active={ flowView === view }
+                                        onClick={ () => setFlowView(view) }
+                                        data-testid={ `${ testId }-${ view }-view-button` }
+                                    />
+                                ) }
+                            />
+                        ))
+                    }
+                </Button.Group>
+            </div>
+            {
+                (flowView === AuthenticationFlowViews.GRAPH) && (
+                    <AuthenticationFlowGraph
+                        authenticators={ [
+                            ...localAuthenticators,
+                            ...enterpriseAuthenticators,
+                            ...socialAuthenticators,
+                            ...secondFactorAuthenticators
+                        ] }
+                        steps={ authenticationSteps }
+                        subjectStepId={ subjectStepId }
+                        attributeStepId={ attributeStepId }
+                        branches={ scriptBranches }
+                        issues={ flowIssues }
+                        onAddAuthenticationClick={ (stepIndex: number) => {
+                            setShowAuthenticatorAddModal(true);
+                            setAuthenticatorAddStep(stepIndex);
+                        } }
+                        onStepAdd={ handleAuthenticationStepAdd }
+                        onStepMove={ handleStepMove }
+                        onStepOptionMove={ handleStepOptionMove }
+                        onStepOptionDelete={ handleStepOptionDelete }
+                        onSubjectStepChange={ handleSubjectRetrievalStepChange }
+                        onAttributeStepChange={ handleAttributeRetrievalStepChange }
+                        readOnly={ readOnly }
+                        data-testid={ `${ testId }-graph` }
+                    />
+                )
+            }
+            <div
+                className="authentication-flow-section"
+                hidden={ flowView !== AuthenticationFlowViews.LIST }
+            >
                 <div className="authentication-steps-section" ref={ authenticationStepsDivRef }>
                     {
                         authenticationSteps &&
@@ -0,0 +1,609 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { getAllExternalClaims } from "@wso2is/core/api";
+import { JWTConstants } from "@wso2is/core/constants";
+import {
+    AlertLevels,
+    DecodedJWTInterface,
+    ExternalClaim,
+    TestableComponentInterface
+} from "@wso2is/core/models";
+import { addAlert } from "@wso2is/core/store";
+import { JWTUtils } from "@wso2is/core/utils";
+import {
+    CodeEditor,
+    ContentLoader,
+    EmphasizedSegment,
+    Heading,
+    Hint,
+    PrimaryButton
+} from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useDispatch, useSelector } from "react-redux";
+import { Divider, DropdownItemProps, DropdownProps, Form, Grid, Label, List, Message } from "semantic-ui-react";
+import { ClaimManagementConstants } from "../../../claims/constants";
+import { AppState } from "../../../core";
+import { getOIDCScopesList } from "../../../oidc-scopes/api";
+import { OIDCScopesListInterface } from "../../../oidc-scopes/models";
+import { ApplicationManagementConstants } from "../../constants";
+import {
+    ApplicationInterface,
+    OIDCApplicationConfigurationInterface,
+    OIDCDataInterface,
+    TokenPreviewContextInterface,
+    TokenPreviewInterface
+} from "../../models";
+import { ApplicationManagementUtils } from "../../utils";
+
+/**
+ * Prefix of the translation keys of the token preview.
+ * @constant
+ * @type {string}
+ */
+const I18N_PREFIX: string = "console:develop.features.applications.edit.sections.tokenPreview.";
+
+/**
+ * Translation keys of the errors thrown when decoding and verifying tokens.
+ * @constant
+ * @type {Map<string, string>}
+ */
+const TOKEN_ERROR_KEYS: Map<string, string> = new Map<string, string>([
+    [ JWTConstants.ENCRYPTED_TOKEN_ERROR, "encryptedToken" ],
+    [ JWTConstants.INVALID_KEY_ERROR, "invalidKey" ],
+    [ JWTConstants.MALFORMED_TOKEN_ERROR, "malformedToken" ],
+    [ JWTConstants.NO_MATCHING_KEY_ERROR, "noMatchingKey" ],
+    [ JWTConstants.UNSUPPORTED_ALGORITHM_ERROR, "unsupportedAlgorithm" ]
+]);
+
+/**
+ * Proptypes for the token preview component.
+ */
+interface TokenPreviewPropsInterface extends TestableComponentInterface {
+    /**
+     * Application the tokens are issued to.
+     */
+    application: ApplicationInterface;
+    /**
+     * Saved OIDC configuration of the application.
+     */
+    oidcConfiguration: OIDCDataInterface;
+}
+
+/**
+ * Proptypes for the JWT inspector component.
+ */
+type JWTInspectorPropsInterface = TestableComponentInterface;
+
+/**
+ * Outcome of a signature verification.
+ */
+interface TokenVerificationResultInterface {
+    /**
+     * Is the signature valid.
+     */
+    verified?: boolean;
+    /**
+     * Error which prevented the verification.
+     */
+    error?: string;
+}
+
+/**
+ * Component to preview the tokens issued to an OIDC application and to inspect issued tokens.
+ *
+ * @param {TokenPreviewPropsInterface} props - Props injected to the component.
+ *
+ * @return {ReactElement}
+ */
+export const TokenPreview: FunctionComponent<TokenPreviewPropsInterface> = (
+    props: TokenPreviewPropsInterface
+): ReactElement => {
+
+    const {
+        application,
+        oidcConfiguration,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const dispatch = useDispatch();
+
+    const oidcConfigurations: OIDCApplicationConfigurationInterface = useSelector(
+        (state: AppState) => state.application.oidcConfigurations);
+
+    const [ scopes, setScopes ] = useState<OIDCScopesListInterface[]>([]);
+    const [ oidcClaims, setOIDCClaims ] = useState<ExternalClaim[]>([]);
+    const [ isLoading, setIsLoading ] = useState<boolean>(true);
+    const [ requestedScopes, setRequestedScopes ] = useState<string[]>([ ApplicationManagementConstants.OPENID_SCOPE ]);
+    const [ isApplicationToken, setIsApplicationToken ] = useState<boolean>(false);
+    const [ issuedAt ] = useState<number>(Math.floor(Date.now() / 1000));
+
+    /**
+     * Fetches the scopes and the OIDC claims which decide the claims of the tokens.
+     */
+    useEffect(() => {
+        setIsLoading(true);
+
+        Promise.all([
+            getOIDCScopesList<OIDCScopesListInterface[]>()
+                .then((response: OIDCScopesListInterface[]) => {
+                    setScopes(response ?? []);
+                })
+                .catch(() => {
+                    dispatch(addAlert({
+                        description: t("console:manage.features.oidcScopes.notifications.fetchOIDCScopes." +
+                            "genericError.description"),
+                        level: AlertLevels.ERROR,
+                        message: t("console:manage.features.oidcScopes.notifications.fetchOIDCScopes." +
+                            "genericError.message")
+                    }));
+                }),
+            getAllExternalClaims(ClaimManagementConstants.ATTRIBUTE_DIALECT_IDS.get("OIDC"), null)
+                .then((response: ExternalClaim[]) => {
+                    setOIDCClaims(response ?? []);
+                })
+                .catch(() => {
+                    dispatch(addAlert({
+                        description: t("console:manage.features.claims.external.notifications." +
+                            "fetchExternalClaims.genericError.description"),
+                        level: AlertLevels.ERROR,
+                        message: t("console:manage.features.claims.external.notifications." +
+                            "fetchExternalClaims.genericError.message")
+                    }));
+                })
+        ])
+            .finally(() => {
+                setIsLoading(false);
+            });
+    }, []);
+
+    const context: TokenPreviewContextInterface = useMemo(() => ({
+        claimConfiguration: application?.claimConfiguration,
+        configuration: oidcConfiguration,
+        isApplicationToken,
+        issuedAt,
+        issuer: oidcConfigurations?.tokenEndpoint,
+        oidcClaims,
+        requestedScopes,
+        scopes
+    }), [ application, oidcConfiguration, oidcConfigurations, oidcClaims, scopes, requestedScopes,
+        isApplicationToken ]);
+
+    const idToken: TokenPreviewInterface = useMemo(() => {
+        return ApplicationManagementUtils.getIDTokenPreview(context);
+    }, [ context ]);
+
+    const accessToken: TokenPreviewInterface = useMemo(() => {
+        return ApplicationManagementUtils.getAccessTokenPreview(context);
+    }, [ context ]);
+
+    const scopeOptions: DropdownItemProps[] = useMemo(() => {
+        const options: DropdownItemProps[] = scopes.map((scope: OIDCScopesListInterface) => ({
+            key: scope.name,
+            text: scope.displayName || scope.name,
+            value: scope.name
+        }));
+
+        if (!scopes.some((scope: OIDCScopesListInterface) => {
+            return scope.name === ApplicationManagementConstants.OPENID_SCOPE;
+        })) {
+            options.unshift({
+                key: ApplicationManagementConstants.OPENID_SCOPE,
+                text: ApplicationManagementConstants.OPENID_SCOPE,
+                value: ApplicationManagementConstants.OPENID_SCOPE
+            });
+        }
+
+        return options;
+    }, [ scopes ]);
+
+    /**
+     * Renders the header and the payload of a token.
+     *
+     * @param {TokenPreviewInterface} token - Token to render.
+     * @param {string} id - Suffix of the test IDs.
+     *
+     * @return {ReactElement}
+     */
+    const renderToken = (token: TokenPreviewInterface, id: string): ReactElement => (
+        <>
+            {
+                token.encryptionHeader && (
+                    <>
+                        <Heading as="h6">{ t(I18N_PREFIX + "sections.encryptionHeader") }</Heading>
+                        <CodeEditor
+                            readOnly
+                            language="json"
+                            sourceCode={ JSON.stringify(token.encryptionHeader, null, 4) }
+                            data-testid={ `${ testId }-${ id }-encryption-header` }
+                        />
+                    </>
+                )
+            }
+            {
+                token.header && (
+                    <>
+                        <Heading as="h6">{ t(I18N_PREFIX + "sections.header") }</Heading>
+                        <CodeEditor
+                            readOnly
+                            language="json"
+                            sourceCode={ JSON.stringify(token.header, null, 4) }
+                            data-testid={ `${ testId }-${ id }-header` }
+                        />
+                    </>
+                )
+            }
+            <Heading as="h6">{ t(I18N_PREFIX + "sections.payload") }</Heading>
+            <CodeEditor
+                readOnly
+                language="json"
+                sourceCode={ JSON.stringify(token.payload, null, 4) }
+                options={ {
+                    lineWrapping: true
+                } }
+                data-testid={ `${ testId }-${ id }-payload` }
+            />
+        </>
+    );
+
+    /**
+     * Renders the sample ID token.
+     *
+     * @return {ReactElement}
+     */
+    const renderIDToken = (): ReactElement => {
+
+        if (isApplicationToken || !requestedScopes.includes(ApplicationManagementConstants.OPENID_SCOPE)) {
+            return (
+                <Message info content={ t(I18N_PREFIX + "idToken.notIssued") } data-testid={ `${ testId }-id-token` }/>
+            );
+        }
+
+        return (
+            <div data-testid={ `${ testId }-id-token` }>
+                <Label size="small">
+                    { t(I18N_PREFIX + "idToken.signed", { algorithm: idToken.header.alg }) }
+                </Label>
+                {
+                    idToken.encryptionHeader && (
+                        <Label size="small">
+                            { t(I18N_PREFIX + "idToken.encrypted", {
+                                algorithm: idToken.encryptionHeader.alg,
+                                method: idToken.encryptionHeader.enc
+                            }) }
+                        </Label>
+                    )
+                }
+                { renderToken(idToken, "id-token") }
+                {
+                    idToken.omittedClaims.length > 0 && (
+                        <Message warning data-testid={ `${ testId }-omitted-claims` }>
+                            <Message.Header>{ t(I18N_PREFIX + "idToken.omittedClaims.heading") }</Message.Header>
+                            <p>{ t(I18N_PREFIX + "idToken.omittedClaims.description") }</p>
+                            <List bulleted>
+                                {
+                                    idToken.omittedClaims.map((claim: string) => (
+                                        <List.Item key={ claim }><code>{ claim }</code></List.Item>
+                                    ))
+                                }
+                            </List>
+                        </Message>
+                    )
+                }
+            </div>
+        );
+    };
+
+    /**
+     * Renders the sample access token.
+     *
+     * @return {ReactElement}
+     */
+    const renderAccessToken = (): ReactElement => (
+        <div data-testid={ `${ testId }-access-token` }>
+            <Label size="small">
+                {
+                    accessToken.header
+                        ? t(I18N_PREFIX + "accessToken.jwt")
+                        : t(I18N_PREFIX + "accessToken.opaque")
+                }
+            </Label>
+            { !accessToken.header && <Hint>{ t(I18N_PREFIX + "accessToken.opaqueHint") }</Hint> }
+            { renderToken(accessToken, "access-token") }
+        </div>
+    );
+
+    if (isLoading) {
+        return <ContentLoader/>;
+    }
+
+    return (
+        <EmphasizedSegment padded="very" data-testid={ testId }>
+            <Heading as="h4">{ t(I18N_PREFIX + "heading") }</Heading>
+            <Heading as="h6" color="grey" compact>{ t(I18N_PREFIX + "subHeading") }</Heading>
+            <Divider hidden/>
+            <Form>
+                <Form.Dropdown
+                    fluid
+                    multiple
+                    search
+                    selection
+                    label={ t(I18N_PREFIX + "fields.scopes.label") }
+                    placeholder={ t(I18N_PREFIX + "fields.scopes.placeholder") }
+                    options={ scopeOptions }
+                    value={ requestedScopes }
+                    onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                        setRequestedScopes(value as string[]);
+                    } }
+                    data-testid={ `${ testId }-scopes-dropdown` }
+                />
+                <Hint>{ t(I18N_PREFIX + "fields.scopes.hint") }</Hint>
+                <Form.Checkbox
+                    toggle
+                    label={ t(I18N_PREFIX + "fields.applicationToken.label") }
+                    checked={ isApplicationToken }
+                    onChange={ () => setIsApplicationToken(!isApplicationToken) }
+                    data-testid={ `${ testId }-application-token-toggle` }
+                />
+                <Hint>{ t(I18N_PREFIX + "fields.applicationToken.hint") }</Hint>
+            </Form>
+            <Divider hidden/>
+            <Grid>
+                <Grid.Row columns={ 2 }>
+                    <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 8 }>
+                        <Heading as="h5">{ t(I18N_PREFIX + "idToken.heading") }</Heading>
+                        { renderIDToken() }
+                    </Grid.Column>
+                    <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 8 }>
+                        <Heading as="h5">{ t(I18N_PREFIX + "accessToken.heading") }</Heading>
+                        { renderAccessToken() }
+                    </Grid.Column>
+                </Grid.Row>
+            </Grid>
+            <Divider section/>
+            <JWTInspector data-testid={ `${ testId }-inspector` }/>
+        </EmphasizedSegment>
+    );
+};
+
+/**
+ * Component to decode JWTs and verify their signatures against a pasted key.
+ *
+ * @param {JWTInspectorPropsInterface} props - Props injected to the component.
+ *
+ * @return {ReactElement}
+ */
+export const JWTInspector: FunctionComponent<JWTInspectorPropsInterface> = (
+    props: JWTInspectorPropsInterface
+): ReactElement => {
+
+    const {
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ token, setToken ] = useState<string>("");
+    const [ keyMaterial, setKeyMaterial ] = useState<string>("");
+    const [ verification, setVerification ] = useState<TokenVerificationResultInterface>(undefined);
+
+    /**
+     * Clears the outcome of the last verification when the inputs change.
+     */
+    useEffect(() => {
+        setVerification(undefined);
+    }, [ token, keyMaterial ]);
+
+    const decoded: DecodedJWTInterface | Error = useMemo(() => {
+        if (!token.trim()) {
+            return undefined;
+        }
+
+        try {
+            return JWTUtils.decode(token);
+        } catch (e) {
+            return e;
+        }
+    }, [ token ]);
+
+    /**
+     * Resolves the translated message of a decoding or verification error.
+     *
+     * @param {string} error - Error message.
+     *
+     * @return {string} Translated message.
+     */
+    const resolveErrorMessage = (error: string): string => {
+
+        return TOKEN_ERROR_KEYS.has(error)
+            ? t(I18N_PREFIX + "inspector.errors." + TOKEN_ERROR_KEYS.get(error))
+            : error;
+    };
+
+    /**
+     * Verifies the signature of the token against the pasted key.
+     */
+    const handleVerify = (): void => {
+        try {
+            setVerification({ verified: JWTUtils.verify(token, keyMaterial) });
+        } catch (e) {
+            setVerification({ error: e.message });
+        }
+    };
+
+    /**
+     * Renders the expiry of the decoded token.
+     *
+     * @param {number} expiry - Expiry time in seconds since the epoch.
+     *
+     * @return {ReactElement}
+     */
+    const renderExpiry = (expiry: number): ReactElement => {
+
+        const date: string = new Date(expiry * 1000).toLocaleString();
+
+        if (expiry * 1000 < Date.now()) {
+            return (
+                <Message
+                    warning
+                    content={ t(I18N_PREFIX + "inspector.results.expired", { date }) }
+                    data-testid={ `${ testId }-expiry` }
+                />
+            );
+        }
+
+        return <Hint>{ t(I18N_PREFIX + "inspector.results.expiresAt", { date }) }</Hint>;
+    };
+
+    /**
+     * Renders the decoded token.
+     *
+     * @return {ReactElement}
+     */
+    const renderDecodedToken = (): ReactElement => {
+
+        if (!decoded) {
+            return null;
+        }
+
+        if (decoded instanceof Error) {
+            return (
+                <Message error content={ resolveErrorMessage(decoded.message) } data-testid={ `${ testId }-error` }/>
+            );
+        }
+
+        return (
+            <>
+                <Heading as="h6">{ t(I18N_PREFIX + "sections.header") }</Heading>
+                <CodeEditor
+                    readOnly
+                    language="json"
+                    sourceCode={ JSON.stringify(decoded.header, null, 4) }
+                    data-testid={ `${ testId }-header` }
+                />
+                <Heading as="h6">{ t(I18N_PREFIX + "sections.payload") }</Heading>
+                <CodeEditor
+                    readOnly
+                    language="json"
+                    sourceCode={ JSON.stringify(decoded.payload, null, 4) }
+                    options={ {
+                        lineWrapping: true
+                    } }
+                    data-testid={ `${ testId }-payload` }
+                />
+                { typeof decoded.payload.exp === "number" && renderExpiry(decoded.payload.exp) }
+            </>
+        );
+    };
+
+    /**
+     * Renders the outcome of the signature verification.
+     *
+     * @return {ReactElement}
+     */
+    const renderVerification = (): ReactElement => {
+
+        if (!verification) {
+            return null;
+        }
+
+        if (verification.error) {
+            return (
+                <Message
+                    error
+                    content={ resolveErrorMessage(verification.error) }
+                    data-testid={ `${ testId }-verification` }
+                />
+            );
+        }
+
+        return (
+            <Message
+                success={ verification.verified }
+                error={ !verification.verified }
+                content={
+                    verification.verified
+                        ? t(I18N_PREFIX + "inspector.results.valid")
+                        : t(I18N_PREFIX + "inspector.results.invalid")
+                }
+                data-testid={ `${ testId }-verification` }
+            />
+        );
+    };
+
+    return (
+        <div data-testid={ testId }>
+            <Heading as="h4">{ t(I18N_PREFIX + "inspector.heading") }</Heading>
+            <Heading as="h6" color="grey" compact>{ t(I18N_PREFIX + "inspector.subHeading") }</Heading>
+            <Divider hidden/>
+            <Grid>
+                <Grid.Row columns={ 2 }>
+                    <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 8 }>
+                        <Form>
+                            <Form.TextArea
+                                rows={ 6 }
+                                label={ t(I18N_PREFIX + "inspector.fields.token.label") }
+                                placeholder={ t(I18N_PREFIX + "inspector.fields.token.placeholder") }
+                                value={ token }
+                                onChange={ (e, { value }) => setToken(value as string) }
+                                data-testid={ `${ testId }-token-input` }
+                            />
+                            <Form.TextArea
+                                rows={ 6 }
+                                label={ t(I18N_PREFIX + "inspector.fields.key.label") }
+                                placeholder={ t(I18N_PREFIX + "inspector.fields.key.placeholder") }
+                                value={ keyMaterial }
+                                onChange={ (e, { value }) => setKeyMaterial(value as string) }
+                                data-testid={ `${ testId }-key-input` }
+                            />
+                            <Hint>{ t(I18N_PREFIX + "inspector.fields.key.hint") }</Hint>
+                        </Form>
+                        <PrimaryButton
+                            onClick={ handleVerify }
+                            disabled={ !decoded || decoded instanceof Error || !keyMaterial.trim() }
+                            data-testid={ `${ testId }-verify-button` }
+                        >
+                            { t(I18N_PREFIX + "inspector.actions.verify") }
+                        </PrimaryButton>
+                        { renderVerification() }
+                    </Grid.Column>
+                    <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 8 }>
+                        { renderDecodedToken() }
+                    </Grid.Column>
+                </Grid.Row>
+            </Grid>
+        </div>
+    );
+};
+
+/**
+ * Default props for the token preview component.
+ */
+TokenPreview.defaultProps = {
+    "data-testid": "application-token-preview"
+};
+
+/**
+ * Default props for the JWT inspector component.
+ */
+JWTInspector.defaultProps = {
+    "data-testid": "jwt-inspector"
+};
@@ -31,6 +31,7 @@ import React, { FunctionComponent, ReactElement, useEffect, useState } from "rea
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
 import { Grid, Icon, Modal } from "semantic-ui-react";
+import { ApplicationImportWizardForm } from "./application-import-wizard-form";
 import { InboundCustomProtocolWizardForm } from "./custom-protcol-settings-wizard-form";
 import { GeneralSettingsWizardForm } from "./general-settings-wizard-form";
 import { OauthProtocolSettingsWizardForm } from "./oauth-protocol-settings-wizard-form";
@@ -163,6 +164,9 @@ export const ApplicationCreateWizard: FunctionComponent<ApplicationCreateWizardP
 
     const [selectedSAMLMetaFile, setSelectedSAMLMetaFile] = useState<boolean>(false);
 
+    const [isImportMode, setIsImportMode] = useState<boolean>(false);
+    const [submitImport, setSubmitImport] = useTrigger();
+
     const [ alert, setAlert, alertComponent ] = useWizardAlert();
 
     /**
@@ -208,15 +212,17 @@ export const ApplicationCreateWizard: FunctionComponent<ApplicationCreateWizardP
      * Creates a new application.
      *
      * @param {MainApplicationInterface} application - The application to be created.
+     * @param {string} templateId - Template to be mapped. Defaults to the selected template.
      */
-    const createNewApplication = (application: MainApplicationInterface): void => {
+    const createNewApplication = (application: MainApplicationInterface,
+                                  templateId: string = selectedTemplate?.id): void => {
 
         let submittingApplication = application;
 
         // Add template mapping.
         submittingApplication = {
             ...submittingApplication,
-            templateId: selectedTemplate.id
+            templateId
         };
 
         createApplication(submittingApplication)
@@ -740,24 +746,38 @@ export const ApplicationCreateWizard: FunctionComponent<ApplicationCreateWizardP
                     data-testid={ `${ testId }-modal` }
                 >
                     <Modal.Header className="wizard-header">
-                        { title }
-                        { subTitle && <Heading as="h6">{ subTitle }</Heading> }
+                        { isImportMode ? t("console:develop.features.applications.addWizard.import.heading") : title }
+                        { subTitle && !isImportMode && <Heading as="h6">{ subTitle }</Heading> }
                     </Modal.Header>
-                    <Modal.Content className="steps-container" data-testid={ `${ testId }-steps` }>
-                        <Steps.Group current={ currentWizardStep }>
-                            { wizardSteps.map((step, index) => (
-                                <Steps.Step
-                                    key={ index }
-                                    icon={ step.icon }
-                                    title={ step.title }
-                                    data-testid={ `${ testId }-step-${ index }` }
-                                />
-                            )) }
-                        </Steps.Group>
-                    </Modal.Content>
+                    { !isImportMode && (
+                        <Modal.Content className="steps-container" data-testid={ `${ testId }-steps` }>
+                            <Steps.Group current={ currentWizardStep }>
+                                { wizardSteps.map((step, index) => (
+                                    <Steps.Step
+                                        key={ index }
+                                        icon={ step.icon }
+                                        title={ step.title }
+                                        data-testid={ `${ testId }-step-${ index }` }
+                                    />
+                                )) }
+                            </Steps.Group>
+                        </Modal.Content>
+                    ) }
                     <Modal.Content className="content-container" scrolling>
                         { alert && alertComponent }
-                        { resolveStepContent() }
+                        {
+                            isImportMode
+                                ? (
+                                    <ApplicationImportWizardForm
+                                        triggerSubmit={ submitImport }
+                                        onSubmit={ (application: MainApplicationInterface): void => {
+                                            createNewApplication(application, application.templateId);
+                                        } }
+                                        data-testid={ `${ testId }-import-form` }
+                                    />
+                                )
+                                : resolveStepContent()
+                        }
                     </Modal.Content>
                     <Modal.Actions>
                         <Grid>
@@ -770,9 +790,41 @@ export const ApplicationCreateWizard: FunctionComponent<ApplicationCreateWizardP
                                     >
                                         { t("common:cancel") }
                                     </LinkButton>
+                                    { !addProtocol && !isImportMode && (
+                                        <LinkButton
+                                            floated="left"
+                                            onClick={ (): void => setIsImportMode(true) }
+                                            data-testid={ `${ testId }-import-button` }
+                                        >
+                                            <Icon name="upload"/>
+                                            { t("console:develop.features.applications.addWizard.import.buttons" +
+                                                ".trigger") }
+                                        </LinkButton>
+                                    ) }
                                 </Grid.Column>
                                 <Grid.Column mobile={ 8 } tablet={ 8 } computer={ 8 }>
-                                    { currentWizardStep < wizardSteps.length - 1 && (
+                                    { isImportMode && (
+                                        <>
+                                            <PrimaryButton
+                                                floated="right"
+                                                onClick={ setSubmitImport }
+                                                data-testid={ `${ testId }-import-finish-button` }
+                                            >
+                                                { t("console:develop.features.applications.addWizard.import.buttons" +
+                                                    ".import") }
+                                            </PrimaryButton>
+                                            <LinkButton
+                                                floated="right"
+                                                onClick={ (): void => setIsImportMode(false) }
+                                                data-testid={ `${ testId }-import-back-button` }
+                                            >
+                                                <Icon name="arrow left"/>
+                                                { t("console:develop.features.applications.addWizard.import.buttons" +
+                                                    ".back") }
+                                            </LinkButton>
+                                        </>
+                                    ) }
+                                    { !isImportMode && currentWizardStep < wizardSteps.length - 1 && (
                                         <PrimaryButton
                                             floated="right"
                                             onClick={ navigateToNext }
@@ -782,7 +834,7 @@ export const ApplicationCreateWizard: FunctionComponent<ApplicationCreateWizardP
                                             <Icon name="arrow right"/>
                                         </PrimaryButton>
                                     ) }
-                                    { currentWizardStep === wizardSteps.length - 1 && (
+                                    { !isImportMode && currentWizardStep === wizardSteps.length - 1 && (
                                         <PrimaryButton
                                             floated="right"
                                             onClick={ navigateToNext }
@@ -791,7 +843,7 @@ export const ApplicationCreateWizard: FunctionComponent<ApplicationCreateWizardP
                                             { t("common:finish") }
                                         </PrimaryButton>
                                     ) }
-                                    { currentWizardStep > 0 && (
+                                    { !isImportMode && currentWizardStep > 0 && (
                                         <LinkButton
                                             floated="right"
                                             onClick={ navigateToPrevious }
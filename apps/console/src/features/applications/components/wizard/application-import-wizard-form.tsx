@@ -0,0 +1,293 @@
+/**
+ * Copyright (c) 2020, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { ResourceBundleInterface, TestableComponentInterface } from "@wso2is/core/models";
+import { FilePicker, Hint, ResourceBundleFileStrategy } from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Form, Grid, Icon, Message } from "semantic-ui-react";
+import { IdentityProviderListResponseInterface, getIdentityProviderList } from "../../../identity-providers";
+import { getApplicationList } from "../../api";
+import { ApplicationManagementConstants } from "../../constants";
+import { ApplicationListInterface, MainApplicationInterface } from "../../models";
+import { ApplicationManagementUtils } from "../../utils";
+
+/**
+ * Proptypes for the application import wizard form component.
+ */
+interface ApplicationImportWizardFormPropsInterface extends TestableComponentInterface {
+    /**
+     * Trigger to submit the form.
+     */
+    triggerSubmit: boolean;
+    /**
+     * Callback to be triggered with the application to be created.
+     */
+    onSubmit: (application: MainApplicationInterface) => void;
+}
+
+/**
+ * File strategy to read the application export bundles.
+ * @constant
+ * @type {ResourceBundleFileStrategy}
+ */
+const FILE_STRATEGY: ResourceBundleFileStrategy = new ResourceBundleFileStrategy(
+    ApplicationManagementConstants.APPLICATION_BUNDLE_KIND
+);
+
+/**
+ * Application import wizard form component. Reads an application export bundle and
+ * surfaces the conflicts with the current environment before the application is created.
+ *
+ * @param {ApplicationImportWizardFormPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const ApplicationImportWizardForm: FunctionComponent<ApplicationImportWizardFormPropsInterface> = (
+    props: ApplicationImportWizardFormPropsInterface
+): ReactElement => {
+
+    const {
+        triggerSubmit,
+        onSubmit,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ selectedFile, setSelectedFile ] = useState<File>(null);
+    const [ pastedContent, setPastedContent ] = useState<string>(null);
+    const [ bundle, setBundle ] = useState<ResourceBundleInterface<MainApplicationInterface>>(null);
+    const [ name, setName ] = useState<string>("");
+    const [ conflictingName, setConflictingName ] = useState<string>(null);
+    const [ missingIdPs, setMissingIdPs ] = useState<string[]>([]);
+    const [ isEmptyFileError, setIsEmptyFileError ] = useState<boolean>(false);
+    const [ isEmptyNameError, setIsEmptyNameError ] = useState<boolean>(false);
+
+    const init = useRef(true);
+
+    /**
+     * Checks for the conflicts with the existing resources when a bundle is selected.
+     */
+    useEffect(() => {
+        setConflictingName(null);
+        setMissingIdPs([]);
+
+        if (!bundle) {
+            return;
+        }
+
+        setName(bundle.resource.name ?? "");
+        checkNameConflict(bundle.resource.name);
+
+        const idps: string[] = ApplicationManagementUtils.getFederatedIdPsInAuthSequence(
+            bundle.resource.authenticationSequence);
+
+        Promise.all(idps.map((idp: string) => {
+            return getIdentityProviderList(null, null, `name eq ${ idp }`)
+                .then((response: IdentityProviderListResponseInterface) => {
+                    return response?.totalResults > 0 ? null : idp;
+                })
+                // Missing IdPs are only informational. Import can continue if the check fails.
+                .catch(() => null);
+        }))
+            .then((missing: string[]) => {
+                setMissingIdPs(missing.filter(Boolean));
+            });
+    }, [ bundle ]);
+
+    /**
+     * Called when submit is triggered.
+     */
+    useEffect(() => {
+        if (init.current) {
+            init.current = false;
+
+            return;
+        }
+
+        if (!bundle) {
+            setIsEmptyFileError(true);
+
+            return;
+        }
+
+        if (!name?.trim()) {
+            setIsEmptyNameError(true);
+
+            return;
+        }
+
+        checkNameConflict(name.trim())
+            .then((hasConflict: boolean) => {
+                if (hasConflict) {
+                    return;
+                }
+
+                onSubmit({
+                    ...bundle.resource,
+                    name: name.trim()
+                });
+            });
+    }, [ triggerSubmit ]);
+
+    /**
+     * Checks whether an application already exists with the given name.
+     *
+     * @param {string} applicationName - Name of the application.
+     * @return {Promise<boolean>} Resolves to true if a conflict is found.
+     */
+    const checkNameConflict = (applicationName: string): Promise<boolean> => {
+        if (!applicationName) {
+            return Promise.resolve(false);
+        }
+
+        return getApplicationList(null, null, `name eq ${ applicationName }`)
+            .then((response: ApplicationListInterface) => {
+                const hasConflict: boolean = response?.applications?.some((application) => {
+                    return application.name === applicationName;
+                });
+
+                setConflictingName(hasConflict ? applicationName : null);
+
+                return hasConflict;
+            })
+            // Let the create request surface the conflict if the check fails.
+            .catch(() => false);
+    };
+
+    return (
+        <Grid>
+            <Grid.Row columns={ 1 }>
+                <Grid.Column width={ 16 }>
+                    <FilePicker
+                        fileStrategy={ FILE_STRATEGY }
+                        file={ selectedFile }
+                        pastedContent={ pastedContent }
+                        onChange={ (result) => {
+                            setSelectedFile(result.file);
+                            setPastedContent(result.pastedContent);
+                            setBundle(result.valid
+                                ? result.serialized as ResourceBundleInterface<MainApplicationInterface>
+                                : null);
+                            setIsEmptyFileError(false);
+                        } }
+                        uploadButtonText={
+                            t("console:develop.features.applications.addWizard.import.filePicker.uploadButtonText")
+                        }
+                        dropzoneText={
+                            t("console:develop.features.applications.addWizard.import.filePicker.dropzoneText")
+                        }
+                        pasteAreaPlaceholderText={
+                            t("console:develop.features.applications.addWizard.import.filePicker" +
+                                ".pasteAreaPlaceholderText")
+                        }
+                        placeholderIcon={ <Icon name="file code outline" size="huge"/> }
+                        normalizeStateOnRemoveOperations={ true }
+                        data-testid={ `${ testId }-file-picker` }
+                    />
+                    <Hint>{ t("console:develop.features.applications.addWizard.import.filePicker.hint") }</Hint>
+                    { isEmptyFileError && (
+                        <Message
+                            error
+                            visible
+                            content={ t("console:develop.features.applications.addWizard.import.validations" +
+                                ".emptyFile") }
+                            data-testid={ `${ testId }-empty-file-error` }
+                        />
+                    ) }
+                </Grid.Column>
+            </Grid.Row>
+            { bundle && (
+                <>
+                    <Grid.Row columns={ 1 }>
+                        <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 10 }>
+                            <Form>
+                                <Form.Input
+                                    label={
+                                        t("console:develop.features.applications.addWizard.import.fields.name.label")
+                                    }
+                                    placeholder={
+                                        t("console:develop.features.applications.addWizard.import.fields.name" +
+                                            ".placeholder")
+                                    }
+                                    required
+                                    value={ name }
+                                    onChange={ (e, { value }) => {
+                                        setName(value);
+                                        setIsEmptyNameError(false);
+                                    } }
+                                    error={
+                                        isEmptyNameError
+                                            ? t("console:develop.features.applications.addWizard.import.fields.name" +
+                                                ".validations.empty")
+                                            : false
+                                    }
+                                    data-testid={ `${ testId }-name-input` }
+                                />
+                            </Form>
+                            <Hint>
+                                { t("console:develop.features.applications.addWizard.import.fields.name.hint") }
+                            </Hint>
+                            <Hint compact>
+                                {
+                                    t("console:develop.features.applications.addWizard.import.summary",
+                                        { date: new Date(bundle.exportedAt).toLocaleString() })
+                                }
+                            </Hint>
+                        </Grid.Column>
+                    </Grid.Row>
+                    {
+                        (conflictingName || missingIdPs.length > 0 || bundle.redactedFields.length > 0) && (
+                            <Grid.Row columns={ 1 }>
+                                <Grid.Column width={ 16 }>
+                                    <Message
+                                        warning
+                                        visible
+                                        header={
+                                            t("console:develop.features.applications.addWizard.import.conflicts" +
+                                                ".heading")
+                                        }
+                                        list={ [
+                                            conflictingName && t("console:develop.features.applications.addWizard" +
+                                                ".import.conflicts.name", { name: conflictingName }),
+                                            missingIdPs.length > 0 && t("console:develop.features.applications" +
+                                                ".addWizard.import.conflicts.identityProviders",
+                                            { idps: missingIdPs.join(", ") }),
+                                            bundle.redactedFields.length > 0 && t("console:develop.features" +
+                                                ".applications.addWizard.import.conflicts.redactedFields",
+                                            { fields: bundle.redactedFields.join(", ") })
+                                        ].filter(Boolean) }
+                                        data-testid={ `${ testId }-conflicts` }
+                                    />
+                                </Grid.Column>
+                            </Grid.Row>
+                        )
+                    }
+                </>
+            ) }
+        </Grid>
+    );
+};
+
+/**
+ * Default props for the application import wizard form component.
+ */
+ApplicationImportWizardForm.defaultProps = {
+    "data-testid": "application-import-wizard-form"
+};
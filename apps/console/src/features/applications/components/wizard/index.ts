@@ -18,6 +18,7 @@
 
 export * from "./help";
 export * from "./application-create-wizard";
+export * from "./application-import-wizard-form";
 export * from "./general-settings-wizard-form";
 export * from "./oauth-protocol-settings-wizard-form";
 export * from "./protocol-selection-wizard-form";
@@ -16,16 +16,22 @@
  * under the License.
  */
 
-import { TestableComponentInterface } from "@wso2is/core/models";
+import { MandatoryArray, TestableComponentInterface } from "@wso2is/core/models";
 import { URLUtils } from "@wso2is/core/utils";
 import { Field, FormValue, Forms, Validation } from "@wso2is/forms";
-import { ContentLoader, FileUpload, Hint, URLInput } from "@wso2is/react-components";
+import { ContentLoader, FileUpload, Hint, LinkButton, URLInput } from "@wso2is/react-components";
 import { FormValidation } from "@wso2is/validation";
 import isEmpty from "lodash-es/isEmpty";
-import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
+import React, { FunctionComponent, ReactElement, useEffect, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { Grid, Label } from "semantic-ui-react";
+import { Grid, Icon, Label } from "semantic-ui-react";
 import { getEmptyPlaceholderIllustrations } from "../../../core";
+import {
+    CertificateTypeInterface,
+    SAML2ServiceProviderInterface,
+    SAMLMetadataImportResultInterface
+} from "../../models";
+import { SAMLMetadataImportModal } from "../modals";
 
 /**
  * Proptypes for the oauth protocol settings wizard form component.
@@ -75,12 +81,24 @@ export const SAMLProtocolAllSettingsWizardForm: FunctionComponent<SAMLProtocolAl
     const [emptyFileError, setEmptyFileError] = useState(false);
     const [ assertionURLsErrorLabel, setAssertionURLsErrorLabel ] = useState<ReactElement>(null);
 
+    // State to manage the values imported from the service provider metadata.
+    const [ showMetadataImportModal, setShowMetadataImportModal ] = useState<boolean>(false);
+    const [ importedValues, setImportedValues ] = useState<SAML2ServiceProviderInterface>(undefined);
+    const [ importedCertificate, setImportedCertificate ] = useState<string>(undefined);
+    const [ importCount, setImportCount ] = useState<number>(0);
+
+    const manualValues: SAML2ServiceProviderInterface = importedValues
+        ?? initialValues?.inboundProtocolConfiguration?.saml?.manualConfiguration;
+
+    const formValues = useRef<Map<string, FormValue>>();
+
     useEffect(() => {
         if (isEmpty(initialValues?.inboundProtocolConfiguration?.saml)) {
             setConfigureMode(SAMLConfigModes.MANUAL);
         } else {
             if (!isEmpty(initialValues?.inboundProtocolConfiguration?.saml?.manualConfiguration)) {
                 setConfigureMode(SAMLConfigModes.MANUAL);
+                setImportedCertificate(initialValues?.advancedConfigurations?.certificate?.value);
             } else if (!isEmpty(initialValues?.inboundProtocolConfiguration?.saml?.metadataURL)) {
                 setConfigureMode(SAMLConfigModes.META_URL);
             } else if (!isEmpty(initialValues?.inboundProtocolConfiguration?.saml?.metadataFile)) {
@@ -127,6 +145,8 @@ export const SAMLProtocolAllSettingsWizardForm: FunctionComponent<SAMLProtocolAl
                 inboundProtocolConfiguration: {
                     saml: {
                         manualConfiguration: {
+                            // Keeps the rest of the values imported from the service provider metadata.
+                            ...manualValues,
                             assertionConsumerUrls: (assertionConsumerUrls.split(",")),
                             issuer: values.get("issuer") as string,
                             serviceProviderQualifier: values.get("applicationQualifier")
@@ -134,6 +154,18 @@ export const SAMLProtocolAllSettingsWizardForm: FunctionComponent<SAMLProtocolAl
                     }
                 }
             };
+
+            if (importedCertificate) {
+                result = {
+                    ...result,
+                    advancedConfigurations: {
+                        certificate: {
+                            type: CertificateTypeInterface.PEM,
+                            value: importedCertificate
+                        }
+                    }
+                };
+            }
         } else if (configureMode === SAMLConfigModes.META_URL) {
             result = {
                 inboundProtocolConfiguration: {
@@ -157,9 +189,41 @@ export const SAMLProtocolAllSettingsWizardForm: FunctionComponent<SAMLProtocolAl
         return result;
     };
 
+    /**
+     * Resolves the values in the form which are passed on to the metadata import.
+     *
+     * @return {SAML2ServiceProviderInterface}
+     */
+    const getCurrentConfiguration = (): SAML2ServiceProviderInterface => ({
+        ...manualValues,
+        assertionConsumerUrls: assertionConsumerUrls.split(",") as MandatoryArray<string>,
+        issuer: (formValues.current?.get("issuer") as string) ?? manualValues?.issuer,
+        serviceProviderQualifier: (formValues.current?.get("applicationQualifier") as string)
+            ?? manualValues?.serviceProviderQualifier
+    });
+
+    /**
+     * Fills the form with the values read from the service provider metadata.
+     *
+     * @param {SAMLMetadataImportResultInterface} result - Values read from the metadata.
+     */
+    const handleMetadataImport = (result: SAMLMetadataImportResultInterface): void => {
+        setImportedValues(result.configuration);
+        setImportedCertificate(result.certificate ?? importedCertificate);
+        setShowMetadataImportModal(false);
+
+        // Re-mounts the form to pick the imported values.
+        formValues.current = undefined;
+        setImportCount(importCount + 1);
+    };
+
     return (configureMode
             ?
             <Forms
+                key={ importCount }
+                onChange={ (isPure: boolean, values: Map<string, FormValue>) => {
+                    formValues.current = values;
+                } }
                 onSubmit={ (values: Map<string, FormValue>): void => {
                     // check whether assertionConsumer url is empty or not
                     if (configureMode === SAMLConfigModes.MANUAL && isEmpty(assertionConsumerUrls)) {
@@ -217,6 +281,20 @@ export const SAMLProtocolAllSettingsWizardForm: FunctionComponent<SAMLProtocolAl
                         (SAMLConfigModes.MANUAL === configureMode) &&
                         (
                             <>
+                                <Grid.Row columns={ 1 }>
+                                    <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 10 }>
+                                        <LinkButton
+                                            type="button"
+                                            className="pl-0"
+                                            onClick={ () => setShowMetadataImportModal(true) }
+                                            data-testid={ `${ testId }-metadata-import-button` }
+                                        >
+                                            <Icon name="upload"/>
+                                            { t("console:develop.features.applications.forms.inboundSAML.metadata" +
+                                                ".actions.import") }
+                                        </LinkButton>
+                                    </Grid.Column>
+                                </Grid.Row>
                                 <Grid.Row columns={ 1 }>
                                     <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 10 }>
                                         <Field
@@ -235,8 +313,7 @@ export const SAMLProtocolAllSettingsWizardForm: FunctionComponent<SAMLProtocolAl
                                                 t("console:develop.features.applications.forms.inboundSAML.fields" +
                                                     ".issuer.placeholder")
                                             }
-                                            value={ initialValues?.inboundProtocolConfiguration
-                                                .saml?.manualConfiguration?.issuer }
+                                            value={ manualValues?.issuer }
                                             data-testid={ `${ testId }-issuer-input` }
                                         />
                                         <Hint>
@@ -263,10 +340,7 @@ export const SAMLProtocolAllSettingsWizardForm: FunctionComponent<SAMLProtocolAl
                                                 t("console:develop.features.applications.forms.inboundSAML.fields" +
                                                     ".qualifier.placeholder")
                                             }
-                                            value={
-                                                initialValues?.inboundProtocolConfiguration
-                                                    .saml?.manualConfiguration?.serviceProviderQualifier
-                                            }
+                                            value={ manualValues?.serviceProviderQualifier }
                                             data-testid={ `${ testId }-application-qualifier-input` }
                                         />
                                         <Hint>
@@ -278,10 +352,7 @@ export const SAMLProtocolAllSettingsWizardForm: FunctionComponent<SAMLProtocolAl
                                 <URLInput
                                     urlState={ assertionConsumerUrls }
                                     setURLState={ setAssertionConsumerUrls }
-                                    value={
-                                        initialValues?.inboundProtocolConfiguration
-                                            .saml?.manualConfiguration?.assertionConsumerUrls.toString()
-                                    }
+                                    value={ manualValues?.assertionConsumerUrls.toString() }
                                     labelName={
                                         t("console:develop.features.applications.forms.inboundSAML.fields" +
                                             ".assertionURLs.label")
@@ -392,6 +463,17 @@ export const SAMLProtocolAllSettingsWizardForm: FunctionComponent<SAMLProtocolAl
                         />
                     )
                 }
+                {
+                    showMetadataImportModal && (
+                        <SAMLMetadataImportModal
+                            configuration={ getCurrentConfiguration() }
+                            certificate={ importedCertificate }
+                            onApply={ handleMetadataImport }
+                            onClose={ () => setShowMetadataImportModal(false) }
+                            data-testid={ `${ testId }-metadata-import-modal` }
+                        />
+                    )
+                }
             </Forms>
             : <ContentLoader/>
     );
@@ -43,6 +43,38 @@ export class ApplicationManagementConstants {
         ""
     ];
 
+    /**
+     * Name of the function invoked by the server when a login request is received.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly ADAPTIVE_AUTH_LOGIN_REQUEST_HANDLER: string = "onLoginRequest";
+
+    /**
+     * Name of the function which executes an authentication step.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly ADAPTIVE_AUTH_EXECUTE_STEP_FUNCTION: string = "executeStep";
+
+    /**
+     * ECMAScript version supported by the adaptive authentication script engine.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly ADAPTIVE_AUTH_SCRIPT_ECMA_VERSION: 2015 = 2015;
+
+    /**
+     * Time in milliseconds after which an adaptive script simulation is aborted.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly ADAPTIVE_AUTH_SCRIPT_SIMULATION_TIMEOUT: number = 3000;
+
     /**
      * Set of keys used to enable/disable features.
      * @constant
@@ -58,7 +90,8 @@ export class ApplicationManagementConstants {
         .set("APPLICATION_EDIT_SIGN_ON_METHOD_CONFIG", "applications.edit.signOnMethodConfiguration")
         .set("APPLICATION_EDIT_PROVISIONING_SETTINGS", "applications.edit.provisioningSettings")
         .set("APPLICATION_EDIT_ADVANCED_SETTINGS", "applications.edit.advancedSettings")
-        .set("APPLICATION_EDIT_INFO", "applications.edit.info");
+        .set("APPLICATION_EDIT_INFO", "applications.edit.info")
+        .set("APPLICATION_EDIT_TOKEN_PREVIEW", "applications.edit.tokenPreview");
 
     /**
      * Key for the `Edit Application` tag in the docs structure object.
@@ -380,4 +413,64 @@ export class ApplicationManagementConstants {
     };
 
     public static readonly CONDITIONAL_AUTH_TOUR_STATUS_STORAGE_KEY = "isConditionalAuthTourViewed";
+
+    /**
+     * Key of the adaptive script simulation scenarios in the user preferences.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly ADAPTIVE_AUTH_SIMULATION_SCENARIOS_STORAGE_KEY: string = "adaptiveScriptSimulationScenarios";
+
+    /**
+     * Kind of the application export bundles.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly APPLICATION_BUNDLE_KIND: string = "Application";
+
+    /**
+     * Keys of the cached application resources.
+     * @constant
+     * @type {Map<string, string>}
+     * @default
+     */
+    public static readonly RESOURCE_KEYS: Map<string, string> = new Map<string, string>()
+        .set("INBOUND_PROTOCOLS", "applications/meta/inbound-protocols")
+        .set("CUSTOM_INBOUND_PROTOCOLS", "applications/meta/inbound-protocols/custom");
+
+    /**
+     * Paths of the secrets which are removed from the application export bundles.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly APPLICATION_BUNDLE_SENSITIVE_PATHS: string[] = [
+        "inboundProtocolConfiguration.oidc.clientSecret"
+    ];
+
+    /**
+     * Access token type which issues self contained JWT access tokens.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly JWT_ACCESS_TOKEN_TYPE: string = "JWT";
+
+    /**
+     * Algorithm used to sign the tokens with the tenant key.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly TOKEN_SIGNING_ALGORITHM: string = "RS256";
+
+    /**
+     * Scope which is requested to receive an ID token.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly OPENID_SCOPE: string = "openid";
 }
@@ -16,7 +16,9 @@
  * under the License.
  */
 
-import { MandatoryArray } from "@wso2is/core/models";
+import { ExternalClaim, JWTHeaderInterface, JWTPayloadInterface, MandatoryArray } from "@wso2is/core/models";
+import { ClaimConfigurationInterface } from "./application";
+import { OIDCScopesListInterface } from "../../oidc-scopes/models";
 
 /**
  * Captures the auth protocols
@@ -123,6 +125,66 @@ export interface OIDCDataInterface {
     scopeValidators?: string[];
 }
 
+/**
+ * Inputs used to assemble the sample tokens of an OIDC application.
+ */
+export interface TokenPreviewContextInterface {
+    /**
+     * Issuer of the tokens. ex: Token endpoint.
+     */
+    issuer: string;
+    /**
+     * OIDC configuration of the application.
+     */
+    configuration: OIDCDataInterface;
+    /**
+     * Claim configuration of the application.
+     */
+    claimConfiguration: ClaimConfigurationInterface;
+    /**
+     * Claims of the OIDC dialect, used to resolve the names of the requested claims.
+     */
+    oidcClaims: ExternalClaim[];
+    /**
+     * Scopes available in the tenant along with their claims.
+     */
+    scopes: OIDCScopesListInterface[];
+    /**
+     * Scopes requested by the application.
+     */
+    requestedScopes: string[];
+    /**
+     * Is the token issued to the application itself. ex: Client credentials grant.
+     */
+    isApplicationToken?: boolean;
+    /**
+     * Issued time in seconds since the epoch.
+     */
+    issuedAt: number;
+}
+
+/**
+ * Sample of a token issued to an application.
+ */
+export interface TokenPreviewInterface {
+    /**
+     * JOSE header of the signed token. Not available for opaque tokens.
+     */
+    header?: JWTHeaderInterface;
+    /**
+     * Claims of the token. For opaque tokens, the claims returned by the introspection endpoint.
+     */
+    payload: JWTPayloadInterface;
+    /**
+     * JOSE header of the encrypted token wrapping the signed token.
+     */
+    encryptionHeader?: JWTHeaderInterface;
+    /**
+     * Requested claims which are not released since they are not in the requested scopes.
+     */
+    omittedClaims?: string[];
+}
+
 /**
  * Enum for the supported auth protocol types.
  *
@@ -305,6 +367,28 @@ export interface SAMLMetaDataInterface {
     keyEncryptionAlgorithm?: MetadataPropertyInterface;
 }
 
+/**
+ * SAML configurations resolved from a service provider metadata document.
+ */
+export interface SAMLMetadataImportResultInterface {
+    /**
+     * Entity ID of the service provider.
+     */
+    entityId: string;
+    /**
+     * Configuration with the values read from the metadata.
+     */
+    configuration: SAML2ServiceProviderInterface;
+    /**
+     * PEM encoded certificate of the service provider.
+     */
+    certificate?: string;
+    /**
+     * Elements of the metadata which couldn't be mapped to the configuration.
+     */
+    unsupportedElements: string[];
+}
+
 /**
  * WS Trust configuration interface.
  */
@@ -260,6 +260,10 @@ export interface ApplicationTemplateListItemInterface {
      */
     subTemplatesSectionTitle?: string;
     previewOnly?: boolean;
+    /**
+     * Version of the template. Available for the templates loaded from the template registry.
+     */
+    version?: string;
 }
 
 export interface ApplicationTemplateGroupInterface {
@@ -504,6 +508,244 @@ interface AdaptiveAuthTemplateDefaultAuthenticatorInterface {
     local: string[];
 }
 
+/**
+ * Severities of the adaptive script diagnostics.
+ */
+export enum AdaptiveScriptDiagnosticSeverities {
+    ERROR = "error",
+    WARNING = "warning"
+}
+
+/**
+ * Types of the issues detected by the adaptive script analyzer.
+ */
+export enum AdaptiveScriptDiagnosticCodes {
+    SYNTAX_ERROR = "syntaxError",
+    MISSING_LOGIN_REQUEST_HANDLER = "missingLoginRequestHandler",
+    UNDEFINED_STEP = "undefinedStep",
+    UNKNOWN_AUTHENTICATOR = "unknownAuthenticator",
+    UNKNOWN_IDENTITY_PROVIDER = "unknownIdentityProvider",
+    UNUSED_VARIABLE = "unusedVariable"
+}
+
+/**
+ * Position in the adaptive script. Lines and columns are zero based.
+ */
+export interface AdaptiveScriptPositionInterface {
+    line: number;
+    column: number;
+}
+
+/**
+ * Issue detected by the adaptive script analyzer.
+ */
+export interface AdaptiveScriptDiagnosticInterface {
+    /**
+     * Type of the issue.
+     */
+    code: AdaptiveScriptDiagnosticCodes;
+    /**
+     * Severity of the issue. Scripts with errors can't be saved.
+     */
+    severity: AdaptiveScriptDiagnosticSeverities;
+    /**
+     * Start of the offending code.
+     */
+    from: AdaptiveScriptPositionInterface;
+    /**
+     * End of the offending code.
+     */
+    to: AdaptiveScriptPositionInterface;
+    /**
+     * Values to be interpolated in to the message.
+     */
+    params?: Record<string, string | number>;
+}
+
+/**
+ * Stubbed results of an authentication step in a simulation.
+ */
+export enum AdaptiveScriptSimulationStepResults {
+    SUCCESS = "success",
+    FAIL = "fail"
+}
+
+/**
+ * Final outcomes of an adaptive script simulation.
+ */
+export enum AdaptiveScriptSimulationOutcomes {
+    SUCCESS = "success",
+    FAILED = "failed",
+    ERROR_REDIRECT = "errorRedirect",
+    NO_STEPS = "noSteps",
+    SCRIPT_ERROR = "scriptError",
+    TIMEOUT = "timeout"
+}
+
+/**
+ * Mock login request against which an adaptive script is simulated.
+ */
+export interface AdaptiveScriptSimulationScenarioInterface {
+    /**
+     * Unique id of the scenario.
+     */
+    id: string;
+    /**
+     * Display name of the scenario.
+     */
+    name: string;
+    /**
+     * User who is logging in.
+     */
+    user: {
+        username: string;
+        claims: Record<string, string>;
+        roles: string[];
+    };
+    /**
+     * Login request.
+     */
+    request: {
+        ip: string;
+        userAgent: string;
+        params: Record<string, string>;
+    };
+    /**
+     * Stubbed results of the authentication steps. Steps without a result succeed.
+     */
+    stepResults: Record<number, AdaptiveScriptSimulationStepResults>;
+}
+
+/**
+ * Authentication step executed during a simulation.
+ */
+export interface AdaptiveScriptSimulationTraceItemInterface {
+    /**
+     * Step number passed to `executeStep`.
+     */
+    step: number;
+    /**
+     * Stubbed result of the step.
+     */
+    result: AdaptiveScriptSimulationStepResults;
+    /**
+     * Authentication options passed to `executeStep`.
+     */
+    authenticationOptions?: Record<string, string>[];
+}
+
+/**
+ * Message logged by the script during a simulation.
+ */
+export interface AdaptiveScriptSimulationLogInterface {
+    level: "debug" | "error" | "info" | "warn";
+    message: string;
+}
+
+/**
+ * Result of an adaptive script simulation.
+ */
+export interface AdaptiveScriptSimulationResultInterface {
+    /**
+     * Final outcome of the login.
+     */
+    outcome: AdaptiveScriptSimulationOutcomes;
+    /**
+     * Steps executed in order.
+     */
+    trace: AdaptiveScriptSimulationTraceItemInterface[];
+    /**
+     * Messages logged via `Log`.
+     */
+    logs: AdaptiveScriptSimulationLogInterface[];
+    /**
+     * Error thrown by the script.
+     */
+    error?: string;
+    /**
+     * URL passed to `sendError`.
+     */
+    redirectUrl?: string;
+}
+
+/**
+ * Context against which the adaptive script is analyzed.
+ */
+export interface AdaptiveScriptAnalyzerContextInterface {
+    /**
+     * Number of steps in the step based flow.
+     */
+    stepCount: number;
+    /**
+     * Names of the local authenticators. Not validated if undefined.
+     */
+    authenticators?: string[];
+    /**
+     * Names of the identity providers. Not validated if undefined.
+     */
+    identityProviders?: string[];
+}
+
+/**
+ * Branch of the adaptive script which executes a step.
+ * ex: `executeStep(1, { onSuccess: function (context) { executeStep(2); } });`
+ */
+export interface AdaptiveScriptStepBranchInterface {
+    /**
+     * Step whose callback executes the step. Undefined if executed from the login request handler.
+     */
+    from?: number;
+    /**
+     * Executed step.
+     */
+    to: number;
+    /**
+     * Callback of the `from` step. ex: `onSuccess`, `onFail`.
+     */
+    condition?: string;
+    /**
+     * Is the step executed only under a condition of the script. ex: Inside an `if` block.
+     */
+    conditional: boolean;
+}
+
+/**
+ * Views of the step based authentication flow editor.
+ */
+export enum AuthenticationFlowViews {
+    GRAPH = "graph",
+    LIST = "list"
+}
+
+/**
+ * Types of the issues detected in a step based authentication flow.
+ */
+export enum AuthenticationFlowValidationCodes {
+    EMPTY_STEP = "emptyStep",
+    HANDLER_WITHOUT_NEXT_STEP = "handlerWithoutNextStep",
+    INVALID_ATTRIBUTE_STEP = "invalidAttributeStep",
+    INVALID_SUBJECT_STEP = "invalidSubjectStep",
+    SECOND_FACTOR_WITHOUT_HANDLER = "secondFactorWithoutHandler"
+}
+
+/**
+ * Issue detected in a step based authentication flow.
+ */
+export interface AuthenticationFlowValidationIssueInterface {
+    /**
+     * Type of the issue.
+     */
+    code: AuthenticationFlowValidationCodes;
+    /**
+     * Index of the offending step.
+     */
+    stepIndex: number;
+    /**
+     * Offending authenticator.
+     */
+    authenticator?: string;
+}
+
 export const emptyApplication = (): ApplicationInterface => ({
     accessUrl: "",
     advancedConfigurations: {
@@ -20,7 +20,7 @@ import { TestableComponentInterface } from "@wso2is/core/models";
 import { ContentLoader, EmptyPlaceholder, PageLayout, PrimaryButton, TemplateGrid } from "@wso2is/react-components";
 import isEmpty from "lodash-es/isEmpty";
 import isEqual from "lodash-es/isEqual";
-import React, { FunctionComponent, ReactElement, SyntheticEvent, useEffect, useState } from "react";
+import React, { FunctionComponent, ReactElement, SyntheticEvent, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useSelector } from "react-redux";
 import {
@@ -37,6 +37,11 @@ import {
     AppConstants,
     AppState,
     ConfigReducerStateInterface,
+    TemplatePreviewModal,
+    TemplateRegistryIssueInterface,
+    TemplateRegistryIssues,
+    TemplateRegistryResourceTypes,
+    TemplateRegistryUtils,
     getEmptyPlaceholderIllustrations,
     getTechnologyLogos,
     history
@@ -99,6 +104,7 @@ const ApplicationTemplateSelectPage: FunctionComponent<ApplicationTemplateSelect
     const [ categorizedTemplates, setCategorizedTemplates ] = useState<ApplicationTemplateCategoryInterface[]>([]);
     const [ showWizard, setShowWizard ] = useState<boolean>(false);
     const [ selectedTemplate, setSelectedTemplate ] = useState<ApplicationTemplateListItemInterface>(null);
+    const [ previewTemplate, setPreviewTemplate ] = useState<ApplicationTemplateListItemInterface>(null);
     const [
         isApplicationTemplateRequestLoading,
         setApplicationTemplateRequestLoadingStatus
@@ -110,6 +116,10 @@ const ApplicationTemplateSelectPage: FunctionComponent<ApplicationTemplateSelect
     const [ searchTriggered, setSearchTriggered ] = useState<boolean>(false);
     const [ templateFilterTypes, setTemplateFilterTypes ] = useState<DropdownItemProps[]>(TEMPLATE_FILTER_TYPES);
 
+    const registryIssues: TemplateRegistryIssueInterface[] = useMemo(() => {
+        return TemplateRegistryUtils.getIssues(TemplateRegistryResourceTypes.APPLICATION);
+    }, [ applicationTemplates ]);
+
     /**
      *  Get Application templates.
      */
@@ -220,6 +230,17 @@ const ApplicationTemplateSelectPage: FunctionComponent<ApplicationTemplateSelect
         setShowWizard(true);
     };
 
+    /**
+     * Handles template preview.
+     *
+     * @param {React.SyntheticEvent} e - Click event.
+     * @param {string} id - Id of the template.
+     */
+    const handleTemplatePreview = (e: SyntheticEvent, { id }: { id: string }): void => {
+
+        setPreviewTemplate(applicationTemplates?.find((template) => template.id === id) ?? null);
+    };
+
     /**
      * Handles the template search.
      *
@@ -293,6 +314,8 @@ const ApplicationTemplateSelectPage: FunctionComponent<ApplicationTemplateSelect
                 } }
                 templateIconSize="tiny"
                 onTemplateSelect={ handleTemplateSelection }
+                onTemplatePreview={ handleTemplatePreview }
+                templatePreviewLabel={ t("console:develop.features.templates.preview.label") }
                 paginate={ true }
                 paginationLimit={ 5 }
                 paginationOptions={ {
@@ -462,6 +485,10 @@ const ApplicationTemplateSelectPage: FunctionComponent<ApplicationTemplateSelect
                     </>
                 )
             }
+            <TemplateRegistryIssues
+                issues={ registryIssues }
+                data-testid={ `${ testId }-registry-issues` }
+            />
             {
                 searchTriggered && filteredTemplateList
                     ? renderTemplateGrids("SEARCH_RESULTS")
@@ -488,6 +515,15 @@ const ApplicationTemplateSelectPage: FunctionComponent<ApplicationTemplateSelect
                     }
                 />
             ) }
+            {
+                previewTemplate && (
+                    <TemplatePreviewModal
+                        template={ previewTemplate }
+                        onClose={ () => setPreviewTemplate(null) }
+                        data-testid={ `${ testId }-preview-modal` }
+                    />
+                )
+            }
         </PageLayout>
     );
 };
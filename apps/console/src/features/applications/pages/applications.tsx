@@ -46,6 +46,7 @@ import {
     Icon,
     PaginationProps
 } from "semantic-ui-react";
+import { ExtensionPoint, ExtensionPointSlots } from "../../../extensions";
 import {
     AdvancedSearchWithBasicFilters,
     AppConstants,
@@ -258,6 +259,10 @@ const ApplicationsPage: FunctionComponent<ApplicationsPageInterface> = (
                     allowedScopes))
                 && (
                     <>
+                        <ExtensionPoint
+                            slot={ ExtensionPointSlots.APPLICATION_LIST_HEADER_ACTIONS }
+                            data-testid={ `${ testId }-header-actions` }
+                        />
                         <PrimaryButton
                             onClick={ (): void => {
                                 history.push(AppConstants.getPaths().get("APPLICATION_TEMPLATES"));
@@ -0,0 +1,181 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import {
+    AdaptiveScriptSimulationOutcomes,
+    AdaptiveScriptSimulationResultInterface,
+    AdaptiveScriptSimulationScenarioInterface,
+    AdaptiveScriptSimulationStepResults
+} from "../models";
+import { simulate } from "../workers/adaptive-script-simulator.worker";
+
+const SCENARIO: AdaptiveScriptSimulationScenarioInterface = {
+    id: "admin-login",
+    name: "Admin login",
+    request: {
+        ip: "127.0.0.1",
+        params: {},
+        userAgent: "Mozilla/5.0"
+    },
+    stepResults: {
+        1: AdaptiveScriptSimulationStepResults.SUCCESS
+    },
+    user: {
+        claims: {},
+        roles: [ "admin" ],
+        username: "john"
+    }
+};
+
+/**
+ * Builds a script which tries to reach the global scope through the given expression.
+ *
+ * @param {string} expression - Expression which evaluates to the global scope.
+ * @return {string}
+ */
+const buildEscapeScript = (expression: string): string => {
+    return [
+        "var onLoginRequest = function (context) {",
+        `    var scope = ${ expression };`,
+        "    Log.info(typeof scope);",
+        "    executeStep(1);",
+        "};"
+    ].join("\n");
+};
+
+describe("Adaptive script simulator", () => {
+
+    test("Should run the script against the scenario", () => {
+        const result: AdaptiveScriptSimulationResultInterface = simulate([
+            "var onLoginRequest = function (context) {",
+            "    executeStep(1, {",
+            "        onSuccess: function (context) {",
+            "            if (hasAnyOfTheRoles(context.currentKnownSubject, [ \"admin\" ])) {",
+            "                Log.info(\"Admin logged in.\");",
+            "            }",
+            "        }",
+            "    });",
+            "};"
+        ].join("\n"), SCENARIO);
+
+        expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SUCCESS);
+        expect(result.logs).toEqual([ { level: "info", message: "Admin logged in." } ]);
+        expect(result.trace).toHaveLength(1);
+    });
+
+    test("Should not expose the global scope through the top level this", () => {
+        const result: AdaptiveScriptSimulationResultInterface = simulate([
+            "var scope = this;",
+            "var onLoginRequest = function (context) {",
+            "    Log.info(typeof scope);",
+            "    executeStep(1);",
+            "};"
+        ].join("\n"), SCENARIO);
+
+        expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SUCCESS);
+        expect(result.logs).toEqual([ { level: "info", message: "undefined" } ]);
+    });
+
+    test("Should not expose the global scope through this of the onLoginRequest function", () => {
+        const result: AdaptiveScriptSimulationResultInterface = simulate(buildEscapeScript("this"), SCENARIO);
+
+        expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SUCCESS);
+        expect(result.logs).toEqual([ { level: "info", message: "undefined" } ]);
+    });
+
+    test("Should not expose the global scope through the Function constructor", () => {
+        const result: AdaptiveScriptSimulationResultInterface = simulate(
+            buildEscapeScript("Function(\"return this\")()"), SCENARIO);
+
+        expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR);
+        expect(result.logs).toHaveLength(0);
+    });
+
+    test("Should not expose the global scope through the constructor of an object", () => {
+        const result: AdaptiveScriptSimulationResultInterface = simulate(
+            buildEscapeScript("({}).constructor.constructor(\"return this\")()"), SCENARIO);
+
+        expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR);
+        expect(result.error).toBe("Function constructors are not allowed in adaptive scripts.");
+        expect(result.logs).toHaveLength(0);
+    });
+
+    test("Should not expose the global scope through the constructor of the provided functions", () => {
+        const result: AdaptiveScriptSimulationResultInterface = simulate(
+            buildEscapeScript("Log.info.constructor(\"return this\")()"), SCENARIO);
+
+        expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR);
+        expect(result.error).toBe("Function constructors are not allowed in adaptive scripts.");
+    });
+
+    test("Should not expose the global scope through the constructors of generator and async functions", () => {
+        [
+            "(function* () {}).constructor(\"return this\")().next().value",
+            "(async function () {}).constructor(\"return this\")()"
+        ].forEach((expression: string) => {
+            const result: AdaptiveScriptSimulationResultInterface = simulate(buildEscapeScript(expression), SCENARIO);
+
+            expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR);
+            expect(result.error).toBe("Function constructors are not allowed in adaptive scripts.");
+        });
+    });
+
+    test("Should not expose the global scope through an indirect eval", () => {
+        const result: AdaptiveScriptSimulationResultInterface = simulate(
+            buildEscapeScript("(0, eval)(\"this\")"), SCENARIO);
+
+        expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR);
+        expect(result.logs).toHaveLength(0);
+    });
+    test("Should not run code strings through the timers", () => {
+        [
+            "setTimeout(\"postMessage({})\")",
+            "setInterval(\"postMessage({})\")"
+        ].forEach((expression: string) => {
+            const result: AdaptiveScriptSimulationResultInterface = simulate(buildEscapeScript(expression), SCENARIO);
+
+            expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR);
+            expect(result.logs).toHaveLength(0);
+        });
+    });
+
+    test("Should not expose the globals which start workers or open channels", () => {
+        [
+            "Blob",
+            "BroadcastChannel",
+            "EventSource",
+            "MessageChannel",
+            "SharedWorker",
+            "Worker"
+        ].forEach((global: string) => {
+            const result: AdaptiveScriptSimulationResultInterface = simulate(buildEscapeScript(global), SCENARIO);
+
+            expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SUCCESS);
+            expect(result.logs).toEqual([ { level: "info", message: "undefined" } ]);
+        });
+    });
+
+    test("Should not start a nested worker", () => {
+        const result: AdaptiveScriptSimulationResultInterface = simulate(
+            buildEscapeScript("new Worker(URL.createObjectURL(new Blob([ \"postMessage({})\" ])))"), SCENARIO);
+
+        expect(result.outcome).toBe(AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR);
+        expect(result.logs).toHaveLength(0);
+    });
+});
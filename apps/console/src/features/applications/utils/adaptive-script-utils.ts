@@ -17,7 +17,48 @@
  *
  */
 
+import { StorageIdentityAppsSettingsInterface } from "@wso2is/core/models";
+import { Node, parse } from "acorn";
+import { ancestor, full, simple } from "acorn-walk";
+import {
+    Directive,
+    Node as ESTreeNode,
+    Expression,
+    FunctionDeclaration,
+    Identifier,
+    ModuleDeclaration,
+    ObjectExpression,
+    Position,
+    Program,
+    Property,
+    SimpleCallExpression,
+    SpreadElement,
+    Statement,
+    VariableDeclarator
+} from "estree";
+import cloneDeep from "lodash-es/cloneDeep";
+import get from "lodash-es/get";
+import isEmpty from "lodash-es/isEmpty";
+import set from "lodash-es/set";
+import { AppUtils } from "../../core/utils";
 import { ApplicationManagementConstants } from "../constants";
+import {
+    AdaptiveScriptAnalyzerContextInterface,
+    AdaptiveScriptDiagnosticCodes,
+    AdaptiveScriptDiagnosticInterface,
+    AdaptiveScriptDiagnosticSeverities,
+    AdaptiveScriptPositionInterface,
+    AdaptiveScriptSimulationOutcomes,
+    AdaptiveScriptSimulationResultInterface,
+    AdaptiveScriptSimulationScenarioInterface,
+    AdaptiveScriptStepBranchInterface
+} from "../models";
+import AdaptiveScriptSimulatorWorker from "../workers/adaptive-script-simulator.worker";
+
+/**
+ * ESTree node produced by the parser. Acorn's own node type doesn't declare the node specific properties.
+ */
+type ScriptNodeType<T extends ESTreeNode = ESTreeNode> = T & Node;
 
 /**
  * Utility class for adaptive script operations.
@@ -134,4 +175,462 @@ export class AdaptiveScriptUtils {
             !AdaptiveScriptUtils.minifyScript(script);
     }
 
+    /**
+     * Statically analyzes an adaptive script to catch the issues which would otherwise
+     * only surface at login time.
+     *
+     * @param {string | string[]} script - Script to analyze.
+     * @param {AdaptiveScriptAnalyzerContextInterface} context - Authentication flow the script belongs to.
+     * @return {AdaptiveScriptDiagnosticInterface[]} Detected issues sorted by their position.
+     */
+    public static analyzeScript(script: string | string[],
+        context: AdaptiveScriptAnalyzerContextInterface): AdaptiveScriptDiagnosticInterface[] {
+
+        if (AdaptiveScriptUtils.isEmptyScript(script)) {
+            return [];
+        }
+
+        const source: string = Array.isArray(script)
+            ? script.join("\n")
+            : String(script);
+
+        let program: ScriptNodeType<Program>;
+
+        try {
+            program = parse(source, {
+                ecmaVersion: ApplicationManagementConstants.ADAPTIVE_AUTH_SCRIPT_ECMA_VERSION,
+                locations: true
+            }) as ScriptNodeType<Program>;
+        } catch (error) {
+            // Acorn attaches the position of the syntax error to the thrown error.
+            const position: AdaptiveScriptPositionInterface = AdaptiveScriptUtils.toPosition(error.loc);
+
+            return [ {
+                code: AdaptiveScriptDiagnosticCodes.SYNTAX_ERROR,
+                from: position,
+                params: { message: error.message },
+                severity: AdaptiveScriptDiagnosticSeverities.ERROR,
+                to: { column: position.column + 1, line: position.line }
+            } ];
+        }
+
+        const diagnostics: AdaptiveScriptDiagnosticInterface[] = [
+            ...AdaptiveScriptUtils.checkLoginRequestHandler(program),
+            ...AdaptiveScriptUtils.checkExecuteStepCalls(program, context),
+            ...AdaptiveScriptUtils.checkUnusedVariables(program)
+        ];
+
+        return diagnostics.sort((a: AdaptiveScriptDiagnosticInterface, b: AdaptiveScriptDiagnosticInterface) => {
+            return (a.from.line - b.from.line) || (a.from.column - b.from.column);
+        });
+    }
+
+    /**
+     * Extracts the branches of the script which execute the steps. A step executed inside a callback of
+     * another step is a branch of that step. ex: `executeStep(2)` inside `onSuccess` of `executeStep(1)`.
+     * Steps executed with a non literal step number are ignored.
+     *
+     * @param {string | string[]} script - Script to analyze.
+     * @return {AdaptiveScriptStepBranchInterface[]} Branches or an empty array if the script can't be parsed.
+     */
+    public static getStepBranches(script: string | string[]): AdaptiveScriptStepBranchInterface[] {
+
+        if (AdaptiveScriptUtils.isEmptyScript(script)) {
+            return [];
+        }
+
+        let program: ScriptNodeType<Program>;
+
+        try {
+            program = parse(Array.isArray(script) ? script.join("\n") : String(script), {
+                ecmaVersion: ApplicationManagementConstants.ADAPTIVE_AUTH_SCRIPT_ECMA_VERSION
+            }) as ScriptNodeType<Program>;
+        } catch (error) {
+            return [];
+        }
+
+        const branches: AdaptiveScriptStepBranchInterface[] = [];
+
+        ancestor(program, {
+            CallExpression: (node: ScriptNodeType<SimpleCallExpression>, state: unknown,
+                ancestors: ScriptNodeType[]) => {
+                const step: number = AdaptiveScriptUtils.getExecutedStep(node);
+
+                if (step === undefined) {
+                    return;
+                }
+
+                let conditional: boolean = false;
+
+                // Walk up until the callback of another step is found. The last ancestor is the node itself.
+                for (let index: number = ancestors.length - 2; index >= 0; index--) {
+                    const current: ScriptNodeType = ancestors[ index ];
+
+                    if ([ "ConditionalExpression", "IfStatement", "LogicalExpression", "SwitchStatement" ]
+                        .includes(current.type)) {
+
+                        conditional = true;
+                    }
+
+                    const from: number = AdaptiveScriptUtils.getExecutedStep(current);
+
+                    if (from !== undefined && ancestors[ index + 2 ]?.type === "Property") {
+                        branches.push({
+                            condition: AdaptiveScriptUtils.getPropertyName(ancestors[ index + 2 ]),
+                            conditional,
+                            from,
+                            to: step
+                        });
+
+                        return;
+                    }
+                }
+
+                branches.push({ conditional, to: step });
+            }
+        });
+
+        return branches;
+    }
+
+    /**
+     * Runs an adaptive script against a mock login scenario in a sandboxed worker.
+     * The simulation is aborted if the script doesn't complete within the timeout. ex: Infinite loops.
+     *
+     * @param {string | string[]} script - Script to simulate.
+     * @param {AdaptiveScriptSimulationScenarioInterface} scenario - Mock login request.
+     * @return {Promise<AdaptiveScriptSimulationResultInterface>}
+     */
+    public static simulateScript(script: string | string[],
+        scenario: AdaptiveScriptSimulationScenarioInterface): Promise<AdaptiveScriptSimulationResultInterface> {
+
+        return new Promise((resolve: (result: AdaptiveScriptSimulationResultInterface) => void) => {
+            const worker: Worker = new AdaptiveScriptSimulatorWorker();
+
+            const complete = (result: AdaptiveScriptSimulationResultInterface): void => {
+                clearTimeout(timeout);
+                worker.terminate();
+                resolve(result);
+            };
+
+            const timeout: ReturnType<typeof setTimeout> = setTimeout(() => {
+                complete({
+                    logs: [],
+                    outcome: AdaptiveScriptSimulationOutcomes.TIMEOUT,
+                    trace: []
+                });
+            }, ApplicationManagementConstants.ADAPTIVE_AUTH_SCRIPT_SIMULATION_TIMEOUT);
+
+            worker.onmessage = (event: MessageEvent) => complete(event.data);
+            worker.onerror = (event: ErrorEvent) => complete({
+                error: event.message,
+                logs: [],
+                outcome: AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR,
+                trace: []
+            });
+
+            worker.postMessage({
+                scenario,
+                script: Array.isArray(script) ? script.join("\n") : script
+            });
+        });
+    }
+
+    /**
+     * Gets the simulation scenarios saved for an application.
+     *
+     * @param {string} appId - ID of the application.
+     * @return {AdaptiveScriptSimulationScenarioInterface[]}
+     */
+    public static getSimulationScenarios(appId: string): AdaptiveScriptSimulationScenarioInterface[] {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return [];
+        }
+
+        return get(userPreferences.identityAppsSettings?.devPortal,
+            [ ApplicationManagementConstants.ADAPTIVE_AUTH_SIMULATION_SCENARIOS_STORAGE_KEY, appId ], []);
+    }
+
+    /**
+     * Saves the simulation scenarios of an application in the user preferences.
+     *
+     * @param {string} appId - ID of the application.
+     * @param {AdaptiveScriptSimulationScenarioInterface[]} scenarios - Scenarios to save.
+     */
+    public static setSimulationScenarios(appId: string, scenarios: AdaptiveScriptSimulationScenarioInterface[]): void {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return;
+        }
+
+        const newPref: StorageIdentityAppsSettingsInterface = cloneDeep(userPreferences);
+
+        set(newPref, [ "identityAppsSettings", "devPortal",
+            ApplicationManagementConstants.ADAPTIVE_AUTH_SIMULATION_SCENARIOS_STORAGE_KEY, appId ], scenarios);
+
+        AppUtils.setUserPreferences(newPref);
+    }
+
+    /**
+     * Checks if the script defines the function invoked on login requests.
+     *
+     * @param {Program} program - Parsed script.
+     * @return {AdaptiveScriptDiagnosticInterface[]}
+     */
+    private static checkLoginRequestHandler(program: Program): AdaptiveScriptDiagnosticInterface[] {
+
+        const handler: string = ApplicationManagementConstants.ADAPTIVE_AUTH_LOGIN_REQUEST_HANDLER;
+
+        const isDefined: boolean = program.body.some((statement: Directive | Statement | ModuleDeclaration) => {
+            if (statement.type === "FunctionDeclaration") {
+                return statement.id.name === handler;
+            }
+
+            if (statement.type === "VariableDeclaration") {
+                return statement.declarations.some((declaration: VariableDeclarator) => {
+                    return declaration.id.type === "Identifier"
+                        && declaration.id.name === handler
+                        && [ "ArrowFunctionExpression", "FunctionExpression" ].includes(declaration.init?.type);
+                });
+            }
+
+            return false;
+        });
+
+        if (isDefined) {
+            return [];
+        }
+
+        return [ {
+            code: AdaptiveScriptDiagnosticCodes.MISSING_LOGIN_REQUEST_HANDLER,
+            from: { column: 0, line: 0 },
+            severity: AdaptiveScriptDiagnosticSeverities.ERROR,
+            to: { column: 0, line: 0 }
+        } ];
+    }
+
+    /**
+     * Checks if the `executeStep` calls refer to the steps and authenticators of the flow.
+     *
+     * @param {ScriptNodeType<Program>} program - Parsed script.
+     * @param {AdaptiveScriptAnalyzerContextInterface} context - Authentication flow the script belongs to.
+     * @return {AdaptiveScriptDiagnosticInterface[]}
+     */
+    private static checkExecuteStepCalls(program: ScriptNodeType<Program>,
+        context: AdaptiveScriptAnalyzerContextInterface): AdaptiveScriptDiagnosticInterface[] {
+
+        const diagnostics: AdaptiveScriptDiagnosticInterface[] = [];
+
+        simple(program, {
+            CallExpression: (node: ScriptNodeType<SimpleCallExpression>) => {
+                if (node.callee.type !== "Identifier"
+                    || node.callee.name !== ApplicationManagementConstants.ADAPTIVE_AUTH_EXECUTE_STEP_FUNCTION) {
+
+                    return;
+                }
+
+                const [ step, options ] = node.arguments;
+
+                if (step?.type === "Literal" && typeof step.value === "number"
+                    && (!Number.isInteger(step.value) || step.value < 1 || step.value > context.stepCount)) {
+
+                    diagnostics.push(AdaptiveScriptUtils.createDiagnostic(step,
+                        AdaptiveScriptDiagnosticCodes.UNDEFINED_STEP, AdaptiveScriptDiagnosticSeverities.ERROR,
+                        { step: step.value, stepCount: context.stepCount }));
+                }
+
+                AdaptiveScriptUtils.getAuthenticationOptions(options)
+                    .forEach((option: ObjectExpression) => {
+                        option.properties.forEach((property: Property | SpreadElement) => {
+                            if (property.type !== "Property") {
+                                return;
+                            }
+
+                            const key: string = AdaptiveScriptUtils.getPropertyName(property);
+                            const value: Property["value"] = property.value;
+
+                            if (value?.type !== "Literal" || typeof value.value !== "string") {
+                                return;
+                            }
+
+                            if (key === "authenticator" && context.authenticators
+                                && !context.authenticators.includes(value.value)) {
+
+                                diagnostics.push(AdaptiveScriptUtils.createDiagnostic(value,
+                                    AdaptiveScriptDiagnosticCodes.UNKNOWN_AUTHENTICATOR,
+                                    AdaptiveScriptDiagnosticSeverities.WARNING, { name: value.value }));
+                            }
+
+                            if (key === "idp" && context.identityProviders
+                                && !context.identityProviders.includes(value.value)) {
+
+                                diagnostics.push(AdaptiveScriptUtils.createDiagnostic(value,
+                                    AdaptiveScriptDiagnosticCodes.UNKNOWN_IDENTITY_PROVIDER,
+                                    AdaptiveScriptDiagnosticSeverities.WARNING, { name: value.value }));
+                            }
+                        });
+                    });
+            }
+        });
+
+        return diagnostics;
+    }
+
+    /**
+     * Checks for the variables and functions which are declared but never read.
+     * Scopes are not resolved. Hence, a shadowed variable is considered used if any variable
+     * with the same name is read.
+     *
+     * @param {ScriptNodeType<Program>} program - Parsed script.
+     * @return {AdaptiveScriptDiagnosticInterface[]}
+     */
+    private static checkUnusedVariables(program: ScriptNodeType<Program>): AdaptiveScriptDiagnosticInterface[] {
+
+        const declarations: Identifier[] = [];
+        const references: Set<string> = new Set<string>();
+
+        simple(program, {
+            FunctionDeclaration: (node: ScriptNodeType<FunctionDeclaration>) => {
+                declarations.push(node.id);
+            },
+            VariableDeclarator: (node: ScriptNodeType<VariableDeclarator>) => {
+                if (node.id.type === "Identifier") {
+                    declarations.push(node.id);
+                }
+            }
+        });
+
+        // Identifiers which are read are visited as `Identifier`. Declarations and
+        // assignment targets are visited as patterns.
+        full(program, (node: ScriptNodeType, state: unknown, type: string) => {
+            if (type === "Identifier" && node.type === "Identifier") {
+                references.add(node.name);
+            }
+        });
+
+        return declarations
+            .filter((declaration: Identifier) => {
+                return declaration.name !== ApplicationManagementConstants.ADAPTIVE_AUTH_LOGIN_REQUEST_HANDLER
+                    && !references.has(declaration.name);
+            })
+            .map((declaration: Identifier) => {
+                return AdaptiveScriptUtils.createDiagnostic(declaration,
+                    AdaptiveScriptDiagnosticCodes.UNUSED_VARIABLE, AdaptiveScriptDiagnosticSeverities.WARNING,
+                    { name: declaration.name });
+            });
+    }
+
+    /**
+     * Resolves the step executed by a node if it's an `executeStep` call with a literal step number.
+     *
+     * @param {ESTreeNode} node - Node to check.
+     * @return {number} Step number or undefined.
+     */
+    private static getExecutedStep(node: ESTreeNode): number {
+
+        if (node.type !== "CallExpression" || node.callee.type !== "Identifier"
+            || node.callee.name !== ApplicationManagementConstants.ADAPTIVE_AUTH_EXECUTE_STEP_FUNCTION) {
+
+            return undefined;
+        }
+
+        const [ step ] = node.arguments;
+
+        return (step?.type === "Literal" && typeof step.value === "number")
+            ? step.value
+            : undefined;
+    }
+
+    /**
+     * Extracts the authenticator option objects from the options argument of an `executeStep` call.
+     * ex: `executeStep(1, { authenticationOptions: [ { authenticator: "totp" } ] })`.
+     *
+     * @param {Expression | SpreadElement} options - Options argument.
+     * @return {ObjectExpression[]} Option object expressions.
+     */
+    private static getAuthenticationOptions(options: Expression | SpreadElement): ObjectExpression[] {
+
+        if (options?.type !== "ObjectExpression") {
+            return [];
+        }
+
+        const property: Property | SpreadElement = options.properties.find((item: Property | SpreadElement) => {
+            return AdaptiveScriptUtils.getPropertyName(item) === "authenticationOptions";
+        });
+
+        if (property?.type !== "Property" || property.value.type !== "ArrayExpression") {
+            return [];
+        }
+
+        return property.value.elements.filter((element: Expression | SpreadElement): element is ObjectExpression => {
+            return element?.type === "ObjectExpression";
+        });
+    }
+
+    /**
+     * Resolves the name of a non computed object property.
+     *
+     * @param {ESTreeNode} property - Object property.
+     * @return {string} Name of the property or undefined if it can't be resolved.
+     */
+    private static getPropertyName(property: ESTreeNode): string {
+
+        if (property.type !== "Property" || property.computed) {
+            return undefined;
+        }
+
+        if (property.key.type === "Identifier") {
+            return property.key.name;
+        }
+
+        return property.key.type === "Literal"
+            ? String(property.key.value)
+            : undefined;
+    }
+
+    /**
+     * Creates a diagnostic spanning the given node.
+     *
+     * @param {ESTreeNode} node - Offending node.
+     * @param {AdaptiveScriptDiagnosticCodes} code - Type of the issue.
+     * @param {AdaptiveScriptDiagnosticSeverities} severity - Severity of the issue.
+     * @param {Record<string, string | number>} params - Values to be interpolated in to the message.
+     * @return {AdaptiveScriptDiagnosticInterface}
+     */
+    private static createDiagnostic(node: ESTreeNode, code: AdaptiveScriptDiagnosticCodes,
+        severity: AdaptiveScriptDiagnosticSeverities,
+        params: Record<string, string | number>): AdaptiveScriptDiagnosticInterface {
+
+        return {
+            code,
+            from: AdaptiveScriptUtils.toPosition(node.loc?.start),
+            params,
+            severity,
+            to: AdaptiveScriptUtils.toPosition(node.loc?.end)
+        };
+    }
+
+    /**
+     * Converts a parser position to a zero based position.
+     *
+     * @param {Position} position - Parser position. Lines are one based.
+     * @return {AdaptiveScriptPositionInterface}
+     */
+    private static toPosition(position: Position): AdaptiveScriptPositionInterface {
+
+        if (!position) {
+            return { column: 0, line: 0 };
+        }
+
+        return {
+            column: position.column,
+            line: position.line - 1
+        };
+    }
+
 }
@@ -17,13 +17,33 @@
  *
  */
 
-import { AlertLevels } from "@wso2is/core/models";
+import { SAMLMetadataConstants } from "@wso2is/core/constants";
+import {
+    AlertLevels,
+    ExternalClaim,
+    JWTPayloadInterface,
+    MandatoryArray,
+    ResourceBundleInterface,
+    ResourceDiffInterface,
+    ResourceDiffTypes,
+    SAMLMetadataEndpointInterface,
+    SAMLServiceProviderMetadataInterface
+} from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
+import {
+    CertificateManagementUtils,
+    ResourceBundleUtils,
+    ResourceClientUtils,
+    SAMLMetadataUtils
+} from "@wso2is/core/utils";
 import { I18n } from "@wso2is/i18n";
 import camelCase from "lodash-es/camelCase";
 import intersectionBy from "lodash-es/intersectionBy";
+import union from "lodash-es/union";
 import unionBy from "lodash-es/unionBy";
 import { DocPanelUICardInterface, store } from "../../core";
+import { IdentityProviderManagementConstants } from "../../identity-providers/constants";
+import { OIDCScopesListInterface } from "../../oidc-scopes/models";
 import {
     getAvailableInboundProtocols,
     getOIDCApplicationConfigurations,
@@ -32,9 +52,20 @@ import {
 import { SupportedAuthProtocolTypeDescriptions, SupportedAuthProtocolTypeDisplayNames } from "../components/meta";
 import { ApplicationManagementConstants } from "../constants";
 import {
+    ApplicationInterface,
     AuthProtocolMetaListItemInterface,
+    AuthenticationSequenceInterface,
+    InboundProtocolsInterface,
+    LogoutMethods,
+    MainApplicationInterface,
+    RequestedClaimConfigurationInterface,
+    SAML2BindingTypes,
+    SAML2ServiceProviderInterface,
     SAMLApplicationConfigurationInterface,
+    SAMLMetadataImportResultInterface,
     SupportedAuthProtocolTypes,
+    TokenPreviewContextInterface,
+    TokenPreviewInterface,
     emptySAMLAppConfiguration
 } from "../models";
 import {
@@ -58,6 +89,22 @@ export class ApplicationManagementUtils {
      */
     private constructor() { }
 
+    /**
+     * Fetches the available inbound protocols. The response is cached since the protocols
+     * only change when the server is reconfigured.
+     *
+     * @param {boolean} customOnly - Whether to fetch just the custom protocols.
+     * @return {Promise<AuthProtocolMetaListItemInterface[]>}
+     */
+    public static fetchInboundProtocols(customOnly: boolean): Promise<AuthProtocolMetaListItemInterface[]> {
+        return ResourceClientUtils.fetch<AuthProtocolMetaListItemInterface[]>({
+            fetcher: () => getAvailableInboundProtocols(customOnly),
+            key: ApplicationManagementConstants.RESOURCE_KEYS.get(customOnly
+                ? "CUSTOM_INBOUND_PROTOCOLS"
+                : "INBOUND_PROTOCOLS")
+        });
+    }
+
     /**
      * Gets the list of available inbound protocols list and sets them in the redux store.
      *
@@ -65,8 +112,8 @@ export class ApplicationManagementUtils {
      * @param {boolean} customOnly - Whether to fetch just the custom protocols.
      */
     public static getInboundProtocols(meta: AuthProtocolMetaListItemInterface[], customOnly = false): Promise<void> {
-        return getAvailableInboundProtocols(customOnly)
-            .then((response) => {
+        return ApplicationManagementUtils.fetchInboundProtocols(customOnly)
+            .then((response: AuthProtocolMetaListItemInterface[]) => {
                 // Filter meta based on the available protocols.
                 const filteredMeta = intersectionBy(meta, response, "name");
 
@@ -106,8 +153,8 @@ export class ApplicationManagementUtils {
      */
     public static getCustomInboundProtocols(
         meta: AuthProtocolMetaListItemInterface[], customOnly = true): Promise<void> {
-        return getAvailableInboundProtocols(customOnly)
-            .then((response) => {
+        return ApplicationManagementUtils.fetchInboundProtocols(customOnly)
+            .then((response: AuthProtocolMetaListItemInterface[]) => {
                 // Filter meta based on the available protocols.
                 const filteredMeta = intersectionBy(meta, response, "name");
 
@@ -371,4 +418,352 @@ export class ApplicationManagementUtils {
 
         return SupportedAuthProtocolTypeDescriptions[protocol];
     }
+
+    /**
+     * Builds a portable export bundle from an application and its inbound protocol configurations.
+     * Server generated details such as the id and the access level are not included and the secrets
+     * are redacted.
+     *
+     * @param {ApplicationInterface} application - Application to be exported.
+     * @param {object} inboundProtocolConfigs - Inbound protocol configurations keyed by the protocol type.
+     * @return {ResourceBundleInterface<MainApplicationInterface>} Export bundle.
+     */
+    public static buildApplicationBundle(
+        application: ApplicationInterface,
+        inboundProtocolConfigs: object
+    ): ResourceBundleInterface<MainApplicationInterface> {
+
+        const inboundProtocolConfiguration: InboundProtocolsInterface = {};
+
+        if (inboundProtocolConfigs) {
+            Object.values(SupportedAuthProtocolTypes).forEach((protocol: SupportedAuthProtocolTypes) => {
+                const config = inboundProtocolConfigs[ protocol ];
+
+                if (!config) {
+                    return;
+                }
+
+                if (protocol === SupportedAuthProtocolTypes.OIDC) {
+                    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+                    const { state, ...oidc } = config;
+
+                    inboundProtocolConfiguration.oidc = oidc;
+                } else if (protocol === SupportedAuthProtocolTypes.SAML) {
+                    inboundProtocolConfiguration.saml = { manualConfiguration: config };
+                } else if (protocol === SupportedAuthProtocolTypes.WS_FEDERATION) {
+                    inboundProtocolConfiguration.passiveSts = config;
+                } else if (protocol === SupportedAuthProtocolTypes.WS_TRUST) {
+                    inboundProtocolConfiguration.wsTrust = config;
+                }
+            });
+        }
+
+        const resource: MainApplicationInterface = {
+            accessUrl: application.accessUrl,
+            advancedConfigurations: application.advancedConfigurations,
+            authenticationSequence: application.authenticationSequence,
+            claimConfiguration: application.claimConfiguration,
+            description: application.description,
+            imageUrl: application.imageUrl,
+            inboundProtocolConfiguration,
+            name: application.name,
+            templateId: application.templateId
+        };
+
+        return ResourceBundleUtils.createBundle<MainApplicationInterface>(
+            ApplicationManagementConstants.APPLICATION_BUNDLE_KIND,
+            resource,
+            ApplicationManagementConstants.APPLICATION_BUNDLE_SENSITIVE_PATHS
+        );
+    }
+
+    /**
+     * Lists the federated identity providers used in the steps of an authentication sequence.
+     *
+     * @param {AuthenticationSequenceInterface} sequence - Authentication sequence.
+     * @return {string[]} Unique names of the identity providers.
+     */
+    public static getFederatedIdPsInAuthSequence(sequence: AuthenticationSequenceInterface): string[] {
+
+        const idps: Set<string> = new Set<string>();
+
+        sequence?.steps?.forEach((step) => {
+            step.options?.forEach((option) => {
+                if (option.idp && option.idp !== IdentityProviderManagementConstants.LOCAL_IDP_IDENTIFIER) {
+                    idps.add(option.idp);
+                }
+            });
+        });
+
+        return Array.from(idps);
+    }
+
+    /**
+     * Maps the details read from a service provider metadata document on to a SAML configuration.
+     * Values which are not described in the metadata are taken from the current configuration and the
+     * issuer of an existing application is never changed.
+     *
+     * @param {SAMLServiceProviderMetadataInterface} metadata - Service provider metadata.
+     * @param {SAML2ServiceProviderInterface} current - Current configuration.
+     * @return {SAMLMetadataImportResultInterface} Resolved configuration.
+     */
+    public static getSAMLConfigurationFromMetadata(
+        metadata: SAMLServiceProviderMetadataInterface,
+        current: SAML2ServiceProviderInterface
+    ): SAMLMetadataImportResultInterface {
+
+        const bindings: Map<string, SAML2BindingTypes> = new Map<string, SAML2BindingTypes>()
+            .set(SAMLMetadataConstants.HTTP_POST_BINDING, SAML2BindingTypes.HTTP_POST)
+            .set(SAMLMetadataConstants.HTTP_REDIRECT_BINDING, SAML2BindingTypes.HTTP_REDIRECT)
+            .set(SAMLMetadataConstants.HTTP_ARTIFACT_BINDING, SAML2BindingTypes.ARTIFACT);
+        const logoutMethods: Map<string, LogoutMethods> = new Map<string, LogoutMethods>()
+            .set(SAMLMetadataConstants.HTTP_POST_BINDING, LogoutMethods.FRONT_CHANNEL_HTTP_POST)
+            .set(SAMLMetadataConstants.HTTP_REDIRECT_BINDING, LogoutMethods.FRONT_CHANNEL_HTTP_REDIRECT)
+            .set(SAMLMetadataConstants.SOAP_BINDING, LogoutMethods.BACK_CHANNEL);
+
+        const unsupportedElements: string[] = [ ...metadata.unsupportedElements ];
+        const assertionConsumerServices: SAMLMetadataEndpointInterface[] = metadata.assertionConsumerServices;
+        const singleLogoutService: SAMLMetadataEndpointInterface = metadata.singleLogoutServices[ 0 ];
+
+        // Applications have a single certificate which is used for both the signature validation and the encryption.
+        if (metadata.signingCertificate && metadata.encryptionCertificate
+            && metadata.signingCertificate !== metadata.encryptionCertificate) {
+            unsupportedElements.push("SPSSODescriptor/KeyDescriptor[@use=\"encryption\"]");
+        }
+
+        const certificate: string = metadata.signingCertificate ?? metadata.encryptionCertificate;
+
+        const configuration: SAML2ServiceProviderInterface = {
+            ...current,
+            issuer: current?.issuer || metadata.entityId,
+            requestValidation: {
+                ...current?.requestValidation,
+                enableSignatureValidation: metadata.authnRequestsSigned
+            },
+            singleSignOnProfile: {
+                ...current?.singleSignOnProfile,
+                assertion: {
+                    ...current?.singleSignOnProfile?.assertion,
+                    nameIdFormat: metadata.nameIdFormats[ 0 ]
+                        ?? current?.singleSignOnProfile?.assertion?.nameIdFormat
+                },
+                bindings: union(current?.singleSignOnProfile?.bindings ?? [],
+                    assertionConsumerServices.map((service: SAMLMetadataEndpointInterface) => {
+                        return bindings.get(service.binding);
+                    }))
+            }
+        };
+
+        if (assertionConsumerServices.length > 0) {
+            configuration.assertionConsumerUrls = union(assertionConsumerServices
+                .map((service: SAMLMetadataEndpointInterface) => service.location)) as MandatoryArray<string>;
+            configuration.defaultAssertionConsumerUrl = SAMLMetadataUtils
+                .getDefaultEndpoint(assertionConsumerServices).location;
+        }
+
+        if (singleLogoutService) {
+            configuration.singleLogoutProfile = {
+                ...current?.singleLogoutProfile,
+                enabled: true,
+                logoutMethod: logoutMethods.get(singleLogoutService.binding),
+                logoutRequestUrl: singleLogoutService.location,
+                logoutResponseUrl: singleLogoutService.responseLocation ?? singleLogoutService.location
+            };
+        }
+
+        return {
+            certificate: certificate
+                && CertificateManagementUtils.enclosePem(certificate.match(/.{1,64}/g).join("\n")),
+            configuration,
+            entityId: metadata.entityId,
+            unsupportedElements
+        };
+    }
+
+    /**
+     * Resolves the identity provider metadata of an application. The entity ID is replaced with the
+     * IdP entity ID alias of the application if one is configured.
+     *
+     * @param {string} metadata - Identity provider metadata of the tenant.
+     * @param {SAML2ServiceProviderInterface} configuration - SAML configuration of the application.
+     * @return {string} Identity provider metadata of the application.
+     */
+    public static getApplicationIdPMetadata(metadata: string,
+                                            configuration: SAML2ServiceProviderInterface): string {
+
+        if (!configuration?.idpEntityIdAlias) {
+            return metadata;
+        }
+
+        return SAMLMetadataUtils.updateEntityId(metadata, configuration.idpEntityIdAlias);
+    }
+
+    /**
+     * Lists the changes between two SAML configurations and their certificates. Values which are only
+     * initialized by the form, such as empty strings and lists in place of missing values, are not listed.
+     *
+     * @param {SAML2ServiceProviderInterface} current - Current configuration.
+     * @param {SAML2ServiceProviderInterface} incoming - Incoming configuration.
+     * @param {string} currentCertificate - PEM encoded certificate of the current configuration.
+     * @param {string} incomingCertificate - PEM encoded certificate of the incoming configuration.
+     * @return {ResourceDiffInterface[]} List of changes.
+     */
+    public static getSAMLConfigurationChanges(current: SAML2ServiceProviderInterface,
+                                              incoming: SAML2ServiceProviderInterface,
+                                              currentCertificate?: string,
+                                              incomingCertificate?: string): ResourceDiffInterface[] {
+
+        const isBlank = (value: unknown): boolean => value === "" || value === false
+            || (Array.isArray(value) && value.length === 0);
+
+        return ResourceBundleUtils.diff(
+            { ...current, certificate: currentCertificate?.trim() || undefined },
+            { ...incoming, certificate: incomingCertificate?.trim() || undefined }
+        ).filter((change: ResourceDiffInterface) => {
+            return change.type === ResourceDiffTypes.CHANGED
+                || (change.type === ResourceDiffTypes.ADDED && !isBlank(change.incomingValue));
+        });
+    }
+
+    /**
+     * Assembles a sample ID token of an OIDC application. Requested claims are only released if they belong
+     * to one of the requested scopes, the same way the server resolves the claims of the issued tokens.
+     *
+     * @param {TokenPreviewContextInterface} context - Configurations the token is assembled from.
+     * @return {TokenPreviewInterface} Sample ID token.
+     */
+    public static getIDTokenPreview(context: TokenPreviewContextInterface): TokenPreviewInterface {
+
+        const { claimConfiguration, configuration, issuedAt, oidcClaims, requestedScopes, scopes } = context;
+
+        const scopeClaims: Set<string> = new Set<string>();
+        const omittedClaims: string[] = [];
+
+        scopes.filter((scope: OIDCScopesListInterface) => requestedScopes.includes(scope.name))
+            .forEach((scope: OIDCScopesListInterface) => {
+                scope.claims?.forEach((claim: string) => scopeClaims.add(claim));
+            });
+
+        const payload: JWTPayloadInterface = {
+            at_hash: "<at_hash>",
+            aud: configuration.idToken?.audience?.length > 0
+                ? [ configuration.clientId, ...configuration.idToken.audience ]
+                : configuration.clientId,
+            azp: configuration.clientId,
+            exp: issuedAt + (configuration.idToken?.expiryInSeconds ?? 0),
+            iat: issuedAt,
+            iss: context.issuer,
+            sub: ApplicationManagementUtils.getTokenPreviewSubject(context)
+        };
+
+        claimConfiguration?.requestedClaims?.forEach((requestedClaim: RequestedClaimConfigurationInterface) => {
+            const name: string = oidcClaims.find((claim: ExternalClaim) => {
+                return claim.mappedLocalClaimURI === requestedClaim.claim.uri;
+            })?.claimURI;
+
+            if (!name || !scopeClaims.has(name)) {
+                omittedClaims.push(name ?? requestedClaim.claim.uri);
+
+                return;
+            }
+
+            if (payload[ name ] === undefined) {
+                payload[ name ] = `<${ requestedClaim.claim.displayName ?? name }>`;
+            }
+        });
+
+        const preview: TokenPreviewInterface = {
+            header: {
+                alg: ApplicationManagementConstants.TOKEN_SIGNING_ALGORITHM,
+                kid: "<kid>",
+                typ: "JWT"
+            },
+            omittedClaims,
+            payload
+        };
+
+        if (configuration.idToken?.encryption?.enabled) {
+            preview.encryptionHeader = {
+                alg: configuration.idToken.encryption.algorithm,
+                cty: "JWT",
+                enc: configuration.idToken.encryption.method
+            };
+        }
+
+        return preview;
+    }
+
+    /**
+     * Assembles a sample access token of an OIDC application. Opaque tokens are represented by the
+     * response of the introspection endpoint.
+     *
+     * @param {TokenPreviewContextInterface} context - Configurations the token is assembled from.
+     * @return {TokenPreviewInterface} Sample access token.
+     */
+    public static getAccessTokenPreview(context: TokenPreviewContextInterface): TokenPreviewInterface {
+
+        const { configuration, isApplicationToken, issuedAt, requestedScopes } = context;
+
+        const expiry: number = isApplicationToken
+            ? configuration.accessToken?.applicationAccessTokenExpiryInSeconds
+            : configuration.accessToken?.userAccessTokenExpiryInSeconds;
+        const claims: JWTPayloadInterface = {
+            exp: issuedAt + (expiry ?? 0),
+            iat: issuedAt,
+            nbf: issuedAt,
+            scope: requestedScopes.join(" "),
+            sub: ApplicationManagementUtils.getTokenPreviewSubject(context)
+        };
+
+        if (configuration.accessToken?.type !== ApplicationManagementConstants.JWT_ACCESS_TOKEN_TYPE) {
+            return {
+                payload: {
+                    active: true,
+                    client_id: configuration.clientId,
+                    token_type: "Bearer",
+                    ...claims
+                }
+            };
+        }
+
+        return {
+            header: {
+                alg: ApplicationManagementConstants.TOKEN_SIGNING_ALGORITHM,
+                kid: "<kid>",
+                typ: "JWT"
+            },
+            payload: {
+                aud: configuration.clientId,
+                aut: isApplicationToken ? "APPLICATION" : "APPLICATION_USER",
+                azp: configuration.clientId,
+                client_id: configuration.clientId,
+                iss: context.issuer,
+                jti: "<jti>",
+                ...claims
+            }
+        };
+    }
+
+    /**
+     * Resolves a sample subject of the tokens from the subject configuration of the application.
+     *
+     * @param {TokenPreviewContextInterface} context - Configurations the token is assembled from.
+     * @return {string} Sample subject.
+     */
+    private static getTokenPreviewSubject(context: TokenPreviewContextInterface): string {
+
+        const { claimConfiguration, configuration, isApplicationToken } = context;
+
+        if (isApplicationToken) {
+            return configuration.clientId;
+        }
+
+        const subject: string = `<${ claimConfiguration?.subject?.claim?.displayName ?? "Username" }>`;
+        const userDomain: string = claimConfiguration?.subject?.includeUserDomain ? "PRIMARY/" : "";
+        const tenantDomain: string = claimConfiguration?.subject?.includeTenantDomain
+            ? `@${ store.getState().config.deployment.tenant }`
+            : "";
+
+        return userDomain + subject + tenantDomain;
+    }
 }
@@ -17,17 +17,25 @@
  *
  */
 
-import { AlertLevels } from "@wso2is/core/models";
+import { AlertLevels, JSONSchemaInterface } from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
 import { I18n } from "@wso2is/i18n";
 import { TemplateCardTagInterface } from "@wso2is/react-components";
 import groupBy from "lodash-es/groupBy";
 import startCase  from "lodash-es/startCase";
-import { getTechnologyLogos, store } from "../../core";
+import unionBy from "lodash-es/unionBy";
+import {
+    TemplateRegistryResourceTypes,
+    TemplateRegistryResultInterface,
+    TemplateRegistryUtils,
+    getTechnologyLogos,
+    store
+} from "../../core";
 import {
     getApplicationTemplateList
 } from "../api";
 import { TemplateConfigInterface, getApplicationTemplatesConfig } from "../data/application-templates";
+import ApplicationTemplateSchema from "../data/application-templates/application-template.schema.json";
 import CustomApplicationTemplate
     from "../data/application-templates/templates/custom-application/custom-application.json";
 import {
@@ -53,6 +61,7 @@ export class ApplicationTemplateManagementUtils {
 
     /**
      * Retrieve Application template list form the API and sets it in redux state.
+     * In app templates are merged with the templates of the template registry if it's enabled.
      *
      * @param {boolean} skipGrouping - Skip grouping of templates.
      * @param {boolean} useAPI - Flag to determine whether the usage of REST API is necessary.
@@ -65,6 +74,9 @@ export class ApplicationTemplateManagementUtils {
 
         if (!useAPI) {
             return ApplicationTemplateManagementUtils.loadLocalFileBasedTemplates()
+                .then((response: ApplicationTemplateInterface[]) => {
+                    return ApplicationTemplateManagementUtils.mergeRegistryTemplates(response);
+                })
                 .then((response: ApplicationTemplateInterface[]) => {
 
                     let templates:  ApplicationTemplateInterface[] = ApplicationTemplateManagementUtils
@@ -348,6 +360,38 @@ export class ApplicationTemplateManagementUtils {
         return Promise.all([ ...templates ]);
     }
 
+    /**
+     * Loads the templates from the template registry and merges them with the given templates.
+     * Registry templates replace the templates with the same id.
+     *
+     * @param {ApplicationTemplateInterface[]} templates - Templates available in the app.
+     * @return {Promise<ApplicationTemplateInterface[]>}
+     */
+    private static mergeRegistryTemplates(
+        templates: ApplicationTemplateInterface[]): Promise<ApplicationTemplateInterface[]> {
+
+        if (!TemplateRegistryUtils.isEnabled()) {
+            return Promise.resolve(templates);
+        }
+
+        const categories: string[] = getApplicationTemplatesConfig().categories
+            .map((config: TemplateConfigInterface<ApplicationTemplateCategoryInterface>) => config.id);
+
+        // Templates of unknown categories are not shown in the template grid.
+        const validateCategory = (template: ApplicationTemplateInterface): string[] => {
+            return categories.includes(template.category)
+                ? []
+                : [ `The category "${ template.category }" is not available.` ];
+        };
+
+        return TemplateRegistryUtils
+            .getTemplates<ApplicationTemplateInterface>(TemplateRegistryResourceTypes.APPLICATION,
+                ApplicationTemplateSchema as JSONSchemaInterface, validateCategory)
+            .then((result: TemplateRegistryResultInterface<ApplicationTemplateInterface>) => {
+                return unionBy(result.templates, templates, "id");
+            });
+    }
+
     /**
      * Loads local file based application template groups.
      *
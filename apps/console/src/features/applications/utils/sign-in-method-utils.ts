@@ -19,7 +19,12 @@
 
 import { IdentityProviderManagementConstants } from "../../identity-providers";
 import { ApplicationManagementConstants } from "../constants";
-import { AuthenticationStepInterface } from "../models";
+import {
+    AuthenticationFlowValidationCodes,
+    AuthenticationFlowValidationIssueInterface,
+    AuthenticationStepInterface,
+    AuthenticatorInterface
+} from "../models";
 
 /**
  * Utility class for Sign In Method.
@@ -161,4 +166,173 @@ export class SignInMethodUtils {
         return this.hasSpecificFactorsInSteps(ApplicationManagementConstants.FIRST_FACTOR_AUTHENTICATORS,
             leftSideSteps);
     }
+
+    /**
+     * Validates the combination of authenticators in the steps of a flow.
+     *
+     * @param {AuthenticationStepInterface[]} steps - Authentication steps.
+     * @param {number} subjectStepId - Step to pick the subject from.
+     * @param {number} attributeStepId - Step to pick the attributes from.
+     *
+     * @return {AuthenticationFlowValidationIssueInterface[]} Detected issues sorted by the step.
+     */
+    public static validateAuthenticationFlow(steps: AuthenticationStepInterface[],
+                                             subjectStepId: number,
+                                             attributeStepId: number): AuthenticationFlowValidationIssueInterface[] {
+
+        const issues: AuthenticationFlowValidationIssueInterface[] = [];
+
+        if (!steps || steps.length < 1) {
+            return issues;
+        }
+
+        steps.forEach((step: AuthenticationStepInterface, stepIndex: number) => {
+            if (!step.options || step.options.length < 1) {
+                issues.push({ code: AuthenticationFlowValidationCodes.EMPTY_STEP, stepIndex });
+
+                return;
+            }
+
+            step.options.forEach((option: AuthenticatorInterface) => {
+                if (!ApplicationManagementConstants.SECOND_FACTOR_AUTHENTICATORS.includes(option.authenticator)) {
+                    return;
+                }
+
+                const [ leftSideSteps ]: AuthenticationStepInterface[][] = this.getLeftAndRightSideSteps(
+                    stepIndex, steps);
+                const handlers: string[] = (option.authenticator
+                    === IdentityProviderManagementConstants.TOTP_AUTHENTICATOR)
+                    ? ApplicationManagementConstants.TOTP_HANDLERS
+                    : ApplicationManagementConstants.FIRST_FACTOR_AUTHENTICATORS;
+
+                if (!this.hasSpecificFactorsInSteps(handlers, leftSideSteps)) {
+                    issues.push({
+                        authenticator: option.authenticator,
+                        code: AuthenticationFlowValidationCodes.SECOND_FACTOR_WITHOUT_HANDLER,
+                        stepIndex
+                    });
+                }
+            });
+
+            // Handlers only identify the user. A following step has to authenticate the user.
+            if (this.hasOnlyHandlers(step) && stepIndex === steps.length - 1) {
+                issues.push({
+                    authenticator: step.options[ 0 ].authenticator,
+                    code: AuthenticationFlowValidationCodes.HANDLER_WITHOUT_NEXT_STEP,
+                    stepIndex
+                });
+            }
+        });
+
+        // The subject and the attributes have to be picked from an existing step.
+        const validateIdentifierStep = (stepId: number, code: AuthenticationFlowValidationCodes): void => {
+            if (!steps[ stepId - 1 ]) {
+                issues.push({ code, stepIndex: steps.length - 1 });
+            }
+        };
+
+        validateIdentifierStep(subjectStepId, AuthenticationFlowValidationCodes.INVALID_SUBJECT_STEP);
+        validateIdentifierStep(attributeStepId, AuthenticationFlowValidationCodes.INVALID_ATTRIBUTE_STEP);
+
+        return issues.sort((a: AuthenticationFlowValidationIssueInterface,
+                            b: AuthenticationFlowValidationIssueInterface) => a.stepIndex - b.stepIndex);
+    }
+
+    /**
+     * Moves a step to a new position and rebuilds the step ids.
+     *
+     * @param {AuthenticationStepInterface[]} steps - Authentication steps.
+     * @param {number} sourceIndex - Current index of the step.
+     * @param {number} destinationIndex - New index of the step.
+     *
+     * @return {AuthenticationStepInterface[]} Reordered steps.
+     */
+    public static moveStep(steps: AuthenticationStepInterface[], sourceIndex: number,
+                           destinationIndex: number): AuthenticationStepInterface[] {
+
+        const reordered: AuthenticationStepInterface[] = [ ...steps ];
+        const [ moved ]: AuthenticationStepInterface[] = reordered.splice(sourceIndex, 1);
+
+        reordered.splice(destinationIndex, 0, moved);
+
+        return reordered.map((step: AuthenticationStepInterface, index: number) => ({ ...step, id: index + 1 }));
+    }
+
+    /**
+     * Resolves the new id of a step after a step is moved.
+     *
+     * @param {number} stepId - Id of the step before the move.
+     * @param {number} sourceIndex - Index the moved step was moved from.
+     * @param {number} destinationIndex - Index the moved step was moved to.
+     *
+     * @return {number} Id of the step after the move.
+     */
+    public static resolveMovedStepId(stepId: number, sourceIndex: number, destinationIndex: number): number {
+
+        const stepIndex: number = stepId - 1;
+
+        if (stepIndex === sourceIndex) {
+            return destinationIndex + 1;
+        }
+
+        if (sourceIndex < stepIndex && stepIndex <= destinationIndex) {
+            return stepId - 1;
+        }
+
+        if (destinationIndex <= stepIndex && stepIndex < sourceIndex) {
+            return stepId + 1;
+        }
+
+        return stepId;
+    }
+
+    /**
+     * Moves an authenticator option of a step to another step or position.
+     *
+     * @param {AuthenticationStepInterface[]} steps - Authentication steps.
+     * @param {number} sourceStepIndex - Index of the step the option belongs to.
+     * @param {number} sourceOptionIndex - Index of the option.
+     * @param {number} destinationStepIndex - Index of the step to move the option to.
+     * @param {number} destinationOptionIndex - New index of the option.
+     *
+     * @return {AuthenticationStepInterface[]} Updated steps. Steps are returned as it is if the
+     * destination step already has the authenticator.
+     */
+    public static moveStepOption(steps: AuthenticationStepInterface[], sourceStepIndex: number,
+                                 sourceOptionIndex: number, destinationStepIndex: number,
+                                 destinationOptionIndex: number): AuthenticationStepInterface[] {
+
+        const updated: AuthenticationStepInterface[] = steps.map((step: AuthenticationStepInterface) => ({
+            ...step,
+            options: [ ...step.options ]
+        }));
+        const option: AuthenticatorInterface = updated[ sourceStepIndex ].options[ sourceOptionIndex ];
+
+        if (sourceStepIndex !== destinationStepIndex
+            && updated[ destinationStepIndex ].options.some((item: AuthenticatorInterface) => {
+                return item.authenticator === option.authenticator && item.idp === option.idp;
+            })) {
+
+            return steps;
+        }
+
+        updated[ sourceStepIndex ].options.splice(sourceOptionIndex, 1);
+        updated[ destinationStepIndex ].options.splice(destinationOptionIndex, 0, option);
+
+        return updated;
+    }
+
+    /**
+     * Checks if a step only has handlers which don't authenticate the user. ex: Identifier First.
+     *
+     * @param {AuthenticationStepInterface} step - Authentication step.
+     *
+     * @return {boolean}
+     */
+    private static hasOnlyHandlers(step: AuthenticationStepInterface): boolean {
+
+        return step.options?.length > 0 && step.options.every((option: AuthenticatorInterface) => {
+            return option.authenticator === IdentityProviderManagementConstants.IDENTIFIER_FIRST_AUTHENTICATOR;
+        });
+    }
 }
@@ -0,0 +1,293 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import {
+    AdaptiveScriptSimulationLogInterface,
+    AdaptiveScriptSimulationOutcomes,
+    AdaptiveScriptSimulationResultInterface,
+    AdaptiveScriptSimulationScenarioInterface,
+    AdaptiveScriptSimulationStepResults,
+    AdaptiveScriptSimulationTraceItemInterface
+} from "../models/application";
+
+/**
+ * Worker globals which are hidden from the simulated script. Timers are hidden as well since they compile
+ * code strings in the global scope, and the script engine of the server doesn't offer them either.
+ */
+const SHADOWED_GLOBALS: string[] = [
+    "Blob",
+    "BroadcastChannel",
+    "caches",
+    "close",
+    "eval",
+    "EventSource",
+    "fetch",
+    "Function",
+    "globalThis",
+    "importScripts",
+    "indexedDB",
+    "MessageChannel",
+    "onmessage",
+    "postMessage",
+    "self",
+    "setInterval",
+    "setTimeout",
+    "SharedWorker",
+    "WebSocket",
+    "Worker",
+    "XMLHttpRequest"
+];
+
+/**
+ * Thrown to stop the script when the login flow is terminated. ex: `sendError`.
+ */
+class SimulationHaltedError extends Error { }
+
+/**
+ * Sources of the functions whose constructors compile code in the global scope. Evaluated at runtime since
+ * the compiler down-levels the async variants.
+ */
+const FUNCTION_SOURCES: string[] = [
+    "function () {}",
+    "function* () {}",
+    "async function () {}",
+    "async function* () {}"
+];
+
+/**
+ * Event callbacks passed to `executeStep`.
+ */
+interface StepEventCallbacksInterface {
+    onFail?: (context: Record<string, unknown>) => void;
+    onSuccess?: (context: Record<string, unknown>) => void;
+}
+
+/**
+ * Options passed to `executeStep`.
+ */
+interface StepOptionsInterface {
+    authenticationOptions?: Record<string, string>[];
+}
+
+/**
+ * Replaces the function constructors reachable from the script. ex: `({}).constructor.constructor`.
+ */
+const restrictedConstructor = (): never => {
+    throw new Error("Function constructors are not allowed in adaptive scripts.");
+};
+
+/**
+ * Poisons the `constructor` of the function prototypes so that the script can't compile code in the
+ * global scope and reach the worker globals. The worker is disposed after a single simulation, hence
+ * the prototypes are left locked.
+ */
+const restrictFunctionConstructors = (): void => {
+    FUNCTION_SOURCES.forEach((source: string) => {
+        let prototype: Record<string, unknown>;
+
+        try {
+            prototype = Object.getPrototypeOf(new Function(`return ${ source };`)());
+        } catch (error) {
+            // The runtime doesn't support the syntax.
+            return;
+        }
+
+        if (prototype.constructor === restrictedConstructor) {
+            return;
+        }
+
+        Object.defineProperty(prototype, "constructor", {
+            configurable: false,
+            value: restrictedConstructor,
+            writable: false
+        });
+    });
+};
+
+/**
+ * Runs an adaptive script against a mock login context. The authentication steps are not executed,
+ * instead the stubbed results from the scenario are used and the event callbacks are invoked in place.
+ *
+ * @param {string} script - Adaptive script.
+ * @param {AdaptiveScriptSimulationScenarioInterface} scenario - Mock login request.
+ * @return {AdaptiveScriptSimulationResultInterface}
+ */
+export const simulate = (script: string,
+    scenario: AdaptiveScriptSimulationScenarioInterface): AdaptiveScriptSimulationResultInterface => {
+
+    const logs: AdaptiveScriptSimulationLogInterface[] = [];
+    const trace: AdaptiveScriptSimulationTraceItemInterface[] = [];
+    let outcome: AdaptiveScriptSimulationOutcomes = null;
+    let redirectUrl: string;
+
+    const user = {
+        localClaims: { ...scenario.user.claims },
+        roles: [ ...scenario.user.roles ],
+        username: scenario.user.username
+    };
+
+    const context = {
+        currentKnownSubject: null,
+        request: {
+            headers: {
+                "user-agent": scenario.request.userAgent
+            },
+            ip: scenario.request.ip,
+            // Request parameters are multi valued in the script engine.
+            params: Object.keys(scenario.request.params).reduce((params: Record<string, string[]>, key: string) => {
+                params[ key ] = [ scenario.request.params[ key ] ];
+
+                return params;
+            }, {})
+        },
+        steps: {}
+    };
+
+    const log = (level: AdaptiveScriptSimulationLogInterface[ "level" ]) => (...messages: unknown[]): void => {
+        logs.push({
+            level,
+            message: messages
+                .map((message: unknown) => typeof message === "string" ? message : JSON.stringify(message))
+                .join(" ")
+        });
+    };
+
+    const halt = (haltOutcome: AdaptiveScriptSimulationOutcomes): never => {
+        outcome = haltOutcome;
+
+        throw new SimulationHaltedError();
+    };
+
+    const isEventCallbacks = (argument: unknown): argument is StepEventCallbacksInterface => {
+        const callbacks: StepEventCallbacksInterface = argument as StepEventCallbacksInterface;
+
+        return typeof callbacks?.onSuccess === "function" || typeof callbacks?.onFail === "function";
+    };
+
+    const executeStep = (step: number, ...args: (StepOptionsInterface | StepEventCallbacksInterface)[]): void => {
+        const callbacks: StepEventCallbacksInterface = args.find(isEventCallbacks);
+        const options: StepOptionsInterface = args.find(
+            (argument: StepOptionsInterface | StepEventCallbacksInterface): argument is StepOptionsInterface => {
+                return argument && !isEventCallbacks(argument);
+            }
+        );
+        const result: AdaptiveScriptSimulationStepResults = scenario.stepResults[ step ]
+            ?? AdaptiveScriptSimulationStepResults.SUCCESS;
+
+        trace.push({
+            authenticationOptions: options?.authenticationOptions,
+            result,
+            step
+        });
+
+        if (result === AdaptiveScriptSimulationStepResults.SUCCESS) {
+            context.steps[ step ] = { subject: user };
+            context.currentKnownSubject = user;
+            callbacks?.onSuccess && callbacks.onSuccess(context);
+
+            return;
+        }
+
+        if (!callbacks?.onFail) {
+            halt(AdaptiveScriptSimulationOutcomes.FAILED);
+        }
+
+        callbacks.onFail(context);
+    };
+
+    const globals: Record<string, unknown> = {
+        Log: {
+            debug: log("debug"),
+            error: log("error"),
+            info: log("info"),
+            warn: log("warn")
+        },
+        executeStep,
+        fail: (): void => {
+            halt(AdaptiveScriptSimulationOutcomes.FAILED);
+        },
+        hasAnyOfTheRoles: (subject: typeof user, roles: string[]): boolean => {
+            return roles.some((role: string) => subject?.roles?.includes(role));
+        },
+        sendError: (url: string): void => {
+            redirectUrl = url;
+            halt(AdaptiveScriptSimulationOutcomes.ERROR_REDIRECT);
+        }
+    };
+
+    restrictFunctionConstructors();
+
+    try {
+        // The script runs in strict mode so that `this` doesn't resolve to the worker global scope. `eval` can't
+        // be shadowed by a parameter of a strict mode function, hence the script is wrapped in an inner function.
+        const loadScript = new Function(
+            ...Object.keys(globals),
+            ...SHADOWED_GLOBALS,
+            "return (function () {\n\"use strict\";\n"
+                + `${ script }\nreturn typeof onLoginRequest === "function" ? onLoginRequest : undefined;\n`
+                + "}).call(undefined);"
+        );
+        const onLoginRequest = loadScript(...Object.values(globals), ...SHADOWED_GLOBALS.map(() => undefined));
+
+        if (!onLoginRequest) {
+            return {
+                error: "onLoginRequest is not defined.",
+                logs,
+                outcome: AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR,
+                trace
+            };
+        }
+
+        onLoginRequest(context);
+    } catch (error) {
+        if (!(error instanceof SimulationHaltedError)) {
+            return {
+                error: error?.message ?? String(error),
+                logs,
+                outcome: AdaptiveScriptSimulationOutcomes.SCRIPT_ERROR,
+                trace
+            };
+        }
+    }
+
+    if (!outcome) {
+        if (trace.length === 0) {
+            outcome = AdaptiveScriptSimulationOutcomes.NO_STEPS;
+        } else {
+            outcome = trace[ trace.length - 1 ].result === AdaptiveScriptSimulationStepResults.SUCCESS
+                ? AdaptiveScriptSimulationOutcomes.SUCCESS
+                : AdaptiveScriptSimulationOutcomes.FAILED;
+        }
+    }
+
+    return {
+        logs,
+        outcome,
+        redirectUrl,
+        trace
+    };
+};
+
+const ctx: Worker = self as any;
+
+ctx.onmessage = (event: MessageEvent) => {
+    ctx.postMessage(simulate(event.data.script, event.data.scenario));
+};
+
+export default {} as typeof Worker & { new (): Worker };
@@ -49,7 +49,7 @@ import {
     setSignIn,
     setSignOut
 } from "@wso2is/core/store";
-import { AuthenticateUtils, ContextUtils } from "@wso2is/core/utils";
+import { AuthenticateUtils, ContextUtils, ResourceClientUtils } from "@wso2is/core/utils";
 import { I18n } from "@wso2is/i18n";
 import axios from "axios";
 import isEmpty from "lodash-es/isEmpty";
@@ -406,6 +406,7 @@ export const handleSignOut = () => (dispatch) => {
     auth.signOut()
         .then(() => {
             AuthenticateUtils.removeAuthenticationCallbackUrl(CommonAppConstants.CONSOLE_APP);
+            ResourceClientUtils.clear();
             dispatch(setSignOut());
         }).catch(() => {
             history.push(window[ "AppUtils" ].getConfig().routes.home);
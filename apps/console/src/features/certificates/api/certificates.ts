@@ -19,13 +19,22 @@
 import { IdentityClient } from "@wso2/identity-oidc-js";
 import { IdentityAppsApiException } from "@wso2is/core/exceptions";
 import { Certificate, HttpMethods } from "@wso2is/core/models";
+import { ResourceClientUtils } from "@wso2is/core/utils";
 import { store } from "../../core/store";
+import { CertificatesConstants } from "../constants";
 
 /**
  * Initialize an axios Http client.
  */
 const httpClient = IdentityClient.getInstance().httpRequest.bind(IdentityClient.getInstance());
 
+/**
+ * Marks the cached certificate resources as stale after a mutation.
+ */
+const invalidateCertificateResources = (): void => {
+    ResourceClientUtils.invalidate([ CertificatesConstants.CERTIFICATE_RESOURCE_TAG ]);
+};
+
 /**
  * This returns the list of certificate aliases.
  *
@@ -246,6 +255,7 @@ export const deleteKeystoreCertificate = (alias: string): Promise<any> => {
             if (response.status !== 204) {
                 return Promise.reject(`An error occurred. The server returned ${response.status}`);
             }
+            invalidateCertificateResources();
             return Promise.resolve(response.data);
         })
         .catch((error) => {
@@ -283,6 +293,7 @@ export const createKeystoreCertificate = (data: Certificate): Promise<any> => {
             if (response.status !== 201) {
                 return Promise.reject(`An error occurred. The server returned ${response.status}`);
             }
+            invalidateCertificateResources();
             return Promise.resolve(response.data);
         })
         .catch((error) => {
@@ -0,0 +1,266 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { CertificateManagementConstants } from "@wso2is/core/constants";
+import {
+    Certificate,
+    CertificateExpiryInterface,
+    CertificateExpiryStatuses,
+    TestableComponentInterface
+} from "@wso2is/core/models";
+import { CertificateManagementUtils } from "@wso2is/core/utils";
+import { Heading, Hint } from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { DropdownProps, Form, Grid, Label, List, Loader, Segment, SemanticCOLORS } from "semantic-ui-react";
+import { CertificateExpiryLabel } from "../../core";
+import { CertificatesConstants } from "../constants";
+import { CertificateStoreEntryInterface, CertificateStoreTypes } from "../models";
+import { CertificatesUtils } from "../utils";
+
+/**
+ * Certificate store entry along with its expiry details.
+ */
+interface CertificateExpiryEntryInterface extends CertificateStoreEntryInterface {
+    expiry: CertificateExpiryInterface;
+}
+
+/**
+ * Expiry statuses summarized in the dashboard along with their colors.
+ * @constant
+ * @type {{ color: SemanticCOLORS; status: CertificateExpiryStatuses }[]}
+ */
+const SUMMARY_STATUSES: { color: SemanticCOLORS; status: CertificateExpiryStatuses }[] = [
+    { color: "red", status: CertificateExpiryStatuses.EXPIRED },
+    { color: "orange", status: CertificateExpiryStatuses.EXPIRING },
+    { color: "green", status: CertificateExpiryStatuses.VALID }
+];
+
+/**
+ * Prop types of the `CertificateExpiryDashboard` component.
+ */
+interface CertificateExpiryDashboardPropsInterface extends TestableComponentInterface {
+    /**
+     * Certificate aliases of the certificate store.
+     */
+    list: Certificate[];
+    /**
+     * Type of the certificate store.
+     */
+    type: CertificateStoreTypes;
+}
+
+/**
+ * Summarizes the expiry of the certificates in a certificate store and lists the certificates
+ * which have expired or expire within the selected number of days.
+ *
+ * @param {CertificateExpiryDashboardPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const CertificateExpiryDashboard: FunctionComponent<CertificateExpiryDashboardPropsInterface> = (
+    props: CertificateExpiryDashboardPropsInterface
+): ReactElement => {
+
+    const {
+        list,
+        type,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ entries, setEntries ] = useState<CertificateStoreEntryInterface[]>([]);
+    const [ isLoading, setIsLoading ] = useState<boolean>(false);
+    const [ threshold, setThreshold ] = useState<number>(
+        CertificateManagementConstants.DEFAULT_EXPIRY_THRESHOLD_DAYS);
+
+    /**
+     * Retrieves the certificates when the list changes.
+     */
+    useEffect(() => {
+        if (!list || list.length === 0) {
+            setEntries([]);
+
+            return;
+        }
+
+        setIsLoading(true);
+
+        CertificatesUtils.getCertificateStoreEntries(type, list)
+            .then((response: CertificateStoreEntryInterface[]) => {
+                setEntries(response);
+            })
+            .finally(() => {
+                setIsLoading(false);
+            });
+    }, [ list ]);
+
+    const expiries: CertificateExpiryEntryInterface[] = useMemo(() => {
+        return entries
+            .filter((entry: CertificateStoreEntryInterface) => entry.certificate)
+            .map((entry: CertificateStoreEntryInterface) => ({
+                ...entry,
+                expiry: CertificateManagementUtils.getExpiry(entry.certificate.validFrom,
+                    entry.certificate.validTill, threshold)
+            }))
+            .sort((a: CertificateExpiryEntryInterface, b: CertificateExpiryEntryInterface) => {
+                return a.expiry.daysToExpiry - b.expiry.daysToExpiry;
+            });
+    }, [ entries, threshold ]);
+
+    const flagged: CertificateExpiryEntryInterface[] = expiries.filter((entry: CertificateExpiryEntryInterface) => {
+        return entry.expiry.status === CertificateExpiryStatuses.EXPIRED
+            || entry.expiry.status === CertificateExpiryStatuses.EXPIRING;
+    });
+
+    const unreadableCount: number = entries.length - expiries.length;
+
+    /**
+     * Renders the number of certificates in each expiry status.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderSummary = (): ReactElement => (
+        <Label.Group size="small" data-testid={ `${ testId }-summary` }>
+            {
+                SUMMARY_STATUSES.map(({ color, status }) => (
+                    <Label key={ status } basic color={ color }>
+                        { t("console:manage.features.certificates.expiryDashboard.statuses." + status) }
+                        <Label.Detail>
+                            {
+                                expiries.filter((entry: CertificateExpiryEntryInterface) => {
+                                    return entry.expiry.status === status;
+                                }).length
+                            }
+                        </Label.Detail>
+                    </Label>
+                ))
+            }
+        </Label.Group>
+    );
+
+    /**
+     * Renders the certificates which have expired or are expiring.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderFlaggedCertificates = (): ReactElement => {
+        if (flagged.length === 0) {
+            return (
+                <Hint icon="check circle outline">
+                    { t("console:manage.features.certificates.expiryDashboard.placeholder", { days: threshold }) }
+                </Hint>
+            );
+        }
+
+        return (
+            <List divided relaxed data-testid={ `${ testId }-list` }>
+                {
+                    flagged.map((entry: CertificateExpiryEntryInterface) => (
+                        <List.Item key={ entry.alias }>
+                            <List.Content floated="right">
+                                <CertificateExpiryLabel expiry={ entry.expiry } />
+                            </List.Content>
+                            <List.Content>
+                                <List.Header>{ entry.alias }</List.Header>
+                                <List.Description>
+                                    {
+                                        entry.expiry.status === CertificateExpiryStatuses.EXPIRED
+                                            ? t("console:manage.features.certificates.expiryDashboard.expiredAgo",
+                                                { count: Math.abs(entry.expiry.daysToExpiry) })
+                                            : t("console:manage.features.certificates.expiryDashboard.expiresIn",
+                                                { count: entry.expiry.daysToExpiry })
+                                    }
+                                </List.Description>
+                            </List.Content>
+                        </List.Item>
+                    ))
+                }
+            </List>
+        );
+    };
+
+    return (
+        <Segment data-testid={ testId }>
+            <Grid>
+                <Grid.Row columns={ 2 }>
+                    <Grid.Column width={ 10 }>
+                        <Heading as="h5">
+                            { t("console:manage.features.certificates.expiryDashboard.heading") }
+                        </Heading>
+                        <Heading as="h6" subHeading>
+                            { t("console:manage.features.certificates.expiryDashboard.subHeading") }
+                        </Heading>
+                    </Grid.Column>
+                    <Grid.Column width={ 6 } textAlign="right">
+                        <Form>
+                            <Form.Select
+                                inline
+                                label={ t("console:manage.features.certificates.expiryDashboard.threshold.label") }
+                                options={ CertificatesConstants.EXPIRY_THRESHOLD_OPTIONS.map((days: number) => ({
+                                    key: days,
+                                    text: t("console:manage.features.certificates.expiryDashboard.threshold.option",
+                                        { days }),
+                                    value: days
+                                })) }
+                                value={ threshold }
+                                onChange={ (event: React.SyntheticEvent<HTMLElement>, data: DropdownProps) => {
+                                    setThreshold(data.value as number);
+                                } }
+                                data-testid={ `${ testId }-threshold-dropdown` }
+                            />
+                        </Form>
+                    </Grid.Column>
+                </Grid.Row>
+                <Grid.Row columns={ 1 }>
+                    <Grid.Column width={ 16 }>
+                        {
+                            isLoading
+                                ? <Loader active inline="centered" size="small" />
+                                : (
+                                    <>
+                                        { renderSummary() }
+                                        { renderFlaggedCertificates() }
+                                        {
+                                            unreadableCount > 0 && (
+                                                <Hint icon="warning sign">
+                                                    {
+                                                        t("console:manage.features.certificates.expiryDashboard" +
+                                                            ".unreadable", { count: unreadableCount })
+                                                    }
+                                                </Hint>
+                                            )
+                                        }
+                                    </>
+                                )
+                        }
+                    </Grid.Column>
+                </Grid.Row>
+            </Grid>
+        </Segment>
+    );
+};
+
+/**
+ * Default props for the component.
+ */
+CertificateExpiryDashboard.defaultProps = {
+    "data-testid": "certificate-expiry-dashboard"
+};
@@ -43,11 +43,18 @@ import {
 } from "@wso2is/react-components";
 import { saveAs } from "file-saver";
 import { X509, zulutodate } from "jsrsasign";
+import * as forge from "node-forge";
 import React, { FunctionComponent, ReactElement, ReactNode, SyntheticEvent, useEffect, useState } from "react";
 import { Trans, useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
 import { Header, Icon, Modal, SemanticICONS } from "semantic-ui-react";
-import { AppState, FeatureConfigInterface, UIConstants, getEmptyPlaceholderIllustrations } from "../../core";
+import {
+    AppState,
+    CertificateInsights,
+    FeatureConfigInterface,
+    UIConstants,
+    getEmptyPlaceholderIllustrations
+} from "../../core";
 import {
     deleteKeystoreCertificate,
     retrieveCertificateAlias,
@@ -55,6 +62,7 @@ import {
     retrievePublicCertificate
 } from "../api";
 import { getCertificateIllustrations } from "../configs";
+import { CertificatesUtils } from "../utils";
 
 /**
  * @constant
@@ -157,6 +165,10 @@ export const CertificatesList: FunctionComponent<CertificatesListPropsInterface>
     const [ certificateModal, setCertificateModal ] = useState(false);
     const [ deleteCertificatePem, setDeleteCertificatePem ] = useState("");
     const [ tenantCertificate, setTenantCertificate ] = useState("");
+    const [ certificateForge, setCertificateForge ] = useState<forge.pki.Certificate>(null);
+    const [ trustStore, setTrustStore ] = useState<forge.pki.Certificate[]>(undefined);
+    const [ isTrustStoreLoading, setIsTrustStoreLoading ] = useState<boolean>(false);
+    const [ hasTrustStoreError, setHasTrustStoreError ] = useState<boolean>(false);
 
     const tenantDomain: string = useSelector<AppState, string>(
         (state: AppState) => state.config.deployment.tenant
@@ -222,6 +234,29 @@ export const CertificatesList: FunctionComponent<CertificatesListPropsInterface>
         }
     }, [ certificateDisplay ]);
 
+    /**
+     * Retrieves the truststore to validate the chain of the viewed keystore certificate.
+     */
+    useEffect(() => {
+        if (!certificateModal || type !== KEYSTORE || trustStore) {
+            return;
+        }
+
+        setIsTrustStoreLoading(true);
+        setHasTrustStoreError(false);
+
+        CertificatesUtils.getTrustStore()
+            .then((certificates: forge.pki.Certificate[]) => {
+                setTrustStore(certificates);
+            })
+            .catch(() => {
+                setHasTrustStoreError(true);
+            })
+            .finally(() => {
+                setIsTrustStoreLoading(false);
+            });
+    }, [ certificateModal ]);
+
     useEffect(() => {
         retrievePublicCertificate(true).then(response => {
             setTenantCertificate(decodeCertificate(response).serialNumber);
@@ -410,6 +445,13 @@ export const CertificatesList: FunctionComponent<CertificatesListPropsInterface>
             version: cert.getVersion()
         };
 
+        try {
+            setCertificateForge(CertificateManagementUtils.decodeCertificates(pem)[ 0 ]);
+        } catch {
+            // Certificates unsupported by forge (ex: EC certificates) are displayed without the insights.
+            setCertificateForge(null);
+        }
+
         setCertificateDisplay(displayCertificate);
     };
 
@@ -460,6 +502,17 @@ export const CertificatesList: FunctionComponent<CertificatesListPropsInterface>
                             version: t("console:manage.features.certificates.keystore.summary.version")
                         } }
                     />
+                    {
+                        certificateForge && (
+                            <CertificateInsights
+                                certificate={ certificateForge }
+                                trustStore={ type === KEYSTORE ? trustStore : undefined }
+                                isTrustStoreLoading={ isTrustStoreLoading }
+                                hasTrustStoreError={ hasTrustStoreError }
+                                data-testid={ `${ testId }-certificate-insights` }
+                            />
+                        )
+                    }
                 </Modal.Content>
             </Modal>
         );
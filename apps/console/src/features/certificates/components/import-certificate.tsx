@@ -21,6 +21,7 @@ import { addAlert } from "@wso2is/core/store";
 import { useTrigger } from "@wso2is/forms";
 import { LinkButton, PrimaryButton, Steps, useWizardAlert } from "@wso2is/react-components";
 import { X509, zulutodate } from "jsrsasign";
+import * as forge from "node-forge";
 import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch } from "react-redux";
@@ -29,6 +30,7 @@ import { CertificateSummary } from "./wizard";
 import { UploadCertificate } from "../../core";
 import { createKeystoreCertificate } from "../api";
 import { getImportCertificateWizardStepIcons } from "../configs";
+import { CertificatesUtils } from "../utils";
 
 /**
  * Prop types of the `ImportCertificate` component.
@@ -78,6 +80,7 @@ export const ImportCertificate: FunctionComponent<ImportCertificatePropsInterfac
     const [ pem, setPem ] = useState("");
     const [ file, setFile ] = useState<File>(null);
     const [ certificate, setCertificate ] = useState<X509>(null);
+    const [ trustStore, setTrustStore ] = useState<forge.pki.Certificate[]>(undefined);
 
     const [ firstStep, setFirstStep ] = useTrigger();
     const [ alert, setAlert, alertComponent ] = useWizardAlert();
@@ -91,6 +94,18 @@ export const ImportCertificate: FunctionComponent<ImportCertificatePropsInterfac
         }
     }, [ certificateDisplay ]);
 
+    /**
+     * Retrieves the truststore to validate the chain of the imported certificate.
+     */
+    useEffect(() => {
+        CertificatesUtils.getTrustStore()
+            .then((certificates: forge.pki.Certificate[]) => {
+                setTrustStore(certificates);
+            })
+            // The certificate can still be imported without the chain validation.
+            .catch(() => null);
+    }, []);
+
     /**
      * Imports the certificate.
      */
@@ -193,6 +208,7 @@ export const ImportCertificate: FunctionComponent<ImportCertificatePropsInterfac
                     fileDecodedData={ fileDecoded }
                     fileData={ file }
                     forgeCertificateData={ certificate }
+                    trustStore={ trustStore }
                     data-testid={ `${ testId }-upload` }
                 />
             ),
@@ -16,6 +16,7 @@
 * under the License.
 */
 
+export * from "./certificate-expiry-dashboard";
 export * from "./certificates-list";
 export * from "./wizard";
 export * from "./import-certificate";
@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Class containing certificates feature constants.
+ */
+export class CertificatesConstants {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Tag of the cached certificate resources. Used to invalidate the cache after a mutation.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly CERTIFICATE_RESOURCE_TAG: string = "certificates";
+
+    /**
+     * Number of days offered to flag the expiring certificates.
+     * @constant
+     * @type {number[]}
+     * @default
+     */
+    public static readonly EXPIRY_THRESHOLD_OPTIONS: number[] = [ 7, 30, 60, 90 ];
+
+    /**
+     * Cache keys of the certificate resources.
+     * @constant
+     * @type {Map<string, string>}
+     * @default
+     */
+    public static readonly RESOURCE_KEYS: Map<string, string> = new Map<string, string>()
+        .set("KEYSTORE_CERTIFICATE", "certificates/keystore")
+        .set("TRUSTSTORE_CERTIFICATE", "certificates/truststore")
+        .set("TRUSTSTORE", "certificates/truststore/all");
+}
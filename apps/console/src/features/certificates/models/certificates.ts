@@ -0,0 +1,39 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { DisplayCertificate } from "@wso2is/core/models";
+
+/**
+ * Types of the certificate stores.
+ */
+export type CertificateStoreTypes = "keystore" | "truststore";
+
+/**
+ * Decoded entry of a certificate store.
+ */
+export interface CertificateStoreEntryInterface {
+    /**
+     * Alias of the certificate.
+     */
+    alias: string;
+    /**
+     * Decoded certificate. `null` if the certificate couldn't be retrieved or decoded.
+     */
+    certificate: DisplayCertificate;
+}
@@ -34,7 +34,7 @@ import {
     sortList
 } from "../../core";
 import { listCertificateAliases } from "../api";
-import { CertificatesList, ImportCertificate } from "../components";
+import { CertificateExpiryDashboard, CertificatesList, ImportCertificate } from "../components";
 
 /**
  * Props for the Certificates Keystore page.
@@ -244,6 +244,15 @@ const CertificatesKeystore: FunctionComponent<CertificatesKeystorePageInterface>
                 description={ t("console:manage.features.certificates.keystore.pageLayout.description") }
                 data-testid={ `${ testId }-page-layout` }
             >
+                {
+                    certificatesKeystore?.length > 0 && (
+                        <CertificateExpiryDashboard
+                            type="keystore"
+                            list={ certificatesKeystore }
+                            data-testid={ `${ testId }-expiry-dashboard` }
+                        />
+                    )
+                }
                 <ListLayout
                     advancedSearch={
                         <AdvancedSearchWithBasicFilters
@@ -25,7 +25,7 @@ import { useDispatch } from "react-redux";
 import { DropdownProps, PaginationProps } from "semantic-ui-react";
 import { AdvancedSearchWithBasicFilters, UIConstants, filterList, sortList } from "../../core";
 import { listClientCertificates } from "../api";
-import { CertificatesList } from "../components";
+import { CertificateExpiryDashboard, CertificatesList } from "../components";
 
 /**
  * Props for the Certificates Truststore page.
@@ -180,6 +180,15 @@ const CertificatesTruststore: FunctionComponent<CertificatesTruststorePageInterf
             description="Create and manage certificates in the truststore"
             data-testid={ `${ testId }-page-layout` }
         >
+            {
+                certificatesTruststore?.length > 0 && (
+                    <CertificateExpiryDashboard
+                        type="truststore"
+                        list={ certificatesTruststore }
+                        data-testid={ `${ testId }-expiry-dashboard` }
+                    />
+                )
+            }
             <ListLayout
                 advancedSearch={
                     <AdvancedSearchWithBasicFilters
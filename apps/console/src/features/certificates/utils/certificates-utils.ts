@@ -0,0 +1,108 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { Certificate } from "@wso2is/core/models";
+import { CertificateManagementUtils, ResourceClientUtils } from "@wso2is/core/utils";
+import * as forge from "node-forge";
+import { listClientCertificates, retrieveCertificateAlias, retrieveClientCertificate } from "../api";
+import { CertificatesConstants } from "../constants";
+import { CertificateStoreEntryInterface, CertificateStoreTypes } from "../models";
+
+/**
+ * Utility class for certificate store operations.
+ */
+export class CertificatesUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Retrieves the PEM content of a certificate in a certificate store. Responses are cached.
+     *
+     * @param {CertificateStoreTypes} type - Type of the certificate store.
+     * @param {string} alias - Alias of the certificate.
+     *
+     * @return {Promise<string>} Stripped PEM content of the certificate.
+     */
+    public static getCertificatePem(type: CertificateStoreTypes, alias: string): Promise<string> {
+
+        const isKeystore: boolean = type === "keystore";
+
+        return ResourceClientUtils.fetch<string>({
+            fetcher: () => isKeystore
+                ? retrieveCertificateAlias(alias, true)
+                : retrieveClientCertificate(alias, true),
+            key: CertificatesConstants.RESOURCE_KEYS.get(isKeystore ? "KEYSTORE_CERTIFICATE" : "TRUSTSTORE_CERTIFICATE")
+                + "/" + alias,
+            tags: [ CertificatesConstants.CERTIFICATE_RESOURCE_TAG ]
+        });
+    }
+
+    /**
+     * Retrieves and decodes the certificates of a certificate store.
+     *
+     * @param {CertificateStoreTypes} type - Type of the certificate store.
+     * @param {Certificate[]} certificates - Certificate aliases returned by the list endpoints.
+     *
+     * @return {Promise<CertificateStoreEntryInterface[]>} Decoded certificates.
+     */
+    public static getCertificateStoreEntries(type: CertificateStoreTypes,
+                                             certificates: Certificate[]): Promise<CertificateStoreEntryInterface[]> {
+
+        return Promise.all(certificates.map((certificate: Certificate) => {
+            return CertificatesUtils.getCertificatePem(type, certificate.alias)
+                .then((pem: string) => {
+                    const [ decoded ] = CertificateManagementUtils.decodeCertificates(pem);
+
+                    return {
+                        alias: certificate.alias,
+                        certificate: CertificateManagementUtils.decodeForgeCertificate(certificate, decoded)
+                    };
+                })
+                // Certificates which can't be retrieved or decoded (ex: EC certificates) are reported separately.
+                .catch(() => ({ alias: certificate.alias, certificate: null }));
+        }));
+    }
+
+    /**
+     * Retrieves the certificates in the truststore. Used as the trust anchors to validate certificate chains.
+     *
+     * @return {Promise<forge.pki.Certificate[]>} Decoded truststore certificates.
+     */
+    public static getTrustStore(): Promise<forge.pki.Certificate[]> {
+
+        return ResourceClientUtils.fetch<Certificate[]>({
+            fetcher: () => listClientCertificates(),
+            key: CertificatesConstants.RESOURCE_KEYS.get("TRUSTSTORE"),
+            tags: [ CertificatesConstants.CERTIFICATE_RESOURCE_TAG ]
+        })
+            .then((certificates: Certificate[]) => Promise.all(certificates.map((certificate: Certificate) => {
+                return CertificatesUtils.getCertificatePem("truststore", certificate.alias)
+                    .then((pem: string) => CertificateManagementUtils.decodeCertificates(pem)[ 0 ])
+                    .catch(() => null);
+            })))
+            .then((certificates: forge.pki.Certificate[]) => certificates.filter(Boolean));
+    }
+}
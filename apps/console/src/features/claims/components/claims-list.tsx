@@ -33,6 +33,7 @@ import {
     AppAvatar,
     ConfirmationModal,
     DataTable,
+    DataTableViewStorageInterface,
     EmptyPlaceholder,
     LinkButton,
     PrimaryButton,
@@ -41,7 +42,16 @@ import {
     useConfirmationModalAlert
 } from "@wso2is/react-components";
 import isEqual from "lodash-es/isEqual";
-import React, { FunctionComponent, ReactElement, ReactNode, SyntheticEvent, useEffect, useRef, useState } from "react";
+import React, {
+    FunctionComponent,
+    ReactElement,
+    ReactNode,
+    SyntheticEvent,
+    useEffect,
+    useMemo,
+    useRef,
+    useState
+} from "react";
 import { Trans, useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
 import { Header, Icon, ItemHeader, Popup, SemanticICONS } from "semantic-ui-react";
@@ -52,6 +62,7 @@ import {
     AppState,
     FeatureConfigInterface,
     UIConstants,
+    UserPreferencesDataTableViewStorage,
     getEmptyPlaceholderIllustrations,
     history
 } from "../../core";
@@ -202,6 +213,8 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
 
     const [ alert, setAlert, alertComponent ] = useConfirmationModalAlert();
 
+    const viewStorage: DataTableViewStorageInterface = useMemo(() => new UserPreferencesDataTableViewStorage(), []);
+
     list?.forEach((element, index) => {
         claimURIText.current.push(claimURIText.current[ index ] || React.createRef());
         copyButton.current.push(copyButton.current[ index ] || React.createRef());
@@ -578,6 +591,7 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
                 {
                     allowToggleVisibility: false,
                     dataIndex: "displayName",
+                    filterable: true,
                     id: "displayName",
                     key: "displayName",
                     render: (claim: Claim) => {
@@ -638,6 +652,7 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
                             </Header>
                         );
                     },
+                    sortable: true,
                     // TODO: Add i18n strings.
                     title: t("console:manage.features.claims.list.columns.name")
                 },
@@ -657,6 +672,7 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
                 {
                     allowToggleVisibility: false,
                     dataIndex: "dialectURI",
+                    filterable: true,
                     id: "dialectURI",
                     key: "dialectURI",
                     render: (dialect: ClaimDialect) => {
@@ -685,6 +701,7 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
                             </Header>
                         );
                     },
+                    sortable: true,
                     // TODO: Add i18n strings.
                     title: t("console:manage.features.claims.list.columns.dialectURI")
                 },
@@ -704,6 +721,7 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
                 {
                     allowToggleVisibility: false,
                     dataIndex: "claimURI",
+                    filterable: true,
                     id: "claimURI",
                     key: "claimURI",
                     render: (claim: ExternalClaim) => {
@@ -732,12 +750,15 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
                             </Header>
                         );
                     },
+                    sortable: true,
                     // TODO: Add i18n strings.
                     title: t("console:manage.features.claims.list.columns.claimURI")
                 },
                 {
                     allowToggleVisibility: false,
                     dataIndex: "dialectURI",
+                    filterable: true,
+                    getValue: (claim: ExternalClaim): string => claim.mappedLocalClaimURI,
                     id: "dialectURI",
                     key: "dialectURI",
                     render: (claim: ExternalClaim): ReactNode => (
@@ -759,6 +780,7 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
                             )
                             : <code>{ claim.mappedLocalClaimURI }</code>
                     ),
+                    sortable: true,
                     // TODO: Add i18n strings.
                     title: t("console:manage.features.claims.list.columns.dialectURI")
                 },
@@ -995,11 +1017,40 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
         onListItemClick && onListItemClick(e, item);
     };
 
+    /**
+     * Resolves the ID of the table used to persist the saved views. Pending claims of the
+     * dialect wizard are not persisted.
+     *
+     * @return {string}
+     */
+    const resolveTableId = (): string => {
+        if (isLocalClaim(list)) {
+            return "local-claims-list";
+        }
+
+        if (isDialect(list)) {
+            return `${ attributeType }-dialects-list`;
+        }
+
+        if (isExternalClaim(list)) {
+            return `${ attributeType }-external-claims-list`;
+        }
+
+        return undefined;
+    };
+
+    const tableId: string = resolveTableId();
+
     return (
         <>
             { deleteConfirm ? showDeleteConfirm() : null }
             <DataTable<(Claim | ExternalClaim | ClaimDialect)[]>
+                id={ tableId }
                 className="external-dialects-list"
+                columnFilterPlaceholder={ t("console:common.dataTable.filters.placeholder") }
+                enableKeyboardNavigation
+                exportButtonLabel={ t("console:common.dataTable.actions.exportPage") }
+                exportFileName={ tableId }
                 externalSearch={ advancedSearch }
                 isLoading={ isLoading }
                 loadingStateOptions={ {
@@ -1009,11 +1060,35 @@ export const ClaimsList: FunctionComponent<ClaimsListPropsInterface> = (
                 actions={ resolveTableActions() }
                 columns={ resolveTableColumns() }
                 data={ list }
+                multiSort
                 onRowClick={ resolveTableRowClick }
+                // The listed attributes are paginated. Hence the local operations only cover the current page.
+                operationsHint={ t("console:common.dataTable.hints.currentPage") }
                 placeholders={ showPlaceholders() }
+                processDataLocally
                 selectable={ selection }
-                showHeader={ false }
+                showColumnFilters={ !!tableId }
+                showExport={ !!tableId }
+                showHeader={ !!tableId }
+                showOperationsHeader={ !!tableId }
+                stickyHeader
                 transparent={ !isLoading && (showPlaceholders() !== null) }
+                viewSelectorLabels={ {
+                    delete: t("console:common.dataTable.views.delete"),
+                    emptyPlaceholder: t("console:common.dataTable.views.emptyPlaceholder"),
+                    header: t("console:common.dataTable.views.header"),
+                    namePlaceholder: t("console:common.dataTable.views.namePlaceholder"),
+                    save: t("console:common.dataTable.views.save")
+                } }
+                viewStorage={ viewStorage }
+                virtualization={
+                    list?.length > UIConstants.DATA_TABLE_VIRTUALIZATION_THRESHOLD
+                        ? {
+                            height: UIConstants.DATA_TABLE_VIRTUALIZATION_HEIGHT,
+                            rowHeight: UIConstants.DATA_TABLE_ROW_HEIGHT
+                        }
+                        : undefined
+                }
                 data-testid={ testId }
                 isRowSelectable={ (claim: Claim | ExternalClaim | ClaimDialect) =>
                     attributeConfig.isRowSelectable(claim) }
@@ -16,8 +16,12 @@
  * under the License.
  */
 
-import { TestableComponentInterface } from "@wso2is/core/models";
-import { SearchUtils } from "@wso2is/core/utils";
+import {
+    SCIMFilterComparisonNodeInterface,
+    SearchQueryValidationResultInterface,
+    TestableComponentInterface
+} from "@wso2is/core/models";
+import { SCIMFilterUtils, SearchUtils } from "@wso2is/core/utils";
 import { DropdownChild, Field, Forms } from "@wso2is/forms";
 import { AdvancedSearch, AdvancedSearchPropsInterface, LinkButton, PrimaryButton } from "@wso2is/react-components";
 import React, { FunctionComponent, ReactElement, useState } from "react";
@@ -144,6 +148,7 @@ export const AdvancedSearchWithBasicFilters: FunctionComponent<AdvancedSearchWit
     const [ isFormSubmitted, setIsFormSubmitted ] = useState<boolean>(false);
     const [ isFiltersReset, setIsFiltersReset ] = useState<boolean>(false);
     const [ externalSearchQuery, setExternalSearchQuery ] = useState<string>("");
+    const [ searchQueryError, setSearchQueryError ] = useState<string>(null);
 
     /**
      * Handles the form submit.
@@ -151,13 +156,16 @@ export const AdvancedSearchWithBasicFilters: FunctionComponent<AdvancedSearchWit
      * @param {Map<string, string | string[]>} values - Form values.
      */
     const handleFormSubmit = (values: Map<string, string | string[]>): void => {
-        const query = values.get(FILTER_ATTRIBUTE_FIELD_IDENTIFIER)
-            + " "
-            + values.get(FILTER_CONDITION_FIELD_IDENTIFIER)
-            + " "
-            + values.get(FILTER_VALUES_FIELD_IDENTIFIER);
+        // Values are kept un-quoted to retain the filter format expected by the existing APIs.
+        const query: string = SCIMFilterUtils.serialize(SCIMFilterUtils.comparison(
+            values.get(FILTER_ATTRIBUTE_FIELD_IDENTIFIER) as string,
+            values.get(FILTER_CONDITION_FIELD_IDENTIFIER) as SCIMFilterComparisonNodeInterface[ "operator" ],
+            values.get(FILTER_VALUES_FIELD_IDENTIFIER) as string,
+            false
+        ));
 
         setExternalSearchQuery(query);
+        setSearchQueryError(null);
         onFilter(query);
         setIsFormSubmitted(true);
     };
@@ -170,11 +178,29 @@ export const AdvancedSearchWithBasicFilters: FunctionComponent<AdvancedSearchWit
      */
     const handleSearchQuerySubmit = (processQuery: boolean, query: string): void => {
         if (!processQuery) {
+            setSearchQueryError(null);
             onFilter(query);
             return;
         }
 
-        onFilter(SearchUtils.buildSearchQuery(query));
+        // Validate the query before it hits the server. Multi clause filters are normalized and
+        // only the attributes offered in the basic filters are allowed.
+        const supportedAttributes: string[] = filterAttributeOptions?.length > 0
+            ? filterAttributeOptions.map((option: DropdownChild) => option.value)
+            : undefined;
+        const result: SearchQueryValidationResultInterface = SearchUtils.validateSearchQuery(query,
+            supportedAttributes);
+
+        if (!result.valid) {
+            setSearchQueryError(t("console:common.advancedSearch.hints.querySearch.invalid", {
+                position: result.position
+            }));
+
+            return;
+        }
+
+        setSearchQueryError(null);
+        onFilter(result.query);
     };
 
     /**
@@ -236,6 +262,7 @@ export const AdvancedSearchWithBasicFilters: FunctionComponent<AdvancedSearchWit
             placeholder={ placeholder }
             resetSubmittedState={ handleResetSubmittedState }
             searchOptionsHeader={ t("console:common.advancedSearch.options.header") }
+            searchQueryError={ searchQueryError }
             enableQuerySearch={ enableQuerySearch }
             externalSearchQuery={ externalSearchQuery }
             submitted={ isFormSubmitted }
@@ -0,0 +1,261 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import {
+    CertificateChainValidationInterface,
+    CertificateExpiryInterface,
+    CertificateExpiryStatuses,
+    CertificateFingerprintsInterface,
+    CertificateKeyUsageInterface,
+    CertificateValidationIssueInterface,
+    TestableComponentInterface
+} from "@wso2is/core/models";
+import { CertificateManagementUtils } from "@wso2is/core/utils";
+import * as forge from "node-forge";
+import React, { FunctionComponent, ReactElement, useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Icon, Label, List, Loader, SemanticCOLORS, Table } from "semantic-ui-react";
+
+/**
+ * Colors of the certificate expiry statuses.
+ * @constant
+ * @type {Record<CertificateExpiryStatuses, SemanticCOLORS>}
+ */
+const EXPIRY_STATUS_COLORS: Record<CertificateExpiryStatuses, SemanticCOLORS> = {
+    [ CertificateExpiryStatuses.EXPIRED ]: "red",
+    [ CertificateExpiryStatuses.EXPIRING ]: "orange",
+    [ CertificateExpiryStatuses.NOT_YET_VALID ]: "grey",
+    [ CertificateExpiryStatuses.VALID ]: "green"
+};
+
+/**
+ * Prop types of the `CertificateExpiryLabel` component.
+ */
+interface CertificateExpiryLabelPropsInterface extends TestableComponentInterface {
+    /**
+     * Expiry details of the certificate.
+     */
+    expiry: CertificateExpiryInterface;
+}
+
+/**
+ * Renders the expiry status of a certificate as a label.
+ *
+ * @param {CertificateExpiryLabelPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const CertificateExpiryLabel: FunctionComponent<CertificateExpiryLabelPropsInterface> = (
+    props: CertificateExpiryLabelPropsInterface
+): ReactElement => {
+
+    const {
+        expiry,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    return (
+        <Label size="mini" color={ EXPIRY_STATUS_COLORS[ expiry.status ] } data-testid={ testId }>
+            { t("console:manage.features.certificates.expiryDashboard.statuses." + expiry.status) }
+        </Label>
+    );
+};
+
+/**
+ * Default props for the component.
+ */
+CertificateExpiryLabel.defaultProps = {
+    "data-testid": "certificate-expiry-label"
+};
+
+/**
+ * Prop types of the `CertificateInsights` component.
+ */
+interface CertificateInsightsPropsInterface extends TestableComponentInterface {
+    /**
+     * The Forge Certificate object.
+     */
+    certificate: forge.pki.Certificate;
+    /**
+     * Certificates which can be used to build the chain. ex: Certificates bundled in a PKCS#12 file.
+     */
+    intermediates?: forge.pki.Certificate[];
+    /**
+     * Trusted certificates to validate the chain against. The chain isn't validated if not provided.
+     */
+    trustStore?: forge.pki.Certificate[];
+    /**
+     * Shows a loader in place of the chain validation while the truststore is being retrieved.
+     */
+    isTrustStoreLoading?: boolean;
+    /**
+     * Shows an error in place of the chain validation if the truststore couldn't be retrieved.
+     */
+    hasTrustStoreError?: boolean;
+}
+
+/**
+ * Renders the fingerprints, the allowed usages, the expiry and the chain validation of a certificate.
+ *
+ * @param {CertificateInsightsPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const CertificateInsights: FunctionComponent<CertificateInsightsPropsInterface> = (
+    props: CertificateInsightsPropsInterface
+): ReactElement => {
+
+    const {
+        certificate,
+        intermediates,
+        trustStore,
+        isTrustStoreLoading,
+        hasTrustStoreError,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const fingerprints: CertificateFingerprintsInterface = useMemo(() => {
+        return CertificateManagementUtils.getFingerprints(certificate);
+    }, [ certificate ]);
+
+    const usage: CertificateKeyUsageInterface = useMemo(() => {
+        return CertificateManagementUtils.getKeyUsage(certificate);
+    }, [ certificate ]);
+
+    const validation: CertificateChainValidationInterface = useMemo(() => {
+        if (!trustStore) {
+            return null;
+        }
+
+        return CertificateManagementUtils.validateChain(certificate, intermediates, trustStore);
+    }, [ certificate, intermediates, trustStore ]);
+
+    /**
+     * Renders the chain validation result.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderChainValidation = (): ReactElement => {
+        if (isTrustStoreLoading) {
+            return <Loader active inline size="mini" />;
+        }
+
+        if (hasTrustStoreError) {
+            return <>{ t("console:manage.features.certificates.insights.chain.error") }</>;
+        }
+
+        return (
+            <>
+                <Label size="mini" color={ validation.isValid ? "green" : "red" }>
+                    <Icon name={ validation.isValid ? "check" : "warning sign" } />
+                    {
+                        validation.isValid
+                            ? t("console:manage.features.certificates.insights.chain.trusted")
+                            : t("console:manage.features.certificates.insights.chain.untrusted")
+                    }
+                </Label>
+                <List bulleted>
+                    {
+                        validation.issues.map((issue: CertificateValidationIssueInterface, index: number) => (
+                            <List.Item key={ index } data-testid={ `${ testId }-chain-issue-${ index }` }>
+                                {
+                                    t("console:manage.features.certificates.insights.issues." + issue.error, {
+                                        name: CertificateManagementUtils.searchIssuerDNAlias(
+                                            validation.chain[ issue.depth ].subjectDN)
+                                    })
+                                }
+                            </List.Item>
+                        ))
+                    }
+                </List>
+            </>
+        );
+    };
+
+    return (
+        <Table definition compact="very" data-testid={ testId }>
+            <Table.Body>
+                <Table.Row>
+                    <Table.Cell width={ 5 }>
+                        { t("console:manage.features.certificates.insights.fingerprints.sha1") }
+                    </Table.Cell>
+                    <Table.Cell>
+                        <code style={ { wordBreak: "break-all" } }>{ fingerprints.sha1 }</code>
+                    </Table.Cell>
+                </Table.Row>
+                <Table.Row>
+                    <Table.Cell>{ t("console:manage.features.certificates.insights.fingerprints.sha256") }</Table.Cell>
+                    <Table.Cell>
+                        <code style={ { wordBreak: "break-all" } }>{ fingerprints.sha256 }</code>
+                    </Table.Cell>
+                </Table.Row>
+                <Table.Row>
+                    <Table.Cell>{ t("console:manage.features.certificates.insights.keyUsage") }</Table.Cell>
+                    <Table.Cell>
+                        {
+                            usage.keyUsage.length > 0
+                                ? usage.keyUsage.join(", ")
+                                : t("console:manage.features.certificates.insights.unrestricted")
+                        }
+                    </Table.Cell>
+                </Table.Row>
+                <Table.Row>
+                    <Table.Cell>{ t("console:manage.features.certificates.insights.extendedKeyUsage") }</Table.Cell>
+                    <Table.Cell>
+                        {
+                            usage.extendedKeyUsage.length > 0
+                                ? usage.extendedKeyUsage.join(", ")
+                                : t("console:manage.features.certificates.insights.unrestricted")
+                        }
+                    </Table.Cell>
+                </Table.Row>
+                <Table.Row>
+                    <Table.Cell>{ t("console:manage.features.certificates.insights.expiry") }</Table.Cell>
+                    <Table.Cell>
+                        <CertificateExpiryLabel
+                            expiry={ CertificateManagementUtils.getExpiry(certificate.validity.notBefore,
+                                certificate.validity.notAfter) }
+                            data-testid={ `${ testId }-expiry` }
+                        />
+                    </Table.Cell>
+                </Table.Row>
+                {
+                    (trustStore || isTrustStoreLoading || hasTrustStoreError) && (
+                        <Table.Row>
+                            <Table.Cell>{ t("console:manage.features.certificates.insights.chain.label") }</Table.Cell>
+                            <Table.Cell data-testid={ `${ testId }-chain` }>{ renderChainValidation() }</Table.Cell>
+                        </Table.Row>
+                    )
+                }
+            </Table.Body>
+        </Table>
+    );
+};
+
+/**
+ * Default props for the component.
+ */
+CertificateInsights.defaultProps = {
+    "data-testid": "certificate-insights",
+    intermediates: []
+};
@@ -18,10 +18,12 @@
 
 export * from "./advanced-search-with-basic-filters";
 export * from "./authenticator-accordion";
+export * from "./certificate-insights";
 export * from "./footer";
 export * from "./header";
 export * from "./modal-with-side-panel";
 export * from "./protected-route";
+export * from "./template-registry";
 export * from "./upload-certificate";
 export * from "./groups";
 export * from "./roles";
@@ -0,0 +1,203 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import { CodeEditor, LinkButton } from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useMemo } from "react";
+import { useTranslation } from "react-i18next";
+import { Label, List, Message, Modal } from "semantic-ui-react";
+import { TemplateRegistryIssueInterface } from "../models";
+
+/**
+ * Keys omitted from the template preview. These are resolved by the app and are not part of the template.
+ * @constant
+ * @type {string[]}
+ */
+const TEMPLATE_PREVIEW_OMITTED_KEYS: string[] = [ "content", "logo", "subTemplates" ];
+
+/**
+ * Minimal set of template attributes used by the preview.
+ */
+interface PreviewableTemplateInterface {
+    /**
+     * Template id.
+     */
+    id?: string;
+    /**
+     * Template name.
+     */
+    name?: string;
+    /**
+     * Template description.
+     */
+    description?: string;
+    /**
+     * Template version.
+     */
+    version?: string;
+}
+
+/**
+ * Prop types of the `TemplatePreviewModal` component.
+ */
+interface TemplatePreviewModalPropsInterface extends TestableComponentInterface {
+    /**
+     * Template to preview.
+     */
+    template: PreviewableTemplateInterface;
+    /**
+     * Callback to close the modal.
+     */
+    onClose: () => void;
+}
+
+/**
+ * Prop types of the `TemplateRegistryIssues` component.
+ */
+interface TemplateRegistryIssuesPropsInterface extends TestableComponentInterface {
+    /**
+     * Templates which could not be loaded from the registry.
+     */
+    issues: TemplateRegistryIssueInterface[];
+}
+
+/**
+ * Shows the definition of an application or an identity provider template.
+ *
+ * @param {TemplatePreviewModalPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const TemplatePreviewModal: FunctionComponent<TemplatePreviewModalPropsInterface> = (
+    props: TemplatePreviewModalPropsInterface
+): ReactElement => {
+
+    const {
+        template,
+        onClose,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const definition: string = useMemo(() => {
+        return JSON.stringify(template, (key: string, value: unknown) => {
+            return TEMPLATE_PREVIEW_OMITTED_KEYS.includes(key) ? undefined : value;
+        }, 4);
+    }, [ template ]);
+
+    return (
+        <Modal
+            open
+            closeIcon
+            dimmer="blurring"
+            size="small"
+            onClose={ onClose }
+            data-testid={ testId }
+        >
+            <Modal.Header>
+                { template.name }
+                {
+                    template.version && (
+                        <Label size="mini" className="ml-2" data-testid={ `${ testId }-version` }>
+                            { `v${ template.version }` }
+                        </Label>
+                    )
+                }
+                <div className="sub header">{ template.description }</div>
+            </Modal.Header>
+            <Modal.Content scrolling>
+                <CodeEditor
+                    readOnly
+                    language="json"
+                    sourceCode={ definition }
+                    options={ {
+                        lineWrapping: true
+                    } }
+                    data-testid={ `${ testId }-code-editor` }
+                />
+            </Modal.Content>
+            <Modal.Actions>
+                <LinkButton onClick={ onClose } data-testid={ `${ testId }-close-button` }>
+                    { t("common:close") }
+                </LinkButton>
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the template preview modal.
+ */
+TemplatePreviewModal.defaultProps = {
+    "data-testid": "template-preview-modal"
+};
+
+/**
+ * Lists the templates which could not be loaded from the template registry along with the reasons.
+ *
+ * @param {TemplateRegistryIssuesPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const TemplateRegistryIssues: FunctionComponent<TemplateRegistryIssuesPropsInterface> = (
+    props: TemplateRegistryIssuesPropsInterface
+): ReactElement => {
+
+    const {
+        issues,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    if (!issues || issues.length === 0) {
+        return null;
+    }
+
+    return (
+        <Message warning visible data-testid={ testId }>
+            <Message.Header>{ t("console:develop.features.templates.registry.issues.heading") }</Message.Header>
+            <p>{ t("console:develop.features.templates.registry.issues.description") }</p>
+            <List bulleted>
+                {
+                    issues.map((issue: TemplateRegistryIssueInterface, index: number) => (
+                        <List.Item key={ index } data-testid={ `${ testId }-issue` }>
+                            <List.Header>{ issue.id ?? issue.source }</List.Header>
+                            { issue.id && <List.Description>{ issue.source }</List.Description> }
+                            <List.List>
+                                {
+                                    issue.errors.map((error: string, errorIndex: number) => (
+                                        <List.Item key={ errorIndex }>{ error }</List.Item>
+                                    ))
+                                }
+                            </List.List>
+                        </List.Item>
+                    ))
+                }
+            </List>
+        </Message>
+    );
+};
+
+/**
+ * Default props for the template registry issues component.
+ */
+TemplateRegistryIssues.defaultProps = {
+    "data-testid": "template-registry-issues"
+};
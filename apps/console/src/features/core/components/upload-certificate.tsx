@@ -16,14 +16,17 @@
  * under the License.
  */
 
-import { Certificate, TestableComponentInterface } from "@wso2is/core/models";
+import { CertificateManagementConstants } from "@wso2is/core/constants";
+import { CertificateDecodeException } from "@wso2is/core/exceptions";
+import { Certificate, CertificateFormats, TestableComponentInterface } from "@wso2is/core/models";
 import { CertificateManagementUtils } from "@wso2is/core/utils";
-import { GenericIcon } from "@wso2is/react-components";
+import { GenericIcon, Hint } from "@wso2is/react-components";
 import { KJUR, X509 } from "jsrsasign";
 import * as forge from "node-forge";
-import React, { FunctionComponent, ReactElement, useEffect, useRef, useState } from "react";
+import React, { FunctionComponent, ReactElement, useEffect, useMemo, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Button, Divider, Form, Icon, Message, Segment, Tab, TextArea } from "semantic-ui-react";
+import { CertificateInsights } from "./certificate-insights";
 import { getCertificateIllustrations } from "../configs";
 
 // This is a polyfill to support `File.arrayBuffer()` in Safari and IE.
@@ -43,6 +46,19 @@ function myArrayBuffer() {
     });
 }
 
+/**
+ * Translation keys of the messages shown for the certificate decode errors.
+ * @constant
+ * @type {Map<string, string>}
+ */
+const DECODE_ERROR_MESSAGES: Map<string, string> = new Map<string, string>()
+    .set(CertificateManagementConstants.JWKS_NO_CERTIFICATE_ERROR,
+        "console:manage.features.certificates.keystore.errorJwks")
+    .set(CertificateManagementConstants.PKCS12_INVALID_PASSWORD_ERROR,
+        "console:manage.features.certificates.keystore.errorPkcs12InvalidPassword")
+    .set(CertificateManagementConstants.PKCS12_PASSWORD_REQUIRED_ERROR,
+        "console:manage.features.certificates.keystore.errorPkcs12Password");
+
 /**
  * The model of the object returned by the `convertFromPem()` function.
  */
@@ -100,6 +116,10 @@ interface UploadCertificatePropsInterface extends TestableComponentInterface {
      * Hides the alias input.
      */
     hideAliasInput?: boolean;
+    /**
+     * Trusted certificates to validate the chain of the certificate against.
+     */
+    trustStore?: forge.pki.Certificate[];
 }
 
 /**
@@ -123,6 +143,7 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
         fileData,
         forgeCertificateData,
         hideAliasInput,
+        trustStore,
         [ "data-testid" ]: testId
     } = props;
 
@@ -137,6 +158,10 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
     const [ activeIndex, setActiveIndex ] = useState(0);
     const [ dark, setDark ] = useState(false);
     const [ forgeCertificate, setForgeCertificate ] = useState<X509>(null);
+    const [ bundledCertificates, setBundledCertificates ] = useState<forge.pki.Certificate[]>([]);
+    const [ decodeErrorMessage, setDecodeErrorMessage ] = useState<string>(null);
+    const [ passwordProtectedFile, setPasswordProtectedFile ] = useState<File>(null);
+    const [ password, setPassword ] = useState<string>("");
 
     const fileUpload = useRef(null);
     const init = useRef(true);
@@ -246,6 +271,24 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
         };
     }, []);
 
+    /**
+     * Decodes the certificates of the selected tab so that the insights of the leaf certificate can be shown.
+     */
+    const decodedCertificates: forge.pki.Certificate[] = useMemo(() => {
+        const content: string = activeIndex === 0 ? fileDecoded : pem;
+
+        if (!content) {
+            return [];
+        }
+
+        try {
+            return CertificateManagementUtils.decodeCertificates(content);
+        } catch {
+            // Certificates unsupported by forge (ex: EC certificates) are imported without the insights.
+            return [];
+        }
+    }, [ activeIndex, fileDecoded, pem ]);
+
     /**
      * Convert PEM string to forge certificate object.
      *
@@ -276,6 +319,7 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
                     value: CertificateManagementUtils.stripPem(pem)
                 };
             } catch (error) {
+                setDecodeErrorMessage(null);
                 setFileError(true);
                 return null;
             }
@@ -286,11 +330,38 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
      * Checks the certificate type and decodes appropriately.
      *
      * @param {File} file The File object.
+     * @param {string} password The password of the PKCS#12 file.
      *
      * @returns {Promise<string>} A promise that resolves to the content of the file.
      */
-    const checkCertType = (file: File): Promise<string> => {
+    const checkCertType = (file: File, password?: string): Promise<string> => {
         return file.arrayBuffer().then((value: ArrayBuffer) => {
+            let format: CertificateFormats = null;
+            let certificates: forge.pki.Certificate[] = [];
+
+            try {
+                format = CertificateManagementUtils.detectFormat(forge.util.createBuffer(value).getBytes(),
+                    file.name);
+                certificates = CertificateManagementUtils.decodeCertificates(value, file.name, password);
+            } catch (error) {
+                // PKCS#12 and JWKS files can only be decoded with forge. The rest fall back to jsrsasign
+                // which supports the key types unsupported by forge.
+                if (format === CertificateFormats.PKCS12 || format === CertificateFormats.JWKS) {
+                    return Promise.reject(error);
+                }
+            }
+
+            setBundledCertificates(certificates);
+
+            if (format === CertificateFormats.PKCS12 || format === CertificateFormats.JWKS) {
+                const pem = forge.pki.certificateToPem(certificates[ 0 ]);
+                const cert = new X509();
+                cert.readCertPEM(pem);
+                setForgeCertificate(cert);
+
+                return Promise.resolve(CertificateManagementUtils.stripPem(pem));
+            }
+
             try {
                 const hex = Array.prototype.map
                     .call(new Uint8Array(value), x => ("00" + x.toString(16)).slice(-2)).join("");
@@ -390,13 +461,56 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
         }
     };
 
+    /**
+     * Renders the password prompt of the password protected PKCS#12 files.
+     *
+     * @returns {ReactElement}
+     */
+    const renderPasswordPrompt = (): ReactElement => (
+        <Segment placeholder>
+            <Segment textAlign="center" basic>
+                <GenericIcon
+                    inline
+                    transparent
+                    size="auto"
+                    icon={ getCertificateIllustrations().file }
+                />
+                <p className="file-name">{ passwordProtectedFile.name }</p>
+                <Form onSubmit={ () => addFile(passwordProtectedFile, password) }>
+                    <Form.Group inline>
+                        <Form.Input
+                            type="password"
+                            label={ t("console:manage.features.certificates.keystore.forms." +
+                                "password.label") }
+                            placeholder={ t("console:manage.features.certificates.keystore.forms." +
+                                "password.placeholder") }
+                            value={ password }
+                            onChange={ (event: React.ChangeEvent<HTMLInputElement>) => {
+                                setPassword(event.target.value);
+                            } }
+                            data-testid={ `${ testId }-password-input` }
+                        />
+                        <Button basic primary type="submit" data-testid={ `${ testId }-unlock-button` }>
+                            { t("console:manage.features.certificates.keystore.wizard.unlock") }
+                        </Button>
+                    </Form.Group>
+                </Form>
+                <Icon name="trash alternate" link onClick={ () => {
+                    setPasswordProtectedFile(null);
+                    setPassword("");
+                    setFileError(false);
+                } } />
+            </Segment>
+        </Segment>
+    );
+
     /**
      * The tab panes that display the drop zone and the textarea.
      */
     const panes = [
         {
             menuItem: t("console:manage.features.certificates.keystore.wizard.panes.upload"),
-            render: () => (
+            render: () => passwordProtectedFile ? renderPasswordPrompt() : (
                 !file
                     ? (
                         <div
@@ -456,6 +570,7 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
                                     setFile(null);
                                     setFileError(false);
                                     setFileDecoded("");
+                                    setBundledCertificates([]);
                                 } } />
                             </Segment>
                         </Segment>
@@ -489,19 +604,28 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
      * The file is decoded and saved to the state.
      *
      * @param {File} file The file to be added.
+     * @param {string} password The password of the PKCS#12 file.
      */
-    const addFile = (file: File): void => {
-        checkCertType(file)?.then((value: string) => {
+    const addFile = (file: File, password?: string): void => {
+        checkCertType(file, password)?.then((value: string) => {
             setFile(file);
             setCertEmpty(false);
             setFileError(false);
+            setPasswordProtectedFile(null);
+            setPassword("");
 
             const fileName = file.name.split(".");
             // removes the file extension
             fileName.pop();
             !name && setName(fileName.join("."));
             setFileDecoded(value);
-        }).catch(() => {
+        }).catch((error) => {
+            const isPasswordError: boolean = error instanceof CertificateDecodeException
+                && error.format === CertificateFormats.PKCS12
+                && error.message !== CertificateManagementConstants.INVALID_CERTIFICATE_ERROR;
+
+            setPasswordProtectedFile(isPasswordError ? file : null);
+            setDecodeErrorMessage(DECODE_ERROR_MESSAGES.get(error?.message) ?? null);
             setFileError(true);
         });
     };
@@ -511,7 +635,7 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
             <input
                 ref={ fileUpload }
                 type="file"
-                accept=".pem, .cer, .crt"
+                accept=".pem, .cer, .crt, .der, .p12, .pfx, .json, .jwks"
                 hidden
                 onChange={ (event) => {
                     const file: File = event.target.files[ 0 ];
@@ -568,11 +692,22 @@ export const UploadCertificate: FunctionComponent<UploadCertificatePropsInterfac
                 (fileError || certEmpty) &&
                 <Message error attached="bottom" data-testid={ `${ testId }-error-message` }>
                     { fileError
-                        ? t("console:manage.features.certificates.keystore.errorCertificate")
+                        ? t(decodeErrorMessage ?? "console:manage.features.certificates.keystore.errorCertificate")
                         : t("console:manage.features.certificates.keystore.errorEmpty")
                     }
                 </Message>
             }
+            <Hint>{ t("console:manage.features.certificates.keystore.wizard.supportedFormats") }</Hint>
+            {
+                decodedCertificates.length > 0 && (
+                    <CertificateInsights
+                        certificate={ decodedCertificates[ 0 ] }
+                        intermediates={ activeIndex === 0 ? bundledCertificates : decodedCertificates }
+                        trustStore={ trustStore }
+                        data-testid={ `${ testId }-insights` }
+                    />
+                )
+            }
         </>
 
     );
@@ -158,6 +158,7 @@ export class Config {
                 .replace("${year}", new Date().getFullYear()),
             appName: window["AppUtils"].getConfig().ui.appName,
             applicationTemplateLoadingStrategy: window["AppUtils"].getConfig().ui.applicationTemplateLoadingStrategy,
+            auditLog: window["AppUtils"].getConfig().ui.auditLog,
             identityProviderTemplateLoadingStrategy:
                 window["AppUtils"].getConfig().ui.identityProviderTemplateLoadingStrategy,
             appTitle: window["AppUtils"].getConfig().ui.appTitle,
@@ -167,6 +168,7 @@ export class Config {
             i18nConfigs: window["AppUtils"].getConfig().ui.i18nConfigs,
             identityProviderTemplates: window["AppUtils"].getConfig().ui.identityProviderTemplates,
             isCookieConsentBannerEnabled: window["AppUtils"].getConfig().ui.isCookieConsentBannerEnabled,
+            isAccessControlPolicyDebugEnabled: window["AppUtils"].getConfig().ui.isAccessControlPolicyDebugEnabled,
             isClientSecretHashEnabled: window["AppUtils"].getConfig().ui.isClientSecretHashEnabled,
             isDefaultDialectEditingEnabled: window["AppUtils"].getConfig().ui.isDefaultDialectEditingEnabled,
             isDialectAddingEnabled: window["AppUtils"].getConfig().ui.isDialectAddingEnabled,
@@ -182,6 +184,7 @@ export class Config {
             productVersionConfig: window["AppUtils"].getConfig().ui.productVersionConfig,
             selfAppIdentifier: window["AppUtils"].getConfig().ui.selfAppIdentifier,
             systemAppsIdentifiers: window["AppUtils"].getConfig().ui.systemAppsIdentifiers,
+            templateRegistry: window["AppUtils"].getConfig().ui.templateRegistry,
             theme: window["AppUtils"].getConfig().ui.theme,
             showAppSwitchButton: window["AppUtils"].getConfig().ui.showAppSwitchButton
         };
@@ -482,6 +482,20 @@ export const getAdminViewRoutes = (): RouteInterface[] => {
                         protected: true,
                         showOnSidePanel: true
                     },
+                    {
+                        category: "console:manage.features.sidePanel.categories.configurations",
+                        component: lazy(() => import("../pages/activity-log")),
+                        exact: true,
+                        icon: {
+                            icon: getSidePanelIcons().appLogs
+                        },
+                        id: "activityLog",
+                        name: "console:manage.features.sidePanel.activityLog",
+                        order: 12,
+                        path: AppConstants.getPaths().get("ACTIVITY_LOG"),
+                        protected: true,
+                        showOnSidePanel: true
+                    },
                     {
                         component: lazy(() => import("../../server-configurations/pages/governance-connectors")),
                         exact: true,
@@ -242,6 +242,7 @@ export class AppConstants {
     public static getPaths(): Map<string, string> {
 
         return new Map<string, string>()
+            .set("ACTIVITY_LOG", `${ AppConstants.getAdminViewBasePath() }/activity`)
             .set("ADMIN_OVERVIEW", `${ AppConstants.getAdminViewBasePath() }/overview`)
             .set("APPLICATIONS", `${ AppConstants.getDeveloperViewBasePath() }/applications`)
             .set("APPLICATION_TEMPLATES", `${ AppConstants.getDeveloperViewBasePath() }/applications/templates`)
@@ -0,0 +1,170 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { AuditLogExportFormats, AuditLogOperations, AuditLogResourceTypes } from "../models";
+
+/**
+ * Class containing audit log constants.
+ */
+export class AuditLogConstants {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    /* eslint-disable @typescript-eslint/no-empty-function */
+    private constructor() { }
+
+    /**
+     * Name of the IndexedDB database used to store the audit log.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly DATABASE_NAME: string = "identity-apps-console-audit-log";
+
+    /**
+     * Name of the object store used to store the audit log entries.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly ENTRIES_STORE_NAME: string = "entries";
+
+    /**
+     * Name of the index used to sort the entries by the time.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly TIMESTAMP_INDEX_NAME: string = "timestamp";
+
+    /**
+     * Default maximum number of entries kept in the local log.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly DEFAULT_MAX_ENTRIES: number = 1000;
+
+    /**
+     * Maximum number of changes recorded for a single request.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly MAX_CHANGES_PER_ENTRY: number = 100;
+
+    /**
+     * Maximum number of resource states cached to calculate the changes of the updates.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly MAX_CACHED_RESOURCES: number = 50;
+
+    /**
+     * Maximum length of a value recorded in a change. Longer values are truncated.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly MAX_VALUE_LENGTH: number = 256;
+
+    /**
+     * Mime types of the supported export formats.
+     * @constant
+     * @type {Map<AuditLogExportFormats, string>}
+     * @default
+     */
+    public static readonly EXPORT_MIME_TYPES: Map<AuditLogExportFormats, string> = new Map([
+        [ AuditLogExportFormats.CSV, "text/csv" ],
+        [ AuditLogExportFormats.JSON, "application/json" ]
+    ]);
+
+    /**
+     * Name of the exported audit log file without the extension.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly EXPORT_FILE_NAME: string = "console-activity";
+
+    /**
+     * Value used in place of the sensitive values.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly REDACTED_VALUE: string = "******";
+
+    /**
+     * Pattern to identify the attributes holding sensitive values.
+     * @constant
+     * @type {RegExp}
+     * @default
+     */
+    public static readonly SENSITIVE_ATTRIBUTE_REGEX: RegExp =
+        /password|secret|token|credential|passphrase|private-?key/i;
+
+    /**
+     * Pattern to identify the API requests which should be recorded.
+     * @constant
+     * @type {RegExp}
+     * @default
+     */
+    public static readonly AUDITED_PATH_REGEX: RegExp = /\/(api|scim2)\//;
+
+    /**
+     * HTTP methods mapped to the operations they perform.
+     * @constant
+     * @type {Map<string, AuditLogOperations>}
+     * @default
+     */
+    public static readonly MUTATING_METHODS: Map<string, AuditLogOperations> = new Map([
+        [ "DELETE", AuditLogOperations.DELETE ],
+        [ "PATCH", AuditLogOperations.UPDATE ],
+        [ "POST", AuditLogOperations.CREATE ],
+        [ "PUT", AuditLogOperations.UPDATE ]
+    ]);
+
+    /**
+     * API path segments mapped to the resource types. The segment following a match is
+     * considered as the resource id.
+     * @constant
+     * @type {Map<string, AuditLogResourceTypes>}
+     * @default
+     */
+    public static readonly RESOURCE_PATH_SEGMENTS: Map<string, AuditLogResourceTypes> = new Map([
+        [ "applications", AuditLogResourceTypes.APPLICATION ],
+        [ "certs", AuditLogResourceTypes.CERTIFICATE ],
+        [ "claim-dialects", AuditLogResourceTypes.CLAIM_DIALECT ],
+        [ "claims", AuditLogResourceTypes.CLAIM ],
+        [ "connectors", AuditLogResourceTypes.GOVERNANCE_CONNECTOR ],
+        [ "Groups", AuditLogResourceTypes.GROUP ],
+        [ "identity-providers", AuditLogResourceTypes.IDENTITY_PROVIDER ],
+        [ "Roles", AuditLogResourceTypes.ROLE ],
+        [ "scopes", AuditLogResourceTypes.OIDC_SCOPE ],
+        [ "template-types", AuditLogResourceTypes.EMAIL_TEMPLATE ],
+        [ "Users", AuditLogResourceTypes.USER ],
+        [ "userstores", AuditLogResourceTypes.USERSTORE ]
+    ]);
+}
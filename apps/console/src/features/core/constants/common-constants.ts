@@ -38,6 +38,14 @@ export class CommonConstants {
      */
     public static readonly SEEN_ANNOUNCEMENTS_KEY: string = "identityAppsSettings.adminPortal.announcements.seen";
 
+    /**
+     * Key to get the saved data table views from pref storage.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly DATA_TABLE_VIEWS_KEY: string = "identityAppsSettings.adminPortal.dataTableViews";
+
     /**
      * Session storage key to store session state.
      * @constant
@@ -45,4 +53,8 @@ export class CommonConstants {
      * @default
      */
     public static readonly SESSION_STATE: string = "session_state";
+
+    // Errors
+    public static readonly USER_PREFERENCES_NOT_FOUND_ERROR: string = "User preferences of the logged in user " +
+        "couldn't be found.";
 }
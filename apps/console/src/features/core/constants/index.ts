@@ -17,7 +17,9 @@
  */
 
 export * from "./app-constants";
+export * from "./audit-log-constants";
 export * from "./common-constants";
 export * from "./i18n-constants";
+export * from "./template-registry-constants";
 export * from "./ui-constants";
 export * from "./user-store-constants";
@@ -0,0 +1,103 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { JSONSchemaInterface } from "@wso2is/core/models";
+
+/**
+ * Class containing template registry constants.
+ */
+export class TemplateRegistryConstants {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    /* eslint-disable @typescript-eslint/no-empty-function */
+    private constructor() { }
+
+    /**
+     * Version of the registry format understood by the app. Registries with a different
+     * major version are rejected.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly SUPPORTED_REGISTRY_VERSION: string = "1.0.0";
+
+    /**
+     * Pattern of the registry and template versions. ex: `1.2.0`.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly VERSION_PATTERN: string = "^\\d+\\.\\d+\\.\\d+$";
+
+    /**
+     * Schema of the registry entries.
+     * @constant
+     * @type {JSONSchemaInterface}
+     * @default
+     */
+    public static readonly ENTRY_SCHEMA: JSONSchemaInterface = {
+        additionalProperties: false,
+        properties: {
+            id: {
+                minLength: 1,
+                type: "string"
+            },
+            path: {
+                minLength: 1,
+                type: "string"
+            },
+            template: {
+                type: "object"
+            },
+            version: {
+                pattern: TemplateRegistryConstants.VERSION_PATTERN,
+                type: "string"
+            }
+        },
+        required: [ "id", "version" ],
+        type: "object"
+    };
+
+    /**
+     * Schema of the registry index.
+     * @constant
+     * @type {JSONSchemaInterface}
+     * @default
+     */
+    public static readonly REGISTRY_SCHEMA: JSONSchemaInterface = {
+        properties: {
+            applications: {
+                type: "array"
+            },
+            identityProviders: {
+                type: "array"
+            },
+            version: {
+                pattern: TemplateRegistryConstants.VERSION_PATTERN,
+                type: "string"
+            }
+        },
+        required: [ "version" ],
+        type: "object"
+    };
+}
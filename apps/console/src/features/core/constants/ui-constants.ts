@@ -76,6 +76,28 @@ export class UIConstants {
      */
     public static readonly DEFAULT_STATS_LIST_ITEM_LIMIT: number = 5;
 
+    /**
+     * Number of rows above which the data tables render only the rows in the visible window.
+     * Paginated lists don't reach it since the page size is limited to 50.
+     * @constant
+     * @type {number}
+     */
+    public static readonly DATA_TABLE_VIRTUALIZATION_THRESHOLD: number = 50;
+
+    /**
+     * Height of the scroll container of the virtualized data tables in pixels.
+     * @constant
+     * @type {number}
+     */
+    public static readonly DATA_TABLE_VIRTUALIZATION_HEIGHT: number = 600;
+
+    /**
+     * Height of a resource row with an avatar in the virtualized data tables in pixels.
+     * @constant
+     * @type {number}
+     */
+    public static readonly DATA_TABLE_ROW_HEIGHT: number = 62;
+
     /**
      * Default theme of the portal.
      * @type {string}
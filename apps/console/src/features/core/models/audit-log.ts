@@ -0,0 +1,189 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Operations recorded in the audit log.
+ * @readonly
+ * @enum {string}
+ */
+export enum AuditLogOperations {
+    CREATE = "CREATE",
+    DELETE = "DELETE",
+    UPDATE = "UPDATE"
+}
+
+/**
+ * Types of the resources recorded in the audit log.
+ * @readonly
+ * @enum {string}
+ */
+export enum AuditLogResourceTypes {
+    APPLICATION = "application",
+    CERTIFICATE = "certificate",
+    CLAIM = "claim",
+    CLAIM_DIALECT = "claimDialect",
+    EMAIL_TEMPLATE = "emailTemplate",
+    GOVERNANCE_CONNECTOR = "governanceConnector",
+    GROUP = "group",
+    IDENTITY_PROVIDER = "identityProvider",
+    OIDC_SCOPE = "oidcScope",
+    OTHER = "other",
+    ROLE = "role",
+    USER = "user",
+    USERSTORE = "userstore"
+}
+
+/**
+ * Formats supported when exporting the audit log.
+ * @readonly
+ * @enum {string}
+ */
+export enum AuditLogExportFormats {
+    CSV = "csv",
+    JSON = "json"
+}
+
+/**
+ * Interface for a change recorded in an audit log entry.
+ */
+export interface AuditLogChangeInterface {
+    /**
+     * Path of the changed attribute. ex: `inboundProtocols[0].type`.
+     */
+    path: string;
+    /**
+     * Value before the change. Sensitive values are redacted.
+     */
+    previousValue?: string;
+    /**
+     * Value after the change. Sensitive values are redacted.
+     */
+    currentValue?: string;
+}
+
+/**
+ * Interface for an audit log entry.
+ */
+export interface AuditLogEntryInterface {
+    /**
+     * Unique id of the entry.
+     */
+    id: string;
+    /**
+     * Time the request was completed.
+     */
+    timestamp: number;
+    /**
+     * Username of the admin who performed the action.
+     */
+    actor: string;
+    /**
+     * Tenant the action was performed in.
+     */
+    tenant: string;
+    /**
+     * Operation performed on the resource.
+     */
+    operation: AuditLogOperations;
+    /**
+     * HTTP method of the request.
+     */
+    method: string;
+    /**
+     * Type of the resource.
+     */
+    resourceType: AuditLogResourceTypes;
+    /**
+     * Id of the resource if it could be resolved.
+     */
+    resourceId?: string;
+    /**
+     * Request URL without the query params.
+     */
+    url: string;
+    /**
+     * HTTP status of the response.
+     */
+    status: number;
+    /**
+     * Was the request successful.
+     */
+    success: boolean;
+    /**
+     * Redacted changes in the request.
+     */
+    changes: AuditLogChangeInterface[];
+}
+
+/**
+ * Interface for the filter used to query the audit log.
+ */
+export interface AuditLogFilterInterface {
+    /**
+     * Text to match against the actor, resource id and URL.
+     */
+    search?: string;
+    /**
+     * Operation to filter by.
+     */
+    operation?: AuditLogOperations;
+    /**
+     * Resource type to filter by.
+     */
+    resourceType?: AuditLogResourceTypes;
+    /**
+     * Only include the entries recorded on or after this time.
+     */
+    from?: number;
+    /**
+     * Only include the entries recorded on or before this time.
+     */
+    to?: number;
+}
+
+/**
+ * Interface for a destination of the audit log entries.
+ */
+export interface AuditLogSinkInterface {
+    /**
+     * Writes an entry to the sink.
+     *
+     * @param {AuditLogEntryInterface} entry - Entry to write.
+     * @return {Promise<void>}
+     */
+    write(entry: AuditLogEntryInterface): Promise<void>;
+}
+
+/**
+ * Interface for the audit log configurations.
+ */
+export interface AuditLogConfigInterface {
+    /**
+     * Should the admin actions be recorded.
+     */
+    enabled?: boolean;
+    /**
+     * Endpoint to send the entries to in addition to the local log.
+     */
+    collectorEndpoint?: string;
+    /**
+     * Maximum number of entries kept in the local log.
+     */
+    maxEntries?: number;
+}
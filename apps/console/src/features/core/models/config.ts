@@ -24,6 +24,8 @@ import {
     FeatureAccessConfigInterface
 } from "@wso2is/core/models";
 import { I18nModuleOptionsInterface } from "@wso2is/i18n";
+import { AuditLogConfigInterface } from "./audit-log";
+import { TemplateRegistryConfigInterface } from "./template-registry";
 import { ApplicationTemplateLoadingStrategies, ApplicationsResourceEndpointsInterface } from "../../applications";
 import { CertificatesResourceEndpointsInterface } from "../../certificates";
 import { ClaimResourceEndpointsInterface } from "../../claims";
@@ -162,6 +164,10 @@ export interface UIConfigInterface extends CommonUIConfigInterface<FeatureConfig
      * `REMOTE` will fetch templates from the template management REST API.
      */
     applicationTemplateLoadingStrategy?: ApplicationTemplateLoadingStrategies;
+    /**
+     * Configurations of the audit log of the admin actions.
+     */
+    auditLog?: AuditLogConfigInterface;
     /**
      * Set of authenticators to be hidden in application sign on methods.
      */
@@ -176,6 +182,10 @@ export interface UIConfigInterface extends CommonUIConfigInterface<FeatureConfig
      * `REMOTE` will fetch templates from the template management REST API.
      */
     identityProviderTemplateLoadingStrategy?: IdentityProviderTemplateLoadingStrategies;
+    /**
+     * Should the access control debug panel be shown.
+     */
+    isAccessControlPolicyDebugEnabled?: boolean;
     /**
      * Should default dialects be allowed for editing.
      */
@@ -212,6 +222,10 @@ export interface UIConfigInterface extends CommonUIConfigInterface<FeatureConfig
      * System apps list.
      */
     systemAppsIdentifiers: string[];
+    /**
+     * Configurations of the registry to load the application and IDP templates from.
+     */
+    templateRegistry?: TemplateRegistryConfigInterface;
     /**
      * Show App Switch button in the Header.
      */
@@ -16,9 +16,11 @@
  * under the License.
  */
 
+export * from "./audit-log";
 export * from "./config";
 export * from "./help-panel";
 export * from "./reducer-state";
+export * from "./template-registry";
 export * from "./user-store";
 export * from "./users";
 export * from "./cors-configurations";
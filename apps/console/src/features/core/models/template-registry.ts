@@ -0,0 +1,116 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+/**
+ * Types of the templates served by the template registry.
+ * The values are the keys of the template lists in the registry index.
+ * @readonly
+ * @enum {string}
+ */
+export enum TemplateRegistryResourceTypes {
+    APPLICATION = "applications",
+    IDENTITY_PROVIDER = "identityProviders"
+}
+
+/**
+ * Interface for the template registry configurations.
+ */
+export interface TemplateRegistryConfigInterface {
+    /**
+     * Should the templates be loaded from the registry.
+     */
+    enabled: boolean;
+    /**
+     * URL of the registry index. Relative URLs are resolved against the app base, which allows
+     * serving the registry from a folder deployed along with the app.
+     * ex: `https://templates.example.com/index.json` or `/resources/template-registry/index.json`.
+     */
+    url: string;
+}
+
+/**
+ * Interface for the index of the template registry.
+ */
+export interface TemplateRegistryInterface {
+    /**
+     * Version of the registry format. ex: `1.0.0`.
+     */
+    version: string;
+    /**
+     * Application templates.
+     */
+    applications?: TemplateRegistryEntryInterface[];
+    /**
+     * Identity provider templates.
+     */
+    identityProviders?: TemplateRegistryEntryInterface[];
+}
+
+/**
+ * Interface for a template listed in the registry index.
+ */
+export interface TemplateRegistryEntryInterface {
+    /**
+     * Id of the template. A template with the same id in the app is replaced by the registry template.
+     */
+    id: string;
+    /**
+     * Version of the template. ex: `1.2.0`.
+     */
+    version: string;
+    /**
+     * Path of the template file. Relative paths are resolved against the registry index.
+     */
+    path?: string;
+    /**
+     * Inline template. Used when the `path` is not defined.
+     */
+    template?: Record<string, unknown>;
+}
+
+/**
+ * Interface for a template which could not be loaded from the registry.
+ */
+export interface TemplateRegistryIssueInterface {
+    /**
+     * Id of the template if available.
+     */
+    id?: string;
+    /**
+     * Location of the template. ex: `index.json#applications[2]`.
+     */
+    source: string;
+    /**
+     * Descriptions of the problems.
+     */
+    errors: string[];
+}
+
+/**
+ * Interface for the templates loaded from the registry.
+ */
+export interface TemplateRegistryResultInterface<T> {
+    /**
+     * Valid templates.
+     */
+    templates: T[];
+    /**
+     * Templates which could not be loaded.
+     */
+    issues: TemplateRegistryIssueInterface[];
+}
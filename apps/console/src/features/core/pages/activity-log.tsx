@@ -0,0 +1,576 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { AlertLevels, TestableComponentInterface } from "@wso2is/core/models";
+import { addAlert } from "@wso2is/core/store";
+import {
+    ConfirmationModal,
+    EmptyPlaceholder,
+    ListLayout,
+    PageLayout,
+    SecondaryButton
+} from "@wso2is/react-components";
+import { saveAs } from "file-saver";
+import React, { FunctionComponent, MouseEvent, ReactElement, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import {
+    Button,
+    DropdownItemProps,
+    DropdownProps,
+    Form,
+    Icon,
+    Input,
+    Label,
+    PaginationProps,
+    SemanticCOLORS,
+    Table
+} from "semantic-ui-react";
+import { getEmptyPlaceholderIllustrations } from "../configs";
+import { AuditLogConstants, UIConstants } from "../constants";
+import {
+    AuditLogChangeInterface,
+    AuditLogEntryInterface,
+    AuditLogExportFormats,
+    AuditLogFilterInterface,
+    AuditLogOperations,
+    AuditLogResourceTypes
+} from "../models";
+import { AuditLogUtils } from "../utils";
+
+/**
+ * Props for the Activity log page.
+ */
+type ActivityLogPageInterface = TestableComponentInterface;
+
+/**
+ * Date range selected in the filters. Dates are in the `YYYY-MM-DD` format.
+ */
+interface ActivityLogDateRangeInterface {
+    from?: string;
+    to?: string;
+}
+
+/**
+ * Lists the admin actions performed through the console.
+ *
+ * @param {ActivityLogPageInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+const ActivityLogPage: FunctionComponent<ActivityLogPageInterface> = (
+    props: ActivityLogPageInterface
+): ReactElement => {
+
+    const {
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const dispatch = useDispatch();
+
+    const [ entries, setEntries ] = useState<AuditLogEntryInterface[]>([]);
+    const [ isLoading, setIsLoading ] = useState<boolean>(false);
+    const [ filter, setFilter ] = useState<AuditLogFilterInterface>({});
+    const [ dateRange, setDateRange ] = useState<ActivityLogDateRangeInterface>({});
+    const [ listItemLimit, setListItemLimit ] = useState<number>(UIConstants.DEFAULT_RESOURCE_LIST_ITEM_LIMIT);
+    const [ offset, setOffset ] = useState<number>(0);
+    const [ expandedEntry, setExpandedEntry ] = useState<string>(null);
+    const [ showClearConfirmation, setShowClearConfirmation ] = useState<boolean>(false);
+
+    const filteredEntries: AuditLogEntryInterface[] = useMemo(() => {
+        return AuditLogUtils.filterEntries(entries, {
+            ...filter,
+            from: dateRange.from ? new Date(`${ dateRange.from }T00:00:00`).getTime() : undefined,
+            to: dateRange.to ? new Date(`${ dateRange.to }T23:59:59.999`).getTime() : undefined
+        });
+    }, [ entries, filter, dateRange ]);
+
+    const operationOptions: DropdownItemProps[] = useMemo(() => {
+        return Object.values(AuditLogOperations).map((operation: AuditLogOperations) => ({
+            key: operation,
+            text: t("console:manage.features.activityLog.operations." + operation.toLowerCase()),
+            value: operation
+        }));
+    }, [ t ]);
+
+    const resourceTypeOptions: DropdownItemProps[] = useMemo(() => {
+        return Object.values(AuditLogResourceTypes).map((resourceType: AuditLogResourceTypes) => ({
+            key: resourceType,
+            text: t("console:manage.features.activityLog.resourceTypes." + resourceType),
+            value: resourceType
+        }));
+    }, [ t ]);
+
+    useEffect(() => {
+        getEntries();
+    }, []);
+
+    /**
+     * Resets the pagination when the filters change.
+     */
+    useEffect(() => {
+        setOffset(0);
+    }, [ filter, dateRange ]);
+
+    /**
+     * Retrieves the entries in the local log.
+     */
+    const getEntries = (): void => {
+        setIsLoading(true);
+
+        AuditLogUtils.getEntries()
+            .then((response: AuditLogEntryInterface[]) => {
+                setEntries(response);
+            })
+            .catch(() => {
+                dispatch(addAlert({
+                    description: t("console:manage.features.activityLog.notifications.getEntries.genericError" +
+                        ".description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.activityLog.notifications.getEntries.genericError.message")
+                }));
+            })
+            .finally(() => {
+                setIsLoading(false);
+            });
+    };
+
+    /**
+     * Exports the filtered entries.
+     *
+     * @param {AuditLogExportFormats} format - Export format.
+     */
+    const handleExport = (format: AuditLogExportFormats): void => {
+        const blob: Blob = new Blob([ AuditLogUtils.serialize(filteredEntries, format) ], {
+            type: AuditLogConstants.EXPORT_MIME_TYPES.get(format)
+        });
+
+        saveAs(blob, `${ AuditLogConstants.EXPORT_FILE_NAME }.${ format }`);
+    };
+
+    /**
+     * Removes all the entries in the local log.
+     */
+    const handleClear = (): void => {
+        setShowClearConfirmation(false);
+
+        AuditLogUtils.clearEntries()
+            .then(() => {
+                setEntries([]);
+                dispatch(addAlert({
+                    description: t("console:manage.features.activityLog.notifications.clearEntries.success" +
+                        ".description"),
+                    level: AlertLevels.SUCCESS,
+                    message: t("console:manage.features.activityLog.notifications.clearEntries.success.message")
+                }));
+            })
+            .catch(() => {
+                dispatch(addAlert({
+                    description: t("console:manage.features.activityLog.notifications.clearEntries.genericError" +
+                        ".description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.activityLog.notifications.clearEntries.genericError" +
+                        ".message")
+                }));
+            });
+    };
+
+    /**
+     * Handles the change in the number of items to display.
+     *
+     * @param {React.MouseEvent<HTMLAnchorElement>} event - Event.
+     * @param {DropdownProps} data - Dropdown data.
+     */
+    const handleItemsPerPageDropdownChange = (event: MouseEvent<HTMLAnchorElement>, data: DropdownProps): void => {
+
+        setListItemLimit(data.value as number);
+    };
+
+    /**
+     * Handles pagination change.
+     *
+     * @param {React.MouseEvent<HTMLAnchorElement>} event - Event.
+     * @param {PaginationProps} data - Pagination data.
+     */
+    const handlePaginationChange = (event: MouseEvent<HTMLAnchorElement>, data: PaginationProps): void => {
+
+        setOffset((data.activePage as number - 1) * listItemLimit);
+    };
+
+    /**
+     * Resolves the label color of an operation.
+     *
+     * @param {AuditLogOperations} operation - Operation.
+     * @return {SemanticCOLORS} A semantic color instance.
+     */
+    const resolveOperationColor = (operation: AuditLogOperations): SemanticCOLORS => {
+        switch (operation) {
+            case AuditLogOperations.CREATE:
+                return "green";
+            case AuditLogOperations.DELETE:
+                return "red";
+            default:
+                return "blue";
+        }
+    };
+
+    /**
+     * Renders the filters.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderFilters = (): ReactElement => (
+        <Form className="mb-3" data-testid={ `${ testId }-filters` }>
+            <Form.Group widths="equal">
+                <Form.Dropdown
+                    selection
+                    clearable
+                    label={ t("console:manage.features.activityLog.filters.operation.label") }
+                    placeholder={ t("console:manage.features.activityLog.filters.operation.placeholder") }
+                    options={ operationOptions }
+                    value={ filter.operation ?? "" }
+                    onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                        setFilter({ ...filter, operation: (value as AuditLogOperations) || undefined });
+                    } }
+                    data-testid={ `${ testId }-operation-filter` }
+                />
+                <Form.Dropdown
+                    search
+                    selection
+                    clearable
+                    label={ t("console:manage.features.activityLog.filters.resourceType.label") }
+                    placeholder={ t("console:manage.features.activityLog.filters.resourceType.placeholder") }
+                    options={ resourceTypeOptions }
+                    value={ filter.resourceType ?? "" }
+                    onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                        setFilter({ ...filter, resourceType: (value as AuditLogResourceTypes) || undefined });
+                    } }
+                    data-testid={ `${ testId }-resource-type-filter` }
+                />
+                <Form.Input
+                    type="date"
+                    label={ t("console:manage.features.activityLog.filters.from.label") }
+                    max={ dateRange.to }
+                    value={ dateRange.from ?? "" }
+                    onChange={ (e: React.ChangeEvent<HTMLInputElement>, { value }) => {
+                        setDateRange({ ...dateRange, from: value || undefined });
+                    } }
+                    data-testid={ `${ testId }-from-filter` }
+                />
+                <Form.Input
+                    type="date"
+                    label={ t("console:manage.features.activityLog.filters.to.label") }
+                    min={ dateRange.from }
+                    value={ dateRange.to ?? "" }
+                    onChange={ (e: React.ChangeEvent<HTMLInputElement>, { value }) => {
+                        setDateRange({ ...dateRange, to: value || undefined });
+                    } }
+                    data-testid={ `${ testId }-to-filter` }
+                />
+            </Form.Group>
+        </Form>
+    );
+
+    /**
+     * Renders the changes recorded in an entry.
+     *
+     * @param {AuditLogEntryInterface} entry - Audit log entry.
+     * @return {React.ReactElement}
+     */
+    const renderChanges = (entry: AuditLogEntryInterface): ReactElement => {
+
+        if (entry.changes.length === 0) {
+            return (
+                <p className="mb-0">
+                    { t("console:manage.features.activityLog.placeholders.emptyChanges") }
+                </p>
+            );
+        }
+
+        return (
+            <Table compact basic="very" data-testid={ `${ testId }-changes` }>
+                <Table.Header>
+                    <Table.Row>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.activityLog.changes.path") }
+                        </Table.HeaderCell>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.activityLog.changes.previousValue") }
+                        </Table.HeaderCell>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.activityLog.changes.currentValue") }
+                        </Table.HeaderCell>
+                    </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                    {
+                        entry.changes.map((change: AuditLogChangeInterface) => (
+                            <Table.Row key={ change.path }>
+                                <Table.Cell><code>{ change.path }</code></Table.Cell>
+                                <Table.Cell negative={ change.previousValue !== undefined }>
+                                    { change.previousValue ?? "-" }
+                                </Table.Cell>
+                                <Table.Cell positive={ change.currentValue !== undefined }>
+                                    { change.currentValue ?? "-" }
+                                </Table.Cell>
+                            </Table.Row>
+                        ))
+                    }
+                </Table.Body>
+            </Table>
+        );
+    };
+
+    /**
+     * Renders the list of entries.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderEntries = (): ReactElement => {
+
+        if (isLoading) {
+            return null;
+        }
+
+        if (entries.length === 0) {
+            return (
+                <EmptyPlaceholder
+                    image={ getEmptyPlaceholderIllustrations().emptyList }
+                    imageSize="tiny"
+                    title={ t("console:manage.features.activityLog.placeholders.emptyList.title") }
+                    subtitle={ [ t("console:manage.features.activityLog.placeholders.emptyList.subtitles") ] }
+                    data-testid={ `${ testId }-empty-placeholder` }
+                />
+            );
+        }
+
+        if (filteredEntries.length === 0) {
+            return (
+                <EmptyPlaceholder
+                    image={ getEmptyPlaceholderIllustrations().emptySearch }
+                    imageSize="tiny"
+                    title={ t("console:manage.features.activityLog.placeholders.emptySearchResults.title") }
+                    subtitle={ [
+                        t("console:manage.features.activityLog.placeholders.emptySearchResults.subtitles")
+                    ] }
+                    data-testid={ `${ testId }-empty-search-placeholder` }
+                />
+            );
+        }
+
+        return (
+            <Table selectable data-testid={ `${ testId }-table` }>
+                <Table.Header>
+                    <Table.Row>
+                        <Table.HeaderCell collapsing/>
+                        <Table.HeaderCell>{ t("console:manage.features.activityLog.columns.time") }</Table.HeaderCell>
+                        <Table.HeaderCell>{ t("console:manage.features.activityLog.columns.actor") }</Table.HeaderCell>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.activityLog.columns.operation") }
+                        </Table.HeaderCell>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.activityLog.columns.resource") }
+                        </Table.HeaderCell>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.activityLog.columns.status") }
+                        </Table.HeaderCell>
+                    </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                    {
+                        paginate(filteredEntries, listItemLimit, offset).map((entry: AuditLogEntryInterface) => {
+                            const isExpanded: boolean = expandedEntry === entry.id;
+
+                            return (
+                                <React.Fragment key={ entry.id }>
+                                    <Table.Row
+                                        onClick={ () => setExpandedEntry(isExpanded ? null : entry.id) }
+                                        data-testid={ `${ testId }-entry` }
+                                    >
+                                        <Table.Cell collapsing>
+                                            <Icon name={ isExpanded ? "caret down" : "caret right" }/>
+                                        </Table.Cell>
+                                        <Table.Cell>{ new Date(entry.timestamp).toLocaleString() }</Table.Cell>
+                                        <Table.Cell>{ entry.actor }</Table.Cell>
+                                        <Table.Cell>
+                                            <Label size="mini" color={ resolveOperationColor(entry.operation) }>
+                                                {
+                                                    t("console:manage.features.activityLog.operations."
+                                                        + entry.operation.toLowerCase())
+                                                }
+                                            </Label>
+                                        </Table.Cell>
+                                        <Table.Cell>
+                                            { t("console:manage.features.activityLog.resourceTypes."
+                                                + entry.resourceType) }
+                                            { entry.resourceId && <code className="ml-1">{ entry.resourceId }</code> }
+                                        </Table.Cell>
+                                        <Table.Cell error={ !entry.success }>
+                                            {
+                                                entry.success
+                                                    ? t("console:manage.features.activityLog.status.success")
+                                                    : t("console:manage.features.activityLog.status.failure",
+                                                        { status: entry.status })
+                                            }
+                                        </Table.Cell>
+                                    </Table.Row>
+                                    {
+                                        isExpanded && (
+                                            <Table.Row active>
+                                                <Table.Cell/>
+                                                <Table.Cell colSpan={ 5 }>
+                                                    <p>
+                                                        <code>{ entry.method } { entry.url }</code>
+                                                    </p>
+                                                    { renderChanges(entry) }
+                                                </Table.Cell>
+                                            </Table.Row>
+                                        )
+                                    }
+                                </React.Fragment>
+                            );
+                        })
+                    }
+                </Table.Body>
+            </Table>
+        );
+    };
+
+    /**
+     * This slices and returns a portion of the list.
+     *
+     * @param {AuditLogEntryInterface[]} list - List.
+     * @param {number} limit - List limit.
+     * @param {number} offset - List offset.
+     * @return {AuditLogEntryInterface[]} Paginated list.
+     */
+    const paginate = (list: AuditLogEntryInterface[], limit: number,
+                      offset: number): AuditLogEntryInterface[] => {
+
+        return list?.slice(offset, offset + limit);
+    };
+
+    return (
+        <PageLayout
+            title={ t("console:manage.pages.activityLog.title") }
+            description={ t("console:manage.pages.activityLog.subTitle") }
+            data-testid={ `${ testId }-page-layout` }
+        >
+            <ListLayout
+                currentListSize={ listItemLimit }
+                listItemLimit={ listItemLimit }
+                onItemsPerPageDropdownChange={ handleItemsPerPageDropdownChange }
+                onPageChange={ handlePaginationChange }
+                showPagination={ filteredEntries.length > 0 }
+                showTopActionPanel={ isLoading || entries.length > 0 }
+                totalPages={ Math.ceil(filteredEntries.length / listItemLimit) }
+                totalListSize={ filteredEntries.length }
+                data-testid={ `${ testId }-list-layout` }
+                rightActionPanel={
+                    <>
+                        <Button.Group basic size="small" data-testid={ `${ testId }-export-buttons` }>
+                            <Button
+                                disabled={ filteredEntries.length === 0 }
+                                onClick={ () => handleExport(AuditLogExportFormats.CSV) }
+                                data-testid={ `${ testId }-export-csv-button` }
+                            >
+                                <Icon name="download"/>
+                                { t("console:manage.features.activityLog.buttons.exportCSV") }
+                            </Button>
+                            <Button
+                                disabled={ filteredEntries.length === 0 }
+                                onClick={ () => handleExport(AuditLogExportFormats.JSON) }
+                                data-testid={ `${ testId }-export-json-button` }
+                            >
+                                <Icon name="download"/>
+                                { t("console:manage.features.activityLog.buttons.exportJSON") }
+                            </Button>
+                        </Button.Group>
+                        <SecondaryButton
+                            className="ml-2"
+                            onClick={ () => setShowClearConfirmation(true) }
+                            data-testid={ `${ testId }-clear-button` }
+                        >
+                            <Icon name="trash alternate outline"/>
+                            { t("console:manage.features.activityLog.buttons.clear") }
+                        </SecondaryButton>
+                    </>
+                }
+                leftActionPanel={
+                    <div className="advanced-search-wrapper aligned-left fill-default">
+                        <Input
+                            className="advanced-search with-add-on"
+                            icon="search"
+                            iconPosition="left"
+                            value={ filter.search ?? "" }
+                            onChange={ (e: React.ChangeEvent<HTMLInputElement>, { value }) => {
+                                setFilter({ ...filter, search: value });
+                            } }
+                            placeholder={ t("console:manage.features.activityLog.filters.search.placeholder") }
+                            floated="right"
+                            size="small"
+                            data-testid={ `${ testId }-search-input` }
+                        />
+                    </div>
+                }
+            >
+                { entries.length > 0 && renderFilters() }
+                { renderEntries() }
+            </ListLayout>
+            <ConfirmationModal
+                data-testid={ `${ testId }-clear-confirmation-modal` }
+                onClose={ (): void => setShowClearConfirmation(false) }
+                type="negative"
+                open={ showClearConfirmation }
+                assertionHint={ t("console:manage.features.activityLog.confirmations.clear.assertionHint") }
+                assertionType="checkbox"
+                primaryAction={ t("common:confirm") }
+                secondaryAction={ t("common:cancel") }
+                onSecondaryActionClick={ (): void => setShowClearConfirmation(false) }
+                onPrimaryActionClick={ handleClear }
+                closeOnDimmerClick={ false }
+            >
+                <ConfirmationModal.Header>
+                    { t("console:manage.features.activityLog.confirmations.clear.header") }
+                </ConfirmationModal.Header>
+                <ConfirmationModal.Message attached negative>
+                    { t("console:manage.features.activityLog.confirmations.clear.message") }
+                </ConfirmationModal.Message>
+                <ConfirmationModal.Content>
+                    { t("console:manage.features.activityLog.confirmations.clear.content") }
+                </ConfirmationModal.Content>
+            </ConfirmationModal>
+        </PageLayout>
+    );
+};
+
+/**
+ * Default props for the component.
+ */
+ActivityLogPage.defaultProps = {
+    "data-testid": "activity-log"
+};
+
+/**
+ * A default export was added to support React.lazy.
+ * TODO: Change this to a named export once react starts supporting named exports for code splitting.
+ * @see {@link https://reactjs.org/docs/code-splitting.html#reactlazy}
+ */
+export default ActivityLogPage;
@@ -16,6 +16,7 @@
  * under the License.
  */
 
+export * from "./activity-log";
 export * from "./customize";
 export * from "./errors";
 export * from "./privacy";
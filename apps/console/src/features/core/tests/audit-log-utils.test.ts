@@ -0,0 +1,60 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { AuditLogEntryInterface, AuditLogExportFormats, AuditLogOperations, AuditLogResourceTypes } from "../models";
+import { AuditLogUtils } from "../utils/audit-log-utils";
+
+jest.mock("../store", () => ({
+    store: {}
+}));
+
+describe("Audit log export util function", () => {
+
+    test("Should neutralize the logged values which would be evaluated as formulae", () => {
+        const entry: AuditLogEntryInterface = {
+            actor: "=HYPERLINK(\"https://example.com\", \"john\")",
+            changes: [ { currentValue: "@SUM(A1)", path: "name.givenName", previousValue: "John" } ],
+            id: "1",
+            method: "PATCH",
+            operation: AuditLogOperations.UPDATE,
+            resourceId: "+1",
+            resourceType: AuditLogResourceTypes.USER,
+            status: 200,
+            success: true,
+            tenant: "carbon.super",
+            timestamp: Date.UTC(2021, 5, 1),
+            url: "-2+3"
+        };
+
+        const [ , line ] = AuditLogUtils.serialize([ entry ], AuditLogExportFormats.CSV).split("\r\n");
+
+        expect(line).toBe([
+            "2021-06-01T00:00:00.000Z",
+            "\"'=HYPERLINK(\"\"https://example.com\"\", \"\"john\"\")\"",
+            "carbon.super",
+            AuditLogOperations.UPDATE,
+            "PATCH",
+            AuditLogResourceTypes.USER,
+            "'+1",
+            "200",
+            "'-2+3",
+            "name.givenName: John -> @SUM(A1)"
+        ].join(","));
+    });
+});
@@ -16,11 +16,17 @@
  * under the License.
  */
 
-import { StorageIdentityAppsSettingsInterface } from "@wso2is/core/models";
+import { AccessControlPolicyContextInterface } from "@wso2is/access-control";
+import {
+    FeatureAccessConfigInterface,
+    ProfileInfoInterface,
+    StorageIdentityAppsSettingsInterface
+} from "@wso2is/core/models";
 import { LocalStorageUtils } from "@wso2is/core/utils";
 import cloneDeep from "lodash-es/cloneDeep";
 import get from "lodash-es/get";
 import isEmpty from "lodash-es/isEmpty";
+import { ConfigReducerStateInterface } from "../models";
 import { store } from "../store";
 
 /**
@@ -118,4 +124,38 @@ export class AppUtils {
 
         this.setUserPreferences(newPref);
     }
+
+    /**
+     * Builds the facts used to evaluate the access control policies.
+     * Enabled state of each feature in the UI config is exposed as a feature flag.
+     *
+     * @param {ConfigReducerStateInterface} config - App config.
+     * @param {ProfileInfoInterface} profileInfo - Profile of the logged in user.
+     * @return {AccessControlPolicyContextInterface}
+     */
+    public static getAccessControlPolicyContext(
+        config: ConfigReducerStateInterface,
+        profileInfo: ProfileInfoInterface
+    ): AccessControlPolicyContextInterface {
+
+        const featureFlags: Record<string, boolean> = {};
+
+        Object.entries(config?.ui?.features ?? {})
+            .forEach(([ key, feature ]: [ string, FeatureAccessConfigInterface ]) => {
+                featureFlags[ key ] = feature?.enabled !== false;
+            });
+
+        return {
+            attributes: {
+                profile: profileInfo,
+                tenant: {
+                    domain: config?.deployment?.tenant
+                }
+            },
+            featureFlags,
+            groups: (profileInfo?.groups ?? []).map((group: { display: string }) => group.display),
+            roles: (profileInfo?.roles ?? []).map((role: { display: string }) => role.display),
+            serverVersion: config?.deployment?.productVersion
+        };
+    }
 }
@@ -0,0 +1,204 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import axios from "axios";
+import { AuditLogConstants } from "../constants";
+import { AuditLogEntryInterface, AuditLogSinkInterface } from "../models";
+
+/**
+ * Keeps the audit log entries in a bounded IndexedDB object store of the browser.
+ */
+export class IndexedDBAuditLogSink implements AuditLogSinkInterface {
+
+    private readonly maxEntries: number;
+    private database: Promise<IDBDatabase>;
+
+    /**
+     * Constructor.
+     *
+     * @param {number} maxEntries - Maximum number of entries to keep. Oldest entries are removed first.
+     */
+    constructor(maxEntries: number = AuditLogConstants.DEFAULT_MAX_ENTRIES) {
+
+        this.maxEntries = maxEntries;
+    }
+
+    /**
+     * Writes an entry and removes the oldest entries exceeding the limit.
+     *
+     * @param {AuditLogEntryInterface} entry - Entry to write.
+     * @return {Promise<void>}
+     */
+    public write(entry: AuditLogEntryInterface): Promise<void> {
+
+        return this.transaction("readwrite", (store: IDBObjectStore) => store.put(entry))
+            .then(() => this.trim());
+    }
+
+    /**
+     * Retrieves all the entries. Latest entry is first.
+     *
+     * @return {Promise<AuditLogEntryInterface[]>}
+     */
+    public getEntries(): Promise<AuditLogEntryInterface[]> {
+
+        return this.transaction<AuditLogEntryInterface[]>("readonly", (store: IDBObjectStore) => {
+            return store.index(AuditLogConstants.TIMESTAMP_INDEX_NAME).getAll();
+        })
+            .then((entries: AuditLogEntryInterface[]) => (entries ?? []).reverse());
+    }
+
+    /**
+     * Removes all the entries.
+     *
+     * @return {Promise<void>}
+     */
+    public clear(): Promise<void> {
+
+        return this.transaction("readwrite", (store: IDBObjectStore) => store.clear())
+            .then(() => undefined);
+    }
+
+    /**
+     * Removes the oldest entries exceeding the limit.
+     *
+     * @return {Promise<void>}
+     */
+    private trim(): Promise<void> {
+
+        return this.transaction<number>("readonly", (store: IDBObjectStore) => store.count())
+            .then((count: number) => {
+                let excess: number = count - this.maxEntries;
+
+                if (excess <= 0) {
+                    return;
+                }
+
+                return this.transaction("readwrite", (store: IDBObjectStore) => {
+                    const request: IDBRequest<IDBCursorWithValue> = store
+                        .index(AuditLogConstants.TIMESTAMP_INDEX_NAME)
+                        .openCursor();
+
+                    request.onsuccess = () => {
+                        const cursor: IDBCursorWithValue = request.result;
+
+                        if (!cursor || excess <= 0) {
+                            return;
+                        }
+
+                        cursor.delete();
+                        excess--;
+                        cursor.continue();
+                    };
+
+                    return request;
+                })
+                    .then(() => undefined);
+            });
+    }
+
+    /**
+     * Runs a request in a transaction of the entries store.
+     *
+     * @param {IDBTransactionMode} mode - Transaction mode.
+     * @param {(store: IDBObjectStore) => IDBRequest} operation - Creates the request.
+     * @return {Promise<T>} Resolves with the result of the request once the transaction completes.
+     */
+    private transaction<T = unknown>(mode: IDBTransactionMode,
+                                     operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+
+        return this.open()
+            .then((database: IDBDatabase) => new Promise<T>((resolve, reject) => {
+                const transaction: IDBTransaction = database.transaction(AuditLogConstants.ENTRIES_STORE_NAME, mode);
+                const request: IDBRequest = operation(transaction.objectStore(AuditLogConstants.ENTRIES_STORE_NAME));
+
+                transaction.oncomplete = () => resolve(request.result);
+                transaction.onerror = () => reject(transaction.error);
+                transaction.onabort = () => reject(transaction.error);
+            }));
+    }
+
+    /**
+     * Opens the database. The connection is reused by the subsequent operations.
+     *
+     * @return {Promise<IDBDatabase>}
+     */
+    private open(): Promise<IDBDatabase> {
+
+        if (this.database) {
+            return this.database;
+        }
+
+        if (typeof indexedDB === "undefined") {
+            return Promise.reject(new Error("IndexedDB is not supported by the browser."));
+        }
+
+        this.database = new Promise<IDBDatabase>((resolve, reject) => {
+            const request: IDBOpenDBRequest = indexedDB.open(AuditLogConstants.DATABASE_NAME, 1);
+
+            request.onupgradeneeded = () => {
+                request.result
+                    .createObjectStore(AuditLogConstants.ENTRIES_STORE_NAME, { keyPath: "id" })
+                    .createIndex(AuditLogConstants.TIMESTAMP_INDEX_NAME, "timestamp");
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                this.database = null;
+                reject(request.error);
+            };
+        });
+
+        return this.database;
+    }
+}
+
+/**
+ * Sends the audit log entries to an external HTTP collector.
+ */
+export class HttpAuditLogSink implements AuditLogSinkInterface {
+
+    private readonly endpoint: string;
+
+    /**
+     * Constructor.
+     *
+     * @param {string} endpoint - Endpoint of the collector.
+     */
+    constructor(endpoint: string) {
+
+        this.endpoint = endpoint;
+    }
+
+    /**
+     * Posts an entry to the collector. A plain HTTP client is used so that the request
+     * doesn't go through the audited client.
+     *
+     * @param {AuditLogEntryInterface} entry - Entry to send.
+     * @return {Promise<void>}
+     */
+    public write(entry: AuditLogEntryInterface): Promise<void> {
+
+        return axios.post(this.endpoint, entry, {
+            headers: {
+                "Content-Type": "application/json"
+            }
+        })
+            .then(() => undefined);
+    }
+}
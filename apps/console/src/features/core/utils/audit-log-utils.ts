@@ -0,0 +1,486 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { CSVUtils } from "@wso2is/core/utils";
+import { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import { HttpAuditLogSink, IndexedDBAuditLogSink } from "./audit-log-sinks";
+import { AuditLogConstants } from "../constants";
+import {
+    AuditLogChangeInterface,
+    AuditLogConfigInterface,
+    AuditLogEntryInterface,
+    AuditLogExportFormats,
+    AuditLogFilterInterface,
+    AuditLogOperations,
+    AuditLogResourceTypes,
+    AuditLogSinkInterface
+} from "../models";
+import { store } from "../store";
+
+/**
+ * Utility class to record the admin actions performed through the console.
+ */
+export class AuditLogUtils {
+
+    private static localLog: IndexedDBAuditLogSink;
+    private static sinks: AuditLogSinkInterface[];
+    private static resourceStates: Map<string, unknown> = new Map();
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Registers an additional destination for the audit log entries.
+     *
+     * @param {AuditLogSinkInterface} sink - Sink to register.
+     */
+    public static registerSink(sink: AuditLogSinkInterface): void {
+
+        AuditLogUtils.getSinks().push(sink);
+    }
+
+    /**
+     * Callback to be fired on every successful Http response.
+     *
+     * @param {AxiosResponse} response - Http response.
+     */
+    public static onHttpResponse(response: AxiosResponse): void {
+
+        if (!response?.config) {
+            return;
+        }
+
+        AuditLogUtils.record(response.config, response.status, response);
+    }
+
+    /**
+     * Callback to be fired on every failed Http request.
+     *
+     * @param {AxiosError} error - Http error.
+     */
+    public static onHttpError(error: AxiosError): void {
+
+        if (!error?.config) {
+            return;
+        }
+
+        AuditLogUtils.record(error.config, error.response?.status ?? 0);
+    }
+
+    /**
+     * Retrieves the entries in the local log. Latest entry is first.
+     *
+     * @param {AuditLogFilterInterface} filter - Filter to apply.
+     * @return {Promise<AuditLogEntryInterface[]>}
+     */
+    public static getEntries(filter?: AuditLogFilterInterface): Promise<AuditLogEntryInterface[]> {
+
+        AuditLogUtils.getSinks();
+
+        return AuditLogUtils.localLog.getEntries()
+            .then((entries: AuditLogEntryInterface[]) => AuditLogUtils.filterEntries(entries, filter));
+    }
+
+    /**
+     * Removes all the entries in the local log.
+     *
+     * @return {Promise<void>}
+     */
+    public static clearEntries(): Promise<void> {
+
+        AuditLogUtils.getSinks();
+
+        return AuditLogUtils.localLog.clear();
+    }
+
+    /**
+     * Filters a set of entries.
+     *
+     * @param {AuditLogEntryInterface[]} entries - Entries to filter.
+     * @param {AuditLogFilterInterface} filter - Filter to apply.
+     * @return {AuditLogEntryInterface[]} Matching entries.
+     */
+    public static filterEntries(entries: AuditLogEntryInterface[],
+                                filter: AuditLogFilterInterface = {}): AuditLogEntryInterface[] {
+
+        const search: string = filter.search?.trim().toLowerCase();
+
+        return entries.filter((entry: AuditLogEntryInterface) => {
+            if (filter.operation && entry.operation !== filter.operation) {
+                return false;
+            }
+
+            if (filter.resourceType && entry.resourceType !== filter.resourceType) {
+                return false;
+            }
+
+            if ((filter.from && entry.timestamp < filter.from) || (filter.to && entry.timestamp > filter.to)) {
+                return false;
+            }
+
+            return !search || [ entry.actor, entry.resourceId, entry.url ].some((value: string) => {
+                return value?.toLowerCase().includes(search);
+            });
+        });
+    }
+
+    /**
+     * Resolves the type and the id of the resource from a request URL.
+     *
+     * @param {string} url - Request URL.
+     * @return {{ resourceId: string, resourceType: AuditLogResourceTypes }}
+     */
+    public static resolveResource(url: string): { resourceId: string; resourceType: AuditLogResourceTypes } {
+
+        const segments: string[] = AuditLogUtils.getPath(url).split("/").filter(Boolean);
+
+        for (let index: number = segments.length - 1; index >= 0; index--) {
+            if (AuditLogConstants.RESOURCE_PATH_SEGMENTS.has(segments[ index ])) {
+                return {
+                    resourceId: segments[ index + 1 ] ? decodeURIComponent(segments[ index + 1 ]) : null,
+                    resourceType: AuditLogConstants.RESOURCE_PATH_SEGMENTS.get(segments[ index ])
+                };
+            }
+        }
+
+        return {
+            resourceId: null,
+            resourceType: AuditLogResourceTypes.OTHER
+        };
+    }
+
+    /**
+     * Calculates the changes between two states of a resource. Sensitive values are redacted
+     * and long values are truncated.
+     *
+     * @param {unknown} previous - Previous state. Pass `undefined` if not known.
+     * @param {unknown} current - Current state. Pass `undefined` if the resource was removed.
+     * @param {boolean} partial - If true, only the attributes present in the current state are compared.
+     * @return {AuditLogChangeInterface[]} Changes.
+     */
+    public static getChanges(previous: unknown, current: unknown, partial: boolean = false): AuditLogChangeInterface[] {
+
+        const previousValues: Map<string, string> = AuditLogUtils.flatten(previous);
+        const currentValues: Map<string, string> = AuditLogUtils.flatten(current);
+        const paths: string[] = partial
+            ? Array.from(currentValues.keys())
+            : Array.from(new Set([ ...previousValues.keys(), ...currentValues.keys() ]));
+
+        return paths
+            .filter((path: string) => previousValues.get(path) !== currentValues.get(path))
+            .slice(0, AuditLogConstants.MAX_CHANGES_PER_ENTRY)
+            .map((path: string) => ({
+                currentValue: AuditLogUtils.sanitizeValue(path, currentValues.get(path)),
+                path,
+                previousValue: AuditLogUtils.sanitizeValue(path, previousValues.get(path))
+            }));
+    }
+
+    /**
+     * Serializes a set of entries to be exported. Logged values are user controlled, hence the CSV fields
+     * which would be evaluated as formulae are neutralized.
+     *
+     * @param {AuditLogEntryInterface[]} entries - Entries to serialize.
+     * @param {AuditLogExportFormats} format - Export format.
+     * @return {string} Serialized entries.
+     */
+    public static serialize(entries: AuditLogEntryInterface[], format: AuditLogExportFormats): string {
+
+        if (format === AuditLogExportFormats.JSON) {
+            return JSON.stringify(entries, null, 4);
+        }
+
+        const lines: string[][] = entries.map((entry: AuditLogEntryInterface) => [
+            new Date(entry.timestamp).toISOString(),
+            entry.actor,
+            entry.tenant,
+            entry.operation,
+            entry.method,
+            entry.resourceType,
+            entry.resourceId ?? "",
+            String(entry.status),
+            entry.url,
+            entry.changes
+                .map((change: AuditLogChangeInterface) => {
+                    return `${ change.path }: ${ change.previousValue ?? "" } -> ${ change.currentValue ?? "" }`;
+                })
+                .join("; ")
+        ]);
+
+        return CSVUtils.serialize([
+            [ "timestamp", "actor", "tenant", "operation", "method", "resourceType", "resourceId", "status", "url",
+                "changes" ],
+            ...lines
+        ]);
+    }
+
+    /**
+     * Records an entry for a mutating request and keeps track of the resource states
+     * retrieved through the read requests.
+     *
+     * @param {AxiosRequestConfig} config - Request config.
+     * @param {number} status - Response status.
+     * @param {AxiosResponse} response - Response if the request was successful.
+     */
+    private static record(config: AxiosRequestConfig, status: number, response?: AxiosResponse): void {
+
+        const auditLogConfig: AuditLogConfigInterface = store.getState().config.ui.auditLog;
+
+        if (auditLogConfig?.enabled === false || !AuditLogConstants.AUDITED_PATH_REGEX.test(config.url ?? "")) {
+            return;
+        }
+
+        const method: string = (config.method ?? "GET").toUpperCase();
+        const path: string = AuditLogUtils.getPath(config.url);
+        const operation: AuditLogOperations = AuditLogConstants.MUTATING_METHODS.get(method);
+
+        if (!operation) {
+            if (response) {
+                AuditLogUtils.setResourceState(path, response.data);
+            }
+
+            return;
+        }
+
+        const body: unknown = AuditLogUtils.parseBody(config.data);
+        const previous: unknown = AuditLogUtils.resourceStates.get(path);
+        const { resourceId, resourceType } = AuditLogUtils.resolveResource(config.url);
+
+        const entry: AuditLogEntryInterface = {
+            actor: store.getState().auth?.username,
+            changes: AuditLogUtils.getRequestChanges(method, previous, body),
+            id: `${ Date.now().toString(36) }-${ Math.random().toString(36).substring(2, 10) }`,
+            method,
+            operation,
+            resourceId: resourceId ?? AuditLogUtils.getCreatedResourceId(response),
+            resourceType,
+            status,
+            success: !!response,
+            tenant: store.getState().config.deployment.tenant,
+            timestamp: Date.now(),
+            url: path
+        };
+
+        if (response) {
+            if (method === "PUT") {
+                AuditLogUtils.setResourceState(path, body);
+            } else {
+                AuditLogUtils.resourceStates.delete(path);
+            }
+        }
+
+        AuditLogUtils.getSinks().forEach((sink: AuditLogSinkInterface) => {
+            // Failing to record the entry shouldn't interrupt the admin.
+            sink.write(entry).catch(() => null);
+        });
+    }
+
+    /**
+     * Calculates the changes of a request.
+     *
+     * @param {string} method - HTTP method.
+     * @param {unknown} previous - Last known state of the resource.
+     * @param {unknown} body - Request body.
+     * @return {AuditLogChangeInterface[]} Changes.
+     */
+    private static getRequestChanges(method: string, previous: unknown, body: unknown): AuditLogChangeInterface[] {
+
+        if (method === "DELETE") {
+            return AuditLogUtils.getChanges(previous, undefined);
+        }
+
+        if (method !== "PATCH") {
+            return AuditLogUtils.getChanges(method === "PUT" ? previous : undefined, body);
+        }
+
+        // SCIM and JSON patch requests carry the list of operations instead of the attributes.
+        const operations: unknown = Array.isArray(body) ? body : (body as Record<string, unknown>)?.Operations;
+
+        if (!Array.isArray(operations)) {
+            return AuditLogUtils.getChanges(previous, body, true);
+        }
+
+        return operations
+            .map((operation: Record<string, unknown>) => {
+                const path: string = [ operation.op ?? operation.operation, operation.path ]
+                    .filter(Boolean)
+                    .join(" ");
+
+                return AuditLogUtils.getChanges(undefined, { [ path ]: operation.value ?? null });
+            })
+            .reduce((changes: AuditLogChangeInterface[], current: AuditLogChangeInterface[]) => {
+                return [ ...changes, ...current ];
+            }, [])
+            .slice(0, AuditLogConstants.MAX_CHANGES_PER_ENTRY);
+    }
+
+    /**
+     * Flattens a value to a map of attribute paths and values.
+     *
+     * @param {unknown} value - Value to flatten.
+     * @param {string} path - Path of the value.
+     * @param {Map<string, string>} result - Map to add the values to.
+     * @return {Map<string, string>} Flattened values.
+     */
+    private static flatten(value: unknown, path: string = "",
+                           result: Map<string, string> = new Map()): Map<string, string> {
+
+        if (value === undefined) {
+            return result;
+        }
+
+        if (value === null || typeof value !== "object") {
+            result.set(path, String(value));
+
+            return result;
+        }
+
+        const entries: [ string, unknown ][] = Array.isArray(value)
+            ? value.map((item: unknown, index: number) => [ `[${ index }]`, item ])
+            : Object.entries(value);
+
+        if (entries.length === 0) {
+            result.set(path, Array.isArray(value) ? "[]" : "{}");
+        }
+
+        entries.forEach(([ key, item ]: [ string, unknown ]) => {
+            AuditLogUtils.flatten(item, !path || key.startsWith("[") ? `${ path }${ key }` : `${ path }.${ key }`,
+                result);
+        });
+
+        return result;
+    }
+
+    /**
+     * Redacts the sensitive values and truncates the long values.
+     *
+     * @param {string} path - Attribute path.
+     * @param {string} value - Value.
+     * @return {string} Sanitized value.
+     */
+    private static sanitizeValue(path: string, value: string): string {
+
+        if (value === undefined) {
+            return undefined;
+        }
+
+        const attribute: string = path.split(/[.[\]\s]/).filter(Boolean).pop() ?? "";
+
+        if (AuditLogConstants.SENSITIVE_ATTRIBUTE_REGEX.test(attribute)) {
+            return AuditLogConstants.REDACTED_VALUE;
+        }
+
+        return value.length > AuditLogConstants.MAX_VALUE_LENGTH
+            ? `${ value.substring(0, AuditLogConstants.MAX_VALUE_LENGTH) }...`
+            : value;
+    }
+
+    /**
+     * Parses the body of a request.
+     *
+     * @param {unknown} data - Request data.
+     * @return {unknown} Parsed body or undefined if the body is not JSON.
+     */
+    private static parseBody(data: unknown): unknown {
+
+        if (typeof data !== "string") {
+            return data !== null && typeof data === "object" && !(data instanceof FormData) ? data : undefined;
+        }
+
+        try {
+            return JSON.parse(data);
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Resolves the id of a created resource from the response.
+     *
+     * @param {AxiosResponse} response - Response of the create request.
+     * @return {string} Id of the resource.
+     */
+    private static getCreatedResourceId(response: AxiosResponse): string {
+
+        const location: string = response?.headers?.location;
+
+        if (location) {
+            return decodeURIComponent(location.split("/").filter(Boolean).pop());
+        }
+
+        return response?.data?.id ?? null;
+    }
+
+    /**
+     * Keeps the last known state of a resource. Oldest state is removed when the limit is reached.
+     *
+     * @param {string} path - Path of the resource.
+     * @param {unknown} state - State of the resource.
+     */
+    private static setResourceState(path: string, state: unknown): void {
+
+        AuditLogUtils.resourceStates.delete(path);
+        AuditLogUtils.resourceStates.set(path, state);
+
+        if (AuditLogUtils.resourceStates.size > AuditLogConstants.MAX_CACHED_RESOURCES) {
+            AuditLogUtils.resourceStates.delete(AuditLogUtils.resourceStates.keys().next().value);
+        }
+    }
+
+    /**
+     * Gets the path of a URL without the query params.
+     *
+     * @param {string} url - URL.
+     * @return {string} Path.
+     */
+    private static getPath(url: string): string {
+
+        return (url ?? "").split(/[?#]/)[ 0 ];
+    }
+
+    /**
+     * Gets the registered sinks. The local log and the configured collector are registered
+     * on the first call.
+     *
+     * @return {AuditLogSinkInterface[]} Sinks.
+     */
+    private static getSinks(): AuditLogSinkInterface[] {
+
+        if (AuditLogUtils.sinks) {
+            return AuditLogUtils.sinks;
+        }
+
+        const config: AuditLogConfigInterface = store.getState().config.ui.auditLog;
+
+        AuditLogUtils.localLog = new IndexedDBAuditLogSink(config?.maxEntries);
+        AuditLogUtils.sinks = [ AuditLogUtils.localLog ];
+
+        if (config?.collectorEndpoint) {
+            AuditLogUtils.sinks.push(new HttpAuditLogSink(config.collectorEndpoint));
+        }
+
+        return AuditLogUtils.sinks;
+    }
+}
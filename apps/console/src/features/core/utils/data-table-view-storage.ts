@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { StorageIdentityAppsSettingsInterface } from "@wso2is/core/models";
+import { DataTableViewInterface, DataTableViewStorageInterface } from "@wso2is/react-components";
+import cloneDeep from "lodash-es/cloneDeep";
+import get from "lodash-es/get";
+import isEmpty from "lodash-es/isEmpty";
+import set from "lodash-es/set";
+import { AppUtils } from "./app-utils";
+import { CommonConstants } from "../constants";
+
+/**
+ * Keeps the saved data table views of the logged in user in the user preferences.
+ */
+export class UserPreferencesDataTableViewStorage implements DataTableViewStorageInterface {
+
+    /**
+     * Retrieves the saved views of a table.
+     *
+     * @param {string} tableId - ID of the table.
+     * @return {Promise<DataTableViewInterface[]>}
+     */
+    public getViews(tableId: string): Promise<DataTableViewInterface[]> {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return Promise.resolve([]);
+        }
+
+        return Promise.resolve(get(userPreferences, this.resolvePath(tableId), []));
+    }
+
+    /**
+     * Persists the saved views of a table.
+     *
+     * @param {string} tableId - ID of the table.
+     * @param {DataTableViewInterface[]} views - Saved views.
+     * @return {Promise<void>}
+     */
+    public saveViews(tableId: string, views: DataTableViewInterface[]): Promise<void> {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return Promise.reject(new Error(CommonConstants.USER_PREFERENCES_NOT_FOUND_ERROR));
+        }
+
+        const newPref: StorageIdentityAppsSettingsInterface = cloneDeep(userPreferences);
+
+        set(newPref, this.resolvePath(tableId), views);
+        AppUtils.setUserPreferences(newPref);
+
+        return Promise.resolve();
+    }
+
+    /**
+     * Resolves the path to the views of a table. Table IDs are kept as a single segment.
+     *
+     * @param {string} tableId - ID of the table.
+     * @return {string[]}
+     */
+    private resolvePath(tableId: string): string[] {
+
+        return [ ...CommonConstants.DATA_TABLE_VIEWS_KEY.split("."), tableId ];
+    }
+}
@@ -18,6 +18,8 @@
 
 import { hideAJAXTopLoadingBar, showAJAXTopLoadingBar } from "@wso2is/core/store";
 import { AuthenticateUtils } from "@wso2is/core/utils";
+import { AxiosResponse } from "axios";
+import { AuditLogUtils } from "./audit-log-utils";
 import { AppConstants } from "../constants";
 import { history } from "../helpers";
 import { store } from "../store";
@@ -45,9 +47,11 @@ export class HttpUtils {
 
     /**
      * Callback to be fired on every Http request success.
+     *
+     * @param {AxiosResponse} response - Http response.
      */
-    public static onHttpRequestSuccess(): void {
-        // TODO: Handle any conditions required on request success.
+    public static onHttpRequestSuccess(response: AxiosResponse): void {
+        AuditLogUtils.onHttpResponse(response);
     }
 
     /**
@@ -63,6 +67,8 @@ export class HttpUtils {
      * @param error - Http error.
      */
     public static onHttpRequestError(error: any): void {
+        AuditLogUtils.onHttpError(error);
+
         // Terminate the session if the token endpoint returns a bad request(400)
         // The token binding feature will return a 400 status code when the session
         // times out.
@@ -17,10 +17,14 @@
  */
 
 export * from "./app-utils";
+export * from "./audit-log-sinks";
+export * from "./audit-log-utils";
 export * from "./common-utils";
+export * from "./data-table-view-storage";
 export * from "./filter-list";
 export * from "./help-panel-utils";
 export * from "./http-utils";
 export * from "./route-utils";
 export * from "./sort-list";
+export * from "./template-registry-utils";
 export * from "./user-store-utils";
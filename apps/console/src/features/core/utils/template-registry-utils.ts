@@ -0,0 +1,354 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { AlertLevels, JSONSchemaInterface, JSONSchemaValidationErrorInterface } from "@wso2is/core/models";
+import { addAlert } from "@wso2is/core/store";
+import { JSONSchemaUtils, URLUtils } from "@wso2is/core/utils";
+import { I18n } from "@wso2is/i18n";
+import axios, { AxiosResponse } from "axios";
+import { TemplateRegistryConstants } from "../constants";
+import {
+    DeploymentConfigInterface,
+    TemplateRegistryConfigInterface,
+    TemplateRegistryEntryInterface,
+    TemplateRegistryInterface,
+    TemplateRegistryIssueInterface,
+    TemplateRegistryResourceTypes,
+    TemplateRegistryResultInterface
+} from "../models";
+import { store } from "../store";
+
+/**
+ * Loaded registry index along with its resolved URL.
+ */
+interface LoadedTemplateRegistryInterface {
+    registry: TemplateRegistryInterface;
+    url: string;
+}
+
+/**
+ * Outcome of resolving a single registry entry.
+ */
+interface ResolvedTemplateRegistryEntryInterface<T> {
+    issue?: TemplateRegistryIssueInterface;
+    source?: string;
+    template?: T;
+}
+
+/**
+ * Utility class to load application and identity provider templates from a remote template registry.
+ *
+ * The registry is a JSON index listing the templates with their versions. Each template is either
+ * inlined in the index or stored in a separate file referenced by a path relative to the index.
+ * Every template is validated against the schema of its type and the invalid ones are skipped.
+ */
+export class TemplateRegistryUtils {
+
+    private static registry: Promise<LoadedTemplateRegistryInterface>;
+    private static results: Map<TemplateRegistryResourceTypes, Promise<TemplateRegistryResultInterface<unknown>>>
+        = new Map();
+    private static issues: Map<TemplateRegistryResourceTypes, TemplateRegistryIssueInterface[]> = new Map();
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Checks if the template registry is configured.
+     *
+     * @return {boolean}
+     */
+    public static isEnabled(): boolean {
+
+        const config: TemplateRegistryConfigInterface = store.getState().config.ui.templateRegistry;
+
+        return !!(config?.enabled && config.url);
+    }
+
+    /**
+     * Loads the templates of a type from the registry. The templates are loaded once and reused
+     * unless the registry could not be reached.
+     *
+     * @param {TemplateRegistryResourceTypes} type - Type of the templates.
+     * @param {JSONSchemaInterface} schema - Schema the templates should match.
+     * @param {(template: T) => string[]} validator - Additional checks which can't be expressed in the schema.
+     * @return {Promise<TemplateRegistryResultInterface<T>>}
+     */
+    public static getTemplates<T>(type: TemplateRegistryResourceTypes, schema: JSONSchemaInterface,
+                                  validator?: (template: T) => string[]): Promise<TemplateRegistryResultInterface<T>> {
+
+        // Templates are copied since the callers decorate them.
+        const copy = (result: TemplateRegistryResultInterface<T>): TemplateRegistryResultInterface<T> => ({
+            issues: result.issues,
+            templates: result.templates.map((template: T) => ({ ...template }))
+        });
+
+        if (TemplateRegistryUtils.results.has(type)) {
+            return (TemplateRegistryUtils.results.get(type) as Promise<TemplateRegistryResultInterface<T>>).then(copy);
+        }
+
+        const result: Promise<TemplateRegistryResultInterface<T>> = TemplateRegistryUtils.getRegistry()
+            .then(({ registry, url }: LoadedTemplateRegistryInterface) => {
+                const entries: TemplateRegistryEntryInterface[] = registry[ type ] ?? [];
+
+                return Promise.all(entries.map((entry: TemplateRegistryEntryInterface, index: number) => {
+                    return TemplateRegistryUtils.resolveEntry<T>(entry, url, `${ url }#${ type }[${ index }]`, schema,
+                        validator);
+                }));
+            })
+            .then((resolved: ResolvedTemplateRegistryEntryInterface<T>[]) => {
+                const loaded: TemplateRegistryResultInterface<T> = {
+                    issues: [],
+                    templates: []
+                };
+
+                resolved.forEach(({ issue, source, template }: ResolvedTemplateRegistryEntryInterface<T>) => {
+                    if (issue) {
+                        loaded.issues.push(issue);
+
+                        return;
+                    }
+
+                    const id: unknown = (template as Record<string, unknown>).id;
+
+                    if (loaded.templates.some((existing: T) => (existing as Record<string, unknown>).id === id)) {
+                        loaded.issues.push({
+                            errors: [ `A template with the id "${ id }" is already listed in the registry.` ],
+                            id: id as string,
+                            source
+                        });
+
+                        return;
+                    }
+
+                    loaded.templates.push(template);
+                });
+
+                if (loaded.issues.length > 0) {
+                    store.dispatch(addAlert({
+                        description: I18n.instance.t("console:develop.features.templates.registry.notifications." +
+                            "invalidTemplates.description", { count: loaded.issues.length }),
+                        level: AlertLevels.WARNING,
+                        message: I18n.instance.t("console:develop.features.templates.registry.notifications." +
+                            "invalidTemplates.message")
+                    }));
+                }
+
+                TemplateRegistryUtils.issues.set(type, loaded.issues);
+
+                return loaded;
+            })
+            .catch((error: Error) => {
+                const issues: TemplateRegistryIssueInterface[] = [ {
+                    errors: [ error.message ],
+                    source: TemplateRegistryUtils.resolveRegistryURL()
+                } ];
+
+                store.dispatch(addAlert({
+                    description: I18n.instance.t("console:develop.features.templates.registry.notifications." +
+                        "fetchRegistry.genericError.description"),
+                    level: AlertLevels.ERROR,
+                    message: I18n.instance.t("console:develop.features.templates.registry.notifications." +
+                        "fetchRegistry.genericError.message")
+                }));
+
+                TemplateRegistryUtils.issues.set(type, issues);
+                TemplateRegistryUtils.results.delete(type);
+
+                return {
+                    issues,
+                    templates: []
+                };
+            });
+
+        TemplateRegistryUtils.results.set(type, result);
+
+        return result.then(copy);
+    }
+
+    /**
+     * Returns the templates of a type which could not be loaded in the last attempt.
+     *
+     * @param {TemplateRegistryResourceTypes} type - Type of the templates.
+     * @return {TemplateRegistryIssueInterface[]}
+     */
+    public static getIssues(type: TemplateRegistryResourceTypes): TemplateRegistryIssueInterface[] {
+
+        return TemplateRegistryUtils.issues.get(type) ?? [];
+    }
+
+    /**
+     * Loads and validates the registry index. The index is fetched once and reused by all the template types.
+     *
+     * @return {Promise<LoadedTemplateRegistryInterface>}
+     */
+    private static getRegistry(): Promise<LoadedTemplateRegistryInterface> {
+
+        if (TemplateRegistryUtils.registry) {
+            return TemplateRegistryUtils.registry;
+        }
+
+        const url: string = TemplateRegistryUtils.resolveRegistryURL();
+
+        TemplateRegistryUtils.registry = axios.get(url)
+            .then((response: AxiosResponse<TemplateRegistryInterface>) => {
+                const errors: string[] = TemplateRegistryUtils.formatErrors(
+                    JSONSchemaUtils.validate(TemplateRegistryConstants.REGISTRY_SCHEMA, response.data), "The registry");
+
+                if (errors.length > 0) {
+                    throw new Error(errors.join(" "));
+                }
+
+                const supportedMajorVersion: string = TemplateRegistryConstants.SUPPORTED_REGISTRY_VERSION
+                    .split(".")[ 0 ];
+
+                if (response.data.version.split(".")[ 0 ] !== supportedMajorVersion) {
+                    throw new Error(`The registry version ${ response.data.version } is not supported. `
+                        + `Supported versions are ${ supportedMajorVersion }.x.x.`);
+                }
+
+                return {
+                    registry: response.data,
+                    url
+                };
+            })
+            .catch((error: Error) => {
+                // Allow retrying on the next attempt.
+                TemplateRegistryUtils.registry = undefined;
+
+                throw new Error(`Couldn't load the template registry from ${ url }. ${ error.message }`);
+            });
+
+        return TemplateRegistryUtils.registry;
+    }
+
+    /**
+     * Validates a registry entry and resolves its template.
+     *
+     * @param {TemplateRegistryEntryInterface} entry - Registry entry.
+     * @param {string} registryURL - URL of the registry index.
+     * @param {string} source - Location of the entry in the registry.
+     * @param {JSONSchemaInterface} schema - Schema the template should match.
+     * @param {(template: T) => string[]} validator - Additional checks.
+     * @return {Promise<ResolvedTemplateRegistryEntryInterface<T>>}
+     */
+    private static resolveEntry<T>(
+        entry: TemplateRegistryEntryInterface,
+        registryURL: string,
+        source: string,
+        schema: JSONSchemaInterface,
+        validator?: (template: T) => string[]
+    ): Promise<ResolvedTemplateRegistryEntryInterface<T>> {
+
+        const id: string = typeof entry?.id === "string" ? entry.id : undefined;
+        const errors: string[] = TemplateRegistryUtils.formatErrors(
+            JSONSchemaUtils.validate(TemplateRegistryConstants.ENTRY_SCHEMA, entry), "The entry");
+
+        if (errors.length === 0 && !entry.path === !entry.template) {
+            errors.push("The entry should have either a path or an inline template.");
+        }
+
+        if (errors.length > 0) {
+            return Promise.resolve({ issue: { errors, id, source } });
+        }
+
+        const templateURL: string = entry.path && new URL(entry.path, registryURL).toString();
+        const templateSource: string = templateURL ?? source;
+
+        const template: Promise<unknown> = templateURL
+            ? axios.get(templateURL).then((response: AxiosResponse) => response.data)
+            : Promise.resolve(entry.template);
+
+        return template
+            .then((template: Record<string, unknown>) => {
+                const templateErrors: string[] = TemplateRegistryUtils.formatErrors(
+                    JSONSchemaUtils.validate(schema, template), "The template");
+
+                if (templateErrors.length === 0) {
+                    if (template.id !== entry.id) {
+                        templateErrors.push(`The template id "${ template.id }" doesn't match the id of the entry.`);
+                    }
+
+                    if (template.version !== undefined && template.version !== entry.version) {
+                        templateErrors.push(`The template version ${ template.version } doesn't match the version `
+                            + `${ entry.version } of the entry.`);
+                    }
+
+                    if (validator) {
+                        templateErrors.push(...validator(template as unknown as T));
+                    }
+                }
+
+                if (templateErrors.length > 0) {
+                    return { issue: { errors: templateErrors, id, source: templateSource } };
+                }
+
+                return {
+                    source: templateSource,
+                    template: {
+                        ...template,
+                        version: entry.version
+                    } as unknown as T
+                };
+            })
+            .catch((error: Error) => ({
+                issue: {
+                    errors: [ `Couldn't load the template from ${ templateURL }. ${ error.message }` ],
+                    id,
+                    source: templateSource
+                }
+            }));
+    }
+
+    /**
+     * Resolves the configured registry URL. Relative URLs are resolved against the app base.
+     *
+     * @return {string}
+     */
+    private static resolveRegistryURL(): string {
+
+        const url: string = store.getState().config.ui.templateRegistry?.url;
+
+        if (URLUtils.isHttpsUrl(url) || URLUtils.isHttpUrl(url)) {
+            return url;
+        }
+
+        const deployment: DeploymentConfigInterface = store.getState().config.deployment;
+
+        return `${ deployment.clientOrigin }${ deployment.appBaseNameWithoutTenant }/${ url.replace(/^\/+/, "") }`;
+    }
+
+    /**
+     * Formats the schema validation errors as readable messages.
+     *
+     * @param {JSONSchemaValidationErrorInterface[]} errors - Schema validation errors.
+     * @param {string} subject - Subject used for the errors of the root value.
+     * @return {string[]}
+     */
+    private static formatErrors(errors: JSONSchemaValidationErrorInterface[], subject: string): string[] {
+
+        return errors.map((error: JSONSchemaValidationErrorInterface) => {
+            return `${ error.path ? `"${ error.path }"` : subject } ${ error.message }`;
+        });
+    }
+}
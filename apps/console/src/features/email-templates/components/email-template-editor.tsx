@@ -17,10 +17,12 @@
  */
 
 import { TestableComponentInterface } from "@wso2is/core/models";
-import { CodeEditor, ResourceTab } from "@wso2is/react-components";
-import React, { FunctionComponent, ReactElement, useEffect, useRef, useState } from "react";
+import { CodeEditor, CodeEditorHintInterface, ResourceTab } from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useEffect, useMemo, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { EmailTemplateManagementConstants } from "../constants";
+import { EmailTemplatePlaceholderInterface } from "../models";
+import { EmailTemplateManagementUtils } from "../utils";
 
 /**
  * Interface for the email template editor props.
@@ -33,6 +35,14 @@ interface EmailTemplateEditorPropsInterface extends TestableComponentInterface {
     isAddFlow: boolean;
     isSignature: boolean;
     updateHtmlContent?: (value) => void;
+    /**
+     * Placeholders suggested while editing the code.
+     */
+    placeholders?: EmailTemplatePlaceholderInterface[];
+    /**
+     * Values used to render the placeholders in the preview.
+     */
+    previewData?: Record<string, string>;
 }
 
 /**
@@ -54,6 +64,8 @@ export const EmailTemplateEditor: FunctionComponent<EmailTemplateEditorPropsInte
         isPreviewOnly,
         isAddFlow,
         isSignature,
+        placeholders,
+        previewData,
         [ "data-testid" ]: testId
     } = props;
 
@@ -63,6 +75,19 @@ export const EmailTemplateEditor: FunctionComponent<EmailTemplateEditorPropsInte
 
     const updatedContent = useRef<string>("");
     const iframe = useRef<HTMLIFrameElement>();
+    const previewDataRef = useRef<Record<string, string>>(previewData);
+
+    const placeholderHints: CodeEditorHintInterface[] = useMemo(() => {
+        return placeholders?.map((placeholder: EmailTemplatePlaceholderInterface) => ({
+            displayText: placeholder.key,
+            text: `{{${ placeholder.key }}}`
+        }));
+    }, [ placeholders ]);
+
+    useEffect(() => {
+        previewDataRef.current = previewData;
+        writeToIframe();
+    }, [ previewData ]);
 
     useEffect(() => {
         writeToIframe();
@@ -94,7 +119,8 @@ export const EmailTemplateEditor: FunctionComponent<EmailTemplateEditorPropsInte
              */
             iframeDoc.open();
             iframeDoc.close();
-            iframeDoc.body.innerHTML = updatedContent.current;
+            iframeDoc.body.innerHTML = EmailTemplateManagementUtils.renderPlaceholders(updatedContent.current,
+                previewDataRef.current);
         }
     };
 
@@ -153,6 +179,8 @@ export const EmailTemplateEditor: FunctionComponent<EmailTemplateEditorPropsInte
                                             lint
                                             language="htmlmixed"
                                             sourceCode={ content }
+                                            hints={ placeholderHints }
+                                            hintTrigger={ EmailTemplateManagementConstants.PLACEHOLDER_HINT_TRIGGER }
                                             options={ {
                                                 lineWrapping: true
                                             } }
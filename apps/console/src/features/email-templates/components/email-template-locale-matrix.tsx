@@ -0,0 +1,271 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { AlertLevels, TestableComponentInterface } from "@wso2is/core/models";
+import { addAlert } from "@wso2is/core/store";
+import { ContentLoader, Heading, LinkButton } from "@wso2is/react-components";
+import { AxiosResponse } from "axios";
+import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import { Icon, Label, Modal, Popup, SemanticCOLORS, Table } from "semantic-ui-react";
+import { AppConstants, history } from "../../core";
+import { getEmailTemplate } from "../api";
+import { EmailTemplateManagementConstants } from "../constants";
+import {
+    EmailTemplate,
+    EmailTemplateDetails,
+    EmailTemplateLocaleStatus,
+    EmailTemplateLocaleStatusInterface,
+    EmailTemplateType
+} from "../models";
+import { EmailTemplateManagementUtils } from "../utils";
+
+/**
+ * Proptypes for the email template locale matrix component.
+ */
+interface EmailTemplateLocaleMatrixPropsInterface extends TestableComponentInterface {
+    /**
+     * Template types to be evaluated.
+     */
+    templateTypes: EmailTemplateType[];
+    /**
+     * Callback to be triggered when the modal is closed.
+     */
+    onClose: () => void;
+}
+
+/**
+ * Colors of the locale status labels.
+ * @constant
+ * @type {Map<EmailTemplateLocaleStatus, SemanticCOLORS>}
+ */
+const STATUS_COLORS: Map<EmailTemplateLocaleStatus, SemanticCOLORS> = new Map<
+    EmailTemplateLocaleStatus, SemanticCOLORS>([
+        [ EmailTemplateLocaleStatus.DEFAULT, "blue" ],
+        [ EmailTemplateLocaleStatus.MISSING, "grey" ],
+        [ EmailTemplateLocaleStatus.OUTDATED, "orange" ],
+        [ EmailTemplateLocaleStatus.UP_TO_DATE, "green" ]
+    ]);
+
+/**
+ * Translation keys of the locale status labels.
+ * @constant
+ * @type {Map<EmailTemplateLocaleStatus, string>}
+ */
+const STATUS_TRANSLATION_KEYS: Map<EmailTemplateLocaleStatus, string> = new Map<EmailTemplateLocaleStatus, string>([
+    [ EmailTemplateLocaleStatus.DEFAULT, "console:manage.features.emailTemplates.localeMatrix.status.default" ],
+    [ EmailTemplateLocaleStatus.MISSING, "console:manage.features.emailTemplates.localeMatrix.status.missing" ],
+    [ EmailTemplateLocaleStatus.OUTDATED, "console:manage.features.emailTemplates.localeMatrix.status.outdated" ],
+    [ EmailTemplateLocaleStatus.UP_TO_DATE, "console:manage.features.emailTemplates.localeMatrix.status.upToDate" ]
+]);
+
+/**
+ * Shows the locales of every template type in a matrix and highlights the locales which are out of
+ * date relative to the default locale.
+ *
+ * @param {EmailTemplateLocaleMatrixPropsInterface} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const EmailTemplateLocaleMatrix: FunctionComponent<EmailTemplateLocaleMatrixPropsInterface> = (
+    props: EmailTemplateLocaleMatrixPropsInterface
+): ReactElement => {
+
+    const {
+        templateTypes,
+        onClose,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const dispatch = useDispatch();
+
+    const [ templateDetails, setTemplateDetails ] = useState<EmailTemplateDetails[]>([]);
+    const [ locales, setLocales ] = useState<string[]>([]);
+    const [ isLoading, setIsLoading ] = useState<boolean>(false);
+
+    useEffect(() => {
+        setIsLoading(true);
+
+        Promise.all(templateTypes.map((templateType: EmailTemplateType) => {
+            return getEmailTemplate(templateType.id)
+                .then((response: AxiosResponse<EmailTemplateDetails>) => response.data);
+        }))
+            .then((details: EmailTemplateDetails[]) => {
+                const availableLocales: Set<string> = new Set<string>();
+
+                details.forEach((detail: EmailTemplateDetails) => {
+                    detail.templates?.forEach((template: EmailTemplate) => availableLocales.add(template.id));
+                });
+                availableLocales.delete(EmailTemplateManagementConstants.DEFAULT_LOCALE);
+
+                setTemplateDetails(details);
+                setLocales([
+                    EmailTemplateManagementConstants.DEFAULT_LOCALE,
+                    ...Array.from(availableLocales).sort()
+                ]);
+            })
+            .catch(() => {
+                dispatch(addAlert({
+                    description: t("console:manage.features.emailTemplates.notifications.getLocaleStatus" +
+                        ".genericError.description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.emailTemplates.notifications.getLocaleStatus" +
+                        ".genericError.message")
+                }));
+            })
+            .finally(() => {
+                setIsLoading(false);
+            });
+    }, [ templateTypes ]);
+
+    /**
+     * Navigates to the locale template of a template type.
+     *
+     * @param {string} templateTypeId - ID of the template type.
+     * @param {EmailTemplateLocaleStatusInterface} localeStatus - Status of the locale.
+     */
+    const handleCellClick = (templateTypeId: string, localeStatus: EmailTemplateLocaleStatusInterface): void => {
+        if (localeStatus.status === EmailTemplateLocaleStatus.MISSING) {
+            history.push(AppConstants.getPaths().get("EMAIL_TEMPLATE_ADD")
+                .replace(":templateTypeId", templateTypeId));
+
+            return;
+        }
+
+        history.push(AppConstants.getPaths().get("EMAIL_TEMPLATE")
+            .replace(":templateTypeId", templateTypeId)
+            .replace(":templateId", localeStatus.locale));
+    };
+
+    /**
+     * Renders the status of a locale.
+     *
+     * @param {string} templateTypeId - ID of the template type.
+     * @param {EmailTemplateLocaleStatusInterface} localeStatus - Status of the locale.
+     * @return {React.ReactElement}
+     */
+    const renderStatus = (templateTypeId: string, localeStatus: EmailTemplateLocaleStatusInterface): ReactElement => {
+        const label: ReactElement = (
+            <Label
+                as="a"
+                size="mini"
+                color={ STATUS_COLORS.get(localeStatus.status) }
+                onClick={ () => handleCellClick(templateTypeId, localeStatus) }
+                data-testid={ `${ testId }-${ templateTypeId }-${ localeStatus.locale }-status` }
+            >
+                { t(STATUS_TRANSLATION_KEYS.get(localeStatus.status)) }
+            </Label>
+        );
+
+        if (localeStatus.status !== EmailTemplateLocaleStatus.OUTDATED) {
+            return label;
+        }
+
+        return (
+            <Popup
+                size="small"
+                trigger={ label }
+                content={ [
+                    localeStatus.missingPlaceholders.length > 0 && t("console:manage.features.emailTemplates" +
+                        ".localeMatrix.hints.missing", { placeholders: localeStatus.missingPlaceholders.join(", ") }),
+                    localeStatus.extraPlaceholders.length > 0 && t("console:manage.features.emailTemplates" +
+                        ".localeMatrix.hints.extra", { placeholders: localeStatus.extraPlaceholders.join(", ") })
+                ].filter(Boolean).join(" ") }
+            />
+        );
+    };
+
+    return (
+        <Modal
+            data-testid={ testId }
+            open={ true }
+            dimmer="blurring"
+            size="large"
+            onClose={ onClose }
+        >
+            <Modal.Header>
+                { t("console:manage.features.emailTemplates.localeMatrix.heading") }
+                <Heading as="h6">{ t("console:manage.features.emailTemplates.localeMatrix.subHeading") }</Heading>
+            </Modal.Header>
+            <Modal.Content scrolling>
+                {
+                    isLoading
+                        ? <ContentLoader className="p-3" active/>
+                        : (
+                            <Table celled compact definition unstackable data-testid={ `${ testId }-table` }>
+                                <Table.Header>
+                                    <Table.Row>
+                                        <Table.HeaderCell/>
+                                        {
+                                            locales.map((locale: string) => (
+                                                <Table.HeaderCell key={ locale } textAlign="center">
+                                                    { locale }
+                                                    {
+                                                        locale === EmailTemplateManagementConstants.DEFAULT_LOCALE && (
+                                                            <Icon name="star" color="blue" className="ml-1"/>
+                                                        )
+                                                    }
+                                                </Table.HeaderCell>
+                                            ))
+                                        }
+                                    </Table.Row>
+                                </Table.Header>
+                                <Table.Body>
+                                    {
+                                        templateDetails.map((detail: EmailTemplateDetails) => (
+                                            <Table.Row key={ detail.id }>
+                                                <Table.Cell>{ detail.displayName }</Table.Cell>
+                                                {
+                                                    EmailTemplateManagementUtils
+                                                        .getLocaleStatuses(detail.templates ?? [], locales)
+                                                        .map((localeStatus: EmailTemplateLocaleStatusInterface) => (
+                                                            <Table.Cell key={ localeStatus.locale } textAlign="center">
+                                                                { renderStatus(detail.id, localeStatus) }
+                                                            </Table.Cell>
+                                                        ))
+                                                }
+                                            </Table.Row>
+                                        ))
+                                    }
+                                </Table.Body>
+                            </Table>
+                        )
+                }
+            </Modal.Content>
+            <Modal.Actions>
+                <LinkButton
+                    floated="left"
+                    onClick={ onClose }
+                    data-testid={ `${ testId }-close-button` }
+                >
+                    { t("common:close") }
+                </LinkButton>
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the email template locale matrix component.
+ */
+EmailTemplateLocaleMatrix.defaultProps = {
+    "data-testid": "email-template-locale-matrix"
+};
@@ -16,18 +16,28 @@
  * under the License.
  */
 
-import { AlertInterface, AlertLevels, TestableComponentInterface } from "@wso2is/core/models";
+import { AlertInterface, AlertLevels, ProfileInfoInterface, TestableComponentInterface } from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
+import { CommonUtils } from "@wso2is/core/utils";
 import { Field, FormValue, Forms } from "@wso2is/forms";
+import { Hint } from "@wso2is/react-components";
 import { AxiosError, AxiosResponse } from "axios";
 import * as CountryLanguage from "country-language";
-import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
+import React, { FunctionComponent, ReactElement, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { useDispatch } from "react-redux";
-import { Button, DropdownItemProps, Form, Grid, Message } from "semantic-ui-react";
-import { AppConstants, history } from "../../../core";
+import { useDispatch, useSelector } from "react-redux";
+import { Button, DropdownItemProps, Form, Grid, Label, Message, Popup } from "semantic-ui-react";
+import { AppConstants, AppState, history } from "../../../core";
 import { createLocaleTemplate, getTemplateDetails, replaceLocaleTemplateContent } from "../../api";
-import { EmailTemplate, EmailTemplateFormModes, EmailTemplateType } from "../../models";
+import { EmailTemplateManagementConstants } from "../../constants";
+import {
+    EmailTemplate,
+    EmailTemplateFormModes,
+    EmailTemplatePlaceholderInterface,
+    EmailTemplatePlaceholderValidationInterface,
+    EmailTemplateType
+} from "../../models";
+import { EmailTemplateManagementUtils } from "../../utils";
 import { EmailTemplateEditor } from "../email-template-editor";
 
 /**
@@ -46,6 +56,10 @@ interface AddEmailTemplateFormPropsInterface extends TestableComponentInterface
      * Template type id.
      */
     templateTypeId: string;
+    /**
+     * Template type name. Used to resolve the supported placeholders.
+     */
+    templateTypeName?: string;
 }
 
 /**
@@ -62,11 +76,15 @@ export const AddEmailTemplateForm: FunctionComponent<AddEmailTemplateFormPropsIn
         mode,
         templateId,
         templateTypeId,
+        templateTypeName,
         [ "data-testid" ]: testId
     } = props;
 
     const dispatch = useDispatch();
 
+    const profileInfo: ProfileInfoInterface = useSelector((state: AppState) => state.profile.profileInfo);
+    const tenantDomain: string = useSelector((state: AppState) => state.config.deployment.tenant);
+
     const { t } = useTranslation();
 
     const [ localeList, setLocaleList ] = useState<DropdownItemProps[]>([]);
@@ -77,6 +95,20 @@ export const AddEmailTemplateForm: FunctionComponent<AddEmailTemplateFormPropsIn
     const [ isSubmitting, setIsSubmitting ] = useState<boolean>(false);
     const [ bodyError, setBodyError ] = useState<boolean>(false);
     const [ footerError, setFooterError ] = useState<boolean>(false);
+    const [ copiedPlaceholder, setCopiedPlaceholder ] = useState<string>(null);
+
+    const placeholders: EmailTemplatePlaceholderInterface[] = useMemo(() => {
+        return EmailTemplateManagementUtils.getPlaceholderCatalog(templateTypeName);
+    }, [ templateTypeName ]);
+
+    const previewData: Record<string, string> = useMemo(() => {
+        return EmailTemplateManagementUtils.getPreviewData(placeholders, profileInfo, tenantDomain);
+    }, [ placeholders, profileInfo, tenantDomain ]);
+
+    const placeholderValidation: EmailTemplatePlaceholderValidationInterface = useMemo(() => {
+        return EmailTemplateManagementUtils.validatePlaceholders(
+            [ subject, htmlBodyContent, htmlFooterContent ], placeholders);
+    }, [ subject, htmlBodyContent, htmlFooterContent, placeholders ]);
 
     /**
      * This will load the locales to the dropdown.
@@ -226,6 +258,18 @@ export const AddEmailTemplateForm: FunctionComponent<AddEmailTemplateFormPropsIn
         updateTemplate(values);
     };
 
+    /**
+     * Copies the placeholder to the clipboard.
+     *
+     * @param {string} key - Placeholder key.
+     */
+    const copyPlaceholder = (key: string): void => {
+        CommonUtils.copyTextToClipboard(`{{${ key }}}`)
+            .then((copied: boolean) => {
+                setCopiedPlaceholder(copied ? key : null);
+            });
+    };
+
     return (
         <Forms
             onSubmit={ handleFormSubmit }
@@ -297,10 +341,75 @@ export const AddEmailTemplateForm: FunctionComponent<AddEmailTemplateFormPropsIn
                             }
                             type="text"
                             value={ subject }
+                            listen={ (values: Map<string, FormValue>) => {
+                                setSubject(values.get("emailSubject").toString());
+                            } }
                             data-testid={ `${ testId }-subject-input` }
                         />
                     </Grid.Column>
                 </Grid.Row>
+                <Grid.Row columns={ 1 }>
+                    <Grid.Column mobile={ 12 } tablet={ 12 } computer={ 12 }>
+                        <Form.Field>
+                            <label>{ t("console:manage.features.emailTemplates.templatePlaceholders.heading") }</label>
+                            <Hint compact>
+                                {
+                                    t("console:manage.features.emailTemplates.templatePlaceholders.hint",
+                                        { trigger: EmailTemplateManagementConstants.PLACEHOLDER_HINT_TRIGGER })
+                                }
+                            </Hint>
+                            <Label.Group size="small" data-testid={ `${ testId }-placeholders` }>
+                                {
+                                    placeholders.map((placeholder: EmailTemplatePlaceholderInterface) => (
+                                        <Popup
+                                            key={ placeholder.key }
+                                            inverted
+                                            size="mini"
+                                            position="top center"
+                                            content={
+                                                copiedPlaceholder === placeholder.key
+                                                    ? t("console:manage.features.emailTemplates.templatePlaceholders" +
+                                                        ".copied")
+                                                    : t("console:manage.features.emailTemplates.templatePlaceholders" +
+                                                        ".sample", { value: placeholder.sampleValue })
+                                            }
+                                            onClose={ () => setCopiedPlaceholder(null) }
+                                            trigger={ (
+                                                <Label
+                                                    as="a"
+                                                    color={ placeholder.required ? "orange" : undefined }
+                                                    onClick={ () => copyPlaceholder(placeholder.key) }
+                                                    data-testid={ `${ testId }-placeholder-${ placeholder.key }` }
+                                                >
+                                                    { `{{${ placeholder.key }}}` }
+                                                </Label>
+                                            ) }
+                                        />
+                                    ))
+                                }
+                            </Label.Group>
+                        </Form.Field>
+                        {
+                            (placeholderValidation.missing.length > 0 || placeholderValidation.unknown.length > 0) && (
+                                <Message
+                                    warning
+                                    visible
+                                    header={ t("console:manage.features.emailTemplates.templatePlaceholders" +
+                                        ".validations.heading") }
+                                    list={ [
+                                        placeholderValidation.missing.length > 0 && t("console:manage.features" +
+                                            ".emailTemplates.templatePlaceholders.validations.missing",
+                                        { placeholders: placeholderValidation.missing.join(", ") }),
+                                        placeholderValidation.unknown.length > 0 && t("console:manage.features" +
+                                            ".emailTemplates.templatePlaceholders.validations.unknown",
+                                        { placeholders: placeholderValidation.unknown.join(", ") })
+                                    ].filter(Boolean) }
+                                    data-testid={ `${ testId }-placeholder-warnings` }
+                                />
+                            )
+                        }
+                    </Grid.Column>
+                </Grid.Row>
                 <Grid.Row columns={ 1 }>
                     <Grid.Column mobile={ 12 } tablet={ 12 } computer={ 12 }>
                         <Form.Field>
@@ -312,6 +421,8 @@ export const AddEmailTemplateForm: FunctionComponent<AddEmailTemplateFormPropsIn
                                 isReadOnly={ false }
                                 isSignature
                                 isAddFlow={ templateId === "" }
+                                placeholders={ placeholders }
+                                previewData={ previewData }
                                 updateHtmlContent={ (value: string) => {
                                     setHtmlBodyContent(value);
                                     setBodyError(!value);
@@ -342,6 +453,8 @@ export const AddEmailTemplateForm: FunctionComponent<AddEmailTemplateFormPropsIn
                                 isSignature={ false }
                                 isAddFlow={ templateId === "" }
                                 customClass="mail-signature"
+                                placeholders={ placeholders }
+                                previewData={ previewData }
                                 updateHtmlContent={ (value: string) => {
                                     setHtmlFooterContent(value);
                                     setFooterError(!value);
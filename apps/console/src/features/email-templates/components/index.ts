@@ -19,4 +19,5 @@
 export * from "./forms";
 export * from "./lists";
 export * from "./email-template-editor";
+export * from "./email-template-locale-matrix";
 export * from "./wizards";
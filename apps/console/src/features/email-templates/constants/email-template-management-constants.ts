@@ -16,6 +16,8 @@
  * under the License.
  */
 
+import { EmailTemplatePlaceholderInterface } from "../models";
+
 /**
  * Class containing Email template related constants.
  */
@@ -45,4 +47,74 @@ export class EmailTemplateManagementConstants {
                 <p>Hello {{user.claim.givenname}}!</p>
             </body>
         </html>`;
+
+    /**
+     * Locale of the default templates. Other locales are compared against it.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly DEFAULT_LOCALE: string = "en_US";
+
+    /**
+     * Character sequence which opens the placeholder suggestions in the editor.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly PLACEHOLDER_HINT_TRIGGER: string = "{{";
+
+    /**
+     * Prefix of the placeholders which are URL encoded when rendered. ex: `{{url:user-name}}`.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly URL_ENCODED_PLACEHOLDER_PREFIX: string = "url:";
+
+    /**
+     * Prefixes of the placeholders resolved from the user attributes. ex: `{{user.claim.givenname}}`.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly DYNAMIC_PLACEHOLDER_PREFIXES: string[] = [ "user.claim." ];
+
+    /**
+     * Placeholders supported by all the email template types.
+     * @constant
+     * @type {EmailTemplatePlaceholderInterface[]}
+     * @default
+     */
+    public static readonly COMMON_PLACEHOLDERS: EmailTemplatePlaceholderInterface[] = [
+        { key: "carbon.product-url", sampleValue: "https://localhost:9443" },
+        { key: "tenant-domain", sampleValue: "carbon.super" },
+        { key: "user-name", sampleValue: "john" },
+        { key: "user.claim.emailaddress", sampleValue: "john@example.com" },
+        { key: "user.claim.givenname", sampleValue: "John" },
+        { key: "user.claim.lastname", sampleValue: "Doe" },
+        { key: "userstore-domain", sampleValue: "PRIMARY" }
+    ];
+
+    /**
+     * Placeholders supported by the default email template types in addition to the common placeholders.
+     * Keys are the template type names in lower case.
+     * @constant
+     * @type {Map<string, EmailTemplatePlaceholderInterface[]>}
+     * @default
+     */
+    public static readonly TEMPLATE_TYPE_PLACEHOLDERS: Map<string, EmailTemplatePlaceholderInterface[]> = new Map<
+        string, EmailTemplatePlaceholderInterface[]>()
+        .set("accountconfirmation", [ { key: "confirmation-code", required: true, sampleValue: "8c3b1a2e" } ])
+        .set("accountidrecovery", [])
+        .set("accountunlock", [])
+        .set("askpassword", [ { key: "confirmation-code", required: true, sampleValue: "8c3b1a2e" } ])
+        .set("emailconfirm", [ { key: "confirmation-code", required: true, sampleValue: "8c3b1a2e" } ])
+        .set("emailotp", [ { key: "OTPCode", required: true, sampleValue: "482913" } ])
+        .set("passwordreset", [ { key: "confirmation-code", required: true, sampleValue: "8c3b1a2e" } ])
+        .set("resendaccountconfirmation", [
+            { key: "confirmation-code", required: true, sampleValue: "8c3b1a2e" }
+        ])
+        .set("resendpasswordreset", [ { key: "confirmation-code", required: true, sampleValue: "8c3b1a2e" } ])
+        .set("totp", [ { key: "token", required: true, sampleValue: "482913" } ]);
 }
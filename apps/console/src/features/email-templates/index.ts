@@ -22,3 +22,4 @@ export * from "./configs";
 export * from "./constants";
 export * from "./models";
 export * from "./pages";
+export * from "./utils";
@@ -56,3 +56,70 @@ export enum EmailTemplateFormModes {
     ADD = "ADD",
     EDIT = "EDIT"
 }
+
+/**
+ * Interface for a placeholder supported by an email template type.
+ */
+export interface EmailTemplatePlaceholderInterface {
+    /**
+     * Placeholder key. ex: `user-name` for `{{user-name}}`.
+     */
+    key: string;
+    /**
+     * Should the placeholder be present in the templates of the type.
+     */
+    required?: boolean;
+    /**
+     * Value used to render the preview.
+     */
+    sampleValue: string;
+}
+
+/**
+ * Interface for the placeholder validation results of a template.
+ */
+export interface EmailTemplatePlaceholderValidationInterface {
+    /**
+     * Required placeholders which are not used in the template.
+     */
+    missing: string[];
+    /**
+     * Placeholders used in the template which are not supported by the template type.
+     */
+    unknown: string[];
+}
+
+/**
+ * Enum for the sync status of a locale template compared to the default locale.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum EmailTemplateLocaleStatus {
+    DEFAULT = "DEFAULT",
+    MISSING = "MISSING",
+    OUTDATED = "OUTDATED",
+    UP_TO_DATE = "UP_TO_DATE"
+}
+
+/**
+ * Interface for the sync status of a locale template.
+ */
+export interface EmailTemplateLocaleStatusInterface {
+    /**
+     * Placeholders used in the template which are not used in the default locale.
+     */
+    extraPlaceholders: string[];
+    /**
+     * Locale of the template. ex: `en_US`.
+     */
+    locale: string;
+    /**
+     * Placeholders of the default locale which are not used in the template.
+     */
+    missingPlaceholders: string[];
+    /**
+     * Sync status.
+     */
+    status: EmailTemplateLocaleStatus;
+}
@@ -174,6 +174,7 @@ const EmailTemplateEditPage: FunctionComponent<EmailTemplateEditPagePropsInterfa
                 mode={ formMode }
                 templateId={ templateId }
                 templateTypeId={ templateTypeId }
+                templateTypeName={ emailTemplateTypeDetails?.displayName }
                 data-testid={ `${ testId }-form` }
             />
         </PageLayout>
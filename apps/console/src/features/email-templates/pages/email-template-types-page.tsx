@@ -19,7 +19,7 @@
 import { AlertInterface, AlertLevels, TestableComponentInterface } from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
 import { useTrigger } from "@wso2is/forms";
-import { ListLayout, PageLayout, PrimaryButton } from "@wso2is/react-components";
+import { ListLayout, PageLayout, PrimaryButton, SecondaryButton } from "@wso2is/react-components";
 import { AxiosError, AxiosResponse } from "axios";
 import React, { FunctionComponent, MouseEvent, ReactElement, useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
@@ -27,7 +27,7 @@ import { useDispatch } from "react-redux";
 import { DropdownProps, Icon, PaginationProps } from "semantic-ui-react";
 import { AdvancedSearchWithBasicFilters, UIConstants, filterList, sortList } from "../../core";
 import { deleteEmailTemplateType, getEmailTemplateTypes } from "../api";
-import { AddEmailTemplateTypeWizard, EmailTemplateTypeList } from "../components";
+import { AddEmailTemplateTypeWizard, EmailTemplateLocaleMatrix, EmailTemplateTypeList } from "../components";
 import { EmailTemplateType } from "../models";
 
 /**
@@ -68,6 +68,7 @@ const EmailTemplateTypesPage: FunctionComponent<EmailTemplateTypesPagePropsInter
     const [ listItemLimit, setListItemLimit ] = useState<number>(UIConstants.DEFAULT_RESOURCE_LIST_ITEM_LIMIT);
     const [ listOffset, setListOffset ] = useState<number>(0);
     const [ showNewTypeWizard, setShowNewTypeWizard ] = useState<boolean>(false);
+    const [ showLocaleMatrix, setShowLocaleMatrix ] = useState<boolean>(false);
 
     const [ emailTemplateTypes, setEmailTemplateTypes ] = useState<EmailTemplateType[]>([]);
     const [ isTemplateTypesFetchRequestLoading, setIsTemplateTypesFetchRequestLoading ] = useState<boolean>(false);
@@ -262,13 +263,23 @@ const EmailTemplateTypesPage: FunctionComponent<EmailTemplateTypesPagePropsInter
         <PageLayout
             action={
                 (isTemplateTypesFetchRequestLoading || emailTemplateTypes?.length > 0) && (
-                    <PrimaryButton
-                        onClick={ () => setShowNewTypeWizard(true) }
-                        data-testid={ `${ testId }-list-layout-add-button` }
-                    >
-                        <Icon name="add"/>
-                        { t("console:manage.features.emailTemplateTypes.buttons.newType") }
-                    </PrimaryButton>
+                    <>
+                        <SecondaryButton
+                            disabled={ isTemplateTypesFetchRequestLoading }
+                            onClick={ () => setShowLocaleMatrix(true) }
+                            data-testid={ `${ testId }-list-layout-locale-status-button` }
+                        >
+                            <Icon name="language"/>
+                            { t("console:manage.features.emailTemplateTypes.buttons.localeStatus") }
+                        </SecondaryButton>
+                        <PrimaryButton
+                            onClick={ () => setShowNewTypeWizard(true) }
+                            data-testid={ `${ testId }-list-layout-add-button` }
+                        >
+                            <Icon name="add"/>
+                            { t("console:manage.features.emailTemplateTypes.buttons.newType") }
+                        </PrimaryButton>
+                    </>
                 )
             }
             isLoading={ isTemplateTypesFetchRequestLoading }
@@ -345,6 +356,15 @@ const EmailTemplateTypesPage: FunctionComponent<EmailTemplateTypesPagePropsInter
                         />
                     )
                 }
+                {
+                    showLocaleMatrix && (
+                        <EmailTemplateLocaleMatrix
+                            templateTypes={ emailTemplateTypes }
+                            onClose={ () => setShowLocaleMatrix(false) }
+                            data-testid={ `${ testId }-locale-matrix` }
+                        />
+                    )
+                }
             </ListLayout>
         </PageLayout>
     );
@@ -0,0 +1,267 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { MultiValueAttributeInterface, ProfileInfoInterface } from "@wso2is/core/models";
+import { EmailTemplateManagementConstants } from "../constants";
+import {
+    EmailTemplate,
+    EmailTemplateLocaleStatus,
+    EmailTemplateLocaleStatusInterface,
+    EmailTemplatePlaceholderInterface,
+    EmailTemplatePlaceholderValidationInterface
+} from "../models";
+
+/**
+ * Utility class for email template management operations.
+ */
+export class EmailTemplateManagementUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Returns the placeholders supported by a template type. The common placeholders are
+     * returned for the custom template types.
+     *
+     * @param {string} templateTypeName - Display name of the template type.
+     * @return {EmailTemplatePlaceholderInterface[]} Supported placeholders sorted by the key.
+     */
+    public static getPlaceholderCatalog(templateTypeName: string): EmailTemplatePlaceholderInterface[] {
+
+        const normalizedName: string = templateTypeName?.replace(/[\s_-]/g, "").toLowerCase();
+        const typePlaceholders: EmailTemplatePlaceholderInterface[] = EmailTemplateManagementConstants
+            .TEMPLATE_TYPE_PLACEHOLDERS.get(normalizedName) ?? [];
+
+        const catalog: Map<string, EmailTemplatePlaceholderInterface> = new Map<
+            string, EmailTemplatePlaceholderInterface>();
+
+        [ ...EmailTemplateManagementConstants.COMMON_PLACEHOLDERS, ...typePlaceholders ]
+            .forEach((placeholder: EmailTemplatePlaceholderInterface) => {
+                catalog.set(placeholder.key, placeholder);
+            });
+
+        return Array.from(catalog.values())
+            .sort((a: EmailTemplatePlaceholderInterface, b: EmailTemplatePlaceholderInterface) => {
+                return a.key.localeCompare(b.key);
+            });
+    }
+
+    /**
+     * Extracts the unique placeholder keys used in the content. The URL encoding prefix is removed
+     * from the keys. ex: `{{url:user-name}}` is resolved as `user-name`.
+     *
+     * @param {string} content - Template content.
+     * @return {string[]} Placeholder keys.
+     */
+    public static extractPlaceholders(content: string): string[] {
+
+        const placeholders: Set<string> = new Set<string>();
+
+        content?.replace(/{{\s*([^{}\s]+)\s*}}/g, (match: string, key: string) => {
+            placeholders.add(EmailTemplateManagementUtils.stripURLEncodingPrefix(key));
+
+            return match;
+        });
+
+        return Array.from(placeholders);
+    }
+
+    /**
+     * Checks the placeholders of a template against the placeholders supported by its type.
+     *
+     * @param {string[]} contents - Subject, body and footer of the template.
+     * @param {EmailTemplatePlaceholderInterface[]} catalog - Placeholders supported by the template type.
+     * @return {EmailTemplatePlaceholderValidationInterface} Missing and unknown placeholders.
+     */
+    public static validatePlaceholders(contents: string[],
+                                       catalog: EmailTemplatePlaceholderInterface[]
+    ): EmailTemplatePlaceholderValidationInterface {
+
+        const used: string[] = EmailTemplateManagementUtils.extractPlaceholders(contents.join(" "));
+        const supported: string[] = catalog.map((placeholder: EmailTemplatePlaceholderInterface) => placeholder.key);
+
+        return {
+            missing: catalog
+                .filter((placeholder: EmailTemplatePlaceholderInterface) => {
+                    return placeholder.required && !used.includes(placeholder.key);
+                })
+                .map((placeholder: EmailTemplatePlaceholderInterface) => placeholder.key),
+            unknown: used.filter((key: string) => {
+                return !supported.includes(key)
+                    && !EmailTemplateManagementConstants.DYNAMIC_PLACEHOLDER_PREFIXES
+                        .some((prefix: string) => key.startsWith(prefix));
+            })
+        };
+    }
+
+    /**
+     * Builds the data used to preview the templates. The sample values of the catalog are replaced
+     * with the attributes of the user when available, so that the preview looks realistic.
+     *
+     * @param {EmailTemplatePlaceholderInterface[]} catalog - Placeholders supported by the template type.
+     * @param {ProfileInfoInterface} profile - Profile of the user.
+     * @param {string} tenantDomain - Tenant domain.
+     * @return {Record<string, string>} Values keyed by the placeholder.
+     */
+    public static getPreviewData(catalog: EmailTemplatePlaceholderInterface[],
+                                 profile?: ProfileInfoInterface,
+                                 tenantDomain?: string): Record<string, string> {
+
+        const data: Record<string, string> = {};
+
+        catalog.forEach((placeholder: EmailTemplatePlaceholderInterface) => {
+            data[ placeholder.key ] = placeholder.sampleValue;
+        });
+
+        const email: string | MultiValueAttributeInterface = profile?.emails?.[ 0 ];
+        const overrides: Record<string, string> = {
+            "tenant-domain": tenantDomain,
+            "user-name": profile?.userName,
+            "user.claim.emailaddress": typeof email === "string" ? email : email?.value,
+            "user.claim.givenname": profile?.name?.givenName,
+            "user.claim.lastname": profile?.name?.familyName
+        };
+
+        Object.entries(overrides)
+            .filter(([ key, value ]: [ string, string ]) => value && key in data)
+            .forEach(([ key, value ]: [ string, string ]) => {
+                data[ key ] = value;
+            });
+
+        return data;
+    }
+
+    /**
+     * Replaces the placeholders of the content with the given values. Values are HTML escaped and
+     * the placeholders without a value are kept as they are.
+     *
+     * @param {string} content - Template content.
+     * @param {Record<string, string>} data - Values keyed by the placeholder.
+     * @return {string} Rendered content.
+     */
+    public static renderPlaceholders(content: string, data: Record<string, string>): string {
+
+        if (!content || !data) {
+            return content;
+        }
+
+        return content.replace(/{{\s*([^{}\s]+)\s*}}/g, (match: string, key: string) => {
+            const value: string = data[ EmailTemplateManagementUtils.stripURLEncodingPrefix(key) ];
+
+            if (value === undefined) {
+                return match;
+            }
+
+            return EmailTemplateManagementUtils.escapeHTML(
+                key.startsWith(EmailTemplateManagementConstants.URL_ENCODED_PLACEHOLDER_PREFIX)
+                    ? encodeURIComponent(value)
+                    : value
+            );
+        });
+    }
+
+    /**
+     * Compares the placeholders of the locale templates with the template of the default locale.
+     * A locale is out of date when its placeholders differ from the default locale.
+     *
+     * @param {EmailTemplate[]} templates - Locale templates of a template type.
+     * @param {string[]} locales - Locales to be evaluated.
+     * @param {string} defaultLocale - Default locale.
+     * @return {EmailTemplateLocaleStatusInterface[]} Status of each locale.
+     */
+    public static getLocaleStatuses(templates: EmailTemplate[],
+                                    locales: string[],
+                                    defaultLocale: string = EmailTemplateManagementConstants.DEFAULT_LOCALE
+    ): EmailTemplateLocaleStatusInterface[] {
+
+        const resolvePlaceholders = (template: EmailTemplate): string[] => {
+            return EmailTemplateManagementUtils.extractPlaceholders(
+                [ template.subject, template.body, template.footer ].join(" "));
+        };
+
+        const defaultTemplate: EmailTemplate = templates
+            .find((template: EmailTemplate) => template.id === defaultLocale);
+        const defaultPlaceholders: string[] = defaultTemplate ? resolvePlaceholders(defaultTemplate) : [];
+
+        return locales.map((locale: string) => {
+            const template: EmailTemplate = templates.find((template: EmailTemplate) => template.id === locale);
+
+            if (!template || (locale === defaultLocale)) {
+                return {
+                    extraPlaceholders: [],
+                    locale,
+                    missingPlaceholders: [],
+                    status: template ? EmailTemplateLocaleStatus.DEFAULT : EmailTemplateLocaleStatus.MISSING
+                };
+            }
+
+            const placeholders: string[] = resolvePlaceholders(template);
+            const missingPlaceholders: string[] = defaultTemplate
+                ? defaultPlaceholders.filter((key: string) => !placeholders.includes(key))
+                : [];
+            const extraPlaceholders: string[] = defaultTemplate
+                ? placeholders.filter((key: string) => !defaultPlaceholders.includes(key))
+                : [];
+
+            return {
+                extraPlaceholders,
+                locale,
+                missingPlaceholders,
+                status: (missingPlaceholders.length > 0 || extraPlaceholders.length > 0)
+                    ? EmailTemplateLocaleStatus.OUTDATED
+                    : EmailTemplateLocaleStatus.UP_TO_DATE
+            };
+        });
+    }
+
+    /**
+     * Removes the URL encoding prefix from a placeholder key.
+     *
+     * @param {string} key - Placeholder key.
+     * @return {string} Key without the prefix.
+     */
+    private static stripURLEncodingPrefix(key: string): string {
+
+        return key.startsWith(EmailTemplateManagementConstants.URL_ENCODED_PLACEHOLDER_PREFIX)
+            ? key.slice(EmailTemplateManagementConstants.URL_ENCODED_PLACEHOLDER_PREFIX.length)
+            : key;
+    }
+
+    /**
+     * Escapes the HTML special characters of a value.
+     *
+     * @param {string} value - Value to be escaped.
+     * @return {string} Escaped value.
+     */
+    private static escapeHTML(value: string): string {
+
+        return value
+            .replace(/&/g, "&amp;")
+            .replace(/</g, "&lt;")
+            .replace(/>/g, "&gt;")
+            .replace(/"/g, "&quot;")
+            .replace(/'/g, "&#39;");
+    }
+}
@@ -19,6 +19,7 @@
 import { IdentityClient } from "@wso2/identity-oidc-js";
 import { IdentityAppsApiException } from "@wso2is/core/exceptions";
 import { HttpMethods } from "@wso2is/core/models";
+import { ResourceClientUtils } from "@wso2is/core/utils";
 import { AxiosError, AxiosResponse } from "axios";
 import { store } from "../../core";
 import { IdentityProviderManagementConstants } from "../constants";
@@ -47,6 +48,13 @@ import {
  */
 const httpClient = IdentityClient.getInstance().httpRequest.bind(IdentityClient.getInstance());
 
+/**
+ * Marks the cached identity provider resources as stale after a mutation.
+ */
+const invalidateIdentityProviderResources = (): void => {
+    ResourceClientUtils.invalidate([ IdentityProviderManagementConstants.IDENTITY_PROVIDER_RESOURCE_TAG ]);
+};
+
 /**
  * Creates Identity Provider.
  *
@@ -69,6 +77,8 @@ export const createIdentityProvider = (identityProvider: object): Promise<any> =
             if ((response.status !== 201)) {
                 return Promise.reject(new Error("Failed to create the application."));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response);
         }).catch((error) => {
             return Promise.reject(error);
@@ -169,6 +179,8 @@ export const deleteIdentityProvider = (id: string): Promise<any> => {
             if (response.status !== 204) {
                 return Promise.reject(new Error("Failed to delete the identity provider."));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response);
         }).catch((error) => {
             return Promise.reject(error);
@@ -213,6 +225,8 @@ export const updateIdentityProviderDetails = (idp: IdentityProviderInterface): P
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to update identity provider: " + id));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response.data as IdentityProviderInterface);
         }).catch((error) => {
             return Promise.reject(error);
@@ -250,6 +264,8 @@ export const updateFederatedAuthenticator = (
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to update identity provider: " + idpId));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response.data as IdentityProviderInterface);
         }).catch((error) => {
             return Promise.reject(error);
@@ -321,9 +337,9 @@ export const getFederatedAuthenticatorMeta = (id: string): Promise<any> => {
 /**
  * Get federated authenticator details.
  *
- * @return {Promise<any>} A promise containing the response.
+ * @return {Promise<FederatedAuthenticatorListItemInterface[]>} A promise containing the response.
  */
-export const getFederatedAuthenticatorsList = (): Promise<any> => {
+export const getFederatedAuthenticatorsList = (): Promise<FederatedAuthenticatorListItemInterface[]> => {
 
     const requestConfig = {
         headers: {
@@ -340,7 +356,7 @@ export const getFederatedAuthenticatorsList = (): Promise<any> => {
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to get federated authenticators list"));
             }
-            return Promise.resolve(response.data as FederatedAuthenticatorMetaInterface);
+            return Promise.resolve(response.data as FederatedAuthenticatorListItemInterface[]);
         }).catch((error) => {
             return Promise.reject(error);
         });
@@ -475,6 +491,8 @@ export const updateOutboundProvisioningConnector = (
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to update identity provider: " + idpId));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response.data as IdentityProviderInterface);
         }).catch((error) => {
             return Promise.reject(error);
@@ -510,6 +528,8 @@ export const updateJITProvisioningConfigs = (
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to update identity provider: " + idpId));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response.data as IdentityProviderInterface);
         }).catch((error: AxiosError) => {
             throw new IdentityAppsApiException(
@@ -550,6 +570,8 @@ export const updateClaimsConfigs = (
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to update identity provider: " + idpId));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response.data as IdentityProviderInterface);
         }).catch((error: AxiosError) => {
             throw new IdentityAppsApiException(
@@ -683,6 +705,8 @@ export const updateIDPRoleMappings = (
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to update identity provider: " + idpId));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response.data as IdentityProviderInterface);
         }).catch((error) => {
             return Promise.reject(error);
@@ -785,6 +809,8 @@ export const updateIDPCertificate = (
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to update identity provider: " + idpId));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response.data as IdentityProviderInterface);
         }).catch((error: AxiosError) => {
             throw new IdentityAppsApiException(
@@ -825,6 +851,8 @@ export const updateOutboundProvisioningConnectors = (
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to update identity provider: " + idpId));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response.data as IdentityProviderInterface);
         }).catch((error) => {
             return Promise.reject(error);
@@ -859,6 +887,8 @@ export const updateFederatedAuthenticators = (
             if (response.status !== 200) {
                 return Promise.reject(new Error("Failed to update identity provider: " + idpId));
             }
+            invalidateIdentityProviderResources();
+
             return Promise.resolve(response.data as IdentityProviderInterface);
         }).catch((error) => {
             return Promise.reject(error);
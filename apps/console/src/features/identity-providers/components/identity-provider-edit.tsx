@@ -32,7 +32,12 @@ import {
     OutboundProvisioningSettings
 } from "./settings";
 import { JITProvisioningSettings } from "./settings/jit-provisioning-settings";
-import { ComponentExtensionPlaceholder, identityProviderConfig } from "../../../extensions";
+import {
+    ComponentExtensionPlaceholder,
+    ExtensionPointSlots,
+    getExtensionPointTabPanes,
+    identityProviderConfig
+} from "../../../extensions";
 import { IdentityProviderManagementConstants } from "../constants";
 import {
     IdentityProviderAdvanceInterface,
@@ -294,6 +299,11 @@ export const EditIdentityProvider: FunctionComponent<EditIdentityProviderPropsIn
                 render: AdvancedSettingsTabPane
             });
 
+        panes.push(...getExtensionPointTabPanes(ExtensionPointSlots.IDENTITY_PROVIDER_EDIT_TABS, {
+            identityProvider,
+            onIdentityProviderUpdate: () => onUpdate(identityProvider?.id)
+        }));
+
         return panes;
     };
 
@@ -35,6 +35,7 @@ import { Trans, useTranslation } from "react-i18next";
 import { useDispatch } from "react-redux";
 import { Divider, Header, Icon, List, SemanticICONS } from "semantic-ui-react";
 import { handleIDPDeleteError } from "./utils";
+import { ExtensionPointSlots, useExtensionPointRowActions } from "../../../extensions";
 import { getApplicationDetails } from "../../applications/api";
 import { ApplicationBasicInterface } from "../../applications/models";
 import {
@@ -137,6 +138,9 @@ export const IdentityProviderList: FunctionComponent<IdentityProviderListPropsIn
 
     const { t } = useTranslation();
 
+    const { actions: extensionActions, modal: extensionActionModal } = useExtensionPointRowActions(
+        ExtensionPointSlots.IDENTITY_PROVIDER_LIST_ROW_ACTIONS, testId);
+
     /**
      * Redirects to the identity provider edit page when the edit button is clicked.
      *
@@ -371,7 +375,8 @@ export const IdentityProviderList: FunctionComponent<IdentityProviderListPropsIn
                     handleIdentityProviderDeleteAction(idp.id),
                 popupText: (): string => t("common:delete"),
                 renderer: "semantic-icon"
-            }
+            },
+            ...extensionActions
         ];
     };
 
@@ -398,6 +403,7 @@ export const IdentityProviderList: FunctionComponent<IdentityProviderListPropsIn
                 transparent={ !isLoading && (showPlaceholders() !== null) }
                 data-testid={ testId }
             />
+            { extensionActionModal }
             {
                 deletingIDP && (
                     <ConfirmationModal
@@ -27,7 +27,13 @@ import React, { FunctionComponent, ReactElement, Suspense, useEffect, useState }
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
 import { Grid, Icon } from "semantic-ui-react";
-import { AuthenticatorSettings, GeneralSettings, OutboundProvisioningSettings, WizardSummary } from "./steps";
+import {
+    AuthenticatorSettings,
+    GeneralSettings,
+    ImportSettings,
+    OutboundProvisioningSettings,
+    WizardSummary
+} from "./steps";
 import { AppState, ModalWithSidePanel } from "../../../core";
 import {
     createIdentityProvider,
@@ -139,6 +145,9 @@ export const IdentityProviderCreateWizard: FunctionComponent<IdentityProviderCre
     const [submitAuthenticator, setSubmitAuthenticator] = useTrigger();
     const [submitOutboundProvisioningSettings, setSubmitOutboundProvisioningSettings] = useTrigger();
     const [ finishSubmit, setFinishSubmit ] = useTrigger();
+    const [ submitImport, setSubmitImport ] = useTrigger();
+
+    const [ isImportMode, setIsImportMode ] = useState<boolean>(false);
 
     const [ alert, setAlert, alertComponent ] = useWizardAlert();
 
@@ -668,22 +677,42 @@ export const IdentityProviderCreateWizard: FunctionComponent<IdentityProviderCre
                             data-testid={ `${ testId }-modal-cancel-button` }>
                             { t("common:cancel") }
                         </LinkButton>
+                        { !isImportMode && currentWizardStep === 0 && (
+                            <LinkButton floated="left" onClick={ (): void => setIsImportMode(true) }
+                                data-testid={ `${ testId }-modal-import-button` }>
+                                <Icon name="upload" />
+                                { t("console:develop.features.idp.buttons.importIDP") }
+                            </LinkButton>
+                        ) }
                     </Grid.Column>
                     <Grid.Column mobile={ 8 } tablet={ 8 } computer={ 8 }>
-                        { currentWizardStep < wizardSteps.length - 1 && (
+                        { isImportMode && (
+                            <>
+                                <PrimaryButton floated="right" onClick={ setSubmitImport }
+                                    data-testid={ `${ testId }-modal-import-finish-button` }>
+                                    { t("console:develop.features.idp.wizards.importIDP.buttons.import") }
+                                </PrimaryButton>
+                                <LinkButton floated="right" onClick={ (): void => setIsImportMode(false) }
+                                    data-testid={ `${ testId }-modal-import-back-button` }>
+                                    <Icon name="arrow left" />
+                                    { t("console:develop.features.authenticationProvider.wizards.buttons.previous") }
+                                </LinkButton>
+                            </>
+                        ) }
+                        { !isImportMode && currentWizardStep < wizardSteps.length - 1 && (
                             <PrimaryButton floated="right" onClick={ navigateToNext }
                                 data-testid={ `${ testId }-modal-next-button` }>
                                 { t("console:develop.features.authenticationProvider.wizards.buttons.next") }
                                 <Icon name="arrow right" />
                             </PrimaryButton>
                         ) }
-                        { currentWizardStep === wizardSteps.length - 1 && (
+                        { !isImportMode && currentWizardStep === wizardSteps.length - 1 && (
                             <PrimaryButton floated="right" onClick={ navigateToNext }
                                 data-testid={ `${ testId }-modal-finish-button` }>
                                 { t("console:develop.features.authenticationProvider.wizards.buttons.finish") }
                             </PrimaryButton>
                         ) }
-                        { currentWizardStep > 0 && (
+                        { !isImportMode && currentWizardStep > 0 && (
                             <LinkButton floated="right" onClick={ navigateToPrevious }
                                 data-testid={ `${ testId }-modal-previous-button` }>
                                 <Icon name="arrow left" />
@@ -742,21 +771,35 @@ export const IdentityProviderCreateWizard: FunctionComponent<IdentityProviderCre
                 >
                     <ModalWithSidePanel.MainPanel>
                         <ModalWithSidePanel.Header className="wizard-header" data-testid={ `${ testId }-modal-header` }>
-                            { title }
-                            { subTitle && <Heading as="h6">{ subTitle }</Heading> }
+                            {
+                                isImportMode
+                                    ? t("console:develop.features.idp.wizards.importIDP.header")
+                                    : title
+                            }
+                            { subTitle && !isImportMode && <Heading as="h6">{ subTitle }</Heading> }
                         </ModalWithSidePanel.Header>
                         <ModalWithSidePanel.Content
                             className="content-container"
                             data-testid={ `${ testId }-modal-content-2` }
                         >
                             { alert && alertComponent }
-                            { resolveStepContent(currentWizardStep) }
+                            {
+                                isImportMode
+                                    ? (
+                                        <ImportSettings
+                                            triggerSubmit={ submitImport }
+                                            onSubmit={ createNewIdentityProvider }
+                                            data-testid={ `${ testId }-import-settings` }
+                                        />
+                                    )
+                                    : resolveStepContent(currentWizardStep)
+                            }
                         </ModalWithSidePanel.Content>
                         <ModalWithSidePanel.Actions data-testid={ `${ testId }-modal-actions` }>
                             { renderModalActions() }
                         </ModalWithSidePanel.Actions>
                     </ModalWithSidePanel.MainPanel>
-                    { renderHelpPanel() }
+                    { !isImportMode && renderHelpPanel() }
                 </ModalWithSidePanel> : null
         )
     );
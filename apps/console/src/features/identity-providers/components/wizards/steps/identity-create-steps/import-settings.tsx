@@ -0,0 +1,442 @@
+/**
+ * Copyright (c) 2020, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import {
+    ResourceBundleInterface,
+    ResourceDiffInterface,
+    ResourceDiffTypes,
+    TestableComponentInterface
+} from "@wso2is/core/models";
+import { ResourceBundleUtils } from "@wso2is/core/utils";
+import { FilePicker, Heading, Hint, ResourceBundleFileStrategy } from "@wso2is/react-components";
+import cloneDeep from "lodash-es/cloneDeep";
+import get from "lodash-es/get";
+import set from "lodash-es/set";
+import React, { FunctionComponent, ReactElement, useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Form, Grid, Icon, Label, Message, SemanticCOLORS, Table } from "semantic-ui-react";
+import { getIdentityProviderList } from "../../../../api";
+import { IdentityProviderManagementConstants } from "../../../../constants";
+import {
+    CommonPluggableComponentPropertyInterface,
+    IdentityProviderInterface,
+    IdentityProviderListResponseInterface
+} from "../../../../models";
+import { IdentityProviderManagementUtils } from "../../../../utils";
+
+/**
+ * Proptypes for the identity provider import wizard form component.
+ */
+interface ImportSettingsWizardFormPropsInterface extends TestableComponentInterface {
+    /**
+     * Trigger to submit the form.
+     */
+    triggerSubmit: boolean;
+    /**
+     * Callback to be triggered with the identity provider to be created.
+     */
+    onSubmit: (values: IdentityProviderInterface) => void;
+}
+
+/**
+ * File strategy to read the identity provider export bundles.
+ * @constant
+ * @type {ResourceBundleFileStrategy}
+ */
+const FILE_STRATEGY: ResourceBundleFileStrategy = new ResourceBundleFileStrategy(
+    IdentityProviderManagementConstants.IDENTITY_PROVIDER_BUNDLE_KIND
+);
+
+/**
+ * Label colors of the diff types.
+ * @constant
+ * @type {Record<ResourceDiffTypes, SemanticCOLORS>}
+ */
+const DIFF_TYPE_COLORS: Record<ResourceDiffTypes, SemanticCOLORS> = {
+    [ ResourceDiffTypes.ADDED ]: "green",
+    [ ResourceDiffTypes.CHANGED ]: "orange",
+    [ ResourceDiffTypes.REMOVED ]: "red"
+};
+
+/**
+ * Identity provider import wizard form component. Reads an identity provider export bundle, collects
+ * the redacted secrets and previews the changes against an existing identity provider with the same name.
+ *
+ * @param {ImportSettingsWizardFormPropsInterface} props - Props injected to the component.
+ * @return {ReactElement}
+ */
+export const ImportSettings: FunctionComponent<ImportSettingsWizardFormPropsInterface> = (
+    props: ImportSettingsWizardFormPropsInterface
+): ReactElement => {
+
+    const {
+        triggerSubmit,
+        onSubmit,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ selectedFile, setSelectedFile ] = useState<File>(null);
+    const [ pastedContent, setPastedContent ] = useState<string>(null);
+    const [ bundle, setBundle ] = useState<ResourceBundleInterface<IdentityProviderInterface>>(null);
+    const [ name, setName ] = useState<string>("");
+    const [ secrets, setSecrets ] = useState<Record<string, string>>({});
+    const [ conflictingName, setConflictingName ] = useState<string>(null);
+    const [ diff, setDiff ] = useState<ResourceDiffInterface[]>([]);
+    const [ isDiffLoading, setIsDiffLoading ] = useState<boolean>(false);
+    const [ isEmptyFileError, setIsEmptyFileError ] = useState<boolean>(false);
+    const [ isEmptyNameError, setIsEmptyNameError ] = useState<boolean>(false);
+
+    const init = useRef(true);
+
+    /**
+     * Resets the form and previews the changes when a bundle is selected.
+     */
+    useEffect(() => {
+        setSecrets({});
+        setConflictingName(null);
+        setDiff([]);
+
+        if (!bundle) {
+            return;
+        }
+
+        setName(bundle.resource.name ?? "");
+        resolveConflicts(bundle.resource.name);
+    }, [ bundle ]);
+
+    /**
+     * Called when submit is triggered.
+     */
+    useEffect(() => {
+        if (init.current) {
+            init.current = false;
+
+            return;
+        }
+
+        if (!bundle) {
+            setIsEmptyFileError(true);
+
+            return;
+        }
+
+        if (!name?.trim()) {
+            setIsEmptyNameError(true);
+
+            return;
+        }
+
+        resolveConflicts(name.trim())
+            .then((hasConflict: boolean) => {
+                if (hasConflict) {
+                    return;
+                }
+
+                const identityProvider: IdentityProviderInterface = cloneDeep(bundle.resource);
+
+                Object.keys(secrets).forEach((path: string) => {
+                    if (secrets[ path ]) {
+                        set(identityProvider, path, secrets[ path ]);
+                    }
+                });
+
+                onSubmit({
+                    ...identityProvider,
+                    name: name.trim()
+                });
+            });
+    }, [ triggerSubmit ]);
+
+    /**
+     * Looks for an existing identity provider with the given name and previews the changes
+     * against it. If there's no such identity provider, every value is listed as an addition.
+     *
+     * @param {string} idpName - Name of the identity provider.
+     * @return {Promise<boolean>} Resolves to true if an identity provider exists with the name.
+     */
+    const resolveConflicts = (idpName: string): Promise<boolean> => {
+        if (!bundle || !idpName) {
+            return Promise.resolve(false);
+        }
+
+        setIsDiffLoading(true);
+
+        return getIdentityProviderList(null, null, `name eq ${ idpName }`)
+            .then((response: IdentityProviderListResponseInterface) => {
+                const existing: IdentityProviderInterface = response?.identityProviders?.find((idp) => {
+                    return idp.name === idpName;
+                });
+
+                setConflictingName(existing ? idpName : null);
+
+                if (!existing) {
+                    setDiff(ResourceBundleUtils.diff({}, bundle.resource, [ "name" ]));
+
+                    return false;
+                }
+
+                return IdentityProviderManagementUtils.buildIdentityProviderBundle(existing.id)
+                    .then((current: ResourceBundleInterface<IdentityProviderInterface>) => {
+                        setDiff(ResourceBundleUtils.diff(current.resource, bundle.resource, [
+                            ...current.redactedFields,
+                            ...bundle.redactedFields
+                        ]));
+                    })
+                    .catch(() => {
+                        setDiff([]);
+                    })
+                    .then(() => true);
+            })
+            // Let the create request surface the conflict if the check fails.
+            .catch(() => false)
+            .finally(() => {
+                setIsDiffLoading(false);
+            });
+    };
+
+    /**
+     * Resolves a readable label for a redacted property path.
+     * ex: `federatedAuthenticators.authenticators.0.properties.1.value` to `GoogleOIDCAuthenticator / ClientSecret`.
+     *
+     * @param {string} path - Redacted path.
+     * @return {string} Label.
+     */
+    const resolveSecretLabel = (path: string): string => {
+        const segments: string[] = path.split(".");
+        const property: CommonPluggableComponentPropertyInterface = get(bundle.resource, segments.slice(0, -1));
+        const component: { name?: string } = get(bundle.resource, segments.slice(0, -3));
+
+        if (!property?.key) {
+            return path;
+        }
+
+        return component?.name ? `${ component.name } / ${ property.key }` : property.key;
+    };
+
+    /**
+     * Stringifies a diff value for the preview.
+     *
+     * @param {unknown} value - Value to be shown.
+     * @return {string} Readable value.
+     */
+    const resolveDiffValue = (value: unknown): string => {
+        if (value === undefined) {
+            return "-";
+        }
+
+        return typeof value === "string" ? value : JSON.stringify(value);
+    };
+
+    return (
+        <Grid>
+            <Grid.Row columns={ 1 }>
+                <Grid.Column width={ 16 }>
+                    <FilePicker
+                        fileStrategy={ FILE_STRATEGY }
+                        file={ selectedFile }
+                        pastedContent={ pastedContent }
+                        onChange={ (result) => {
+                            setSelectedFile(result.file);
+                            setPastedContent(result.pastedContent);
+                            setBundle(result.valid
+                                ? result.serialized as ResourceBundleInterface<IdentityProviderInterface>
+                                : null);
+                            setIsEmptyFileError(false);
+                        } }
+                        uploadButtonText={
+                            t("console:develop.features.idp.wizards.importIDP.filePicker.uploadButtonText")
+                        }
+                        dropzoneText={
+                            t("console:develop.features.idp.wizards.importIDP.filePicker.dropzoneText")
+                        }
+                        pasteAreaPlaceholderText={
+                            t("console:develop.features.idp.wizards.importIDP.filePicker.pasteAreaPlaceholderText")
+                        }
+                        placeholderIcon={ <Icon name="file code outline" size="huge"/> }
+                        normalizeStateOnRemoveOperations={ true }
+                        data-testid={ `${ testId }-file-picker` }
+                    />
+                    <Hint>
+                        { t("console:develop.features.idp.wizards.importIDP.filePicker.hint") }
+                    </Hint>
+                    { isEmptyFileError && (
+                        <Message
+                            error
+                            visible
+                            content={
+                                t("console:develop.features.idp.wizards.importIDP.validations.emptyFile")
+                            }
+                            data-testid={ `${ testId }-empty-file-error` }
+                        />
+                    ) }
+                </Grid.Column>
+            </Grid.Row>
+            { bundle && (
+                <>
+                    <Grid.Row columns={ 1 }>
+                        <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 10 }>
+                            <Form>
+                                <Form.Input
+                                    label={
+                                        t("console:develop.features.idp.wizards.importIDP.fields.name.label")
+                                    }
+                                    placeholder={
+                                        t("console:develop.features.idp.wizards.importIDP.fields.name.placeholder")
+                                    }
+                                    required
+                                    value={ name }
+                                    onChange={ (e, { value }) => {
+                                        setName(value);
+                                        setIsEmptyNameError(false);
+                                    } }
+                                    onBlur={ () => resolveConflicts(name?.trim()) }
+                                    error={
+                                        isEmptyNameError
+                                            ? t("console:develop.features.idp.wizards.importIDP" +
+                                                ".fields.name.validations.empty")
+                                            : false
+                                    }
+                                    data-testid={ `${ testId }-name-input` }
+                                />
+                            </Form>
+                            <Hint compact>
+                                {
+                                    t("console:develop.features.idp.wizards.importIDP.summary",
+                                        { date: new Date(bundle.exportedAt).toLocaleString() })
+                                }
+                            </Hint>
+                        </Grid.Column>
+                    </Grid.Row>
+                    { bundle.redactedFields.length > 0 && (
+                        <Grid.Row columns={ 1 }>
+                            <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 10 }>
+                                <Heading as="h5">
+                                    { t("console:develop.features.idp.wizards.importIDP.secrets.heading") }
+                                </Heading>
+                                <Hint compact>
+                                    { t("console:develop.features.idp.wizards.importIDP.secrets.hint") }
+                                </Hint>
+                                <Form>
+                                    { bundle.redactedFields.map((path: string, index: number) => (
+                                        <Form.Input
+                                            key={ path }
+                                            type="password"
+                                            label={ resolveSecretLabel(path) }
+                                            placeholder={
+                                                t("console:develop.features.idp.wizards.importIDP.secrets.placeholder")
+                                            }
+                                            value={ secrets[ path ] ?? "" }
+                                            onChange={ (e, { value }) => {
+                                                setSecrets({ ...secrets, [ path ]: value });
+                                            } }
+                                            data-testid={ `${ testId }-secret-input-${ index }` }
+                                        />
+                                    )) }
+                                </Form>
+                            </Grid.Column>
+                        </Grid.Row>
+                    ) }
+                    <Grid.Row columns={ 1 }>
+                        <Grid.Column width={ 16 }>
+                            <Heading as="h5">
+                                { t("console:develop.features.idp.wizards.importIDP.diff.heading") }
+                            </Heading>
+                            {
+                                conflictingName && (
+                                    <Message
+                                        warning
+                                        visible
+                                        content={
+                                            t("console:develop.features.idp.wizards.importIDP" +
+                                                ".conflicts.name", { name: conflictingName })
+                                        }
+                                        data-testid={ `${ testId }-name-conflict` }
+                                    />
+                                )
+                            }
+                            {
+                                !isDiffLoading && diff.length === 0
+                                    ? (
+                                        <Hint compact>
+                                            { t("console:develop.features.idp.wizards.importIDP.diff.empty") }
+                                        </Hint>
+                                    )
+                                    : (
+                                        <Table compact="very" size="small" data-testid={ `${ testId }-diff` }>
+                                            <Table.Header>
+                                                <Table.Row>
+                                                    <Table.HeaderCell>
+                                                        { t("console:develop.features.idp" +
+                                                            ".wizards.importIDP.diff.columns.path") }
+                                                    </Table.HeaderCell>
+                                                    <Table.HeaderCell>
+                                                        { t("console:develop.features.idp" +
+                                                            ".wizards.importIDP.diff.columns.type") }
+                                                    </Table.HeaderCell>
+                                                    <Table.HeaderCell>
+                                                        { t("console:develop.features.idp" +
+                                                            ".wizards.importIDP.diff.columns.current") }
+                                                    </Table.HeaderCell>
+                                                    <Table.HeaderCell>
+                                                        { t("console:develop.features.idp" +
+                                                            ".wizards.importIDP.diff.columns.incoming") }
+                                                    </Table.HeaderCell>
+                                                </Table.Row>
+                                            </Table.Header>
+                                            <Table.Body>
+                                                { diff.map((change: ResourceDiffInterface) => (
+                                                    <Table.Row key={ change.path }>
+                                                        <Table.Cell><code>{ change.path }</code></Table.Cell>
+                                                        <Table.Cell>
+                                                            <Label
+                                                                size="mini"
+                                                                color={ DIFF_TYPE_COLORS[ change.type ] }
+                                                            >
+                                                                { t("console:develop.features.idp" +
+                                                                    ".wizards.importIDP.diff.types." +
+                                                                    change.type.toLowerCase()) }
+                                                            </Label>
+                                                        </Table.Cell>
+                                                        <Table.Cell className="ellipsis">
+                                                            { resolveDiffValue(change.currentValue) }
+                                                        </Table.Cell>
+                                                        <Table.Cell className="ellipsis">
+                                                            { resolveDiffValue(change.incomingValue) }
+                                                        </Table.Cell>
+                                                    </Table.Row>
+                                                )) }
+                                            </Table.Body>
+                                        </Table>
+                                    )
+                            }
+                        </Grid.Column>
+                    </Grid.Row>
+                </>
+            ) }
+        </Grid>
+    );
+};
+
+/**
+ * Default props for the identity provider import wizard form component.
+ */
+ImportSettings.defaultProps = {
+    "data-testid": "idp-import-settings"
+};
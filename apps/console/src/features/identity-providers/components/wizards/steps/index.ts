@@ -17,4 +17,5 @@
  */
 
 export * from "./identity-create-steps/general-settings";
+export * from "./identity-create-steps/import-settings";
 export * from "./shared-steps";
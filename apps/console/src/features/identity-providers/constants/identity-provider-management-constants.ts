@@ -186,6 +186,33 @@ export class IdentityProviderManagementConstants {
     public static readonly IDP_TEMPLATES_CREATE_DOCS_KEY = `${
         DocumentationConstants.PORTAL_DOCS_KEY }["Identity Providers"]["Create New Identity Provider"]`;
 
+    /**
+     * Kind of the identity provider export bundles.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly IDENTITY_PROVIDER_BUNDLE_KIND: string = "IdentityProvider";
+
+    /**
+     * Tag of the cached identity provider resources. Invalidated whenever an identity provider is mutated.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly IDENTITY_PROVIDER_RESOURCE_TAG: string = "identityProviders";
+
+    /**
+     * Keys of the cached identity provider resources.
+     * @constant
+     * @type {Map<string, string>}
+     * @default
+     */
+    public static readonly RESOURCE_KEYS: Map<string, string> = new Map<string, string>()
+        .set("ENABLED_IDENTITY_PROVIDERS", "identity-providers/enabled")
+        .set("FEDERATED_AUTHENTICATORS", "identity-providers/meta/federated-authenticators")
+        .set("LOCAL_AUTHENTICATORS", "identity-providers/meta/local-authenticators");
+
     public static readonly IDENTITY_PROVIDER_TEMPLATE_FETCH_INVALID_STATUS_CODE_ERROR: string = "Received an " +
         "invalid status code while fetching identity provider template.";
     public static readonly IDENTITY_PROVIDER_TEMPLATE_FETCH_ERROR: string = "An error occurred while fetching " +
@@ -206,6 +233,8 @@ export class IdentityProviderManagementConstants {
         "configurations of the identity provider.";
     public static readonly IDENTITY_PROVIDER_CERTIFICATE_UPDATE_ERROR: string = "An error occurred while updating " +
         "the certificate of the identity provider.";
+    public static readonly IDENTITY_PROVIDER_EXPORT_ERROR: string = "An error occurred while collecting the " +
+        "configurations of the identity provider for the export.";
     public static readonly BASIC_AUTH_REQUEST_PATH_AUTHENTICATOR: string = "BasicAuthRequestPathAuthenticator";
     public static readonly OAUTH_REQUEST_PATH_AUTHENTICATOR: string = "OAuthRequestPathAuthenticator";
     public static readonly PROVISIONING_CONNECTOR_DISPLAY_NAME: string = "displayName";
@@ -207,6 +207,10 @@ export interface IdentityProviderTemplateItemInterface {
     templateGroup?: string;
     subTemplates?: IdentityProviderTemplateItemInterface[];
     subTemplatesSectionTitle?: string;
+    /**
+     * Version of the template. Available for the templates loaded from the template registry.
+     */
+    version?: string;
 }
 
 /**
@@ -17,9 +17,15 @@
  */
 
 import { getRawDocumentation } from "@wso2is/core/api";
-import { AlertLevels, TestableComponentInterface } from "@wso2is/core/models";
+import { ResourceBundleConstants } from "@wso2is/core/constants";
+import {
+    AlertLevels,
+    ResourceBundleFormats,
+    ResourceBundleInterface,
+    TestableComponentInterface
+} from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
-import { StringUtils } from "@wso2is/core/utils";
+import { ResourceBundleUtils, StringUtils } from "@wso2is/core/utils";
 import {
     AnimatedAvatar,
     AppAvatar,
@@ -30,12 +36,13 @@ import {
     Markdown,
     PageLayout
 } from "@wso2is/react-components";
+import { saveAs } from "file-saver";
 import get from "lodash-es/get";
 import isEmpty from "lodash-es/isEmpty";
 import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
-import { Label } from "semantic-ui-react";
+import { Dropdown, Label } from "semantic-ui-react";
 import {
     AppConstants,
     AppState,
@@ -56,7 +63,7 @@ import {
     SupportedQuickStartTemplateTypes,
     emptyIdentityProvider
 } from "../models";
-import { IdentityProviderTemplateManagementUtils } from "../utils";
+import { IdentityProviderManagementUtils, IdentityProviderTemplateManagementUtils } from "../utils";
 
 /**
  * Proptypes for the IDP edit page component.
@@ -98,6 +105,7 @@ const IdentityProviderEditPage: FunctionComponent<IDPEditPagePropsInterface> = (
     ] = useState<boolean>(false);
     const [ defaultActiveIndex, setDefaultActiveIndex ] = useState<number>(0);
     const [ isExtensionsAvailable, setIsExtensionsAvailable ] = useState<boolean>(false);
+    const [ isExportRequestLoading, setIsExportRequestLoading ] = useState<boolean>(false);
 
     /**
      * Set the default doc content URL for the tab.
@@ -262,6 +270,51 @@ const IdentityProviderEditPage: FunctionComponent<IDPEditPagePropsInterface> = (
             });
     };
 
+    /**
+     * Exports the identity provider along with its authenticators and connectors as a bundle file.
+     *
+     * @param {ResourceBundleFormats} format - Format of the exported file.
+     */
+    const handleIdentityProviderExport = (format: ResourceBundleFormats): void => {
+        setIsExportRequestLoading(true);
+
+        IdentityProviderManagementUtils.buildIdentityProviderBundle(identityProvider.id)
+            .then((bundle: ResourceBundleInterface<IdentityProviderInterface>) => {
+                const blob: Blob = new Blob([ ResourceBundleUtils.serialize(bundle, format) ], {
+                    type: ResourceBundleConstants.MIME_TYPES.get(format)
+                });
+
+                saveAs(blob, ResourceBundleUtils.getFileName(bundle, identityProvider.name, format));
+
+                dispatch(addAlert({
+                    description: t("console:develop.features.idp.notifications.exportIDP.success.description"),
+                    level: AlertLevels.SUCCESS,
+                    message: t("console:develop.features.idp.notifications.exportIDP.success.message")
+                }));
+            })
+            .catch((error) => {
+                if (error.response && error.response.data && error.response.data.description) {
+                    dispatch(addAlert({
+                        description: t("console:develop.features.idp.notifications.exportIDP.error.description",
+                            { description: error.response.data.description }),
+                        level: AlertLevels.ERROR,
+                        message: t("console:develop.features.idp.notifications.exportIDP.error.message")
+                    }));
+
+                    return;
+                }
+
+                dispatch(addAlert({
+                    description: t("console:develop.features.idp.notifications.exportIDP.genericError.description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:develop.features.idp.notifications.exportIDP.genericError.message")
+                }));
+            })
+            .finally(() => {
+                setIsExportRequestLoading(false);
+            });
+    };
+
     /**
      * Handles the back button click event.
      */
@@ -373,6 +426,33 @@ const IdentityProviderEditPage: FunctionComponent<IDPEditPagePropsInterface> = (
             unpinButtonTooltip={ t("console:develop.features.helpPanel.actions.unPin") }
         >
             <PageLayout
+                action={
+                    isIdentityProviderRequestLoading === false && identityProvider.id && (
+                        <Dropdown
+                            button
+                            basic
+                            floating
+                            labeled
+                            className="icon"
+                            icon="download"
+                            loading={ isExportRequestLoading }
+                            disabled={ isExportRequestLoading }
+                            text={ t("console:develop.features.idp.buttons.exportIDP") }
+                            data-testid={ `${ testId }-export-dropdown` }
+                        >
+                            <Dropdown.Menu>
+                                { Object.values(ResourceBundleFormats).map((format: ResourceBundleFormats) => (
+                                    <Dropdown.Item
+                                        key={ format }
+                                        text={ format.toUpperCase() }
+                                        onClick={ (): void => handleIdentityProviderExport(format) }
+                                        data-testid={ `${ testId }-export-${ format }` }
+                                    />
+                                )) }
+                            </Dropdown.Menu>
+                        </Dropdown>
+                    )
+                }
                 isLoading={ isIdentityProviderRequestLoading }
                 title={ (
                     <>
@@ -32,7 +32,7 @@ import {
     TemplateGrid
 } from "@wso2is/react-components";
 import get from "lodash-es/get";
-import React, { FunctionComponent, ReactElement, SyntheticEvent, useEffect, useState } from "react";
+import React, { FunctionComponent, ReactElement, SyntheticEvent, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
 import { RouteComponentProps } from "react-router";
@@ -46,7 +46,12 @@ import {
     getHelpPanelActionIcons,
     HelpPanelUtils,
     history,
-    PortalDocumentationStructureInterface
+    PortalDocumentationStructureInterface,
+    TemplatePreviewModal,
+    TemplateRegistryIssueInterface,
+    TemplateRegistryIssues,
+    TemplateRegistryResourceTypes,
+    TemplateRegistryUtils
 } from "../../core";
 import {
     getHelpPanelIcons,
@@ -132,6 +137,11 @@ const IdentityProviderTemplateSelectPage: FunctionComponent<IdentityProviderTemp
      * Also, see {@link handleTemplateSelection} to set states.
      */
     const [ selectedTemplate, setSelectedTemplate ] = useState<IdentityProviderTemplateInterface>(undefined);
+    const [ previewTemplate, setPreviewTemplate ] = useState<IdentityProviderTemplateItemInterface>(undefined);
+
+    const registryIssues: TemplateRegistryIssueInterface[] = useMemo(() => {
+        return TemplateRegistryUtils.getIssues(TemplateRegistryResourceTypes.IDENTITY_PROVIDER);
+    }, [ identityProviderTemplates ]);
 
     /**
      * Called when the template doc is changed in the template section.
@@ -277,6 +287,17 @@ const IdentityProviderTemplateSelectPage: FunctionComponent<IdentityProviderTemp
         setTemplateType(id);
     };
 
+    /**
+     * Handles template preview.
+     *
+     * @param {React.SyntheticEvent} e - Click event.
+     * @param {string} id - Id of the template.
+     */
+    const handleTemplatePreview = (e: SyntheticEvent, { id }: { id: string }): void => {
+
+        setPreviewTemplate(identityProviderTemplates?.find(({ id: templateId }) => (templateId === id)));
+    };
+
     /**
      * Handles help panel template doc change event.
      *
@@ -390,6 +411,8 @@ const IdentityProviderTemplateSelectPage: FunctionComponent<IdentityProviderTemp
                 } }
                 templateIconSize="x60"
                 onTemplateSelect={ handleTemplateSelection }
+                onTemplatePreview={ handleTemplatePreview }
+                templatePreviewLabel={ t("console:develop.features.templates.preview.label") }
                 paginate={ true }
                 paginationLimit={ 5 }
                 paginationOptions={ {
@@ -457,6 +480,10 @@ const IdentityProviderTemplateSelectPage: FunctionComponent<IdentityProviderTemp
                 data-testid={ `${ testId }-page-layout` }
                 showBottomDivider
             >
+                <TemplateRegistryIssues
+                    issues={ registryIssues }
+                    data-testid={ `${ testId }-registry-issues` }
+                />
                 {
                     (categorizedTemplates && !isIDPTemplateRequestLoading)
                         ? (
@@ -507,6 +534,15 @@ const IdentityProviderTemplateSelectPage: FunctionComponent<IdentityProviderTemp
                         setShowWizard(false);
                     } }
                 />
+                {
+                    previewTemplate && (
+                        <TemplatePreviewModal
+                            template={ previewTemplate }
+                            onClose={ () => setPreviewTemplate(undefined) }
+                            data-testid={ `${ testId }-preview-modal` }
+                        />
+                    )
+                }
             </PageLayout>
         </HelpPanelLayout>
     );
@@ -29,6 +29,7 @@ import React, { FunctionComponent, MouseEvent, ReactElement, SyntheticEvent, use
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
 import { DropdownItemProps, DropdownProps, Icon, PaginationProps } from "semantic-ui-react";
+import { ExtensionPoint, ExtensionPointSlots } from "../../../extensions";
 import {
     AdvancedSearchWithBasicFilters,
     AppConstants,
@@ -212,14 +213,20 @@ const IdentityProvidersPage: FunctionComponent<IDPPropsInterface> = (
             action={
                 (isIdPListRequestLoading || !(!searchQuery && idpList?.totalResults <= 0))
                 && (
-                    <PrimaryButton
-                        onClick={ (): void => {
-                            history.push(AppConstants.getPaths().get("IDP_TEMPLATES"));
-                        } }
-                        data-testid={ `${ testId }-add-button` }
-                    >
-                        <Icon name="add" />{ t("console:develop.features.authenticationProvider.buttons.addIDP") }
-                    </PrimaryButton>
+                    <>
+                        <ExtensionPoint
+                            slot={ ExtensionPointSlots.IDENTITY_PROVIDER_LIST_HEADER_ACTIONS }
+                            data-testid={ `${ testId }-header-actions` }
+                        />
+                        <PrimaryButton
+                            onClick={ (): void => {
+                                history.push(AppConstants.getPaths().get("IDP_TEMPLATES"));
+                            } }
+                            data-testid={ `${ testId }-add-button` }
+                        >
+                            <Icon name="add" />{ t("console:develop.features.authenticationProvider.buttons.addIDP") }
+                        </PrimaryButton>
+                    </>
                 )
             }
             title={ t("console:develop.pages.authenticationProvider.title") }
@@ -18,25 +18,42 @@
  */
 
 import { IdentityAppsApiException } from "@wso2is/core/exceptions";
-import { AlertLevels } from "@wso2is/core/models";
+import { AlertLevels, ResourceBundleInterface } from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
-import { ImageUtils, URLUtils } from "@wso2is/core/utils";
+import { ImageUtils, ResourceBundleUtils, ResourceClientUtils, URLUtils } from "@wso2is/core/utils";
 import { I18n } from "@wso2is/i18n";
 import axios from "axios";
 import camelCase from "lodash-es/camelCase";
 import isEmpty from "lodash-es/isEmpty";
 import { identityProviderConfig } from "../../../extensions";
 import { DocPanelUICardInterface, store } from "../../core";
-import { getFederatedAuthenticatorsList, getIdentityProviderList, getLocalAuthenticators } from "../api";
+import {
+    getFederatedAuthenticatorDetails,
+    getFederatedAuthenticatorMetadata,
+    getFederatedAuthenticatorsList,
+    getIdentityProviderDetail,
+    getIdentityProviderList,
+    getLocalAuthenticators,
+    getOutboundProvisioningConnector,
+    getOutboundProvisioningConnectorMetadata
+} from "../api";
 import { getSelectedFederatedAuthenticators, getSelectedLocalAuthenticators } from "../components";
 import { getAuthenticatorIcons } from "../configs";
 import { IdentityProviderManagementConstants } from "../constants";
 import { AuthenticatorMeta } from "../meta";
 import {
+    CommonPluggableComponentInterface,
+    CommonPluggableComponentMetaInterface,
+    CommonPluggableComponentMetaPropertyInterface,
     FederatedAuthenticatorInterface,
+    FederatedAuthenticatorListItemInterface,
+    FederatedAuthenticatorMetaInterface,
     GenericAuthenticatorInterface,
+    IdentityProviderInterface,
     IdentityProviderListResponseInterface,
     LocalAuthenticatorInterface,
+    OutboundProvisioningConnectorInterface,
+    OutboundProvisioningConnectorMetaInterface,
     StrictGenericAuthenticatorInterface,
     StrictIdentityProviderInterface
 } from "../models";
@@ -60,8 +77,11 @@ export class IdentityProviderManagementUtils {
      * Gets the list of available authenticator list and sets them in the redux store.
      */
     public static getAuthenticators(): Promise<void> {
-        return getFederatedAuthenticatorsList()
-            .then((response): void => {
+        return ResourceClientUtils.fetch<FederatedAuthenticatorListItemInterface[]>({
+            fetcher: getFederatedAuthenticatorsList,
+            key: IdentityProviderManagementConstants.RESOURCE_KEYS.get("FEDERATED_AUTHENTICATORS")
+        })
+            .then((response: FederatedAuthenticatorListItemInterface[]): void => {
                 store.dispatch(
                     setAvailableAuthenticatorsMeta(response)
                 );
@@ -111,14 +131,25 @@ export class IdentityProviderManagementUtils {
     public static getAllAuthenticators(): Promise<GenericAuthenticatorInterface[][]> {
 
         const loadFederatedAuthenticators = (): Promise<IdentityProviderListResponseInterface> => {
-            return getIdentityProviderList(null, null, "isEnabled eq \"true\"", "federatedAuthenticators");
+            return ResourceClientUtils.fetch<IdentityProviderListResponseInterface>({
+                fetcher: () => getIdentityProviderList(null, null, "isEnabled eq \"true\"",
+                    "federatedAuthenticators"),
+                key: IdentityProviderManagementConstants.RESOURCE_KEYS.get("ENABLED_IDENTITY_PROVIDERS"),
+                tags: [ IdentityProviderManagementConstants.IDENTITY_PROVIDER_RESOURCE_TAG ]
+            });
         };
 
-        const loadLocalAuthenticators = (): Promise<LocalAuthenticatorInterface[]> | any => {
-            return getLocalAuthenticators();
+        const loadLocalAuthenticators = (): Promise<LocalAuthenticatorInterface[]> => {
+            return ResourceClientUtils.fetch<LocalAuthenticatorInterface[]>({
+                fetcher: getLocalAuthenticators,
+                key: IdentityProviderManagementConstants.RESOURCE_KEYS.get("LOCAL_AUTHENTICATORS")
+            });
         };
 
-        return axios.all([ loadLocalAuthenticators(), loadFederatedAuthenticators() ])
+        return axios.all<LocalAuthenticatorInterface[] | IdentityProviderListResponseInterface>([
+            loadLocalAuthenticators(),
+            loadFederatedAuthenticators()
+        ])
             .then(axios.spread((local: LocalAuthenticatorInterface[],
                                           federated: IdentityProviderListResponseInterface) => {
 
@@ -328,4 +359,124 @@ export class IdentityProviderManagementUtils {
 
         return match ? icons[ match ] : icons[ "default" ] ?? image;
     }
+
+    /**
+     * Collects the identity provider along with the details of all the federated authenticators and
+     * outbound provisioning connectors, and builds a portable export bundle. Values of the confidential
+     * properties are redacted.
+     *
+     * @param {string} id - Id of the identity provider.
+     * @return {Promise<ResourceBundleInterface<IdentityProviderInterface>>} Export bundle.
+     * @throws {IdentityAppsApiException}
+     */
+    public static buildIdentityProviderBundle(id: string): Promise<ResourceBundleInterface<IdentityProviderInterface>> {
+
+        return getIdentityProviderDetail(id)
+            .then((idp: IdentityProviderInterface) => {
+                const authenticators: FederatedAuthenticatorInterface[] = idp.federatedAuthenticators
+                    ?.authenticators ?? [];
+                const connectors: OutboundProvisioningConnectorInterface[] = idp.provisioning?.outboundConnectors
+                    ?.connectors ?? [];
+
+                return axios.all([
+                    axios.all(authenticators.map((authenticator: FederatedAuthenticatorInterface) => {
+                        return getFederatedAuthenticatorDetails(id, authenticator.authenticatorId);
+                    })),
+                    axios.all(authenticators.map((authenticator: FederatedAuthenticatorInterface) => {
+                        return getFederatedAuthenticatorMetadata(authenticator.authenticatorId);
+                    })),
+                    axios.all(connectors.map((connector: OutboundProvisioningConnectorInterface) => {
+                        return getOutboundProvisioningConnector(id, connector.connectorId);
+                    })),
+                    axios.all(connectors.map((connector: OutboundProvisioningConnectorInterface) => {
+                        return getOutboundProvisioningConnectorMetadata(connector.connectorId);
+                    }))
+                ])
+                    .then(axios.spread((authenticatorDetails: FederatedAuthenticatorInterface[],
+                                        authenticatorMeta: FederatedAuthenticatorMetaInterface[],
+                                        connectorDetails: OutboundProvisioningConnectorInterface[],
+                                        connectorMeta: OutboundProvisioningConnectorMetaInterface[]) => {
+
+                        const resource: IdentityProviderInterface = {
+                            alias: idp.alias,
+                            certificate: idp.certificate,
+                            claims: idp.claims,
+                            description: idp.description,
+                            federatedAuthenticators: {
+                                authenticators: authenticatorDetails,
+                                defaultAuthenticatorId: idp.federatedAuthenticators?.defaultAuthenticatorId
+                            },
+                            homeRealmIdentifier: idp.homeRealmIdentifier,
+                            image: idp.image,
+                            isEnabled: idp.isEnabled,
+                            isFederationHub: idp.isFederationHub,
+                            isPrimary: idp.isPrimary,
+                            name: idp.name,
+                            provisioning: {
+                                jit: idp.provisioning?.jit,
+                                outboundConnectors: {
+                                    connectors: connectorDetails,
+                                    defaultConnectorId: idp.provisioning?.outboundConnectors?.defaultConnectorId
+                                }
+                            },
+                            roles: idp.roles,
+                            templateId: idp.templateId
+                        };
+
+                        return ResourceBundleUtils.createBundle<IdentityProviderInterface>(
+                            IdentityProviderManagementConstants.IDENTITY_PROVIDER_BUNDLE_KIND,
+                            resource,
+                            [
+                                ...IdentityProviderManagementUtils.getConfidentialPropertyPaths(
+                                    "federatedAuthenticators.authenticators", authenticatorDetails,
+                                    authenticatorMeta),
+                                ...IdentityProviderManagementUtils.getConfidentialPropertyPaths(
+                                    "provisioning.outboundConnectors.connectors", connectorDetails, connectorMeta)
+                            ]
+                        );
+                    }));
+            })
+            .catch((error) => {
+                throw new IdentityAppsApiException(
+                    IdentityProviderManagementConstants.IDENTITY_PROVIDER_EXPORT_ERROR,
+                    error.stack,
+                    error.code,
+                    error.request,
+                    error.response,
+                    error.config);
+            });
+    }
+
+    /**
+     * Resolves the paths of the confidential property values of a set of pluggable components
+     * i.e. federated authenticators or outbound provisioning connectors.
+     *
+     * @param {string} basePath - Path of the components array.
+     * @param {CommonPluggableComponentInterface[]} components - Components.
+     * @param {CommonPluggableComponentMetaInterface[]} meta - Metadata of the components in the same order.
+     * @return {string[]} Paths of the confidential values.
+     */
+    private static getConfidentialPropertyPaths(basePath: string, components: CommonPluggableComponentInterface[],
+                                                meta: CommonPluggableComponentMetaInterface[]): string[] {
+
+        const getConfidentialKeys = (properties: CommonPluggableComponentMetaPropertyInterface[]): string[] => {
+            return (properties ?? []).reduce((keys: string[], property) => [
+                ...keys,
+                ...(property.isConfidential ? [ property.key ] : []),
+                ...getConfidentialKeys(property.subProperties)
+            ], []);
+        };
+
+        return components.reduce((paths: string[], component: CommonPluggableComponentInterface, index: number) => {
+            const confidentialKeys: string[] = getConfidentialKeys(meta[ index ]?.properties);
+
+            component?.properties?.forEach((property, propertyIndex: number) => {
+                if (confidentialKeys.includes(property.key)) {
+                    paths.push(`${ basePath }.${ index }.properties.${ propertyIndex }.value`);
+                }
+            });
+
+            return paths;
+        }, []);
+    }
 }
@@ -17,13 +17,22 @@
  *
  */
 
+import { JSONSchemaInterface } from "@wso2is/core/models";
 import { I18n } from "@wso2is/i18n";
 import groupBy from "lodash-es/groupBy";
-import { store } from "../../core";
+import unionBy from "lodash-es/unionBy";
+import {
+    TemplateRegistryResourceTypes,
+    TemplateRegistryResultInterface,
+    TemplateRegistryUtils,
+    store
+} from "../../core";
 import { getIdentityProviderTemplateList } from "../api";
 import { ExpertModeTemplate, handleGetIDPTemplateListError } from "../components";
 import { getIdPCapabilityIcons } from "../configs";
 import { getIdentityProviderTemplatesConfig, TemplateConfigInterface } from "../data/identity-provider-templates";
+import IdentityProviderTemplateSchema
+    from "../data/identity-provider-templates/identity-provider-template.schema.json";
 import {
     IdentityProviderTemplateCategoryInterface,
     IdentityProviderTemplateGroupInterface,
@@ -50,6 +59,7 @@ export class IdentityProviderTemplateManagementUtils {
 
     /**
      * Retrieve IDP template list from local files or API and sets it in redux state.
+     * Local templates are merged with the templates of the template registry if it's enabled.
      *
      * @param {boolean} skipGrouping - Skip grouping of templates.
      * @param {boolean} useAPI - Flag to determine whether to use API or local files.
@@ -63,6 +73,9 @@ export class IdentityProviderTemplateManagementUtils {
 
         if (!useAPI) {
             return IdentityProviderTemplateManagementUtils.loadLocalFileBasedTemplates()
+                .then((response: IdentityProviderTemplateInterface[]) => {
+                    return IdentityProviderTemplateManagementUtils.mergeRegistryTemplates(response);
+                })
                 /**
                  * TODO: check why type errors are appearing even if we pass down the
                  *       correct mapping interfaces. These compilation type errors are
@@ -138,6 +151,9 @@ export class IdentityProviderTemplateManagementUtils {
                                                  sort: boolean = true): Promise<IdentityProviderTemplateInterface> => {
 
         return IdentityProviderTemplateManagementUtils.loadLocalFileBasedTemplates()
+            .then((response: IdentityProviderTemplateInterface[]) => {
+                return IdentityProviderTemplateManagementUtils.mergeRegistryTemplates(response);
+            })
             .then((response: any): any => {
 
                 response = response.filter((template: IdentityProviderTemplateListItemInterface) => {
@@ -363,6 +379,38 @@ export class IdentityProviderTemplateManagementUtils {
         return Promise.all([ ...templates ]);
     }
 
+    /**
+     * Loads the templates from the template registry and merges them with the given templates.
+     * Registry templates replace the templates with the same id.
+     *
+     * @param {IdentityProviderTemplateInterface[]} templates - Templates available in the app.
+     * @return {Promise<IdentityProviderTemplateInterface[]>}
+     */
+    private static mergeRegistryTemplates(
+        templates: IdentityProviderTemplateInterface[]): Promise<IdentityProviderTemplateInterface[]> {
+
+        if (!TemplateRegistryUtils.isEnabled()) {
+            return Promise.resolve(templates);
+        }
+
+        const categories: string[] = getIdentityProviderTemplatesConfig().categories
+            .map((config: TemplateConfigInterface<IdentityProviderTemplateCategoryInterface>) => config.id);
+
+        // Templates of unknown categories are not shown in the template grid.
+        const validateCategory = (template: IdentityProviderTemplateInterface): string[] => {
+            return categories.includes(template.category)
+                ? []
+                : [ `The category "${ template.category }" is not available.` ];
+        };
+
+        return TemplateRegistryUtils
+            .getTemplates<IdentityProviderTemplateInterface>(TemplateRegistryResourceTypes.IDENTITY_PROVIDER,
+                IdentityProviderTemplateSchema as JSONSchemaInterface, validateCategory)
+            .then((result: TemplateRegistryResultInterface<IdentityProviderTemplateInterface>) => {
+                return unionBy(result.templates, templates, "id");
+            });
+    }
+
     /**
      * Loads local file based IDP template categories.
      *
@@ -0,0 +1,286 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { AlertLevels, RolesInterface, TestableComponentInterface } from "@wso2is/core/models";
+import { addAlert } from "@wso2is/core/store";
+import { Heading, Hint, LinkButton, PrimaryButton } from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import { DropdownProps, Form, Icon, List, Message, Modal } from "semantic-ui-react";
+import { PermissionList } from "./wizard";
+import { RolePermissionOperations, RolePermissionUpdateResultInterface, TreeNode } from "../models";
+import { RoleManagementUtils } from "../utils";
+
+/**
+ * Proptypes for the bulk permission editor component.
+ */
+interface BulkPermissionEditorPropsInterface extends TestableComponentInterface {
+    /**
+     * Roles available for the update.
+     */
+    roles: RolesInterface[];
+    /**
+     * Callback to be triggered when the editor is closed.
+     */
+    onClose: () => void;
+    /**
+     * Callback to be triggered once the roles are updated.
+     */
+    onUpdate?: () => void;
+}
+
+/**
+ * Adds or removes a set of permissions from many roles at once.
+ *
+ * @param {BulkPermissionEditorPropsInterface} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const BulkPermissionEditor: FunctionComponent<BulkPermissionEditorPropsInterface> = (
+    props: BulkPermissionEditorPropsInterface
+): ReactElement => {
+
+    const {
+        roles,
+        onClose,
+        onUpdate,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const dispatch = useDispatch();
+
+    const [ selectedRoleIds, setSelectedRoleIds ] = useState<string[]>([]);
+    const [ operation, setOperation ] = useState<RolePermissionOperations>(RolePermissionOperations.ADD);
+    const [ triggerSubmit, setTriggerSubmit ] = useState<boolean>(false);
+    const [ isUpdateInProgress, setIsUpdateInProgress ] = useState<boolean>(false);
+    const [ isEmptyRolesError, setIsEmptyRolesError ] = useState<boolean>(false);
+    const [ isEmptyPermissionsError, setIsEmptyPermissionsError ] = useState<boolean>(false);
+    const [ results, setResults ] = useState<RolePermissionUpdateResultInterface[]>(null);
+
+    /**
+     * Applies the permission change on the selected roles.
+     *
+     * @param {TreeNode[]} checkedPermissions - Permissions selected in the permission tree.
+     */
+    const handlePermissionSubmit = (checkedPermissions: TreeNode[]): void => {
+        const hasRoles: boolean = selectedRoleIds.length > 0;
+        const hasPermissions: boolean = checkedPermissions.length > 0;
+
+        setIsEmptyRolesError(!hasRoles);
+        setIsEmptyPermissionsError(!hasPermissions);
+
+        if (!hasRoles || !hasPermissions) {
+            return;
+        }
+
+        setIsUpdateInProgress(true);
+
+        RoleManagementUtils.applyPermissionChange(
+            roles.filter((role: RolesInterface) => selectedRoleIds.includes(role.id)),
+            checkedPermissions.map((permission: TreeNode) => permission.key.toString()),
+            operation
+        )
+            .then((updateResults: RolePermissionUpdateResultInterface[]) => {
+                const failedCount: number = updateResults.filter((result) => !result.success).length;
+
+                setResults(updateResults);
+
+                dispatch(addAlert({
+                    description: t("console:manage.features.roles.notifications.bulkUpdatePermissions." +
+                        (failedCount > 0 ? "error" : "success") + ".description", {
+                        failed: failedCount,
+                        updated: updateResults.length - failedCount
+                    }),
+                    level: failedCount > 0 ? AlertLevels.WARNING : AlertLevels.SUCCESS,
+                    message: t("console:manage.features.roles.notifications.bulkUpdatePermissions." +
+                        (failedCount > 0 ? "error" : "success") + ".message")
+                }));
+
+                onUpdate && onUpdate();
+            })
+            .finally(() => {
+                setIsUpdateInProgress(false);
+            });
+    };
+
+    /**
+     * Renders the results of the last update.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderResults = (): ReactElement => (
+        <List relaxed data-testid={ `${ testId }-results` }>
+            {
+                results.map((result: RolePermissionUpdateResultInterface) => (
+                    <List.Item key={ result.role.id }>
+                        <Icon
+                            name={ result.success ? "check circle" : "times circle" }
+                            color={ result.success ? "green" : "red" }
+                        />
+                        <List.Content>
+                            <List.Header>{ result.role.displayName }</List.Header>
+                            <List.Description>
+                                {
+                                    result.success
+                                        ? t("console:manage.features.roles.bulkPermissionEditor.results.success")
+                                        : result.error
+                                            ?? t("console:manage.features.roles.bulkPermissionEditor.results.error")
+                                }
+                            </List.Description>
+                        </List.Content>
+                    </List.Item>
+                ))
+            }
+        </List>
+    );
+
+    /**
+     * Renders the form to select the roles and the permissions.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderForm = (): ReactElement => (
+        <>
+            <Form>
+                <Form.Dropdown
+                    fluid
+                    multiple
+                    search
+                    selection
+                    label={ t("console:manage.features.roles.bulkPermissionEditor.fields.roles.label") }
+                    placeholder={ t("console:manage.features.roles.bulkPermissionEditor.fields.roles.placeholder") }
+                    options={ roles.map((role: RolesInterface) => ({
+                        key: role.id,
+                        text: role.displayName,
+                        value: role.id
+                    })) }
+                    value={ selectedRoleIds }
+                    onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                        setSelectedRoleIds(value as string[]);
+                        setIsEmptyRolesError(false);
+                    } }
+                    error={
+                        isEmptyRolesError
+                            ? t("console:manage.features.roles.bulkPermissionEditor.fields.roles.validations.empty")
+                            : false
+                    }
+                    data-testid={ `${ testId }-roles-dropdown` }
+                />
+                <Form.Group inline>
+                    <label>{ t("console:manage.features.roles.bulkPermissionEditor.fields.operation.label") }</label>
+                    {
+                        Object.values(RolePermissionOperations).map((value: RolePermissionOperations) => (
+                            <Form.Radio
+                                key={ value }
+                                label={
+                                    t("console:manage.features.roles.bulkPermissionEditor.fields.operation." + value)
+                                }
+                                value={ value }
+                                checked={ operation === value }
+                                onChange={ () => setOperation(value) }
+                                data-testid={ `${ testId }-operation-${ value }-radio` }
+                            />
+                        ))
+                    }
+                </Form.Group>
+            </Form>
+            <Hint>
+                {
+                    operation === RolePermissionOperations.ADD
+                        ? t("console:manage.features.roles.bulkPermissionEditor.hints.add")
+                        : t("console:manage.features.roles.bulkPermissionEditor.hints.remove")
+                }
+            </Hint>
+            { isEmptyPermissionsError && (
+                <Message
+                    error
+                    visible
+                    content={ t("console:manage.features.roles.bulkPermissionEditor.validations.emptyPermissions") }
+                    data-testid={ `${ testId }-empty-permissions-error` }
+                />
+            ) }
+            <PermissionList
+                isEdit={ false }
+                triggerSubmit={ triggerSubmit }
+                onSubmit={ handlePermissionSubmit }
+                data-testid={ `${ testId }-permission-list` }
+            />
+        </>
+    );
+
+    return (
+        <Modal
+            data-testid={ testId }
+            open={ true }
+            dimmer="blurring"
+            size="large"
+            onClose={ onClose }
+            closeOnDimmerClick={ false }
+            closeOnEscape={ !isUpdateInProgress }
+        >
+            <Modal.Header>
+                { t("console:manage.features.roles.bulkPermissionEditor.heading") }
+                <Heading as="h6">{ t("console:manage.features.roles.bulkPermissionEditor.subHeading") }</Heading>
+            </Modal.Header>
+            <Modal.Content scrolling>
+                { results ? renderResults() : renderForm() }
+            </Modal.Content>
+            <Modal.Actions>
+                <LinkButton
+                    floated="left"
+                    disabled={ isUpdateInProgress }
+                    onClick={ onClose }
+                    data-testid={ `${ testId }-close-button` }
+                >
+                    { t("common:close") }
+                </LinkButton>
+                {
+                    results
+                        ? (
+                            <PrimaryButton
+                                onClick={ () => setResults(null) }
+                                data-testid={ `${ testId }-back-button` }
+                            >
+                                { t("console:manage.features.roles.bulkPermissionEditor.buttons.back") }
+                            </PrimaryButton>
+                        )
+                        : (
+                            <PrimaryButton
+                                loading={ isUpdateInProgress }
+                                disabled={ isUpdateInProgress }
+                                onClick={ () => setTriggerSubmit(!triggerSubmit) }
+                                data-testid={ `${ testId }-apply-button` }
+                            >
+                                { t("console:manage.features.roles.bulkPermissionEditor.buttons.apply") }
+                            </PrimaryButton>
+                        )
+                }
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the bulk permission editor component.
+ */
+BulkPermissionEditor.defaultProps = {
+    "data-testid": "bulk-permission-editor"
+};
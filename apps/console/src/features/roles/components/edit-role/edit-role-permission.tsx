@@ -16,13 +16,18 @@
  * under the License
  */
 
-import { AlertLevels, RolesInterface } from "@wso2is/core/models";
+import { ResourceBundleConstants } from "@wso2is/core/constants";
+import { AlertLevels, ResourceBundleFormats, ResourceBundleInterface, RolesInterface } from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
+import { ResourceBundleUtils } from "@wso2is/core/utils";
+import { saveAs } from "file-saver";
 import React, { FunctionComponent, ReactElement } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch } from "react-redux";
+import { Button, Icon } from "semantic-ui-react";
 import { updateRole } from "../../api";
-import { TreeNode } from "../../models";
+import { RolePermissionExportInterface, TreeNode } from "../../models";
+import { RoleManagementUtils } from "../../utils";
 import { PermissionList } from "../wizard";
 
 /**
@@ -135,8 +140,31 @@ export const RolePermissionDetails: FunctionComponent<RolePermissionDetailProps>
             });
     };
 
+    /**
+     * Exports the permissions of the role as a JSON file.
+     */
+    const handlePermissionExport = (): void => {
+        const bundle: ResourceBundleInterface<RolePermissionExportInterface> = RoleManagementUtils
+            .buildPermissionBundle(roleObject);
+        const blob: Blob = new Blob([ ResourceBundleUtils.serialize(bundle, ResourceBundleFormats.JSON) ], {
+            type: ResourceBundleConstants.MIME_TYPES.get(ResourceBundleFormats.JSON)
+        });
+
+        saveAs(blob, ResourceBundleUtils.getFileName(bundle, roleObject.displayName, ResourceBundleFormats.JSON));
+    };
+
     return (
         <div className="permissions-edit-container">
+            <Button
+                basic
+                floated="right"
+                size="small"
+                onClick={ handlePermissionExport }
+                data-testid="role-mgt-edit-role-permissions-export-button"
+            >
+                <Icon name="download"/>
+                { t("console:manage.features.roles.edit.permissions.buttons.export") }
+            </Button>
             <PermissionList
                 isReadOnly={ isReadOnly }
                 isEdit={ !isReadOnly }
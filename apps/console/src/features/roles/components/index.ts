@@ -19,4 +19,5 @@
 export * from "./role-list";
 export * from "./wizard";
 export * from "./edit-role";
-
+export * from "./bulk-permission-editor";
+export * from "./role-permission-diff";
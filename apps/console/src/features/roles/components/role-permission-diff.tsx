@@ -0,0 +1,353 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { AlertLevels, RolesInterface, TestableComponentInterface } from "@wso2is/core/models";
+import { addAlert } from "@wso2is/core/store";
+import {
+    ConfirmationModal,
+    ContentLoader,
+    Heading,
+    LinkButton,
+    PrimaryButton,
+    Text
+} from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import { DropdownProps, Form, Grid, Label, List, Modal, Segment, SemanticCOLORS } from "semantic-ui-react";
+import { RolePermissionDiffInterface, TreeNode } from "../models";
+import { RoleManagementUtils } from "../utils";
+
+/**
+ * Proptypes for the role permission diff component.
+ */
+interface RolePermissionDiffPropsInterface extends TestableComponentInterface {
+    /**
+     * Roles available for the comparison.
+     */
+    roles: RolesInterface[];
+    /**
+     * ID of the role selected as the base role initially.
+     */
+    defaultBaseRoleId?: string;
+    /**
+     * Callback to be triggered when the modal is closed.
+     */
+    onClose: () => void;
+    /**
+     * Callback to be triggered when the permissions are copied to a role.
+     */
+    onPermissionsCopy?: () => void;
+}
+
+/**
+ * Compares the permissions of two roles side by side and allows copying the permissions of the
+ * base role to the compared role.
+ *
+ * @param {RolePermissionDiffPropsInterface} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const RolePermissionDiff: FunctionComponent<RolePermissionDiffPropsInterface> = (
+    props: RolePermissionDiffPropsInterface
+): ReactElement => {
+
+    const {
+        roles,
+        defaultBaseRoleId,
+        onClose,
+        onPermissionsCopy,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const dispatch = useDispatch();
+
+    const [ baseRoleId, setBaseRoleId ] = useState<string>(defaultBaseRoleId);
+    const [ comparedRoleId, setComparedRoleId ] = useState<string>(undefined);
+    const [ diff, setDiff ] = useState<RolePermissionDiffInterface>(null);
+    const [ isDiffLoading, setIsDiffLoading ] = useState<boolean>(false);
+    const [ isCopyInProgress, setIsCopyInProgress ] = useState<boolean>(false);
+    const [ showCopyConfirmation, setShowCopyConfirmation ] = useState<boolean>(false);
+
+    /**
+     * Compares the permissions once both roles are selected.
+     */
+    useEffect(() => {
+        if (!baseRoleId || !comparedRoleId) {
+            setDiff(null);
+
+            return;
+        }
+
+        compareRoles();
+    }, [ baseRoleId, comparedRoleId ]);
+
+    /**
+     * Fetches the permissions of the selected roles and compares them against the permission tree.
+     */
+    const compareRoles = (): void => {
+        setIsDiffLoading(true);
+
+        Promise.all([
+            RoleManagementUtils.getRolePermissions(baseRoleId),
+            RoleManagementUtils.getRolePermissions(comparedRoleId),
+            // Fall back to comparing the permission paths if the permission tree is not available.
+            RoleManagementUtils.getAllPermissions().catch(() => [])
+        ])
+            .then(([ basePermissions, comparedPermissions, permissionTree ]: [ string[], string[], TreeNode[] ]) => {
+                setDiff(RoleManagementUtils.diffPermissions(basePermissions, comparedPermissions, permissionTree));
+            })
+            .catch(() => {
+                setDiff(null);
+                dispatch(addAlert({
+                    description: t("console:manage.features.roles.notifications.fetchPermissions.genericError" +
+                        ".description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.roles.notifications.fetchPermissions.genericError.message")
+                }));
+            })
+            .finally(() => {
+                setIsDiffLoading(false);
+            });
+    };
+
+    /**
+     * Copies the permissions of the base role to the compared role.
+     */
+    const handlePermissionsCopy = (): void => {
+        setIsCopyInProgress(true);
+
+        RoleManagementUtils.copyRolePermissions(baseRoleId, comparedRoleId)
+            .then(() => {
+                dispatch(addAlert({
+                    description: t("console:manage.features.roles.notifications.copyPermissions.success" +
+                        ".description", { role: resolveRoleName(comparedRoleId) }),
+                    level: AlertLevels.SUCCESS,
+                    message: t("console:manage.features.roles.notifications.copyPermissions.success.message")
+                }));
+                onPermissionsCopy && onPermissionsCopy();
+                compareRoles();
+            })
+            .catch((error) => {
+                dispatch(addAlert({
+                    description: error?.response?.data?.detail
+                        ?? t("console:manage.features.roles.notifications.copyPermissions.genericError.description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.roles.notifications.copyPermissions.genericError.message")
+                }));
+            })
+            .finally(() => {
+                setIsCopyInProgress(false);
+            });
+    };
+
+    /**
+     * Resolves the display name of a role.
+     *
+     * @param {string} roleId - ID of the role.
+     * @return {string}
+     */
+    const resolveRoleName = (roleId: string): string => {
+        return roles.find((role: RolesInterface) => role.id === roleId)?.displayName ?? roleId;
+    };
+
+    /**
+     * Renders a column of the diff.
+     *
+     * @param {string} heading - Heading of the column.
+     * @param {string[]} permissions - Permissions in the column.
+     * @param {SemanticCOLORS} color - Color of the count label.
+     * @param {string} id - Identifier of the column used in the test ids.
+     * @return {React.ReactElement}
+     */
+    const renderDiffColumn = (heading: string, permissions: string[], color: SemanticCOLORS,
+        id: string): ReactElement => (
+        <Grid.Column mobile={ 16 } tablet={ 16 } computer={ 5 }>
+            <Heading as="h5">
+                { heading }
+                <Label circular size="mini" color={ color }>{ permissions.length }</Label>
+            </Heading>
+            <Segment data-testid={ `${ testId }-${ id }-column` }>
+                {
+                    permissions.length > 0
+                        ? (
+                            <List relaxed>
+                                {
+                                    permissions.map((permission: string) => (
+                                        <List.Item key={ permission }>
+                                            <code>{ permission }</code>
+                                        </List.Item>
+                                    ))
+                                }
+                            </List>
+                        )
+                        : <Text muted>{ t("console:manage.features.roles.permissionDiff.placeholders.empty") }</Text>
+                }
+            </Segment>
+        </Grid.Column>
+    );
+
+    const roleOptions = roles.map((role: RolesInterface) => ({
+        key: role.id,
+        text: role.displayName,
+        value: role.id
+    }));
+
+    return (
+        <>
+            <Modal
+                data-testid={ testId }
+                open={ true }
+                dimmer="blurring"
+                size="large"
+                onClose={ onClose }
+                closeOnDimmerClick={ false }
+            >
+                <Modal.Header>
+                    { t("console:manage.features.roles.permissionDiff.heading") }
+                    <Heading as="h6">{ t("console:manage.features.roles.permissionDiff.subHeading") }</Heading>
+                </Modal.Header>
+                <Modal.Content scrolling>
+                    <Form>
+                        <Form.Group widths="equal">
+                            <Form.Select
+                                search
+                                label={ t("console:manage.features.roles.permissionDiff.fields.baseRole.label") }
+                                placeholder={
+                                    t("console:manage.features.roles.permissionDiff.fields.baseRole.placeholder")
+                                }
+                                options={ roleOptions.filter((option) => option.value !== comparedRoleId) }
+                                value={ baseRoleId }
+                                onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                                    setBaseRoleId(value as string);
+                                } }
+                                data-testid={ `${ testId }-base-role-dropdown` }
+                            />
+                            <Form.Select
+                                search
+                                label={ t("console:manage.features.roles.permissionDiff.fields.comparedRole.label") }
+                                placeholder={
+                                    t("console:manage.features.roles.permissionDiff.fields.comparedRole.placeholder")
+                                }
+                                options={ roleOptions.filter((option) => option.value !== baseRoleId) }
+                                value={ comparedRoleId }
+                                onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                                    setComparedRoleId(value as string);
+                                } }
+                                data-testid={ `${ testId }-compared-role-dropdown` }
+                            />
+                        </Form.Group>
+                    </Form>
+                    { isDiffLoading && <ContentLoader className="p-3" active/> }
+                    { !isDiffLoading && diff && (
+                        <Grid>
+                            <Grid.Row columns={ 3 }>
+                                {
+                                    renderDiffColumn(
+                                        t("console:manage.features.roles.permissionDiff.columns.removed",
+                                            { role: resolveRoleName(baseRoleId) }),
+                                        diff.removed,
+                                        "red",
+                                        "removed"
+                                    )
+                                }
+                                {
+                                    renderDiffColumn(
+                                        t("console:manage.features.roles.permissionDiff.columns.added",
+                                            { role: resolveRoleName(comparedRoleId) }),
+                                        diff.added,
+                                        "green",
+                                        "added"
+                                    )
+                                }
+                                {
+                                    renderDiffColumn(
+                                        t("console:manage.features.roles.permissionDiff.columns.common"),
+                                        diff.common,
+                                        "grey",
+                                        "common"
+                                    )
+                                }
+                            </Grid.Row>
+                        </Grid>
+                    ) }
+                </Modal.Content>
+                <Modal.Actions>
+                    <LinkButton
+                        floated="left"
+                        onClick={ onClose }
+                        data-testid={ `${ testId }-close-button` }
+                    >
+                        { t("common:close") }
+                    </LinkButton>
+                    <PrimaryButton
+                        disabled={ !diff || isCopyInProgress }
+                        loading={ isCopyInProgress }
+                        onClick={ () => setShowCopyConfirmation(true) }
+                        data-testid={ `${ testId }-copy-button` }
+                    >
+                        {
+                            t("console:manage.features.roles.permissionDiff.buttons.copy", {
+                                source: resolveRoleName(baseRoleId),
+                                target: resolveRoleName(comparedRoleId)
+                            })
+                        }
+                    </PrimaryButton>
+                </Modal.Actions>
+            </Modal>
+            <ConfirmationModal
+                data-testid={ `${ testId }-copy-confirmation-modal` }
+                onClose={ (): void => setShowCopyConfirmation(false) }
+                type="warning"
+                open={ showCopyConfirmation }
+                primaryAction={ t("common:confirm") }
+                secondaryAction={ t("common:cancel") }
+                onSecondaryActionClick={ (): void => setShowCopyConfirmation(false) }
+                onPrimaryActionClick={ (): void => {
+                    setShowCopyConfirmation(false);
+                    handlePermissionsCopy();
+                } }
+                closeOnDimmerClick={ false }
+            >
+                <ConfirmationModal.Header>
+                    { t("console:manage.features.roles.permissionDiff.confirmations.copy.header") }
+                </ConfirmationModal.Header>
+                <ConfirmationModal.Message attached warning>
+                    { t("console:manage.features.roles.permissionDiff.confirmations.copy.message") }
+                </ConfirmationModal.Message>
+                <ConfirmationModal.Content>
+                    {
+                        t("console:manage.features.roles.permissionDiff.confirmations.copy.content", {
+                            source: resolveRoleName(baseRoleId),
+                            target: resolveRoleName(comparedRoleId)
+                        })
+                    }
+                </ConfirmationModal.Content>
+            </ConfirmationModal>
+        </>
+    );
+};
+
+/**
+ * Default props for the role permission diff component.
+ */
+RolePermissionDiff.defaultProps = {
+    "data-testid": "role-permission-diff"
+};
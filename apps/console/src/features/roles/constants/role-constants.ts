@@ -49,4 +49,28 @@ export class RoleConstants {
         .set("ROLE_READ", "roles.read");
 
     public static readonly SUPER_ADMIN_PERMISSION_KEY = "/permission/protected";
+
+    /**
+     * Kind of the exported role permission bundles.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly PERMISSION_BUNDLE_KIND: string = "RolePermissions";
+
+    /**
+     * Schema of the SCIM patch requests.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly SCIM2_PATCH_OP_SCHEMA: string = "urn:ietf:params:scim:api:messages:2.0:PatchOp";
+
+    /**
+     * Maximum number of roles updated at a time by the bulk permission editor.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly BULK_PERMISSION_UPDATE_CONCURRENCY: number = 5;
 }
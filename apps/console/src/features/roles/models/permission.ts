@@ -16,6 +16,7 @@
  * under the License.
  */
 
+import { RolesInterface } from "@wso2is/core/models";
 import { DataNode } from "rc-tree/lib/interface";
 
 /**
@@ -34,3 +35,61 @@ export interface PermissionObject {
     displayName: string;
     resourcePath: string;
 }
+
+/**
+ * Differences between the permissions of two roles.
+ */
+export interface RolePermissionDiffInterface {
+    /**
+     * Permissions only assigned to the compared role.
+     */
+    added: string[];
+    /**
+     * Permissions only assigned to the base role.
+     */
+    removed: string[];
+    /**
+     * Permissions assigned to both roles.
+     */
+    common: string[];
+}
+
+/**
+ * Operations supported by the bulk permission editor.
+ */
+export enum RolePermissionOperations {
+    ADD = "add",
+    REMOVE = "remove"
+}
+
+/**
+ * Result of a bulk permission update on a single role.
+ */
+export interface RolePermissionUpdateResultInterface {
+    /**
+     * Updated role.
+     */
+    role: RolesInterface;
+    /**
+     * Whether the update was successful.
+     */
+    success: boolean;
+    /**
+     * Error description if the update failed.
+     */
+    error?: string;
+}
+
+/**
+ * Exported permission set of a role.
+ */
+export interface RolePermissionExportInterface {
+    /**
+     * Display name of the role.
+     */
+    displayName: string;
+    /**
+     * Permissions assigned to the role.
+     */
+    permissions: string[];
+}
@@ -24,9 +24,9 @@ import find from "lodash-es/find";
 import React, { ReactElement, SyntheticEvent, useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch } from "react-redux";
-import { Dropdown, DropdownItemProps, DropdownProps, Icon, PaginationProps } from "semantic-ui-react";
+import { Button, Dropdown, DropdownItemProps, DropdownProps, Icon, PaginationProps } from "semantic-ui-react";
 import { AdvancedSearchWithBasicFilters, UIConstants } from "../../core";
-import { CreateRoleWizard, RoleList } from "../../roles";
+import { BulkPermissionEditor, CreateRoleWizard, RoleList, RolePermissionDiff } from "../../roles";
 import { deleteRoleById, searchRoleList } from "../api";
 import { APPLICATION_DOMAIN, INTERNAL_DOMAIN } from "../constants";
 import { SearchRoleInterface } from "../models";
@@ -79,6 +79,8 @@ const RolesPage = (): ReactElement => {
     const [ listItemLimit, setListItemLimit ] = useState<number>(UIConstants.DEFAULT_RESOURCE_LIST_ITEM_LIMIT);
     const [ listOffset, setListOffset ] = useState<number>(0);
     const [ showWizard, setShowWizard ] = useState<boolean>(false);
+    const [ showPermissionDiff, setShowPermissionDiff ] = useState<boolean>(false);
+    const [ showBulkPermissionEditor, setShowBulkPermissionEditor ] = useState<boolean>(false);
     const [ isListUpdated, setListUpdated ] = useState(false);
     // TODO: Check the usage and delete if not required.
     const [ userStoreOptions, setUserStoresList ] = useState([]);
@@ -375,13 +377,31 @@ const RolesPage = (): ReactElement => {
                     sortStrategy={ listSortingStrategy }
                     rightActionPanel={
                         (
-                            <Dropdown
-                                data-testid="role-mgt-roles-list-filters-dropdown"
-                                selection
-                                options={ filterOptions }
-                                placeholder= { t("console:manage.features.roles.list.buttons.filterDropdown") }
-                                onChange={ handleFilterChange }
-                            />
+                            <>
+                                <Dropdown
+                                    data-testid="role-mgt-roles-list-filters-dropdown"
+                                    selection
+                                    options={ filterOptions }
+                                    placeholder= { t("console:manage.features.roles.list.buttons.filterDropdown") }
+                                    onChange={ handleFilterChange }
+                                />
+                                <Button
+                                    data-testid="role-mgt-roles-list-compare-button"
+                                    basic
+                                    onClick={ () => setShowPermissionDiff(true) }
+                                >
+                                    <Icon name="exchange"/>
+                                    { t("console:manage.features.roles.list.buttons.compare") }
+                                </Button>
+                                <Button
+                                    data-testid="role-mgt-roles-list-bulk-edit-button"
+                                    basic
+                                    onClick={ () => setShowBulkPermissionEditor(true) }
+                                >
+                                    <Icon name="edit outline"/>
+                                    { t("console:manage.features.roles.list.buttons.bulkEditPermissions") }
+                                </Button>
+                            </>
                         )
                     }
                     showPagination={ paginatedRoles?.Resources?.length > 0 }
@@ -442,6 +462,24 @@ const RolesPage = (): ReactElement => {
                     />
                 )
             }
+            {
+                showPermissionDiff && (
+                    <RolePermissionDiff
+                        data-testid="role-mgt-role-permission-diff"
+                        roles={ initialRolList?.Resources ?? [] }
+                        onClose={ () => setShowPermissionDiff(false) }
+                    />
+                )
+            }
+            {
+                showBulkPermissionEditor && (
+                    <BulkPermissionEditor
+                        data-testid="role-mgt-bulk-permission-editor"
+                        roles={ initialRolList?.Resources ?? [] }
+                        onClose={ () => setShowBulkPermissionEditor(false) }
+                    />
+                )
+            }
         </PageLayout>
     );
 };
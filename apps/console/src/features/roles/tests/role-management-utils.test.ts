@@ -0,0 +1,269 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { RolesInterface } from "@wso2is/core/models";
+import { getPermissionList, getRoleById, updateRole } from "../api";
+import { RoleConstants } from "../constants";
+import { RolePermissionOperations, RolePermissionUpdateResultInterface, TreeNode } from "../models";
+import { RoleManagementUtils } from "../utils/role-management-utils";
+
+jest.mock("../api", () => ({
+    getPermissionList: jest.fn(),
+    getRoleById: jest.fn(),
+    updateRole: jest.fn()
+}));
+
+const PERMISSION_TREE: TreeNode[] = [
+    {
+        children: [
+            {
+                children: [
+                    { key: "/permission/admin/manage/users/create", title: "create" },
+                    { key: "/permission/admin/manage/users/delete", title: "delete" },
+                    { key: "/permission/admin/manage/users/view", title: "view" }
+                ],
+                key: "/permission/admin/manage/users",
+                title: "users"
+            },
+            {
+                children: [
+                    { key: "/permission/admin/manage/roles/create", title: "create" },
+                    { key: "/permission/admin/manage/roles/view", title: "view" }
+                ],
+                key: "/permission/admin/manage/roles",
+                title: "roles"
+            }
+        ],
+        key: "/permission/admin/manage",
+        title: "manage"
+    }
+];
+
+describe("Role permission diff util function", () => {
+
+    test("Should compare the permissions which are assigned directly", () => {
+        expect(RoleManagementUtils.diffPermissions(
+            [ "/permission/admin/manage/users/view", "/permission/admin/manage/roles/view" ],
+            [ "/permission/admin/manage/users/view", "/permission/admin/manage/users/create" ],
+            PERMISSION_TREE
+        )).toEqual({
+            added: [ "/permission/admin/manage/users/create" ],
+            common: [ "/permission/admin/manage/users/view" ],
+            removed: [ "/permission/admin/manage/roles/view" ]
+        });
+    });
+
+    test("Should treat the permissions nested under an assigned parent as assigned", () => {
+        expect(RoleManagementUtils.diffPermissions(
+            [ "/permission/admin/manage/users" ],
+            [ "/permission/admin/manage/users/view", "/permission/admin/manage/users/create" ],
+            PERMISSION_TREE
+        )).toEqual({
+            added: [],
+            common: [ "/permission/admin/manage/users/create", "/permission/admin/manage/users/view" ],
+            removed: [ "/permission/admin/manage/users", "/permission/admin/manage/users/delete" ]
+        });
+    });
+
+    test("Should collapse the nested permissions to the parent when the whole subtree differs", () => {
+        expect(RoleManagementUtils.diffPermissions(
+            [ "/permission/admin/manage/users/view" ],
+            [ "/permission/admin/manage" ],
+            PERMISSION_TREE
+        )).toEqual({
+            added: [
+                "/permission/admin/manage",
+                "/permission/admin/manage/roles",
+                "/permission/admin/manage/users",
+                "/permission/admin/manage/users/create",
+                "/permission/admin/manage/users/delete"
+            ],
+            common: [ "/permission/admin/manage/users/view" ],
+            removed: []
+        });
+    });
+
+    test("Should report no differences for equal permissions written differently", () => {
+        expect(RoleManagementUtils.diffPermissions(
+            [ "/permission/admin/manage/roles/" ],
+            [ "/permission/admin/manage/roles" ],
+            PERMISSION_TREE
+        )).toEqual({
+            added: [],
+            common: [ "/permission/admin/manage/roles" ],
+            removed: []
+        });
+    });
+
+    test("Should compare the permissions by their paths when the permission tree is not available", () => {
+        expect(RoleManagementUtils.diffPermissions(
+            [ "/permission/admin/manage/users" ],
+            [ "/permission/admin/manage/users/view", "/permission/admin/login" ]
+        )).toEqual({
+            added: [ "/permission/admin/login" ],
+            common: [ "/permission/admin/manage/users/view" ],
+            removed: [ "/permission/admin/manage/users" ]
+        });
+    });
+});
+
+describe("Role permission change util function", () => {
+
+    test("Should add the permissions", () => {
+        expect(RoleManagementUtils.resolvePermissionChange(
+            [ "/permission/admin/manage/users/view" ],
+            [ "/permission/admin/manage/users/view", "/permission/admin/manage/roles/view" ],
+            RolePermissionOperations.ADD
+        )).toEqual([ "/permission/admin/manage/users/view", "/permission/admin/manage/roles/view" ]);
+    });
+
+    test("Should remove the permissions along with the nested permissions", () => {
+        expect(RoleManagementUtils.resolvePermissionChange(
+            [ "/permission/admin/manage/users", "/permission/admin/manage/users/view", "/permission/admin/login" ],
+            [ "/permission/admin/manage/users/" ],
+            RolePermissionOperations.REMOVE,
+            PERMISSION_TREE
+        )).toEqual([ "/permission/admin/login" ]);
+    });
+
+    test("Should replace a parent permission with its remaining nested permissions", () => {
+        expect(RoleManagementUtils.resolvePermissionChange(
+            [ "/permission/admin/manage" ],
+            [ "/permission/admin/manage/users/delete" ],
+            RolePermissionOperations.REMOVE,
+            PERMISSION_TREE
+        )).toEqual([
+            "/permission/admin/manage/users/create",
+            "/permission/admin/manage/users/view",
+            "/permission/admin/manage/roles"
+        ]);
+    });
+
+    test("Should not apply the removal if a parent permission can't be narrowed down", () => {
+        expect(RoleManagementUtils.resolvePermissionChange(
+            [ "/permission/admin/manage/users" ],
+            [ "/permission/admin/manage/users/view" ],
+            RolePermissionOperations.REMOVE
+        )).toBeNull();
+    });
+});
+
+describe("Role bulk permission update util function", () => {
+
+    const roles: RolesInterface[] = Array.from({ length: 12 }, (_: unknown, index: number) => ({
+        displayName: `role-${ index }`,
+        id: `role-${ index }`
+    } as RolesInterface));
+
+    beforeEach(() => {
+        (getPermissionList as jest.Mock).mockReset();
+        (getRoleById as jest.Mock).mockReset();
+        (updateRole as jest.Mock).mockReset();
+    });
+
+    test("Should update a limited number of roles at a time", async () => {
+        let pending: number = 0;
+        let maxPending: number = 0;
+
+        (getRoleById as jest.Mock).mockImplementation(() => {
+            pending++;
+            maxPending = Math.max(maxPending, pending);
+
+            return Promise.resolve({ data: { permissions: [ "/permission/admin/manage/users/view" ] } });
+        });
+        (updateRole as jest.Mock).mockImplementation(() => {
+            return new Promise((resolve: (value: unknown) => void) => setTimeout(() => {
+                pending--;
+                resolve({});
+            }));
+        });
+
+        const results: RolePermissionUpdateResultInterface[] = await RoleManagementUtils.applyPermissionChange(roles,
+            [ "/permission/admin/manage/roles/view" ], RolePermissionOperations.ADD);
+
+        expect(results.map(({ role }: RolePermissionUpdateResultInterface) => role.id))
+            .toEqual(roles.map(({ id }: RolesInterface) => id));
+        expect(results.every(({ success }: RolePermissionUpdateResultInterface) => success)).toBe(true);
+        expect(maxPending).toBe(RoleConstants.BULK_PERMISSION_UPDATE_CONCURRENCY);
+        expect(updateRole).toHaveBeenCalledTimes(roles.length);
+        expect((updateRole as jest.Mock).mock.calls[ 0 ][ 1 ].Operations[ 0 ].value)
+            .toEqual([ "/permission/admin/manage/users/view", "/permission/admin/manage/roles/view" ]);
+    });
+
+    test("Should continue updating the other roles when a role fails", async () => {
+        (getRoleById as jest.Mock).mockImplementation((id: string) => {
+            return id === "role-1"
+                ? Promise.reject({ response: { data: { detail: "Role not found." } } })
+                : Promise.resolve({ data: { permissions: [ "/permission/admin/manage/users" ] } });
+        });
+        (getPermissionList as jest.Mock).mockRejectedValue({});
+        (updateRole as jest.Mock).mockResolvedValue({});
+
+        const results: RolePermissionUpdateResultInterface[] = await RoleManagementUtils.applyPermissionChange(
+            roles.slice(0, 3), [ "/permission/admin/manage/users" ], RolePermissionOperations.REMOVE);
+
+        expect(results.map(({ success }: RolePermissionUpdateResultInterface) => success)).toEqual([
+            true, false, true
+        ]);
+        expect(results[ 1 ].error).toBe("Role not found.");
+        expect((updateRole as jest.Mock).mock.calls[ 0 ][ 1 ].Operations[ 0 ].value).toEqual([]);
+    });
+
+    test("Should narrow down the parent permissions of the roles against the permission tree", async () => {
+        (getPermissionList as jest.Mock).mockResolvedValue({
+            data: [
+                "/permission",
+                "/permission/admin",
+                "/permission/admin/manage",
+                "/permission/admin/manage/users",
+                "/permission/admin/manage/users/create",
+                "/permission/admin/manage/users/view"
+            ].map((resourcePath: string) => ({ displayName: resourcePath, resourcePath })),
+            status: 200
+        });
+        (getRoleById as jest.Mock).mockImplementation((id: string) => {
+            return Promise.resolve({
+                data: {
+                    permissions: id === "role-0" ? [ "/permission/admin/manage" ] : [ "/permission/admin/login" ]
+                }
+            });
+        });
+        (updateRole as jest.Mock).mockResolvedValue({});
+
+        const results: RolePermissionUpdateResultInterface[] = await RoleManagementUtils.applyPermissionChange(
+            roles.slice(0, 2), [ "/permission/admin/manage/users/view" ], RolePermissionOperations.REMOVE);
+
+        expect(results.every(({ success }: RolePermissionUpdateResultInterface) => success)).toBe(true);
+        expect((updateRole as jest.Mock).mock.calls
+            .map(([ , data ]: [ string, { Operations: { value: string[] }[] } ]) => data.Operations[ 0 ].value))
+            .toEqual([ [ "/permission/admin/manage/users/create" ], [ "/permission/admin/login" ] ]);
+    });
+
+    test("Should not update a role whose parent permission can't be narrowed down", async () => {
+        (getPermissionList as jest.Mock).mockRejectedValue({});
+        (getRoleById as jest.Mock).mockResolvedValue({ data: { permissions: [ "/permission/admin" ] } });
+
+        const results: RolePermissionUpdateResultInterface[] = await RoleManagementUtils.applyPermissionChange(
+            roles.slice(0, 1), [ "/permission/admin/manage/users/view" ], RolePermissionOperations.REMOVE);
+
+        expect(results[ 0 ].success).toBe(false);
+        expect(results[ 0 ].error).toBeDefined();
+        expect(updateRole).not.toHaveBeenCalled();
+    });
+});
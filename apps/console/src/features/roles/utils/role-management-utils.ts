@@ -16,10 +16,22 @@
  * under the License.
  */
 
+import { ResourceBundleInterface, RolesInterface } from "@wso2is/core/models";
+import { CommonUtils, ResourceBundleUtils } from "@wso2is/core/utils";
+import { I18n } from "@wso2is/i18n";
 import isEmpty from "lodash-es/isEmpty";
-import { getPermissionList, searchRoleList } from "../api";
+import { getPermissionList, getRoleById, searchRoleList, updateRole } from "../api";
 import { generatePermissionTree } from "../components/role-utils";
-import { PermissionObject, SearchRoleInterface, TreeNode } from "../models";
+import { RoleConstants } from "../constants";
+import {
+    PermissionObject,
+    RolePermissionDiffInterface,
+    RolePermissionExportInterface,
+    RolePermissionOperations,
+    RolePermissionUpdateResultInterface,
+    SearchRoleInterface,
+    TreeNode
+} from "../models";
 
 /**
  * Utility class for roles operations.
@@ -111,4 +123,302 @@ export class RoleManagementUtils {
             }
         });
     }
+
+    /**
+     * Retrieve the permissions assigned to a role.
+     *
+     * @param {string} roleId - ID of the role.
+     * @return {Promise<string[]>}
+     */
+    public static getRolePermissions = (roleId: string): Promise<string[]> => {
+        return getRoleById(roleId)
+            .then((response) => {
+                return (response?.data as RolesInterface)?.permissions ?? [];
+            });
+    };
+
+    /**
+     * Replace the permissions of a role.
+     *
+     * @param {string} roleId - ID of the role.
+     * @param {string[]} permissions - Permissions to be assigned.
+     * @return {Promise<void>}
+     */
+    public static updateRolePermissions = (roleId: string, permissions: string[]): Promise<void> => {
+        return updateRole(roleId, {
+            Operations: [ {
+                op: "replace",
+                path: "permissions",
+                value: permissions
+            } ],
+            schemas: [ RoleConstants.SCIM2_PATCH_OP_SCHEMA ]
+        })
+            .then(() => undefined);
+    };
+
+    /**
+     * Compares the permissions of two roles. A permission implies the permissions nested under it,
+     * hence the permissions are expanded against the permission tree before comparing. The results
+     * are collapsed back to the parent permissions whose nested permissions all fall in the same group.
+     *
+     * @param {string[]} basePermissions - Permissions of the base role.
+     * @param {string[]} comparedPermissions - Permissions of the role compared against the base role.
+     * @param {TreeNode[]} permissionTree - Tree of all the permissions.
+     * @return {RolePermissionDiffInterface}
+     */
+    public static diffPermissions = (basePermissions: string[], comparedPermissions: string[],
+        permissionTree: TreeNode[] = []): RolePermissionDiffInterface => {
+
+        const base: string[] = basePermissions.map(RoleManagementUtils.normalizePermission);
+        const compared: string[] = comparedPermissions.map(RoleManagementUtils.normalizePermission);
+        const permissions: string[] = Array.from(new Set([
+            ...RoleManagementUtils.flattenPermissionTree(permissionTree),
+            ...base,
+            ...compared
+        ]));
+
+        const isGranted = (granted: string[], permission: string): boolean => {
+            return granted.some((grantedPermission: string) => {
+                return permission === grantedPermission || permission.startsWith(grantedPermission + "/");
+            });
+        };
+
+        const collapse = (group: string[]): string[] => {
+            const members: Set<string> = new Set(group);
+            const complete: Set<string> = new Set(group.filter((permission: string) => {
+                return permissions.every((nested: string) => {
+                    return !nested.startsWith(permission + "/") || members.has(nested);
+                });
+            }));
+
+            return group
+                .filter((permission: string) => {
+                    return !Array.from(complete).some((parent: string) => permission.startsWith(parent + "/"));
+                })
+                .sort();
+        };
+
+        return {
+            added: collapse(permissions.filter((permission: string) => {
+                return isGranted(compared, permission) && !isGranted(base, permission);
+            })),
+            common: collapse(permissions.filter((permission: string) => {
+                return isGranted(base, permission) && isGranted(compared, permission);
+            })),
+            removed: collapse(permissions.filter((permission: string) => {
+                return isGranted(base, permission) && !isGranted(compared, permission);
+            }))
+        };
+    };
+
+    /**
+     * Applies a permission change on the permissions of a role. Removing a permission also
+     * removes the permissions nested under it. A parent permission granting a removed permission
+     * is replaced with its remaining nested permissions from the permission tree.
+     *
+     * @param {string[]} permissions - Current permissions of the role.
+     * @param {string[]} changedPermissions - Permissions to be added or removed.
+     * @param {RolePermissionOperations} operation - Operation to apply.
+     * @param {TreeNode[]} permissionTree - Tree of all the permissions.
+     * @return {string[]} Updated permissions or null if a parent permission couldn't be narrowed down.
+     */
+    public static resolvePermissionChange = (permissions: string[], changedPermissions: string[],
+        operation: RolePermissionOperations, permissionTree: TreeNode[] = []): string[] => {
+
+        if (operation === RolePermissionOperations.ADD) {
+            return Array.from(new Set([ ...permissions, ...changedPermissions ]));
+        }
+
+        const removed: string[] = changedPermissions.map(RoleManagementUtils.normalizePermission);
+        const isRemoved = (permission: string): boolean => {
+            return removed.some((changed: string) => {
+                return permission === changed || permission.startsWith(changed + "/");
+            });
+        };
+        const isAncestor = (permission: string): boolean => {
+            return removed.some((changed: string) => changed.startsWith(permission + "/"));
+        };
+
+        // Resolves the nested permissions of a node which remain after the removal.
+        const narrow = (node: TreeNode): string[] => {
+            if (!node?.children?.length) {
+                return null;
+            }
+
+            const remaining: string[] = [];
+
+            for (const child of node.children) {
+                const key: string = RoleManagementUtils.normalizePermission(String(child.key));
+
+                if (isRemoved(key)) {
+                    continue;
+                }
+
+                if (!isAncestor(key)) {
+                    remaining.push(key);
+
+                    continue;
+                }
+
+                const nested: string[] = narrow(child);
+
+                if (!nested) {
+                    return null;
+                }
+
+                remaining.push(...nested);
+            }
+
+            return remaining;
+        };
+
+        const updated: string[] = [];
+
+        for (const permission of permissions) {
+            const normalized: string = RoleManagementUtils.normalizePermission(permission);
+
+            if (isRemoved(normalized)) {
+                continue;
+            }
+
+            if (!isAncestor(normalized)) {
+                updated.push(permission);
+
+                continue;
+            }
+
+            const remaining: string[] = narrow(RoleManagementUtils.findPermissionNode(permissionTree, normalized));
+
+            if (!remaining) {
+                return null;
+            }
+
+            updated.push(...remaining);
+        }
+
+        return Array.from(new Set(updated));
+    };
+
+    /**
+     * Replaces the permissions of the target role with the permissions of the source role.
+     *
+     * @param {string} sourceRoleId - ID of the role to copy the permissions from.
+     * @param {string} targetRoleId - ID of the role to copy the permissions to.
+     * @return {Promise<void>}
+     */
+    public static copyRolePermissions = (sourceRoleId: string, targetRoleId: string): Promise<void> => {
+        return RoleManagementUtils.getRolePermissions(sourceRoleId)
+            .then((permissions: string[]) => {
+                return RoleManagementUtils.updateRolePermissions(targetRoleId, permissions);
+            });
+    };
+
+    /**
+     * Adds or removes a set of permissions from many roles. Each role is updated independently
+     * so that a failure in one role doesn't stop the others from being updated. Only a limited
+     * number of roles are updated at a time to avoid flooding the server.
+     *
+     * @param {RolesInterface[]} roles - Roles to be updated.
+     * @param {string[]} changedPermissions - Permissions to be added or removed.
+     * @param {RolePermissionOperations} operation - Operation to apply.
+     * @return {Promise<RolePermissionUpdateResultInterface[]>}
+     */
+    public static applyPermissionChange = (roles: RolesInterface[], changedPermissions: string[],
+        operation: RolePermissionOperations): Promise<RolePermissionUpdateResultInterface[]> => {
+
+        // The permission tree is only needed to narrow down the parent permissions when removing.
+        const permissionTreeRequest: Promise<TreeNode[]> = operation === RolePermissionOperations.REMOVE
+            ? RoleManagementUtils.getAllPermissions().catch(() => [])
+            : Promise.resolve([]);
+
+        return permissionTreeRequest.then((permissionTree: TreeNode[]) => {
+            return CommonUtils.mapWithConcurrency(roles, RoleConstants.BULK_PERMISSION_UPDATE_CONCURRENCY,
+                (role: RolesInterface): Promise<RolePermissionUpdateResultInterface> => {
+                    return RoleManagementUtils.getRolePermissions(role.id)
+                        .then((permissions: string[]) => {
+                            const updatedPermissions: string[] = RoleManagementUtils.resolvePermissionChange(
+                                permissions, changedPermissions, operation, permissionTree ?? []);
+
+                            if (!updatedPermissions) {
+                                return Promise.reject(new Error(I18n.instance.t("console:manage.features.roles." +
+                                    "bulkPermissionEditor.results.notApplicable")));
+                            }
+
+                            return RoleManagementUtils.updateRolePermissions(role.id, updatedPermissions);
+                        })
+                        .then((): RolePermissionUpdateResultInterface => ({ role, success: true }))
+                        .catch((error): RolePermissionUpdateResultInterface => ({
+                            error: error?.response?.data?.detail ?? error?.message,
+                            role,
+                            success: false
+                        }));
+                });
+        });
+    };
+
+    /**
+     * Removes the trailing slash of a permission path.
+     *
+     * @param {string} permission - Permission path.
+     * @return {string}
+     */
+    private static normalizePermission = (permission: string): string => {
+        return permission.replace(/\/+$/, "");
+    };
+
+    /**
+     * Collects the paths of all the permissions in a permission tree.
+     *
+     * @param {TreeNode[]} permissionTree - Permission tree.
+     * @return {string[]}
+     */
+    private static flattenPermissionTree = (permissionTree: TreeNode[]): string[] => {
+        return permissionTree.reduce((permissions: string[], node: TreeNode) => {
+            return [
+                ...permissions,
+                RoleManagementUtils.normalizePermission(String(node.key)),
+                ...RoleManagementUtils.flattenPermissionTree(node.children ?? [])
+            ];
+        }, []);
+    };
+
+    /**
+     * Finds the node of a permission in a permission tree.
+     *
+     * @param {TreeNode[]} permissionTree - Permission tree.
+     * @param {string} permission - Normalized permission path.
+     * @return {TreeNode} Node of the permission or undefined if it's not in the tree.
+     */
+    private static findPermissionNode = (permissionTree: TreeNode[], permission: string): TreeNode => {
+        for (const node of permissionTree) {
+            const key: string = RoleManagementUtils.normalizePermission(String(node.key));
+
+            if (key === permission) {
+                return node;
+            }
+
+            if (permission.startsWith(key + "/")) {
+                return RoleManagementUtils.findPermissionNode(node.children ?? [], permission);
+            }
+        }
+
+        return undefined;
+    };
+
+    /**
+     * Builds a portable export bundle from the permissions of a role.
+     *
+     * @param {RolesInterface} role - Role to be exported.
+     * @return {ResourceBundleInterface<RolePermissionExportInterface>}
+     */
+    public static buildPermissionBundle = (
+        role: RolesInterface
+    ): ResourceBundleInterface<RolePermissionExportInterface> => {
+
+        return ResourceBundleUtils.createBundle<RolePermissionExportInterface>(
+            RoleConstants.PERMISSION_BUNDLE_KIND, {
+                displayName: role.displayName,
+                permissions: [ ...(role.permissions ?? []) ].sort()
+            });
+    };
 }
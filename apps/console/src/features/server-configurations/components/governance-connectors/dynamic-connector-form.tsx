@@ -17,7 +17,7 @@
  */
 
 import { I18n } from "@wso2is/i18n";
-import { Hint, PrimaryButton, RenderInput, RenderToggle } from "@wso2is/react-components";
+import { Hint, LinkButton, PrimaryButton, RenderInput, RenderToggle } from "@wso2is/react-components";
 import React from "react";
 import { useTranslation } from "react-i18next";
 import { useSelector } from "react-redux";
@@ -69,7 +69,7 @@ const required =
  * @constructor
  */
 const DynamicConnectorForm = (props) => {
-    const { handleSubmit, [ "data-testid" ]: testId } = props;
+    const { handleSubmit, onViewHistory, [ "data-testid" ]: testId } = props;
     const properties: ConnectorPropertyInterface[] = props.props.properties;
 
     const formValues = useSelector((state: AppState) => state.form[ props.form ].values);
@@ -176,6 +176,15 @@ const DynamicConnectorForm = (props) => {
                         className={ !serverConfigurationConfig.intendSettings && "pl-0" }
                     >
                         <PrimaryButton type="submit">{ t("common:update") }</PrimaryButton>
+                        { onViewHistory && (
+                            <LinkButton
+                                type="button"
+                                onClick={ onViewHistory }
+                                data-testid={ `${ testId }-history-button` }
+                            >
+                                { t("console:manage.features.governanceConnectors.history.buttons.view") }
+                            </LinkButton>
+                        ) }
                     </Grid.Column>
                 </Grid.Row>
             </Grid>
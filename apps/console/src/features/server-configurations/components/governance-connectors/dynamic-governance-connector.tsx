@@ -25,11 +25,12 @@ import { useTranslation } from "react-i18next";
 import { useDispatch } from "react-redux";
 import { Checkbox, Divider, Grid, Header } from "semantic-ui-react";
 import DynamicConnectorForm from "./dynamic-connector-form";
+import { GovernanceConnectorHistory } from "./governance-connector-history";
 import { serverConfigurationConfig } from "../../../../extensions";
 import { updateGovernanceConnector } from "../../api";
 import { getGovernanceConnectorIllustrations } from "../../configs";
 import { ServerConfigurationsConstants } from "../../constants";
-import { GovernanceConnectorInterface } from "../../models";
+import { GovernanceConnectorInterface, GovernanceConnectorVersionSources } from "../../models";
 import { GovernanceConnectorUtils } from "../../utils";
 
 /**
@@ -57,6 +58,7 @@ export const DynamicGovernanceConnector: FunctionComponent<DynamicGovernanceConn
     const { t } = useTranslation();
 
     const [ connectorIllustration, setConnectorIllustration ] = useState<string>(undefined);
+    const [ showHistory, setShowHistory ] = useState<boolean>(false);
 
     /**
      * Set the connector illustration.
@@ -128,6 +130,11 @@ export const DynamicGovernanceConnector: FunctionComponent<DynamicGovernanceConn
 
         updateGovernanceConnector(data, connector.categoryId, connector.id)
             .then(() => {
+                // The connector is already updated. Failing to record the history shouldn't fail the update.
+                GovernanceConnectorUtils.recordConnectorVersion(connector, data.properties,
+                    GovernanceConnectorVersionSources.UPDATE)
+                    .catch(() => null);
+
                 dispatch(
                     addAlert({
                         description: t(
@@ -165,18 +172,29 @@ export const DynamicGovernanceConnector: FunctionComponent<DynamicGovernanceConn
     };
 
     const connectorForm: ReactElement = (
-        <DynamicConnectorForm
-            onSubmit={ handleSubmit }
-            props={ {
-                properties: connector.properties.filter(
-                    (property => serverConfigurationConfig.connectorPropertiesToShow.includes(property.name)
-                        || serverConfigurationConfig.connectorPropertiesToShow
-                            .includes(ServerConfigurationsConstants.ALL)))
-            } }
-            form={ kebabCase(connector.friendlyName) + "-form" }
-            initialValues={ getConnectorInitialValues(connector) }
-            data-testid={ `${ testId }-${ connector.name }-form` }
-        />
+        <>
+            <DynamicConnectorForm
+                onSubmit={ handleSubmit }
+                onViewHistory={ () => setShowHistory(true) }
+                props={ {
+                    properties: connector.properties.filter(
+                        (property => serverConfigurationConfig.connectorPropertiesToShow.includes(property.name)
+                            || serverConfigurationConfig.connectorPropertiesToShow
+                                .includes(ServerConfigurationsConstants.ALL)))
+                } }
+                form={ kebabCase(connector.friendlyName) + "-form" }
+                initialValues={ getConnectorInitialValues(connector) }
+                data-testid={ `${ testId }-${ connector.name }-form` }
+            />
+            { showHistory && (
+                <GovernanceConnectorHistory
+                    connector={ connector }
+                    onClose={ () => setShowHistory(false) }
+                    onRollback={ onUpdate }
+                    data-testid={ `${ testId }-${ connector.name }-history` }
+                />
+            ) }
+        </>
     );
 
 
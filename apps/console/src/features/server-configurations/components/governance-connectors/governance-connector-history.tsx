@@ -0,0 +1,354 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { AlertLevels, TestableComponentInterface } from "@wso2is/core/models";
+import { addAlert } from "@wso2is/core/store";
+import { ContentLoader, Heading, LinkButton, PrimaryButton, Text } from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import { DropdownProps, Form, Grid, Label, List, Modal, Table } from "semantic-ui-react";
+import { updateGovernanceConnector } from "../../api";
+import {
+    GovernanceConnectorInterface,
+    GovernanceConnectorPropertyChangeInterface,
+    GovernanceConnectorVersionInterface,
+    GovernanceConnectorVersionSources
+} from "../../models";
+import { GovernanceConnectorUtils } from "../../utils";
+
+/**
+ * Proptypes for the governance connector history component.
+ */
+interface GovernanceConnectorHistoryPropsInterface extends TestableComponentInterface {
+    /**
+     * Connector to show the history of.
+     */
+    connector: GovernanceConnectorInterface;
+    /**
+     * Callback to be triggered when the modal is closed.
+     */
+    onClose: () => void;
+    /**
+     * Callback to be triggered when the connector is rolled back to a version.
+     */
+    onRollback?: () => void;
+}
+
+/**
+ * Lists the recorded versions of a connector, compares them field by field and rolls the
+ * connector back to an earlier version.
+ *
+ * @param {GovernanceConnectorHistoryPropsInterface} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const GovernanceConnectorHistory: FunctionComponent<GovernanceConnectorHistoryPropsInterface> = (
+    props: GovernanceConnectorHistoryPropsInterface
+): ReactElement => {
+
+    const {
+        connector,
+        onClose,
+        onRollback,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const dispatch = useDispatch();
+
+    const [ versions, setVersions ] = useState<GovernanceConnectorVersionInterface[]>(null);
+    const [ selectedVersionId, setSelectedVersionId ] = useState<string>(null);
+    const [ comparedVersionId, setComparedVersionId ] = useState<string>(null);
+    const [ isRollbackInProgress, setIsRollbackInProgress ] = useState<boolean>(false);
+
+    useEffect(() => {
+        GovernanceConnectorUtils.getConnectorHistory(connector.id)
+            .then((history: GovernanceConnectorVersionInterface[]) => {
+                setVersions(history);
+                selectVersion(history, history[ history.length - 1 ]?.id);
+            })
+            .catch(() => {
+                setVersions([]);
+                dispatch(addAlert({
+                    description: t("console:manage.features.governanceConnectors.notifications.getHistory" +
+                        ".genericError.description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.governanceConnectors.notifications.getHistory" +
+                        ".genericError.message")
+                }));
+            });
+    }, [ connector?.id ]);
+
+    const selectedVersion: GovernanceConnectorVersionInterface = versions?.find((version) => {
+        return version.id === selectedVersionId;
+    });
+
+    const comparedVersion: GovernanceConnectorVersionInterface = versions?.find((version) => {
+        return version.id === comparedVersionId;
+    });
+
+    const changes: GovernanceConnectorPropertyChangeInterface[] = useMemo(() => {
+        if (!selectedVersion || !comparedVersion) {
+            return [];
+        }
+
+        return GovernanceConnectorUtils.diffConnectorProperties(comparedVersion.properties,
+            selectedVersion.properties, connector.properties);
+    }, [ selectedVersion, comparedVersion ]);
+
+    const isLatestSelected: boolean = versions?.length > 0 && versions[ versions.length - 1 ].id === selectedVersionId;
+
+    /**
+     * Selects a version and compares it with the version before it.
+     *
+     * @param {GovernanceConnectorVersionInterface[]} history - Versions of the connector.
+     * @param {string} versionId - ID of the version to be selected.
+     */
+    const selectVersion = (history: GovernanceConnectorVersionInterface[], versionId: string): void => {
+        const index: number = history.findIndex((version) => version.id === versionId);
+
+        setSelectedVersionId(versionId ?? null);
+        setComparedVersionId(index > 0 ? history[ index - 1 ].id : null);
+    };
+
+    /**
+     * Restores the connector to the selected version.
+     */
+    const handleRollback = (): void => {
+        setIsRollbackInProgress(true);
+
+        updateGovernanceConnector({
+            operation: "UPDATE",
+            properties: selectedVersion.properties
+        }, connector.categoryId, connector.id)
+            .then(() => {
+                dispatch(addAlert({
+                    description: t("console:manage.features.governanceConnectors.notifications.rollbackConnector" +
+                        ".success.description", { date: new Date(selectedVersion.createdAt).toLocaleString() }),
+                    level: AlertLevels.SUCCESS,
+                    message: t("console:manage.features.governanceConnectors.notifications.rollbackConnector" +
+                        ".success.message")
+                }));
+
+                return GovernanceConnectorUtils.recordConnectorVersion(connector, selectedVersion.properties,
+                    GovernanceConnectorVersionSources.ROLLBACK, selectedVersion.id)
+                    .then((history: GovernanceConnectorVersionInterface[]) => {
+                        setVersions(history);
+                        selectVersion(history, history[ history.length - 1 ]?.id);
+                    })
+                    // The connector is already restored. Only the history is outdated.
+                    .catch(() => null)
+                    .finally(() => onRollback && onRollback());
+            })
+            .catch(() => {
+                dispatch(addAlert({
+                    description: t("console:manage.features.governanceConnectors.notifications.rollbackConnector" +
+                        ".genericError.description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.governanceConnectors.notifications.rollbackConnector" +
+                        ".genericError.message")
+                }));
+            })
+            .finally(() => setIsRollbackInProgress(false));
+    };
+
+    /**
+     * Resolves the display label of a version.
+     *
+     * @param {GovernanceConnectorVersionInterface} version - Connector version.
+     * @return {string}
+     */
+    const resolveVersionLabel = (version: GovernanceConnectorVersionInterface): string => {
+        return new Date(version.createdAt).toLocaleString();
+    };
+
+    /**
+     * Renders the field level changes between the compared and the selected versions.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderChanges = (): ReactElement => {
+        if (!comparedVersion) {
+            return (
+                <Text subHeading>
+                    { t("console:manage.features.governanceConnectors.history.placeholders.noComparison") }
+                </Text>
+            );
+        }
+
+        if (changes.length === 0) {
+            return (
+                <Text subHeading>
+                    { t("console:manage.features.governanceConnectors.history.placeholders.noChanges") }
+                </Text>
+            );
+        }
+
+        return (
+            <Table celled compact unstackable data-testid={ `${ testId }-changes-table` }>
+                <Table.Header>
+                    <Table.Row>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.governanceConnectors.history.columns.property") }
+                        </Table.HeaderCell>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.governanceConnectors.history.columns.previous") }
+                        </Table.HeaderCell>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.governanceConnectors.history.columns.current") }
+                        </Table.HeaderCell>
+                    </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                    {
+                        changes.map((change: GovernanceConnectorPropertyChangeInterface) => (
+                            <Table.Row key={ change.name }>
+                                <Table.Cell>{ change.displayName ?? change.name }</Table.Cell>
+                                <Table.Cell negative>{ change.previousValue ?? "-" }</Table.Cell>
+                                <Table.Cell positive>{ change.currentValue ?? "-" }</Table.Cell>
+                            </Table.Row>
+                        ))
+                    }
+                </Table.Body>
+            </Table>
+        );
+    };
+
+    /**
+     * Renders the content of the modal.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderContent = (): ReactElement => {
+        if (!versions) {
+            return <ContentLoader inline="centered" active/>;
+        }
+
+        if (versions.length === 0) {
+            return (
+                <Text subHeading>
+                    { t("console:manage.features.governanceConnectors.history.placeholders.empty") }
+                </Text>
+            );
+        }
+
+        return (
+            <Grid>
+                <Grid.Row columns={ 2 }>
+                    <Grid.Column width={ 5 }>
+                        <List selection divided relaxed data-testid={ `${ testId }-versions` }>
+                            {
+                                [ ...versions ].reverse().map((version: GovernanceConnectorVersionInterface) => (
+                                    <List.Item
+                                        key={ version.id }
+                                        active={ version.id === selectedVersionId }
+                                        onClick={ () => selectVersion(versions, version.id) }
+                                    >
+                                        <List.Content>
+                                            <List.Header>{ resolveVersionLabel(version) }</List.Header>
+                                            <List.Description>
+                                                <Label size="mini">
+                                                    {
+                                                        t("console:manage.features.governanceConnectors.history" +
+                                                            ".sources." + version.source)
+                                                    }
+                                                </Label>
+                                                { version.createdBy }
+                                            </List.Description>
+                                        </List.Content>
+                                    </List.Item>
+                                ))
+                            }
+                        </List>
+                    </Grid.Column>
+                    <Grid.Column width={ 11 }>
+                        <Form>
+                            <Form.Select
+                                label={ t("console:manage.features.governanceConnectors.history.fields.compareWith" +
+                                    ".label") }
+                                placeholder={ t("console:manage.features.governanceConnectors.history.fields" +
+                                    ".compareWith.placeholder") }
+                                options={
+                                    versions
+                                        .filter((version) => version.id !== selectedVersionId)
+                                        .map((version) => ({
+                                            key: version.id,
+                                            text: resolveVersionLabel(version),
+                                            value: version.id
+                                        }))
+                                }
+                                value={ comparedVersionId }
+                                onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                                    setComparedVersionId(value as string);
+                                } }
+                                data-testid={ `${ testId }-compare-dropdown` }
+                            />
+                        </Form>
+                        { renderChanges() }
+                    </Grid.Column>
+                </Grid.Row>
+            </Grid>
+        );
+    };
+
+    return (
+        <Modal
+            data-testid={ testId }
+            open={ true }
+            dimmer="blurring"
+            size="large"
+            onClose={ onClose }
+            closeOnDimmerClick={ false }
+        >
+            <Modal.Header>
+                { t("console:manage.features.governanceConnectors.history.heading",
+                    { name: connector.friendlyName }) }
+                <Heading as="h6">{ t("console:manage.features.governanceConnectors.history.subHeading") }</Heading>
+            </Modal.Header>
+            <Modal.Content scrolling>
+                { renderContent() }
+            </Modal.Content>
+            <Modal.Actions>
+                <LinkButton
+                    floated="left"
+                    onClick={ onClose }
+                    data-testid={ `${ testId }-close-button` }
+                >
+                    { t("common:close") }
+                </LinkButton>
+                <PrimaryButton
+                    disabled={ !selectedVersion || isLatestSelected || isRollbackInProgress }
+                    loading={ isRollbackInProgress }
+                    onClick={ handleRollback }
+                    data-testid={ `${ testId }-rollback-button` }
+                >
+                    { t("console:manage.features.governanceConnectors.history.buttons.rollback") }
+                </PrimaryButton>
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the component.
+ */
+GovernanceConnectorHistory.defaultProps = {
+    "data-testid": "governance-connector-history"
+};
@@ -0,0 +1,310 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { AlertLevels, ResourceBundleInterface, TestableComponentInterface } from "@wso2is/core/models";
+import { addAlert } from "@wso2is/core/store";
+import {
+    ContentLoader,
+    FilePicker,
+    Heading,
+    Hint,
+    LinkButton,
+    PrimaryButton,
+    ResourceBundleFileStrategy,
+    Text
+} from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import { Icon, Message, Modal, Table } from "semantic-ui-react";
+import { updateGovernanceConnector } from "../../api";
+import { ServerConfigurationsConstants } from "../../constants";
+import {
+    GovernanceConnectorCategoryInterface,
+    GovernanceConnectorPropertyChangeInterface,
+    GovernanceConnectorSnapshotChangeInterface,
+    GovernanceConnectorSnapshotInterface,
+    GovernanceConnectorVersionPropertyInterface,
+    GovernanceConnectorVersionSources
+} from "../../models";
+import { GovernanceConnectorUtils } from "../../utils";
+
+/**
+ * Proptypes for the governance connector snapshot import component.
+ */
+interface GovernanceConnectorSnapshotImportPropsInterface extends TestableComponentInterface {
+    /**
+     * Callback to be triggered when the modal is closed.
+     */
+    onClose: () => void;
+    /**
+     * Callback to be triggered after the snapshot is applied.
+     */
+    onImport?: () => void;
+}
+
+/**
+ * File strategy to read the connector settings snapshots.
+ * @constant
+ * @type {ResourceBundleFileStrategy}
+ */
+const FILE_STRATEGY: ResourceBundleFileStrategy = new ResourceBundleFileStrategy(
+    ServerConfigurationsConstants.GOVERNANCE_CONNECTORS_BUNDLE_KIND
+);
+
+/**
+ * Reads a connector settings snapshot, previews the changes against the current connectors
+ * and applies them.
+ *
+ * @param {GovernanceConnectorSnapshotImportPropsInterface} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const GovernanceConnectorSnapshotImport: FunctionComponent<GovernanceConnectorSnapshotImportPropsInterface> = (
+    props: GovernanceConnectorSnapshotImportPropsInterface
+): ReactElement => {
+
+    const {
+        onClose,
+        onImport,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const dispatch = useDispatch();
+
+    const [ selectedFile, setSelectedFile ] = useState<File>(null);
+    const [ pastedContent, setPastedContent ] = useState<string>(null);
+    const [ bundle, setBundle ] = useState<ResourceBundleInterface<GovernanceConnectorSnapshotInterface>>(null);
+    const [ changes, setChanges ] = useState<GovernanceConnectorSnapshotChangeInterface[]>(null);
+    const [ isImportInProgress, setIsImportInProgress ] = useState<boolean>(false);
+
+    /**
+     * Compares the snapshot with the current connectors when a snapshot is selected.
+     */
+    useEffect(() => {
+        setChanges(null);
+
+        if (!bundle) {
+            return;
+        }
+
+        GovernanceConnectorUtils.getAllConnectorCategories()
+            .then((categories: GovernanceConnectorCategoryInterface[]) => {
+                setChanges(GovernanceConnectorUtils.getSnapshotChanges(bundle.resource, categories));
+            })
+            .catch(() => {
+                setBundle(null);
+                dispatch(addAlert({
+                    description: t("console:manage.features.governanceConnectors.notifications.getConnectorCategories" +
+                        ".genericError.description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.governanceConnectors.notifications.getConnectorCategories" +
+                        ".genericError.message")
+                }));
+            });
+    }, [ bundle ]);
+
+    /**
+     * Applies the changed properties of each connector and records them in the connector history.
+     */
+    const handleImport = (): void => {
+        setIsImportInProgress(true);
+
+        Promise.all(changes.map((change: GovernanceConnectorSnapshotChangeInterface) => {
+            const properties: GovernanceConnectorVersionPropertyInterface[] = change.changes
+                .map((property: GovernanceConnectorPropertyChangeInterface) => ({
+                    name: property.name,
+                    value: property.currentValue
+                }));
+
+            return updateGovernanceConnector({ operation: "UPDATE", properties }, change.connector.categoryId,
+                change.connector.id)
+                .then(() => {
+                    return GovernanceConnectorUtils.recordConnectorVersion(change.connector, properties,
+                        GovernanceConnectorVersionSources.IMPORT)
+                        // The connector is already updated. Only the history is outdated.
+                        .catch(() => null)
+                        .then(() => true);
+                })
+                .catch(() => false);
+        }))
+            .then((results: boolean[]) => {
+                const failed: number = results.filter((result: boolean) => !result).length;
+
+                if (failed > 0) {
+                    dispatch(addAlert({
+                        description: t("console:manage.features.governanceConnectors.notifications.importSnapshot" +
+                            ".error.description", { failed, updated: results.length - failed }),
+                        level: AlertLevels.WARNING,
+                        message: t("console:manage.features.governanceConnectors.notifications.importSnapshot" +
+                            ".error.message")
+                    }));
+                } else {
+                    dispatch(addAlert({
+                        description: t("console:manage.features.governanceConnectors.notifications.importSnapshot" +
+                            ".success.description", { updated: results.length }),
+                        level: AlertLevels.SUCCESS,
+                        message: t("console:manage.features.governanceConnectors.notifications.importSnapshot" +
+                            ".success.message")
+                    }));
+                }
+
+                onImport && onImport();
+                onClose();
+            })
+            .finally(() => setIsImportInProgress(false));
+    };
+
+    /**
+     * Renders the changes which will be applied by the snapshot.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderChanges = (): ReactElement => {
+        if (!changes) {
+            return <ContentLoader inline="centered" active/>;
+        }
+
+        if (changes.length === 0) {
+            return (
+                <Text subHeading>
+                    { t("console:manage.features.governanceConnectors.snapshot.placeholders.noChanges") }
+                </Text>
+            );
+        }
+
+        return (
+            <Table celled compact unstackable structured data-testid={ `${ testId }-changes-table` }>
+                <Table.Header>
+                    <Table.Row>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.governanceConnectors.history.columns.property") }
+                        </Table.HeaderCell>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.governanceConnectors.snapshot.columns.current") }
+                        </Table.HeaderCell>
+                        <Table.HeaderCell>
+                            { t("console:manage.features.governanceConnectors.snapshot.columns.incoming") }
+                        </Table.HeaderCell>
+                    </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                    {
+                        changes.map((change: GovernanceConnectorSnapshotChangeInterface) => (
+                            <React.Fragment key={ change.connector.id }>
+                                <Table.Row active>
+                                    <Table.Cell colSpan={ 3 }>
+                                        <strong>{ change.connector.friendlyName }</strong>
+                                    </Table.Cell>
+                                </Table.Row>
+                                {
+                                    change.changes.map((property: GovernanceConnectorPropertyChangeInterface) => (
+                                        <Table.Row key={ property.name }>
+                                            <Table.Cell>{ property.displayName ?? property.name }</Table.Cell>
+                                            <Table.Cell negative>{ property.previousValue ?? "-" }</Table.Cell>
+                                            <Table.Cell positive>{ property.currentValue ?? "-" }</Table.Cell>
+                                        </Table.Row>
+                                    ))
+                                }
+                            </React.Fragment>
+                        ))
+                    }
+                </Table.Body>
+            </Table>
+        );
+    };
+
+    return (
+        <Modal
+            data-testid={ testId }
+            open={ true }
+            dimmer="blurring"
+            size="large"
+            onClose={ onClose }
+            closeOnDimmerClick={ false }
+        >
+            <Modal.Header>
+                { t("console:manage.features.governanceConnectors.snapshot.heading") }
+                <Heading as="h6">{ t("console:manage.features.governanceConnectors.snapshot.subHeading") }</Heading>
+            </Modal.Header>
+            <Modal.Content scrolling>
+                <FilePicker
+                    fileStrategy={ FILE_STRATEGY }
+                    file={ selectedFile }
+                    pastedContent={ pastedContent }
+                    onChange={ (result) => {
+                        setSelectedFile(result.file);
+                        setPastedContent(result.pastedContent);
+                        setBundle(result.valid
+                            ? result.serialized as ResourceBundleInterface<GovernanceConnectorSnapshotInterface>
+                            : null);
+                    } }
+                    uploadButtonText={ t("console:manage.features.governanceConnectors.snapshot.filePicker" +
+                        ".uploadButtonText") }
+                    dropzoneText={ t("console:manage.features.governanceConnectors.snapshot.filePicker.dropzoneText") }
+                    pasteAreaPlaceholderText={ t("console:manage.features.governanceConnectors.snapshot.filePicker" +
+                        ".pasteAreaPlaceholderText") }
+                    placeholderIcon={ <Icon name="file code outline" size="huge"/> }
+                    normalizeStateOnRemoveOperations={ true }
+                    data-testid={ `${ testId }-file-picker` }
+                />
+                <Hint>{ t("console:manage.features.governanceConnectors.snapshot.filePicker.hint") }</Hint>
+                { bundle && (
+                    <>
+                        { bundle.redactedFields.length > 0 && (
+                            <Message
+                                warning
+                                visible
+                                content={ t("console:manage.features.governanceConnectors.snapshot.redactedFields",
+                                    { count: bundle.redactedFields.length }) }
+                                data-testid={ `${ testId }-redacted-fields` }
+                            />
+                        ) }
+                        { renderChanges() }
+                    </>
+                ) }
+            </Modal.Content>
+            <Modal.Actions>
+                <LinkButton
+                    floated="left"
+                    onClick={ onClose }
+                    data-testid={ `${ testId }-close-button` }
+                >
+                    { t("common:close") }
+                </LinkButton>
+                <PrimaryButton
+                    disabled={ !changes || changes.length === 0 || isImportInProgress }
+                    loading={ isImportInProgress }
+                    onClick={ handleImport }
+                    data-testid={ `${ testId }-import-button` }
+                >
+                    { t("console:manage.features.governanceConnectors.snapshot.buttons.apply") }
+                </PrimaryButton>
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the component.
+ */
+GovernanceConnectorSnapshotImport.defaultProps = {
+    "data-testid": "governance-connector-snapshot-import"
+};
@@ -18,3 +18,5 @@
 
 export * from "./dynamic-connector-form";
 export * from "./dynamic-governance-connector";
+export * from "./governance-connector-history";
+export * from "./governance-connector-snapshot-import";
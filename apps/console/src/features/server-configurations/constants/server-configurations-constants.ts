@@ -304,4 +304,35 @@ export class ServerConfigurationsConstants {
 	 * Extensions Constants.
 	 */
 	public  static  readonly ALL: string = "all";
+	/**
+	 * Prefix of the connector properties which hold secrets.
+	 *
+	 * @constant
+	 * @type {string}
+	 */
+	public static readonly SECRET_PROPERTY_PREFIX: string = "__secret__";
+
+	/**
+	 * Key of the connector change history in the user preferences.
+	 *
+	 * @constant
+	 * @type {string}
+	 */
+	public static readonly CONNECTOR_HISTORY_STORAGE_KEY: string = "governanceConnectorHistory";
+
+	/**
+	 * Maximum number of versions kept in the change history of a connector.
+	 *
+	 * @constant
+	 * @type {number}
+	 */
+	public static readonly MAX_CONNECTOR_HISTORY_VERSIONS: number = 20;
+
+	/**
+	 * Kind of the governance connector settings snapshot bundles.
+	 *
+	 * @constant
+	 * @type {string}
+	 */
+	public static readonly GOVERNANCE_CONNECTORS_BUNDLE_KIND: string = "GovernanceConnectors";
 }
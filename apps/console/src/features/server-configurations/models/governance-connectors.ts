@@ -58,3 +58,85 @@ export interface GovernanceConnectorCategoryInterface {
 export interface GovernanceConnectorsInterface {
 	categories?: GovernanceConnectorCategoryInterface[];
 }
+
+/**
+ * Sources of a connector version.
+ */
+export enum GovernanceConnectorVersionSources {
+	INITIAL = "initial",
+	UPDATE = "update",
+	ROLLBACK = "rollback",
+	IMPORT = "import"
+}
+
+/**
+ * Value of a connector property captured in a version.
+ */
+export interface GovernanceConnectorVersionPropertyInterface {
+	name: string;
+	value: string;
+}
+
+/**
+ * Version in the change history of a connector.
+ */
+export interface GovernanceConnectorVersionInterface {
+	id: string;
+	connectorId: string;
+	categoryId: string;
+	createdAt: string;
+	createdBy?: string;
+	source: GovernanceConnectorVersionSources;
+	/**
+	 * ID of the version restored by a rollback.
+	 */
+	rollbackOf?: string;
+	properties: GovernanceConnectorVersionPropertyInterface[];
+}
+
+/**
+ * Persistence adapter of the connector change history.
+ */
+export interface GovernanceConnectorHistoryStorageInterface {
+	getVersions(connectorId: string): Promise<GovernanceConnectorVersionInterface[]>;
+	setVersions(connectorId: string, versions: GovernanceConnectorVersionInterface[]): Promise<void>;
+}
+
+/**
+ * Change of a connector property between two versions.
+ */
+export interface GovernanceConnectorPropertyChangeInterface {
+	name: string;
+	displayName?: string;
+	previousValue?: string;
+	currentValue?: string;
+}
+
+/**
+ * Connector settings captured in a snapshot.
+ */
+export interface GovernanceConnectorSnapshotConnectorInterface {
+	id: string;
+	name: string;
+	friendlyName?: string;
+	properties: GovernanceConnectorVersionPropertyInterface[];
+}
+
+/**
+ * Snapshot of the settings of all the connectors.
+ */
+export interface GovernanceConnectorSnapshotInterface {
+	categories: {
+		id: string;
+		name?: string;
+		connectors: GovernanceConnectorSnapshotConnectorInterface[];
+	}[];
+}
+
+/**
+ * Changes required to apply a snapshot to a connector.
+ */
+export interface GovernanceConnectorSnapshotChangeInterface {
+	connector: GovernanceConnectorInterface;
+	changes: GovernanceConnectorPropertyChangeInterface[];
+}
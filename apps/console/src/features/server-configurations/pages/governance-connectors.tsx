@@ -16,21 +16,34 @@
  * under the License.
  */
 
+import { ResourceBundleConstants } from "@wso2is/core/constants";
 import { hasRequiredScopes } from "@wso2is/core/helpers";
-import { AlertLevels, ReferableComponentInterface, TestableComponentInterface } from "@wso2is/core/models";
+import {
+    AlertLevels,
+    ReferableComponentInterface,
+    ResourceBundleFormats,
+    ResourceBundleInterface,
+    TestableComponentInterface
+} from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
-import { CommonUtils } from "@wso2is/core/utils";
-import { EmphasizedSegment, PageLayout } from "@wso2is/react-components";
+import { CommonUtils, ResourceBundleUtils } from "@wso2is/core/utils";
+import { EmphasizedSegment, PageLayout, SecondaryButton } from "@wso2is/react-components";
+import { saveAs } from "file-saver";
 import React, { FunctionComponent, ReactElement, useEffect, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
-import { Grid, Menu, Rail, Ref, Sticky } from "semantic-ui-react";
-import { serverConfigurationConfig } from "../../../extensions";
+import { Grid, Icon, Menu, Rail, Ref, Sticky } from "semantic-ui-react";
+import { ExtensionPoint, ExtensionPointSlots, serverConfigurationConfig } from "../../../extensions";
 import { AppState, FeatureConfigInterface, UIConstants, history, useUIElementSizes } from "../../core";
 import { getConnectorCategory } from "../api";
-import { DynamicGovernanceConnector } from "../components";
+import { DynamicGovernanceConnector, GovernanceConnectorSnapshotImport } from "../components";
 import { ServerConfigurationsConstants } from "../constants";
-import { GovernanceConnectorCategoryInterface, GovernanceConnectorInterface } from "../models";
+import {
+    GovernanceConnectorCategoryInterface,
+    GovernanceConnectorInterface,
+    GovernanceConnectorSnapshotInterface
+} from "../models";
+import { GovernanceConnectorUtils } from "../utils";
 
 /**
  * Props for the Server Configurations page.
@@ -62,10 +75,13 @@ export const GovernanceConnectorsPage: FunctionComponent<GovernanceConnectorsPag
 
     const featureConfig: FeatureConfigInterface = useSelector((state: AppState) => state.config.ui.features);
     const allowedScopes: string = useSelector((state: AppState) => state?.auth?.scope);
+    const tenant: string = useSelector((state: AppState) => state.config.deployment.tenant);
 
     const [ connectorCategory, setConnectorCategory ] = useState<GovernanceConnectorCategoryInterface>({});
     const [ connectors, setConnectors ] = useState<GovernanceConnectorWithRef[]>([]);
     const [ selectedConnector, setSelectorConnector ] = useState<GovernanceConnectorWithRef>(null);
+    const [ isExportInProgress, setIsExportInProgress ] = useState<boolean>(false);
+    const [ showSnapshotImport, setShowSnapshotImport ] = useState<boolean>(false);
 
     const ScrollTopPosition = headerHeight + UIConstants.PAGE_SCROLL_TOP_PADDING;
 
@@ -133,8 +149,64 @@ export const GovernanceConnectorsPage: FunctionComponent<GovernanceConnectorsPag
             });
     };
 
+    /**
+     * Exports the settings of the connectors in all the categories as a snapshot file.
+     */
+    const handleSnapshotExport = (): void => {
+        setIsExportInProgress(true);
+
+        GovernanceConnectorUtils.getAllConnectorCategories()
+            .then((categories: GovernanceConnectorCategoryInterface[]) => {
+                const bundle: ResourceBundleInterface<GovernanceConnectorSnapshotInterface> = GovernanceConnectorUtils
+                    .buildConnectorSnapshot(categories);
+                const blob: Blob = new Blob([ ResourceBundleUtils.serialize(bundle, ResourceBundleFormats.JSON) ], {
+                    type: ResourceBundleConstants.MIME_TYPES.get(ResourceBundleFormats.JSON)
+                });
+
+                saveAs(blob, ResourceBundleUtils.getFileName(bundle, tenant, ResourceBundleFormats.JSON));
+
+                dispatch(addAlert({
+                    description: t("console:manage.features.governanceConnectors.notifications.exportSnapshot" +
+                        ".success.description"),
+                    level: AlertLevels.SUCCESS,
+                    message: t("console:manage.features.governanceConnectors.notifications.exportSnapshot" +
+                        ".success.message")
+                }));
+            })
+            .catch(() => {
+                dispatch(addAlert({
+                    description: t("console:manage.features.governanceConnectors.notifications.exportSnapshot" +
+                        ".genericError.description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.governanceConnectors.notifications.exportSnapshot" +
+                        ".genericError.message")
+                }));
+            })
+            .finally(() => setIsExportInProgress(false));
+    };
+
     return (
         <PageLayout
+            action={ (
+                <>
+                    <SecondaryButton
+                        loading={ isExportInProgress }
+                        disabled={ isExportInProgress }
+                        onClick={ handleSnapshotExport }
+                        data-testid={ `${ testId }-export-button` }
+                    >
+                        <Icon name="download"/>
+                        { t("console:manage.features.governanceConnectors.snapshot.buttons.export") }
+                    </SecondaryButton>
+                    <SecondaryButton
+                        onClick={ () => setShowSnapshotImport(true) }
+                        data-testid={ `${ testId }-import-button` }
+                    >
+                        <Icon name="upload"/>
+                        { t("console:manage.features.governanceConnectors.snapshot.buttons.import") }
+                    </SecondaryButton>
+                </>
+            ) }
             title={ serverConfigurationConfig.showPageHeading && connectorCategory?.name }
             description={
                 serverConfigurationConfig.showPageHeading && (connectorCategory?.description
@@ -150,6 +222,11 @@ export const GovernanceConnectorsPage: FunctionComponent<GovernanceConnectorsPag
                 <Grid>
                     <Grid.Row columns={ 2 }>
                         <Grid.Column width={ 12 }>
+                            <ExtensionPoint
+                                slot={ ExtensionPointSlots.SERVER_CONFIGURATION_WIDGETS }
+                                props={ { category: connectorCategory } }
+                                data-testid={ `${ testId }-widgets` }
+                            />
                             {
                                 (connectors && Array.isArray(connectors) && connectors.length > 0)
                                     ? connectors.map((connector: GovernanceConnectorWithRef, index: number) => {
@@ -178,6 +255,11 @@ export const GovernanceConnectorsPage: FunctionComponent<GovernanceConnectorsPag
                                     })
                                     : null
                             }
+                            <ExtensionPoint
+                                slot={ ExtensionPointSlots.SERVER_CONFIGURATION_SECTIONS }
+                                props={ { category: connectorCategory, onUpdate: () => loadCategoryConnectors() } }
+                                data-testid={ `${ testId }-sections` }
+                            />
                             { serverConfigurationConfig.showGovernanceConnectorCategories &&
                             <Rail
                                 className="non-emphasized"
@@ -239,6 +321,13 @@ export const GovernanceConnectorsPage: FunctionComponent<GovernanceConnectorsPag
                     </Grid.Row>
                 </Grid>
             </Ref>
+            { showSnapshotImport && (
+                <GovernanceConnectorSnapshotImport
+                    onClose={ () => setShowSnapshotImport(false) }
+                    onImport={ () => loadCategoryConnectors() }
+                    data-testid={ `${ testId }-snapshot-import` }
+                />
+            ) }
         </PageLayout>
     );
 };
@@ -0,0 +1,76 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { StorageIdentityAppsSettingsInterface } from "@wso2is/core/models";
+import cloneDeep from "lodash-es/cloneDeep";
+import get from "lodash-es/get";
+import isEmpty from "lodash-es/isEmpty";
+import set from "lodash-es/set";
+import { AppUtils } from "../../core/utils";
+import { ServerConfigurationsConstants } from "../constants";
+import { GovernanceConnectorHistoryStorageInterface, GovernanceConnectorVersionInterface } from "../models";
+
+/**
+ * Persists the connector change history in the user preferences of the browser.
+ */
+export class UserPreferencesConnectorHistoryStorage implements GovernanceConnectorHistoryStorageInterface {
+
+    /**
+     * Gets the versions of a connector.
+     *
+     * @param {string} connectorId - ID of the connector.
+     * @return {Promise<GovernanceConnectorVersionInterface[]>}
+     */
+    public getVersions(connectorId: string): Promise<GovernanceConnectorVersionInterface[]> {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return Promise.resolve([]);
+        }
+
+        return Promise.resolve(get(userPreferences.identityAppsSettings?.devPortal,
+            [ ServerConfigurationsConstants.CONNECTOR_HISTORY_STORAGE_KEY, connectorId ], []));
+    }
+
+    /**
+     * Saves the versions of a connector.
+     *
+     * @param {string} connectorId - ID of the connector.
+     * @param {GovernanceConnectorVersionInterface[]} versions - Versions to save.
+     * @return {Promise<void>}
+     */
+    public setVersions(connectorId: string, versions: GovernanceConnectorVersionInterface[]): Promise<void> {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return Promise.resolve();
+        }
+
+        const newPref: StorageIdentityAppsSettingsInterface = cloneDeep(userPreferences);
+
+        set(newPref, [ "identityAppsSettings", "devPortal", ServerConfigurationsConstants.CONNECTOR_HISTORY_STORAGE_KEY,
+            connectorId ], versions);
+
+        AppUtils.setUserPreferences(newPref);
+
+        return Promise.resolve();
+    }
+}
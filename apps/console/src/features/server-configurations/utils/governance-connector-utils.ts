@@ -16,12 +16,29 @@
  * under the License.
  */
 
-import { AlertLevels } from "@wso2is/core/models";
+import { AlertLevels, ResourceBundleInterface } from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
+import { ResourceBundleUtils } from "@wso2is/core/utils";
 import { I18n } from "@wso2is/i18n";
+import { UserPreferencesConnectorHistoryStorage } from "./governance-connector-history-storage";
+import { serverConfigurationConfig } from "../../../extensions";
 import { store } from "../../core";
-import { getConnectorCategories } from "../api";
-import { GovernanceConnectorsInterface } from "../models";
+import { getConnectorCategories, getConnectorCategory } from "../api";
+import { ServerConfigurationsConstants } from "../constants";
+import {
+    ConnectorPropertyInterface,
+    GovernanceConnectorCategoryInterface,
+    GovernanceConnectorHistoryStorageInterface,
+    GovernanceConnectorInterface,
+    GovernanceConnectorPropertyChangeInterface,
+    GovernanceConnectorSnapshotChangeInterface,
+    GovernanceConnectorSnapshotConnectorInterface,
+    GovernanceConnectorSnapshotInterface,
+    GovernanceConnectorVersionInterface,
+    GovernanceConnectorVersionPropertyInterface,
+    GovernanceConnectorVersionSources,
+    GovernanceConnectorsInterface
+} from "../models";
 import { SetGovernanceConnectorCategory } from "../store/actions";
 
 /**
@@ -85,4 +102,268 @@ export class GovernanceConnectorUtils {
     public static decodeConnectorPropertyName(name: string): string {
         return name.split("-").join(".");
     }
+
+    /**
+     * Retrieves all the connector categories along with their connectors.
+     *
+     * @return {Promise<GovernanceConnectorCategoryInterface[]>}
+     */
+    public static getAllConnectorCategories(): Promise<GovernanceConnectorCategoryInterface[]> {
+        return getConnectorCategories()
+            .then((categories: GovernanceConnectorCategoryInterface[]) => {
+                return Promise.all(categories.map((category: GovernanceConnectorCategoryInterface) => {
+                    return getConnectorCategory(category.id)
+                        .then((response: GovernanceConnectorCategoryInterface) => {
+                            response.connectors?.forEach((connector: GovernanceConnectorInterface) => {
+                                connector.categoryId = category.id;
+                            });
+
+                            return { ...response, id: category.id };
+                        });
+                }));
+            });
+    }
+
+    /**
+     * Gets the change history of a connector. Latest version is last.
+     *
+     * @param {string} connectorId - ID of the connector.
+     * @return {Promise<GovernanceConnectorVersionInterface[]>}
+     */
+    public static getConnectorHistory(connectorId: string): Promise<GovernanceConnectorVersionInterface[]> {
+        return GovernanceConnectorUtils.getHistoryStorage().getVersions(connectorId);
+    }
+
+    /**
+     * Records a new version of a connector after its properties are updated. If the history is empty,
+     * the settings before the update are recorded first so that they can be restored.
+     *
+     * @param {GovernanceConnectorInterface} connector - Connector before the update.
+     * @param {GovernanceConnectorVersionPropertyInterface[]} properties - Updated properties.
+     * @param {GovernanceConnectorVersionSources} source - Source of the update.
+     * @param {string} rollbackOf - ID of the restored version in case of a rollback.
+     * @return {Promise<GovernanceConnectorVersionInterface[]>} Updated history.
+     */
+    public static recordConnectorVersion(connector: GovernanceConnectorInterface,
+                                         properties: GovernanceConnectorVersionPropertyInterface[],
+                                         source: GovernanceConnectorVersionSources,
+                                         rollbackOf?: string): Promise<GovernanceConnectorVersionInterface[]> {
+
+        const storage: GovernanceConnectorHistoryStorageInterface = GovernanceConnectorUtils.getHistoryStorage();
+
+        const createVersion = (versionProperties: GovernanceConnectorVersionPropertyInterface[],
+                               versionSource: GovernanceConnectorVersionSources,
+                               index: number): GovernanceConnectorVersionInterface => ({
+            categoryId: connector.categoryId,
+            connectorId: connector.id,
+            createdAt: new Date().toISOString(),
+            createdBy: store.getState().auth?.username,
+            id: `${ Date.now().toString(36) }-${ index }`,
+            properties: versionProperties,
+            rollbackOf: versionSource === GovernanceConnectorVersionSources.ROLLBACK ? rollbackOf : undefined,
+            source: versionSource
+        });
+
+        return storage.getVersions(connector.id)
+            .then((versions: GovernanceConnectorVersionInterface[]) => {
+                const history: GovernanceConnectorVersionInterface[] = [ ...versions ];
+
+                if (history.length === 0) {
+                    history.push(createVersion(GovernanceConnectorUtils.getVersionProperties(connector.properties),
+                        GovernanceConnectorVersionSources.INITIAL, 0));
+                }
+
+                const latest: GovernanceConnectorVersionPropertyInterface[] = history[ history.length - 1 ].properties;
+                const updated: GovernanceConnectorVersionPropertyInterface[] = GovernanceConnectorUtils
+                    .mergeVersionProperties(latest, GovernanceConnectorUtils.getVersionProperties(properties));
+
+                if (GovernanceConnectorUtils.diffConnectorProperties(latest, updated).length === 0) {
+                    return versions;
+                }
+
+                history.push(createVersion(updated, source, history.length));
+
+                const trimmed: GovernanceConnectorVersionInterface[] = history
+                    .slice(-ServerConfigurationsConstants.MAX_CONNECTOR_HISTORY_VERSIONS);
+
+                return storage.setVersions(connector.id, trimmed)
+                    .then(() => trimmed);
+            });
+    }
+
+    /**
+     * Lists the properties changed between two sets of connector properties.
+     *
+     * @param {GovernanceConnectorVersionPropertyInterface[]} previous - Previous properties.
+     * @param {GovernanceConnectorVersionPropertyInterface[]} current - Current properties.
+     * @param {ConnectorPropertyInterface[]} metadata - Connector properties to resolve the display names from.
+     * @return {GovernanceConnectorPropertyChangeInterface[]}
+     */
+    public static diffConnectorProperties(previous: GovernanceConnectorVersionPropertyInterface[],
+                                          current: GovernanceConnectorVersionPropertyInterface[],
+                                          metadata: ConnectorPropertyInterface[] = []
+    ): GovernanceConnectorPropertyChangeInterface[] {
+
+        const previousValues: Map<string, string> = new Map(previous.map((property) => {
+            return [ property.name, property.value ];
+        }));
+        const currentValues: Map<string, string> = new Map(current.map((property) => {
+            return [ property.name, property.value ];
+        }));
+        const names: string[] = Array.from(new Set([ ...previousValues.keys(), ...currentValues.keys() ]));
+
+        return names
+            .filter((name: string) => previousValues.get(name) !== currentValues.get(name))
+            .map((name: string) => ({
+                currentValue: currentValues.get(name),
+                displayName: metadata.find((property: ConnectorPropertyInterface) => property.name === name)
+                    ?.displayName,
+                name,
+                previousValue: previousValues.get(name)
+            }));
+    }
+
+    /**
+     * Builds a snapshot bundle of the settings of all the connectors. Secrets are not exported.
+     *
+     * @param {GovernanceConnectorCategoryInterface[]} categories - Categories along with their connectors.
+     * @return {ResourceBundleInterface<GovernanceConnectorSnapshotInterface>}
+     */
+    public static buildConnectorSnapshot(
+        categories: GovernanceConnectorCategoryInterface[]
+    ): ResourceBundleInterface<GovernanceConnectorSnapshotInterface> {
+
+        const redactedFields: string[] = [];
+        const snapshot: GovernanceConnectorSnapshotInterface = {
+            categories: categories.map((category: GovernanceConnectorCategoryInterface) => ({
+                connectors: (category.connectors ?? []).map((connector: GovernanceConnectorInterface) => {
+                    connector.properties
+                        .filter((property: ConnectorPropertyInterface) => GovernanceConnectorUtils.isSecret(property))
+                        .forEach((property: ConnectorPropertyInterface) => {
+                            redactedFields.push(`${ connector.name }.${ property.name }`);
+                        });
+
+                    return {
+                        friendlyName: connector.friendlyName,
+                        id: connector.id,
+                        name: connector.name,
+                        properties: GovernanceConnectorUtils.getVersionProperties(connector.properties)
+                    };
+                }),
+                id: category.id,
+                name: category.name
+            }))
+        };
+
+        return {
+            ...ResourceBundleUtils.createBundle(ServerConfigurationsConstants.GOVERNANCE_CONNECTORS_BUNDLE_KIND,
+                snapshot),
+            redactedFields
+        };
+    }
+
+    /**
+     * Lists the changes required to apply a snapshot to the current connectors. Connectors which
+     * aren't available in the current environment are ignored.
+     *
+     * @param {GovernanceConnectorSnapshotInterface} snapshot - Snapshot to be applied.
+     * @param {GovernanceConnectorCategoryInterface[]} categories - Current categories along with their connectors.
+     * @return {GovernanceConnectorSnapshotChangeInterface[]}
+     */
+    public static getSnapshotChanges(snapshot: GovernanceConnectorSnapshotInterface,
+                                     categories: GovernanceConnectorCategoryInterface[]
+    ): GovernanceConnectorSnapshotChangeInterface[] {
+
+        const connectors: GovernanceConnectorInterface[] = [].concat(...categories.map((category) => {
+            return category.connectors ?? [];
+        }));
+
+        return [].concat(...(snapshot?.categories ?? []).map((category) => category.connectors ?? []))
+            .map((snapshotConnector: GovernanceConnectorSnapshotConnectorInterface) => {
+                const connector: GovernanceConnectorInterface = connectors.find((current) => {
+                    return current.id === snapshotConnector.id;
+                });
+
+                if (!connector) {
+                    return null;
+                }
+
+                const currentProperties: GovernanceConnectorVersionPropertyInterface[] = GovernanceConnectorUtils
+                    .getVersionProperties(connector.properties);
+                const changes: GovernanceConnectorPropertyChangeInterface[] = GovernanceConnectorUtils
+                    .diffConnectorProperties(currentProperties,
+                        GovernanceConnectorUtils.mergeVersionProperties(currentProperties,
+                            GovernanceConnectorUtils.getVersionProperties(snapshotConnector.properties ?? [])),
+                        connector.properties);
+
+                return changes.length > 0 ? { changes, connector } : null;
+            })
+            .filter(Boolean);
+    }
+
+    /**
+     * Converts the connector properties to the values captured in a version. Secrets are skipped.
+     *
+     * @param {GovernanceConnectorVersionPropertyInterface[]} properties - Connector properties.
+     * @return {GovernanceConnectorVersionPropertyInterface[]}
+     */
+    public static getVersionProperties(
+        properties: GovernanceConnectorVersionPropertyInterface[]
+    ): GovernanceConnectorVersionPropertyInterface[] {
+
+        return (properties ?? [])
+            .filter((property: GovernanceConnectorVersionPropertyInterface) => {
+                return !GovernanceConnectorUtils.isSecret(property);
+            })
+            .map((property: GovernanceConnectorVersionPropertyInterface) => ({
+                name: property.name,
+                value: String(property.value)
+            }));
+    }
+
+    /**
+     * Resolves the persistence adapter of the connector change history.
+     *
+     * @return {GovernanceConnectorHistoryStorageInterface}
+     */
+    private static getHistoryStorage(): GovernanceConnectorHistoryStorageInterface {
+        return serverConfigurationConfig.connectorHistoryStorage ?? new UserPreferencesConnectorHistoryStorage();
+    }
+
+    /**
+     * Applies the updated values on top of a set of properties.
+     *
+     * @param {GovernanceConnectorVersionPropertyInterface[]} properties - Base properties.
+     * @param {GovernanceConnectorVersionPropertyInterface[]} updates - Updated values.
+     * @return {GovernanceConnectorVersionPropertyInterface[]}
+     */
+    private static mergeVersionProperties(
+        properties: GovernanceConnectorVersionPropertyInterface[],
+        updates: GovernanceConnectorVersionPropertyInterface[]
+    ): GovernanceConnectorVersionPropertyInterface[] {
+
+        const merged: GovernanceConnectorVersionPropertyInterface[] = properties.map((property) => {
+            const update: GovernanceConnectorVersionPropertyInterface = updates.find((updated) => {
+                return updated.name === property.name;
+            });
+
+            return update ? { ...property, value: update.value } : property;
+        });
+
+        updates
+            .filter((update) => !properties.some((property) => property.name === update.name))
+            .forEach((update) => merged.push(update));
+
+        return merged;
+    }
+
+    /**
+     * Checks if a connector property holds a secret.
+     *
+     * @param {GovernanceConnectorVersionPropertyInterface} property - Connector property.
+     * @return {boolean}
+     */
+    private static isSecret(property: GovernanceConnectorVersionPropertyInterface): boolean {
+        return property.name.startsWith(ServerConfigurationsConstants.SECRET_PROPERTY_PREFIX);
+    }
 }
@@ -16,4 +16,5 @@
  * under the License.
  */
 
+export * from "./governance-connector-history-storage";
 export * from "./governance-connector-utils";
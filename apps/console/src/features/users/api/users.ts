@@ -22,7 +22,12 @@ import { HttpMethods, ProfileInfoInterface } from "@wso2is/core/models";
 import { AxiosError, AxiosResponse } from "axios";
 import { store } from "../../core";
 import { UserManagementConstants } from "../constants";
-import { UserListInterface, UserSessionsInterface } from "../models";
+import {
+    SCIMBulkRequestInterface,
+    SCIMBulkResponseInterface,
+    UserListInterface,
+    UserSessionsInterface
+} from "../models";
 
 /**
  * Initialize an axios Http client.
@@ -335,3 +340,47 @@ export const terminateAllUserSessions = (userId: string): Promise<AxiosResponse>
                 error.config);
         });
 };
+
+/**
+ * Adds a set of users using a SCIM Bulk request.
+ *
+ * @param {SCIMBulkRequestInterface} data - Bulk request payload.
+ * @return {Promise<SCIMBulkResponseInterface>} a promise containing the response.
+ * @throws {IdentityAppsApiException}
+ */
+export const addUsersInBulk = (data: SCIMBulkRequestInterface): Promise<SCIMBulkResponseInterface> => {
+
+    const requestConfig = {
+        data,
+        headers: {
+            "Access-Control-Allow-Origin": store.getState().config.deployment.clientHost,
+            "Content-Type": "application/scim+json"
+        },
+        method: HttpMethods.POST,
+        url: store.getState().config.endpoints.bulk
+    };
+
+    return httpClient(requestConfig)
+        .then((response: AxiosResponse<SCIMBulkResponseInterface>) => {
+            if (response.status !== 200) {
+                throw new IdentityAppsApiException(
+                    UserManagementConstants.ADD_USERS_IN_BULK_REQUEST_INVALID_STATUS_CODE_ERROR,
+                    null,
+                    response.status,
+                    response.request,
+                    response,
+                    response.config);
+            }
+
+            return Promise.resolve(response.data);
+        })
+        .catch((error: AxiosError) => {
+            throw new IdentityAppsApiException(
+                UserManagementConstants.ADD_USERS_IN_BULK_REQUEST_ERROR,
+                error.stack,
+                error.code,
+                error.request,
+                error.response,
+                error.config);
+        });
+};
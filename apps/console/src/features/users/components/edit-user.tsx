@@ -28,6 +28,7 @@ import { UserGroupsList } from "./user-groups-edit";
 import { UserProfile } from "./user-profile";
 import { UserRolesList } from "./user-roles-edit";
 import { UserSessions } from "./user-sessions";
+import { ExtensionPointSlots, getExtensionPointTabPanes } from "../../../extensions";
 import { FeatureConfigInterface } from "../../core/models";
 import { AppState } from "../../core/store";
 import { ConnectorPropertyInterface } from "../../server-configurations/models";
@@ -154,7 +155,12 @@ export const EditUser: FunctionComponent<EditUserPropsInterface> = (
                     <UserSessions user={ user } />
                 </ResourceTab.Pane>
             )
-        }
+        },
+        ...getExtensionPointTabPanes(ExtensionPointSlots.USER_EDIT_TABS, {
+            handleUserUpdate,
+            isReadOnly,
+            user
+        })
     ]);
 
     return (
@@ -28,6 +28,7 @@ import { CommonUtils } from "@wso2is/core/utils";
 import {
     ConfirmationModal,
     DataTable,
+    DataTableViewStorageInterface,
     EmptyPlaceholder,
     LinkButton,
     PrimaryButton,
@@ -36,15 +37,17 @@ import {
     UserAvatar,
     useConfirmationModalAlert
 } from "@wso2is/react-components";
-import React, { ReactElement, ReactNode, SyntheticEvent, useState } from "react";
+import React, { ReactElement, ReactNode, SyntheticEvent, useMemo, useState } from "react";
 import { Trans, useTranslation } from "react-i18next";
 import { useSelector } from "react-redux";
 import { Header, Icon, ListItemProps, SemanticICONS } from "semantic-ui-react";
+import { ExtensionPointSlots, useExtensionPointRowActions } from "../../../extensions";
 import {
     AppConstants,
     AppState,
     FeatureConfigInterface,
     UIConstants,
+    UserPreferencesDataTableViewStorage,
     getEmptyPlaceholderIllustrations,
     history
 } from "../../core";
@@ -153,10 +156,15 @@ export const UsersList: React.FunctionComponent<UsersListProps> = (props: UsersL
 
     const { t } = useTranslation();
 
+    const { actions: extensionActions, modal: extensionActionModal } = useExtensionPointRowActions(
+        ExtensionPointSlots.USER_LIST_ROW_ACTIONS, testId);
+
     const [ showDeleteConfirmationModal, setShowDeleteConfirmationModal ] = useState<boolean>(false);
     const [ deletingUser, setDeletingUser ] = useState<UserBasicInterface>(undefined);
     const [ alert, setAlert, alertComponent ] = useConfirmationModalAlert();
 
+    const viewStorage: DataTableViewStorageInterface = useMemo(() => new UserPreferencesDataTableViewStorage(), []);
+
     const allowedScopes: string = useSelector((state: AppState) => state?.auth?.scope);
 
     const handleUserEdit = (userId: string) => {
@@ -195,6 +203,20 @@ export const UsersList: React.FunctionComponent<UsersListProps> = (props: UsersL
         });
     };
 
+    /**
+     * Resolves the display name of a user.
+     *
+     * @param {UserBasicInterface} user - User.
+     * @return {string}
+     */
+    const resolveUserName = (user: UserBasicInterface): string => {
+        return (user.name && user.name.givenName !== undefined)
+            ? user.name.givenName + " " + (user.name.familyName ? user.name.familyName : "")
+            : user.userName.split("/")?.length > 1
+                ? user.userName.split("/")[ 1 ]
+                : user.userName.split("/")[ 0 ];
+    };
+
     /**
      * Resolves data table columns.
      *
@@ -205,14 +227,12 @@ export const UsersList: React.FunctionComponent<UsersListProps> = (props: UsersL
             {
                 allowToggleVisibility: false,
                 dataIndex: "name",
+                filterable: true,
+                getValue: (user: UserBasicInterface): string => resolveUserName(user),
                 id: "name",
                 key: "name",
                 render: (user: UserBasicInterface): ReactNode => {
-                    const resolvedUserName = (user.name && user.name.givenName !== undefined)
-                        ? user.name.givenName + " " + (user.name.familyName ? user.name.familyName : "")
-                        : user.userName.split("/")?.length > 1
-                            ? user.userName.split("/")[ 1 ]
-                            : user.userName.split("/")[ 0 ];
+                    const resolvedUserName = resolveUserName(user);
 
                     const resolvedDescription = user.emails
                         ? user.emails[ 0 ]?.toString()
@@ -248,6 +268,7 @@ export const UsersList: React.FunctionComponent<UsersListProps> = (props: UsersL
                         </Header>
                     );
                 },
+                sortable: true,
                 title: t("console:manage.features.users.list.columns.name")
             },
             {
@@ -274,14 +295,18 @@ export const UsersList: React.FunctionComponent<UsersListProps> = (props: UsersL
             let dynamicColumn: TableColumnInterface = {
                 allowToggleVisibility: true,
                 dataIndex: value,
+                filterable: true,
                 id: key,
                 key: key,
+                sortable: true,
                 title: value
             };
 
             if (key === "meta.lastModified") {
                 dynamicColumn = {
                     ...dynamicColumn,
+                    filterable: false,
+                    getValue: (user: UserBasicInterface): string => user?.meta?.lastModified,
                     render: (user: UserBasicInterface): ReactNode =>
                         CommonUtils.humanizeDateDifference(user?.meta?.lastModified)
                 };
@@ -363,6 +388,8 @@ export const UsersList: React.FunctionComponent<UsersListProps> = (props: UsersL
             renderer: "semantic-icon"
         });
 
+        actions.push(...extensionActions);
+
         return actions;
     };
 
@@ -424,7 +451,12 @@ export const UsersList: React.FunctionComponent<UsersListProps> = (props: UsersL
     return (
         <>
             <DataTable<UserBasicInterface>
+                id="users-list"
                 className="users-table"
+                columnFilterPlaceholder={ t("console:common.dataTable.filters.placeholder") }
+                enableKeyboardNavigation
+                exportButtonLabel={ t("console:common.dataTable.actions.exportPage") }
+                exportFileName="users"
                 externalSearch={ advancedSearch }
                 isLoading={ isLoading }
                 loadingStateOptions={ {
@@ -434,17 +466,33 @@ export const UsersList: React.FunctionComponent<UsersListProps> = (props: UsersL
                 actions={ resolveTableActions() }
                 columns={ resolveTableColumns() }
                 data={ usersList.Resources }
+                multiSort
                 onColumnSelectionChange={ onColumnSelectionChange }
                 onRowClick={ (e: SyntheticEvent, user: UserBasicInterface): void => {
                     handleUserEdit(user?.id);
                     onListItemClick && onListItemClick(e, user);
                 } }
+                // The users are paginated by the server. Hence the local operations only cover the current page.
+                operationsHint={ t("console:common.dataTable.hints.currentPage") }
                 placeholders={ showPlaceholders() }
+                processDataLocally
                 selectable={ selection }
-                showHeader={ false }
+                showColumnFilters
+                showExport
+                showOperationsHeader
+                stickyHeader
                 transparent={ !isLoading && (showPlaceholders() !== null) }
+                viewSelectorLabels={ {
+                    delete: t("console:common.dataTable.views.delete"),
+                    emptyPlaceholder: t("console:common.dataTable.views.emptyPlaceholder"),
+                    header: t("console:common.dataTable.views.header"),
+                    namePlaceholder: t("console:common.dataTable.views.namePlaceholder"),
+                    save: t("console:common.dataTable.views.save")
+                } }
+                viewStorage={ viewStorage }
                 data-testid={ testId }
             />
+            { extensionActionModal }
             {
                 deletingUser && (
                     <ConfirmationModal
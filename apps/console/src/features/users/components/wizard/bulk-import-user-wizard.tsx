@@ -0,0 +1,688 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { getAllExternalClaims, getAllLocalClaims } from "@wso2is/core/api";
+import { AlertLevels, Claim, ExternalClaim, TestableComponentInterface } from "@wso2is/core/models";
+import { addAlert } from "@wso2is/core/store";
+import {
+    FilePicker,
+    Heading,
+    Hint,
+    LinkButton,
+    PrimaryButton,
+    Steps,
+    useWizardAlert
+} from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useEffect, useMemo, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useDispatch } from "react-redux";
+import {
+    Dropdown,
+    DropdownItemProps,
+    DropdownProps,
+    Grid,
+    Icon,
+    Label,
+    Message,
+    Modal,
+    Progress,
+    SemanticCOLORS,
+    Table
+} from "semantic-ui-react";
+import { ClaimManagementConstants } from "../../../claims/constants";
+import { addUsersInBulk } from "../../api";
+import { getUserWizardStepIcons } from "../../configs";
+import {
+    SCIMBulkRequestInterface,
+    UserBulkImportAttributeInterface,
+    UserBulkImportColumnMappingInterface,
+    UserBulkImportFileInterface,
+    UserBulkImportRowErrorCodes,
+    UserBulkImportRowErrorInterface,
+    UserBulkImportRowInterface,
+    UserBulkImportRowStatus
+} from "../../models";
+import { UserBulkImportFileStrategy, UserBulkImportUtils } from "../../utils";
+
+/**
+ * Proptypes for the bulk import user wizard component.
+ */
+interface BulkImportUserWizardPropsInterface extends TestableComponentInterface {
+    /**
+     * Callback to close the wizard.
+     */
+    closeWizard: () => void;
+    /**
+     * Initial step of the wizard.
+     */
+    currentStep?: number;
+    /**
+     * Callback to be triggered once the import is completed.
+     */
+    onImportComplete: () => void;
+    /**
+     * Userstore the users should be added to.
+     */
+    userStore: string;
+}
+
+/**
+ * Enum for the wizard steps.
+ * @readonly
+ * @enum {number}
+ */
+enum WizardSteps {
+    UPLOAD = 0,
+    MAPPING = 1,
+    PREVIEW = 2,
+    RESULTS = 3
+}
+
+/**
+ * i18n keys of the row error codes.
+ */
+const ROW_ERROR_I18N_KEYS: Record<UserBulkImportRowErrorCodes, string> = {
+    [ UserBulkImportRowErrorCodes.DUPLICATE_USERNAME ]: "duplicateUsername",
+    [ UserBulkImportRowErrorCodes.IMPORT_FAILED ]: "importFailed",
+    [ UserBulkImportRowErrorCodes.INVALID_ATTRIBUTE_VALUE ]: "invalidAttributeValue",
+    [ UserBulkImportRowErrorCodes.MISSING_EMAIL ]: "missingEmail",
+    [ UserBulkImportRowErrorCodes.MISSING_REQUIRED_ATTRIBUTE ]: "missingRequiredAttribute",
+    [ UserBulkImportRowErrorCodes.MISSING_USERNAME ]: "missingUsername"
+};
+
+/**
+ * Label colors of the row statuses.
+ */
+const ROW_STATUS_COLORS: Record<UserBulkImportRowStatus, SemanticCOLORS> = {
+    [ UserBulkImportRowStatus.VALID ]: "green",
+    [ UserBulkImportRowStatus.INVALID ]: "orange",
+    [ UserBulkImportRowStatus.SUCCESS ]: "green",
+    [ UserBulkImportRowStatus.FAILED ]: "red"
+};
+
+const FILE_STRATEGY: UserBulkImportFileStrategy = new UserBulkImportFileStrategy();
+
+/**
+ * Wizard to import users in bulk from a CSV or JSON file.
+ *
+ * @param {BulkImportUserWizardPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const BulkImportUserWizard: FunctionComponent<BulkImportUserWizardPropsInterface> = (
+    props: BulkImportUserWizardPropsInterface
+): ReactElement => {
+
+    const {
+        closeWizard,
+        currentStep,
+        onImportComplete,
+        userStore,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const dispatch = useDispatch();
+
+    const [ currentWizardStep, setCurrentWizardStep ] = useState<number>(currentStep);
+    const [ selectedFile, setSelectedFile ] = useState<File>(null);
+    const [ pastedContent, setPastedContent ] = useState<string>(null);
+    const [ importFile, setImportFile ] = useState<UserBulkImportFileInterface>(null);
+    const [ attributes, setAttributes ] = useState<UserBulkImportAttributeInterface[]>([]);
+    const [ mappings, setMappings ] = useState<UserBulkImportColumnMappingInterface[]>([]);
+    const [ rows, setRows ] = useState<UserBulkImportRowInterface[]>([]);
+    const [ processedCount, setProcessedCount ] = useState<number>(0);
+    const [ isImportInProgress, setIsImportInProgress ] = useState<boolean>(false);
+
+    const [ alert, setAlert, alertComponent ] = useWizardAlert();
+
+    /**
+     * Fetches the local claims and the SCIM2 user claims to resolve the attributes
+     * that the file columns can be mapped to.
+     */
+    useEffect(() => {
+        Promise.all([
+            getAllLocalClaims(null),
+            getAllExternalClaims(ClaimManagementConstants.ATTRIBUTE_DIALECT_IDS.get("SCIM2_SCHEMAS_CORE_USER"), null),
+            getAllExternalClaims(ClaimManagementConstants.ATTRIBUTE_DIALECT_IDS.get("SCIM2_SCHEMAS_EXT_ENT_USER"),
+                null)
+        ])
+            .then(([ localClaims, coreClaims, enterpriseClaims ]: [ Claim[], ExternalClaim[], ExternalClaim[] ]) => {
+                setAttributes(UserBulkImportUtils.getImportAttributes(localClaims, [
+                    ...coreClaims,
+                    ...enterpriseClaims
+                ]));
+            })
+            .catch((error) => {
+                dispatch(addAlert({
+                    description: error?.response?.data?.description
+                        || t("console:manage.features.claims.local.notifications.getClaims.genericError.description"),
+                    level: AlertLevels.ERROR,
+                    message: error?.response?.data?.message
+                        || t("console:manage.features.claims.local.notifications.getClaims.genericError.message")
+                }));
+            });
+    }, []);
+
+    /**
+     * Suggests the column mappings once a file is selected.
+     */
+    useEffect(() => {
+        if (!importFile) {
+            setMappings([]);
+
+            return;
+        }
+
+        setMappings(UserBulkImportUtils.suggestMappings(importFile.headers, attributes));
+    }, [ importFile, attributes ]);
+
+    const unmappedRequiredAttributes: UserBulkImportAttributeInterface[] = useMemo(() => {
+        return UserBulkImportUtils.getUnmappedRequiredAttributes(mappings, attributes);
+    }, [ mappings, attributes ]);
+
+    const validRowCount: number = rows.filter((row: UserBulkImportRowInterface) => {
+        return row.status === UserBulkImportRowStatus.VALID;
+    }).length;
+
+    const attributeOptions: DropdownItemProps[] = attributes.map((attribute: UserBulkImportAttributeInterface) => ({
+        description: attribute.attribute,
+        key: getAttributeKey(attribute),
+        text: attribute.displayName,
+        value: getAttributeKey(attribute)
+    }));
+
+    /**
+     * Returns a unique key for an attribute.
+     *
+     * @param {UserBulkImportAttributeInterface} attribute - Attribute.
+     * @return {string} Key of the attribute.
+     */
+    function getAttributeKey(attribute: UserBulkImportAttributeInterface): string {
+        return `${ attribute.schema }:${ attribute.attribute }`;
+    }
+
+    /**
+     * Handles the mapping change of a column.
+     *
+     * @param {string} column - Column name.
+     * @param {string} attributeKey - Key of the selected attribute.
+     */
+    const handleMappingChange = (column: string, attributeKey: string): void => {
+        setMappings(mappings.map((mapping: UserBulkImportColumnMappingInterface) => {
+            if (mapping.column !== column) {
+                return mapping;
+            }
+
+            return {
+                attribute: attributes.find((attribute: UserBulkImportAttributeInterface) => {
+                    return getAttributeKey(attribute) === attributeKey;
+                }) ?? null,
+                column
+            };
+        }));
+    };
+
+    /**
+     * Imports the valid rows batch by batch and updates the row statuses
+     * with the results of each batch.
+     */
+    const importUsers = (): void => {
+        const requests: SCIMBulkRequestInterface[] = UserBulkImportUtils.buildBulkRequests(rows);
+
+        setIsImportInProgress(true);
+        setProcessedCount(0);
+
+        requests
+            .reduce((previous: Promise<UserBulkImportRowInterface[]>, request: SCIMBulkRequestInterface) => {
+                return previous.then((updatedRows: UserBulkImportRowInterface[]) => {
+                    return addUsersInBulk(request)
+                        .then((response) => {
+                            return UserBulkImportUtils.applyBulkResponse(updatedRows, request, response);
+                        })
+                        .catch((error) => {
+                            return UserBulkImportUtils.applyBulkResponse(updatedRows, request, null,
+                                error?.response?.data?.detail
+                                    ?? t("console:manage.features.users.notifications.bulkImportUsers" +
+                                        ".genericError.description"));
+                        })
+                        .then((result: UserBulkImportRowInterface[]) => {
+                            setRows(result);
+                            setProcessedCount((count: number) => count + request.Operations.length);
+
+                            return result;
+                        });
+                });
+            }, Promise.resolve(rows))
+            .then((result: UserBulkImportRowInterface[]) => {
+                const successCount: number = result.filter((row: UserBulkImportRowInterface) => {
+                    return row.status === UserBulkImportRowStatus.SUCCESS;
+                }).length;
+
+                if (successCount === 0) {
+                    setAlert({
+                        description: t("console:manage.features.users.notifications.bulkImportUsers.genericError" +
+                            ".description"),
+                        level: AlertLevels.ERROR,
+                        message: t("console:manage.features.users.notifications.bulkImportUsers.genericError" +
+                            ".message")
+                    });
+
+                    return;
+                }
+
+                dispatch(addAlert({
+                    description: t("console:manage.features.users.notifications.bulkImportUsers.success" +
+                        ".description", { count: successCount }),
+                    level: AlertLevels.SUCCESS,
+                    message: t("console:manage.features.users.notifications.bulkImportUsers.success.message")
+                }));
+            })
+            .finally(() => {
+                setIsImportInProgress(false);
+            });
+    };
+
+    /**
+     * Navigates to the next step of the wizard.
+     */
+    const navigateToNext = (): void => {
+        switch (currentWizardStep) {
+            case WizardSteps.MAPPING:
+                setRows(UserBulkImportUtils.buildRows(importFile, mappings, userStore));
+                break;
+            case WizardSteps.PREVIEW:
+                importUsers();
+                break;
+            case WizardSteps.RESULTS:
+                onImportComplete();
+                closeWizard();
+
+                return;
+        }
+
+        setCurrentWizardStep(currentWizardStep + 1);
+    };
+
+    /**
+     * Navigates to the previous step of the wizard.
+     */
+    const navigateToPrevious = (): void => {
+        setCurrentWizardStep(currentWizardStep - 1);
+    };
+
+    /**
+     * Checks if the user can proceed from the current step.
+     *
+     * @return {boolean} Can proceed or not.
+     */
+    const isNextEnabled = (): boolean => {
+        switch (currentWizardStep) {
+            case WizardSteps.UPLOAD:
+                return !!importFile && attributes.length > 0;
+            case WizardSteps.MAPPING:
+                return unmappedRequiredAttributes.length === 0;
+            case WizardSteps.PREVIEW:
+                return validRowCount > 0;
+            default:
+                return !isImportInProgress;
+        }
+    };
+
+    /**
+     * Resolves the translated errors of a row.
+     *
+     * @param {UserBulkImportRowInterface} row - Row of the import.
+     * @return {string} Errors of the row.
+     */
+    const resolveRowErrors = (row: UserBulkImportRowInterface): string => {
+        return row.errors
+            .map((error: UserBulkImportRowErrorInterface) => {
+                return t("console:manage.features.user.modals.bulkImportUserWizard.rowErrors."
+                    + ROW_ERROR_I18N_KEYS[ error.code ], { attribute: error.attribute, detail: error.detail });
+            })
+            .join(" ");
+    };
+
+    /**
+     * Renders the table of rows.
+     *
+     * @param {UserBulkImportRowInterface[]} tableRows - Rows to be rendered.
+     * @return {React.ReactElement}
+     */
+    const renderRowsTable = (tableRows: UserBulkImportRowInterface[]): ReactElement => (
+        <Table compact data-testid={ `${ testId }-rows-table` }>
+            <Table.Header>
+                <Table.Row>
+                    <Table.HeaderCell>
+                        { t("console:manage.features.user.modals.bulkImportUserWizard.preview.columns.row") }
+                    </Table.HeaderCell>
+                    <Table.HeaderCell>
+                        { t("console:manage.features.user.modals.bulkImportUserWizard.preview.columns.username") }
+                    </Table.HeaderCell>
+                    <Table.HeaderCell>
+                        { t("console:manage.features.user.modals.bulkImportUserWizard.preview.columns.status") }
+                    </Table.HeaderCell>
+                    <Table.HeaderCell>
+                        { t("console:manage.features.user.modals.bulkImportUserWizard.preview.columns.errors") }
+                    </Table.HeaderCell>
+                </Table.Row>
+            </Table.Header>
+            <Table.Body>
+                {
+                    tableRows.map((row: UserBulkImportRowInterface) => (
+                        <Table.Row key={ row.rowNumber } negative={ row.errors.length > 0 }>
+                            <Table.Cell>{ row.rowNumber }</Table.Cell>
+                            <Table.Cell>{ row.userName }</Table.Cell>
+                            <Table.Cell>
+                                <Label size="mini" color={ ROW_STATUS_COLORS[ row.status ] }>
+                                    {
+                                        t("console:manage.features.user.modals.bulkImportUserWizard.status."
+                                            + row.status.toLowerCase())
+                                    }
+                                </Label>
+                            </Table.Cell>
+                            <Table.Cell>{ resolveRowErrors(row) }</Table.Cell>
+                        </Table.Row>
+                    ))
+                }
+            </Table.Body>
+        </Table>
+    );
+
+    const STEPS = [
+        {
+            content: (
+                <>
+                    <FilePicker
+                        fileStrategy={ FILE_STRATEGY }
+                        file={ selectedFile }
+                        pastedContent={ pastedContent }
+                        onChange={ (result) => {
+                            setSelectedFile(result.file);
+                            setPastedContent(result.pastedContent);
+                            setImportFile(result.valid ? result.serialized as UserBulkImportFileInterface : null);
+                        } }
+                        uploadButtonText={
+                            t("console:manage.features.user.modals.bulkImportUserWizard.upload.uploadButtonText")
+                        }
+                        dropzoneText={
+                            t("console:manage.features.user.modals.bulkImportUserWizard.upload.dropzoneText")
+                        }
+                        pasteAreaPlaceholderText={
+                            t("console:manage.features.user.modals.bulkImportUserWizard.upload" +
+                                ".pasteAreaPlaceholderText")
+                        }
+                        placeholderIcon={ <Icon name="file alternate outline" size="huge"/> }
+                        normalizeStateOnRemoveOperations={ true }
+                        data-testid={ `${ testId }-file-picker` }
+                    />
+                    <Hint>{ t("console:manage.features.user.modals.bulkImportUserWizard.upload.hint") }</Hint>
+                </>
+            ),
+            icon: getUserWizardStepIcons().general,
+            title: t("console:manage.features.user.modals.bulkImportUserWizard.steps.upload")
+        },
+        {
+            content: (
+                <>
+                    <Hint>{ t("console:manage.features.user.modals.bulkImportUserWizard.mapping.hint") }</Hint>
+                    {
+                        unmappedRequiredAttributes.length > 0 && (
+                            <Message
+                                warning
+                                visible
+                                data-testid={ `${ testId }-unmapped-attributes-message` }
+                                content={
+                                    t("console:manage.features.user.modals.bulkImportUserWizard.mapping" +
+                                        ".missingRequired", {
+                                        attributes: unmappedRequiredAttributes
+                                            .map((attribute: UserBulkImportAttributeInterface) => {
+                                                return attribute.displayName;
+                                            })
+                                            .join(", ")
+                                    })
+                                }
+                            />
+                        )
+                    }
+                    <Table compact data-testid={ `${ testId }-mapping-table` }>
+                        <Table.Header>
+                            <Table.Row>
+                                <Table.HeaderCell>
+                                    {
+                                        t("console:manage.features.user.modals.bulkImportUserWizard.mapping" +
+                                            ".columns.column")
+                                    }
+                                </Table.HeaderCell>
+                                <Table.HeaderCell>
+                                    {
+                                        t("console:manage.features.user.modals.bulkImportUserWizard.mapping" +
+                                            ".columns.sample")
+                                    }
+                                </Table.HeaderCell>
+                                <Table.HeaderCell>
+                                    {
+                                        t("console:manage.features.user.modals.bulkImportUserWizard.mapping" +
+                                            ".columns.attribute")
+                                    }
+                                </Table.HeaderCell>
+                            </Table.Row>
+                        </Table.Header>
+                        <Table.Body>
+                            {
+                                mappings.map((mapping: UserBulkImportColumnMappingInterface) => (
+                                    <Table.Row key={ mapping.column }>
+                                        <Table.Cell>{ mapping.column }</Table.Cell>
+                                        <Table.Cell>{ importFile?.records[ 0 ]?.[ mapping.column ] }</Table.Cell>
+                                        <Table.Cell>
+                                            <Dropdown
+                                                search
+                                                selection
+                                                clearable
+                                                fluid
+                                                options={ attributeOptions }
+                                                value={ mapping.attribute ? getAttributeKey(mapping.attribute) : "" }
+                                                placeholder={
+                                                    t("console:manage.features.user.modals.bulkImportUserWizard" +
+                                                        ".mapping.placeholder")
+                                                }
+                                                onChange={ (e: React.SyntheticEvent, data: DropdownProps) => {
+                                                    handleMappingChange(mapping.column, data.value as string);
+                                                } }
+                                                data-testid={ `${ testId }-mapping-dropdown` }
+                                            />
+                                        </Table.Cell>
+                                    </Table.Row>
+                                ))
+                            }
+                        </Table.Body>
+                    </Table>
+                </>
+            ),
+            icon: getUserWizardStepIcons().groups,
+            title: t("console:manage.features.user.modals.bulkImportUserWizard.steps.mapping")
+        },
+        {
+            content: (
+                <>
+                    <Message
+                        info
+                        visible
+                        content={
+                            t("console:manage.features.user.modals.bulkImportUserWizard.preview.summary", {
+                                total: rows.length,
+                                valid: validRowCount
+                            })
+                        }
+                    />
+                    { renderRowsTable(rows) }
+                </>
+            ),
+            icon: getUserWizardStepIcons().roles,
+            title: t("console:manage.features.user.modals.bulkImportUserWizard.steps.preview")
+        },
+        {
+            content: (
+                <>
+                    {
+                        isImportInProgress
+                            ? (
+                                <Progress
+                                    indicating
+                                    total={ validRowCount }
+                                    value={ processedCount }
+                                    label={
+                                        t("console:manage.features.user.modals.bulkImportUserWizard.results" +
+                                            ".inProgress", { processed: processedCount, total: validRowCount })
+                                    }
+                                    data-testid={ `${ testId }-import-progress` }
+                                />
+                            )
+                            : (
+                                <Message
+                                    info
+                                    visible
+                                    content={
+                                        t("console:manage.features.user.modals.bulkImportUserWizard.results" +
+                                            ".summary", {
+                                            failed: rows.filter((row: UserBulkImportRowInterface) => {
+                                                return row.status === UserBulkImportRowStatus.FAILED;
+                                            }).length,
+                                            success: rows.filter((row: UserBulkImportRowInterface) => {
+                                                return row.status === UserBulkImportRowStatus.SUCCESS;
+                                            }).length
+                                        })
+                                    }
+                                />
+                            )
+                    }
+                    {
+                        renderRowsTable(rows.filter((row: UserBulkImportRowInterface) => {
+                            return row.status === UserBulkImportRowStatus.SUCCESS
+                                || row.status === UserBulkImportRowStatus.FAILED;
+                        }))
+                    }
+                </>
+            ),
+            icon: getUserWizardStepIcons().summary,
+            title: t("console:manage.features.user.modals.bulkImportUserWizard.steps.results")
+        }
+    ];
+
+    return (
+        <Modal
+            data-testid={ testId }
+            open={ true }
+            className="wizard"
+            dimmer="blurring"
+            size="large"
+            onClose={ closeWizard }
+            closeOnDimmerClick={ false }
+            closeOnEscape={ !isImportInProgress }
+        >
+            <Modal.Header className="wizard-header">
+                { t("console:manage.features.user.modals.bulkImportUserWizard.title") }
+                <Heading as="h6">
+                    { t("console:manage.features.user.modals.bulkImportUserWizard.subTitle") }
+                </Heading>
+            </Modal.Header>
+            <Modal.Content className="steps-container">
+                <Steps.Group
+                    current={ currentWizardStep }
+                >
+                    { STEPS.map((step, index) => (
+                        <Steps.Step
+                            key={ index }
+                            icon={ step.icon }
+                            title={ step.title }
+                        />
+                    )) }
+                </Steps.Group>
+            </Modal.Content>
+            <Modal.Content className="content-container" scrolling>
+                { alert && alertComponent }
+                { STEPS[ currentWizardStep ].content }
+            </Modal.Content>
+            <Modal.Actions>
+                <Grid>
+                    <Grid.Row column={ 1 }>
+                        <Grid.Column mobile={ 8 } tablet={ 8 } computer={ 8 }>
+                            { currentWizardStep !== WizardSteps.RESULTS && (
+                                <LinkButton
+                                    data-testid={ `${ testId }-cancel-button` }
+                                    floated="left"
+                                    onClick={ () => closeWizard() }
+                                >
+                                    { t("common:cancel") }
+                                </LinkButton>
+                            ) }
+                        </Grid.Column>
+                        <Grid.Column mobile={ 8 } tablet={ 8 } computer={ 8 }>
+                            <PrimaryButton
+                                data-testid={ `${ testId }-next-button` }
+                                floated="right"
+                                disabled={ !isNextEnabled() }
+                                loading={ isImportInProgress }
+                                onClick={ navigateToNext }
+                            >
+                                { currentWizardStep < WizardSteps.PREVIEW && (
+                                    <>
+                                        { t("console:manage.features.user.modals.bulkImportUserWizard.buttons.next") }
+                                        <Icon name="arrow right"/>
+                                    </>
+                                ) }
+                                {
+                                    currentWizardStep === WizardSteps.PREVIEW
+                                    && t("console:manage.features.user.modals.bulkImportUserWizard.buttons.import")
+                                }
+                                {
+                                    currentWizardStep === WizardSteps.RESULTS
+                                    && t("console:manage.features.user.modals.bulkImportUserWizard.buttons.finish")
+                                }
+                            </PrimaryButton>
+                            { currentWizardStep > WizardSteps.UPLOAD && currentWizardStep < WizardSteps.RESULTS && (
+                                <LinkButton
+                                    data-testid={ `${ testId }-previous-button` }
+                                    floated="right"
+                                    onClick={ navigateToPrevious }
+                                >
+                                    <Icon name="arrow left"/>
+                                    {
+                                        t("console:manage.features.user.modals.bulkImportUserWizard.buttons" +
+                                            ".previous")
+                                    }
+                                </LinkButton>
+                            ) }
+                        </Grid.Column>
+                    </Grid.Row>
+                </Grid>
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the bulk import user wizard.
+ */
+BulkImportUserWizard.defaultProps = {
+    currentStep: 0,
+    "data-testid": "bulk-import-user-wizard"
+};
@@ -19,3 +19,4 @@
 export * from "./add-user-wizard";
 export * from "./wizard-summary";
 export * from "./user-role-permissions";
+export * from "./bulk-import-user-wizard";
@@ -67,8 +67,58 @@ export class UserManagementConstants {
         .set("USER_DELETE", "users.delete")
         .set("USER_READ", "users.read");
 
+    /**
+     * Maximum number of operations sent in a single SCIM Bulk request.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly BULK_IMPORT_BATCH_SIZE: number = 100;
+
+    /**
+     * Number of users fetched per request when exporting the user list.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly BULK_EXPORT_PAGE_SIZE: number = 100;
+
+    /**
+     * Schema of the SCIM Bulk request.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly SCIM2_BULK_REQUEST_SCHEMA: string = "urn:ietf:params:scim:api:messages:2.0:BulkRequest";
+
+    /**
+     * Columns of the user list export.
+     * @constant
+     * @type {Map<string, string>}
+     * @default
+     */
+    public static readonly BULK_EXPORT_COLUMNS: Map<string, string> = new Map<string, string>()
+        .set("ID", "id")
+        .set("USERNAME", "userName")
+        .set("GIVEN_NAME", "name.givenName")
+        .set("FAMILY_NAME", "name.familyName")
+        .set("EMAILS", "emails")
+        .set("LAST_MODIFIED", "meta.lastModified");
+
+    /**
+     * Separator of the values of multi valued attributes in the import and export files.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly BULK_MULTI_VALUE_SEPARATOR: string = ";";
+
     // API errors
     public static readonly USER_INFO_UPDATE_ERROR: string = "Could not update the user information.";
+    public static readonly ADD_USERS_IN_BULK_REQUEST_INVALID_STATUS_CODE_ERROR: string = "Received an invalid " +
+        "status code while adding the users in bulk.";
+    public static readonly ADD_USERS_IN_BULK_REQUEST_ERROR: string = "Could not add the users in bulk " +
+        "due to some error.";
     public static readonly GET_USER_SESSIONS_REQUEST_INVALID_STATUS_CODE_ERROR: string = "Received an invalid " +
         "status code while retrieving the user sessions.";
     public static readonly GET_USER_SESSIONS_REQUEST_ERROR: string = "Could not retrieve the user sessions " +
@@ -93,6 +143,15 @@ export class UserManagementConstants {
         .set("USERNAME", "userName")
         .set("NAME", "name");
 
+    /**
+     * Set of SCIM2 multi valued user attributes.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly SCIM2_MULTI_VALUED_ATTRIBUTES: string[] = [ "addresses", "emails", "entitlements",
+        "ims", "phoneNumbers", "photos", "x509Certificates" ];
+
     /**
      * Set of SCIM2 enterprise attributes.
      *
@@ -18,3 +18,4 @@
 
 export * from "./endpoints";
 export * from "./user";
+export * from "./user-bulk-import";
@@ -0,0 +1,202 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Supported file types for the bulk user import.
+ */
+export enum UserBulkImportFileTypes {
+    CSV = "CSV",
+    JSON = "JSON"
+}
+
+/**
+ * Status of a row in the bulk user import.
+ */
+export enum UserBulkImportRowStatus {
+    VALID = "VALID",
+    INVALID = "INVALID",
+    SUCCESS = "SUCCESS",
+    FAILED = "FAILED"
+}
+
+/**
+ * Error codes of a row in the bulk user import.
+ */
+export enum UserBulkImportRowErrorCodes {
+    MISSING_USERNAME = "MISSING_USERNAME",
+    DUPLICATE_USERNAME = "DUPLICATE_USERNAME",
+    MISSING_REQUIRED_ATTRIBUTE = "MISSING_REQUIRED_ATTRIBUTE",
+    INVALID_ATTRIBUTE_VALUE = "INVALID_ATTRIBUTE_VALUE",
+    MISSING_EMAIL = "MISSING_EMAIL",
+    IMPORT_FAILED = "IMPORT_FAILED"
+}
+
+/**
+ * Captures the content of a parsed bulk import file.
+ */
+export interface UserBulkImportFileInterface {
+    /**
+     * Type of the source file.
+     */
+    type: UserBulkImportFileTypes;
+    /**
+     * Column names found in the file.
+     */
+    headers: string[];
+    /**
+     * Records of the file, keyed by the column name.
+     */
+    records: Record<string, string>[];
+}
+
+/**
+ * Captures an attribute that a file column can be mapped to.
+ */
+export interface UserBulkImportAttributeInterface {
+    /**
+     * SCIM attribute path. ex: `name.givenName`, `emails.work`.
+     */
+    attribute: string;
+    /**
+     * SCIM schema the attribute belongs to.
+     */
+    schema: string;
+    /**
+     * URI of the mapped local claim.
+     */
+    claimURI: string;
+    /**
+     * Display name of the mapped local claim.
+     */
+    displayName: string;
+    /**
+     * Is the attribute mandatory.
+     */
+    required?: boolean;
+    /**
+     * Regular expression the value should match.
+     */
+    regEx?: string;
+}
+
+/**
+ * Captures the mapping of a file column to a user attribute.
+ */
+export interface UserBulkImportColumnMappingInterface {
+    /**
+     * Column name in the file.
+     */
+    column: string;
+    /**
+     * Mapped attribute. `null` if the column is ignored.
+     */
+    attribute: UserBulkImportAttributeInterface | null;
+}
+
+/**
+ * Captures an error of a row in the bulk user import.
+ */
+export interface UserBulkImportRowErrorInterface {
+    /**
+     * Error code.
+     */
+    code: UserBulkImportRowErrorCodes;
+    /**
+     * Display name of the related attribute.
+     */
+    attribute?: string;
+    /**
+     * Additional details. ex: Error returned by the server.
+     */
+    detail?: string;
+}
+
+/**
+ * Captures a single row of the bulk user import.
+ */
+export interface UserBulkImportRowInterface {
+    /**
+     * Row number in the source file. Starts from 1.
+     */
+    rowNumber: number;
+    /**
+     * Username derived from the row.
+     */
+    userName: string;
+    /**
+     * SCIM user resource built from the row.
+     */
+    user: Record<string, unknown>;
+    /**
+     * Status of the row.
+     */
+    status: UserBulkImportRowStatus;
+    /**
+     * Validation or import errors of the row.
+     */
+    errors: UserBulkImportRowErrorInterface[];
+    /**
+     * ID of the created user.
+     */
+    id?: string;
+}
+
+/**
+ * Captures a SCIM Bulk operation.
+ */
+export interface SCIMBulkOperationInterface {
+    bulkId?: string;
+    data?: Record<string, unknown>;
+    method: string;
+    path: string;
+}
+
+/**
+ * Captures a SCIM Bulk request payload.
+ */
+export interface SCIMBulkRequestInterface {
+    failOnErrors?: number;
+    Operations: SCIMBulkOperationInterface[];
+    schemas: string[];
+}
+
+/**
+ * Captures the result of a SCIM Bulk operation.
+ */
+export interface SCIMBulkOperationResponseInterface {
+    bulkId?: string;
+    location?: string;
+    method: string;
+    response?: {
+        detail?: string;
+        scimType?: string;
+        status?: string;
+    };
+    status: {
+        code: number;
+    } | string;
+}
+
+/**
+ * Captures a SCIM Bulk response payload.
+ */
+export interface SCIMBulkResponseInterface {
+    Operations: SCIMBulkOperationResponseInterface[];
+    schemas: string[];
+}
@@ -28,10 +28,12 @@ import {
     PageLayout,
     PrimaryButton
 } from "@wso2is/react-components";
+import { saveAs } from "file-saver";
 import React, { FunctionComponent, ReactElement, useEffect, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
 import { Dropdown, DropdownProps, Icon, PaginationProps, Popup } from "semantic-ui-react";
+import { ExtensionPoint, ExtensionPointSlots } from "../../../extensions";
 import {
     AdvancedSearchWithBasicFilters,
     AppConstants,
@@ -57,9 +59,10 @@ import {
     UserStoreProperty
 } from "../../userstores";
 import { deleteUser, getUsersList } from "../api";
-import { AddUserWizard, UsersList, UsersListOptionsComponent } from "../components";
+import { AddUserWizard, BulkImportUserWizard, UsersList, UsersListOptionsComponent } from "../components";
 import { UserManagementConstants } from "../constants";
-import { UserListInterface } from "../models";
+import { UserBasicInterface, UserListInterface } from "../models";
+import { UserBulkImportUtils } from "../utils";
 
 /**
  * Props for the Users page.
@@ -96,6 +99,8 @@ const UsersPage: FunctionComponent<UsersPageInterface> = (
     const [ listOffset, setListOffset ] = useState<number>(0);
     const [ listItemLimit, setListItemLimit ] = useState<number>(UIConstants.DEFAULT_RESOURCE_LIST_ITEM_LIMIT);
     const [ showWizard, setShowWizard ] = useState<boolean>(false);
+    const [ showBulkImportWizard, setShowBulkImportWizard ] = useState<boolean>(false);
+    const [ isUsersExportInProgress, setIsUsersExportInProgress ] = useState<boolean>(false);
     const [ usersList, setUsersList ] = useState<UserListInterface>({});
     const [ rolesList ] = useState([]);
     const [ isListUpdated, setListUpdated ] = useState(false);
@@ -449,6 +454,72 @@ const UsersPage: FunctionComponent<UsersPageInterface> = (
         getList(listItemLimit, listOffset, query, attributes, userStore);
     };
 
+    /**
+     * Exports the users matching the current search query and userstore to a CSV file.
+     */
+    const handleUsersExport = (): void => {
+        const attributes: string = Array.from(UserManagementConstants.BULK_EXPORT_COLUMNS.values()).join(",");
+        const users: UserBasicInterface[] = [];
+
+        const getUsersPage = (startIndex: number): Promise<UserBasicInterface[]> => {
+            return getUsersList(UserManagementConstants.BULK_EXPORT_PAGE_SIZE, startIndex, searchQuery || null,
+                attributes, userStore)
+                .then((response: UserListInterface) => {
+                    const resources: UserBasicInterface[] = response?.Resources ?? [];
+
+                    users.push(...resources.filter((resource: UserBasicInterface) => {
+                        return resource.userName.split("/")[ 0 ] !== CONSUMER_USERSTORE;
+                    }));
+
+                    if (resources.length === 0 || startIndex + resources.length > response.totalResults) {
+                        return users;
+                    }
+
+                    return getUsersPage(startIndex + resources.length);
+                });
+        };
+
+        setIsUsersExportInProgress(true);
+
+        getUsersPage(1)
+            .then((exportedUsers: UserBasicInterface[]) => {
+                const blob: Blob = new Blob([ UserBulkImportUtils.serializeUsersToCSV(exportedUsers) ], {
+                    type: "text/csv;charset=utf-8"
+                });
+
+                saveAs(blob, "users.csv");
+
+                dispatch(addAlert({
+                    description: t("console:manage.features.users.notifications.exportUsers.success.description",
+                        { count: exportedUsers.length }),
+                    level: AlertLevels.SUCCESS,
+                    message: t("console:manage.features.users.notifications.exportUsers.success.message")
+                }));
+            })
+            .catch((error) => {
+                if (error?.response?.data?.detail) {
+                    dispatch(addAlert({
+                        description: t("console:manage.features.users.notifications.exportUsers.error.description",
+                            { description: error.response.data.detail }),
+                        level: AlertLevels.ERROR,
+                        message: t("console:manage.features.users.notifications.exportUsers.error.message")
+                    }));
+
+                    return;
+                }
+
+                dispatch(addAlert({
+                    description: t("console:manage.features.users.notifications.exportUsers.genericError" +
+                        ".description"),
+                    level: AlertLevels.ERROR,
+                    message: t("console:manage.features.users.notifications.exportUsers.genericError.message")
+                }));
+            })
+            .finally(() => {
+                setIsUsersExportInProgress(false);
+            });
+    };
+
     const handlePaginationChange = (event: React.MouseEvent<HTMLAnchorElement>, data: PaginationProps) => {
         setListOffset((data.activePage as number - 1) * listItemLimit);
     };
@@ -505,13 +576,19 @@ const UsersPage: FunctionComponent<UsersPageInterface> = (
             action={
                 (isUserListRequestLoading || !(!searchQuery && usersList?.totalResults <= 0))
                 && (
-                    <PrimaryButton
-                        data-testid="user-mgt-user-list-add-user-button"
-                        onClick={ () => handleAddNewUserWizardClick()  }
-                    >
-                        <Icon name="add"/>
-                        { t("console:manage.features.users.buttons.addNewUserBtn") }
-                    </PrimaryButton>
+                    <>
+                        <ExtensionPoint
+                            slot={ ExtensionPointSlots.USER_LIST_HEADER_ACTIONS }
+                            data-testid={ `${ testId }-header-actions` }
+                        />
+                        <PrimaryButton
+                            data-testid="user-mgt-user-list-add-user-button"
+                            onClick={ () => handleAddNewUserWizardClick()  }
+                        >
+                            <Icon name="add"/>
+                            { t("console:manage.features.users.buttons.addNewUserBtn") }
+                        </PrimaryButton>
+                    </>
                 )
             }
             title={ t("console:manage.pages.users.title") }
@@ -587,6 +664,25 @@ const UsersPage: FunctionComponent<UsersPageInterface> = (
                                     </Button>
                                 }
                             />
+                            <Button
+                                data-testid="user-mgt-user-list-import-button"
+                                basic
+                                disabled={ readOnlyUserStoresList?.includes(userStore?.toUpperCase()) }
+                                onClick={ () => setShowBulkImportWizard(true) }
+                            >
+                                <Icon name="upload"/>
+                                { t("console:manage.features.users.buttons.importUsersBtn") }
+                            </Button>
+                            <Button
+                                data-testid="user-mgt-user-list-export-button"
+                                basic
+                                loading={ isUsersExportInProgress }
+                                disabled={ isUsersExportInProgress || !(usersList?.totalResults > 0) }
+                                onClick={ handleUsersExport }
+                            >
+                                <Icon name="download"/>
+                                { t("console:manage.features.users.buttons.exportUsersBtn") }
+                            </Button>
                             <Dropdown
                                 data-testid="user-mgt-user-list-userstore-dropdown"
                                 selection
@@ -682,6 +778,16 @@ const UsersPage: FunctionComponent<UsersPageInterface> = (
                     />
                     )
                 }
+                {
+                    showBulkImportWizard && (
+                        <BulkImportUserWizard
+                            data-testid="user-mgt-bulk-import-user-wizard-modal"
+                            closeWizard={ () => setShowBulkImportWizard(false) }
+                            onImportComplete={ () => setListUpdated(true) }
+                            userStore={ userStore }
+                        />
+                    )
+                }
             </ListLayout>
         </PageLayout>
     );
@@ -0,0 +1,221 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { ProfileConstants } from "@wso2is/core/constants";
+import { Claim, ExternalClaim } from "@wso2is/core/models";
+import {
+    UserBasicInterface,
+    UserBulkImportAttributeInterface,
+    UserBulkImportFileTypes,
+    UserBulkImportRowErrorCodes,
+    UserBulkImportRowStatus
+} from "../models";
+import { UserBulkImportUtils } from "../utils/user-bulk-import-utils";
+
+const CORE_SCHEMA: string = ProfileConstants.SCIM2_CORE_USER_SCHEMA;
+
+const ATTRIBUTES: UserBulkImportAttributeInterface[] = [
+    {
+        attribute: "emails",
+        claimURI: "http://wso2.org/claims/emailaddress",
+        displayName: "Email",
+        regEx: "^\\S+@\\S+$",
+        schema: CORE_SCHEMA
+    },
+    {
+        attribute: "name.familyName",
+        claimURI: "http://wso2.org/claims/lastname",
+        displayName: "Last Name",
+        schema: CORE_SCHEMA
+    },
+    {
+        attribute: "name.givenName",
+        claimURI: "http://wso2.org/claims/givenname",
+        displayName: "First Name",
+        schema: CORE_SCHEMA
+    },
+    {
+        attribute: "userName",
+        claimURI: "http://wso2.org/claims/username",
+        displayName: "Username",
+        required: true,
+        schema: CORE_SCHEMA
+    },
+    UserBulkImportUtils.PASSWORD_ATTRIBUTE
+];
+
+describe("User bulk import CSV parser", () => {
+    test("Should parse the quoted fields, escaped quotes and line breaks", () => {
+        const content: string = "\uFEFFuserName,displayName\r\n\"john\",\"Doe, \"\"JD\"\" John\"\n"
+            + "jane,\"Line 1\r\nLine 2\"\r\n\r\n";
+
+        expect(UserBulkImportUtils.parseCSV(content)).toEqual([
+            [ "userName", "displayName" ],
+            [ "john", "Doe, \"JD\" John" ],
+            [ "jane", "Line 1\r\nLine 2" ]
+        ]);
+    });
+
+    test("Should reject unterminated quoted fields", () => {
+        expect(() => UserBulkImportUtils.parseCSV("userName\n\"john")).toThrow();
+    });
+
+    test("Should parse the records of CSV and JSON files", () => {
+        expect(UserBulkImportUtils.parseFile("userName,emails\njohn,john@wso2.com\njane")).toEqual({
+            headers: [ "userName", "emails" ],
+            records: [
+                { emails: "john@wso2.com", userName: "john" },
+                { emails: "", userName: "jane" }
+            ],
+            type: UserBulkImportFileTypes.CSV
+        });
+
+        const file = UserBulkImportUtils.parseFile(JSON.stringify([
+            {
+                emails: [ "john@wso2.com", { type: "work", value: "john@work.com" } ],
+                name: { givenName: "John" },
+                userName: "john"
+            }
+        ]));
+
+        expect(file.type).toBe(UserBulkImportFileTypes.JSON);
+        expect(file.headers).toEqual([ "emails", "name.givenName", "userName" ]);
+        expect(file.records[ 0 ].emails).toBe("john@wso2.com;john@work.com");
+    });
+
+    test("Should reject a header line with empty column names", () => {
+        expect(() => UserBulkImportUtils.parseFile("userName,,emails\njohn,,")).toThrow();
+    });
+});
+
+describe("User bulk import column mapping", () => {
+    test("Should resolve the mappable attributes from the SCIM2 claims", () => {
+        const localClaims = [
+            { claimURI: "http://wso2.org/claims/username", displayName: "Username", readOnly: false },
+            { claimURI: "http://wso2.org/claims/emailaddress", displayName: "Email", readOnly: false },
+            { claimURI: "http://wso2.org/claims/modified", displayName: "Last Modified", readOnly: true },
+            { claimURI: "http://wso2.org/claims/userid", displayName: "User ID", readOnly: false }
+        ] as Claim[];
+        const externalClaims = [
+            { claimURI: `${ CORE_SCHEMA }:userName`, mappedLocalClaimURI: "http://wso2.org/claims/username" },
+            { claimURI: `${ CORE_SCHEMA }:emails`, mappedLocalClaimURI: "http://wso2.org/claims/emailaddress" },
+            { claimURI: `${ CORE_SCHEMA }:meta.lastModified`, mappedLocalClaimURI: "http://wso2.org/claims/modified" },
+            { claimURI: `${ CORE_SCHEMA }:id`, mappedLocalClaimURI: "http://wso2.org/claims/userid" },
+            { claimURI: "urn:custom:schema:userName", mappedLocalClaimURI: "http://wso2.org/claims/username" }
+        ] as ExternalClaim[];
+
+        expect(UserBulkImportUtils.getImportAttributes(localClaims, externalClaims)
+            .map((attribute: UserBulkImportAttributeInterface) => attribute.attribute))
+            .toEqual([ "emails", "userName", "password" ]);
+    });
+
+    test("Should suggest the mappings by the attribute path, claim URI and the display name", () => {
+        const mappings = UserBulkImportUtils.suggestMappings(
+            [ "User Name", "lastname", "First Name", "email", "Unknown" ], ATTRIBUTES);
+
+        expect(mappings.map(({ attribute }) => attribute?.attribute ?? null))
+            .toEqual([ "userName", "name.familyName", "name.givenName", "emails", null ]);
+        expect(UserBulkImportUtils.getUnmappedRequiredAttributes(mappings, ATTRIBUTES)).toEqual([]);
+        expect(UserBulkImportUtils.getUnmappedRequiredAttributes(mappings.slice(1), ATTRIBUTES))
+            .toEqual([ ATTRIBUTES[ 3 ] ]);
+    });
+
+    test("Should build and validate the SCIM user resources", () => {
+        const file = UserBulkImportUtils.parseFile("user,mail,pass\n"
+            + "john,john@wso2.com;john@work.com,Password@123\n"
+            + "JOHN,invalid,\n"
+            + ",,");
+        const rows = UserBulkImportUtils.buildRows(file, [
+            { attribute: ATTRIBUTES[ 3 ], column: "user" },
+            { attribute: ATTRIBUTES[ 0 ], column: "mail" },
+            { attribute: UserBulkImportUtils.PASSWORD_ATTRIBUTE, column: "pass" }
+        ], "SECONDARY");
+
+        expect(rows[ 0 ].status).toBe(UserBulkImportRowStatus.VALID);
+        expect(rows[ 0 ].user).toEqual({
+            emails: [ { primary: true, value: "john@wso2.com" }, { value: "john@work.com" } ],
+            password: "Password@123",
+            schemas: [ CORE_SCHEMA ],
+            userName: "SECONDARY/john"
+        });
+        expect(rows[ 1 ].errors.map(({ code }) => code)).toEqual([
+            UserBulkImportRowErrorCodes.INVALID_ATTRIBUTE_VALUE,
+            UserBulkImportRowErrorCodes.DUPLICATE_USERNAME
+        ]);
+        expect(rows[ 2 ].errors.map(({ code }) => code)).toEqual([
+            UserBulkImportRowErrorCodes.MISSING_REQUIRED_ATTRIBUTE,
+            UserBulkImportRowErrorCodes.MISSING_USERNAME,
+            UserBulkImportRowErrorCodes.MISSING_EMAIL
+        ]);
+    });
+});
+
+describe("User bulk export", () => {
+    const users = [
+        {
+            emails: [ "john@wso2.com", { type: "work", value: "john@work.com" } ],
+            id: "1",
+            meta: { lastModified: "2021-05-10T10:00:00Z" },
+            name: { familyName: "=HYPERLINK(\"http://example.com\")", givenName: "John, Jr." },
+            userName: "john"
+        },
+        {
+            emails: [ "@jane" ],
+            id: "2",
+            meta: { lastModified: "2021-05-11T10:00:00Z" },
+            name: { familyName: "-Doe", givenName: "+Jane" },
+            userName: "jane"
+        }
+    ] as unknown as UserBasicInterface[];
+
+    test("Should neutralize the fields which would be evaluated as formulae", () => {
+        const lines: string[] = UserBulkImportUtils.serializeUsersToCSV(users).split("\r\n");
+
+        expect(lines).toEqual([
+            "id,userName,name.givenName,name.familyName,emails,meta.lastModified",
+            "1,john,\"John, Jr.\",\"'=HYPERLINK(\"\"http://example.com\"\")\",john@wso2.com;john@work.com,"
+                + "2021-05-10T10:00:00Z",
+            "2,jane,'+Jane,'-Doe,'@jane,2021-05-11T10:00:00Z"
+        ]);
+    });
+
+    test("Should import the exported users back", () => {
+        const file = UserBulkImportUtils.parseFile(UserBulkImportUtils.serializeUsersToCSV(users));
+        const rows = UserBulkImportUtils.buildRows(file,
+            UserBulkImportUtils.suggestMappings(file.headers, ATTRIBUTES));
+
+        expect(file.records[ 1 ][ "name.givenName" ]).toBe("+Jane");
+        expect(rows.map(({ user }) => user)).toEqual([
+            {
+                emails: [ { primary: true, value: "john@wso2.com" }, { value: "john@work.com" } ],
+                name: { familyName: "=HYPERLINK(\"http://example.com\")", givenName: "John, Jr." },
+                schemas: [ CORE_SCHEMA, ProfileConstants.SCIM2_ENT_USER_SCHEMA ],
+                userName: "john",
+                [ ProfileConstants.SCIM2_ENT_USER_SCHEMA ]: { askPassword: "true" }
+            },
+            {
+                emails: [ { primary: true, value: "@jane" } ],
+                name: { familyName: "-Doe", givenName: "+Jane" },
+                schemas: [ CORE_SCHEMA, ProfileConstants.SCIM2_ENT_USER_SCHEMA ],
+                userName: "jane",
+                [ ProfileConstants.SCIM2_ENT_USER_SCHEMA ]: { askPassword: "true" }
+            }
+        ]);
+    });
+});
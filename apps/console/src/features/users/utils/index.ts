@@ -17,3 +17,5 @@
  */
 
 export * from "./user-management-utils";
+export * from "./user-bulk-import-utils";
+export * from "./user-bulk-import-file-strategy";
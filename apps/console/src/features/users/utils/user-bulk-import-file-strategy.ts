@@ -0,0 +1,101 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { PickerStrategy } from "@wso2is/react-components";
+import { UserBulkImportUtils } from "./user-bulk-import-utils";
+import { UserBulkImportFileInterface, UserBulkImportFileTypes } from "../models";
+
+/**
+ * File picker strategy for the bulk user import files. Accepts CSV and JSON
+ * files and serializes them to {@link UserBulkImportFileInterface}.
+ */
+export class UserBulkImportFileStrategy implements PickerStrategy<UserBulkImportFileInterface> {
+
+    static readonly ENCODING: string = "UTF-8";
+    static readonly DEFAULT_MIMES: string[] = [
+        ".csv",
+        ".json",
+        "text/csv",
+        "application/json"
+    ];
+    static readonly MEGABYTE: number = 1e+6;
+    static readonly MAX_FILE_SIZE: number = 5;
+
+    mimeTypes: string[];
+
+    constructor(mimeTypes?: string[]) {
+        if (!mimeTypes || mimeTypes.length === 0) {
+            this.mimeTypes = UserBulkImportFileStrategy.DEFAULT_MIMES;
+        } else {
+            this.mimeTypes = mimeTypes;
+        }
+    }
+
+    async serialize(data: File | string): Promise<UserBulkImportFileInterface> {
+        if (data instanceof File) {
+            const content: string = await this.readFile(data);
+            const type: UserBulkImportFileTypes = data.name.toLowerCase().endsWith(".json")
+                ? UserBulkImportFileTypes.JSON
+                : UserBulkImportFileTypes.CSV;
+
+            return UserBulkImportUtils.parseFile(content, type);
+        }
+
+        return UserBulkImportUtils.parseFile(data);
+    }
+
+    async validate(data: File | string): Promise<{ valid: boolean; errorMessage?: string }> {
+        if (data instanceof File
+            && data.size > UserBulkImportFileStrategy.MAX_FILE_SIZE * UserBulkImportFileStrategy.MEGABYTE) {
+
+            return Promise.reject({
+                errorMessage: `File exceeds max size of ${ UserBulkImportFileStrategy.MAX_FILE_SIZE } MB`,
+                valid: false
+            });
+        }
+
+        try {
+            const file: UserBulkImportFileInterface = await this.serialize(data);
+
+            if (file.records.length === 0) {
+                return Promise.reject({
+                    errorMessage: "The file does not contain any users.",
+                    valid: false
+                });
+            }
+
+            return { valid: true };
+        } catch (error) {
+            return Promise.reject({
+                errorMessage: error?.message ?? "The file content is invalid.",
+                valid: false
+            });
+        }
+    }
+
+    private readFile(file: File): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const reader: FileReader = new FileReader();
+
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsText(file, UserBulkImportFileStrategy.ENCODING);
+        });
+    }
+}
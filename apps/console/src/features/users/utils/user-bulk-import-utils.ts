@@ -0,0 +1,711 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { ProfileConstants } from "@wso2is/core/constants";
+import { Claim, ExternalClaim, MultiValueAttributeInterface } from "@wso2is/core/models";
+import { CSVUtils } from "@wso2is/core/utils";
+import { UserManagementConstants } from "../constants";
+import {
+    SCIMBulkOperationResponseInterface,
+    SCIMBulkRequestInterface,
+    SCIMBulkResponseInterface,
+    UserBasicInterface,
+    UserBulkImportAttributeInterface,
+    UserBulkImportColumnMappingInterface,
+    UserBulkImportFileInterface,
+    UserBulkImportFileTypes,
+    UserBulkImportRowErrorCodes,
+    UserBulkImportRowErrorInterface,
+    UserBulkImportRowInterface,
+    UserBulkImportRowStatus
+} from "../models";
+
+/**
+ * Utility class for bulk user import and export operations.
+ */
+export class UserBulkImportUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Password is not a claim. Hence, it is offered as a separate mapping target.
+     */
+    public static readonly PASSWORD_ATTRIBUTE: UserBulkImportAttributeInterface = {
+        attribute: "password",
+        claimURI: "",
+        displayName: "Password",
+        schema: ProfileConstants.SCIM2_CORE_USER_SCHEMA
+    };
+
+    /**
+     * Enterprise attribute used to invite the users without a password to set one.
+     */
+    private static readonly ASK_PASSWORD_ATTRIBUTE: UserBulkImportAttributeInterface = {
+        attribute: "askPassword",
+        claimURI: "",
+        displayName: "Ask Password",
+        schema: ProfileConstants.SCIM2_ENT_USER_SCHEMA
+    };
+
+    /**
+     * Parses CSV content according to RFC 4180.
+     *
+     * @param {string} content - CSV content.
+     * @return {string[][]} Lines of the CSV split in to fields.
+     */
+    public static parseCSV(content: string): string[][] {
+
+        const lines: string[][] = [];
+        let fields: string[] = [];
+        let field: string = "";
+        let quoted: boolean = false;
+
+        // Strip the byte order mark added by spreadsheet applications.
+        const input: string = content.replace(/^\uFEFF/, "");
+
+        const pushLine = (): void => {
+            fields.push(field);
+
+            if (fields.length > 1 || fields[ 0 ].trim() !== "") {
+                lines.push(fields);
+            }
+
+            fields = [];
+            field = "";
+        };
+
+        for (let index = 0; index < input.length; index++) {
+            const char: string = input[ index ];
+
+            if (quoted) {
+                if (char === "\"" && input[ index + 1 ] === "\"") {
+                    field += "\"";
+                    index++;
+                } else if (char === "\"") {
+                    quoted = false;
+                } else {
+                    field += char;
+                }
+
+                continue;
+            }
+
+            if (char === "\"" && field === "") {
+                quoted = true;
+            } else if (char === ",") {
+                fields.push(field);
+                field = "";
+            } else if (char === "\n" || char === "\r") {
+                if (char === "\r" && input[ index + 1 ] === "\n") {
+                    index++;
+                }
+                pushLine();
+            } else {
+                field += char;
+            }
+        }
+
+        if (quoted) {
+            throw new Error("Unterminated quoted field in the CSV content.");
+        }
+
+        if (field !== "" || fields.length > 0) {
+            pushLine();
+        }
+
+        return lines;
+    }
+
+    /**
+     * Parses the content of a bulk import file.
+     *
+     * @param {string} content - File content.
+     * @param {UserBulkImportFileTypes} type - Type of the file. Detected from the content if not provided.
+     * @return {UserBulkImportFileInterface} Parsed file.
+     */
+    public static parseFile(content: string, type?: UserBulkImportFileTypes): UserBulkImportFileInterface {
+
+        const fileType: UserBulkImportFileTypes = type ?? UserBulkImportUtils.detectFileType(content);
+
+        if (fileType === UserBulkImportFileTypes.JSON) {
+            return UserBulkImportUtils.parseJSONFile(content);
+        }
+
+        const [ headerLine, ...lines ] = UserBulkImportUtils.parseCSV(content);
+
+        if (!headerLine) {
+            throw new Error("The file does not contain a header line.");
+        }
+
+        const headers: string[] = headerLine.map((header: string) => header.trim());
+
+        if (headers.some((header: string) => header === "")) {
+            throw new Error("The header line contains empty column names.");
+        }
+
+        const records: Record<string, string>[] = lines.map((line: string[]) => {
+            const record: Record<string, string> = {};
+
+            headers.forEach((header: string, index: number) => {
+                record[ header ] = CSVUtils.unescapeFormula(line[ index ] ?? "");
+            });
+
+            return record;
+        });
+
+        return {
+            headers,
+            records,
+            type: fileType
+        };
+    }
+
+    /**
+     * Detects the type of a bulk import file from its content.
+     *
+     * @param {string} content - File content.
+     * @return {UserBulkImportFileTypes} Detected type.
+     */
+    public static detectFileType(content: string): UserBulkImportFileTypes {
+
+        return content.trim().startsWith("[")
+            ? UserBulkImportFileTypes.JSON
+            : UserBulkImportFileTypes.CSV;
+    }
+
+    /**
+     * Resolves the attributes that a file column can be mapped to using the SCIM2 external
+     * claims and the local claims they are mapped to.
+     *
+     * @param {Claim[]} localClaims - Local claims.
+     * @param {ExternalClaim[]} externalClaims - External claims of the SCIM2 user schemas.
+     * @return {UserBulkImportAttributeInterface[]} Mappable attributes.
+     */
+    public static getImportAttributes(localClaims: Claim[],
+                                      externalClaims: ExternalClaim[]): UserBulkImportAttributeInterface[] {
+
+        const schemas: string[] = [
+            ProfileConstants.SCIM2_CORE_USER_SCHEMA,
+            ProfileConstants.SCIM2_ENT_USER_SCHEMA
+        ];
+        const attributes: UserBulkImportAttributeInterface[] = [];
+
+        externalClaims?.forEach((externalClaim: ExternalClaim) => {
+            const schema: string = schemas.find((uri: string) => externalClaim.claimURI.startsWith(uri + ":"));
+            const localClaim: Claim = localClaims?.find((claim: Claim) => {
+                return claim.claimURI === externalClaim.mappedLocalClaimURI;
+            });
+
+            if (!schema || !localClaim || localClaim.readOnly) {
+                return;
+            }
+
+            const attribute: string = externalClaim.claimURI.substring(schema.length + 1);
+
+            // Server managed attributes can't be imported.
+            if (attribute === "id" || attribute.startsWith("meta.") || attribute === "groups"
+                || attribute === "roles") {
+
+                return;
+            }
+
+            attributes.push({
+                attribute,
+                claimURI: localClaim.claimURI,
+                displayName: localClaim.displayName,
+                regEx: localClaim.regEx,
+                required: localClaim.required
+                    || attribute === UserManagementConstants.SCIM2_SCHEMA_DICTIONARY.get("USERNAME"),
+                schema
+            });
+        });
+
+        return [
+            ...attributes.sort((a: UserBulkImportAttributeInterface, b: UserBulkImportAttributeInterface) => {
+                return a.displayName.localeCompare(b.displayName);
+            }),
+            UserBulkImportUtils.PASSWORD_ATTRIBUTE
+        ];
+    }
+
+    /**
+     * Suggests a mapping for each of the file columns by comparing the column name with the
+     * attribute path, the claim URI and the display name of the attributes.
+     *
+     * @param {string[]} headers - Column names of the file.
+     * @param {UserBulkImportAttributeInterface[]} attributes - Mappable attributes.
+     * @return {UserBulkImportColumnMappingInterface[]} Suggested mappings.
+     */
+    public static suggestMappings(headers: string[],
+                                  attributes: UserBulkImportAttributeInterface[]):
+        UserBulkImportColumnMappingInterface[] {
+
+        const normalize = (value: string): string => value?.toLowerCase().replace(/[^a-z0-9]/g, "") ?? "";
+        const used: Set<UserBulkImportAttributeInterface> = new Set<UserBulkImportAttributeInterface>();
+
+        return headers.map((column: string) => {
+            const normalized: string = normalize(column);
+            const attribute: UserBulkImportAttributeInterface = attributes.find(
+                (candidate: UserBulkImportAttributeInterface) => {
+                    if (used.has(candidate)) {
+                        return false;
+                    }
+
+                    return [
+                        candidate.attribute,
+                        candidate.attribute.split(".").pop(),
+                        candidate.claimURI.split("/").pop(),
+                        candidate.displayName
+                    ].some((name: string) => normalize(name) === normalized);
+                });
+
+            if (attribute) {
+                used.add(attribute);
+            }
+
+            return {
+                attribute: attribute ?? null,
+                column
+            };
+        });
+    }
+
+    /**
+     * Returns the required attributes which are not mapped to a column.
+     *
+     * @param {UserBulkImportColumnMappingInterface[]} mappings - Column mappings.
+     * @param {UserBulkImportAttributeInterface[]} attributes - Mappable attributes.
+     * @return {UserBulkImportAttributeInterface[]} Unmapped required attributes.
+     */
+    public static getUnmappedRequiredAttributes(mappings: UserBulkImportColumnMappingInterface[],
+                                                attributes: UserBulkImportAttributeInterface[]):
+        UserBulkImportAttributeInterface[] {
+
+        return attributes.filter((attribute: UserBulkImportAttributeInterface) => {
+            return attribute.required && !mappings.some((mapping: UserBulkImportColumnMappingInterface) => {
+                return mapping.attribute?.attribute === attribute.attribute
+                    && mapping.attribute?.schema === attribute.schema;
+            });
+        });
+    }
+
+    /**
+     * Builds the SCIM user resources from the file records and validates them.
+     *
+     * @param {UserBulkImportFileInterface} file - Parsed file.
+     * @param {UserBulkImportColumnMappingInterface[]} mappings - Column mappings.
+     * @param {string} userStore - Userstore domain the users should be added to.
+     * @return {UserBulkImportRowInterface[]} Validated rows.
+     */
+    public static buildRows(file: UserBulkImportFileInterface,
+                            mappings: UserBulkImportColumnMappingInterface[],
+                            userStore?: string): UserBulkImportRowInterface[] {
+
+        const userNames: Map<string, number> = new Map<string, number>();
+
+        return file.records.map((record: Record<string, string>, index: number) => {
+            const errors: UserBulkImportRowErrorInterface[] = [];
+            const user: Record<string, unknown> = {
+                schemas: [ ProfileConstants.SCIM2_CORE_USER_SCHEMA ]
+            };
+
+            mappings.forEach((mapping: UserBulkImportColumnMappingInterface) => {
+                if (!mapping.attribute) {
+                    return;
+                }
+
+                const value: string = record[ mapping.column ]?.trim() ?? "";
+
+                if (!value) {
+                    mapping.attribute.required && errors.push({
+                        attribute: mapping.attribute.displayName,
+                        code: UserBulkImportRowErrorCodes.MISSING_REQUIRED_ATTRIBUTE
+                    });
+
+                    return;
+                }
+
+                const invalid: boolean = UserBulkImportUtils.splitValue(mapping.attribute, value)
+                    .some((item: string) => !UserBulkImportUtils.isValidValue(item, mapping.attribute.regEx));
+
+                if (invalid) {
+                    errors.push({
+                        attribute: mapping.attribute.displayName,
+                        code: UserBulkImportRowErrorCodes.INVALID_ATTRIBUTE_VALUE
+                    });
+                }
+
+                UserBulkImportUtils.setAttribute(user, mapping.attribute, value);
+            });
+
+            let userName: string = (user.userName as string) ?? "";
+
+            if (!userName) {
+                errors.push({ code: UserBulkImportRowErrorCodes.MISSING_USERNAME });
+            } else {
+                if (userStore && userStore.toUpperCase() !== "PRIMARY" && !userName.includes("/")) {
+                    userName = `${ userStore }/${ userName }`;
+                    user.userName = userName;
+                }
+
+                const duplicateOf: number = userNames.get(userName.toLowerCase());
+
+                if (duplicateOf) {
+                    errors.push({
+                        code: UserBulkImportRowErrorCodes.DUPLICATE_USERNAME,
+                        detail: duplicateOf.toString()
+                    });
+                } else {
+                    userNames.set(userName.toLowerCase(), index + 1);
+                }
+            }
+
+            // Users without a password are asked to set one through the email invitation.
+            if (!user.password) {
+                if (!user.emails) {
+                    errors.push({ code: UserBulkImportRowErrorCodes.MISSING_EMAIL });
+                }
+
+                UserBulkImportUtils.setAttribute(user, UserBulkImportUtils.ASK_PASSWORD_ATTRIBUTE, "true");
+            }
+
+            return {
+                errors,
+                rowNumber: index + 1,
+                status: errors.length > 0 ? UserBulkImportRowStatus.INVALID : UserBulkImportRowStatus.VALID,
+                user,
+                userName
+            };
+        });
+    }
+
+    /**
+     * Builds the SCIM Bulk requests for the valid rows. Each row is identified by the `bulkId`
+     * of its operation so that the results can be mapped back to the rows.
+     *
+     * @param {UserBulkImportRowInterface[]} rows - Validated rows.
+     * @param {number} batchSize - Maximum number of operations per request.
+     * @return {SCIMBulkRequestInterface[]} Bulk requests.
+     */
+    public static buildBulkRequests(rows: UserBulkImportRowInterface[],
+                                    batchSize: number = UserManagementConstants.BULK_IMPORT_BATCH_SIZE):
+        SCIMBulkRequestInterface[] {
+
+        const validRows: UserBulkImportRowInterface[] = rows.filter((row: UserBulkImportRowInterface) => {
+            return row.status === UserBulkImportRowStatus.VALID;
+        });
+        const requests: SCIMBulkRequestInterface[] = [];
+
+        for (let index = 0; index < validRows.length; index += batchSize) {
+            requests.push({
+                Operations: validRows.slice(index, index + batchSize).map((row: UserBulkImportRowInterface) => ({
+                    bulkId: UserBulkImportUtils.getBulkId(row.rowNumber),
+                    data: row.user,
+                    method: "POST",
+                    path: "/Users"
+                })),
+                schemas: [ UserManagementConstants.SCIM2_BULK_REQUEST_SCHEMA ]
+            });
+        }
+
+        return requests;
+    }
+
+    /**
+     * Updates the rows of a bulk request with the results of the operations.
+     *
+     * @param {UserBulkImportRowInterface[]} rows - Rows of the import.
+     * @param {SCIMBulkRequestInterface} request - Bulk request that was sent.
+     * @param {SCIMBulkResponseInterface} response - Bulk response. `null` if the request failed.
+     * @param {string} error - Error of the failed request.
+     * @return {UserBulkImportRowInterface[]} Updated rows.
+     */
+    public static applyBulkResponse(rows: UserBulkImportRowInterface[],
+                                    request: SCIMBulkRequestInterface,
+                                    response: SCIMBulkResponseInterface | null,
+                                    error?: string): UserBulkImportRowInterface[] {
+
+        const bulkIds: string[] = request.Operations.map((operation) => operation.bulkId);
+
+        return rows.map((row: UserBulkImportRowInterface) => {
+            const bulkId: string = UserBulkImportUtils.getBulkId(row.rowNumber);
+
+            if (!bulkIds.includes(bulkId)) {
+                return row;
+            }
+
+            const result: SCIMBulkOperationResponseInterface = response?.Operations?.find(
+                (operation: SCIMBulkOperationResponseInterface) => operation.bulkId === bulkId);
+            const code: number = typeof result?.status === "object"
+                ? result.status.code
+                : parseInt(result?.status, 10);
+
+            if (code === 201) {
+                return {
+                    ...row,
+                    id: result.location?.split("/").pop(),
+                    status: UserBulkImportRowStatus.SUCCESS
+                };
+            }
+
+            return {
+                ...row,
+                errors: [
+                    ...row.errors,
+                    {
+                        code: UserBulkImportRowErrorCodes.IMPORT_FAILED,
+                        detail: result?.response?.detail ?? error
+                    }
+                ],
+                status: UserBulkImportRowStatus.FAILED
+            };
+        });
+    }
+
+    /**
+     * Serializes a list of users to CSV. Values of the multi valued attributes are joined using
+     * {@link UserManagementConstants.BULK_MULTI_VALUE_SEPARATOR} so that they can be imported back.
+     *
+     * @param {UserBasicInterface[]} users - Users to be exported.
+     * @return {string} CSV content.
+     */
+    public static serializeUsersToCSV(users: UserBasicInterface[]): string {
+
+        const columns: string[] = Array.from(UserManagementConstants.BULK_EXPORT_COLUMNS.values());
+
+        const lines: string[][] = users.map((user: UserBasicInterface) => {
+            return columns.map((column: string) => {
+                const value: unknown = column.split(".").reduce((parent: Record<string, unknown>, key: string) => {
+                    return parent ? parent[ key ] as Record<string, unknown> : undefined;
+                }, user as unknown as Record<string, unknown>);
+
+                if (Array.isArray(value)) {
+                    return value
+                        .map((item: string | MultiValueAttributeInterface) => {
+                            return typeof item === "object" ? item.value : item;
+                        })
+                        .join(UserManagementConstants.BULK_MULTI_VALUE_SEPARATOR);
+                }
+
+                return value !== undefined && value !== null ? String(value) : "";
+            });
+        });
+
+        return CSVUtils.serialize([ columns, ...lines ]);
+    }
+
+    /**
+     * Parses a JSON file which contains an array of user objects. Nested objects are flattened
+     * using the dot notation. ex: `{ name: { givenName: "John" } }` results in a `name.givenName` column.
+     *
+     * @param {string} content - File content.
+     * @return {UserBulkImportFileInterface} Parsed file.
+     */
+    private static parseJSONFile(content: string): UserBulkImportFileInterface {
+
+        const parsed: unknown = JSON.parse(content);
+
+        if (!Array.isArray(parsed)) {
+            throw new Error("The JSON content should be an array of users.");
+        }
+
+        const headers: string[] = [];
+
+        const flatten = (source: Record<string, unknown>, prefix: string,
+                         record: Record<string, string>): Record<string, string> => {
+
+            Object.keys(source).forEach((key: string) => {
+                const column: string = prefix ? `${ prefix }.${ key }` : key;
+                const value: unknown = source[ key ];
+
+                if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+                    flatten(value as Record<string, unknown>, column, record);
+
+                    return;
+                }
+
+                !headers.includes(column) && headers.push(column);
+                record[ column ] = Array.isArray(value)
+                    ? value
+                        .map((item: unknown) => {
+                            return (item !== null && typeof item === "object")
+                                ? String((item as MultiValueAttributeInterface).value ?? "")
+                                : String(item);
+                        })
+                        .join(UserManagementConstants.BULK_MULTI_VALUE_SEPARATOR)
+                    : (value === null || value === undefined) ? "" : String(value);
+            });
+
+            return record;
+        };
+
+        const records: Record<string, string>[] = parsed.map((item: unknown) => {
+            if (item === null || typeof item !== "object" || Array.isArray(item)) {
+                throw new Error("The JSON content should be an array of users.");
+            }
+
+            return flatten(item as Record<string, unknown>, "", {});
+        });
+
+        return {
+            headers,
+            records,
+            type: UserBulkImportFileTypes.JSON
+        };
+    }
+
+    /**
+     * Sets a value to a SCIM user resource.
+     *
+     * Supports the following attribute paths.
+     *  - `userName`, `name.givenName` - Simple and complex attributes.
+     *  - `emails`, `phoneNumbers.mobile` - Multi valued attributes with an optional type.
+     *  - `addresses#home.locality` - Sub attributes of typed multi valued attributes.
+     *
+     * Values of the multi valued attributes are split using {@link UserManagementConstants.BULK_MULTI_VALUE_SEPARATOR}
+     * and each of them is added as a separate entry.
+     *
+     * @param {Record<string, unknown>} user - SCIM user resource.
+     * @param {UserBulkImportAttributeInterface} attribute - Attribute to be set.
+     * @param {string} value - Value of the attribute.
+     */
+    private static setAttribute(user: Record<string, unknown>, attribute: UserBulkImportAttributeInterface,
+                                value: string): void {
+
+        let target: Record<string, unknown> = user;
+
+        if (attribute.schema !== ProfileConstants.SCIM2_CORE_USER_SCHEMA) {
+            if (!user[ attribute.schema ]) {
+                user[ attribute.schema ] = {};
+                (user.schemas as string[]).push(attribute.schema);
+            }
+
+            target = user[ attribute.schema ] as Record<string, unknown>;
+        }
+
+        const [ path, typedPath ] = attribute.attribute.split("#");
+        const [ name, ...subAttributes ] = path.split(".");
+
+        if (typedPath || UserManagementConstants.SCIM2_MULTI_VALUED_ATTRIBUTES.includes(name)) {
+            const values: Record<string, unknown>[] = (target[ name ] as Record<string, unknown>[]) ?? [];
+            const [ type, subAttribute ] = typedPath ? typedPath.split(".") : [ subAttributes[ 0 ], "value" ];
+
+            if (!typedPath) {
+                UserBulkImportUtils.splitValue(attribute, value).forEach((item: string) => {
+                    values.push(type
+                        ? { type, value: item }
+                        : values.length === 0 ? { primary: true, value: item } : { value: item });
+                });
+
+                if (values.length > 0) {
+                    target[ name ] = values;
+                }
+
+                return;
+            }
+
+            let entry: Record<string, unknown> = values.find((item: Record<string, unknown>) => {
+                return item.type === type;
+            });
+
+            if (!entry) {
+                entry = { type };
+                values.push(entry);
+            }
+
+            entry[ subAttribute ?? "value" ] = value;
+            target[ name ] = values;
+
+            return;
+        }
+
+        [ name, ...subAttributes ].reduce((parent: Record<string, unknown>, key: string, index: number,
+                                           keys: string[]) => {
+
+            if (index === keys.length - 1) {
+                parent[ key ] = value;
+            } else if (!parent[ key ] || typeof parent[ key ] !== "object") {
+                parent[ key ] = {};
+            }
+
+            return parent[ key ] as Record<string, unknown>;
+        }, target);
+    }
+
+    /**
+     * Splits the value of a multi valued attribute in to its values. Values of the other attributes and the
+     * sub attributes of typed multi valued attributes are returned as they are.
+     *
+     * @param {UserBulkImportAttributeInterface} attribute - Attribute of the value.
+     * @param {string} value - Value to be split.
+     * @return {string[]} Values.
+     */
+    private static splitValue(attribute: UserBulkImportAttributeInterface, value: string): string[] {
+
+        const [ path, typedPath ] = attribute.attribute.split("#");
+
+        if (typedPath || !UserManagementConstants.SCIM2_MULTI_VALUED_ATTRIBUTES.includes(path.split(".")[ 0 ])) {
+            return [ value ];
+        }
+
+        return value
+            .split(UserManagementConstants.BULK_MULTI_VALUE_SEPARATOR)
+            .map((item: string) => item.trim())
+            .filter((item: string) => item !== "");
+    }
+
+    /**
+     * Checks if a value matches the regular expression of an attribute.
+     *
+     * @param {string} value - Value to be validated.
+     * @param {string} regEx - Regular expression.
+     * @return {boolean} Is the value valid.
+     */
+    private static isValidValue(value: string, regEx: string): boolean {
+
+        if (!regEx) {
+            return true;
+        }
+
+        try {
+            return new RegExp(regEx).test(value);
+        } catch (e) {
+            // Server side patterns can use a syntax which is not supported in JS. Let the server validate them.
+            return true;
+        }
+    }
+
+    /**
+     * Returns the `bulkId` of the operation of a row.
+     *
+     * @param {number} rowNumber - Row number.
+     * @return {string} Bulk ID.
+     */
+    private static getBulkId(rowNumber: number): string {
+
+        return `row-${ rowNumber }`;
+    }
+}
@@ -21,3 +21,4 @@ export * from "./add-user-store";
 export * from "./edit";
 export * from "./wizards";
 export * from "./sql-editor";
+export * from "./user-store-diagnostics";
@@ -17,11 +17,23 @@
 */
 
 import { TestableComponentInterface } from "@wso2is/core/models";
-import { CodeEditor, Heading, LinkButton, PrimaryButton } from "@wso2is/react-components";
-import React, { FunctionComponent, ReactElement, useEffect, useRef, useState } from "react";
+import {
+    CodeEditor,
+    CodeEditorLintAnnotationInterface,
+    Heading,
+    LinkButton,
+    PrimaryButton
+} from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useTranslation } from "react-i18next";
-import { Accordion, Checkbox, Icon, Menu, Popup, Segment, Sidebar } from "semantic-ui-react";
-import { RequiredBinary } from "../models";
+import { Accordion, Checkbox, Icon, Menu, Message, Popup, Segment, Sidebar } from "semantic-ui-react";
+import {
+    RequiredBinary,
+    SqlQueryDiagnosticInterface,
+    SqlQueryDiagnosticSeverities,
+    TypeProperty
+} from "../models";
+import { validateSqlQuery } from "../utils";
 
 interface SqlEditorPropsInterface extends TestableComponentInterface {
     onChange: (name: string, value: string) => void;
@@ -59,6 +71,65 @@ export const SqlEditor: FunctionComponent<SqlEditorPropsInterface> = (
 
     const { t } = useTranslation();
 
+    /**
+     * Default query of the selected property from the userstore type metadata.
+     */
+    const defaultQuery: string = useMemo(() => {
+        if (!properties || !propertyName) {
+            return null;
+        }
+
+        return [ ...properties.insert, ...properties.select, ...properties.update, ...properties.delete ]
+            .find((property: TypeProperty) => property.name === propertyName)?.defaultValue;
+    }, [ properties, propertyName ]);
+
+    /**
+     * Issues of the query in the editor.
+     */
+    const diagnostics: SqlQueryDiagnosticInterface[] = useMemo(() => {
+        if (!propertyName) {
+            return [];
+        }
+
+        return validateSqlQuery(propertyValue, defaultQuery);
+    }, [ propertyName, propertyValue, defaultQuery ]);
+
+    const hasErrors: boolean = diagnostics.some((diagnostic: SqlQueryDiagnosticInterface) => {
+        return diagnostic.severity === SqlQueryDiagnosticSeverities.ERROR;
+    });
+
+    /**
+     * Resolves the message of a query issue.
+     *
+     * @param {SqlQueryDiagnosticInterface} diagnostic - Query issue.
+     * @return {string}
+     */
+    const resolveDiagnosticMessage = (diagnostic: SqlQueryDiagnosticInterface): string => {
+        return t("console:manage.features.userstores.sqlEditor.validations." + diagnostic.code, diagnostic.params);
+    };
+
+    /**
+     * Resolves the editor annotations for the issues of the query.
+     *
+     * @param {string} code - Query in the editor.
+     * @return {CodeEditorLintAnnotationInterface[]}
+     */
+    const resolveLintAnnotations = useCallback((code: string): CodeEditorLintAnnotationInterface[] => {
+        if (!propertyName) {
+            return [];
+        }
+
+        return validateSqlQuery(code, defaultQuery)
+            .map((diagnostic: SqlQueryDiagnosticInterface) => {
+                return {
+                    from: { ch: diagnostic.from.column, line: diagnostic.from.line },
+                    message: resolveDiagnosticMessage(diagnostic),
+                    severity: diagnostic.severity,
+                    to: { ch: diagnostic.to.column, line: diagnostic.to.line }
+                };
+            });
+    }, [ propertyName, defaultQuery ]);
+
     /**
      * Triggered on `sideBarVisible` change.
      */
@@ -314,6 +385,7 @@ export const SqlEditor: FunctionComponent<SqlEditorPropsInterface> = (
                         <div className="code-editor-wrapper">
                             <CodeEditor
                                 lint
+                                lintAnnotations={ resolveLintAnnotations }
                                 sourceCode={ propertyDefaultValue }
                                 options={ {
                                     lineWrapping: true,
@@ -327,6 +399,17 @@ export const SqlEditor: FunctionComponent<SqlEditorPropsInterface> = (
                                 data-testid={ `${ testId }-code-editor` }
                             />
                         </div>
+                        { diagnostics.length > 0 && (
+                            <Message
+                                attached
+                                error={ hasErrors }
+                                warning={ !hasErrors }
+                                size="small"
+                                header={ t("console:manage.features.userstores.sqlEditor.validations.heading") }
+                                list={ diagnostics.map(resolveDiagnosticMessage) }
+                                data-testid={ `${ testId }-query-validations` }
+                            />
+                        ) }
                         <Menu attached="bottom" className="action-panel" secondary>
                             <Menu.Item position="right">
                                 <LinkButton
@@ -345,6 +428,7 @@ export const SqlEditor: FunctionComponent<SqlEditorPropsInterface> = (
                                 </LinkButton>
                                 <PrimaryButton
                                     type="button"
+                                    disabled={ hasErrors }
                                     onClick={ () => {
                                         onChange(propertyName, propertyValue);
                                     } }
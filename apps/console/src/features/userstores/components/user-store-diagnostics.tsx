@@ -0,0 +1,224 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import { EmphasizedSegment, Heading, Hint, PrimaryButton } from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Grid, Icon, SemanticCOLORS, SemanticICONS, Table } from "semantic-ui-react";
+import {
+    UserStore,
+    UserStoreDiagnosticResultInterface,
+    UserStoreDiagnosticStatus,
+    UserStoreDiagnosticSteps
+} from "../models";
+import { runUserStoreDiagnostics } from "../utils";
+
+/**
+ * Icons of the diagnostic statuses.
+ * @constant
+ * @type {Map<UserStoreDiagnosticStatus, { color: SemanticCOLORS; name: SemanticICONS }>}
+ */
+const STATUS_ICONS: Map<UserStoreDiagnosticStatus, { color: SemanticCOLORS; name: SemanticICONS }> = new Map([
+    [ UserStoreDiagnosticStatus.PASSED, { color: "green", name: "check circle" } ],
+    [ UserStoreDiagnosticStatus.FAILED, { color: "red", name: "times circle" } ],
+    [ UserStoreDiagnosticStatus.SKIPPED, { color: "grey", name: "minus circle" } ]
+]);
+
+/**
+ * Prop types of the `UserStoreDiagnostics` component.
+ */
+interface UserStoreDiagnosticsPropsInterface extends TestableComponentInterface {
+    /**
+     * Userstore to be diagnosed.
+     */
+    userStore: UserStore;
+}
+
+/**
+ * Runs the connection test and the read-only probes of a userstore and shows the result of each step.
+ *
+ * @param {UserStoreDiagnosticsPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const UserStoreDiagnostics: FunctionComponent<UserStoreDiagnosticsPropsInterface> = (
+    props: UserStoreDiagnosticsPropsInterface
+): ReactElement => {
+
+    const {
+        userStore,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ results, setResults ] = useState<UserStoreDiagnosticResultInterface[]>([]);
+    const [ isRunning, setIsRunning ] = useState<boolean>(false);
+
+    /**
+     * Runs the diagnostics and updates the results as the steps complete.
+     */
+    const handleRun = (): void => {
+        setIsRunning(true);
+        setResults([]);
+
+        runUserStoreDiagnostics(userStore, setResults)
+            .finally(() => setIsRunning(false));
+    };
+
+    /**
+     * Renders the status of a step.
+     *
+     * @param {UserStoreDiagnosticResultInterface} result - Result of the step.
+     * @return {React.ReactElement}
+     */
+    const renderStatus = (result: UserStoreDiagnosticResultInterface): ReactElement => {
+        if (!result) {
+            return isRunning
+                ? <Icon name="spinner" loading color="grey" />
+                : <Icon name="circle outline" color="grey" />;
+        }
+
+        const icon: { color: SemanticCOLORS; name: SemanticICONS } = STATUS_ICONS.get(result.status);
+
+        return (
+            <>
+                <Icon name={ icon.name } color={ icon.color } />
+                { t("console:manage.features.userstores.diagnostics.status." + result.status) }
+            </>
+        );
+    };
+
+    /**
+     * Resolves the details of a step.
+     *
+     * @param {UserStoreDiagnosticSteps} step - Diagnostic step.
+     * @param {UserStoreDiagnosticResultInterface} result - Result of the step.
+     * @return {string}
+     */
+    const resolveDetails = (step: UserStoreDiagnosticSteps, result: UserStoreDiagnosticResultInterface): string => {
+        if (!result) {
+            return t("console:manage.features.userstores.diagnostics.steps." + step + ".description");
+        }
+
+        if (result.status === UserStoreDiagnosticStatus.FAILED) {
+            return result.error ?? t("console:manage.features.userstores.diagnostics.steps." + step + ".failed");
+        }
+
+        if (result.status === UserStoreDiagnosticStatus.SKIPPED) {
+            return t("console:manage.features.userstores.diagnostics.steps." + step + ".skipped");
+        }
+
+        return result.count !== undefined
+            ? t("console:manage.features.userstores.diagnostics.results.count", { count: result.count })
+            : t("console:manage.features.userstores.diagnostics.steps." + step + ".passed");
+    };
+
+    return (
+        <EmphasizedSegment padded="very" data-testid={ testId }>
+            <Grid>
+                <Grid.Row columns={ 2 }>
+                    <Grid.Column width={ 12 }>
+                        <Heading as="h5">
+                            { t("console:manage.features.userstores.diagnostics.heading") }
+                        </Heading>
+                        <Heading as="h6" subHeading>
+                            { t("console:manage.features.userstores.diagnostics.subHeading") }
+                        </Heading>
+                    </Grid.Column>
+                    <Grid.Column width={ 4 } textAlign="right">
+                        <PrimaryButton
+                            type="button"
+                            loading={ isRunning }
+                            disabled={ isRunning || !userStore }
+                            onClick={ handleRun }
+                            data-testid={ `${ testId }-run-button` }
+                        >
+                            { t("console:manage.features.userstores.diagnostics.buttons.run") }
+                        </PrimaryButton>
+                    </Grid.Column>
+                </Grid.Row>
+                <Grid.Row columns={ 1 }>
+                    <Grid.Column width={ 16 }>
+                        <Table celled compact unstackable data-testid={ `${ testId }-table` }>
+                            <Table.Header>
+                                <Table.Row>
+                                    <Table.HeaderCell>
+                                        { t("console:manage.features.userstores.diagnostics.columns.step") }
+                                    </Table.HeaderCell>
+                                    <Table.HeaderCell>
+                                        { t("console:manage.features.userstores.diagnostics.columns.status") }
+                                    </Table.HeaderCell>
+                                    <Table.HeaderCell textAlign="right">
+                                        { t("console:manage.features.userstores.diagnostics.columns.duration") }
+                                    </Table.HeaderCell>
+                                    <Table.HeaderCell>
+                                        { t("console:manage.features.userstores.diagnostics.columns.details") }
+                                    </Table.HeaderCell>
+                                </Table.Row>
+                            </Table.Header>
+                            <Table.Body>
+                                {
+                                    Object.values(UserStoreDiagnosticSteps).map((step: UserStoreDiagnosticSteps) => {
+                                        const result: UserStoreDiagnosticResultInterface = results
+                                            .find((stepResult) => stepResult.step === step);
+
+                                        return (
+                                            <Table.Row
+                                                key={ step }
+                                                error={ result?.status === UserStoreDiagnosticStatus.FAILED }
+                                                data-testid={ `${ testId }-${ step }-row` }
+                                            >
+                                                <Table.Cell>
+                                                    {
+                                                        t("console:manage.features.userstores.diagnostics.steps." +
+                                                            step + ".name")
+                                                    }
+                                                </Table.Cell>
+                                                <Table.Cell singleLine>{ renderStatus(result) }</Table.Cell>
+                                                <Table.Cell textAlign="right" singleLine>
+                                                    {
+                                                        result && result.status !== UserStoreDiagnosticStatus.SKIPPED
+                                                            ? t("console:manage.features.userstores.diagnostics" +
+                                                                ".results.duration", { duration: result.duration })
+                                                            : "-"
+                                                    }
+                                                </Table.Cell>
+                                                <Table.Cell>{ resolveDetails(step, result) }</Table.Cell>
+                                            </Table.Row>
+                                        );
+                                    })
+                                }
+                            </Table.Body>
+                        </Table>
+                        <Hint>{ t("console:manage.features.userstores.diagnostics.hint") }</Hint>
+                    </Grid.Column>
+                </Grid.Row>
+            </Grid>
+        </EmphasizedSegment>
+    );
+};
+
+/**
+ * Default props for the component.
+ */
+UserStoreDiagnostics.defaultProps = {
+    "data-testid": "userstore-diagnostics"
+};
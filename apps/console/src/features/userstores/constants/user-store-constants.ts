@@ -99,3 +99,20 @@ export const DISABLED = "Disabled";
  * @type {string}
  */
 export const CONSUMER_USERSTORE = "CONSUMER";
+
+/**
+ * Statements allowed in the userstore SQL queries.
+ * @constant
+ * @type {string[]}
+ */
+export const SQL_STATEMENT_KEYWORDS: string[] = [ "CALL", "DELETE", "INSERT", "MERGE", "SELECT", "UPDATE", "WITH" ];
+
+/**
+ * Names of the userstore properties used to test a JDBC connection.
+ */
+export const JDBC_CONNECTION_PROPERTIES = {
+    connectionPassword: "password",
+    connectionURL: "url",
+    driverName: "driverName",
+    username: "userName"
+};
@@ -162,3 +162,105 @@ export enum UserstorePropertiesCategories {
     GROUP = "group",
     BASIC = "basic"
 }
+
+/**
+ * Steps of the userstore diagnostics. Executed in the declared order.
+ */
+export enum UserStoreDiagnosticSteps {
+    CONNECTION = "connection",
+    LIST_USERS = "listUsers",
+    SEARCH_FILTER = "searchFilter",
+    GROUP_MEMBERSHIP = "groupMembership"
+}
+
+/**
+ * Statuses of a userstore diagnostic step.
+ */
+export enum UserStoreDiagnosticStatus {
+    PASSED = "passed",
+    FAILED = "failed",
+    SKIPPED = "skipped"
+}
+
+/**
+ * Result of a userstore diagnostic step.
+ */
+export interface UserStoreDiagnosticResultInterface {
+    /**
+     * The executed step.
+     */
+    step: UserStoreDiagnosticSteps;
+    /**
+     * Status of the step.
+     */
+    status: UserStoreDiagnosticStatus;
+    /**
+     * Time taken by the step in milliseconds.
+     */
+    duration: number;
+    /**
+     * Number of the resources returned by the probe.
+     */
+    count?: number;
+    /**
+     * Error returned by the server.
+     */
+    error?: string;
+}
+
+/**
+ * Severities of the SQL query diagnostics.
+ */
+export enum SqlQueryDiagnosticSeverities {
+    ERROR = "error",
+    WARNING = "warning"
+}
+
+/**
+ * Types of the issues detected in a SQL query.
+ */
+export enum SqlQueryDiagnosticCodes {
+    EMPTY_QUERY = "emptyQuery",
+    MISSING_NAMED_PLACEHOLDER = "missingNamedPlaceholder",
+    MULTIPLE_STATEMENTS = "multipleStatements",
+    PLACEHOLDER_COUNT_MISMATCH = "placeholderCountMismatch",
+    STATEMENT_TYPE_MISMATCH = "statementTypeMismatch",
+    UNBALANCED_PARENTHESES = "unbalancedParentheses",
+    UNKNOWN_NAMED_PLACEHOLDER = "unknownNamedPlaceholder",
+    UNKNOWN_STATEMENT = "unknownStatement",
+    UNTERMINATED_STRING = "unterminatedString"
+}
+
+/**
+ * Position in a SQL query. Lines and columns are zero based.
+ */
+export interface SqlQueryPositionInterface {
+    line: number;
+    column: number;
+}
+
+/**
+ * Issue detected in a SQL query.
+ */
+export interface SqlQueryDiagnosticInterface {
+    /**
+     * Type of the issue.
+     */
+    code: SqlQueryDiagnosticCodes;
+    /**
+     * Severity of the issue. Queries with errors can't be saved.
+     */
+    severity: SqlQueryDiagnosticSeverities;
+    /**
+     * Start of the offending query segment.
+     */
+    from: SqlQueryPositionInterface;
+    /**
+     * End of the offending query segment.
+     */
+    to: SqlQueryPositionInterface;
+    /**
+     * Values to be interpolated in to the message.
+     */
+    params?: Record<string, string | number>;
+}
@@ -30,7 +30,8 @@ import {
     EditBasicDetailsUserStore,
     EditConnectionDetails,
     EditGroupDetails,
-    EditUserDetails
+    EditUserDetails,
+    UserStoreDiagnostics
 } from "../components";
 import { getDatabaseAvatarGraphic } from "../configs";
 import { CONSUMER_USERSTORE, CONSUMER_USERSTORE_ID } from "../constants";
@@ -183,6 +184,18 @@ const UserStoresEditPage: FunctionComponent<UserStoresEditPageInterface> = (
                     />
                 </ResourceTab.Pane>
             )
+        },
+        {
+            menuItem: (userStoreId === CONSUMER_USERSTORE_ID) ? null
+                : t("console:manage.features.userstores.pageLayout.edit.tabs.diagnostics"),
+            render: () => (
+                <ResourceTab.Pane controlledSegmentation attached={ false }>
+                    <UserStoreDiagnostics
+                        userStore={ userStore }
+                        data-testid={ `${ testId }-userstore-diagnostics` }
+                    />
+                </ResourceTab.Pane>
+            )
         }
     ];
 
@@ -16,4 +16,5 @@
  * under the License.
  */
 
+export * from "./userstore-diagnostics-utils";
 export * from "./userstore-utils";
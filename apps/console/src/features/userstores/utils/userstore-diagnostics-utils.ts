@@ -0,0 +1,411 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { ProfileInfoInterface } from "@wso2is/core/models";
+import { UserBasicInterface, UserListInterface, getUserDetails, getUsersList } from "../../users";
+import { testConnection } from "../api";
+import { JDBC, JDBC_CONNECTION_PROPERTIES, SQL_STATEMENT_KEYWORDS } from "../constants";
+import {
+    SqlQueryDiagnosticCodes,
+    SqlQueryDiagnosticInterface,
+    SqlQueryDiagnosticSeverities,
+    SqlQueryPositionInterface,
+    TestConnection,
+    UserStore,
+    UserStoreDiagnosticResultInterface,
+    UserStoreDiagnosticStatus,
+    UserStoreDiagnosticSteps,
+    UserStoreProperty
+} from "../models";
+
+/**
+ * Placeholder found in a SQL query. Positional placeholders don't have a name.
+ */
+interface SqlQueryPlaceholderInterface {
+    name?: string;
+    from: number;
+    to: number;
+}
+
+/**
+ * Tokens of a SQL query which are relevant to the diagnostics. Positions are character offsets.
+ */
+interface SqlQueryScanResultInterface {
+    statement: { value: string; from: number; to: number };
+    placeholders: SqlQueryPlaceholderInterface[];
+    separators: number[];
+    unbalancedParentheses: number[];
+    unterminatedString: number;
+}
+
+/**
+ * Pattern of a named placeholder. ex: `:UM_USER_NAME;`
+ */
+const NAMED_PLACEHOLDER_PATTERN: RegExp = /^:([A-Za-z_]\w*);/;
+
+/**
+ * Runs the connection test followed by a set of read-only probes against a userstore. The probes go through
+ * the SCIM endpoints so that the configured filters and membership properties of the userstore are used.
+ *
+ * @param {UserStore} userStore - Userstore to be diagnosed.
+ * @param {(results: UserStoreDiagnosticResultInterface[]) => void} onProgress - Called after each step.
+ * @return {Promise<UserStoreDiagnosticResultInterface[]>} Results of the steps.
+ */
+export const runUserStoreDiagnostics = (
+    userStore: UserStore,
+    onProgress?: (results: UserStoreDiagnosticResultInterface[]) => void
+): Promise<UserStoreDiagnosticResultInterface[]> => {
+
+    const results: UserStoreDiagnosticResultInterface[] = [];
+    let user: UserBasicInterface = null;
+
+    const record = (result: UserStoreDiagnosticResultInterface): void => {
+        results.push(result);
+        onProgress && onProgress([ ...results ]);
+    };
+
+    const skip = (step: UserStoreDiagnosticSteps): Promise<void> => {
+        record({ duration: 0, status: UserStoreDiagnosticStatus.SKIPPED, step });
+
+        return Promise.resolve();
+    };
+
+    // The test connection endpoint only supports the JDBC userstores.
+    const connection: Promise<void> = userStore.typeName?.includes(JDBC)
+        ? executeDiagnosticStep(UserStoreDiagnosticSteps.CONNECTION, () => {
+            return testConnection(getTestConnectionData(userStore.properties))
+                .then((response) => {
+                    if (!response?.connection) {
+                        return Promise.reject(null);
+                    }
+                });
+        }).then(record)
+        : skip(UserStoreDiagnosticSteps.CONNECTION);
+
+    return connection
+        .then(() => executeDiagnosticStep(UserStoreDiagnosticSteps.LIST_USERS, () => {
+            return getUsersList(1, 1, null, "userName", userStore.name)
+                .then((response: UserListInterface) => {
+                    user = response?.Resources?.[ 0 ] ?? null;
+
+                    return response?.totalResults ?? 0;
+                });
+        }))
+        .then(record)
+        .then(() => {
+            if (!user) {
+                return skip(UserStoreDiagnosticSteps.SEARCH_FILTER);
+            }
+
+            return executeDiagnosticStep(UserStoreDiagnosticSteps.SEARCH_FILTER, () => {
+                const userName: string = user.userName.split("/").pop();
+
+                return getUsersList(1, 1, `userName eq ${ userName }`, "userName", userStore.name)
+                    .then((response: UserListInterface) => {
+                        if (!response?.totalResults) {
+                            return Promise.reject(null);
+                        }
+
+                        return response.totalResults;
+                    });
+            }).then(record);
+        })
+        .then(() => {
+            if (!user) {
+                return skip(UserStoreDiagnosticSteps.GROUP_MEMBERSHIP);
+            }
+
+            return executeDiagnosticStep(UserStoreDiagnosticSteps.GROUP_MEMBERSHIP, () => {
+                return getUserDetails(user.id, "groups")
+                    .then((response: ProfileInfoInterface) => response?.groups?.length ?? 0);
+            }).then(record);
+        })
+        .then(() => results);
+};
+
+/**
+ * Validates a userstore SQL query. The placeholders are validated against the default query in the
+ * property metadata of the userstore type since the server binds the same set of values to the query.
+ *
+ * @param {string} query - Query to be validated.
+ * @param {string} defaultQuery - Default query of the property.
+ * @return {SqlQueryDiagnosticInterface[]} Issues found in the query.
+ */
+export const validateSqlQuery = (query: string, defaultQuery?: string): SqlQueryDiagnosticInterface[] => {
+
+    const diagnostics: SqlQueryDiagnosticInterface[] = [];
+    const code: string = query ?? "";
+
+    const addDiagnostic = (diagnosticCode: SqlQueryDiagnosticCodes, severity: SqlQueryDiagnosticSeverities,
+        from: number, to: number, params?: Record<string, string | number>): void => {
+
+        diagnostics.push({
+            code: diagnosticCode,
+            from: getSqlQueryPosition(code, from),
+            params,
+            severity,
+            to: getSqlQueryPosition(code, to)
+        });
+    };
+
+    if (!code.trim()) {
+        // Queries without a default value are optional.
+        if (!defaultQuery?.trim()) {
+            return diagnostics;
+        }
+
+        addDiagnostic(SqlQueryDiagnosticCodes.EMPTY_QUERY, SqlQueryDiagnosticSeverities.ERROR, 0, 0);
+
+        return diagnostics;
+    }
+
+    const scan: SqlQueryScanResultInterface = scanSqlQuery(code);
+
+    if (scan.unterminatedString > -1) {
+        addDiagnostic(SqlQueryDiagnosticCodes.UNTERMINATED_STRING, SqlQueryDiagnosticSeverities.ERROR,
+            scan.unterminatedString, code.length);
+    }
+
+    scan.unbalancedParentheses.forEach((index: number) => {
+        addDiagnostic(SqlQueryDiagnosticCodes.UNBALANCED_PARENTHESES, SqlQueryDiagnosticSeverities.ERROR,
+            index, index + 1);
+    });
+
+    scan.separators.forEach((index: number) => {
+        addDiagnostic(SqlQueryDiagnosticCodes.MULTIPLE_STATEMENTS, SqlQueryDiagnosticSeverities.ERROR,
+            index, index + 1);
+    });
+
+    const statement: SqlQueryScanResultInterface["statement"] = scan.statement ?? { from: 0, to: 0, value: "" };
+
+    if (!SQL_STATEMENT_KEYWORDS.includes(statement.value)) {
+        addDiagnostic(SqlQueryDiagnosticCodes.UNKNOWN_STATEMENT, SqlQueryDiagnosticSeverities.ERROR,
+            statement.from, statement.to, { statement: statement.value });
+    }
+
+    if (!defaultQuery?.trim()) {
+        return diagnostics;
+    }
+
+    const defaultScan: SqlQueryScanResultInterface = scanSqlQuery(defaultQuery);
+
+    if (defaultScan.statement && scan.statement && defaultScan.statement.value !== scan.statement.value) {
+        addDiagnostic(SqlQueryDiagnosticCodes.STATEMENT_TYPE_MISMATCH, SqlQueryDiagnosticSeverities.ERROR,
+            statement.from, statement.to, { expected: defaultScan.statement.value });
+    }
+
+    const positional: SqlQueryPlaceholderInterface[] = scan.placeholders.filter((placeholder) => !placeholder.name);
+    const expectedPositional: number = defaultScan.placeholders.filter((placeholder) => !placeholder.name).length;
+
+    if (positional.length !== expectedPositional) {
+        const extra: SqlQueryPlaceholderInterface = positional[ expectedPositional ];
+
+        addDiagnostic(SqlQueryDiagnosticCodes.PLACEHOLDER_COUNT_MISMATCH, SqlQueryDiagnosticSeverities.ERROR,
+            extra ? extra.from : statement.from, extra ? extra.to : statement.to,
+            { expected: expectedPositional, found: positional.length });
+    }
+
+    const expectedNames: string[] = defaultScan.placeholders
+        .filter((placeholder) => placeholder.name)
+        .map((placeholder) => placeholder.name);
+
+    scan.placeholders
+        .filter((placeholder) => placeholder.name && !expectedNames.includes(placeholder.name))
+        .forEach((placeholder: SqlQueryPlaceholderInterface) => {
+            addDiagnostic(SqlQueryDiagnosticCodes.UNKNOWN_NAMED_PLACEHOLDER, SqlQueryDiagnosticSeverities.ERROR,
+                placeholder.from, placeholder.to, { placeholder: placeholder.name });
+        });
+
+    expectedNames
+        .filter((name: string, index: number) => expectedNames.indexOf(name) === index)
+        .filter((name: string) => !scan.placeholders.some((placeholder) => placeholder.name === name))
+        .forEach((name: string) => {
+            addDiagnostic(SqlQueryDiagnosticCodes.MISSING_NAMED_PLACEHOLDER, SqlQueryDiagnosticSeverities.WARNING,
+                statement.from, statement.to, { placeholder: name });
+        });
+
+    return diagnostics;
+};
+
+/**
+ * Executes a diagnostic step and measures the time taken by it.
+ *
+ * @param {UserStoreDiagnosticSteps} step - Step to be executed.
+ * @param {() => Promise<number | void>} probe - Resolves the number of resources returned by the step.
+ * @return {Promise<UserStoreDiagnosticResultInterface>} Result of the step.
+ */
+const executeDiagnosticStep = (
+    step: UserStoreDiagnosticSteps,
+    probe: () => Promise<number | void>
+): Promise<UserStoreDiagnosticResultInterface> => {
+
+    const start: number = performance.now();
+    const getDuration = (): number => Math.round(performance.now() - start);
+
+    return probe()
+        .then((count: number | void) => ({
+            count: typeof count === "number" ? count : undefined,
+            duration: getDuration(),
+            status: UserStoreDiagnosticStatus.PASSED,
+            step
+        }))
+        .catch((error) => ({
+            duration: getDuration(),
+            error: error?.description
+                ?? error?.response?.data?.detail
+                ?? error?.response?.data?.description
+                ?? error?.message,
+            status: UserStoreDiagnosticStatus.FAILED,
+            step
+        }));
+};
+
+/**
+ * Builds the payload of the test connection request from the userstore properties.
+ *
+ * @param {UserStoreProperty[]} properties - Properties of the userstore.
+ * @return {TestConnection} Test connection payload.
+ */
+const getTestConnectionData = (properties: UserStoreProperty[]): TestConnection => {
+
+    const getValue = (name: string): string => {
+        return properties?.find((property: UserStoreProperty) => property.name === name)?.value;
+    };
+
+    return {
+        connectionPassword: getValue(JDBC_CONNECTION_PROPERTIES.connectionPassword),
+        connectionURL: getValue(JDBC_CONNECTION_PROPERTIES.connectionURL),
+        driverName: getValue(JDBC_CONNECTION_PROPERTIES.driverName),
+        username: getValue(JDBC_CONNECTION_PROPERTIES.username)
+    };
+};
+
+/**
+ * Scans a SQL query for the statement, placeholders and the syntax errors. Strings and comments are skipped.
+ *
+ * @param {string} query - SQL query.
+ * @return {SqlQueryScanResultInterface} Scan result.
+ */
+const scanSqlQuery = (query: string): SqlQueryScanResultInterface => {
+
+    const result: SqlQueryScanResultInterface = {
+        placeholders: [],
+        separators: [],
+        statement: null,
+        unbalancedParentheses: [],
+        unterminatedString: -1
+    };
+    const openParentheses: number[] = [];
+
+    let index: number = 0;
+
+    while (index < query.length) {
+        const char: string = query.charAt(index);
+        const next: string = query.charAt(index + 1);
+
+        if (char === "'" || char === "\"" || char === "`") {
+            let end: number = query.indexOf(char, index + 1);
+
+            // Quotes are escaped by doubling them.
+            while (end > -1 && query.charAt(end + 1) === char) {
+                end = query.indexOf(char, end + 2);
+            }
+
+            if (end < 0) {
+                result.unterminatedString = index;
+
+                break;
+            }
+
+            index = end + 1;
+
+            continue;
+        }
+
+        if (char === "-" && next === "-") {
+            const end: number = query.indexOf("\n", index);
+
+            index = end < 0 ? query.length : end + 1;
+
+            continue;
+        }
+
+        if (char === "/" && next === "*") {
+            const end: number = query.indexOf("*/", index + 2);
+
+            index = end < 0 ? query.length : end + 2;
+
+            continue;
+        }
+
+        if (char === "(") {
+            openParentheses.push(index);
+        } else if (char === ")") {
+            openParentheses.length > 0
+                ? openParentheses.pop()
+                : result.unbalancedParentheses.push(index);
+        } else if (char === "?") {
+            result.placeholders.push({ from: index, to: index + 1 });
+        } else if (char === ":" && query.charAt(index - 1) !== ":"
+            && NAMED_PLACEHOLDER_PATTERN.test(query.slice(index))) {
+
+            const match: RegExpExecArray = NAMED_PLACEHOLDER_PATTERN.exec(query.slice(index));
+
+            result.placeholders.push({ from: index, name: match[ 1 ], to: index + match[ 0 ].length });
+            index += match[ 0 ].length;
+
+            continue;
+        } else if (char === ";") {
+            // A trailing semicolon is allowed. Anything after it is another statement.
+            if (query.slice(index + 1).trim()) {
+                result.separators.push(index);
+            }
+        } else if (!result.statement && /[A-Za-z]/.test(char)) {
+            const word: string = /^[A-Za-z_]+/.exec(query.slice(index))[ 0 ];
+
+            result.statement = { from: index, to: index + word.length, value: word.toUpperCase() };
+            index += word.length;
+
+            continue;
+        }
+
+        index++;
+    }
+
+    result.unbalancedParentheses.push(...openParentheses);
+
+    return result;
+};
+
+/**
+ * Converts a character offset of a SQL query to a line and a column.
+ *
+ * @param {string} query - SQL query.
+ * @param {number} offset - Character offset.
+ * @return {SqlQueryPositionInterface} Position.
+ */
+const getSqlQueryPosition = (query: string, offset: number): SqlQueryPositionInterface => {
+
+    const lines: string[] = query.slice(0, offset).split("\n");
+
+    return {
+        column: lines[ lines.length - 1 ].length,
+        line: lines.length - 1
+    };
+};
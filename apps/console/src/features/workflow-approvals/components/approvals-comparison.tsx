@@ -0,0 +1,176 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import { Heading, LinkButton, Text } from "@wso2is/react-components";
+import React, { FunctionComponent, ReactElement } from "react";
+import { useTranslation } from "react-i18next";
+import { Label, List, Modal, SemanticCOLORS, Table } from "semantic-ui-react";
+import { ApprovalStatus, ApprovalTaskListItemInterface } from "../models";
+import { ApprovalManagementUtils } from "../utils";
+
+/**
+ * Proptypes for the approvals comparison component.
+ */
+interface ApprovalsComparisonPropsInterface extends TestableComponentInterface {
+    /**
+     * Approval tasks to compare. Expected to contain the details.
+     */
+    approvals: ApprovalTaskListItemInterface[];
+    /**
+     * Callback to be triggered when the modal is closed.
+     */
+    onClose: () => void;
+    /**
+     * Resolve the label color of the task.
+     */
+    resolveApprovalTagColor?: (
+        status: ApprovalStatus.READY | ApprovalStatus.RESERVED | ApprovalStatus.COMPLETED
+    ) => SemanticCOLORS;
+}
+
+/**
+ * Shows the parameters of the changes requested by a set of approval tasks side by side.
+ *
+ * @param {ApprovalsComparisonPropsInterface} props - Props injected to the component.
+ *
+ * @return {React.ReactElement}
+ */
+export const ApprovalsComparison: FunctionComponent<ApprovalsComparisonPropsInterface> = (
+    props: ApprovalsComparisonPropsInterface
+): ReactElement => {
+
+    const {
+        approvals,
+        onClose,
+        resolveApprovalTagColor,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const parameterKeys: string[] = ApprovalManagementUtils.getParameterKeys(approvals);
+
+    /**
+     * Renders the values of a parameter of a task.
+     *
+     * @param {ApprovalTaskListItemInterface} approval - Approval task.
+     * @param {string} key - Parameter key.
+     * @return {React.ReactElement}
+     */
+    const renderParameterValues = (approval: ApprovalTaskListItemInterface, key: string): ReactElement => {
+        const values: string[] = ApprovalManagementUtils.getParameterValues(approval, key);
+
+        if (values.length === 0) {
+            return <Text muted>-</Text>;
+        }
+
+        if (values.length === 1) {
+            return <>{ values[ 0 ] }</>;
+        }
+
+        return (
+            <List bulleted>
+                { values.map((value: string, index: number) => <List.Item key={ index }>{ value }</List.Item>) }
+            </List>
+        );
+    };
+
+    return (
+        <Modal
+            data-testid={ testId }
+            open={ true }
+            dimmer="blurring"
+            size="large"
+            onClose={ onClose }
+            closeOnDimmerClick={ false }
+        >
+            <Modal.Header>
+                { t("console:manage.features.approvals.modals.comparison.header") }
+                <Heading as="h6">{ t("console:manage.features.approvals.modals.comparison.description") }</Heading>
+            </Modal.Header>
+            <Modal.Content scrolling>
+                {
+                    parameterKeys.length > 0
+                        ? (
+                            <Table definition celled data-testid={ `${ testId }-table` }>
+                                <Table.Header>
+                                    <Table.Row>
+                                        <Table.HeaderCell>
+                                            { t("console:manage.features.approvals.modals.comparison.parameter") }
+                                        </Table.HeaderCell>
+                                        {
+                                            approvals.map((approval: ApprovalTaskListItemInterface) => (
+                                                <Table.HeaderCell key={ approval.id }>
+                                                    { approval.presentationSubject }
+                                                    <Heading as="h6" subHeading>
+                                                        <Label
+                                                            circular
+                                                            size="mini"
+                                                            className="micro mr-2 ml-0 vertical-aligned-baseline"
+                                                            color={ resolveApprovalTagColor(approval.status) }
+                                                        />
+                                                        { approval.details?.initiator ?? approval.status }
+                                                    </Heading>
+                                                </Table.HeaderCell>
+                                            ))
+                                        }
+                                    </Table.Row>
+                                </Table.Header>
+                                <Table.Body>
+                                    {
+                                        parameterKeys.map((key: string) => (
+                                            <Table.Row key={ key }>
+                                                <Table.Cell>{ key }</Table.Cell>
+                                                {
+                                                    approvals.map((approval: ApprovalTaskListItemInterface) => (
+                                                        <Table.Cell key={ approval.id } verticalAlign="top">
+                                                            { renderParameterValues(approval, key) }
+                                                        </Table.Cell>
+                                                    ))
+                                                }
+                                            </Table.Row>
+                                        ))
+                                    }
+                                </Table.Body>
+                            </Table>
+                        )
+                        : <Text muted>{ t("console:manage.features.approvals.modals.comparison.empty") }</Text>
+                }
+            </Modal.Content>
+            <Modal.Actions>
+                <LinkButton
+                    floated="left"
+                    onClick={ onClose }
+                    data-testid={ `${ testId }-close-button` }
+                >
+                    { t("common:close") }
+                </LinkButton>
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default props for the approvals comparison component.
+ */
+ApprovalsComparison.defaultProps = {
+    "data-testid": "approvals-comparison",
+    resolveApprovalTagColor: () => "grey"
+};
@@ -41,14 +41,21 @@ import React, {
 } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch } from "react-redux";
-import { Header, Label, SemanticCOLORS, SemanticICONS } from "semantic-ui-react";
+import { Checkbox, Header, Label, SemanticCOLORS, SemanticICONS } from "semantic-ui-react";
 import { ApprovalTaskComponent } from "./approval-task";
 import { getEmptyPlaceholderIllustrations } from "../../core/configs";
 import { UIConstants } from "../../core/constants";
 import { FeatureConfigInterface } from "../../core/models";
 import { fetchPendingApprovalDetails } from "../api";
 import { getTableIcons } from "../configs";
-import { ApprovalStatus, ApprovalTaskDetails, ApprovalTaskListItemInterface } from "../models";
+import {
+    ApprovalSLAStatuses,
+    ApprovalStatus,
+    ApprovalTaskAgeInterface,
+    ApprovalTaskDetails,
+    ApprovalTaskListItemInterface
+} from "../models";
+import { ApprovalManagementUtils } from "../utils";
 
 /**
  * Prop types for the approvals list component.
@@ -110,6 +117,18 @@ interface ApprovalsListPropsInterface extends SBACInterface<FeatureConfigInterfa
      * Handle the change of filter status.
      */
     onChangeStatusFilter?: (status: string) => void;
+    /**
+     * IDs of the selected tasks. Selection is enabled only if \`onSelectionChange\` is provided.
+     */
+    selectedApprovals?: string[];
+    /**
+     * Callback to be triggered when the selected tasks change.
+     */
+    onSelectionChange?: (selectedApprovals: string[]) => void;
+    /**
+     * Number of hours a task is expected to be completed within. Age badges are hidden if not provided.
+     */
+    slaHours?: number;
 }
 
 /**
@@ -129,6 +148,7 @@ export const ApprovalsList: FunctionComponent<ApprovalsListPropsInterface> = (
     const {
         getApprovalsList,
         onChangeStatusFilter,
+        onSelectionChange,
         resolveApprovalTagColor,
         updateApprovalStatus,
         defaultListItemLimit,
@@ -137,7 +157,9 @@ export const ApprovalsList: FunctionComponent<ApprovalsListPropsInterface> = (
         list,
         selection,
         searchResult,
+        selectedApprovals,
         showListItemActions,
+        slaHours,
         [ "data-testid" ]: testId
     } = props;
 
@@ -305,13 +327,82 @@ export const ApprovalsList: FunctionComponent<ApprovalsListPropsInterface> = (
     };
 
 
+    /**
+     * Toggles the selection of a task.
+     *
+     * @param {ApprovalTaskListItemInterface} approval - Approval task.
+     * @param {boolean} checked - Whether the task is selected.
+     */
+    const handleSelectionToggle = (approval: ApprovalTaskListItemInterface, checked: boolean): void => {
+        onSelectionChange(checked
+            ? [ ...selectedApprovals, approval.id ]
+            : selectedApprovals.filter((id: string) => id !== approval.id));
+    };
+
+    /**
+     * Renders the age of a task colored by its status against the SLA.
+     *
+     * @param {ApprovalTaskListItemInterface} approval - Approval task.
+     * @return {React.ReactElement}
+     */
+    const renderAgeBadge = (approval: ApprovalTaskListItemInterface): ReactElement => {
+        if (!slaHours || approval.status === ApprovalStatus.COMPLETED) {
+            return null;
+        }
+
+        const age: ApprovalTaskAgeInterface = ApprovalManagementUtils.getTaskAge(approval.createdTimeInMillis,
+            slaHours);
+        const colors: Record<ApprovalSLAStatuses, SemanticCOLORS> = {
+            [ ApprovalSLAStatuses.ON_TRACK ]: "green",
+            [ ApprovalSLAStatuses.AT_RISK ]: "orange",
+            [ ApprovalSLAStatuses.BREACHED ]: "red"
+        };
+
+        return (
+            <Label
+                basic
+                size="mini"
+                className="ml-2"
+                color={ colors[ age.slaStatus ] }
+                title={ t("console:manage.features.approvals.inbox.sla.statuses." + age.slaStatus) }
+                data-testid={ `${ testId }-item-age-badge` }
+            >
+                {
+                    age.hours >= 24
+                        ? t("console:manage.features.approvals.inbox.age.days",
+                            { count: Math.floor(age.hours / 24) })
+                        : t("console:manage.features.approvals.inbox.age.hours", { count: age.hours })
+                }
+            </Label>
+        );
+    };
+
     /**
      * Resolves data table columns.
      *
      * @return {TableColumnInterface[]}
      */
     const resolveTableColumns = (): TableColumnInterface[] => {
+        const selectionColumn: TableColumnInterface = {
+            allowToggleVisibility: false,
+            dataIndex: "selection",
+            id: "selection",
+            key: "selection",
+            render: (approval: ApprovalTaskListItemInterface): ReactNode => (
+                <div onClick={ (e: SyntheticEvent) => e.stopPropagation() }>
+                    <Checkbox
+                        checked={ selectedApprovals.includes(approval.id) }
+                        onChange={ (e: SyntheticEvent, { checked }) => handleSelectionToggle(approval, checked) }
+                        data-testid={ `${ testId }-item-checkbox` }
+                    />
+                </div>
+            ),
+            title: null,
+            width: 1
+        };
+
         return [
+            ...(onSelectionChange ? [ selectionColumn ] : []),
             {
                 allowToggleVisibility: false,
                 dataIndex: "name",
@@ -349,6 +440,7 @@ export const ApprovalsList: FunctionComponent<ApprovalsListPropsInterface> = (
                                             color={ resolveApprovalTagColor(approval.status) }
                                         />
                                         { approval.status }
+                                        { renderAgeBadge(approval) }
                                     </div>
                                 </Header.Subheader>
                             </Header.Content>
@@ -406,6 +498,7 @@ export const ApprovalsList: FunctionComponent<ApprovalsListPropsInterface> = (
  */
 ApprovalsList.defaultProps = {
     "data-testid": "approvals-list",
+    selectedApprovals: [],
     selection: true,
     showListItemActions: true
 };
@@ -16,4 +16,5 @@
  * under the License.
  */
 
+export * from "./approvals-comparison";
 export * from "./approvals-list";
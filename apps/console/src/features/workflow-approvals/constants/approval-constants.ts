@@ -0,0 +1,106 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { ApprovalStatus, ApprovalTaskActionTypes } from "../models";
+
+/**
+ * Class containing workflow approvals constants.
+ */
+export class ApprovalConstants {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Number of hours a task is expected to be completed within.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly DEFAULT_SLA_HOURS: number = 24;
+
+    /**
+     * SLA durations offered in the inbox in hours.
+     * @constant
+     * @type {number[]}
+     * @default
+     */
+    public static readonly SLA_OPTIONS: number[] = [ 4, 8, 24, 48, 72 ];
+
+    /**
+     * Fraction of the SLA after which a task is flagged as at risk.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly SLA_AT_RISK_RATIO: number = 0.75;
+
+    /**
+     * Key of the SLA in the user preferences.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly SLA_STORAGE_KEY: string = "approvalsSLAHours";
+
+    /**
+     * Maximum number of task requests sent in parallel when fetching the details or updating the tasks in bulk.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly APPROVAL_REQUEST_CONCURRENCY: number = 5;
+
+    /**
+     * Keys of the requested change parameters holding a comma separated list of values.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly LIST_PARAMETER_KEYS: string[] = [
+        "Claims",
+        "Groups",
+        "Permissions",
+        "Roles",
+        "Roles to be Added",
+        "Roles to be Deleted",
+        "Users",
+        "Users to be Added",
+        "Users to be Deleted"
+    ];
+
+    /**
+     * Task statuses each action can be performed on.
+     * @constant
+     * @type {Map<ApprovalTaskActionTypes, string[]>}
+     * @default
+     */
+    public static readonly ACTION_ALLOWED_STATUSES: Map<ApprovalTaskActionTypes, string[]> =
+        new Map<ApprovalTaskActionTypes, string[]>()
+            .set(ApprovalStatus.CLAIM, [ ApprovalStatus.READY ])
+            .set(ApprovalStatus.RELEASE, [ ApprovalStatus.RESERVED ])
+            .set(ApprovalStatus.APPROVE, [ ApprovalStatus.READY, ApprovalStatus.RESERVED ])
+            .set(ApprovalStatus.REJECT, [ ApprovalStatus.READY, ApprovalStatus.RESERVED ]);
+}
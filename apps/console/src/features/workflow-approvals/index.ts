@@ -19,5 +19,7 @@
 export * from "./api";
 export * from "./components";
 export * from "./configs";
+export * from "./constants";
 export * from "./models";
 export * from "./pages";
+export * from "./utils";
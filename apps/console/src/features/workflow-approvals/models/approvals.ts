@@ -178,3 +178,87 @@ export interface ApprovalTaskListItemInterface {
      */
     details?: ApprovalTaskDetails;
 }
+
+/**
+ * Actions which can be performed on an approval task.
+ */
+export type ApprovalTaskActionTypes = ApprovalStatus.CLAIM | ApprovalStatus.RELEASE | ApprovalStatus.APPROVE
+    | ApprovalStatus.REJECT;
+
+/**
+ * Fields the approval tasks can be sorted by.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum ApprovalTaskSortFields {
+    CREATED = "createdTimeInMillis",
+    PRIORITY = "priority",
+    SUBJECT = "presentationSubject"
+}
+
+/**
+ * Statuses of an approval task against the SLA.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum ApprovalSLAStatuses {
+    ON_TRACK = "onTrack",
+    AT_RISK = "atRisk",
+    BREACHED = "breached"
+}
+
+/**
+ * Filters of the approvals inbox.
+ */
+export interface ApprovalTaskFilterInterface {
+    /**
+     * Workflow operations of the tasks. Matched against the `presentationName`.
+     */
+    taskTypes: string[];
+    /**
+     * Users who initiated the tasks.
+     */
+    initiators: string[];
+    /**
+     * Earliest created date in `YYYY-MM-DD` format.
+     */
+    createdFrom?: string;
+    /**
+     * Latest created date in `YYYY-MM-DD` format.
+     */
+    createdTo?: string;
+}
+
+/**
+ * Age of an approval task.
+ */
+export interface ApprovalTaskAgeInterface {
+    /**
+     * Number of hours since the task was created.
+     */
+    hours: number;
+    /**
+     * Status of the task against the SLA.
+     */
+    slaStatus: ApprovalSLAStatuses;
+}
+
+/**
+ * Result of an action performed on a single task of a bulk action.
+ */
+export interface ApprovalBulkActionResultInterface {
+    /**
+     * ID of the approval task.
+     */
+    id: string;
+    /**
+     * Whether the action succeeded.
+     */
+    success: boolean;
+    /**
+     * Error returned by the server if the action failed.
+     */
+    error?: string;
+}
@@ -18,15 +18,35 @@
 
 import { AlertLevels, TestableComponentInterface } from "@wso2is/core/models";
 import { addAlert } from "@wso2is/core/store";
-import { ListLayout, PageLayout } from "@wso2is/react-components";
-import React, { FunctionComponent, MouseEvent, ReactElement, useEffect, useState } from "react";
+import { useTrigger } from "@wso2is/forms";
+import { ConfirmationModal, LinkButton, ListLayout, PageLayout } from "@wso2is/react-components";
+import React, { FunctionComponent, MouseEvent, ReactElement, useEffect, useMemo, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useDispatch, useSelector } from "react-redux";
-import { Dropdown, DropdownProps, Input, PaginationProps, SemanticCOLORS } from "semantic-ui-react";
+import {
+    Button,
+    Dropdown,
+    DropdownItemProps,
+    DropdownProps,
+    Form,
+    Input,
+    PaginationProps,
+    Segment,
+    SemanticCOLORS
+} from "semantic-ui-react";
 import { AppState, FeatureConfigInterface, UIConstants } from "../../core";
 import { fetchPendingApprovals, updatePendingApprovalStatus } from "../api";
-import { ApprovalsList } from "../components";
-import { ApprovalStatus, ApprovalTaskListItemInterface } from "../models";
+import { ApprovalsComparison, ApprovalsList } from "../components";
+import { ApprovalConstants } from "../constants";
+import {
+    ApprovalBulkActionResultInterface,
+    ApprovalStatus,
+    ApprovalTaskActionTypes,
+    ApprovalTaskFilterInterface,
+    ApprovalTaskListItemInterface,
+    ApprovalTaskSortFields
+} from "../models";
+import { ApprovalManagementUtils } from "../utils";
 
 /**
  * Props for the Approvals page.
@@ -67,6 +87,37 @@ const ApprovalsPage: FunctionComponent<ApprovalsPageInterface> = (
         [ ApprovalStatus.ALL ]: false
     });
     const [ searchResult, setSearchResult ] = useState<number>(undefined);
+    const [ selectedApprovals, setSelectedApprovals ] = useState<string[]>([]);
+    const [ filter, setFilter ] = useState<ApprovalTaskFilterInterface>({ initiators: [], taskTypes: [] });
+    const [ slaHours, setSLAHours ] = useState<number>(ApprovalManagementUtils.getSLAHours());
+    const [ pendingBulkAction, setPendingBulkAction ] = useState<ApprovalTaskActionTypes>(undefined);
+    const [ isBulkActionInProgress, setIsBulkActionInProgress ] = useState<boolean>(false);
+    const [ showComparison, setShowComparison ] = useState<boolean>(false);
+    const [ resetPagination, setResetPagination ] = useTrigger();
+
+    /**
+     * Sets the attributes by which the list can be sorted.
+     */
+    const SORT_BY: DropdownItemProps[] = [
+        {
+            key: 0,
+            text: t("console:manage.features.approvals.inbox.sortOptions.created"),
+            value: ApprovalTaskSortFields.CREATED
+        },
+        {
+            key: 1,
+            text: t("console:manage.features.approvals.inbox.sortOptions.priority"),
+            value: ApprovalTaskSortFields.PRIORITY
+        },
+        {
+            key: 2,
+            text: t("console:manage.features.approvals.inbox.sortOptions.subject"),
+            value: ApprovalTaskSortFields.SUBJECT
+        }
+    ];
+
+    const [ sortBy, setSortBy ] = useState<DropdownItemProps>(SORT_BY[ 0 ]);
+    const [ sortOrder, setSortOrder ] = useState<boolean>(true);
 
     const APPROVAL_OPTIONS = [
         {
@@ -97,8 +148,44 @@ const ApprovalsPage: FunctionComponent<ApprovalsPageInterface> = (
     useEffect(() => {
         setApprovals(approvals);
         setTempApprovals(approvals);
+        setSelectedApprovals((selected: string[]) => selected.filter((id: string) => {
+            return approvals.some((approval: ApprovalTaskListItemInterface) => approval.id === id);
+        }));
+    }, [ approvals ]);
+
+    /**
+     * Moves back to the first page when the filter or the sort criteria changes.
+     */
+    useEffect(() => {
+        setOffset(0);
+        setResetPagination();
+    }, [ filter, sortBy, sortOrder ]);
+
+    /**
+     * Tasks matching the inbox filters in the selected order.
+     */
+    const filteredApprovals: ApprovalTaskListItemInterface[] = useMemo(() => {
+        return ApprovalManagementUtils.sortApprovals(ApprovalManagementUtils.filterApprovals(tempApprovals, filter),
+            sortBy.value as ApprovalTaskSortFields, sortOrder);
+    }, [ tempApprovals, filter, sortBy, sortOrder ]);
+
+    /**
+     * Options of the task type and the initiator filters.
+     */
+    const [ taskTypeOptions, initiatorOptions ] = useMemo(() => {
+        const toOptions = (values: string[]): DropdownItemProps[] => Array.from(new Set(values.filter(Boolean)))
+            .sort()
+            .map((value: string) => ({ key: value, text: value, value }));
+
+        return [
+            toOptions(approvals.map((approval: ApprovalTaskListItemInterface) => approval.presentationName)),
+            toOptions(approvals.map((approval: ApprovalTaskListItemInterface) => approval.details?.initiator))
+        ];
     }, [ approvals ]);
 
+    const selectedApprovalItems: ApprovalTaskListItemInterface[] = approvals.filter(
+        (approval: ApprovalTaskListItemInterface) => selectedApprovals.includes(approval.id));
+
     /**
      * Updates the approval list when the filter criteria changes.
      */
@@ -132,6 +219,8 @@ const ApprovalsPage: FunctionComponent<ApprovalsPageInterface> = (
                 if (!shallowUpdate) {
                     setApprovals(response);
                     setTempApprovals(response);
+                    getApprovalDetails(response);
+
                     return;
                 }
 
@@ -185,6 +274,228 @@ const ApprovalsPage: FunctionComponent<ApprovalsPageInterface> = (
             });
     };
 
+    /**
+     * Fetches the details of the tasks in the background. The initiator and the requested parameters
+     * used by the filters and the comparison view are only available in the details.
+     *
+     * @param {ApprovalTaskListItemInterface[]} list - Approval tasks.
+     */
+    const getApprovalDetails = (list: ApprovalTaskListItemInterface[]): void => {
+        ApprovalManagementUtils.fetchApprovalDetails(list)
+            .then((detailedApprovals: ApprovalTaskListItemInterface[]) => {
+                // The list might have been refreshed while the details were being fetched.
+                setApprovals((current: ApprovalTaskListItemInterface[]) => current.map(
+                    (approval: ApprovalTaskListItemInterface) => {
+                        const details = detailedApprovals.find((detailed: ApprovalTaskListItemInterface) => {
+                            return detailed.id === approval.id;
+                        })?.details;
+
+                        return details ? { ...approval, details } : approval;
+                    }));
+            });
+    };
+
+    /**
+     * Performs an action on the selected tasks.
+     *
+     * @param {ApprovalTaskActionTypes} action - Action to perform.
+     */
+    const handleBulkAction = (action: ApprovalTaskActionTypes): void => {
+        setIsBulkActionInProgress(true);
+
+        ApprovalManagementUtils.updateApprovalStatuses(selectedApprovalItems, action)
+            .then((results: ApprovalBulkActionResultInterface[]) => {
+                const failedCount: number = results.filter((result: ApprovalBulkActionResultInterface) => {
+                    return !result.success;
+                }).length;
+
+                dispatch(addAlert({
+                    description: t("console:manage.features.approvals.notifications.bulkUpdatePendingApprovals." +
+                        (failedCount > 0 ? "error" : "success") + ".description", {
+                        failed: failedCount,
+                        updated: results.length - failedCount
+                    }),
+                    level: failedCount > 0 ? AlertLevels.WARNING : AlertLevels.SUCCESS,
+                    message: t("console:manage.features.approvals.notifications.bulkUpdatePendingApprovals." +
+                        (failedCount > 0 ? "error" : "success") + ".message")
+                }));
+
+                // Failed tasks are kept selected so that the action can be retried.
+                setSelectedApprovals(results
+                    .filter((result: ApprovalBulkActionResultInterface) => !result.success)
+                    .map((result: ApprovalBulkActionResultInterface) => result.id));
+                getApprovals(true);
+            })
+            .finally(() => {
+                setIsBulkActionInProgress(false);
+                setPendingBulkAction(undefined);
+            });
+    };
+
+    /**
+     * Handles the change of the SLA.
+     *
+     * @param {React.SyntheticEvent<HTMLElement>} event - Event.
+     * @param {DropdownProps} data - Dropdown data.
+     */
+    const handleSLAChange = (event: React.SyntheticEvent<HTMLElement>, data: DropdownProps): void => {
+        setSLAHours(data.value as number);
+        ApprovalManagementUtils.setSLAHours(data.value as number);
+    };
+
+    /**
+     * Handles sort strategy change.
+     *
+     * @param {React.SyntheticEvent<HTMLElement>} event - Event.
+     * @param {DropdownProps} data - Dropdown data.
+     */
+    const handleSortStrategyChange = (event: React.SyntheticEvent<HTMLElement>, data: DropdownProps): void => {
+        setSortBy(SORT_BY.find((option: DropdownItemProps) => option.value === data.value));
+    };
+
+    /**
+     * Renders the bulk action button of an action.
+     *
+     * @param {ApprovalTaskActionTypes} action - Action.
+     * @param {string} label - Label of the button.
+     * @return {React.ReactElement}
+     */
+    const renderBulkActionButton = (action: ApprovalTaskActionTypes, label: string): ReactElement => {
+        const count: number = ApprovalManagementUtils.getActionableApprovals(selectedApprovalItems, action).length;
+
+        return (
+            <Button
+                basic
+                size="small"
+                disabled={ count === 0 || isBulkActionInProgress }
+                loading={ isBulkActionInProgress && pendingBulkAction === action }
+                onClick={ () => {
+                    setPendingBulkAction(action);
+
+                    // Approvals and rejections can't be reverted.
+                    if (action === ApprovalStatus.CLAIM || action === ApprovalStatus.RELEASE) {
+                        handleBulkAction(action);
+                    }
+                } }
+                data-testid={ `${ testId }-bulk-${ action.toLowerCase() }-button` }
+            >
+                { t(label, { count }) }
+            </Button>
+        );
+    };
+
+    /**
+     * Renders the actions for the selected tasks.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderBulkActions = (): ReactElement => (
+        <Segment className="mb-3" data-testid={ `${ testId }-bulk-actions` }>
+            <strong className="mr-3">
+                { t("console:manage.features.approvals.inbox.selected", { count: selectedApprovals.length }) }
+            </strong>
+            {
+                renderBulkActionButton(ApprovalStatus.CLAIM, "console:manage.features.approvals.inbox.actions.claim")
+            }
+            {
+                renderBulkActionButton(ApprovalStatus.RELEASE,
+                    "console:manage.features.approvals.inbox.actions.release")
+            }
+            {
+                renderBulkActionButton(ApprovalStatus.APPROVE,
+                    "console:manage.features.approvals.inbox.actions.approve")
+            }
+            {
+                renderBulkActionButton(ApprovalStatus.REJECT, "console:manage.features.approvals.inbox.actions.reject")
+            }
+            <Button
+                basic
+                size="small"
+                disabled={ selectedApprovals.length < 2 }
+                onClick={ () => setShowComparison(true) }
+                data-testid={ `${ testId }-bulk-compare-button` }
+            >
+                { t("console:manage.features.approvals.inbox.actions.compare") }
+            </Button>
+            <LinkButton
+                onClick={ () => setSelectedApprovals(filteredApprovals.map(
+                    (approval: ApprovalTaskListItemInterface) => approval.id)) }
+                data-testid={ `${ testId }-select-all-button` }
+            >
+                {
+                    t("console:manage.features.approvals.inbox.actions.selectAll",
+                        { count: filteredApprovals.length })
+                }
+            </LinkButton>
+            <LinkButton
+                onClick={ () => setSelectedApprovals([]) }
+                data-testid={ `${ testId }-clear-selection-button` }
+            >
+                { t("console:manage.features.approvals.inbox.actions.clear") }
+            </LinkButton>
+        </Segment>
+    );
+
+    /**
+     * Renders the filters of the inbox.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderFilters = (): ReactElement => (
+        <Form className="mb-3" data-testid={ `${ testId }-filters` }>
+            <Form.Group widths="equal">
+                <Form.Dropdown
+                    multiple
+                    search
+                    selection
+                    clearable
+                    label={ t("console:manage.features.approvals.inbox.filters.taskTypes.label") }
+                    placeholder={ t("console:manage.features.approvals.inbox.filters.taskTypes.placeholder") }
+                    options={ taskTypeOptions }
+                    value={ filter.taskTypes }
+                    onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                        setFilter({ ...filter, taskTypes: value as string[] });
+                    } }
+                    data-testid={ `${ testId }-task-type-filter` }
+                />
+                <Form.Dropdown
+                    multiple
+                    search
+                    selection
+                    clearable
+                    label={ t("console:manage.features.approvals.inbox.filters.initiators.label") }
+                    placeholder={ t("console:manage.features.approvals.inbox.filters.initiators.placeholder") }
+                    options={ initiatorOptions }
+                    value={ filter.initiators }
+                    onChange={ (e: React.SyntheticEvent<HTMLElement>, { value }: DropdownProps) => {
+                        setFilter({ ...filter, initiators: value as string[] });
+                    } }
+                    data-testid={ `${ testId }-initiator-filter` }
+                />
+                <Form.Input
+                    type="date"
+                    label={ t("console:manage.features.approvals.inbox.filters.createdFrom.label") }
+                    max={ filter.createdTo }
+                    value={ filter.createdFrom ?? "" }
+                    onChange={ (e: React.ChangeEvent<HTMLInputElement>, { value }) => {
+                        setFilter({ ...filter, createdFrom: value || undefined });
+                    } }
+                    data-testid={ `${ testId }-created-from-filter` }
+                />
+                <Form.Input
+                    type="date"
+                    label={ t("console:manage.features.approvals.inbox.filters.createdTo.label") }
+                    min={ filter.createdFrom }
+                    value={ filter.createdTo ?? "" }
+                    onChange={ (e: React.ChangeEvent<HTMLInputElement>, { value }) => {
+                        setFilter({ ...filter, createdTo: value || undefined });
+                    } }
+                    data-testid={ `${ testId }-created-to-filter` }
+                />
+            </Form.Group>
+        </Form>
+    );
+
     /**
      * This slices and returns a portion of the list.
      *
@@ -329,19 +640,39 @@ const ApprovalsPage: FunctionComponent<ApprovalsPageInterface> = (
                 listItemLimit={ listItemLimit }
                 onItemsPerPageDropdownChange={ handleItemsPerPageDropdownChange }
                 onPageChange={ handlePaginationChange }
+                onSortStrategyChange={ handleSortStrategyChange }
+                onSortOrderChange={ (isAscending: boolean) => setSortOrder(isAscending) }
+                resetPagination={ resetPagination }
                 showPagination={ true }
                 showTopActionPanel={ isApprovalListRequestLoading || !(approvals?.length == 0) }
-                totalPages={ Math.ceil(approvals.length / listItemLimit) }
-                totalListSize={ approvals.length }
+                sortOptions={ SORT_BY }
+                sortStrategy={ sortBy }
+                totalPages={ Math.ceil(filteredApprovals.length / listItemLimit) }
+                totalListSize={ filteredApprovals.length }
                 data-testid={ `${ testId }-list-layout` }
                 rightActionPanel={
-                    <Dropdown
-                        data-testid={ `${ testId }-status-filter-dropdown` }
-                        selection
-                        options={ APPROVAL_OPTIONS && APPROVAL_OPTIONS }
-                        onChange={ handleFilterStatusChange }
-                        defaultValue={ ApprovalStatus.ALL }
-                    />
+                    <>
+                        <Dropdown
+                            data-testid={ `${ testId }-status-filter-dropdown` }
+                            selection
+                            options={ APPROVAL_OPTIONS && APPROVAL_OPTIONS }
+                            onChange={ handleFilterStatusChange }
+                            defaultValue={ ApprovalStatus.ALL }
+                        />
+                        <Dropdown
+                            data-testid={ `${ testId }-sla-dropdown` }
+                            className="ml-2"
+                            selection
+                            options={ ApprovalConstants.SLA_OPTIONS.map((hours: number) => ({
+                                key: hours,
+                                text: t("console:manage.features.approvals.inbox.sla.option", { count: hours }),
+                                value: hours
+                            })) }
+                            onChange={ handleSLAChange }
+                            text={ t("console:manage.features.approvals.inbox.sla.label", { count: slaHours }) }
+                            value={ slaHours }
+                        />
+                    </>
                 }
                 leftActionPanel={
                     <div className="advanced-search-wrapper aligned-left fill-default">
@@ -358,6 +689,8 @@ const ApprovalsPage: FunctionComponent<ApprovalsPageInterface> = (
                     </div>
                 }
             >
+                { approvals?.length > 0 && renderFilters() }
+                { selectedApprovals.length > 0 && renderBulkActions() }
                 <ApprovalsList
                     filterStatus={ filterStatus }
                     onChangeStatusFilter={ (status) => setFilterStatus(status) }
@@ -366,11 +699,52 @@ const ApprovalsPage: FunctionComponent<ApprovalsPageInterface> = (
                     updateApprovalStatus={ updateApprovalStatus }
                     featureConfig={ featureConfig }
                     isLoading={ isApprovalListRequestLoading }
-                    list={ paginate(tempApprovals, listItemLimit, offset) }
+                    list={ paginate(filteredApprovals, listItemLimit, offset) }
                     resolveApprovalTagColor={ resolveApprovalTagColor }
+                    selectedApprovals={ selectedApprovals }
+                    onSelectionChange={ setSelectedApprovals }
+                    slaHours={ slaHours }
                     data-testid={ `${ testId }-list` }
                 />
             </ListLayout>
+            {
+                showComparison && (
+                    <ApprovalsComparison
+                        approvals={ selectedApprovalItems }
+                        onClose={ () => setShowComparison(false) }
+                        resolveApprovalTagColor={ resolveApprovalTagColor }
+                        data-testid={ `${ testId }-comparison` }
+                    />
+                )
+            }
+            <ConfirmationModal
+                data-testid={ `${ testId }-bulk-action-confirmation-modal` }
+                onClose={ (): void => setPendingBulkAction(undefined) }
+                type={ pendingBulkAction === ApprovalStatus.REJECT ? "negative" : "warning" }
+                open={ !isBulkActionInProgress && (pendingBulkAction === ApprovalStatus.APPROVE
+                    || pendingBulkAction === ApprovalStatus.REJECT) }
+                primaryAction={ t("common:confirm") }
+                secondaryAction={ t("common:cancel") }
+                onSecondaryActionClick={ (): void => setPendingBulkAction(undefined) }
+                onPrimaryActionClick={ (): void => handleBulkAction(pendingBulkAction) }
+                closeOnDimmerClick={ false }
+            >
+                <ConfirmationModal.Header>
+                    { t("console:manage.features.approvals.inbox.confirmations.header") }
+                </ConfirmationModal.Header>
+                <ConfirmationModal.Message attached warning>
+                    { t("console:manage.features.approvals.inbox.confirmations.message") }
+                </ConfirmationModal.Message>
+                <ConfirmationModal.Content>
+                    {
+                        pendingBulkAction && t("console:manage.features.approvals.inbox.confirmations." +
+                            (pendingBulkAction === ApprovalStatus.APPROVE ? "approve" : "reject"), {
+                            count: ApprovalManagementUtils.getActionableApprovals(selectedApprovalItems,
+                                pendingBulkAction).length
+                        })
+                    }
+                </ConfirmationModal.Content>
+            </ConfirmationModal>
         </PageLayout>
     );
 };
@@ -0,0 +1,151 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { fetchPendingApprovalDetails, updatePendingApprovalStatus } from "../api";
+import { ApprovalConstants } from "../constants";
+import {
+    ApprovalBulkActionResultInterface,
+    ApprovalStatus,
+    ApprovalTaskDetails,
+    ApprovalTaskListItemInterface
+} from "../models";
+import { ApprovalManagementUtils } from "../utils/approval-management-utils";
+
+jest.mock("../api", () => ({
+    fetchPendingApprovalDetails: jest.fn(),
+    updatePendingApprovalStatus: jest.fn()
+}));
+
+/**
+ * Creates a set of approval tasks.
+ *
+ * @param {number} count - Number of tasks.
+ * @param {ApprovalStatus.READY | ApprovalStatus.RESERVED} status - Status of the tasks.
+ * @return {ApprovalTaskListItemInterface[]}
+ */
+const createApprovals = (count: number,
+                         status: ApprovalStatus.READY | ApprovalStatus.RESERVED): ApprovalTaskListItemInterface[] => {
+
+    return Array.from({ length: count }, (_: unknown, index: number) => ({
+        id: `task-${ index }`,
+        status
+    } as ApprovalTaskListItemInterface));
+};
+
+/**
+ * Tracks the maximum number of pending requests of a mocked API function.
+ *
+ * @param {jest.Mock} request - Mocked API function.
+ * @param {(id: string) => Promise<unknown>} respond - Resolves the response of a request.
+ * @return {() => number} Function returning the maximum number of pending requests.
+ */
+const trackPendingRequests = (request: jest.Mock, respond: (id: string) => Promise<unknown>): () => number => {
+    let pending: number = 0;
+    let maxPending: number = 0;
+
+    request.mockImplementation((id: string) => {
+        pending++;
+        maxPending = Math.max(maxPending, pending);
+
+        return new Promise((resolve: (value: unknown) => void) => setTimeout(resolve))
+            .then(() => respond(id))
+            .finally(() => pending--);
+    });
+
+    return () => maxPending;
+};
+
+describe("Approval details util function", () => {
+
+    beforeEach(() => {
+        (fetchPendingApprovalDetails as jest.Mock).mockReset();
+    });
+
+    test("Should fetch the details of a limited number of tasks at a time", async () => {
+        const approvals: ApprovalTaskListItemInterface[] = createApprovals(12, ApprovalStatus.READY);
+        const getMaxPending: () => number = trackPendingRequests(fetchPendingApprovalDetails as jest.Mock,
+            (id: string) => id === "task-3"
+                ? Promise.reject(new Error("Task not found."))
+                : Promise.resolve({ initiator: id }));
+
+        const detailedApprovals: ApprovalTaskListItemInterface[] = await ApprovalManagementUtils.fetchApprovalDetails([
+            { ...approvals[ 0 ], details: { initiator: "admin" } as ApprovalTaskDetails },
+            ...approvals.slice(1)
+        ]);
+
+        expect(getMaxPending()).toBe(ApprovalConstants.APPROVAL_REQUEST_CONCURRENCY);
+        expect(fetchPendingApprovalDetails).toHaveBeenCalledTimes(approvals.length - 1);
+        expect(detailedApprovals.map(({ details }: ApprovalTaskListItemInterface) => details?.initiator))
+            .toEqual([
+                "admin",
+                "task-1",
+                "task-2",
+                undefined,
+                ...approvals.slice(4).map(({ id }: ApprovalTaskListItemInterface) => id)
+            ]);
+    });
+});
+
+describe("Approval bulk action util function", () => {
+
+    beforeEach(() => {
+        (updatePendingApprovalStatus as jest.Mock).mockReset();
+    });
+
+    test("Should update a limited number of actionable tasks at a time", async () => {
+        const approvals: ApprovalTaskListItemInterface[] = [
+            ...createApprovals(12, ApprovalStatus.READY),
+            { id: "reserved", status: ApprovalStatus.RESERVED } as ApprovalTaskListItemInterface
+        ];
+        const getMaxPending: () => number = trackPendingRequests(updatePendingApprovalStatus as jest.Mock,
+            (id: string) => id === "task-5" ? Promise.reject("Task already completed.") : Promise.resolve({}));
+
+        const results: ApprovalBulkActionResultInterface[] = await ApprovalManagementUtils
+            .updateApprovalStatuses(approvals, ApprovalStatus.CLAIM);
+
+        expect(getMaxPending()).toBe(ApprovalConstants.APPROVAL_REQUEST_CONCURRENCY);
+        expect(results.map(({ id }: ApprovalBulkActionResultInterface) => id))
+            .toEqual(approvals.slice(0, 12).map(({ id }: ApprovalTaskListItemInterface) => id));
+        expect(results.filter(({ success }: ApprovalBulkActionResultInterface) => !success)).toEqual([
+            { error: "Task already completed.", id: "task-5", success: false }
+        ]);
+    });
+});
+
+describe("Approval parameter util function", () => {
+
+    const approval: ApprovalTaskListItemInterface = {
+        details: {
+            properties: [
+                { key: "Username", value: "john,doe," },
+                { key: "Roles", value: "admin, manager,," },
+                { key: "Claims", value: "" }
+            ]
+        } as ApprovalTaskDetails,
+        id: "task",
+        status: ApprovalStatus.READY
+    } as ApprovalTaskListItemInterface;
+
+    test("Should split only the values of the list parameters", () => {
+        expect(ApprovalManagementUtils.getParameterValues(approval, "Username")).toEqual([ "john,doe" ]);
+        expect(ApprovalManagementUtils.getParameterValues(approval, "Roles")).toEqual([ "admin", "manager" ]);
+        expect(ApprovalManagementUtils.getParameterValues(approval, "Claims")).toEqual([]);
+        expect(ApprovalManagementUtils.getParameterValues(approval, "Groups")).toEqual([]);
+    });
+});
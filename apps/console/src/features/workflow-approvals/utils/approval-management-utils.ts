@@ -0,0 +1,274 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { StorageIdentityAppsSettingsInterface } from "@wso2is/core/models";
+import { CommonUtils } from "@wso2is/core/utils";
+import cloneDeep from "lodash-es/cloneDeep";
+import get from "lodash-es/get";
+import isEmpty from "lodash-es/isEmpty";
+import set from "lodash-es/set";
+import { AppUtils } from "../../core/utils";
+import { fetchPendingApprovalDetails, updatePendingApprovalStatus } from "../api";
+import { ApprovalConstants } from "../constants";
+import {
+    ApprovalBulkActionResultInterface,
+    ApprovalSLAStatuses,
+    ApprovalTaskActionTypes,
+    ApprovalTaskAgeInterface,
+    ApprovalTaskDetails,
+    ApprovalTaskFilterInterface,
+    ApprovalTaskListItemInterface,
+    ApprovalTaskSortFields
+} from "../models";
+
+/**
+ * Utility class for workflow approvals operations.
+ */
+export class ApprovalManagementUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Retrieves the details of the approval tasks. The initiator and the requested parameters are only
+     * available in the details. Tasks whose details can't be retrieved are returned as they are.
+     *
+     * @param {ApprovalTaskListItemInterface[]} approvals - Approval tasks.
+     * @return {Promise<ApprovalTaskListItemInterface[]>} Approval tasks with the details.
+     */
+    public static fetchApprovalDetails(
+        approvals: ApprovalTaskListItemInterface[]
+    ): Promise<ApprovalTaskListItemInterface[]> {
+
+        return CommonUtils.mapWithConcurrency(approvals, ApprovalConstants.APPROVAL_REQUEST_CONCURRENCY,
+            (approval: ApprovalTaskListItemInterface): Promise<ApprovalTaskListItemInterface> => {
+                if (approval.details) {
+                    return Promise.resolve(approval);
+                }
+
+                return fetchPendingApprovalDetails(approval.id)
+                    .then((details: ApprovalTaskDetails) => ({ ...approval, details }))
+                    .catch(() => approval);
+            });
+    }
+
+    /**
+     * Resolves the tasks an action can be performed on.
+     *
+     * @param {ApprovalTaskListItemInterface[]} approvals - Approval tasks.
+     * @param {ApprovalTaskActionTypes} action - Action to perform.
+     * @return {ApprovalTaskListItemInterface[]}
+     */
+    public static getActionableApprovals(approvals: ApprovalTaskListItemInterface[],
+                                         action: ApprovalTaskActionTypes): ApprovalTaskListItemInterface[] {
+
+        return approvals.filter((approval: ApprovalTaskListItemInterface) => {
+            return ApprovalConstants.ACTION_ALLOWED_STATUSES.get(action).includes(approval.status);
+        });
+    }
+
+    /**
+     * Performs an action on a set of tasks. Tasks the action can't be performed on are skipped.
+     *
+     * @param {ApprovalTaskListItemInterface[]} approvals - Approval tasks.
+     * @param {ApprovalTaskActionTypes} action - Action to perform.
+     * @return {Promise<ApprovalBulkActionResultInterface[]>} Result of each task.
+     */
+    public static updateApprovalStatuses(
+        approvals: ApprovalTaskListItemInterface[],
+        action: ApprovalTaskActionTypes
+    ): Promise<ApprovalBulkActionResultInterface[]> {
+
+        return CommonUtils.mapWithConcurrency(ApprovalManagementUtils.getActionableApprovals(approvals, action),
+            ApprovalConstants.APPROVAL_REQUEST_CONCURRENCY,
+            (approval: ApprovalTaskListItemInterface): Promise<ApprovalBulkActionResultInterface> => {
+                return updatePendingApprovalStatus(approval.id, action)
+                    .then((): ApprovalBulkActionResultInterface => ({ id: approval.id, success: true }))
+                    .catch((error): ApprovalBulkActionResultInterface => ({
+                        error: typeof error === "string" ? error : error?.message,
+                        id: approval.id,
+                        success: false
+                    }));
+            });
+    }
+
+    /**
+     * Filters the tasks by the workflow operation, the initiator and the created date.
+     *
+     * @param {ApprovalTaskListItemInterface[]} approvals - Approval tasks.
+     * @param {ApprovalTaskFilterInterface} filter - Filter.
+     * @return {ApprovalTaskListItemInterface[]}
+     */
+    public static filterApprovals(approvals: ApprovalTaskListItemInterface[],
+                                  filter: ApprovalTaskFilterInterface): ApprovalTaskListItemInterface[] {
+
+        // Dates are compared in the local time zone of the approver.
+        const from: number = filter.createdFrom ? new Date(filter.createdFrom + "T00:00:00").getTime() : null;
+        const to: number = filter.createdTo ? new Date(filter.createdTo + "T23:59:59.999").getTime() : null;
+
+        return approvals.filter((approval: ApprovalTaskListItemInterface) => {
+            const created: number = Number(approval.createdTimeInMillis);
+
+            return (filter.taskTypes.length === 0 || filter.taskTypes.includes(approval.presentationName))
+                && (filter.initiators.length === 0 || filter.initiators.includes(approval.details?.initiator))
+                && (from === null || created >= from)
+                && (to === null || created <= to);
+        });
+    }
+
+    /**
+     * Sorts the tasks without mutating the given list.
+     *
+     * @param {ApprovalTaskListItemInterface[]} approvals - Approval tasks.
+     * @param {ApprovalTaskSortFields} field - Field to sort by.
+     * @param {boolean} isAscending - Sort order.
+     * @return {ApprovalTaskListItemInterface[]}
+     */
+    public static sortApprovals(approvals: ApprovalTaskListItemInterface[], field: ApprovalTaskSortFields,
+                                isAscending: boolean): ApprovalTaskListItemInterface[] {
+
+        const compare = (a: ApprovalTaskListItemInterface, b: ApprovalTaskListItemInterface): number => {
+            if (field === ApprovalTaskSortFields.SUBJECT) {
+                return (a.presentationSubject ?? "").localeCompare(b.presentationSubject ?? "");
+            }
+
+            return Number(a[ field ]) - Number(b[ field ]);
+        };
+
+        return [ ...approvals ].sort((a: ApprovalTaskListItemInterface, b: ApprovalTaskListItemInterface) => {
+            return isAscending ? compare(a, b) : compare(b, a);
+        });
+    }
+
+    /**
+     * Resolves the age of a task and its status against the SLA.
+     *
+     * @param {string} createdTimeInMillis - Created time of the task.
+     * @param {number} slaHours - Number of hours the task is expected to be completed within.
+     * @param {number} now - Current time in milliseconds.
+     * @return {ApprovalTaskAgeInterface}
+     */
+    public static getTaskAge(createdTimeInMillis: string, slaHours: number,
+                             now: number = Date.now()): ApprovalTaskAgeInterface {
+
+        const hours: number = Math.max(0, Math.floor((now - Number(createdTimeInMillis)) / (60 * 60 * 1000)));
+        let slaStatus: ApprovalSLAStatuses = ApprovalSLAStatuses.ON_TRACK;
+
+        if (hours >= slaHours) {
+            slaStatus = ApprovalSLAStatuses.BREACHED;
+        } else if (hours >= slaHours * ApprovalConstants.SLA_AT_RISK_RATIO) {
+            slaStatus = ApprovalSLAStatuses.AT_RISK;
+        }
+
+        return {
+            hours,
+            slaStatus
+        };
+    }
+
+    /**
+     * Resolves the keys of the requested change parameters of a set of tasks in the order they appear.
+     *
+     * @param {ApprovalTaskListItemInterface[]} approvals - Approval tasks with the details.
+     * @return {string[]}
+     */
+    public static getParameterKeys(approvals: ApprovalTaskListItemInterface[]): string[] {
+
+        const keys: Set<string> = new Set<string>();
+
+        approvals.forEach((approval: ApprovalTaskListItemInterface) => {
+            approval.details?.properties?.forEach(({ key, value }: { key: string; value: string }) => {
+                key && value && keys.add(key);
+            });
+        });
+
+        return Array.from(keys);
+    }
+
+    /**
+     * Resolves the value of a requested change parameter. The trailing commas returned by the API are removed.
+     * Only the parameters known to hold a list of values are split. ex: Roles, Groups.
+     *
+     * @param {ApprovalTaskListItemInterface} approval - Approval task with the details.
+     * @param {string} key - Parameter key.
+     * @return {string[]} Values of the parameter.
+     */
+    public static getParameterValues(approval: ApprovalTaskListItemInterface, key: string): string[] {
+
+        const value: string = approval.details?.properties
+            ?.find((property: { key: string; value: string }) => property.key === key)?.value;
+
+        if (!value) {
+            return [];
+        }
+
+        if (!ApprovalConstants.LIST_PARAMETER_KEYS.includes(key)) {
+            const trimmed: string = value.replace(/[,\s]+$/, "").trim();
+
+            return trimmed ? [ trimmed ] : [];
+        }
+
+        return value.split(",")
+            .map((item: string) => item.trim())
+            .filter(Boolean);
+    }
+
+    /**
+     * Retrieves the SLA of the approvals from the user preferences.
+     *
+     * @return {number} SLA in hours.
+     */
+    public static getSLAHours(): number {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return ApprovalConstants.DEFAULT_SLA_HOURS;
+        }
+
+        return get(userPreferences.identityAppsSettings?.devPortal,
+            ApprovalConstants.SLA_STORAGE_KEY, ApprovalConstants.DEFAULT_SLA_HOURS);
+    }
+
+    /**
+     * Saves the SLA of the approvals in the user preferences.
+     *
+     * @param {number} hours - SLA in hours.
+     */
+    public static setSLAHours(hours: number): void {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return;
+        }
+
+        const newPref: StorageIdentityAppsSettingsInterface = cloneDeep(userPreferences);
+
+        set(newPref, [ "identityAppsSettings", "devPortal", ApprovalConstants.SLA_STORAGE_KEY ], hours);
+
+        AppUtils.setUserPreferences(newPref);
+    }
+}
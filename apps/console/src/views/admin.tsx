@@ -16,7 +16,14 @@
  * under the License.
  */
 
-import { AccessControlProvider, AccessControlUtils } from "@wso2is/access-control";
+import {
+    AccessControlDebugPanel,
+    AccessControlPolicyContextInterface,
+    AccessControlPolicyInterface,
+    AccessControlProvider,
+    AccessControlUtils,
+    useAccessControlPolicyTransitions
+} from "@wso2is/access-control";
 import { hasRequiredScopes } from "@wso2is/core/helpers";
 import { AlertInterface, ChildRouteInterface, ProfileInfoInterface, RouteInterface } from "@wso2is/core/models";
 import { initializeAlertSystem } from "@wso2is/core/store";
@@ -41,6 +48,7 @@ import React, {
     SyntheticEvent,
     lazy,
     useEffect,
+    useMemo,
     useState
 } from "react";
 import { useTranslation } from "react-i18next";
@@ -109,15 +117,27 @@ export const AdminView: FunctionComponent<AdminViewPropsInterface> = (
 
     const config: ConfigReducerStateInterface = useSelector((state: AppState) => state.config);
     const profileInfo: ProfileInfoInterface = useSelector((state: AppState) => state.profile.profileInfo);
+    const isProfileInfoRequestLoading: boolean = useSelector(
+        (state: AppState) => state.loaders.isProfileInfoRequestLoading);
     const featureConfig: FeatureConfigInterface = useSelector((state: AppState) => state.config.ui.features);
     const alert: AlertInterface = useSelector((state: AppState) => state.global.alert);
     const alertSystem: System = useSelector((state: AppState) => state.global.alertSystem);
     const isAJAXTopLoaderVisible: boolean = useSelector((state: AppState) => state.global.isAJAXTopLoaderVisible);
     const allowedScopes: string = useSelector((state: AppState) => state?.auth?.scope);
+    const accessControlPolicyContext: AccessControlPolicyContextInterface = useMemo(() => {
+        return AppUtils.getAccessControlPolicyContext(config, profileInfo);
+    }, [ config, profileInfo ]);
+    const routePolicies: AccessControlPolicyInterface[] = useMemo(() => {
+        return [ ...getAdminViewRoutes(), ...getDeveloperViewRoutes() ]
+            .map((route: RouteInterface) => AccessControlUtils.getRoutePolicy(route, featureConfig))
+            .filter(Boolean);
+    }, [ featureConfig ]);
+    const routePolicyTransitions: number = useAccessControlPolicyTransitions(routePolicies);
     const governanceConnectorCategories: GovernanceConnectorCategoryInterface[] = useSelector(
         (state: AppState) => state.governanceConnector.categories);
     const [ governanceConnectorsEvaluated, setGovernanceConnectorsEvaluated ] = useState<boolean>(false);
     const [ governanceConnectorRoutesAdded, setGovernanceConnectorRoutesAdded ] = useState<boolean>(false);
+    const [ governanceConnectorRoutes, setGovernanceConnectorRoutes ] = useState<RouteInterface[]>([]);
     const [ developRoutes ] = useState<RouteInterface[]>(getDeveloperViewRoutes());
     const [ filteredRoutes, setFilteredRoutes ] = useState<RouteInterface[]>(getAdminViewRoutes());
     const [
@@ -131,26 +151,48 @@ export const AdminView: FunctionComponent<AdminViewPropsInterface> = (
     useEffect(() => {
 
         // Allowed scopes is never empty. Wait until it's defined to filter the routes.
-        if (isEmpty(allowedScopes)) {
+        // Group and role policies are evaluated against the profile. Hence, wait until it's loaded as well.
+        if (isEmpty(allowedScopes) || isProfileInfoRequestLoading) {
             return;
         }
 
-        const routes: RouteInterface[] = CommonRouteUtils.sanitizeForUI(cloneDeep(filteredRoutes));
+        // Filter from the original routes since the outcome of the policies can change with the facts.
+        // The governance connector routes are added at runtime. Hence, they are retained from the state.
+        const enabledRoutes: RouteInterface[] = [
+            ...governanceConnectorRoutes,
+            ...CommonRouteUtils.filterEnabledRoutes<FeatureConfigInterface>(
+                getAdminViewRoutes(),
+                featureConfig,
+                allowedScopes)
+        ];
+        const routes: RouteInterface[] = CommonRouteUtils.sanitizeForUI(cloneDeep(enabledRoutes));
         const sanitizedDevelopRoutes: RouteInterface[] = CommonRouteUtils.sanitizeForUI(cloneDeep(developRoutes));
-        const controlledRoutes = AccessControlUtils.getAuthenticatedRoutes(routes, allowedScopes, featureConfig);
+        const controlledRoutes = AccessControlUtils.getAuthenticatedRoutes(routes, allowedScopes, featureConfig,
+            accessControlPolicyContext);
 
         setAccessControlledRoutes(controlledRoutes);
-        setFilteredRoutes(controlledRoutes);
+        // Routes which are not shown on the side panel. ex: edit pages, are retained unless their policy fails.
+        setFilteredRoutes(enabledRoutes.filter((route: RouteInterface) => {
+            return AccessControlUtils.isRoutePolicySatisfied(route, allowedScopes, featureConfig,
+                accessControlPolicyContext);
+        }));
 
         const tab: string = AccessControlUtils.getDisabledTab(
-            filteredRoutes, sanitizedDevelopRoutes, allowedScopes, featureConfig);
+            routes, sanitizedDevelopRoutes, allowedScopes, featureConfig, accessControlPolicyContext);
 
         if (tab === "MANAGE") {
             dispatch(setManageVisibility(false));
         } else if (tab === "DEVELOP") {
             dispatch(setDeveloperVisibility(false));
         }
-    }, [ allowedScopes ]);
+    }, [
+        allowedScopes,
+        accessControlPolicyContext,
+        featureConfig,
+        governanceConnectorRoutes,
+        isProfileInfoRequestLoading,
+        routePolicyTransitions
+    ]);
 
     /**
      * Listen to location changes and set the active route accordingly.
@@ -178,19 +220,12 @@ export const AdminView: FunctionComponent<AdminViewPropsInterface> = (
 
     useEffect(() => {
 
-        // Allowed scopes is never empty. Wait until it's defined to filter the routes.
+        // Allowed scopes is never empty. Wait until it's defined to load the profile.
+        // The routes are filtered along with the access control policies once the profile is loaded.
         if (isEmpty(allowedScopes)) {
             return;
         }
 
-        // Filter the routes and get only the enabled routes defined in the app config.
-        setFilteredRoutes(
-            CommonRouteUtils.filterEnabledRoutes<FeatureConfigInterface>(
-                getAdminViewRoutes(),
-                featureConfig,
-                allowedScopes)
-        );
-
         if (!isEmpty(profileInfo)) {
             return;
         }
@@ -222,10 +257,7 @@ export const AdminView: FunctionComponent<AdminViewPropsInterface> = (
 
         if (!governanceConnectorRoutesAdded) {
 
-            const filteredRoutesClone: RouteInterface[] = CommonRouteUtils.filterEnabledRoutes<FeatureConfigInterface>(
-                getAdminViewRoutes(),
-                featureConfig,
-                allowedScopes);
+            const connectorRoutes: RouteInterface[] = [];
 
             governanceConnectorCategories.map((category: GovernanceConnectorCategoryInterface, index: number) => {
                 let subCategoryExists = false;
@@ -239,7 +271,7 @@ export const AdminView: FunctionComponent<AdminViewPropsInterface> = (
                     // TODO: Implement sub category handling logic here.
                 }
 
-                filteredRoutesClone.unshift({
+                connectorRoutes.unshift({
                     category: "console:manage.features.sidePanel.categories.configurations",
                     component: lazy(() => import("../features/server-configurations/pages/governance-connectors")),
                     exact: true,
@@ -257,7 +289,14 @@ export const AdminView: FunctionComponent<AdminViewPropsInterface> = (
                 });
             });
 
-            setFilteredRoutes(filteredRoutesClone);
+            setFilteredRoutes([
+                ...connectorRoutes,
+                ...CommonRouteUtils.filterEnabledRoutes<FeatureConfigInterface>(
+                    getAdminViewRoutes(),
+                    featureConfig,
+                    allowedScopes)
+            ]);
+            setGovernanceConnectorRoutes(connectorRoutes);
             setGovernanceConnectorRoutesAdded(true);
             setGovernanceConnectorsEvaluated(true);
         }
@@ -379,7 +418,12 @@ export const AdminView: FunctionComponent<AdminViewPropsInterface> = (
     };
 
     return (
-        <AccessControlProvider allowedScopes={ allowedScopes } featureConfig={ featureConfig }>
+        <AccessControlProvider
+            allowedScopes={ allowedScopes }
+            featureConfig={ featureConfig }
+            policyContext={ accessControlPolicyContext }
+            isPolicyDebugEnabled={ config.ui.isAccessControlPolicyDebugEnabled }
+        >
             <DashboardLayoutSkeleton
                 alert={ (
                     <Alert
@@ -454,6 +498,7 @@ export const AdminView: FunctionComponent<AdminViewPropsInterface> = (
                         </Switch>
                     </Suspense>
                 </ErrorBoundary>
+                <AccessControlDebugPanel routes={ getAdminViewRoutes() }/>
             </DashboardLayoutSkeleton>
         </AccessControlProvider>
     );
@@ -16,7 +16,14 @@
  * under the License.
  */
 
-import { AccessControlProvider, AccessControlUtils } from "@wso2is/access-control";
+import {
+    AccessControlDebugPanel,
+    AccessControlPolicyContextInterface,
+    AccessControlPolicyInterface,
+    AccessControlProvider,
+    AccessControlUtils,
+    useAccessControlPolicyTransitions
+} from "@wso2is/access-control";
 import { AlertInterface, ChildRouteInterface, ProfileInfoInterface, RouteInterface } from "@wso2is/core/models";
 import { initializeAlertSystem } from "@wso2is/core/store";
 import { RouteUtils as CommonRouteUtils, CommonUtils } from "@wso2is/core/utils";
@@ -39,6 +46,7 @@ import React, {
     Suspense,
     SyntheticEvent,
     useEffect,
+    useMemo,
     useState
 } from "react";
 import { useTranslation } from "react-i18next";
@@ -100,11 +108,22 @@ export const DeveloperView: FunctionComponent<DeveloperViewPropsInterface> = (
 
     const config: ConfigReducerStateInterface = useSelector((state: AppState) => state.config);
     const profileInfo: ProfileInfoInterface = useSelector((state: AppState) => state.profile.profileInfo);
+    const isProfileInfoRequestLoading: boolean = useSelector(
+        (state: AppState) => state.loaders.isProfileInfoRequestLoading);
     const featureConfig: FeatureConfigInterface = useSelector((state: AppState) => state.config.ui.features);
     const alert: AlertInterface = useSelector((state: AppState) => state.global.alert);
     const alertSystem: System = useSelector((state: AppState) => state.global.alertSystem);
     const isAJAXTopLoaderVisible: boolean = useSelector((state: AppState) => state.global.isAJAXTopLoaderVisible);
     const allowedScopes: string = useSelector((state: AppState) => state?.auth?.scope);
+    const accessControlPolicyContext: AccessControlPolicyContextInterface = useMemo(() => {
+        return AppUtils.getAccessControlPolicyContext(config, profileInfo);
+    }, [ config, profileInfo ]);
+    const routePolicies: AccessControlPolicyInterface[] = useMemo(() => {
+        return [ ...getAdminViewRoutes(), ...getDeveloperViewRoutes() ]
+            .map((route: RouteInterface) => AccessControlUtils.getRoutePolicy(route, featureConfig))
+            .filter(Boolean);
+    }, [ featureConfig ]);
+    const routePolicyTransitions: number = useAccessControlPolicyTransitions(routePolicies);
     const [ manageRoutes ] = useState<RouteInterface[]>(getAdminViewRoutes());
     const [ filteredRoutes, setFilteredRoutes ] = useState<RouteInterface[]>(getDeveloperViewRoutes());
     const [
@@ -129,7 +148,8 @@ export const DeveloperView: FunctionComponent<DeveloperViewPropsInterface> = (
     useEffect(() => {
 
         // Allowed scopes is never empty. Wait until it's defined to filter the routes.
-        if (isEmpty(allowedScopes)) {
+        // Group and role policies are evaluated against the profile. Hence, wait until it's loaded as well.
+        if (isEmpty(allowedScopes) || isProfileInfoRequestLoading) {
             return;
         }
 
@@ -145,11 +165,12 @@ export const DeveloperView: FunctionComponent<DeveloperViewPropsInterface> = (
                     routes = routes.filter(route => route.id === "404");
         }
 
-        const controlledRoutes = AccessControlUtils.getAuthenticatedRoutes(routes, allowedScopes, featureConfig);
+        const controlledRoutes = AccessControlUtils.getAuthenticatedRoutes(routes, allowedScopes, featureConfig,
+            accessControlPolicyContext);
         const sanitizedManageRoutes: RouteInterface[] = CommonRouteUtils.sanitizeForUI(cloneDeep(manageRoutes));
 
         const tab: string = AccessControlUtils.getDisabledTab(
-            sanitizedManageRoutes, filteredRoutes, allowedScopes, featureConfig);
+            sanitizedManageRoutes, filteredRoutes, allowedScopes, featureConfig, accessControlPolicyContext);
 
         if (tab === "MANAGE") {
             dispatch(setManageVisibility(false));
@@ -162,8 +183,21 @@ export const DeveloperView: FunctionComponent<DeveloperViewPropsInterface> = (
 
         // Filter the routes and get only the enabled routes defined in the app config.
         setFilteredRoutes(controlledRoutes);
+    }, [
+        featureConfig,
+        getDeveloperViewRoutes,
+        allowedScopes,
+        accessControlPolicyContext,
+        isProfileInfoRequestLoading,
+        routePolicyTransitions
+    ]);
+
+    useEffect(() => {
 
-        if (!isEmpty(profileInfo)) {
+        // Allowed scopes is never empty. Wait until it's defined to load the profile.
+        // Loaded separately from the route filtering since a failed profile request would otherwise be retried
+        // every time the loading state changes.
+        if (isEmpty(allowedScopes) || !isEmpty(profileInfo)) {
             return;
         }
 
@@ -291,7 +325,12 @@ export const DeveloperView: FunctionComponent<DeveloperViewPropsInterface> = (
     };
 
     return (
-        <AccessControlProvider allowedScopes={ allowedScopes } featureConfig={ featureConfig }>
+        <AccessControlProvider
+            allowedScopes={ allowedScopes }
+            featureConfig={ featureConfig }
+            policyContext={ accessControlPolicyContext }
+            isPolicyDebugEnabled={ config.ui.isAccessControlPolicyDebugEnabled }
+        >
             <DashboardLayoutSkeleton
                 alert={ (
                     <Alert
@@ -366,6 +405,7 @@ export const DeveloperView: FunctionComponent<DeveloperViewPropsInterface> = (
                         </Switch>
                     </Suspense>
                 </ErrorBoundary>
+                <AccessControlDebugPanel routes={ getDeveloperViewRoutes() }/>
             </DashboardLayoutSkeleton>
         </AccessControlProvider>
     );
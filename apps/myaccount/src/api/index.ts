@@ -21,6 +21,7 @@ export * from "./change-password";
 export * from "./linked-accounts";
 export * from "./profile";
 export * from "./security-questions";
+export * from "./multi-factor-backup-code";
 export * from "./multi-factor-fido";
 export * from "./user-sessions";
 export * from "./multi-factor-totp";
@@ -0,0 +1,114 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { IdentityClient } from "@wso2/identity-oidc-js";
+import { HttpMethods } from "@wso2is/core/models";
+import { BackupCodesInterface, BackupCodesStatusInterface } from "../models";
+import { store } from "../store";
+
+/**
+ * Get an axios instance.
+ *
+ * @type {AxiosHttpClientInstance}
+ */
+const httpClient = IdentityClient.getInstance().httpRequest.bind(IdentityClient.getInstance());
+
+/**
+ * The action types of the backup code post endpoint
+ */
+enum PostBackupCodeActions {
+    INIT = "INIT",
+    REFRESH = "REFRESH"
+}
+
+/**
+ * Retrieve the backup codes status of the authenticated user.
+ *
+ * @return {Promise<BackupCodesStatusInterface>} a promise containing the status.
+ */
+export const getBackupCodesStatus = (): Promise<BackupCodesStatusInterface> => {
+    const requestConfig = {
+        headers: {
+            "Access-Control-Allow-Origin": store.getState().config.deployment.clientHost,
+            "Content-Type": "application/json"
+        },
+        method: HttpMethods.GET,
+        url: store.getState().config.endpoints.backupCode
+    };
+
+    return httpClient(requestConfig)
+        .then((response) => {
+            if (response.status !== 200) {
+                return Promise.reject(`An error occurred. The server returned ${response.status}`);
+            }
+            return Promise.resolve(response.data as BackupCodesStatusInterface);
+        })
+        .catch((error) => {
+            return Promise.reject(error);
+        });
+};
+
+/**
+ * Generate backup codes for the authenticated user.
+ *
+ * @return {Promise<BackupCodesInterface>} a promise containing the generated codes.
+ */
+export const initBackupCodes = (): Promise<BackupCodesInterface> => {
+    return postBackupCodeAction(PostBackupCodeActions.INIT);
+};
+
+/**
+ * Regenerate the backup codes of the authenticated user. Existing codes are invalidated.
+ *
+ * @return {Promise<BackupCodesInterface>} a promise containing the generated codes.
+ */
+export const refreshBackupCodes = (): Promise<BackupCodesInterface> => {
+    return postBackupCodeAction(PostBackupCodeActions.REFRESH);
+};
+
+/**
+ * Performs an action on the backup codes of the authenticated user.
+ *
+ * @param {PostBackupCodeActions} action - Action to perform.
+ * @return {Promise<BackupCodesInterface>} a promise containing the generated codes.
+ */
+const postBackupCodeAction = (action: PostBackupCodeActions): Promise<BackupCodesInterface> => {
+    const requestConfig = {
+        data: {
+            action
+        },
+        headers: {
+            "Access-Control-Allow-Origin": store.getState().config.deployment.clientHost,
+            "Content-Type": "application/json"
+        },
+        method: HttpMethods.POST,
+        url: store.getState().config.endpoints.backupCode
+    };
+
+    return httpClient(requestConfig)
+        .then((response) => {
+            if (response.status !== 200) {
+                return Promise.reject(`An error occurred. The server returned ${response.status}`);
+            }
+            return Promise.resolve(response.data as BackupCodesInterface);
+        })
+        .catch((error) => {
+            return Promise.reject(error);
+        });
+};
@@ -51,6 +51,21 @@ export const fetchUserSessions = (): Promise<any> => {
         });
 };
 
+/**
+ * Retrieves the `sid` claim of the ID token which identifies the current session.
+ *
+ * @return {Promise<string>} A promise containing the claim or undefined if it is not available.
+ */
+export const fetchCurrentSessionId = (): Promise<string> => {
+    return IdentityClient.getInstance().getDecodedIDToken()
+        .then((idToken) => {
+            return idToken?.sid;
+        })
+        .catch(() => {
+            return undefined;
+        });
+};
+
 /**
  * Terminates a user session.
  *
@@ -0,0 +1,255 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import { GenericIcon } from "@wso2is/react-components";
+import React, { PropsWithChildren, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button, Grid, Icon, List, Modal, Popup } from "semantic-ui-react";
+import { getBackupCodesStatus, initBackupCodes, refreshBackupCodes } from "../../../api";
+import { getMFAIcons } from "../../../configs";
+import { AlertInterface, AlertLevels, BackupCodesInterface, BackupCodesStatusInterface } from "../../../models";
+import { BackupCodeList } from "../backup-code-list";
+
+/**
+ * Property types for the backup code component.
+ * Also see {@link BackupCodeAuthenticator.defaultProps}
+ */
+interface BackupCodeProps extends TestableComponentInterface {
+    onAlertFired: (alert: AlertInterface) => void;
+}
+
+/**
+ * Backup code authenticator. Shows the number of unused codes and lets the user regenerate them.
+ *
+ * @param {React.PropsWithChildren<BackupCodeProps>} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const BackupCodeAuthenticator: React.FunctionComponent<BackupCodeProps> = (
+    props: PropsWithChildren<BackupCodeProps>
+): React.ReactElement => {
+
+    const {
+        onAlertFired,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const [ remainingBackupCodes, setRemainingBackupCodes ] = useState<number>(null);
+    const [ backupCodes, setBackupCodes ] = useState<string[]>([]);
+    const [ openWizard, setOpenWizard ] = useState<boolean>(false);
+    const [ isGenerating, setIsGenerating ] = useState<boolean>(false);
+
+    const { t } = useTranslation();
+
+    const translateKey = "myAccount:components.mfa.backupCode.";
+
+    useEffect(() => {
+        getRemainingBackupCodes();
+    }, []);
+
+    /**
+     * Reset the generated codes when the modal is closed. They should not be shown again.
+     */
+    useEffect(() => {
+        if (!openWizard) {
+            setBackupCodes([]);
+        }
+    }, [ openWizard ]);
+
+    /**
+     * Retrieves the number of unused backup codes.
+     */
+    const getRemainingBackupCodes = (): void => {
+        getBackupCodesStatus()
+            .then((response: BackupCodesStatusInterface) => {
+                setRemainingBackupCodes(response?.remainingBackupCodes ?? 0);
+            })
+            .catch(() => {
+                // Backup codes are not generated for the user yet.
+                setRemainingBackupCodes(0);
+            });
+    };
+
+    /**
+     * Generates a new set of backup codes. Existing codes are invalidated.
+     */
+    const generateBackupCodes = (): void => {
+        setIsGenerating(true);
+
+        (remainingBackupCodes > 0 ? refreshBackupCodes() : initBackupCodes())
+            .then((response: BackupCodesInterface) => {
+                setBackupCodes(response.backupCodes);
+                setRemainingBackupCodes(response.backupCodes.length);
+            })
+            .catch((errorMessage) => {
+                onAlertFired({
+                    description: t(translateKey + "notifications.generateError.error.description", {
+                        error: errorMessage
+                    }),
+                    level: AlertLevels.ERROR,
+                    message: t(translateKey + "notifications.generateError.error.message")
+                });
+            })
+            .finally(() => {
+                setIsGenerating(false);
+            });
+    };
+
+    /**
+     * This renders the backup code generation modal.
+     */
+    const backupCodeWizard = (): JSX.Element => {
+        return (
+            <Modal
+                data-testid={ `${ testId }-modal` }
+                dimmer="blurring"
+                size="tiny"
+                open={ openWizard }
+                onClose={ () => { setOpenWizard(false); } }
+            >
+                <Modal.Header className="wizard-header">
+                    { t(translateKey + "modals.heading") }
+                </Modal.Header>
+                <Modal.Content data-testid={ `${ testId }-modal-content` } scrolling>
+                    {
+                        backupCodes.length > 0
+                            ? <BackupCodeList backupCodes={ backupCodes } data-testid={ `${ testId }-list` }/>
+                            : (
+                                <p>
+                                    {
+                                        remainingBackupCodes > 0
+                                            ? t(translateKey + "modals.regenerate")
+                                            : t(translateKey + "modals.generate")
+                                    }
+                                </p>
+                            )
+                    }
+                </Modal.Content>
+                <Modal.Actions data-testid={ `${ testId }-modal-actions` }>
+                    {
+                        backupCodes.length > 0
+                            ? (
+                                <Button
+                                    primary
+                                    onClick={ () => { setOpenWizard(false); } }
+                                    data-testid={ `${ testId }-modal-actions-done-button` }
+                                >
+                                    { t("common:done") }
+                                </Button>
+                            )
+                            : (
+                                <>
+                                    <Button
+                                        className="link-button"
+                                        onClick={ () => { setOpenWizard(false); } }
+                                        data-testid={ `${ testId }-modal-actions-cancel-button` }
+                                    >
+                                        { t("common:cancel") }
+                                    </Button>
+                                    <Button
+                                        primary
+                                        loading={ isGenerating }
+                                        disabled={ isGenerating }
+                                        onClick={ generateBackupCodes }
+                                        data-testid={ `${ testId }-modal-actions-primary-button` }
+                                    >
+                                        { t(translateKey + "actions.generate") }
+                                    </Button>
+                                </>
+                            )
+                    }
+                </Modal.Actions>
+            </Modal>
+        );
+    };
+
+    return (
+        <>
+            { backupCodeWizard() }
+            <Grid padded={ true } data-testid={ testId }>
+                <Grid.Row columns={ 2 }>
+                    <Grid.Column width={ 1 } className="first-column">
+                        <List.Content floated="left">
+                            <GenericIcon
+                                icon={ getMFAIcons().keyboard }
+                                size="mini"
+                                twoTone={ true }
+                                transparent={ true }
+                                square={ true }
+                                rounded={ true }
+                                relaxed={ true }
+                            />
+                        </List.Content>
+                    </Grid.Column>
+                    <Grid.Column width={ 12 } className="first-column">
+                        <List.Content>
+                            <List.Header>
+                                { t(translateKey + "heading") }
+                            </List.Header>
+                            <List.Description>
+                                { t(translateKey + "description") }
+                                {
+                                    remainingBackupCodes !== null && (
+                                        <>
+                                            <br/>
+                                            {
+                                                remainingBackupCodes > 0
+                                                    ? t(translateKey + "remaining", { count: remainingBackupCodes })
+                                                    : t(translateKey + "notGenerated")
+                                            }
+                                        </>
+                                    )
+                                }
+                            </List.Description>
+                        </List.Content>
+                    </Grid.Column>
+                    <Grid.Column width={ 3 } className="last-column">
+                        <List.Content floated="right">
+                            <Popup
+                                trigger={
+                                    (
+                                        <Icon
+                                            link={ true }
+                                            onClick={ () => { setOpenWizard(true); } }
+                                            className="list-icon"
+                                            size="small"
+                                            color="grey"
+                                            name="redo"
+                                            data-testid={ `${ testId }-regenerate-button` }
+                                        />
+                                    )
+                                }
+                                content={ t(translateKey + "hint") }
+                                inverted
+                            />
+                        </List.Content>
+                    </Grid.Column>
+                </Grid.Row>
+            </Grid>
+        </>
+    );
+};
+
+/**
+ * Default properties for {@link BackupCodeAuthenticator}
+ * See type definitions in {@link BackupCodeProps}
+ */
+BackupCodeAuthenticator.defaultProps = {
+    "data-testid": "backup-code-authenticator"
+};
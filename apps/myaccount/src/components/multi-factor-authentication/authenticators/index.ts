@@ -16,6 +16,7 @@
  * under the License.
  */
 
+export * from "./backup-code-authenticator";
 export * from "./fido-authenticator";
 export * from "./smsotp-authenticator";
 export * from "./totp-authenticator";
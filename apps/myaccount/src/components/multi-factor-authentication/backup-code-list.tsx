@@ -0,0 +1,146 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import React, { FunctionComponent, ReactElement } from "react";
+import { useTranslation } from "react-i18next";
+import { Button, Grid, Message, Segment } from "semantic-ui-react";
+
+/**
+ * Prop types for the backup code list component.
+ */
+interface BackupCodeListProps extends TestableComponentInterface {
+    /**
+     * One-time backup codes.
+     */
+    backupCodes: string[];
+}
+
+/**
+ * Lists the generated backup codes with the options to download and print them.
+ *
+ * @param {BackupCodeListProps} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const BackupCodeList: FunctionComponent<BackupCodeListProps> = (
+    props: BackupCodeListProps
+): ReactElement => {
+
+    const {
+        backupCodes,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const translateKey = "myAccount:components.mfa.backupCode.";
+
+    /**
+     * Builds the plain text representation of the backup codes.
+     *
+     * @return {string} Backup codes as text.
+     */
+    const getBackupCodesText = (): string => {
+        return [
+            t(translateKey + "list.heading"),
+            t(translateKey + "list.description"),
+            "",
+            ...backupCodes
+        ].join("\n");
+    };
+
+    /**
+     * Downloads the backup codes as a text file.
+     */
+    const downloadBackupCodes = (): void => {
+        const blob = new Blob([ getBackupCodesText() ], { type: "text/plain" });
+        const url = window.URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.style.display = "none";
+        a.href = url;
+        a.download = "backup-codes.txt";
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        window.URL.revokeObjectURL(url);
+    };
+
+    /**
+     * Opens the print dialog with only the backup codes on the page.
+     */
+    const printBackupCodes = (): void => {
+        const printWindow: Window = window.open("", "_blank", "width=600,height=600");
+
+        if (!printWindow) {
+            return;
+        }
+
+        const content = printWindow.document.createElement("pre");
+        content.textContent = getBackupCodesText();
+
+        printWindow.document.title = t(translateKey + "list.heading");
+        printWindow.document.body.appendChild(content);
+        printWindow.focus();
+        printWindow.print();
+        printWindow.close();
+    };
+
+    return (
+        <Segment basic className="pl-0 pr-0" data-testid={ testId }>
+            <Message
+                warning
+                header={ t(translateKey + "list.heading") }
+                content={ t(translateKey + "list.description") }
+            />
+            <Segment secondary>
+                <Grid columns={ 2 } textAlign="center" data-testid={ `${ testId }-codes` }>
+                    {
+                        backupCodes.map((code: string) => (
+                            <Grid.Column key={ code } className="pt-2 pb-2">
+                                <code>{ code }</code>
+                            </Grid.Column>
+                        ))
+                    }
+                </Grid>
+            </Segment>
+            <Button
+                basic
+                icon="download"
+                content={ t("common:download") }
+                onClick={ downloadBackupCodes }
+                data-testid={ `${ testId }-download-button` }
+            />
+            <Button
+                basic
+                icon="print"
+                content={ t(translateKey + "list.print") }
+                onClick={ printBackupCodes }
+                data-testid={ `${ testId }-print-button` }
+            />
+        </Segment>
+    );
+};
+
+/**
+ * Default properties of {@link BackupCodeList}
+ * See type definitions in {@link BackupCodeListProps}
+ */
+BackupCodeList.defaultProps = {
+    "data-testid": "backup-code-list"
+};
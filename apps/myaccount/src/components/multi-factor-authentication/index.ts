@@ -17,4 +17,6 @@
  */
 
 export * from "./authenticators";
+export * from "./backup-code-list";
+export * from "./mfa-setup-wizard";
 export * from "./multi-factor-authentication";
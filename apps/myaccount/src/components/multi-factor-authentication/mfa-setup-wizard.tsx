@@ -0,0 +1,479 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import { Field, Forms, useTrigger } from "@wso2is/forms";
+import QRCode from "qrcode.react";
+import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button, Divider, Form, Header, Message, Modal, Radio, Segment } from "semantic-ui-react";
+import { BackupCodeList } from "./backup-code-list";
+import {
+    getBackupCodesStatus,
+    initBackupCodes,
+    initTOTPCode,
+    refreshBackupCodes,
+    refreshTOTPCode,
+    startFidoFlow,
+    validateTOTPCode
+} from "../../api";
+import {
+    AlertInterface,
+    AlertLevels,
+    BackupCodesInterface,
+    BackupCodesStatusInterface,
+    MultiFactorTypes
+} from "../../models";
+
+/**
+ * Steps of the multi-factor setup wizard.
+ */
+enum WizardSteps {
+    SELECT_FACTOR,
+    ENROLL,
+    BACKUP_CODES
+}
+
+/**
+ * Prop types for the multi-factor setup wizard component.
+ */
+interface MFASetupWizardProps extends TestableComponentInterface {
+    /**
+     * Factors the user can choose from.
+     */
+    factors: MultiFactorTypes[];
+    /**
+     * Callback to be triggered when the wizard is closed.
+     *
+     * @param {boolean} isEnrolled - Whether a factor was enrolled before closing.
+     */
+    onClose: (isEnrolled: boolean) => void;
+    onAlertFired: (alert: AlertInterface) => void;
+    open: boolean;
+}
+
+/**
+ * Guides the user through picking a second factor, enrolling and verifying it,
+ * and generating one-time backup codes.
+ *
+ * @param {MFASetupWizardProps} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const MFASetupWizard: FunctionComponent<MFASetupWizardProps> = (
+    props: MFASetupWizardProps
+): ReactElement => {
+
+    const {
+        factors,
+        onAlertFired,
+        onClose,
+        open,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ step, setStep ] = useState<WizardSteps>(WizardSteps.SELECT_FACTOR);
+    const [ selectedFactor, setSelectedFactor ] = useState<MultiFactorTypes>(null);
+    const [ qrCode, setQrCode ] = useState<string>("");
+    const [ isVerificationError, setIsVerificationError ] = useState<boolean>(false);
+    const [ isEnrolled, setIsEnrolled ] = useState<boolean>(false);
+    const [ isRequestInProgress, setIsRequestInProgress ] = useState<boolean>(false);
+    const [ remainingBackupCodes, setRemainingBackupCodes ] = useState<number>(0);
+    const [ backupCodes, setBackupCodes ] = useState<string[]>([]);
+    const [ submitVerification, setSubmitVerification ] = useTrigger();
+
+    const translateKey = "myAccount:components.mfa.setupWizard.";
+
+    /**
+     * Reset the wizard when it's opened.
+     */
+    useEffect(() => {
+        if (!open) {
+            return;
+        }
+
+        setStep(WizardSteps.SELECT_FACTOR);
+        setSelectedFactor(factors.length === 1 ? factors[ 0 ] : null);
+        setQrCode("");
+        setIsVerificationError(false);
+        setIsEnrolled(false);
+        setBackupCodes([]);
+
+        getBackupCodesStatus()
+            .then((response: BackupCodesStatusInterface) => {
+                setRemainingBackupCodes(response?.remainingBackupCodes ?? 0);
+            })
+            .catch(() => {
+                // Backup codes are not generated for the user yet.
+                setRemainingBackupCodes(0);
+            });
+    }, [ open ]);
+
+    /**
+     * Starts the enrollment of the selected factor.
+     */
+    const startEnrollment = (): void => {
+        setIsVerificationError(false);
+
+        if (selectedFactor !== MultiFactorTypes.TOTP) {
+            setStep(WizardSteps.ENROLL);
+
+            return;
+        }
+
+        setIsRequestInProgress(true);
+
+        initTOTPCode()
+            .then((response) => {
+                setQrCode(window.atob(response.data.qrCodeUrl));
+                setStep(WizardSteps.ENROLL);
+            })
+            .catch((errorMessage) => {
+                onAlertFired({
+                    description: t("myAccount:components.mfa.authenticatorApp.notifications.initError.error" +
+                        ".description", { error: errorMessage }),
+                    level: AlertLevels.ERROR,
+                    message: t("myAccount:components.mfa.authenticatorApp.notifications.initError.error.message")
+                });
+            })
+            .finally(() => {
+                setIsRequestInProgress(false);
+            });
+    };
+
+    /**
+     * Refreshes the TOTP QR code.
+     */
+    const refreshQRCode = (): void => {
+        refreshTOTPCode()
+            .then((response) => {
+                setQrCode(window.atob(response.data.qrCodeUrl));
+            })
+            .catch((errorMessage) => {
+                onAlertFired({
+                    description: t("myAccount:components.mfa.authenticatorApp.notifications.refreshError.error" +
+                        ".description", { error: errorMessage }),
+                    level: AlertLevels.ERROR,
+                    message: t("myAccount:components.mfa.authenticatorApp.notifications.refreshError.error.message")
+                });
+            });
+    };
+
+    /**
+     * Verifies the TOTP code entered by the user.
+     *
+     * @param {string} code - Verification code.
+     */
+    const verifyTOTPCode = (code: string): void => {
+        setIsRequestInProgress(true);
+
+        validateTOTPCode(code)
+            .then((response) => {
+                if (!response.data.isValid) {
+                    setIsVerificationError(true);
+
+                    return;
+                }
+
+                completeEnrollment();
+            })
+            .catch(() => {
+                setIsVerificationError(true);
+            })
+            .finally(() => {
+                setIsRequestInProgress(false);
+            });
+    };
+
+    /**
+     * Registers a FIDO device. The device is verified by the browser during the registration.
+     */
+    const registerFIDODevice = (): void => {
+        setIsVerificationError(false);
+        setIsRequestInProgress(true);
+
+        startFidoFlow()
+            .then(() => {
+                completeEnrollment();
+            })
+            .catch(() => {
+                setIsVerificationError(true);
+            })
+            .finally(() => {
+                setIsRequestInProgress(false);
+            });
+    };
+
+    /**
+     * Moves to the backup codes step once the factor is enrolled.
+     */
+    const completeEnrollment = (): void => {
+        setIsEnrolled(true);
+        setIsVerificationError(false);
+        setStep(WizardSteps.BACKUP_CODES);
+    };
+
+    /**
+     * Generates the backup codes. Existing codes are invalidated.
+     */
+    const generateBackupCodes = (): void => {
+        setIsRequestInProgress(true);
+
+        (remainingBackupCodes > 0 ? refreshBackupCodes() : initBackupCodes())
+            .then((response: BackupCodesInterface) => {
+                setBackupCodes(response.backupCodes);
+            })
+            .catch((errorMessage) => {
+                onAlertFired({
+                    description: t("myAccount:components.mfa.backupCode.notifications.generateError.error" +
+                        ".description", { error: errorMessage }),
+                    level: AlertLevels.ERROR,
+                    message: t("myAccount:components.mfa.backupCode.notifications.generateError.error.message")
+                });
+            })
+            .finally(() => {
+                setIsRequestInProgress(false);
+            });
+    };
+
+    /**
+     * Renders the factor selection step.
+     */
+    const renderSelectFactor = (): JSX.Element => (
+        <Form data-testid={ `${ testId }-factors` }>
+            {
+                factors.map((factor: MultiFactorTypes) => (
+                    <Form.Field key={ factor }>
+                        <Radio
+                            label={ t(translateKey + "factors." + factor + ".heading") }
+                            name="factor"
+                            value={ factor }
+                            checked={ selectedFactor === factor }
+                            onChange={ () => setSelectedFactor(factor) }
+                            data-testid={ `${ testId }-factor-${ factor }` }
+                        />
+                        <p className="ml-4 pl-2">{ t(translateKey + "factors." + factor + ".description") }</p>
+                    </Form.Field>
+                ))
+            }
+        </Form>
+    );
+
+    /**
+     * Renders the enrollment step of the selected factor.
+     */
+    const renderEnroll = (): JSX.Element => {
+        if (selectedFactor === MultiFactorTypes.FIDO) {
+            return (
+                <>
+                    {
+                        isVerificationError && (
+                            <Message error data-testid={ `${ testId }-fido-error` }>
+                                { t("myAccount:components.mfa.fido.modals.deviceRegistrationErrorModal.description") }
+                            </Message>
+                        )
+                    }
+                    <p>{ t(translateKey + "steps.enroll.fido") }</p>
+                </>
+            );
+        }
+
+        return (
+            <>
+                <h5 className="text-center">{ t("myAccount:components.mfa.authenticatorApp.modals.scan.heading") }</h5>
+                <Segment textAlign="center" basic className="qr-code">
+                    <QRCode value={ qrCode } data-testid={ `${ testId }-qrcode` }/>
+                    <Divider hidden/>
+                    <p className="link" onClick={ refreshQRCode } data-testid={ `${ testId }-qrcode-refresh` }>
+                        { t("myAccount:components.mfa.authenticatorApp.modals.scan.generate") }
+                    </p>
+                </Segment>
+                {
+                    isVerificationError && (
+                        <Message error data-testid={ `${ testId }-totp-error` }>
+                            { t("myAccount:components.mfa.authenticatorApp.modals.verify.error") }
+                        </Message>
+                    )
+                }
+                <Forms
+                    onSubmit={ (values: Map<string, string>) => verifyTOTPCode(values.get("code")) }
+                    submitState={ submitVerification }
+                >
+                    <Field
+                        autoFocus={ true }
+                        name="code"
+                        label={ t("myAccount:components.mfa.authenticatorApp.modals.verify.label") }
+                        placeholder={ t("myAccount:components.mfa.authenticatorApp.modals.verify.placeholder") }
+                        type="text"
+                        required={ true }
+                        requiredErrorMessage={
+                            t("myAccount:components.mfa.authenticatorApp.modals.verify.requiredError")
+                        }
+                        data-testid={ `${ testId }-totp-code` }
+                    />
+                </Forms>
+            </>
+        );
+    };
+
+    /**
+     * Renders the backup codes step.
+     */
+    const renderBackupCodes = (): JSX.Element => {
+        if (backupCodes.length > 0) {
+            return <BackupCodeList backupCodes={ backupCodes } data-testid={ `${ testId }-backup-codes` }/>;
+        }
+
+        return (
+            <>
+                <Message success content={ t(translateKey + "steps.backupCodes.enrolled") }/>
+                <p>{ t(translateKey + "steps.backupCodes.description") }</p>
+                {
+                    remainingBackupCodes > 0 && (
+                        <Message warning content={ t("myAccount:components.mfa.backupCode.modals.regenerate") }/>
+                    )
+                }
+            </>
+        );
+    };
+
+    /**
+     * Renders the actions of the current step.
+     */
+    const renderActions = (): JSX.Element => {
+        switch (step) {
+            case WizardSteps.SELECT_FACTOR:
+                return (
+                    <>
+                        <Button className="link-button" onClick={ () => onClose(isEnrolled) }>
+                            { t("common:cancel") }
+                        </Button>
+                        <Button
+                            primary
+                            disabled={ !selectedFactor || isRequestInProgress }
+                            loading={ isRequestInProgress }
+                            onClick={ startEnrollment }
+                            data-testid={ `${ testId }-continue-button` }
+                        >
+                            { t("common:continue") }
+                        </Button>
+                    </>
+                );
+            case WizardSteps.ENROLL:
+                return (
+                    <>
+                        <Button className="link-button" onClick={ () => setStep(WizardSteps.SELECT_FACTOR) }>
+                            { t("common:back") }
+                        </Button>
+                        <Button
+                            primary
+                            disabled={ isRequestInProgress }
+                            loading={ isRequestInProgress }
+                            onClick={ () => {
+                                if (selectedFactor === MultiFactorTypes.FIDO) {
+                                    registerFIDODevice();
+
+                                    return;
+                                }
+
+                                setSubmitVerification();
+                            } }
+                            data-testid={ `${ testId }-verify-button` }
+                        >
+                            {
+                                selectedFactor === MultiFactorTypes.FIDO
+                                    ? t("common:register")
+                                    : t("common:verify")
+                            }
+                        </Button>
+                    </>
+                );
+            case WizardSteps.BACKUP_CODES:
+                return backupCodes.length > 0
+                    ? (
+                        <Button primary onClick={ () => onClose(isEnrolled) } data-testid={ `${ testId }-done-button` }>
+                            { t("common:done") }
+                        </Button>
+                    )
+                    : (
+                        <>
+                            <Button className="link-button" onClick={ () => onClose(isEnrolled) }>
+                                { t("common:skip") }
+                            </Button>
+                            <Button
+                                primary
+                                disabled={ isRequestInProgress }
+                                loading={ isRequestInProgress }
+                                onClick={ generateBackupCodes }
+                                data-testid={ `${ testId }-generate-button` }
+                            >
+                                { t("myAccount:components.mfa.backupCode.actions.generate") }
+                            </Button>
+                        </>
+                    );
+        }
+    };
+
+    /**
+     * Resolves the heading of the current step.
+     */
+    const resolveStepHeading = (): string => {
+        switch (step) {
+            case WizardSteps.SELECT_FACTOR:
+                return t(translateKey + "steps.selectFactor.heading");
+            case WizardSteps.ENROLL:
+                return t(translateKey + "factors." + selectedFactor + ".heading");
+            case WizardSteps.BACKUP_CODES:
+                return t(translateKey + "steps.backupCodes.heading");
+        }
+    };
+
+    return (
+        <Modal
+            data-testid={ testId }
+            dimmer="blurring"
+            size="tiny"
+            open={ open }
+            onClose={ () => onClose(isEnrolled) }
+            closeOnDimmerClick={ false }
+        >
+            <Modal.Header className="wizard-header">
+                { t(translateKey + "heading") }
+            </Modal.Header>
+            <Modal.Content data-testid={ `${ testId }-content` } scrolling>
+                <Header as="h4">{ resolveStepHeading() }</Header>
+                { step === WizardSteps.SELECT_FACTOR && renderSelectFactor() }
+                { step === WizardSteps.ENROLL && renderEnroll() }
+                { step === WizardSteps.BACKUP_CODES && renderBackupCodes() }
+            </Modal.Content>
+            <Modal.Actions data-testid={ `${ testId }-actions` }>
+                { renderActions() }
+            </Modal.Actions>
+        </Modal>
+    );
+};
+
+/**
+ * Default properties of {@link MFASetupWizard}
+ * See type definitions in {@link MFASetupWizardProps}
+ */
+MFASetupWizard.defaultProps = {
+    "data-testid": "mfa-setup-wizard"
+};
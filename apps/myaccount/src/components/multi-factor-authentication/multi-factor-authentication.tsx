@@ -18,13 +18,19 @@
 
 import { hasRequiredScopes, isFeatureEnabled } from "@wso2is/core/helpers";
 import { SBACInterface, TestableComponentInterface } from "@wso2is/core/models";
-import React from "react";
+import React, { useState } from "react";
 import { useTranslation } from "react-i18next";
 import { useSelector } from "react-redux";
 import { List } from "semantic-ui-react";
-import { FIDOAuthenticator, SMSOTPAuthenticator, TOTPAuthenticator } from "./authenticators";
+import {
+    BackupCodeAuthenticator,
+    FIDOAuthenticator,
+    SMSOTPAuthenticator,
+    TOTPAuthenticator
+} from "./authenticators";
+import { MFASetupWizard } from "./mfa-setup-wizard";
 import { AppConstants } from "../../constants";
-import { AlertInterface, FeatureConfigInterface } from "../../models";
+import { AlertInterface, FeatureConfigInterface, MultiFactorTypes } from "../../models";
 import { AppState } from "../../store";
 import { SettingsSection } from "../shared";
 
@@ -48,12 +54,49 @@ export const MultiFactorAuthentication: React.FunctionComponent<MfaProps> = (pro
     const allowedScopes: string = useSelector((state: AppState) => state?.authenticationInformation?.scope);
     const isReadOnlyUser = useSelector((state: AppState) => state.authenticationInformation.profileInfo.isReadOnly);
 
+    const [ isSetupWizardOpen, setIsSetupWizardOpen ] = useState<boolean>(false);
+    const [ enrollmentCount, setEnrollmentCount ] = useState<number>(0);
+
+    const setupWizardFactors: MultiFactorTypes[] = hasRequiredScopes(featureConfig?.security,
+        featureConfig?.security?.scopes?.read, allowedScopes)
+        ? [
+            isFeatureEnabled(featureConfig?.security, AppConstants.FEATURE_DICTIONARY.get("SECURITY_MFA_TOTP"))
+                && MultiFactorTypes.TOTP,
+            isFeatureEnabled(featureConfig?.security, AppConstants.FEATURE_DICTIONARY.get("SECURITY_MFA_FIDO"))
+                && MultiFactorTypes.FIDO
+        ].filter(Boolean)
+        : [];
+
+    /**
+     * Handles the setup wizard close. The authenticators are re-mounted to reflect the new enrollments.
+     *
+     * @param {boolean} isEnrolled - Whether a factor was enrolled.
+     */
+    const handleSetupWizardClose = (isEnrolled: boolean): void => {
+        setIsSetupWizardOpen(false);
+
+        if (isEnrolled) {
+            setEnrollmentCount(enrollmentCount + 1);
+        }
+    };
+
     return (
         <SettingsSection
             data-testid={ `${testId}-settings-section` }
             description={ t("myAccount:sections.mfa.description") }
             header={ t("myAccount:sections.mfa.heading") }
+            onPrimaryActionClick={ () => setIsSetupWizardOpen(true) }
+            primaryAction={ t("myAccount:sections.mfa.actionTitles.setup") }
+            primaryActionIcon="shield alternate"
+            showActionBar={ setupWizardFactors.length > 0 }
         >
+            <MFASetupWizard
+                factors={ setupWizardFactors }
+                open={ isSetupWizardOpen }
+                onClose={ handleSetupWizardClose }
+                onAlertFired={ onAlertFired }
+                data-testid={ `${testId}-setup-wizard` }
+            />
             <List
                 divided={ true }
                 verticalAlign="middle"
@@ -80,7 +123,7 @@ export const MultiFactorAuthentication: React.FunctionComponent<MfaProps> = (pro
                         AppConstants.FEATURE_DICTIONARY.get("SECURITY_MFA_FIDO")
                     ) ? (
                         <List.Item className="inner-list-item">
-                            <FIDOAuthenticator onAlertFired={ onAlertFired } />
+                            <FIDOAuthenticator key={ enrollmentCount } onAlertFired={ onAlertFired } />
                         </List.Item>
                     ) : null }
 
@@ -93,6 +136,16 @@ export const MultiFactorAuthentication: React.FunctionComponent<MfaProps> = (pro
                             <TOTPAuthenticator onAlertFired={ onAlertFired } />
                         </List.Item>
                     ) : null }
+
+                { hasRequiredScopes(featureConfig?.security, featureConfig?.security?.scopes?.read, allowedScopes) &&
+                    isFeatureEnabled(
+                        featureConfig?.security,
+                        AppConstants.FEATURE_DICTIONARY.get("SECURITY_MFA_BACKUP_CODE")
+                    ) ? (
+                        <List.Item className="inner-list-item">
+                            <BackupCodeAuthenticator key={ enrollmentCount } onAlertFired={ onAlertFired } />
+                        </List.Item>
+                    ) : null }
             </List>
         </SettingsSection>
     );
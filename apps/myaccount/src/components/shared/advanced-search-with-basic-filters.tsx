@@ -16,8 +16,12 @@
  * under the License.
  */
 
-import { TestableComponentInterface } from "@wso2is/core/models";
-import { SearchUtils } from "@wso2is/core/utils";
+import {
+    SCIMFilterComparisonNodeInterface,
+    SearchQueryValidationResultInterface,
+    TestableComponentInterface
+} from "@wso2is/core/models";
+import { SCIMFilterUtils, SearchUtils } from "@wso2is/core/utils";
 import { DropdownChild, Field, Forms } from "@wso2is/forms";
 import { AdvancedSearch, AdvancedSearchPropsInterface, LinkButton, PrimaryButton } from "@wso2is/react-components";
 import React, { FunctionComponent, ReactElement, useState } from "react";
@@ -147,6 +151,7 @@ export const AdvancedSearchWithBasicFilters: FunctionComponent<AdvancedSearchWit
 
     const [ isFormSubmitted, setIsFormSubmitted ] = useState(false);
     const [ externalSearchQuery, setExternalSearchQuery ] = useState("");
+    const [ searchQueryError, setSearchQueryError ] = useState<string>(null);
 
     /**
      * Handles the form submit.
@@ -154,13 +159,16 @@ export const AdvancedSearchWithBasicFilters: FunctionComponent<AdvancedSearchWit
      * @param {Map<string, string | string[]>} values - Form values.
      */
     const handleFormSubmit = (values: Map<string, string | string[]>): void => {
-        const query = values.get(FILTER_ATTRIBUTE_FIELD_IDENTIFIER)
-            + " "
-            + values.get(FILTER_CONDITION_FIELD_IDENTIFIER)
-            + " "
-            + values.get(FILTER_VALUES_FIELD_IDENTIFIER);
+        // Values are kept un-quoted to retain the filter format expected by the existing APIs.
+        const query: string = SCIMFilterUtils.serialize(SCIMFilterUtils.comparison(
+            values.get(FILTER_ATTRIBUTE_FIELD_IDENTIFIER) as string,
+            values.get(FILTER_CONDITION_FIELD_IDENTIFIER) as SCIMFilterComparisonNodeInterface[ "operator" ],
+            values.get(FILTER_VALUES_FIELD_IDENTIFIER) as string,
+            false
+        ));
 
         setExternalSearchQuery(query);
+        setSearchQueryError(null);
         onFilter(query);
         setIsFormSubmitted(true);
     };
@@ -173,11 +181,29 @@ export const AdvancedSearchWithBasicFilters: FunctionComponent<AdvancedSearchWit
      */
     const handleSearchQuerySubmit = (processQuery: boolean, query: string): void => {
         if (!processQuery) {
+            setSearchQueryError(null);
             onFilter(query);
             return;
         }
 
-        onFilter(SearchUtils.buildSearchQuery(query));
+        // Validate the query before it hits the server. Multi clause filters are normalized and
+        // only the attributes offered in the basic filters are allowed.
+        const supportedAttributes: string[] = filterAttributeOptions?.length > 0
+            ? filterAttributeOptions.map((option: DropdownChild) => option.value)
+            : undefined;
+        const result: SearchQueryValidationResultInterface = SearchUtils.validateSearchQuery(query,
+            supportedAttributes);
+
+        if (!result.valid) {
+            setSearchQueryError(t("myAccount:components.advancedSearch.hints.querySearch.invalid", {
+                position: result.position
+            }));
+
+            return;
+        }
+
+        setSearchQueryError(null);
+        onFilter(result.query);
     };
 
     /**
@@ -232,6 +258,7 @@ export const AdvancedSearchWithBasicFilters: FunctionComponent<AdvancedSearchWit
             placeholder={ placeholder }
             resetSubmittedState={ handleResetSubmittedState }
             searchOptionsHeader={ t("myAccount:components.advancedSearch.options.header") }
+            searchQueryError={ searchQueryError }
             externalSearchQuery={ externalSearchQuery }
             submitted={ isFormSubmitted }
             dropdownPosition={ dropdownPosition }
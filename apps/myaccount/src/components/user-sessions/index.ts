@@ -16,6 +16,7 @@
  * under the License.
  */
 
+export * from "./user-session-device-group";
 export * from "./user-sessions";
 export * from "./user-sessions-edit";
 export * from "./user-sessions-list";
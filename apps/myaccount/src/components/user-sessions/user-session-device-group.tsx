@@ -0,0 +1,194 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TestableComponentInterface } from "@wso2is/core/models";
+import moment from "moment";
+import React, { FunctionComponent, MouseEvent, ReactElement, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button, Feed, Header, Icon, Label, Message } from "semantic-ui-react";
+import { UserSessionsList } from "./user-sessions-list";
+import {
+    UserSession,
+    UserSessionDeviceGroupInterface,
+    UserSessionTimelineEventInterface,
+    UserSessionTimelineEventTypes
+} from "../../models";
+import { UserSessionUtils } from "../../utils";
+
+/**
+ * Proptypes for the user session device group component.
+ */
+interface UserSessionDeviceGroupPropsInterface extends TestableComponentInterface {
+    /**
+     * Sessions of the device.
+     */
+    group: UserSessionDeviceGroupInterface;
+    /**
+     * Callback to be triggered when a session is terminated.
+     */
+    onTerminateUserSessionClick: (userSession: UserSession) => void;
+}
+
+/**
+ * Lists the sessions of a single device along with their activity timeline.
+ *
+ * @param {UserSessionDeviceGroupPropsInterface} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const UserSessionDeviceGroup: FunctionComponent<UserSessionDeviceGroupPropsInterface> = (
+    props: UserSessionDeviceGroupPropsInterface
+): ReactElement => {
+
+    const {
+        group,
+        onTerminateUserSessionClick,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { t } = useTranslation();
+
+    const [ activeIndexes, setActiveIndexes ] = useState<number[]>([]);
+    const [ showTimeline, setShowTimeline ] = useState<boolean>(false);
+
+    /**
+     * Handler for the session detail button click.
+     *
+     * @param {MouseEvent<HTMLButtonElement>} e - Click event.
+     * @param {number} id - Index of the session.
+     */
+    const handleSessionDetailClick = (e: MouseEvent<HTMLButtonElement>, { id }): void => {
+        setActiveIndexes(activeIndexes.includes(id)
+            ? activeIndexes.filter((index: number) => index !== id)
+            : [ ...activeIndexes, id ]);
+    };
+
+    /**
+     * Renders the activity timeline of the device.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderTimeline = (): ReactElement => (
+        <Feed size="small" data-testid={ `${ testId }-timeline` }>
+            {
+                UserSessionUtils.getSessionTimeline(group.sessions)
+                    .map((event: UserSessionTimelineEventInterface) => (
+                        <Feed.Event key={ `${ event.sessionId }-${ event.type }` }>
+                            <Feed.Label>
+                                <Icon
+                                    name={ event.type === UserSessionTimelineEventTypes.LOGIN ? "sign in" : "clock" }
+                                    color="grey"
+                                />
+                            </Feed.Label>
+                            <Feed.Content>
+                                <Feed.Summary>
+                                    { t("myAccount:components.userSessions.deviceGroups.timeline." + event.type) }
+                                    <Feed.Date>{ moment(event.time).format("lll") }</Feed.Date>
+                                </Feed.Summary>
+                                { event.applications.length > 0 && (
+                                    <Feed.Extra text>
+                                        {
+                                            t("myAccount:components.userSessions.deviceGroups.timeline" +
+                                                ".applications", { applications: event.applications.join(", ") })
+                                        }
+                                    </Feed.Extra>
+                                ) }
+                            </Feed.Content>
+                        </Feed.Event>
+                    ))
+            }
+        </Feed>
+    );
+
+    return (
+        <div className="user-session-device-group" data-testid={ testId }>
+            <Header as="h5">
+                <Icon name={ UserSessionUtils.resolveDeviceIcon(group.device.type) } color="grey"/>
+                <Header.Content>
+                    {
+                        t("myAccount:components.userSessions.browserAndOS", {
+                            browser: group.browser.name,
+                            os: group.os.name,
+                            version: ""
+                        })
+                    }
+                    { group.isCurrentDevice && (
+                        <Label size="mini" color="green" data-testid={ `${ testId }-current-label` }>
+                            { t("myAccount:components.userSessions.deviceGroups.currentDevice") }
+                        </Label>
+                    ) }
+                    { group.isUnusual && (
+                        <Label size="mini" color="orange" data-testid={ `${ testId }-unusual-label` }>
+                            { t("myAccount:components.userSessions.deviceGroups.unusualDevice") }
+                        </Label>
+                    ) }
+                    <Header.Subheader>
+                        {
+                            t("myAccount:components.userSessions.deviceGroups.summary", {
+                                count: group.sessions.length,
+                                date: moment(group.lastAccessTime).fromNow()
+                            })
+                        }
+                    </Header.Subheader>
+                </Header.Content>
+            </Header>
+            { group.isUnusual && (
+                <Message
+                    warning
+                    size="tiny"
+                    content={
+                        t("myAccount:components.userSessions.deviceGroups.unusualDeviceHint", {
+                            browser: group.browser.name,
+                            date: moment(group.firstSeen).format("ll"),
+                            os: group.os.name
+                        })
+                    }
+                    data-testid={ `${ testId }-unusual-message` }
+                />
+            ) }
+            <UserSessionsList
+                data-testid={ `${ testId }-list` }
+                onTerminateUserSessionClick={ onTerminateUserSessionClick }
+                onUserSessionDetailClick={ handleSessionDetailClick }
+                userSessions={ group.sessions }
+                userSessionsListActiveIndexes={ activeIndexes }
+            />
+            <Button
+                className="link-button"
+                basic
+                size="mini"
+                onClick={ () => setShowTimeline(!showTimeline) }
+                data-testid={ `${ testId }-timeline-button` }
+            >
+                {
+                    showTimeline
+                        ? t("myAccount:components.userSessions.deviceGroups.actions.hideActivity")
+                        : t("myAccount:components.userSessions.deviceGroups.actions.showActivity")
+                }
+            </Button>
+            { showTimeline && renderTimeline() }
+        </div>
+    );
+};
+
+/**
+ * Default props of the user session device group component.
+ */
+UserSessionDeviceGroup.defaultProps = {
+    "data-testid": "user-session-device-group"
+};
@@ -22,9 +22,10 @@ import { GenericIcon } from "@wso2is/react-components";
 import moment from "moment";
 import React, { FunctionComponent, MouseEvent } from "react";
 import { useTranslation } from "react-i18next";
-import { Button, Grid, Icon, List, Responsive, SemanticICONS } from "semantic-ui-react";
+import { Button, Grid, Icon, List, Responsive } from "semantic-ui-react";
 import { UserSessionsEdit } from "./user-sessions-edit";
 import { UserSession } from "../../models";
+import { UserSessionUtils } from "../../utils";
 
 /**
  * Proptypes for the user sessions list component.
@@ -57,39 +58,6 @@ export const UserSessionsList: FunctionComponent<UserSessionsListProps> = (
     } = props;
     const { t } = useTranslation();
 
-    /**
-     * Resolves an icon for the device type extracted from the user agent string.
-     *
-     * @param {string} type - Device type.
-     * @return {SemanticICONS}
-     */
-    const resolveDeviceType = (type: string): SemanticICONS => {
-        const deviceType = {
-            desktop: {
-                icon: "computer",
-                values: [ "desktop" ]
-            },
-            mobile: {
-                icon: "mobile alternate",
-                values: [ "mobile" ]
-            },
-            tablet: {
-                icon: "tablet alternate",
-                values: [ "tablet" ]
-            }
-        };
-
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
-        for (const [ key, value ] of Object.entries(deviceType)) {
-            if (value.values.includes(type)) {
-                return value.icon as SemanticICONS;
-            }
-        }
-
-        // Default device icon.
-        return "computer";
-    };
-
     return (
         <List divided verticalAlign="middle" className="main-content-inner" data-testid={ testId }>
             {
@@ -116,7 +84,9 @@ export const UserSessionsList: FunctionComponent<UserSessionsListProps> = (
                                                 icon={
                                                     (
                                                         <Icon
-                                                            name={ resolveDeviceType(userAgentParser.device.type) }
+                                                            name={ UserSessionUtils.resolveDeviceIcon(
+                                                                userAgentParser.device.type
+                                                            ) }
                                                             size="big"
                                                             color="grey"
                                                         />
@@ -22,16 +22,23 @@ import sortBy from "lodash-es/sortBy";
 import React, { FunctionComponent, useEffect, useState } from "react";
 import { useTranslation } from "react-i18next";
 import { Button, Container, Modal } from "semantic-ui-react";
-import { UserSessionsList } from "./user-sessions-list";
-import { fetchUserSessions, terminateAllUserSessions, terminateUserSession } from "../../api";
+import { UserSessionDeviceGroup } from "./user-session-device-group";
+import {
+    fetchCurrentSessionId,
+    fetchUserSessions,
+    terminateAllUserSessions,
+    terminateUserSession
+} from "../../api";
 import {
     AlertInterface,
     AlertLevels,
     UserSession,
+    UserSessionDeviceGroupInterface,
     UserSessions,
     emptyUserSession,
     emptyUserSessions
 } from "../../models";
+import { UserSessionUtils } from "../../utils";
 import { SettingsSection } from "../shared";
 
 /**
@@ -55,31 +62,49 @@ export const UserSessionsComponent: FunctionComponent<UserSessionsComponentProps
     const [ editingUserSession, setEditingUserSession ] = useState<UserSession>(emptyUserSession);
     const [ isRevokeAllUserSessionsModalVisible, setRevokeAllUserSessionsModalVisibility ] = useState(false);
     const [ isRevokeUserSessionModalVisible, setRevokeUserSessionModalVisibility ] = useState(false);
-    const [ sessionsListActiveIndexes, setSessionsListActiveIndexes ] = useState([]);
+    const [
+        isRevokeOtherUserSessionsModalVisible,
+        setRevokeOtherUserSessionsModalVisibility
+    ] = useState<boolean>(false);
+    const [ deviceGroups, setDeviceGroups ] = useState<UserSessionDeviceGroupInterface[]>([]);
+    const [ currentSessionId, setCurrentSessionId ] = useState<string>(undefined);
     const { onAlertFired, ["data-testid"]: testId } = props;
     const { t } = useTranslation();
 
+    const otherSessions: UserSession[] = UserSessionUtils.getOtherSessions(userSessions?.sessions ?? [],
+        currentSessionId);
+    const currentBrowserSessionCount: number = (userSessions?.sessions ?? []).filter((session: UserSession) => {
+        return UserSessionUtils.isCurrentBrowserSession(session)
+            && !UserSessionUtils.isCurrentSession(session, currentSessionId);
+    }).length;
+
     /**
-     * Retrieves the user sessions.
+     * Retrieves the user sessions and identifies the current session from the ID token.
      */
     const getUserSessions = (): void => {
-        fetchUserSessions()
-            .then((response) => {
+        Promise.all([ fetchUserSessions(), fetchCurrentSessionId() ])
+            .then(([ response, sid ]: [ UserSessions, string ]) => {
                 if (response && response.sessions && response.sessions.length && response.sessions.length > 0) {
                     let sessions = [...response.sessions];
 
                     // Sort the array by last access time
                     sessions = reverse(sortBy(sessions, (session) => session.lastAccessTime));
 
+                    const sessionId: string = UserSessionUtils.resolveCurrentSessionId(sessions, sid);
+
                     setUserSessions({
                         ...response,
                         sessions
                     });
+                    setCurrentSessionId(sessionId);
+                    setDeviceGroups(UserSessionUtils.groupSessionsByDevice(sessions, sessionId));
 
                     return;
                 }
 
                 setUserSessions(response);
+                setCurrentSessionId(undefined);
+                setDeviceGroups([]);
             })
             .catch((error) => {
                 if (error.response && error.response.data && error.response.detail) {
@@ -116,26 +141,6 @@ export const UserSessionsComponent: FunctionComponent<UserSessionsComponentProps
         getUserSessions();
     }, []);
 
-    /**
-     * Handler for the session detail button click.
-     *
-     * @param e - Click event.
-     * @param {any} id - Session id.
-     */
-    const handleSessionDetailClick = (e, { id }) => {
-        const indexes = [ ...sessionsListActiveIndexes ];
-
-        if (!sessionsListActiveIndexes.includes(id)) {
-            indexes.push(id);
-        } else if (sessionsListActiveIndexes.includes(id)) {
-            const removingIndex = sessionsListActiveIndexes.indexOf(id);
-            if (removingIndex !== -1) {
-                indexes.splice(removingIndex, 1);
-            }
-        }
-        setSessionsListActiveIndexes(indexes);
-    };
-
     /**
      * Terminate a single user session.
      */
@@ -233,6 +238,55 @@ export const UserSessionsComponent: FunctionComponent<UserSessionsComponentProps
             });
     };
 
+    /**
+     * Terminates all the user sessions except the current one. If the current session couldn't be
+     * identified, the sessions of the current browser are kept.
+     */
+    const handleTerminateOtherUserSessions = (): void => {
+        Promise.all(otherSessions.map((session: UserSession) => {
+            return terminateUserSession(session.id)
+                .then(() => true)
+                .catch(() => false);
+        }))
+            .then((results: boolean[]) => {
+                const failed: number = results.filter((result: boolean) => !result).length;
+
+                if (failed > 0) {
+                    onAlertFired({
+                        description: t(
+                            "myAccount:components.userSessions.notifications.terminateOtherUserSessions.error" +
+                            ".description",
+                            { failed, total: results.length }
+                        ),
+                        level: AlertLevels.ERROR,
+                        message: t(
+                            "myAccount:components.userSessions.notifications.terminateOtherUserSessions.error" +
+                            ".message"
+                        )
+                    });
+
+                    return;
+                }
+
+                onAlertFired({
+                    description: t(
+                        "myAccount:components.userSessions.notifications.terminateOtherUserSessions.success" +
+                        ".description",
+                        { count: results.length }
+                    ),
+                    level: AlertLevels.SUCCESS,
+                    message: t(
+                        "myAccount:components.userSessions.notifications.terminateOtherUserSessions.success" +
+                        ".message"
+                    )
+                });
+            })
+            .finally(() => {
+                setRevokeOtherUserSessionsModalVisibility(false);
+                getUserSessions();
+            });
+    };
+
     /**
      * Handles the terminate all user sessions click event.
      */
@@ -290,6 +344,47 @@ export const UserSessionsComponent: FunctionComponent<UserSessionsComponentProps
         </Modal>
     );
 
+    const terminateOtherUserSessionsModal = (
+        <Modal
+            data-testid={ `${testId}-terminate-others-modal` }
+            size="mini"
+            open={ isRevokeOtherUserSessionsModalVisible }
+            onClose={ () => setRevokeOtherUserSessionsModalVisibility(false) }
+            dimmer="blurring"
+        >
+            <Modal.Content data-testid={ `${testId}-terminate-others-modal-content` }>
+                <Container>
+                    <h3>
+                        { t("myAccount:components.userSessions.modals.terminateOtherUserSessionsModal.heading") }
+                    </h3>
+                </Container>
+                <br/>
+                <p>{ t("myAccount:components.userSessions.modals.terminateOtherUserSessionsModal.message") }</p>
+                {
+                    currentBrowserSessionCount > 0 && (
+                        <p data-testid={ `${testId}-terminate-others-modal-current-browser-sessions` }>
+                            {
+                                currentSessionId
+                                    ? t("myAccount:components.userSessions.modals.terminateOtherUserSessionsModal." +
+                                        "currentBrowserSessions", { count: currentBrowserSessionCount })
+                                    : t("myAccount:components.userSessions.modals.terminateOtherUserSessionsModal." +
+                                        "unidentifiedSession", { count: currentBrowserSessionCount })
+                            }
+                        </p>
+                    )
+                }
+            </Modal.Content>
+            <Modal.Actions data-testid={ `${testId}-terminate-others-modal-actions` }>
+                <Button className="link-button" onClick={ () => setRevokeOtherUserSessionsModalVisibility(false) }>
+                    { t("common:cancel") }
+                </Button>
+                <Button primary={ true } onClick={ handleTerminateOtherUserSessions }>
+                    { t("common:terminate") }
+                </Button>
+            </Modal.Actions>
+        </Modal>
+    );
+
     const terminateUserSessionModal = (
         <Modal
             data-testid={ `${testId}-termination-modal` }
@@ -331,27 +426,50 @@ export const UserSessionsComponent: FunctionComponent<UserSessionsComponentProps
             topActionBar={
                 (userSessions && userSessions.sessions && (userSessions.sessions.length > 0))
                     ? (
-                        <Button
-                            className="borderless-button"
-                            basic={ true }
-                            color="red"
-                            onClick={ handleTerminateAllUserSessionsClick }
-                            data-testid={ `${testId}-settings-section-user-sessions-terminate-all-button` }
-                        >
-                            { t("common:terminateAll") }
-                        </Button>
+                        <>
+                            {
+                                otherSessions.length > 0
+                                && otherSessions.length < userSessions.sessions.length
+                                && (
+                                    <Button
+                                        className="borderless-button"
+                                        basic={ true }
+                                        color="red"
+                                        onClick={ () => setRevokeOtherUserSessionsModalVisibility(true) }
+                                        data-testid={
+                                            `${testId}-settings-section-user-sessions-terminate-others-button`
+                                        }
+                                    >
+                                        { t("myAccount:components.userSessions.actions.terminateOthers") }
+                                    </Button>
+                                )
+                            }
+                            <Button
+                                className="borderless-button"
+                                basic={ true }
+                                color="red"
+                                onClick={ handleTerminateAllUserSessionsClick }
+                                data-testid={ `${testId}-settings-section-user-sessions-terminate-all-button` }
+                            >
+                                { t("common:terminateAll") }
+                            </Button>
+                        </>
                     )
                     : null
             }
         >
-            <UserSessionsList
-                data-testid={ `${testId}-list` }
-                onTerminateUserSessionClick={ handleTerminateUserSessionClick }
-                onUserSessionDetailClick={ handleSessionDetailClick }
-                userSessions={ userSessions && userSessions.sessions ? userSessions.sessions : null }
-                userSessionsListActiveIndexes={ sessionsListActiveIndexes }
-            />
+            {
+                deviceGroups.map((group: UserSessionDeviceGroupInterface) => (
+                    <UserSessionDeviceGroup
+                        key={ group.fingerprint }
+                        group={ group }
+                        onTerminateUserSessionClick={ handleTerminateUserSessionClick }
+                        data-testid={ `${testId}-device-group` }
+                    />
+                ))
+            }
             { terminateAllUserSessionsModal }
+            { terminateOtherUserSessionsModal }
             { terminateUserSessionModal }
         </SettingsSection>
     );
@@ -71,6 +71,7 @@ export class Config {
             applications: `${this.getDeploymentConfig().serverHost}/api/users/v1/me/applications`,
             associations: `${this.getDeploymentConfig().serverHost}/api/users/v1/me/associations`,
             authorize: `${this.getDeploymentConfig().serverHost}/oauth2/authorize`,
+            backupCode: `${this.getDeploymentConfig().serverHost}/api/users/v1/me/backup-code`,
             challengeAnswers: `${this.getDeploymentConfig().serverHost}/api/users/v1/me/challenge-answers`,
             challenges: `${this.getDeploymentConfig().serverHost}/api/users/v1/me/challenges`,
             federatedAssociations: `${this.getDeploymentConfig().serverHost}/api/users/v1/me/federated-associations`,
@@ -178,6 +178,7 @@ export class AppConstants {
         .set("SECURITY_MFA_SMS", "security.mfa.sms")
         .set("SECURITY_MFA_FIDO", "security.mfa.fido")
         .set("SECURITY_MFA_TOTP", "security.mfa.totp")
+        .set("SECURITY_MFA_BACKUP_CODE", "security.mfa.backupCode")
         .set("SECURITY_ACTIVE_SESSIONS", "security.activeSessions")
         .set("SECURITY_CONSENTS", "security.manageConsents")
         .set("SECURITY_LOGIN_VERIFY_DATA", "security.loginVerifyData")
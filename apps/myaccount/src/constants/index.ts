@@ -24,3 +24,4 @@ export * from "./filter-constants";
 export * from "./i18n-constants";
 export * from "./profile-constants";
 export * from "./consent-constants";
+export * from "./user-sessions-constants";
@@ -0,0 +1,48 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Class containing user sessions constants.
+ */
+export class UserSessionsConstants {
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    /* eslint-disable @typescript-eslint/no-empty-function */
+    private constructor() {}
+
+    /**
+     * Key to get the browser and operating system combinations seen in the sessions from pref storage.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly DEVICE_HISTORY_KEY: string = "identityAppsSettings.userPortal.sessions.devices";
+
+    /**
+     * Duration in milliseconds a new browser and operating system combination is flagged as unusual.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly UNUSUAL_DEVICE_FLAG_DURATION: number = 7 * 24 * 60 * 60 * 1000;
+}
@@ -65,6 +65,7 @@ export interface ServiceResourceEndpointsInterface {
     applications: string;
     associations: string;
     authorize: string;
+    backupCode: string;
     challenges: string;
     challengeAnswers: string;
     federatedAssociations: string;
@@ -34,3 +34,4 @@ export * from "./loaders";
 export * from "./app-config";
 export * from "./reducer-state";
 export * from "./preference";
+export * from "./multi-factor";
@@ -16,6 +16,8 @@
  * under the License.
  */
 
+import { IBrowser, IDevice, IOS } from "@wso2is/core/models";
+
 /**
  * User sessions model.
  */
@@ -78,6 +80,94 @@ interface Application {
     appId: string;
 }
 
+/**
+ * Model to represent the sessions of a user grouped by the device.
+ */
+export interface UserSessionDeviceGroupInterface {
+    /**
+     * Fingerprint of the device derived from the user agent.
+     */
+    fingerprint: string;
+    /**
+     * Browser of the device.
+     */
+    browser: IBrowser;
+    /**
+     * Operating system of the device.
+     */
+    os: IOS;
+    /**
+     * Device details.
+     */
+    device: IDevice;
+    /**
+     * Sessions of the device sorted by the last access time.
+     */
+    sessions: UserSession[];
+    /**
+     * Latest access time of the sessions in the group.
+     */
+    lastAccessTime: number;
+    /**
+     * Is this the device the user is currently using.
+     */
+    isCurrentDevice: boolean;
+    /**
+     * Is the browser and operating system combination new to the user.
+     */
+    isUnusual: boolean;
+    /**
+     * Time the browser and operating system combination was first seen.
+     */
+    firstSeen: number;
+}
+
+/**
+ * Browser and operating system combinations seen in the sessions of the user.
+ */
+export interface UserSessionDeviceHistoryInterface {
+    /**
+     * Time the history was started. Combinations seen at this time are considered as known.
+     */
+    initializedAt: number;
+    /**
+     * Time each combination was first seen against the combination.
+     */
+    devices: Record<string, number>;
+}
+
+/**
+ * Types of the events in the session activity timeline.
+ * @readonly
+ * @enum {string}
+ */
+export enum UserSessionTimelineEventTypes {
+    LAST_ACCESS = "lastAccess",
+    LOGIN = "login"
+}
+
+/**
+ * Model to represent an event in the session activity timeline.
+ */
+export interface UserSessionTimelineEventInterface {
+    /**
+     * ID of the session.
+     */
+    sessionId: string;
+    /**
+     * Type of the event.
+     */
+    type: UserSessionTimelineEventTypes;
+    /**
+     * Time of the event.
+     */
+    time: number;
+    /**
+     * Names of the applications in the session.
+     */
+    applications: string[];
+}
+
 /**
  * Returns an empty user sessions object.
  *
@@ -27,3 +27,4 @@ export * from "./storage-utils";
 export * from "./string-utils";
 export * from "./filter-utils";
 export * from "./refresh-page-utils";
+export * from "./user-session-utils";
@@ -0,0 +1,286 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { UserAgentParser } from "@wso2is/core/helpers";
+import { StorageIdentityAppsSettingsInterface } from "@wso2is/core/models";
+import cloneDeep from "lodash-es/cloneDeep";
+import get from "lodash-es/get";
+import isEmpty from "lodash-es/isEmpty";
+import set from "lodash-es/set";
+import { SemanticICONS } from "semantic-ui-react";
+import { AppUtils } from "./app-utils";
+import { UserSessionsConstants } from "../constants";
+import {
+    UserSession,
+    UserSessionDeviceGroupInterface,
+    UserSessionDeviceHistoryInterface,
+    UserSessionTimelineEventInterface,
+    UserSessionTimelineEventTypes
+} from "../models";
+
+/**
+ * Utility class for user sessions related operations.
+ */
+export class UserSessionUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Groups the sessions by the device they were created from. The browser and operating system
+     * combinations are compared against the history persisted in the storage and the ones which
+     * were not seen before are flagged as unusual.
+     *
+     * @param {UserSession[]} sessions - Sessions of the user.
+     * @param {string} currentSessionId - ID of the current session. Undefined if it couldn't be identified.
+     * @param {string} currentUserAgent - User agent of the current browser.
+     * @return {UserSessionDeviceGroupInterface[]} Groups with the current device first.
+     */
+    public static groupSessionsByDevice(sessions: UserSession[],
+                                        currentSessionId?: string,
+                                        currentUserAgent: string = navigator.userAgent
+    ): UserSessionDeviceGroupInterface[] {
+
+        const parser: UserAgentParser = new UserAgentParser();
+        const groups: Map<string, UserSessionDeviceGroupInterface> = new Map();
+
+        sessions.forEach((session: UserSession) => {
+            parser.uaString = session.userAgent;
+
+            const fingerprint: string = [
+                parser.browser.name,
+                parser.os.name,
+                parser.device.type,
+                parser.device.vendor,
+                parser.device.model
+            ].join("|");
+
+            if (!groups.has(fingerprint)) {
+                groups.set(fingerprint, {
+                    browser: parser.browser,
+                    device: parser.device,
+                    fingerprint,
+                    firstSeen: null,
+                    isCurrentDevice: false,
+                    isUnusual: false,
+                    lastAccessTime: 0,
+                    os: parser.os,
+                    sessions: []
+                });
+            }
+
+            const group: UserSessionDeviceGroupInterface = groups.get(fingerprint);
+
+            group.sessions.push(session);
+            group.lastAccessTime = Math.max(group.lastAccessTime, parseInt(session.lastAccessTime, 10) || 0);
+            group.isCurrentDevice = group.isCurrentDevice || (
+                currentSessionId
+                    ? UserSessionUtils.isCurrentSession(session, currentSessionId)
+                    : UserSessionUtils.isCurrentBrowserSession(session, currentUserAgent)
+            );
+        });
+
+        const now: number = Date.now();
+        const history: UserSessionDeviceHistoryInterface = UserSessionUtils.getDeviceHistory()
+            ?? { devices: {}, initializedAt: now };
+
+        groups.forEach((group: UserSessionDeviceGroupInterface) => {
+            const combination: string = `${ group.browser.name }|${ group.os.name }`;
+
+            if (!history.devices[ combination ]) {
+                history.devices[ combination ] = now;
+            }
+
+            group.firstSeen = history.devices[ combination ];
+            group.isUnusual = !group.isCurrentDevice
+                && group.firstSeen > history.initializedAt
+                && now - group.firstSeen < UserSessionsConstants.UNUSUAL_DEVICE_FLAG_DURATION;
+            group.sessions.sort((a: UserSession, b: UserSession) => {
+                return parseInt(b.lastAccessTime, 10) - parseInt(a.lastAccessTime, 10);
+            });
+        });
+
+        UserSessionUtils.setDeviceHistory(history);
+
+        return Array.from(groups.values())
+            .sort((a: UserSessionDeviceGroupInterface, b: UserSessionDeviceGroupInterface) => {
+                if (a.isCurrentDevice !== b.isCurrentDevice) {
+                    return a.isCurrentDevice ? -1 : 1;
+                }
+
+                return b.lastAccessTime - a.lastAccessTime;
+            });
+    }
+
+    /**
+     * Resolves the current session from the `sid` claim of the ID token.
+     *
+     * @param {UserSession[]} sessions - Sessions of the user.
+     * @param {string} sid - `sid` claim of the ID token.
+     * @return {string} ID of the current session or undefined if none of the sessions match the claim.
+     */
+    public static resolveCurrentSessionId(sessions: UserSession[], sid: string): string {
+
+        if (!sid) {
+            return;
+        }
+
+        return sessions.find((session: UserSession) => session.id === sid)?.id;
+    }
+
+    /**
+     * Checks if the session is the one the user is currently logged in with.
+     *
+     * @param {UserSession} session - Session to check.
+     * @param {string} currentSessionId - ID of the current session.
+     * @return {boolean} True if the session is the current session.
+     */
+    public static isCurrentSession(session: UserSession, currentSessionId: string): boolean {
+        return !!currentSessionId && session.id === currentSessionId;
+    }
+
+    /**
+     * Checks if the session was created from a browser with the same user agent as the current one.
+     * Several sessions, including the ones of other users of the device, can share the user agent.
+     *
+     * @param {UserSession} session - Session to check.
+     * @param {string} currentUserAgent - User agent of the current browser.
+     * @return {boolean} True if the session has the user agent of the current browser.
+     */
+    public static isCurrentBrowserSession(session: UserSession,
+                                          currentUserAgent: string = navigator.userAgent): boolean {
+
+        return !!currentUserAgent && session.userAgent === currentUserAgent;
+    }
+
+    /**
+     * Resolves the sessions to be terminated when logging out of the other sessions. If the current
+     * session is identified, every other session is returned including the ones of the current browser.
+     * Otherwise, the sessions of the current browser are kept since the current session is one of them.
+     *
+     * @param {UserSession[]} sessions - Sessions of the user.
+     * @param {string} currentSessionId - ID of the current session. Undefined if it couldn't be identified.
+     * @param {string} currentUserAgent - User agent of the current browser.
+     * @return {UserSession[]} Sessions to be terminated.
+     */
+    public static getOtherSessions(sessions: UserSession[],
+                                   currentSessionId?: string,
+                                   currentUserAgent: string = navigator.userAgent): UserSession[] {
+
+        return sessions.filter((session: UserSession) => {
+            return currentSessionId
+                ? !UserSessionUtils.isCurrentSession(session, currentSessionId)
+                : !UserSessionUtils.isCurrentBrowserSession(session, currentUserAgent);
+        });
+    }
+
+    /**
+     * Builds the activity timeline of a set of sessions. Latest event is first.
+     *
+     * @param {UserSession[]} sessions - Sessions to build the timeline from.
+     * @return {UserSessionTimelineEventInterface[]} Timeline events.
+     */
+    public static getSessionTimeline(sessions: UserSession[]): UserSessionTimelineEventInterface[] {
+        const events: UserSessionTimelineEventInterface[] = [];
+
+        sessions.forEach((session: UserSession) => {
+            const applications: string[] = session.applications?.map((app) => app.appName) ?? [];
+            const loginTime: number = parseInt(session.loginTime, 10);
+            const lastAccessTime: number = parseInt(session.lastAccessTime, 10);
+
+            events.push({
+                applications,
+                sessionId: session.id,
+                time: loginTime,
+                type: UserSessionTimelineEventTypes.LOGIN
+            });
+
+            if (lastAccessTime > loginTime) {
+                events.push({
+                    applications,
+                    sessionId: session.id,
+                    time: lastAccessTime,
+                    type: UserSessionTimelineEventTypes.LAST_ACCESS
+                });
+            }
+        });
+
+        return events.sort((a: UserSessionTimelineEventInterface, b: UserSessionTimelineEventInterface) => {
+            return b.time - a.time;
+        });
+    }
+
+    /**
+     * Resolves an icon for the device type extracted from the user agent string.
+     *
+     * @param {string} type - Device type.
+     * @return {SemanticICONS} Icon of the device.
+     */
+    public static resolveDeviceIcon(type: string): SemanticICONS {
+        switch (type) {
+            case "mobile":
+                return "mobile alternate";
+            case "tablet":
+                return "tablet alternate";
+            default:
+                return "computer";
+        }
+    }
+
+    /**
+     * Retrieves the browser and operating system combinations persisted in the storage.
+     *
+     * @return {UserSessionDeviceHistoryInterface} Device history or undefined if not available.
+     */
+    private static getDeviceHistory(): UserSessionDeviceHistoryInterface {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return;
+        }
+
+        return cloneDeep(get(userPreferences, UserSessionsConstants.DEVICE_HISTORY_KEY));
+    }
+
+    /**
+     * Persists the browser and operating system combinations in the storage.
+     *
+     * @param {UserSessionDeviceHistoryInterface} history - Device history.
+     */
+    private static setDeviceHistory(history: UserSessionDeviceHistoryInterface): void {
+
+        const userPreferences: StorageIdentityAppsSettingsInterface = AppUtils.getUserPreferences();
+
+        if (isEmpty(userPreferences)) {
+            return;
+        }
+
+        const newPref: StorageIdentityAppsSettingsInterface = cloneDeep(userPreferences);
+        set(newPref, UserSessionsConstants.DEVICE_HISTORY_KEY, history);
+
+        AppUtils.setUserPreferences(newPref);
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { act, render, screen } from "@testing-library/react";
+import React from "react";
+import { AccessControlDebugPanel } from "../access-control-debug-panel";
+import { AccessControlProvider } from "../access-control-provider";
+import { Show } from "../access-control-show";
+import { AccessControlPolicyTypes } from "../models";
+
+describe("Access control policy based rendering", () => {
+    beforeEach(() => {
+        jest.useFakeTimers("modern");
+        jest.setSystemTime(new Date("2021-06-01T10:00:00.000Z"));
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    test("Should render again when a time window opens and closes", () => {
+        render(
+            <AccessControlProvider allowedScopes="" featureConfig={ {} }>
+                <Show
+                    policy={ {
+                        from: "2021-06-01T10:00:05.000Z",
+                        to: "2021-06-01T10:00:09.999Z",
+                        type: AccessControlPolicyTypes.TIME_WINDOW
+                    } }
+                >
+                    <span>Maintenance banner</span>
+                </Show>
+            </AccessControlProvider>
+        );
+
+        expect(screen.queryByText("Maintenance banner")).toBeNull();
+
+        act(() => {
+            jest.advanceTimersByTime(5000);
+        });
+
+        expect(screen.queryByText("Maintenance banner")).not.toBeNull();
+
+        act(() => {
+            jest.advanceTimersByTime(5000);
+        });
+
+        expect(screen.queryByText("Maintenance banner")).toBeNull();
+    });
+
+    test("Should show the outcomes of the components in the debug panel", () => {
+        render(
+            <AccessControlProvider
+                allowedScopes=""
+                featureConfig={ {} }
+                isPolicyDebugEnabled
+                policyContext={ { groups: [ "admins" ] } }
+            >
+                <Show
+                    policyKey="admin-actions"
+                    policy={ { groups: [ "admins" ], type: AccessControlPolicyTypes.GROUP } }
+                >
+                    <span>Admin actions</span>
+                </Show>
+                <AccessControlDebugPanel />
+            </AccessControlProvider>
+        );
+
+        act(() => {
+            screen.getByTestId("access-control-debug-panel-toggle").click();
+        });
+
+        expect(screen.getByTestId("access-control-debug-panel-content").textContent)
+            .toContain("admin-actions");
+        expect(screen.getByTestId("access-control-debug-panel-content").textContent)
+            .toContain("User belongs to admins.");
+    });
+});
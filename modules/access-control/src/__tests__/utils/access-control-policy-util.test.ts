@@ -0,0 +1,194 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import {
+    AccessControlAttributeOperators,
+    AccessControlPolicyInterface,
+    AccessControlPolicyTypes
+} from "../../models";
+import { AccessControlPolicyUtils } from "../../utils";
+
+const ADMINS_OR_AUDITORS: AccessControlPolicyInterface = {
+    description: "Admins or auditors",
+    policies: [
+        { groups: [ "admins" ], type: AccessControlPolicyTypes.GROUP },
+        { roles: [ "auditor" ], type: AccessControlPolicyTypes.ROLE }
+    ],
+    type: AccessControlPolicyTypes.ANY
+};
+
+const MAINTENANCE_WINDOW: AccessControlPolicyInterface = {
+    days: [ 1, 2, 3, 4, 5 ],
+    from: "2021-06-01T00:00:00.000Z",
+    to: "2021-06-30T23:59:59.999Z",
+    type: AccessControlPolicyTypes.TIME_WINDOW
+};
+
+describe("Access control policy evaluation", () => {
+    test("Should evaluate the group and role policies", () => {
+        expect(AccessControlPolicyUtils.evaluate(ADMINS_OR_AUDITORS, { groups: [ "admins" ] }).allowed).toBe(true);
+        expect(AccessControlPolicyUtils.evaluate(ADMINS_OR_AUDITORS, { roles: [ "auditor" ] }).allowed).toBe(true);
+        expect(AccessControlPolicyUtils.evaluate(ADMINS_OR_AUDITORS, {
+            groups: [ "everyone" ],
+            roles: [ "viewer" ]
+        }).allowed).toBe(false);
+        expect(AccessControlPolicyUtils.evaluate(ADMINS_OR_AUDITORS).allowed).toBe(false);
+    });
+
+    test("Should evaluate the nested and negated policies", () => {
+        const policy: AccessControlPolicyInterface = {
+            policies: [
+                ADMINS_OR_AUDITORS,
+                {
+                    policy: {
+                        attribute: "tenant.maintenanceMode",
+                        operator: AccessControlAttributeOperators.EQUALS,
+                        type: AccessControlPolicyTypes.ATTRIBUTE,
+                        value: true
+                    },
+                    type: AccessControlPolicyTypes.NOT
+                },
+                { scopes: [ "internal_user_mgt_delete" ], type: AccessControlPolicyTypes.SCOPE }
+            ],
+            type: AccessControlPolicyTypes.ALL
+        };
+
+        expect(AccessControlPolicyUtils.evaluate(policy, {
+            allowedScopes: "openid internal_user_mgt_delete",
+            attributes: { tenant: { maintenanceMode: false } },
+            groups: [ "admins" ]
+        }).allowed).toBe(true);
+
+        const result = AccessControlPolicyUtils.evaluate(policy, {
+            allowedScopes: "openid",
+            attributes: { tenant: { maintenanceMode: true } },
+            groups: [ "admins" ]
+        });
+
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toBe("2 of 3 policies failed.");
+        expect(result.children.map(({ allowed }) => allowed)).toEqual([ true, false, false ]);
+    });
+
+    test("Should evaluate the attribute, feature flag and server version policies", () => {
+        expect(AccessControlPolicyUtils.evaluate({
+            attribute: "tenant.domain",
+            operator: AccessControlAttributeOperators.IN,
+            type: AccessControlPolicyTypes.ATTRIBUTE,
+            value: [ "carbon.super", "wso2.com" ]
+        }, { attributes: { tenant: { domain: "wso2.com" } } }).allowed).toBe(true);
+        expect(AccessControlPolicyUtils.evaluate({
+            attribute: "profile.id",
+            operator: AccessControlAttributeOperators.EXISTS,
+            type: AccessControlPolicyTypes.ATTRIBUTE
+        }, { attributes: { profile: {} } }).allowed).toBe(false);
+        expect(AccessControlPolicyUtils.evaluate({
+            flag: "approvals",
+            type: AccessControlPolicyTypes.FEATURE_FLAG
+        }, { featureFlags: { approvals: true } }).allowed).toBe(true);
+        expect(AccessControlPolicyUtils.evaluate({
+            max: "5.12.0",
+            min: "5.11.0",
+            type: AccessControlPolicyTypes.SERVER_VERSION
+        }, { serverVersion: "5.12.0-SNAPSHOT" }).allowed).toBe(true);
+        expect(AccessControlPolicyUtils.evaluate({
+            min: "5.11.0",
+            type: AccessControlPolicyTypes.SERVER_VERSION
+        }).allowed).toBe(false);
+    });
+
+    test("Should evaluate the time window policies", () => {
+        // 2021-06-15 is a Tuesday.
+        expect(AccessControlPolicyUtils.evaluate(MAINTENANCE_WINDOW, {
+            now: new Date("2021-06-15T10:00:00.000Z")
+        }).allowed).toBe(true);
+        expect(AccessControlPolicyUtils.evaluate(MAINTENANCE_WINDOW, {
+            now: new Date("2021-05-31T23:59:59.999Z")
+        }).reason).toBe("2021-05-31T23:59:59.999Z is before 2021-06-01T00:00:00.000Z.");
+        expect(AccessControlPolicyUtils.evaluate(MAINTENANCE_WINDOW, {
+            now: new Date("2021-06-30T23:59:59.999Z")
+        }).allowed).toBe(true);
+        expect(AccessControlPolicyUtils.evaluate(MAINTENANCE_WINDOW, {
+            now: new Date("2021-07-01T00:00:00.000Z")
+        }).allowed).toBe(false);
+
+        const sunday: Date = new Date(2021, 5, 13, 12);
+
+        expect(AccessControlPolicyUtils.evaluate(MAINTENANCE_WINDOW, { now: sunday }).reason)
+            .toBe("Day 0 is not one of 1, 2, 3, 4, 5.");
+    });
+
+    test("Should fail the unknown policy types", () => {
+        expect(AccessControlPolicyUtils.evaluate({
+            type: "unknown"
+        } as unknown as AccessControlPolicyInterface).allowed).toBe(false);
+    });
+});
+
+describe("Access control policy explanation", () => {
+    test("Should explain the outcome of the nested policies", () => {
+        const result = AccessControlPolicyUtils.evaluate(ADMINS_OR_AUDITORS, { roles: [ "auditor" ] });
+
+        expect(AccessControlPolicyUtils.explain(result)).toEqual([
+            "[PASS] any - Admins or auditors: 1 of 2 policies passed.",
+            "  [FAIL] group - User does not belong to any of admins.",
+            "  [PASS] role - User has auditor."
+        ]);
+    });
+});
+
+describe("Access control policy transitions", () => {
+    test("Should resolve the next transition of the time window policies", () => {
+        expect(AccessControlPolicyUtils.getNextTransition({
+            from: "2021-06-01T00:00:00.000Z",
+            to: "2021-06-30T23:59:59.999Z",
+            type: AccessControlPolicyTypes.TIME_WINDOW
+        }, new Date("2021-05-20T00:00:00.000Z"))).toEqual(new Date("2021-06-01T00:00:00.000Z"));
+        expect(AccessControlPolicyUtils.getNextTransition({
+            policy: {
+                to: "2021-06-30T23:59:59.999Z",
+                type: AccessControlPolicyTypes.TIME_WINDOW
+            },
+            type: AccessControlPolicyTypes.NOT
+        }, new Date("2021-06-10T00:00:00.000Z"))).toEqual(new Date("2021-07-01T00:00:00.000Z"));
+        expect(AccessControlPolicyUtils.getNextTransition(MAINTENANCE_WINDOW, new Date(2021, 5, 15, 10)))
+            .toEqual(new Date(2021, 5, 16));
+    });
+
+    test("Should not resolve a transition if the outcome never changes", () => {
+        expect(AccessControlPolicyUtils.getNextTransition(ADMINS_OR_AUDITORS)).toBeUndefined();
+        expect(AccessControlPolicyUtils.getNextTransition({
+            to: "2021-06-30T23:59:59.999Z",
+            type: AccessControlPolicyTypes.TIME_WINDOW
+        }, new Date("2021-07-01T00:00:00.000Z"))).toBeUndefined();
+    });
+});
+
+describe("Server version comparison", () => {
+    test("Should compare the versions segment by segment", () => {
+        expect(AccessControlPolicyUtils.compareVersions("5.11.0", "5.12.0")).toBeLessThan(0);
+        expect(AccessControlPolicyUtils.compareVersions("5.12.10", "5.12.9")).toBeGreaterThan(0);
+        expect(AccessControlPolicyUtils.compareVersions("5.12", "5.12.0")).toBe(0);
+    });
+
+    test("Should ignore the qualifiers", () => {
+        expect(AccessControlPolicyUtils.compareVersions("5.12.0-SNAPSHOT", "5.12.0")).toBe(0);
+        expect(AccessControlPolicyUtils.compareVersions("6.0.0-alpha", "5.12.0")).toBeGreaterThan(0);
+    });
+});
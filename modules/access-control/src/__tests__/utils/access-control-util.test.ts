@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { RouteInterface } from "@wso2is/core/models";
+import { AccessControlPolicyTypes } from "../../models";
+import { AccessControlUtils } from "../../utils";
+
+/**
+ * Creates a route for the tests.
+ *
+ * @param {string} id - Route ID.
+ * @param {Partial<RouteInterface>} overrides - Attributes to override.
+ * @return {RouteInterface}
+ */
+const createRoute = (id: string, overrides: Partial<RouteInterface> = {}): RouteInterface => ({
+    component: null,
+    exact: true,
+    icon: null,
+    id,
+    name: id,
+    path: `/${ id }`,
+    protected: true,
+    showOnSidePanel: true,
+    ...overrides
+});
+
+describe("Access control route policies", () => {
+    test("Should pass the routes without a policy", () => {
+        expect(AccessControlUtils.isRoutePolicySatisfied(createRoute("users"), "", {})).toBe(true);
+    });
+
+    test("Should evaluate the policies of the route and the feature config", () => {
+        const route: RouteInterface = createRoute("users", {
+            policy: { groups: [ "admins" ], type: AccessControlPolicyTypes.GROUP }
+        });
+        const featureConfig: Record<string, unknown> = {
+            users: {
+                policy: { roles: [ "auditor" ], type: AccessControlPolicyTypes.ROLE }
+            }
+        };
+
+        expect(AccessControlUtils.isRoutePolicySatisfied(route, "", featureConfig, {
+            groups: [ "admins" ],
+            roles: [ "auditor" ]
+        })).toBe(true);
+        expect(AccessControlUtils.isRoutePolicySatisfied(route, "", featureConfig, {
+            groups: [ "admins" ]
+        })).toBe(false);
+    });
+
+    test("Should hide the side panel routes whose policy fails", () => {
+        const routes: RouteInterface[] = AccessControlUtils.getAuthenticatedRoutes([
+            createRoute("users", { policy: { groups: [ "admins" ], type: AccessControlPolicyTypes.GROUP } }),
+            createRoute("groups")
+        ], "", {}, { groups: [ "everyone" ] });
+
+        expect(routes.map((route: RouteInterface) => route.id)).toEqual([ "groups" ]);
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { RouteInterface, TestableComponentInterface } from "@wso2is/core/models";
+import React, { FunctionComponent, ReactElement, ReactNode, useState } from "react";
+import { Button, Label, List, Segment } from "semantic-ui-react";
+import { useAccessControlPolicy, useAccessControlPolicyTransitions } from "./access-control-policy-context";
+import { AccessControlPolicyInterface, AccessControlPolicyResultInterface } from "./models";
+import { AccessControlPolicyUtils, AccessControlUtils } from "./utils";
+
+/**
+ * Interface for the access control debug panel props.
+ */
+export interface AccessControlDebugPanelPropsInterface extends TestableComponentInterface {
+    /**
+     * Routes to explain the visibility of.
+     */
+    routes?: RouteInterface[];
+}
+
+/**
+ * Panel which explains why the policy controlled routes and components are shown or hidden.
+ * Renders nothing unless the policy debugging is enabled on the provider.
+ *
+ * @param {AccessControlDebugPanelPropsInterface} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const AccessControlDebugPanel: FunctionComponent<AccessControlDebugPanelPropsInterface> = (
+    props: AccessControlDebugPanelPropsInterface
+): ReactElement => {
+
+    const {
+        routes,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const { context, evaluations, featureConfig, isDebugEnabled } = useAccessControlPolicy();
+
+    const [ isOpen, setIsOpen ] = useState<boolean>(false);
+
+    const routePolicies: [ string, AccessControlPolicyInterface ][] = (routes ?? [])
+        .map((route: RouteInterface): [ string, AccessControlPolicyInterface ] => {
+            return [ route.id, AccessControlUtils.getRoutePolicy(route, featureConfig) ];
+        })
+        .filter(([ , policy ]: [ string, AccessControlPolicyInterface ]) => Boolean(policy));
+
+    // Renders the panel again when the outcome of a route policy can change with time.
+    useAccessControlPolicyTransitions(
+        routePolicies.map(([ , policy ]: [ string, AccessControlPolicyInterface ]) => policy), context.now);
+
+    if (!isDebugEnabled) {
+        return null;
+    }
+
+    /**
+     * Toggles the panel.
+     */
+    const handleToggle = (): void => {
+        setIsOpen(!isOpen);
+    };
+
+    /**
+     * Renders the outcome of a policy evaluation along with the outcomes of the nested policies.
+     *
+     * @param {AccessControlPolicyResultInterface} result - Outcome of the evaluation.
+     * @return {React.ReactNode}
+     */
+    const renderResult = (result: AccessControlPolicyResultInterface): ReactNode => (
+        <List.Item>
+            <List.Content>
+                <Label size="mini" color={ result.allowed ? "green" : "red" }>
+                    { result.allowed ? "PASS" : "FAIL" }
+                </Label>
+                <code>{ result.policy.type }</code>{ " " }
+                { result.policy.description && <strong>{ result.policy.description }: </strong> }
+                { result.reason }
+                {
+                    result.children?.length > 0 && (
+                        <List.List>
+                            {
+                                result.children.map((child: AccessControlPolicyResultInterface, index: number) => (
+                                    <React.Fragment key={ index }>{ renderResult(child) }</React.Fragment>
+                                ))
+                            }
+                        </List.List>
+                    )
+                }
+            </List.Content>
+        </List.Item>
+    );
+
+    /**
+     * Renders a titled list of policy outcomes.
+     *
+     * @param {string} title - Title of the section.
+     * @param {[string, AccessControlPolicyResultInterface][]} entries - Outcomes keyed by the subject.
+     * @return {React.ReactNode}
+     */
+    const renderSection = (title: string, entries: [ string, AccessControlPolicyResultInterface ][]): ReactNode => (
+        <>
+            <h5>{ title }</h5>
+            {
+                entries.length > 0
+                    ? (
+                        <List divided relaxed>
+                            {
+                                entries.map(([ key, result ]: [ string, AccessControlPolicyResultInterface ]) => (
+                                    <List.Item key={ key }>
+                                        <List.Header>{ key }</List.Header>
+                                        <List>{ renderResult(result) }</List>
+                                    </List.Item>
+                                ))
+                            }
+                        </List>
+                    )
+                    : <p>No policies evaluated.</p>
+            }
+        </>
+    );
+
+    const routeEntries: [ string, AccessControlPolicyResultInterface ][] = routePolicies.map(
+        ([ id, policy ]: [ string, AccessControlPolicyInterface ]): [ string, AccessControlPolicyResultInterface ] => {
+            return [ id, AccessControlPolicyUtils.evaluate(policy, context) ];
+        });
+
+    return (
+        <div
+            className="access-control-debug-panel"
+            style={ { bottom: "1em", left: "1em", maxWidth: "40em", position: "fixed", zIndex: 1000 } }
+            data-testid={ testId }
+        >
+            {
+                isOpen && (
+                    <Segment style={ { maxHeight: "60vh", overflowY: "auto" } } data-testid={ `${ testId }-content` }>
+                        { renderSection("Routes", routeEntries) }
+                        { renderSection("Components", Array.from(evaluations.entries())) }
+                    </Segment>
+                )
+            }
+            <Button
+                size="mini"
+                icon="shield alternate"
+                content="Access control"
+                active={ isOpen }
+                onClick={ handleToggle }
+                data-testid={ `${ testId }-toggle` }
+            />
+        </div>
+    );
+};
+
+/**
+ * Default props for the access control debug panel.
+ */
+AccessControlDebugPanel.defaultProps = {
+    "data-testid": "access-control-debug-panel"
+};
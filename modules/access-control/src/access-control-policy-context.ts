@@ -0,0 +1,162 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import {
+    AccessControlPolicyContextInterface,
+    AccessControlPolicyInterface,
+    AccessControlPolicyResultInterface
+} from "./models";
+import { AccessControlPolicyUtils } from "./utils";
+
+/**
+ * Longest delay supported by `setTimeout`. Longer delays fire immediately.
+ */
+const MAX_TIMEOUT_DELAY: number = 2147483647;
+
+/**
+ * Interface for the value of the access control policy context.
+ */
+export interface AccessControlPolicyContextValueInterface {
+    /**
+     * Facts used to evaluate the policies.
+     */
+    context: AccessControlPolicyContextInterface;
+    /**
+     * Evaluates a policy against the facts of the context.
+     */
+    evaluate: (policy: AccessControlPolicyInterface) => AccessControlPolicyResultInterface;
+    /**
+     * Outcomes recorded for the debug panel keyed by the subject.
+     */
+    evaluations: Map<string, AccessControlPolicyResultInterface>;
+    /**
+     * Feature configuration passed to the provider.
+     */
+    featureConfig: any; // TODO : Properly map FeatureConfigInterface type
+    /**
+     * Is the policy debug panel enabled.
+     */
+    isDebugEnabled: boolean;
+    /**
+     * Records the outcome of an evaluation for the debug panel. The recorded outcome is removed if not given.
+     */
+    setEvaluation: (key: string, result?: AccessControlPolicyResultInterface) => void;
+}
+
+/**
+ * Context holding the facts used to evaluate the access control policies.
+ * Policies are evaluated against an empty context when there's no provider.
+ */
+export const AccessControlPolicyContext = createContext<AccessControlPolicyContextValueInterface>({
+    context: {},
+    evaluate: (policy: AccessControlPolicyInterface) => AccessControlPolicyUtils.evaluate(policy),
+    evaluations: new Map<string, AccessControlPolicyResultInterface>(),
+    featureConfig: {},
+    isDebugEnabled: false,
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    setEvaluation: () => { }
+});
+
+/**
+ * Hook to access the access control policy context.
+ *
+ * @return {AccessControlPolicyContextValueInterface} Policy context value.
+ */
+export const useAccessControlPolicy = (): AccessControlPolicyContextValueInterface => {
+
+    return useContext(AccessControlPolicyContext);
+};
+
+/**
+ * Hook which changes its value whenever the outcome of one of the policies can change with time.
+ * i.e. When a time window opens or closes. Use it as a dependency to re-evaluate the policies.
+ *
+ * @param {AccessControlPolicyInterface[]} policies - Policies to watch.
+ * @param {Date} now - Fixed time of the evaluation. Policies never change their outcome if given.
+ * @return {number} Number of transitions passed so far.
+ */
+export const useAccessControlPolicyTransitions = (policies: AccessControlPolicyInterface[], now?: Date): number => {
+
+    const [ transitions, setTransitions ] = useState<number>(0);
+
+    // Policies are usually declared inline. Hence, they are compared by the value.
+    const serializedPolicies: string = JSON.stringify(policies ?? []);
+
+    useEffect(() => {
+        if (now) {
+            return;
+        }
+
+        const current: Date = new Date();
+        const next: Date = (JSON.parse(serializedPolicies) as AccessControlPolicyInterface[])
+            .map((policy: AccessControlPolicyInterface) => AccessControlPolicyUtils.getNextTransition(policy, current))
+            .filter(Boolean)
+            .reduce((first: Date, transition: Date) => (!first || transition < first) ? transition : first, undefined);
+
+        if (!next) {
+            return;
+        }
+
+        // Delays beyond the limit re-schedule the timer after the limit is reached.
+        const timer: ReturnType<typeof setTimeout> = setTimeout(() => {
+            setTransitions((previous: number) => previous + 1);
+        }, Math.min(next.getTime() - current.getTime(), MAX_TIMEOUT_DELAY));
+
+        return () => clearTimeout(timer);
+    }, [ serializedPolicies, now, transitions ]);
+
+    return transitions;
+};
+
+/**
+ * Hook to evaluate a policy against the facts of the context. The policy is re-evaluated when the facts
+ * change or when its outcome can change with time, and the outcome is recorded for the debug panel.
+ *
+ * @param {AccessControlPolicyInterface} policy - Policy to evaluate.
+ * @param {string} key - Key to identify the outcome in the debug panel.
+ * @return {AccessControlPolicyResultInterface | undefined} Outcome of the evaluation or undefined if there's no policy.
+ */
+export const useAccessControlPolicyResult = (
+    policy: AccessControlPolicyInterface | undefined,
+    key?: string
+): AccessControlPolicyResultInterface | undefined => {
+
+    const { context, evaluate, isDebugEnabled, setEvaluation } = useAccessControlPolicy();
+
+    const transitions: number = useAccessControlPolicyTransitions(policy ? [ policy ] : [], context.now);
+    const serializedPolicy: string = policy ? JSON.stringify(policy) : undefined;
+    const evaluationKey: string = key ?? policy?.description ?? serializedPolicy;
+
+    const result: AccessControlPolicyResultInterface | undefined = useMemo(() => {
+        return serializedPolicy ? evaluate(JSON.parse(serializedPolicy)) : undefined;
+    }, [ serializedPolicy, evaluate, transitions ]);
+
+    useEffect(() => {
+        if (!isDebugEnabled || !result) {
+            return;
+        }
+
+        setEvaluation(evaluationKey, result);
+
+        return () => setEvaluation(evaluationKey);
+    }, [ evaluationKey, isDebugEnabled, result, setEvaluation ]);
+
+    return result;
+};
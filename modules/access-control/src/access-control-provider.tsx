@@ -16,9 +16,17 @@
  * under the License.
  */
 
-import React, { FunctionComponent, PropsWithChildren, ReactElement } from "react";
+import isEqual from "lodash-es/isEqual";
+import React, { FunctionComponent, PropsWithChildren, ReactElement, useCallback, useMemo, useState } from "react";
 import { AccessProvider } from "react-access-control";
 import { AccessControlContext } from "./access-control-context-provider";
+import { AccessControlPolicyContext, AccessControlPolicyContextValueInterface } from "./access-control-policy-context";
+import {
+    AccessControlPolicyContextInterface,
+    AccessControlPolicyInterface,
+    AccessControlPolicyResultInterface
+} from "./models";
+import { AccessControlPolicyUtils } from "./utils";
 
 /**
  * Interface to store Access Control Provider props
@@ -26,6 +34,14 @@ import { AccessControlContext } from "./access-control-context-provider";
 export interface AccessControlProviderInterface {
     featureConfig: any; // TODO : Properly map FeatureConfigInterface type
     allowedScopes: string;
+    /**
+     * Facts used to evaluate the access control policies.
+     */
+    policyContext?: AccessControlPolicyContextInterface;
+    /**
+     * Record the policy outcomes for the debug panel.
+     */
+    isPolicyDebugEnabled?: boolean;
 }
 
 /**
@@ -42,13 +58,52 @@ export const AccessControlProvider: FunctionComponent<PropsWithChildren<AccessCo
     const {
         allowedScopes,
         children,
-        featureConfig
+        featureConfig,
+        isPolicyDebugEnabled,
+        policyContext
     } = props;
 
+    const [ evaluations, setEvaluations ] = useState<Map<string, AccessControlPolicyResultInterface>>(
+        new Map<string, AccessControlPolicyResultInterface>());
+
+    const context: AccessControlPolicyContextInterface = useMemo(() => ({
+        ...policyContext,
+        allowedScopes: policyContext?.allowedScopes ?? allowedScopes
+    }), [ allowedScopes, policyContext ]);
+
+    const evaluate = useCallback((policy: AccessControlPolicyInterface): AccessControlPolicyResultInterface => {
+        return AccessControlPolicyUtils.evaluate(policy, context);
+    }, [ context ]);
+
+    const setEvaluation = useCallback((key: string, result?: AccessControlPolicyResultInterface): void => {
+        setEvaluations((previous: Map<string, AccessControlPolicyResultInterface>) => {
+            if (result ? isEqual(previous.get(key), result) : !previous.has(key)) {
+                return previous;
+            }
+
+            const updated: Map<string, AccessControlPolicyResultInterface> = new Map(previous);
+
+            result ? updated.set(key, result) : updated.delete(key);
+
+            return updated;
+        });
+    }, []);
+
+    const policyContextValue: AccessControlPolicyContextValueInterface = useMemo(() => ({
+        context,
+        evaluate,
+        evaluations,
+        featureConfig,
+        isDebugEnabled: !!isPolicyDebugEnabled,
+        setEvaluation
+    }), [ context, evaluate, evaluations, featureConfig, isPolicyDebugEnabled, setEvaluation ]);
+
     return (
         <AccessProvider>
             <AccessControlContext allowedScopes={ allowedScopes } featureConfig={ featureConfig }>
-                { children }
+                <AccessControlPolicyContext.Provider value={ policyContextValue }>
+                    { children }
+                </AccessControlPolicyContext.Provider>
             </AccessControlContext>
         </AccessProvider>
     );
@@ -25,6 +25,8 @@ import React, {
     isValidElement
 } from "react";
 import { useAccess } from "react-access-control";
+import { useAccessControlPolicyResult } from "./access-control-policy-context";
+import { AccessControlPolicyInterface, AccessControlPolicyResultInterface } from "./models";
 
 /**
  * Interface for show component.
@@ -33,7 +35,7 @@ export interface AccessControlShowInterface {
     /**
      * Permissions needed to render child elements
      */
-    when: string | string[];
+    when?: string | string[];
     /**
      * Permissions which will hide the child elemements
      */
@@ -46,6 +48,14 @@ export interface AccessControlShowInterface {
      * Granular level resource permissions.
      */
     resource?: Record<string, any>;
+    /**
+     * Policy which should pass in addition to the permissions.
+     */
+    policy?: AccessControlPolicyInterface;
+    /**
+     * Key to identify the policy outcome in the debug panel.
+     */
+    policyKey?: string;
 }
 
 /**
@@ -65,11 +75,17 @@ export const Show: FunctionComponent<PropsWithChildren<AccessControlShowInterfac
         notWhen,
         fallback,
         resource,
+        policy,
+        policyKey,
         children,
         ...rest
     } = props;
 
-    const show = hasPermission(when, { resource });
+    const policyResult: AccessControlPolicyResultInterface | undefined = useAccessControlPolicyResult(policy,
+        policyKey);
+
+    const isPolicyAllowed: boolean = policyResult ? policyResult.allowed : true;
+    const show = (!when || hasPermission(when, { resource })) && isPolicyAllowed;
     let hideOn = false;
 
     if (notWhen && notWhen.length > 0) {
@@ -17,6 +17,9 @@
  */
 
 export * from "./access-control-constants";
+export * from "./access-control-debug-panel";
+export * from "./access-control-policy-context";
 export * from "./access-control-show";
 export * from "./access-control-provider";
+export * from "./models";
 export * from "./utils";
@@ -0,0 +1,260 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Types of the access control policies.
+ */
+export enum AccessControlPolicyTypes {
+    /**
+     * Passes only if all the nested policies pass.
+     */
+    ALL = "all",
+    /**
+     * Passes if at least one of the nested policies pass.
+     */
+    ANY = "any",
+    /**
+     * Negates the nested policy.
+     */
+    NOT = "not",
+    /**
+     * Matches a value in the evaluation attributes. ex: tenant settings.
+     */
+    ATTRIBUTE = "attribute",
+    /**
+     * Matches a feature flag.
+     */
+    FEATURE_FLAG = "featureFlag",
+    /**
+     * Matches the groups of the logged in user.
+     */
+    GROUP = "group",
+    /**
+     * Matches the roles of the logged in user.
+     */
+    ROLE = "role",
+    /**
+     * Matches the scopes of the logged in user.
+     */
+    SCOPE = "scope",
+    /**
+     * Matches the version of the server.
+     */
+    SERVER_VERSION = "serverVersion",
+    /**
+     * Matches the time of the evaluation.
+     */
+    TIME_WINDOW = "timeWindow"
+}
+
+/**
+ * Operators supported by the attribute policies.
+ */
+export enum AccessControlAttributeOperators {
+    EQUALS = "eq",
+    NOT_EQUALS = "ne",
+    IN = "in",
+    EXISTS = "exists"
+}
+
+/**
+ * Common properties of the access control policies.
+ */
+interface AccessControlBasePolicyInterface {
+    /**
+     * Human readable description shown in the debug panel.
+     */
+    description?: string;
+}
+
+/**
+ * Policy which passes only if all the nested policies pass.
+ */
+export interface AccessControlAllPolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.ALL;
+    policies: AccessControlPolicyInterface[];
+}
+
+/**
+ * Policy which passes if at least one of the nested policies pass.
+ */
+export interface AccessControlAnyPolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.ANY;
+    policies: AccessControlPolicyInterface[];
+}
+
+/**
+ * Policy which negates the nested policy.
+ */
+export interface AccessControlNotPolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.NOT;
+    policy: AccessControlPolicyInterface;
+}
+
+/**
+ * Policy which matches a value in the evaluation attributes.
+ */
+export interface AccessControlAttributePolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.ATTRIBUTE;
+    /**
+     * Path of the attribute. ex: `tenant.maintenanceMode`.
+     */
+    attribute: string;
+    operator: AccessControlAttributeOperators;
+    /**
+     * Value to compare with. Should be an array for the `in` operator.
+     */
+    value?: unknown;
+}
+
+/**
+ * Policy which passes if the feature flag is turned on.
+ */
+export interface AccessControlFeatureFlagPolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.FEATURE_FLAG;
+    flag: string;
+}
+
+/**
+ * Policy which passes if the user belongs to at least one of the groups.
+ */
+export interface AccessControlGroupPolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.GROUP;
+    groups: string[];
+}
+
+/**
+ * Policy which passes if the user has at least one of the roles.
+ */
+export interface AccessControlRolePolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.ROLE;
+    roles: string[];
+}
+
+/**
+ * Policy which passes if the user has all the scopes.
+ */
+export interface AccessControlScopePolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.SCOPE;
+    scopes: string[];
+}
+
+/**
+ * Policy which passes if the server version is within the range. Both bounds are inclusive.
+ */
+export interface AccessControlServerVersionPolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.SERVER_VERSION;
+    /**
+     * Minimum version. ex: `5.11.0`.
+     */
+    min?: string;
+    /**
+     * Maximum version. ex: `5.12.0`.
+     */
+    max?: string;
+}
+
+/**
+ * Policy which passes if the evaluation time is within the window.
+ */
+export interface AccessControlTimeWindowPolicyInterface extends AccessControlBasePolicyInterface {
+    type: AccessControlPolicyTypes.TIME_WINDOW;
+    /**
+     * Start of the window as an ISO 8601 date.
+     */
+    from?: string;
+    /**
+     * End of the window as an ISO 8601 date.
+     */
+    to?: string;
+    /**
+     * Allowed days of the week. `0` is Sunday.
+     */
+    days?: number[];
+}
+
+/**
+ * Access control policy.
+ */
+export type AccessControlPolicyInterface = AccessControlAllPolicyInterface
+    | AccessControlAnyPolicyInterface
+    | AccessControlNotPolicyInterface
+    | AccessControlAttributePolicyInterface
+    | AccessControlFeatureFlagPolicyInterface
+    | AccessControlGroupPolicyInterface
+    | AccessControlRolePolicyInterface
+    | AccessControlScopePolicyInterface
+    | AccessControlServerVersionPolicyInterface
+    | AccessControlTimeWindowPolicyInterface;
+
+/**
+ * Facts used to evaluate the access control policies.
+ */
+export interface AccessControlPolicyContextInterface {
+    /**
+     * Space separated scopes of the logged in user.
+     */
+    allowedScopes?: string;
+    /**
+     * Arbitrary attributes. ex: `{ tenant: { maintenanceMode: true } }`.
+     */
+    attributes?: Record<string, unknown>;
+    /**
+     * Feature flags.
+     */
+    featureFlags?: Record<string, boolean>;
+    /**
+     * Groups of the logged in user.
+     */
+    groups?: string[];
+    /**
+     * Time of the evaluation. Defaults to the current time.
+     */
+    now?: Date;
+    /**
+     * Roles of the logged in user.
+     */
+    roles?: string[];
+    /**
+     * Version of the server. ex: `5.12.0-SNAPSHOT`.
+     */
+    serverVersion?: string;
+}
+
+/**
+ * Outcome of an access control policy evaluation.
+ */
+export interface AccessControlPolicyResultInterface {
+    /**
+     * Did the policy pass.
+     */
+    allowed: boolean;
+    /**
+     * Evaluated policy.
+     */
+    policy: AccessControlPolicyInterface;
+    /**
+     * Explanation of the outcome.
+     */
+    reason: string;
+    /**
+     * Outcomes of the nested policies.
+     */
+    children?: AccessControlPolicyResultInterface[];
+}
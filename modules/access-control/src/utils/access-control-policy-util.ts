@@ -0,0 +1,371 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { AuthenticateUtils } from "@wso2is/core/utils";
+import get from "lodash-es/get";
+import isEqual from "lodash-es/isEqual";
+import {
+    AccessControlAttributeOperators,
+    AccessControlAttributePolicyInterface,
+    AccessControlPolicyContextInterface,
+    AccessControlPolicyInterface,
+    AccessControlPolicyResultInterface,
+    AccessControlPolicyTypes,
+    AccessControlServerVersionPolicyInterface,
+    AccessControlTimeWindowPolicyInterface
+} from "../models";
+
+/**
+ * A class to contain util functions related to access control policies.
+ */
+export class AccessControlPolicyUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Evaluates a policy against the given context. Nested policies are always evaluated
+     * in full so that the outcome can be explained.
+     *
+     * @param {AccessControlPolicyInterface} policy - Policy to evaluate.
+     * @param {AccessControlPolicyContextInterface} context - Facts to evaluate against.
+     * @return {AccessControlPolicyResultInterface} Outcome of the evaluation.
+     */
+    public static evaluate(
+        policy: AccessControlPolicyInterface,
+        context: AccessControlPolicyContextInterface = {}
+    ): AccessControlPolicyResultInterface {
+
+        switch (policy.type) {
+            case AccessControlPolicyTypes.ALL: {
+                const children: AccessControlPolicyResultInterface[] = policy.policies
+                    .map((nested: AccessControlPolicyInterface) => this.evaluate(nested, context));
+                const failed: number = children.filter((child) => !child.allowed).length;
+
+                return {
+                    allowed: failed === 0,
+                    children,
+                    policy,
+                    reason: failed === 0
+                        ? "All the policies passed."
+                        : `${ failed } of ${ children.length } policies failed.`
+                };
+            }
+            case AccessControlPolicyTypes.ANY: {
+                const children: AccessControlPolicyResultInterface[] = policy.policies
+                    .map((nested: AccessControlPolicyInterface) => this.evaluate(nested, context));
+                const passed: number = children.filter((child) => child.allowed).length;
+
+                return {
+                    allowed: passed > 0,
+                    children,
+                    policy,
+                    reason: passed > 0
+                        ? `${ passed } of ${ children.length } policies passed.`
+                        : "None of the policies passed."
+                };
+            }
+            case AccessControlPolicyTypes.NOT: {
+                const child: AccessControlPolicyResultInterface = this.evaluate(policy.policy, context);
+
+                return {
+                    allowed: !child.allowed,
+                    children: [ child ],
+                    policy,
+                    reason: child.allowed ? "The negated policy passed." : "The negated policy failed."
+                };
+            }
+            case AccessControlPolicyTypes.ATTRIBUTE:
+                return this.evaluateAttributePolicy(policy, context);
+            case AccessControlPolicyTypes.FEATURE_FLAG: {
+                const enabled: boolean = context.featureFlags?.[ policy.flag ] === true;
+
+                return {
+                    allowed: enabled,
+                    policy,
+                    reason: `Feature flag "${ policy.flag }" is ${ enabled ? "on" : "off" }.`
+                };
+            }
+            case AccessControlPolicyTypes.GROUP: {
+                const matched: string[] = policy.groups.filter((group: string) => context.groups?.includes(group));
+
+                return {
+                    allowed: matched.length > 0,
+                    policy,
+                    reason: matched.length > 0
+                        ? `User belongs to ${ matched.join(", ") }.`
+                        : `User does not belong to any of ${ policy.groups.join(", ") }.`
+                };
+            }
+            case AccessControlPolicyTypes.ROLE: {
+                const matched: string[] = policy.roles.filter((role: string) => context.roles?.includes(role));
+
+                return {
+                    allowed: matched.length > 0,
+                    policy,
+                    reason: matched.length > 0
+                        ? `User has ${ matched.join(", ") }.`
+                        : `User does not have any of ${ policy.roles.join(", ") }.`
+                };
+            }
+            case AccessControlPolicyTypes.SCOPE: {
+                const missing: string[] = policy.scopes.filter((scope: string) => {
+                    return !AuthenticateUtils.hasScopes([ scope ], context.allowedScopes ?? "");
+                });
+
+                return {
+                    allowed: missing.length === 0,
+                    policy,
+                    reason: missing.length === 0
+                        ? "User has all the scopes."
+                        : `User is missing the scopes ${ missing.join(", ") }.`
+                };
+            }
+            case AccessControlPolicyTypes.SERVER_VERSION:
+                return this.evaluateServerVersionPolicy(policy, context);
+            case AccessControlPolicyTypes.TIME_WINDOW:
+                return this.evaluateTimeWindowPolicy(policy, context);
+            default:
+                return {
+                    allowed: false,
+                    policy,
+                    reason: `Unknown policy type "${ (policy as AccessControlPolicyInterface).type }".`
+                };
+        }
+    }
+
+    /**
+     * Flattens the outcome of an evaluation to a list of indented explanations.
+     *
+     * @param {AccessControlPolicyResultInterface} result - Outcome of the evaluation.
+     * @param {number} depth - Depth of the outcome in the tree.
+     * @return {string[]} Explanations.
+     */
+    public static explain(result: AccessControlPolicyResultInterface, depth: number = 0): string[] {
+
+        const description: string = result.policy.description
+            ? `${ result.policy.description }: `
+            : "";
+
+        return (result.children ?? []).reduce((explanations: string[], child: AccessControlPolicyResultInterface) => {
+            return explanations.concat(this.explain(child, depth + 1));
+        }, [
+            `${ "  ".repeat(depth) }[${ result.allowed ? "PASS" : "FAIL" }] ${ result.policy.type } - `
+                + `${ description }${ result.reason }`
+        ]);
+    }
+
+    /**
+     * Compares two dot separated versions. Qualifiers such as `-SNAPSHOT` are ignored.
+     *
+     * @param {string} first - First version.
+     * @param {string} second - Second version.
+     * @return {number} Negative if the first is older, positive if newer and 0 if equal.
+     */
+    public static compareVersions(first: string, second: string): number {
+
+        const toSegments = (version: string): number[] => {
+            return version.split("-")[ 0 ].split(".").map((segment: string) => parseInt(segment, 10) || 0);
+        };
+
+        const firstSegments: number[] = toSegments(first);
+        const secondSegments: number[] = toSegments(second);
+
+        for (let i = 0; i < Math.max(firstSegments.length, secondSegments.length); i++) {
+            const difference: number = (firstSegments[ i ] ?? 0) - (secondSegments[ i ] ?? 0);
+
+            if (difference !== 0) {
+                return difference;
+            }
+        }
+
+        return 0;
+    }
+
+    /**
+     * Resolves the earliest time after `now` at which the outcome of a policy can change. Only the
+     * time window policies depend on the time of the evaluation.
+     *
+     * @param {AccessControlPolicyInterface} policy - Policy to resolve the transition of.
+     * @param {Date} now - Time to resolve the transition from.
+     * @return {Date | undefined} Time of the next transition or undefined if the outcome never changes.
+     */
+    public static getNextTransition(policy: AccessControlPolicyInterface, now: Date = new Date()): Date | undefined {
+
+        const earliest = (transitions: Date[]): Date | undefined => {
+            return transitions
+                .filter(Boolean)
+                .reduce((first: Date, transition: Date) => {
+                    return (!first || transition < first) ? transition : first;
+                }, undefined);
+        };
+
+        switch (policy.type) {
+            case AccessControlPolicyTypes.ALL:
+            case AccessControlPolicyTypes.ANY:
+                return earliest(policy.policies
+                    .map((nested: AccessControlPolicyInterface) => this.getNextTransition(nested, now)));
+            case AccessControlPolicyTypes.NOT:
+                return this.getNextTransition(policy.policy, now);
+            case AccessControlPolicyTypes.TIME_WINDOW: {
+                const from: Date = policy.from && new Date(policy.from);
+                const to: Date = policy.to && new Date(policy.to);
+
+                return earliest([
+                    (from && now < from) ? from : undefined,
+                    // The window is inclusive of the end. Hence, it closes a millisecond later.
+                    (to && now <= to) ? new Date(to.getTime() + 1) : undefined,
+                    policy.days ? new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1) : undefined
+                ]);
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Evaluates an attribute policy.
+     *
+     * @param {AccessControlAttributePolicyInterface} policy - Policy to evaluate.
+     * @param {AccessControlPolicyContextInterface} context - Facts to evaluate against.
+     * @return {AccessControlPolicyResultInterface} Outcome of the evaluation.
+     */
+    private static evaluateAttributePolicy(
+        policy: AccessControlAttributePolicyInterface,
+        context: AccessControlPolicyContextInterface
+    ): AccessControlPolicyResultInterface {
+
+        const actual: unknown = get(context.attributes, policy.attribute);
+        let allowed: boolean;
+
+        switch (policy.operator) {
+            case AccessControlAttributeOperators.EQUALS:
+                allowed = isEqual(actual, policy.value);
+
+                break;
+            case AccessControlAttributeOperators.NOT_EQUALS:
+                allowed = !isEqual(actual, policy.value);
+
+                break;
+            case AccessControlAttributeOperators.IN:
+                allowed = Array.isArray(policy.value)
+                    && policy.value.some((value: unknown) => isEqual(actual, value));
+
+                break;
+            case AccessControlAttributeOperators.EXISTS:
+                allowed = actual !== undefined && actual !== null;
+
+                break;
+            default:
+                allowed = false;
+        }
+
+        return {
+            allowed,
+            policy,
+            reason: `Attribute "${ policy.attribute }" is ${ JSON.stringify(actual) ?? "undefined" }, expected `
+                + (policy.operator === AccessControlAttributeOperators.EXISTS
+                    ? "it to exist."
+                    : `${ policy.operator } ${ JSON.stringify(policy.value) }.`)
+        };
+    }
+
+    /**
+     * Evaluates a server version policy.
+     *
+     * @param {AccessControlServerVersionPolicyInterface} policy - Policy to evaluate.
+     * @param {AccessControlPolicyContextInterface} context - Facts to evaluate against.
+     * @return {AccessControlPolicyResultInterface} Outcome of the evaluation.
+     */
+    private static evaluateServerVersionPolicy(
+        policy: AccessControlServerVersionPolicyInterface,
+        context: AccessControlPolicyContextInterface
+    ): AccessControlPolicyResultInterface {
+
+        const range: string = `${ policy.min ?? "*" } - ${ policy.max ?? "*" }`;
+
+        if (!context.serverVersion) {
+            return {
+                allowed: false,
+                policy,
+                reason: `Server version is unknown, expected ${ range }.`
+            };
+        }
+
+        const allowed: boolean = (!policy.min || this.compareVersions(context.serverVersion, policy.min) >= 0)
+            && (!policy.max || this.compareVersions(context.serverVersion, policy.max) <= 0);
+
+        return {
+            allowed,
+            policy,
+            reason: `Server version is ${ context.serverVersion }, expected ${ range }.`
+        };
+    }
+
+    /**
+     * Evaluates a time window policy.
+     *
+     * @param {AccessControlTimeWindowPolicyInterface} policy - Policy to evaluate.
+     * @param {AccessControlPolicyContextInterface} context - Facts to evaluate against.
+     * @return {AccessControlPolicyResultInterface} Outcome of the evaluation.
+     */
+    private static evaluateTimeWindowPolicy(
+        policy: AccessControlTimeWindowPolicyInterface,
+        context: AccessControlPolicyContextInterface
+    ): AccessControlPolicyResultInterface {
+
+        const now: Date = context.now ?? new Date();
+
+        if (policy.from && now < new Date(policy.from)) {
+            return {
+                allowed: false,
+                policy,
+                reason: `${ now.toISOString() } is before ${ policy.from }.`
+            };
+        }
+
+        if (policy.to && now > new Date(policy.to)) {
+            return {
+                allowed: false,
+                policy,
+                reason: `${ now.toISOString() } is after ${ policy.to }.`
+            };
+        }
+
+        if (policy.days && !policy.days.includes(now.getDay())) {
+            return {
+                allowed: false,
+                policy,
+                reason: `Day ${ now.getDay() } is not one of ${ policy.days.join(", ") }.`
+            };
+        }
+
+        return {
+            allowed: true,
+            policy,
+            reason: `${ now.toISOString() } is within the window.`
+        };
+    }
+}
@@ -19,6 +19,8 @@
 
 import { FeatureAccessConfigInterface, RouteInterface } from "@wso2is/core/models";
 import { AuthenticateUtils } from "@wso2is/core/utils";
+import { AccessControlPolicyContextInterface, AccessControlPolicyInterface, AccessControlPolicyTypes } from "../models";
+import { AccessControlPolicyUtils } from "./access-control-policy-util";
 
 /**
  * A class to contain util functions related to access control
@@ -30,16 +32,19 @@ export class AccessControlUtils {
 
     /**
      * Util method to filter base routes based on user scopes retrieved via the token call.
+     * Routes with a policy are hidden when the policy fails.
      *
      * @param routeArray Un authenticated routes array
      * @param allowedScopes user scopes
      * @param featureConfig feature scope configuration
+     * @param policyContext facts used to evaluate the route policies
      * @returns filtered route array based on the user scopes
      */
     public static getAuthenticatedRoutes(
         routeArray: RouteInterface[],
         allowedScopes: string,
-        featureConfig: any // TODO : Properly map FeatureConfigInterface type
+        featureConfig: any, // TODO : Properly map FeatureConfigInterface type
+        policyContext?: AccessControlPolicyContextInterface
     ): RouteInterface[] {
 
         const authenticatedRoutes: RouteInterface[] = new Array<RouteInterface>();
@@ -47,6 +52,10 @@ export class AccessControlUtils {
         routeArray.map((route: RouteInterface) => {
             const feature: FeatureAccessConfigInterface = featureConfig[route.id];
 
+            if (!this.isRoutePolicySatisfied(route, allowedScopes, featureConfig, policyContext)) {
+                return;
+            }
+
             if (!feature
                 && (route.id === this.MANAGE_GETTING_STARTED_ID || route.id === this.DEVELOP_GETTING_STARTED_ID)) {
                     authenticatedRoutes.push(route);
@@ -80,6 +89,60 @@ export class AccessControlUtils {
         return authenticatedRoutes;
     }
 
+    /**
+     * Util method to resolve the policy of a route. The policy can be defined on the route
+     * or on the feature config of the route. Both should pass if both are defined.
+     *
+     * @param route route to resolve the policy of
+     * @param featureConfig feature scope configuration
+     * @returns route policy or undefined if the route has no policy
+     */
+    public static getRoutePolicy(
+        route: RouteInterface,
+        featureConfig: any // TODO : Properly map FeatureConfigInterface type
+    ): AccessControlPolicyInterface | undefined {
+
+        const policies: AccessControlPolicyInterface[] = [ route.policy, featureConfig?.[ route.id ]?.policy ]
+            .filter(Boolean);
+
+        if (policies.length < 2) {
+            return policies[ 0 ];
+        }
+
+        return {
+            policies,
+            type: AccessControlPolicyTypes.ALL
+        };
+    }
+
+    /**
+     * Util method to check whether the policy of a route passes. Routes without a policy always pass.
+     *
+     * @param route route to check
+     * @param allowedScopes user scopes
+     * @param featureConfig feature scope configuration
+     * @param policyContext facts used to evaluate the route policies
+     * @returns true if the route has no policy or the policy passes
+     */
+    public static isRoutePolicySatisfied(
+        route: RouteInterface,
+        allowedScopes: string,
+        featureConfig: any, // TODO : Properly map FeatureConfigInterface type
+        policyContext?: AccessControlPolicyContextInterface
+    ): boolean {
+
+        const policy: AccessControlPolicyInterface = this.getRoutePolicy(route, featureConfig);
+
+        if (!policy) {
+            return true;
+        }
+
+        return AccessControlPolicyUtils.evaluate(policy, {
+            ...policyContext,
+            allowedScopes: policyContext?.allowedScopes ?? allowedScopes
+        }).allowed;
+    }
+
     /**
      * Util method to retrieve if a single tab is disabled via iterating routes based on scopes.
      *
@@ -87,18 +150,22 @@ export class AccessControlUtils {
      * @param developRoutes routes related to develop section
      * @param allowedScopes allowed scopes
      * @param featureConfig feature config
+     * @param policyContext facts used to evaluate the route policies
      * @returns
      */
     public static getDisabledTab(
         manageRoutes: RouteInterface[], developRoutes: RouteInterface[],
-        allowedScopes: string, featureConfig: any // TODO : Properly map FeatureConfigInterface type
+        allowedScopes: string, featureConfig: any, // TODO : Properly map FeatureConfigInterface type
+        policyContext?: AccessControlPolicyContextInterface
     ): string {
 
         let isManageTabDisabled = false;
         let isDevelopTabDisabled = false;
 
-        const authenticatedManageRoutes = this.getAuthenticatedRoutes(manageRoutes, allowedScopes, featureConfig);
-        const authenticatedDevelopRoutes = this.getAuthenticatedRoutes(developRoutes, allowedScopes, featureConfig);
+        const authenticatedManageRoutes = this.getAuthenticatedRoutes(manageRoutes, allowedScopes, featureConfig,
+            policyContext);
+        const authenticatedDevelopRoutes = this.getAuthenticatedRoutes(developRoutes, allowedScopes, featureConfig,
+            policyContext);
 
         if (authenticatedManageRoutes.length < 2
             || (authenticatedManageRoutes.length === 1
@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { act, render, screen } from "@testing-library/react";
+import React, { FunctionComponent, ReactElement } from "react";
+import { useMutation } from "../../hooks";
+import { MutationOptionsInterface } from "../../models";
+import { ResourceClientUtils } from "../../utils";
+
+/**
+ * Renders the state of a mutation and a button to run it.
+ */
+const Mutation: FunctionComponent<{
+    mutation: () => Promise<string>;
+    options: MutationOptionsInterface<string>;
+}> = ({ mutation, options }: {
+    mutation: () => Promise<string>;
+    options: MutationOptionsInterface<string>;
+}): ReactElement => {
+
+    const { data, error, isLoading, mutate } = useMutation<string>(mutation, options);
+
+    return (
+        <>
+            <span data-testid="state">{ isLoading ? "loading" : (error ? "error" : data) }</span>
+            <button data-testid="mutate" onClick={ () => mutate().catch(() => undefined) }>Mutate</button>
+        </>
+    );
+};
+
+describe("useMutation hook", () => {
+
+    beforeEach(async () => {
+        await ResourceClientUtils.fetch({ fetcher: () => Promise.resolve(1), key: "idps", tags: [ "idp" ] });
+    });
+
+    afterEach(() => {
+        ResourceClientUtils.clear();
+    });
+
+    test("Should invalidate the tagged resources once the mutation succeeds", async () => {
+        const onSuccess = jest.fn();
+
+        render(
+            <Mutation
+                mutation={ () => Promise.resolve("deleted") }
+                options={ { invalidates: [ "idp" ], onSuccess } }
+            />
+        );
+
+        await act(async () => {
+            screen.getByTestId("mutate").click();
+        });
+
+        expect(screen.getByTestId("state").textContent).toBe("deleted");
+        expect(onSuccess).toHaveBeenCalledWith("deleted");
+        expect(ResourceClientUtils.isStale("idps")).toBe(true);
+    });
+
+    test("Should keep the cached resources when the mutation fails", async () => {
+        const onError = jest.fn();
+
+        render(
+            <Mutation
+                mutation={ () => Promise.reject(new Error("failed")) }
+                options={ { invalidates: [ "idp" ], onError } }
+            />
+        );
+
+        await act(async () => {
+            screen.getByTestId("mutate").click();
+        });
+
+        expect(screen.getByTestId("state").textContent).toBe("error");
+        expect(onError).toHaveBeenCalledTimes(1);
+        expect(ResourceClientUtils.isStale("idps")).toBe(false);
+    });
+});
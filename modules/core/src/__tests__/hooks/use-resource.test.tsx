@@ -0,0 +1,134 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { act, render, screen, waitFor } from "@testing-library/react";
+import React, { FunctionComponent, ReactElement } from "react";
+import { useMutation, useResource } from "../../hooks";
+import { ResourceRequestInterface } from "../../models";
+import { ResourceClientUtils } from "../../utils";
+
+/**
+ * Renders the state of a resource.
+ */
+const Resource: FunctionComponent<{ id: string; request: ResourceRequestInterface<string> }> = (
+    { id, request }: { id: string; request: ResourceRequestInterface<string> }
+): ReactElement => {
+
+    const { data, isLoading } = useResource<string>(request);
+
+    return <span data-testid={ id }>{ isLoading ? "loading" : data }</span>;
+};
+
+/**
+ * Renders a button which runs a mutation invalidating the given tags.
+ */
+const Mutation: FunctionComponent<{ tags: string[] }> = ({ tags }: { tags: string[] }): ReactElement => {
+
+    const { mutate } = useMutation<string>(() => Promise.resolve("deleted"), { invalidates: tags });
+
+    return <button data-testid="mutate" onClick={ () => mutate() }>Mutate</button>;
+};
+
+describe("useResource hook", () => {
+
+    afterEach(() => {
+        ResourceClientUtils.clear();
+    });
+
+    test("Should de-duplicate the requests of the components using the same resource", async () => {
+        const fetcher = jest.fn(() => Promise.resolve("oidc"));
+        const request: ResourceRequestInterface<string> = { fetcher, key: "inbound-protocols" };
+
+        render(
+            <>
+                <Resource id="first" request={ request } />
+                <Resource id="second" request={ request } />
+            </>
+        );
+
+        expect(screen.getByTestId("first").textContent).toBe("loading");
+
+        await waitFor(() => expect(screen.getByTestId("first").textContent).toBe("oidc"));
+        expect(screen.getByTestId("second").textContent).toBe("oidc");
+        expect(fetcher).toHaveBeenCalledTimes(1);
+    });
+
+    test("Should re-fetch the resource when a mutation invalidates it", async () => {
+        const fetcher = jest.fn()
+            .mockReturnValueOnce(Promise.resolve("idp-1"))
+            .mockReturnValueOnce(Promise.resolve("idp-2"));
+
+        render(
+            <>
+                <Resource id="idps" request={ { fetcher, key: "idps", tags: [ "idp" ] } } />
+                <Mutation tags={ [ "idp" ] } />
+            </>
+        );
+
+        await waitFor(() => expect(screen.getByTestId("idps").textContent).toBe("idp-1"));
+
+        act(() => {
+            screen.getByTestId("mutate").click();
+        });
+
+        await waitFor(() => expect(screen.getByTestId("idps").textContent).toBe("idp-2"));
+        expect(fetcher).toHaveBeenCalledTimes(2);
+    });
+
+    test("Should not show the outdated response of a request which was in flight during a mutation", async () => {
+        let resolveOutdated: (data: string) => void;
+        const outdated = new Promise<string>((resolve: (data: string) => void) => {
+            resolveOutdated = resolve;
+        });
+        const fetcher = jest.fn()
+            .mockReturnValueOnce(Promise.resolve("idp-1"))
+            .mockReturnValueOnce(outdated)
+            .mockReturnValueOnce(Promise.resolve("idp-3"));
+        const request: ResourceRequestInterface<string> = { fetcher, key: "idps", tags: [ "idp" ], ttl: 0 };
+
+        render(
+            <>
+                <Resource id="idps" request={ request } />
+                <Mutation tags={ [ "idp" ] } />
+            </>
+        );
+
+        await waitFor(() => expect(screen.getByTestId("idps").textContent).toBe("idp-1"));
+
+        // Starts a revalidation which is still in flight when the mutation completes.
+        act(() => {
+            ResourceClientUtils.fetch(request);
+        });
+
+        act(() => {
+            screen.getByTestId("mutate").click();
+        });
+
+        await waitFor(() => expect(screen.getByTestId("idps").textContent).toBe("idp-3"));
+
+        await act(async () => {
+            resolveOutdated("idp-2");
+            await outdated;
+        });
+
+        expect(screen.getByTestId("idps").textContent).toBe("idp-3");
+        expect(ResourceClientUtils.get("idps").data).toBe("idp-3");
+        expect(fetcher).toHaveBeenCalledTimes(3);
+    });
+});
@@ -0,0 +1,173 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import * as forge from "node-forge";
+import { CertificateManagementConstants } from "../../constants";
+import { CertificateDecodeException } from "../../exceptions";
+import { CertificateExpiryStatuses, CertificateFormats, CertificateValidationErrors } from "../../models";
+import { CertificateManagementUtils } from "../../utils";
+
+/**
+ * Creates a certificate signed by the given issuer. Self signed if an issuer is not given.
+ */
+const createCertificate = (commonName: string, keys: forge.pki.rsa.KeyPair, isCA: boolean,
+                           issuer?: { certificate: forge.pki.Certificate; keys: forge.pki.rsa.KeyPair }
+): forge.pki.Certificate => {
+
+    const certificate: forge.pki.Certificate = forge.pki.createCertificate();
+
+    certificate.publicKey = keys.publicKey;
+    certificate.serialNumber = "01" + forge.util.bytesToHex(forge.random.getBytesSync(8));
+    certificate.validity.notBefore = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    certificate.validity.notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+    certificate.setSubject([ { name: "commonName", value: commonName } ]);
+    certificate.setIssuer(issuer ? issuer.certificate.subject.attributes : certificate.subject.attributes);
+    certificate.setExtensions(isCA
+        ? [ { cA: true, name: "basicConstraints" }, { keyCertSign: true, name: "keyUsage" } ]
+        : [ { digitalSignature: true, name: "keyUsage" }, { name: "extKeyUsage", serverAuth: true } ]);
+    certificate.sign(issuer ? issuer.keys.privateKey : keys.privateKey, forge.md.sha256.create());
+
+    return certificate;
+};
+
+describe("Certificate management util functions", () => {
+    const rootKeys: forge.pki.rsa.KeyPair = forge.pki.rsa.generateKeyPair(512);
+    const intermediateKeys: forge.pki.rsa.KeyPair = forge.pki.rsa.generateKeyPair(512);
+    const leafKeys: forge.pki.rsa.KeyPair = forge.pki.rsa.generateKeyPair(512);
+
+    const root: forge.pki.Certificate = createCertificate("Root CA", rootKeys, true);
+    const intermediate: forge.pki.Certificate = createCertificate("Intermediate CA", intermediateKeys, true,
+        { certificate: root, keys: rootKeys });
+    const leaf: forge.pki.Certificate = createCertificate("localhost", leafKeys, false,
+        { certificate: intermediate, keys: intermediateKeys });
+
+    test("Should calculate the colon separated fingerprints", () => {
+        const fingerprints = CertificateManagementUtils.getFingerprints(leaf);
+
+        expect(fingerprints.sha1).toMatch(/^([0-9A-F]{2}:){19}[0-9A-F]{2}$/);
+        expect(fingerprints.sha256).toMatch(/^([0-9A-F]{2}:){31}[0-9A-F]{2}$/);
+    });
+
+    test("Should resolve the key usages", () => {
+        expect(CertificateManagementUtils.getKeyUsage(leaf)).toEqual({
+            extendedKeyUsage: [ "serverAuth" ],
+            keyUsage: [ "digitalSignature" ]
+        });
+    });
+
+    test("Should build and validate a chain against the trust store", () => {
+        const result = CertificateManagementUtils.validateChain(leaf, [ intermediate ], [ root ], {
+            requiredExtendedKeyUsage: [ "serverAuth" ]
+        });
+
+        expect(result.chain.map((certificate) => certificate.serialNumber))
+            .toEqual([ leaf.serialNumber, intermediate.serialNumber, root.serialNumber ]);
+        expect(result.isTrusted).toBe(true);
+        expect(result.isValid).toBe(true);
+    });
+
+    test("Should report the chain issues", () => {
+        expect(CertificateManagementUtils.validateChain(leaf, [], [ root ]).issues)
+            .toEqual([ { depth: 0, error: CertificateValidationErrors.INCOMPLETE_CHAIN } ]);
+        expect(CertificateManagementUtils.validateChain(leaf, [ intermediate, root ], []).issues)
+            .toEqual([ { depth: 2, error: CertificateValidationErrors.UNTRUSTED_ROOT } ]);
+        expect(CertificateManagementUtils.validateChain(leaf, [ intermediate ], [ root ], {
+            requiredExtendedKeyUsage: [ "clientAuth" ]
+        }).issues).toEqual([ { depth: 0, error: CertificateValidationErrors.MISSING_EXTENDED_KEY_USAGE } ]);
+
+        const forged: forge.pki.Certificate = createCertificate("localhost", leafKeys, false,
+            { certificate: intermediate, keys: leafKeys });
+
+        expect(CertificateManagementUtils.validateChain(forged, [ intermediate ], [ root ]).issues)
+            .toEqual([ { depth: 0, error: CertificateValidationErrors.INVALID_SIGNATURE } ]);
+    });
+
+    test("Should not trust a chain whose signatures can't be verified", () => {
+        const forged: forge.pki.Certificate = createCertificate("localhost", leafKeys, false,
+            { certificate: root, keys: leafKeys });
+
+        // Signature algorithms unsupported by forge. i.e. ECDSA with SHA-256.
+        Object.assign(forged, { md: null, signatureOid: "1.2.840.10045.4.3.2" });
+
+        const result = CertificateManagementUtils.validateChain(forged, [], [ root ]);
+
+        expect(result.chain).toHaveLength(2);
+        expect(result.issues).toEqual([ { depth: 0, error: CertificateValidationErrors.UNVERIFIABLE_SIGNATURE } ]);
+        expect(result.isTrusted).toBe(false);
+        expect(result.isValid).toBe(false);
+    });
+
+    test("Should resolve the expiry status", () => {
+        const now: Date = new Date("2021-06-01T00:00:00Z");
+        const validFrom: Date = new Date("2021-01-01T00:00:00Z");
+
+        expect(CertificateManagementUtils.getExpiry(validFrom, new Date("2021-06-11T00:00:00Z"), 30, now))
+            .toEqual({ daysToExpiry: 10, status: CertificateExpiryStatuses.EXPIRING });
+        expect(CertificateManagementUtils.getExpiry(validFrom, new Date("2021-12-01T00:00:00Z"), 30, now).status)
+            .toBe(CertificateExpiryStatuses.VALID);
+        expect(CertificateManagementUtils.getExpiry(validFrom, new Date("2021-05-01T00:00:00Z"), 30, now).status)
+            .toBe(CertificateExpiryStatuses.EXPIRED);
+    });
+
+    test("Should decode the PEM, DER and JWKS files", () => {
+        const pem: string = forge.pki.certificateToPem(root) + forge.pki.certificateToPem(leaf);
+        const der: string = forge.asn1.toDer(forge.pki.certificateToAsn1(leaf)).getBytes();
+        const jwks: string = JSON.stringify({ keys: [ { kty: "RSA", x5c: [ forge.util.encode64(der) ] } ] });
+
+        expect(CertificateManagementUtils.detectFormat(der)).toBe(CertificateFormats.DER);
+        expect(CertificateManagementUtils.decodeCertificates(pem)[ 0 ].subject.getField("CN").value)
+            .toBe("localhost");
+        expect(CertificateManagementUtils.decodeCertificates(der)).toHaveLength(1);
+        expect(CertificateManagementUtils.decodeCertificates(jwks, "keys.json")[ 0 ].serialNumber)
+            .toBe(leaf.serialNumber);
+    });
+
+    test("Should convert a JWK without a certificate to a public key PEM", () => {
+        const publicKey = leafKeys.publicKey as forge.pki.rsa.PublicKey;
+        const [ n, e ] = (forge.pki.publicKeyToRSAPublicKey(publicKey).value as forge.asn1.Asn1[])
+            .map((integer: forge.asn1.Asn1) => {
+                const bytes: string = integer.value as string;
+
+                return forge.util.encode64(bytes.charCodeAt(0) === 0 ? bytes.slice(1) : bytes)
+                    .replace(/\+/g, "-")
+                    .replace(/\//g, "_")
+                    .replace(/=+$/, "");
+            });
+
+        const pem: string = CertificateManagementUtils.jwkToPem({
+            e,
+            kty: "RSA",
+            n
+        });
+
+        expect(pem).toBe(forge.pki.publicKeyToPem(publicKey));
+        expect(() => CertificateManagementUtils.jwkToPem({ kty: "EC" })).toThrow(CertificateDecodeException);
+    });
+
+    test("Should decode the password protected PKCS#12 files", () => {
+        const pkcs12: string = forge.asn1.toDer(forge.pkcs12.toPkcs12Asn1(leafKeys.privateKey,
+            [ root, leaf, intermediate ], "secret", { algorithm: "3des" })).getBytes();
+
+        expect(CertificateManagementUtils.decodeCertificates(pkcs12, "keystore.p12", "secret")
+            .map((certificate) => certificate.subject.getField("CN").value))
+            .toEqual([ "localhost", "Intermediate CA", "Root CA" ]);
+        expect(() => CertificateManagementUtils.decodeCertificates(pkcs12, "keystore.p12", "wrong"))
+            .toThrow(CertificateManagementConstants.PKCS12_INVALID_PASSWORD_ERROR);
+    });
+});
@@ -49,3 +49,35 @@ describe("Product version parser util function", () => {
         expect(type).toBe(ProductReleaseTypes.BETA);
     });
 });
+
+describe("Concurrency limited mapper util function", () => {
+    test("Should keep the number of pending promises within the limit", async () => {
+        let pending: number = 0;
+        let maxPending: number = 0;
+
+        const results: number[] = await CommonUtils.mapWithConcurrency([ 5, 1, 4, 2, 3 ], 2, (delay: number) => {
+            pending++;
+            maxPending = Math.max(maxPending, pending);
+
+            return new Promise<number>((resolve: (value: number) => void) => {
+                setTimeout(() => {
+                    pending--;
+                    resolve(delay * 10);
+                }, delay);
+            });
+        });
+
+        expect(results).toEqual([ 50, 10, 40, 20, 30 ]);
+        expect(maxPending).toBe(2);
+    });
+
+    test("Should resolve with an empty array when there are no items", async () => {
+        await expect(CommonUtils.mapWithConcurrency([], 5, () => Promise.resolve(1))).resolves.toEqual([]);
+    });
+
+    test("Should reject when a promise rejects", async () => {
+        await expect(CommonUtils.mapWithConcurrency([ 1, 2, 3 ], 2, (item: number) => {
+            return item === 2 ? Promise.reject(new Error("failed")) : Promise.resolve(item);
+        })).rejects.toThrow("failed");
+    });
+});
@@ -0,0 +1,45 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { CSVUtils } from "../../utils";
+
+describe("CSV utils", () => {
+
+    test("Should quote the fields with separators, quotes and line breaks", () => {
+        expect(CSVUtils.serialize([
+            [ "name", "description" ],
+            [ "john", "Says \"hi\", then leaves\r\nquietly" ]
+        ])).toBe("name,description\r\njohn,\"Says \"\"hi\"\", then leaves\r\nquietly\"");
+    });
+
+    test("Should neutralize the text fields which would be evaluated as formulae", () => {
+        expect(CSVUtils.serialize([ [ "=HYPERLINK(\"https://example.com\")", "+1", "-1", "@SUM(A1)", "\tcmd" ] ]))
+            .toBe("\"'=HYPERLINK(\"\"https://example.com\"\")\",'+1,'-1,'@SUM(A1),'\tcmd");
+    });
+
+    test("Should write the numbers as they are", () => {
+        expect(CSVUtils.serialize([ [ -1, 200 ] ])).toBe("-1,200");
+    });
+
+    test("Should revert the formula escape prefix", () => {
+        expect(CSVUtils.unescapeFormula("'=SUM(A1)")).toBe("=SUM(A1)");
+        expect(CSVUtils.unescapeFormula("'quoted")).toBe("'quoted");
+        expect(CSVUtils.unescapeFormula("plain")).toBe("plain");
+    });
+});
@@ -0,0 +1,56 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { DirectionUtils } from "../../utils";
+
+describe("Direction utils", () => {
+
+    afterEach(() => {
+        document.documentElement.removeAttribute("dir");
+        document.documentElement.removeAttribute("lang");
+    });
+
+    test("Should fall back to left-to-right when the direction is not set", () => {
+        expect(DirectionUtils.getDocumentDirection()).toBe("ltr");
+        expect(DirectionUtils.isRTL()).toBe(false);
+    });
+
+    test("Should set the direction and the language of the document", () => {
+        DirectionUtils.setDocumentDirection("rtl", "ar-SA");
+
+        expect(document.documentElement.dir).toBe("rtl");
+        expect(document.documentElement.lang).toBe("ar-SA");
+        expect(DirectionUtils.getDocumentDirection()).toBe("rtl");
+        expect(DirectionUtils.isRTL()).toBe(true);
+    });
+
+    test("Should swap the horizontal sides only for right-to-left", () => {
+        expect(DirectionUtils.mirror("top right", "rtl")).toBe("top left");
+        expect(DirectionUtils.mirror("arrow left", "rtl")).toBe("arrow right");
+        expect(DirectionUtils.mirror("bottom", "rtl")).toBe("bottom");
+        expect(DirectionUtils.mirror("top right", "ltr")).toBe("top right");
+        expect(DirectionUtils.mirror(true, "rtl")).toBe(true);
+    });
+
+    test("Should use the direction of the document when a direction is not passed in", () => {
+        DirectionUtils.setDocumentDirection("rtl");
+
+        expect(DirectionUtils.mirror("left")).toBe("right");
+    });
+});
@@ -0,0 +1,91 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { JSONSchemaInterface } from "../../models";
+import { JSONSchemaUtils } from "../../utils";
+
+describe("JSON schema util functions", () => {
+    const schema: JSONSchemaInterface = {
+        additionalProperties: false,
+        properties: {
+            category: {
+                enum: [ "DEFAULT", "VENDOR" ],
+                type: "string"
+            },
+            displayOrder: {
+                minimum: -1,
+                type: "integer"
+            },
+            id: {
+                minLength: 1,
+                pattern: "^[a-z0-9-]+$",
+                type: "string"
+            },
+            types: {
+                items: {
+                    type: "string"
+                },
+                type: "array"
+            }
+        },
+        required: [ "id", "category" ],
+        type: "object"
+    };
+
+    test("Should not return errors for a valid value", () => {
+        expect(JSONSchemaUtils.validate(schema, {
+            category: "DEFAULT",
+            displayOrder: 2,
+            id: "react-spa",
+            types: [ "react" ]
+        })).toEqual([]);
+    });
+
+    test("Should report the missing and unknown properties", () => {
+        expect(JSONSchemaUtils.validate(schema, { name: "React" })).toEqual([
+            { message: "should have the required property \"id\".", path: "" },
+            { message: "should have the required property \"category\".", path: "" },
+            { message: "is not an allowed property.", path: "name" }
+        ]);
+    });
+
+    test("Should report the invalid values with their paths", () => {
+        expect(JSONSchemaUtils.validate(schema, {
+            category: "OTHER",
+            displayOrder: 1.5,
+            id: "React SPA",
+            types: [ "react", 2 ]
+        })).toEqual([
+            { message: "should be one of \"DEFAULT\", \"VENDOR\".", path: "category" },
+            { message: "should be of type integer.", path: "displayOrder" },
+            { message: "should match the pattern \"^[a-z0-9-]+$\".", path: "id" },
+            { message: "should be of type string.", path: "types.1" }
+        ]);
+    });
+
+    test("Should accept integers for number types and resolve the value types", () => {
+        expect(JSONSchemaUtils.validate({ maximum: 10, type: "number" }, 3)).toEqual([]);
+        expect(JSONSchemaUtils.validate({ maximum: 10, type: "number" }, 11)).toEqual([
+            { message: "should be less than or equal to 10.", path: "" }
+        ]);
+        expect(JSONSchemaUtils.getType(null)).toBe("null");
+        expect(JSONSchemaUtils.getType([])).toBe("array");
+        expect(JSONSchemaUtils.getType(1.5)).toBe("number");
+    });
+});
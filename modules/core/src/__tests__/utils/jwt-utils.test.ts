@@ -0,0 +1,117 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import * as forge from "node-forge";
+import { JWTConstants } from "../../constants";
+import { DecodedJWTInterface, JWKSInterface, JWTPayloadInterface } from "../../models";
+import { JWTUtils } from "../../utils";
+
+describe("JWT util functions", () => {
+    const keyPair: forge.pki.rsa.KeyPair = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+    const payload: JWTPayloadInterface = {
+        aud: "client",
+        iss: "https://localhost:9443/oauth2/token",
+        name: "Jöhn",
+        sub: "admin"
+    };
+
+    const toBase64Url = (bytes: string): string => forge.util.encode64(bytes)
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "");
+
+    const sign = (alg: string, kid?: string): string => {
+        const unsigned: string = JWTUtils.encode({ alg, kid, typ: "JWT" }, payload);
+        const signingInput: string = unsigned.slice(0, -1);
+        const md: forge.md.MessageDigest = forge.md.sha256.create();
+
+        md.update(signingInput, "utf8");
+
+        const signature: string = alg === "PS256"
+            ? keyPair.privateKey.sign(md, forge.pss.create({
+                md: forge.md.sha256.create(),
+                mgf: forge.mgf.mgf1.create(forge.md.sha256.create()),
+                saltLength: 32
+            }))
+            : keyPair.privateKey.sign(md);
+
+        return `${ signingInput }.${ toBase64Url(signature) }`;
+    };
+
+    const certificate: forge.pki.Certificate = forge.pki.createCertificate();
+
+    certificate.publicKey = keyPair.publicKey;
+    certificate.serialNumber = "01";
+    certificate.setSubject([ { name: "commonName", value: "localhost" } ]);
+    certificate.setIssuer([ { name: "commonName", value: "localhost" } ]);
+    certificate.sign(keyPair.privateKey, forge.md.sha256.create());
+
+    const jwks: JWKSInterface = {
+        keys: [
+            {
+                kid: "signing-key",
+                kty: "RSA",
+                x5c: [ forge.util.encode64(forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes()) ]
+            },
+            {
+                kid: "other-key",
+                kty: "EC"
+            }
+        ]
+    };
+
+    test("Should decode the header and the payload", () => {
+        const token: string = sign("RS256", "signing-key");
+        const decoded: DecodedJWTInterface = JWTUtils.decode(token);
+
+        expect(decoded.header).toEqual({ alg: "RS256", kid: "signing-key", typ: "JWT" });
+        expect(decoded.payload).toEqual(payload);
+        expect(`${ decoded.signingInput }.${ decoded.signature }`).toBe(token);
+    });
+
+    test("Should reject malformed and encrypted tokens", () => {
+        expect(() => JWTUtils.decode("not-a-token")).toThrow(JWTConstants.MALFORMED_TOKEN_ERROR);
+        expect(() => JWTUtils.decode("e30.bm90LWpzb24.")).toThrow(JWTConstants.MALFORMED_TOKEN_ERROR);
+        expect(() => JWTUtils.decode("a.b.c.d.e")).toThrow(JWTConstants.ENCRYPTED_TOKEN_ERROR);
+    });
+
+    test("Should verify RS256 signatures against a PEM public key", () => {
+        const token: string = sign("RS256");
+        const pem: string = forge.pki.publicKeyToPem(keyPair.publicKey);
+        const [ header, , signature ] = token.split(".");
+        const forged: string = JWTUtils.encode({ alg: "none" }, { sub: "attacker" }).split(".")[ 1 ];
+        const tampered: string = [ header, forged, signature ].join(".");
+
+        expect(JWTUtils.verify(token, pem)).toBe(true);
+        expect(JWTUtils.verify(tampered, pem)).toBe(false);
+    });
+
+    test("Should pick the key with the token key ID from a JWKS", () => {
+        expect(JWTUtils.verify(sign("PS256", "signing-key"), JSON.stringify(jwks))).toBe(true);
+        expect(() => JWTUtils.verify(sign("PS256", "unknown-key"), JSON.stringify(jwks)))
+            .toThrow(JWTConstants.NO_MATCHING_KEY_ERROR);
+        expect(() => JWTUtils.verify(sign("RS256"), "-----BEGIN PUBLIC KEY-----"))
+            .toThrow(JWTConstants.INVALID_KEY_ERROR);
+    });
+
+    test("Should reject unsupported algorithms", () => {
+        expect(() => JWTUtils.verify(JWTUtils.encode({ alg: "HS256" }, payload), JSON.stringify(jwks)))
+            .toThrow(JWTConstants.UNSUPPORTED_ALGORITHM_ERROR);
+    });
+});
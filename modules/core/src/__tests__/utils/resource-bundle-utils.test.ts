@@ -0,0 +1,110 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { ResourceBundleParseException } from "../../exceptions";
+import { ResourceBundleFormats, ResourceDiffTypes } from "../../models";
+import { ResourceBundleUtils } from "../../utils";
+
+describe("Resource bundle util functions", () => {
+    const resource = {
+        authenticators: [
+            { name: "Google", secret: "google-secret" },
+            { name: "GitHub" },
+            { name: "Facebook", secret: "facebook-secret" }
+        ],
+        inbound: {
+            oidc: {
+                clientId: "client-id",
+                clientSecret: "client-secret"
+            }
+        },
+        name: "Sample App"
+    };
+
+    test("Should redact the sensitive paths without mutating the resource", () => {
+        const bundle = ResourceBundleUtils.createBundle("Application", resource, [
+            "inbound.oidc.clientSecret",
+            "authenticators.*.secret",
+            "inbound.saml.certificate"
+        ]);
+
+        expect(bundle.redactedFields).toEqual([
+            "inbound.oidc.clientSecret",
+            "authenticators.0.secret",
+            "authenticators.2.secret"
+        ]);
+        expect(bundle.resource.inbound.oidc).toEqual({ clientId: "client-id" });
+        expect(bundle.resource.authenticators[ 0 ]).toEqual({ name: "Google" });
+        expect(resource.inbound.oidc.clientSecret).toBe("client-secret");
+    });
+
+    test("Should parse the serialized JSON and YAML bundles", () => {
+        const bundle = ResourceBundleUtils.createBundle("Application", resource);
+
+        expect(ResourceBundleUtils.parse(ResourceBundleUtils.serialize(bundle, ResourceBundleFormats.JSON),
+            "Application")).toEqual(bundle);
+        expect(ResourceBundleUtils.parse(ResourceBundleUtils.serialize(bundle, ResourceBundleFormats.YAML),
+            "Application")).toEqual(bundle);
+        expect(ResourceBundleUtils.getFileName(bundle, "Sample App", ResourceBundleFormats.YAML))
+            .toBe("sample-app.application.yaml");
+    });
+
+    test("Should reject invalid bundles", () => {
+        const serialized = ResourceBundleUtils.serialize(ResourceBundleUtils.createBundle("Application", resource));
+
+        expect(() => ResourceBundleUtils.parse(serialized, "IdentityProvider"))
+            .toThrow(ResourceBundleParseException);
+        expect(() => ResourceBundleUtils.parse(serialized.replace("\"1.0.0\"", "\"2.0.0\""), "Application"))
+            .toThrow(ResourceBundleParseException);
+        expect(() => ResourceBundleUtils.parse("{ \"name\": \"Sample App\" }", "Application"))
+            .toThrow(ResourceBundleParseException);
+        expect(() => ResourceBundleUtils.parse("{ invalid", "Application"))
+            .toThrow(ResourceBundleParseException);
+    });
+
+    test("Should list the changes between two resources", () => {
+        const incoming = {
+            ...resource,
+            authenticators: [ { name: "Google" } ],
+            description: "Imported app",
+            inbound: {
+                oidc: {
+                    clientId: "new-client-id"
+                }
+            }
+        };
+
+        expect(ResourceBundleUtils.diff(resource, incoming, [ "inbound.oidc.clientSecret" ])).toEqual([
+            {
+                currentValue: resource.authenticators,
+                incomingValue: incoming.authenticators,
+                path: "authenticators",
+                type: ResourceDiffTypes.CHANGED
+            },
+            { incomingValue: "Imported app", path: "description", type: ResourceDiffTypes.ADDED },
+            {
+                currentValue: "client-id",
+                incomingValue: "new-client-id",
+                path: "inbound.oidc.clientId",
+                type: ResourceDiffTypes.CHANGED
+            }
+        ]);
+        expect(ResourceBundleUtils.diff(resource, resource)).toEqual([]);
+    });
+});
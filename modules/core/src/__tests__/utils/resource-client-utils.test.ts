@@ -0,0 +1,168 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { ResourceClientUtils } from "../../utils";
+
+describe("Resource client util functions", () => {
+
+    afterEach(() => {
+        ResourceClientUtils.clear();
+    });
+
+    test("Should de-duplicate the concurrent requests of the same resource", async () => {
+        const fetcher = jest.fn(() => Promise.resolve([ "oidc", "saml" ]));
+        const request = { fetcher, key: "inbound-protocols" };
+
+        const [ first, second ] = await Promise.all([
+            ResourceClientUtils.fetch(request),
+            ResourceClientUtils.fetch(request)
+        ]);
+
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(first).toEqual([ "oidc", "saml" ]);
+        expect(second).toBe(first);
+    });
+
+    test("Should serve fresh data from the cache and re-fetch expired data", async () => {
+        const fetcher = jest.fn(() => Promise.resolve("data"));
+
+        await ResourceClientUtils.fetch({ fetcher, key: "fresh", ttl: 60000 });
+        await ResourceClientUtils.fetch({ fetcher, key: "fresh", ttl: 60000 });
+
+        expect(fetcher).toHaveBeenCalledTimes(1);
+
+        await ResourceClientUtils.fetch({ fetcher, key: "expired", ttl: 0 });
+        await ResourceClientUtils.fetch({ fetcher, key: "expired", ttl: 0 });
+
+        expect(fetcher).toHaveBeenCalledTimes(3);
+
+        await ResourceClientUtils.fetch({ fetcher, key: "fresh" }, { force: true });
+
+        expect(fetcher).toHaveBeenCalledTimes(4);
+    });
+
+    test("Should invalidate the tagged resources after a mutation and notify the subscribers", async () => {
+        const listener = jest.fn();
+
+        await ResourceClientUtils.fetch({ fetcher: () => Promise.resolve(1), key: "idps", tags: [ "idp" ] });
+        await ResourceClientUtils.fetch({ fetcher: () => Promise.resolve(2), key: "apps", tags: [ "app" ] });
+
+        const unsubscribe = ResourceClientUtils.subscribe("idps", listener);
+
+        await ResourceClientUtils.mutate(() => Promise.resolve("deleted"), [ "idp" ]);
+
+        expect(ResourceClientUtils.isStale("idps")).toBe(true);
+        expect(ResourceClientUtils.isStale("apps")).toBe(false);
+        expect(ResourceClientUtils.get("idps").data).toBe(1);
+        expect(listener).toHaveBeenCalledTimes(1);
+
+        unsubscribe();
+        ResourceClientUtils.invalidate([ "idp" ]);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    test("Should not invalidate the cache when the mutation fails", async () => {
+        await ResourceClientUtils.fetch({ fetcher: () => Promise.resolve(1), key: "idps", tags: [ "idp" ] });
+
+        await expect(ResourceClientUtils.mutate(() => Promise.reject(new Error("failed")), [ "idp" ]))
+            .rejects.toThrow("failed");
+        expect(ResourceClientUtils.isStale("idps")).toBe(false);
+    });
+
+    test("Should not cache the response of a request which was in flight during an invalidation", async () => {
+        let resolveOutdated: (data: string) => void;
+        const outdated = new Promise<string>((resolve: (data: string) => void) => {
+            resolveOutdated = resolve;
+        });
+        const fetcher = jest.fn()
+            .mockReturnValueOnce(outdated)
+            .mockReturnValueOnce(Promise.resolve("updated"));
+        const request = { fetcher, key: "idps", tags: [ "idp" ] };
+
+        const first: Promise<string> = ResourceClientUtils.fetch(request);
+
+        await ResourceClientUtils.mutate(() => Promise.resolve("deleted"), [ "idp" ]);
+
+        const second: Promise<string> = ResourceClientUtils.fetch(request);
+
+        expect(fetcher).toHaveBeenCalledTimes(2);
+        expect(second).not.toBe(first);
+
+        await expect(second).resolves.toBe("updated");
+
+        resolveOutdated("outdated");
+
+        await expect(first).resolves.toBe("outdated");
+        expect(ResourceClientUtils.get("idps").data).toBe("updated");
+        expect(ResourceClientUtils.isStale("idps")).toBe(false);
+    });
+
+    test("Should supersede the in-flight request of an invalidated key", async () => {
+        let resolveOutdated: (data: number) => void;
+        const fetcher = jest.fn(() => new Promise<number>((resolve: (data: number) => void) => {
+            resolveOutdated = resolve;
+        }));
+
+        const request: Promise<number> = ResourceClientUtils.fetch({ fetcher, key: "apps" });
+
+        ResourceClientUtils.invalidateKey("apps");
+        resolveOutdated(1);
+
+        await expect(request).resolves.toBe(1);
+        expect(ResourceClientUtils.get("apps")).toBeUndefined();
+    });
+
+    test("Should not re-populate the cache with the responses of the requests in flight while clearing", async () => {
+        let resolveOutdated: (data: number) => void;
+        const fetcher = jest.fn(() => new Promise<number>((resolve: (data: number) => void) => {
+            resolveOutdated = resolve;
+        }));
+
+        const request: Promise<number> = ResourceClientUtils.fetch({ fetcher, key: "tenants" });
+
+        ResourceClientUtils.clear();
+        resolveOutdated(1);
+
+        await request;
+        expect(ResourceClientUtils.get("tenants")).toBeUndefined();
+    });
+
+    test("Should serve stale data when the request fails while offline", async () => {
+        const onLine = jest.spyOn(window.navigator, "onLine", "get");
+
+        await ResourceClientUtils.fetch({ fetcher: () => Promise.resolve("cached"), key: "offline", ttl: 0 });
+
+        onLine.mockReturnValue(false);
+
+        await expect(ResourceClientUtils.fetch({
+            fetcher: () => Promise.reject(new Error("Network Error")),
+            key: "offline"
+        })).resolves.toBe("cached");
+
+        onLine.mockReturnValue(true);
+
+        await expect(ResourceClientUtils.fetch({
+            fetcher: () => Promise.reject(new Error("Network Error")),
+            key: "offline"
+        })).rejects.toThrow("Network Error");
+
+        onLine.mockRestore();
+    });
+});
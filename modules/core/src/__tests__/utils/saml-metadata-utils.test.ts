@@ -0,0 +1,100 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { SAMLMetadataConstants } from "../../constants";
+import { SAMLServiceProviderMetadataInterface } from "../../models";
+import { SAMLMetadataUtils } from "../../utils";
+
+describe("SAML metadata util functions", () => {
+    const metadata: string = `<?xml version="1.0" encoding="UTF-8"?>
+        <md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata"
+                             xmlns:ds="http://www.w3.org/2000/09/xmldsig#" entityID="https://sp.example.com">
+            <md:SPSSODescriptor AuthnRequestsSigned="true"
+                                protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+                <md:KeyDescriptor use="signing">
+                    <ds:KeyInfo><ds:X509Data><ds:X509Certificate>
+                        MIIB
+                        SIGN
+                    </ds:X509Certificate></ds:X509Data></ds:KeyInfo>
+                </md:KeyDescriptor>
+                <md:KeyDescriptor>
+                    <ds:KeyInfo><ds:X509Data>
+                        <ds:X509Certificate>MIIBBOTH</ds:X509Certificate>
+                    </ds:X509Data></ds:KeyInfo>
+                </md:KeyDescriptor>
+                <md:SingleLogoutService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect"
+                                        Location="https://sp.example.com/slo"
+                                        ResponseLocation="https://sp.example.com/slo/response"/>
+                <md:NameIDFormat>urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress</md:NameIDFormat>
+                <md:AssertionConsumerService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST"
+                                             Location="https://sp.example.com/acs/2" index="2" isDefault="true"/>
+                <md:AssertionConsumerService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Artifact"
+                                             Location="https://sp.example.com/acs/1" index="1"/>
+                <md:AssertionConsumerService Binding="urn:oasis:names:tc:SAML:2.0:bindings:PAOS"
+                                             Location="https://sp.example.com/ecp" index="3"/>
+                <md:AttributeConsumingService index="1"/>
+            </md:SPSSODescriptor>
+            <md:Organization/>
+        </md:EntityDescriptor>`;
+
+    test("Should read the service provider details", () => {
+        const parsed: SAMLServiceProviderMetadataInterface = SAMLMetadataUtils.parseServiceProviderMetadata(metadata);
+
+        expect(parsed.entityId).toBe("https://sp.example.com");
+        expect(parsed.authnRequestsSigned).toBe(true);
+        expect(parsed.wantAssertionsSigned).toBe(false);
+        expect(parsed.signingCertificate).toBe("MIIBSIGN");
+        expect(parsed.encryptionCertificate).toBe("MIIBBOTH");
+        expect(parsed.nameIdFormats).toEqual([ "urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress" ]);
+        expect(parsed.assertionConsumerServices.map((endpoint) => endpoint.location))
+            .toEqual([ "https://sp.example.com/acs/1", "https://sp.example.com/acs/2" ]);
+        expect(parsed.singleLogoutServices).toEqual([ {
+            binding: SAMLMetadataConstants.HTTP_REDIRECT_BINDING,
+            location: "https://sp.example.com/slo",
+            responseLocation: "https://sp.example.com/slo/response"
+        } ]);
+        expect(SAMLMetadataUtils.getDefaultEndpoint(parsed.assertionConsumerServices).location)
+            .toBe("https://sp.example.com/acs/2");
+    });
+
+    test("Should report the unsupported elements and bindings", () => {
+        expect(SAMLMetadataUtils.parseServiceProviderMetadata(metadata).unsupportedElements).toEqual([
+            "EntityDescriptor/Organization",
+            "SPSSODescriptor/AttributeConsumingService",
+            "SPSSODescriptor/AssertionConsumerService[@Binding=\"urn:oasis:names:tc:SAML:2.0:bindings:PAOS\"]"
+        ]);
+    });
+
+    test("Should reject documents which don't describe a service provider", () => {
+        expect(() => SAMLMetadataUtils.parseServiceProviderMetadata("<md:EntityDescriptor"))
+            .toThrow(SAMLMetadataConstants.INVALID_METADATA_CONTENT_ERROR);
+        expect(() => SAMLMetadataUtils.parseServiceProviderMetadata(
+            "<EntityDescriptor xmlns=\"urn:oasis:names:tc:SAML:2.0:metadata\" entityID=\"idp\">" +
+            "<IDPSSODescriptor protocolSupportEnumeration=\"urn:oasis:names:tc:SAML:2.0:protocol\"/>" +
+            "</EntityDescriptor>"
+        )).toThrow(SAMLMetadataConstants.MISSING_SP_DESCRIPTOR_ERROR);
+    });
+
+    test("Should replace the entity ID", () => {
+        const updated: string = SAMLMetadataUtils.updateEntityId(metadata, "https://idp.example.com/app");
+
+        expect(updated).toContain("entityID=\"https://idp.example.com/app\"");
+        expect(updated).not.toContain("entityID=\"https://sp.example.com\"");
+    });
+});
@@ -0,0 +1,116 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { SCIMFilterParseException } from "../../exceptions";
+import { SCIMFilterNodeTypes, SCIMFilterOperators } from "../../models";
+import { SCIMFilterUtils, SearchUtils } from "../../utils";
+
+describe("SCIM filter parser util function", () => {
+    test("Should respect the operator precedence", () => {
+        const filter = SCIMFilterUtils.parse("title pr or userType eq \"Employee\" and active eq true");
+
+        expect(filter.type).toBe(SCIMFilterNodeTypes.LOGICAL);
+        expect(SCIMFilterUtils.serialize(filter))
+            .toBe("title pr or userType eq \"Employee\" and active eq true");
+    });
+
+    test("Should parse complex attribute filters with sub attributes", () => {
+        const filter = SCIMFilterUtils.parse("emails[type eq \"work\" and value co \"@wso2.com\"].display pr");
+
+        expect(SCIMFilterUtils.getAttributes(filter)).toEqual([ "emails.type", "emails.value", "emails.display" ]);
+        expect(SCIMFilterUtils.serialize(filter))
+            .toBe("emails[type eq \"work\" and value co \"@wso2.com\"].display pr");
+        expect(SCIMFilterUtils.serialize(SCIMFilterUtils.parse("emails[type eq \"work\"].value")))
+            .toBe("emails[type eq \"work\"].value");
+    });
+
+    test("Should retain the required parentheses and negations", () => {
+        const filter = SCIMFilterUtils.parse("NOT (userName SW \"j\") and ((age gt 30) or (age LE 10.5))");
+
+        expect(SCIMFilterUtils.serialize(filter)).toBe("not (userName sw \"j\") and (age gt 30 or age le 10.5)");
+    });
+
+    test("Should handle quoted values with spaces and escapes", () => {
+        const filter = SCIMFilterUtils.parse("displayName eq \"John \\\"JD\\\" Doe\"");
+
+        expect(filter).toEqual(SCIMFilterUtils.comparison("displayName", SCIMFilterOperators.EQUAL,
+            "John \"JD\" Doe"));
+        expect(SCIMFilterUtils.serialize(filter)).toBe("displayName eq \"John \\\"JD\\\" Doe\"");
+    });
+
+    test("Should report the position of the error", () => {
+        expect.assertions(3);
+        expect(() => SCIMFilterUtils.parse("userName eq \"john\" and (")).toThrow(SCIMFilterParseException);
+
+        try {
+            SCIMFilterUtils.parse("userName xx \"john\"");
+        } catch (error) {
+            expect(error.position).toBe(9);
+        }
+
+        try {
+            SCIMFilterUtils.parse("userName eq \"john");
+        } catch (error) {
+            expect(error.position).toBe(12);
+        }
+    });
+
+    test("Should keep the raw text of un-quoted numbers", () => {
+        expect(SCIMFilterUtils.serialize(SCIMFilterUtils.parse("userName eq 007"))).toBe("userName eq 007");
+        expect(SCIMFilterUtils.serialize(SCIMFilterUtils.parse("externalId eq 12345678901234567890")))
+            .toBe("externalId eq 12345678901234567890");
+        expect(SCIMFilterUtils.serialize(SCIMFilterUtils.parse("phoneNumbers.value eq 94771234567",
+            { allowUnquotedValues: true }))).toBe("phoneNumbers.value eq 94771234567");
+    });
+
+    test("Should not allow un-quoted values by default", () => {
+        expect(() => SCIMFilterUtils.parse("userName eq john")).toThrow(SCIMFilterParseException);
+    });
+});
+
+describe("Search query builder util function", () => {
+    test("Should map the operator aliases", () => {
+        expect(SearchUtils.buildSearchQuery("name starts with john doe")).toBe("name sw john doe");
+        expect(SearchUtils.buildSearchQuery("name contains john")).toBe("name co john");
+        expect(SearchUtils.buildSearchQuery("name sw john and description ends with \"app\""))
+            .toBe("name sw john and description ew \"app\"");
+    });
+
+    test("Should return the raw query if it is not a valid filter", () => {
+        expect(SearchUtils.buildSearchQuery("john")).toBe("john");
+    });
+
+    test("Should validate the attributes of the query", () => {
+        const result = SearchUtils.validateSearchQuery("name sw john or email co wso2", [ "name" ]);
+
+        expect(result.valid).toBe(false);
+        expect(result.position).toBe(16);
+    });
+
+    test("Should report the position of the unsupported value path attributes", () => {
+        const result = SearchUtils.validateSearchQuery("name sw john and emails[type eq work].value co wso2",
+            [ "name", "emails.value" ]);
+
+        expect(result.valid).toBe(false);
+        expect(result.message).toBe("Attribute \"emails.type\" is not supported.");
+        expect(result.position).toBe(24);
+        expect(SearchUtils.validateSearchQuery("emails[type eq work].display pr", [ "emails.type" ]).position)
+            .toBe(21);
+    });
+});
@@ -53,4 +53,77 @@ export class CertificateManagementConstants {
      * @type {string}
      */
     public static readonly END_LINE: string = "";
+
+    /**
+     * Contains the first line of a PEM public key.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly PUBLIC_KEY_PEM_TYPE: string = "PUBLIC KEY";
+
+    /**
+     * Number of days before the expiry a certificate is flagged as expiring.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly DEFAULT_EXPIRY_THRESHOLD_DAYS: number = 30;
+
+    /**
+     * Maximum number of certificates in a chain. Guards against issuer loops.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly MAX_CHAIN_LENGTH: number = 10;
+
+    /**
+     * Extensions of the PKCS#12 files.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly PKCS12_FILE_EXTENSIONS: string[] = [ "p12", "pfx" ];
+
+    /**
+     * Key usages defined in RFC 5280.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly KEY_USAGES: string[] = [
+        "digitalSignature",
+        "nonRepudiation",
+        "keyEncipherment",
+        "dataEncipherment",
+        "keyAgreement",
+        "keyCertSign",
+        "cRLSign",
+        "encipherOnly",
+        "decipherOnly"
+    ];
+
+    /**
+     * Extended key usages recognized by the certificate parser.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly EXTENDED_KEY_USAGES: string[] = [
+        "serverAuth",
+        "clientAuth",
+        "codeSigning",
+        "emailProtection",
+        "timeStamping"
+    ];
+
+    // Certificate decode errors
+    public static readonly INVALID_CERTIFICATE_ERROR: string = "The content is not a valid certificate.";
+    public static readonly PKCS12_PASSWORD_REQUIRED_ERROR: string = "A password is required to open the " +
+        "PKCS#12 file.";
+    public static readonly PKCS12_INVALID_PASSWORD_ERROR: string = "Could not open the PKCS#12 file with the " +
+        "given password.";
+    public static readonly JWK_UNSUPPORTED_KEY_ERROR: string = "Only RSA keys can be converted to PEM.";
+    public static readonly JWKS_NO_CERTIFICATE_ERROR: string = "The JWKS doesn't contain any X.509 certificates.";
 }
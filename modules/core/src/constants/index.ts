@@ -21,9 +21,14 @@ export * from "./certificate-management-constants";
 export * from "./claim-constants";
 export * from "./common-constants";
 export * from "./documentation-constants";
+export * from "./jwt-constants";
 export * from "./pattern-constants";
 export * from "./profile-constants";
+export * from "./resource-bundle-constants";
+export * from "./resource-client-constants";
 export * from "./role-constants";
+export * from "./saml-metadata-constants";
+export * from "./search-constants";
 export * from "./token-constants";
 export * from "./ui-constants";
 export * from "./userstore-constants";
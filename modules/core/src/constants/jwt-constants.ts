@@ -0,0 +1,66 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Class containing JSON Web Token related constants.
+ */
+export class JWTConstants {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Message digests of the RSA signature algorithms which can be verified.
+     * @constant
+     * @type {Map<string, string>}
+     * @default
+     */
+    public static readonly RSA_SIGNATURE_DIGESTS: Map<string, string> = new Map<string, string>([
+        [ "PS256", "sha256" ],
+        [ "PS384", "sha384" ],
+        [ "PS512", "sha512" ],
+        [ "RS256", "sha256" ],
+        [ "RS384", "sha384" ],
+        [ "RS512", "sha512" ]
+    ]);
+
+    /**
+     * RSASSA-PSS signature algorithms. The salt length of these equals the digest length.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly PSS_SIGNATURE_ALGORITHMS: string[] = [ "PS256", "PS384", "PS512" ];
+
+    // Errors
+    public static readonly MALFORMED_TOKEN_ERROR: string = "The token is not a valid JWS in the compact " +
+        "serialization.";
+    public static readonly ENCRYPTED_TOKEN_ERROR: string = "The token is encrypted. Only signed tokens can be " +
+        "decoded.";
+    public static readonly INVALID_KEY_ERROR: string = "The key is not a valid PEM, JWK or JWKS.";
+    public static readonly NO_MATCHING_KEY_ERROR: string = "None of the keys match the key ID of the token.";
+    public static readonly UNSUPPORTED_ALGORITHM_ERROR: string = "Only RS256, RS384, RS512, PS256, PS384 and " +
+        "PS512 signatures can be verified.";
+}
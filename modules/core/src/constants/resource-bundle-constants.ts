@@ -0,0 +1,67 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Class containing resource bundle related constants.
+ */
+export class ResourceBundleConstants {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Current version of the bundle format. Bundles with a different major version can't be imported.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly BUNDLE_VERSION: string = "1.0.0";
+
+    /**
+     * Wildcard which matches every key or array index of a path segment.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly PATH_WILDCARD: string = "*";
+
+    /**
+     * Mime types of the supported bundle formats.
+     * @constant
+     * @type {Map<string, string>}
+     * @default
+     */
+    public static readonly MIME_TYPES: Map<string, string> = new Map<string, string>()
+        .set("json", "application/json")
+        .set("yaml", "application/x-yaml");
+
+    // Errors
+    public static readonly INVALID_BUNDLE_CONTENT_ERROR: string = "The content is not a valid JSON or YAML bundle.";
+    public static readonly INVALID_BUNDLE_STRUCTURE_ERROR: string = "The bundle is missing the kind, version " +
+        "or resource.";
+    public static readonly UNSUPPORTED_BUNDLE_KIND_ERROR: string = "The bundle contains a resource of an " +
+        "unexpected kind.";
+    public static readonly UNSUPPORTED_BUNDLE_VERSION_ERROR: string = "The bundle version is not supported.";
+}
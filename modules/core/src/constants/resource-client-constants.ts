@@ -0,0 +1,49 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Class containing resource client related constants.
+ */
+export class ResourceClientConstants {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Default time in milliseconds for which a cached resource is considered fresh.
+     * @constant
+     * @type {number}
+     * @default
+     */
+    public static readonly DEFAULT_TTL: number = 5 * 60 * 1000;
+
+    /**
+     * Browser event fired when the network connection is restored.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly ONLINE_EVENT: string = "online";
+}
@@ -0,0 +1,144 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+
+/**
+ * Class containing SAML metadata related constants.
+ */
+export class SAMLMetadataConstants {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Namespace of the SAML 2.0 metadata elements.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly METADATA_NAMESPACE: string = "urn:oasis:names:tc:SAML:2.0:metadata";
+
+    /**
+     * Namespace of the XML signature elements.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly XML_SIGNATURE_NAMESPACE: string = "http://www.w3.org/2000/09/xmldsig#";
+
+    /**
+     * Protocol which should be listed in the `protocolSupportEnumeration` of the SSO descriptors.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly PROTOCOL: string = "urn:oasis:names:tc:SAML:2.0:protocol";
+
+    /**
+     * SAML 2.0 HTTP POST binding.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly HTTP_POST_BINDING: string = "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST";
+
+    /**
+     * SAML 2.0 HTTP Redirect binding.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly HTTP_REDIRECT_BINDING: string = "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect";
+
+    /**
+     * SAML 2.0 HTTP Artifact binding.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly HTTP_ARTIFACT_BINDING: string = "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Artifact";
+
+    /**
+     * SAML 2.0 SOAP binding.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly SOAP_BINDING: string = "urn:oasis:names:tc:SAML:2.0:bindings:SOAP";
+
+    /**
+     * Bindings of the assertion consumer services which are read from the service provider metadata.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly SUPPORTED_ASSERTION_CONSUMER_SERVICE_BINDINGS: string[] = [
+        SAMLMetadataConstants.HTTP_POST_BINDING,
+        SAMLMetadataConstants.HTTP_REDIRECT_BINDING,
+        SAMLMetadataConstants.HTTP_ARTIFACT_BINDING
+    ];
+
+    /**
+     * Bindings of the single logout services which are read from the service provider metadata.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly SUPPORTED_SINGLE_LOGOUT_SERVICE_BINDINGS: string[] = [
+        SAMLMetadataConstants.HTTP_POST_BINDING,
+        SAMLMetadataConstants.HTTP_REDIRECT_BINDING,
+        SAMLMetadataConstants.SOAP_BINDING
+    ];
+
+    /**
+     * Children of the `SPSSODescriptor` which are read from the service provider metadata.
+     * The rest are reported as unsupported.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly SUPPORTED_SP_DESCRIPTOR_ELEMENTS: string[] = [
+        "AssertionConsumerService",
+        "KeyDescriptor",
+        "NameIDFormat",
+        "SingleLogoutService"
+    ];
+
+    /**
+     * Children of the `EntityDescriptor` which are read from the service provider metadata.
+     * The rest are reported as unsupported.
+     * @constant
+     * @type {string[]}
+     * @default
+     */
+    public static readonly SUPPORTED_ENTITY_DESCRIPTOR_ELEMENTS: string[] = [
+        "SPSSODescriptor"
+    ];
+
+    // Errors
+    public static readonly INVALID_METADATA_CONTENT_ERROR: string = "The content is not a valid XML document.";
+    public static readonly MISSING_ENTITY_DESCRIPTOR_ERROR: string = "The metadata doesn't have an " +
+        "EntityDescriptor with an entityID.";
+    public static readonly MISSING_SP_DESCRIPTOR_ERROR: string = "The metadata doesn't describe a SAML 2.0 " +
+        "service provider.";
+}
@@ -0,0 +1,82 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { SCIMFilterOperators } from "../models";
+
+/**
+ * Class containing search and SCIM filter related constants.
+ */
+export class SearchConstants {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Human friendly aliases of the SCIM filter operators supported in search queries.
+     * @constant
+     * @type {Map<SCIMFilterOperators, string[]>}
+     * @default
+     */
+    public static readonly SCIM_OPERATOR_ALIASES: Map<SCIMFilterOperators, string[]> = new Map([
+        [ SCIMFilterOperators.CONTAINS, [ "contain", "contains" ] ],
+        [ SCIMFilterOperators.EQUAL, [ "equal", "equals" ] ],
+        [ SCIMFilterOperators.ENDS_WITH, [ "end with", "ends with" ] ],
+        [ SCIMFilterOperators.STARTS_WITH, [ "start with", "starts with" ] ]
+    ]);
+
+    /**
+     * Regex to validate the attribute paths. Allows schema URN prefixes and sub attributes.
+     * ex: `urn:ietf:params:scim:schemas:core:2.0:User:name.givenName`.
+     * @constant
+     * @type {RegExp}
+     * @default
+     */
+    public static readonly SCIM_ATTRIBUTE_PATH_REGEX: RegExp = /^[A-Za-z][\w\-$:.]*$/;
+
+    /**
+     * Regex to identify the numeric literals in a filter.
+     * @constant
+     * @type {RegExp}
+     * @default
+     */
+    public static readonly SCIM_NUMBER_REGEX: RegExp = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+    /**
+     * Escape sequences supported inside quoted filter values.
+     * @constant
+     * @type {Map<string, string>}
+     * @default
+     */
+    public static readonly SCIM_STRING_ESCAPE_SEQUENCES: Map<string, string> = new Map([
+        [ "\"", "\"" ],
+        [ "\\", "\\" ],
+        [ "/", "/" ],
+        [ "b", "\b" ],
+        [ "f", "\f" ],
+        [ "n", "\n" ],
+        [ "r", "\r" ],
+        [ "t", "\t" ]
+    ]);
+}
@@ -16,6 +16,9 @@
  * under the License.
  */
 
+export * from "./certificate-decode-exception";
 export * from "./identity-apps-api-exception";
 export * from "./identity-apps-exception";
 export * from "./identity-apps-module-exception";
+export * from "./resource-bundle-parse-exception";
+export * from "./scim-filter-parse-exception";
@@ -17,4 +17,7 @@
  */
 
 export * from "./use-click-outside";
+export * from "./use-document-direction";
+export * from "./use-mutation";
+export * from "./use-resource";
 export * from "./use-svg-promise";
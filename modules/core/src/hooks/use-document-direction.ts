@@ -0,0 +1,51 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { useEffect, useState } from "react";
+import { TextDirection } from "../models";
+import { DirectionUtils } from "../utils";
+
+/**
+ * React Hook to get the text direction of the document. Re-renders the component
+ * when the `dir` attribute of the root element changes.
+ *
+ * @return {TextDirection} Direction of the document.
+ */
+export const useDocumentDirection = (): TextDirection => {
+
+    const [ direction, setDirection ] = useState<TextDirection>(DirectionUtils.getDocumentDirection());
+
+    useEffect(() => {
+        if (typeof MutationObserver === "undefined") {
+            return;
+        }
+
+        const observer: MutationObserver = new MutationObserver(() => {
+            setDirection(DirectionUtils.getDocumentDirection());
+        });
+
+        observer.observe(document.documentElement, { attributeFilter: [ "dir" ], attributes: true });
+
+        return () => {
+            observer.disconnect();
+        };
+    }, []);
+
+    return direction;
+};
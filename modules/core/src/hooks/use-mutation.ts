@@ -0,0 +1,94 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { MutationOptionsInterface, MutationStateInterface } from "../models";
+import { ResourceClientUtils } from "../utils";
+
+/**
+ * React Hook to run a mutation and invalidate the cached resources affected by it.
+ *
+ * @param {(...args: A) => Promise<T>} mutation - Function which performs the mutation.
+ * @param {MutationOptionsInterface<T>} options - Mutation options.
+ * @return {MutationStateInterface<T, A>}
+ */
+export const useMutation = <T, A extends unknown[] = []>(
+    mutation: (...args: A) => Promise<T>,
+    options: MutationOptionsInterface<T> = {}
+): MutationStateInterface<T, A> => {
+
+    const [ data, setData ] = useState<T>(undefined);
+    const [ error, setError ] = useState<unknown>(null);
+    const [ isLoading, setIsLoading ] = useState<boolean>(false);
+
+    const mutationRef = useRef<(...args: A) => Promise<T>>(mutation);
+    const optionsRef = useRef<MutationOptionsInterface<T>>(options);
+    const isMounted = useRef<boolean>(true);
+
+    mutationRef.current = mutation;
+    optionsRef.current = options;
+
+    useEffect(() => {
+        isMounted.current = true;
+
+        return () => {
+            isMounted.current = false;
+        };
+    }, []);
+
+    const mutate = useCallback((...args: A): Promise<T> => {
+
+        const { invalidates, onError, onSuccess } = optionsRef.current;
+
+        setIsLoading(true);
+        setError(null);
+
+        return ResourceClientUtils.mutate<T>(() => mutationRef.current(...args), invalidates)
+            .then((resolved: T) => {
+                if (isMounted.current) {
+                    setData(resolved);
+                }
+
+                onSuccess && onSuccess(resolved);
+
+                return resolved;
+            })
+            .catch((mutationError: unknown) => {
+                if (isMounted.current) {
+                    setError(mutationError);
+                }
+
+                onError && onError(mutationError);
+
+                throw mutationError;
+            })
+            .finally(() => {
+                if (isMounted.current) {
+                    setIsLoading(false);
+                }
+            });
+    }, []);
+
+    return {
+        data,
+        error,
+        isLoading,
+        mutate
+    };
+};
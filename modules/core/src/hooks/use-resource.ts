@@ -0,0 +1,143 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { ResourceClientConstants } from "../constants";
+import { ResourceRequestInterface, ResourceStateInterface } from "../models";
+import { ResourceClientUtils } from "../utils";
+
+/**
+ * React Hook to resolve a cached resource using the stale-while-revalidate strategy.
+ * Cached data is returned immediately and re-fetched in the background if it is stale,
+ * when it gets invalidated by a mutation or when the network connection is restored.
+ *
+ * @param {ResourceRequestInterface<T>} request - Resource request. Pass `null` to skip fetching.
+ * @return {ResourceStateInterface<T>}
+ */
+export const useResource = <T>(request: ResourceRequestInterface<T>): ResourceStateInterface<T> => {
+
+    const key: string = request?.key;
+
+    const [ data, setData ] = useState<T>(() => key ? ResourceClientUtils.get<T>(key)?.data : undefined);
+    const [ error, setError ] = useState<unknown>(null);
+    const [ isValidating, setIsValidating ] = useState<boolean>(false);
+
+    const requestRef = useRef<ResourceRequestInterface<T>>(request);
+    const isMounted = useRef<boolean>(true);
+    const latestLoad = useRef<number>(0);
+
+    requestRef.current = request;
+
+    useEffect(() => {
+        isMounted.current = true;
+
+        return () => {
+            isMounted.current = false;
+        };
+    }, []);
+
+    /**
+     * Fetches the resource and updates the state.
+     *
+     * @param {boolean} force - Ignore the cached value.
+     * @return {Promise<T>} Resolved data or undefined if the request failed.
+     */
+    const load = useCallback((force: boolean): Promise<T> => {
+
+        const current: ResourceRequestInterface<T> = requestRef.current;
+
+        if (!current) {
+            return Promise.resolve(undefined);
+        }
+
+        // Only the latest load updates the state. An older request might resolve later with outdated data.
+        const loadId: number = ++latestLoad.current;
+        const isLatest = (): boolean => isMounted.current && latestLoad.current === loadId;
+
+        setIsValidating(true);
+
+        return ResourceClientUtils.fetch<T>(current, { force })
+            .then((resolved: T) => {
+                if (isLatest() && requestRef.current?.key === current.key) {
+                    setData(resolved);
+                    setError(null);
+                }
+
+                return resolved;
+            })
+            .catch((fetchError: unknown) => {
+                if (isLatest() && requestRef.current?.key === current.key) {
+                    setError(fetchError);
+                }
+
+                return undefined;
+            })
+            .finally(() => {
+                if (isLatest()) {
+                    setIsValidating(false);
+                }
+            });
+    }, []);
+
+    useEffect(() => {
+
+        if (!key) {
+            setData(undefined);
+
+            return;
+        }
+
+        setData(ResourceClientUtils.get<T>(key)?.data);
+        setError(null);
+        load(false);
+
+        const unsubscribe: () => void = ResourceClientUtils.subscribe(key, () => {
+            if (ResourceClientUtils.isStale(key)) {
+                load(false);
+
+                return;
+            }
+
+            setData(ResourceClientUtils.get<T>(key)?.data);
+        });
+
+        const handleOnline = (): void => {
+            if (ResourceClientUtils.isStale(key)) {
+                load(false);
+            }
+        };
+
+        window.addEventListener(ResourceClientConstants.ONLINE_EVENT, handleOnline);
+
+        return () => {
+            unsubscribe();
+            window.removeEventListener(ResourceClientConstants.ONLINE_EVENT, handleOnline);
+        };
+    }, [ key ]);
+
+    const revalidate = useCallback((): Promise<T> => load(true), [ load ]);
+
+    return {
+        data,
+        error,
+        isLoading: isValidating && data === undefined,
+        isValidating,
+        revalidate
+    };
+};
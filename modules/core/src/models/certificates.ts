@@ -43,3 +43,156 @@ export interface DisplayCertificate {
 export interface DistinguishedName {
     [ key: string ]: string;
 }
+
+/**
+ * Formats of the certificate files supported by the import.
+ */
+export enum CertificateFormats {
+    DER = "der",
+    JWKS = "jwks",
+    PEM = "pem",
+    PKCS12 = "pkcs12"
+}
+
+/**
+ * SHA-1 and SHA-256 fingerprints of a certificate.
+ */
+export interface CertificateFingerprintsInterface {
+    /**
+     * Colon separated hex SHA-1 fingerprint.
+     */
+    sha1: string;
+    /**
+     * Colon separated hex SHA-256 fingerprint.
+     */
+    sha256: string;
+}
+
+/**
+ * Key usages and extended key usages allowed by a certificate.
+ */
+export interface CertificateKeyUsageInterface {
+    /**
+     * Allowed key usages. ex: `digitalSignature`, `keyCertSign`.
+     */
+    keyUsage: string[];
+    /**
+     * Allowed extended key usages. ex: `serverAuth`, `clientAuth`.
+     */
+    extendedKeyUsage: string[];
+}
+
+/**
+ * Errors found while validating a certificate chain.
+ */
+export enum CertificateValidationErrors {
+    EXPIRED = "expired",
+    NOT_YET_VALID = "notYetValid",
+    INVALID_SIGNATURE = "invalidSignature",
+    UNVERIFIABLE_SIGNATURE = "unverifiableSignature",
+    NOT_A_CA = "notACA",
+    INCOMPLETE_CHAIN = "incompleteChain",
+    UNTRUSTED_ROOT = "untrustedRoot",
+    MISSING_KEY_USAGE = "missingKeyUsage",
+    MISSING_EXTENDED_KEY_USAGE = "missingExtendedKeyUsage"
+}
+
+/**
+ * Single issue found while validating a certificate chain.
+ */
+export interface CertificateValidationIssueInterface {
+    /**
+     * Type of the issue.
+     */
+    error: CertificateValidationErrors;
+    /**
+     * Position of the offending certificate in the chain. The leaf certificate is at `0`.
+     */
+    depth: number;
+}
+
+/**
+ * Options of the certificate chain validation.
+ */
+export interface CertificateValidationOptionsInterface {
+    /**
+     * Date to validate the chain at. Defaults to the current date.
+     */
+    date?: Date;
+    /**
+     * Key usages the leaf certificate should allow.
+     */
+    requiredKeyUsage?: string[];
+    /**
+     * Extended key usages the leaf certificate should allow.
+     */
+    requiredExtendedKeyUsage?: string[];
+}
+
+/**
+ * Result of a certificate chain validation.
+ */
+export interface CertificateChainValidationInterface {
+    /**
+     * Chain built from the leaf certificate up to the last issuer found.
+     */
+    chain: DisplayCertificate[];
+    /**
+     * Whether the chain ends in a certificate of the trust store.
+     */
+    isTrusted: boolean;
+    /**
+     * Whether the chain is free of issues.
+     */
+    isValid: boolean;
+    /**
+     * Issues found in the chain.
+     */
+    issues: CertificateValidationIssueInterface[];
+}
+
+/**
+ * Expiry states of a certificate.
+ */
+export enum CertificateExpiryStatuses {
+    VALID = "valid",
+    EXPIRING = "expiring",
+    EXPIRED = "expired",
+    NOT_YET_VALID = "notYetValid"
+}
+
+/**
+ * Expiry details of a certificate.
+ */
+export interface CertificateExpiryInterface {
+    /**
+     * Expiry state of the certificate.
+     */
+    status: CertificateExpiryStatuses;
+    /**
+     * Number of whole days until the certificate expires. Negative if already expired.
+     */
+    daysToExpiry: number;
+}
+
+/**
+ * Model of a JSON Web Key.
+ * @see {@link https://tools.ietf.org/html/rfc7517}
+ */
+export interface JWKInterface {
+    kty: string;
+    kid?: string;
+    use?: string;
+    alg?: string;
+    n?: string;
+    e?: string;
+    x5c?: string[];
+    [ key: string ]: unknown;
+}
+
+/**
+ * Model of a JSON Web Key Set.
+ */
+export interface JWKSInterface {
+    keys: JWKInterface[];
+}
@@ -30,3 +30,8 @@ export interface LinkInterface {
     href: string;
     rel: string;
 }
+
+/**
+ * Text direction of a document or a locale.
+ */
+export type TextDirection = "ltr" | "rtl";
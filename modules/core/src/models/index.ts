@@ -23,10 +23,16 @@ export * from "./config";
 export * from "./core";
 export * from "./documentation";
 export * from "./http";
+export * from "./json-schema";
+export * from "./jwt";
 export * from "./profile";
 export * from "./reducer-state";
+export * from "./resource-bundle";
+export * from "./resource-client";
 export * from "./roles";
 export * from "./route";
+export * from "./saml-metadata";
+export * from "./search";
 export * from "./storage";
 export * from "./tenants";
 export * from "./ua-parser";
@@ -0,0 +1,108 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Value types supported by the JSON schema `type` keyword.
+ */
+export type JSONSchemaTypes = "array" | "boolean" | "integer" | "null" | "number" | "object" | "string";
+
+/**
+ * Subset of the JSON schema (draft-07) keywords understood by the schema validator.
+ * Other keywords such as `$schema`, `title` and `description` are ignored.
+ */
+export interface JSONSchemaInterface {
+    /**
+     * Schema identifier.
+     */
+    $id?: string;
+    /**
+     * Schema dialect.
+     */
+    $schema?: string;
+    /**
+     * Title of the schema.
+     */
+    title?: string;
+    /**
+     * Description of the schema.
+     */
+    description?: string;
+    /**
+     * Allowed type or types of the value.
+     */
+    type?: JSONSchemaTypes | JSONSchemaTypes[];
+    /**
+     * Allowed values.
+     */
+    enum?: unknown[];
+    /**
+     * Properties of an object.
+     */
+    properties?: Record<string, JSONSchemaInterface>;
+    /**
+     * Required properties of an object.
+     */
+    required?: string[];
+    /**
+     * Whether properties not listed in `properties` are allowed, or the schema they should match.
+     */
+    additionalProperties?: boolean | JSONSchemaInterface;
+    /**
+     * Schema of the items of an array.
+     */
+    items?: JSONSchemaInterface;
+    /**
+     * Minimum number of items of an array.
+     */
+    minItems?: number;
+    /**
+     * Minimum length of a string.
+     */
+    minLength?: number;
+    /**
+     * Maximum length of a string.
+     */
+    maxLength?: number;
+    /**
+     * Regular expression a string should match.
+     */
+    pattern?: string;
+    /**
+     * Minimum value of a number.
+     */
+    minimum?: number;
+    /**
+     * Maximum value of a number.
+     */
+    maximum?: number;
+}
+
+/**
+ * Interface for a JSON schema validation error.
+ */
+export interface JSONSchemaValidationErrorInterface {
+    /**
+     * Dot separated path of the invalid value. Empty for the root.
+     */
+    path: string;
+    /**
+     * Description of the error.
+     */
+    message: string;
+}
@@ -0,0 +1,79 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * JOSE header of a JSON Web Token.
+ * @see {@link https://tools.ietf.org/html/rfc7515#section-4}
+ */
+export interface JWTHeaderInterface {
+    /**
+     * Signature or key management algorithm. ex: `RS256`.
+     */
+    alg: string;
+    /**
+     * Media type of the token.
+     */
+    typ?: string;
+    /**
+     * ID of the key used to sign the token.
+     */
+    kid?: string;
+    /**
+     * Content encryption algorithm of an encrypted token.
+     */
+    enc?: string;
+    [ key: string ]: unknown;
+}
+
+/**
+ * Claims set of a JSON Web Token.
+ * @see {@link https://tools.ietf.org/html/rfc7519#section-4}
+ */
+export interface JWTPayloadInterface {
+    iss?: string;
+    sub?: string;
+    aud?: string | string[];
+    exp?: number;
+    nbf?: number;
+    iat?: number;
+    jti?: string;
+    [ key: string ]: unknown;
+}
+
+/**
+ * Parts of a decoded JSON Web Token.
+ */
+export interface DecodedJWTInterface {
+    /**
+     * JOSE header.
+     */
+    header: JWTHeaderInterface;
+    /**
+     * Claims set.
+     */
+    payload: JWTPayloadInterface;
+    /**
+     * Base64url encoded signature.
+     */
+    signature: string;
+    /**
+     * Encoded header and payload which the signature is calculated over.
+     */
+    signingInput: string;
+}
@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Supported serialization formats of the resource bundles.
+ */
+export enum ResourceBundleFormats {
+    JSON = "json",
+    YAML = "yaml"
+}
+
+/**
+ * Portable, versioned snapshot of a resource which can be exported from
+ * one environment and imported to another.
+ */
+export interface ResourceBundleInterface<T = Record<string, unknown>> {
+    /**
+     * Kind of the bundled resource. ex: `Application`, `IdentityProvider`.
+     */
+    kind: string;
+    /**
+     * Version of the bundle format.
+     */
+    version: string;
+    /**
+     * ISO 8601 timestamp of the export.
+     */
+    exportedAt: string;
+    /**
+     * Paths of the sensitive values removed from the resource during the export.
+     */
+    redactedFields: string[];
+    /**
+     * Bundled resource.
+     */
+    resource: T;
+}
+
+/**
+ * Types of the changes found when comparing two resources.
+ */
+export enum ResourceDiffTypes {
+    ADDED = "ADDED",
+    REMOVED = "REMOVED",
+    CHANGED = "CHANGED"
+}
+
+/**
+ * Single change between two resources.
+ */
+export interface ResourceDiffInterface {
+    /**
+     * Dot separated path of the changed value.
+     */
+    path: string;
+    /**
+     * Type of the change.
+     */
+    type: ResourceDiffTypes;
+    /**
+     * Value in the current resource.
+     */
+    currentValue?: unknown;
+    /**
+     * Value in the incoming resource.
+     */
+    incomingValue?: unknown;
+}
@@ -0,0 +1,162 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Function which fetches a resource from the server.
+ */
+export type ResourceFetcherType<T> = () => Promise<T>;
+
+/**
+ * Describes a cacheable resource request.
+ */
+export interface ResourceRequestInterface<T> {
+    /**
+     * Unique key of the resource. Concurrent requests with the same key are de-duplicated.
+     * ex: `applications/meta/inbound-protocols`.
+     */
+    key: string;
+    /**
+     * Fetches the resource.
+     */
+    fetcher: ResourceFetcherType<T>;
+    /**
+     * Tags used to invalidate the cached resource when a related resource is mutated.
+     */
+    tags?: string[];
+    /**
+     * Time in milliseconds for which the cached resource is considered fresh.
+     */
+    ttl?: number;
+}
+
+/**
+ * Options for fetching a resource.
+ */
+export interface ResourceFetchOptionsInterface {
+    /**
+     * Ignore the cached value and fetch the resource from the server.
+     */
+    force?: boolean;
+}
+
+/**
+ * Cached resource.
+ */
+export interface ResourceCacheEntryInterface<T> {
+    /**
+     * Cached data.
+     */
+    data: T;
+    /**
+     * Timestamp after which the data is considered stale.
+     */
+    expiresAt: number;
+    /**
+     * Tags of the resource.
+     */
+    tags: string[];
+    /**
+     * Timestamp of the last successful fetch.
+     */
+    updatedAt: number;
+}
+
+/**
+ * Request which is in flight.
+ */
+export interface ResourceInFlightRequestInterface<T> {
+    /**
+     * Generation of the resource when the request was sent.
+     */
+    generation: number;
+    /**
+     * Pending response.
+     */
+    promise: Promise<T>;
+    /**
+     * Tags of the resource.
+     */
+    tags: string[];
+}
+
+/**
+ * State returned by the `useResource` hook.
+ */
+export interface ResourceStateInterface<T> {
+    /**
+     * Resolved data. Stale data is returned while the resource is being revalidated.
+     */
+    data: T;
+    /**
+     * Error thrown by the last fetch.
+     */
+    error: unknown;
+    /**
+     * Is the resource being fetched for the first time.
+     */
+    isLoading: boolean;
+    /**
+     * Is the resource being re-fetched in the background.
+     */
+    isValidating: boolean;
+    /**
+     * Re-fetches the resource from the server.
+     */
+    revalidate: () => Promise<T>;
+}
+
+/**
+ * Options for the `useMutation` hook.
+ */
+export interface MutationOptionsInterface<T> {
+    /**
+     * Tags of the cached resources which should be invalidated after a successful mutation.
+     */
+    invalidates?: string[];
+    /**
+     * Callback fired after a successful mutation.
+     */
+    onSuccess?: (data: T) => void;
+    /**
+     * Callback fired when the mutation fails.
+     */
+    onError?: (error: unknown) => void;
+}
+
+/**
+ * State returned by the `useMutation` hook.
+ */
+export interface MutationStateInterface<T, A extends unknown[]> {
+    /**
+     * Data resolved by the last mutation.
+     */
+    data: T;
+    /**
+     * Error thrown by the last mutation.
+     */
+    error: unknown;
+    /**
+     * Is a mutation in progress.
+     */
+    isLoading: boolean;
+    /**
+     * Triggers the mutation.
+     */
+    mutate: (...args: A) => Promise<T>;
+}
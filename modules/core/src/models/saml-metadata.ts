@@ -0,0 +1,85 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+
+/**
+ * Endpoint of a SAML entity listed in its metadata.
+ */
+export interface SAMLMetadataEndpointInterface {
+    /**
+     * Binding of the endpoint. ex: `urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST`.
+     */
+    binding: string;
+    /**
+     * URL of the endpoint.
+     */
+    location: string;
+    /**
+     * URL to which the responses should be sent if it differs from the `location`.
+     */
+    responseLocation?: string;
+    /**
+     * Index of an indexed endpoint. ex: Assertion consumer services.
+     */
+    index?: number;
+    /**
+     * Is the endpoint marked as the default among the indexed endpoints.
+     */
+    isDefault?: boolean;
+}
+
+/**
+ * Service provider details read from a SAML 2.0 metadata document.
+ */
+export interface SAMLServiceProviderMetadataInterface {
+    /**
+     * Entity ID of the service provider. Used as the issuer of the authentication requests.
+     */
+    entityId: string;
+    /**
+     * Assertion consumer services ordered by their index.
+     */
+    assertionConsumerServices: SAMLMetadataEndpointInterface[];
+    /**
+     * Single logout services.
+     */
+    singleLogoutServices: SAMLMetadataEndpointInterface[];
+    /**
+     * Base64 encoded certificate used to sign the requests.
+     */
+    signingCertificate?: string;
+    /**
+     * Base64 encoded certificate used to encrypt the assertions.
+     */
+    encryptionCertificate?: string;
+    /**
+     * Supported name ID formats in the order of preference.
+     */
+    nameIdFormats: string[];
+    /**
+     * Does the service provider sign the authentication requests.
+     */
+    authnRequestsSigned: boolean;
+    /**
+     * Does the service provider expect signed assertions.
+     */
+    wantAssertionsSigned: boolean;
+    /**
+     * Elements of the metadata which were not read. ex: `SPSSODescriptor/AttributeConsumingService`.
+     */
+    unsupportedElements: string[];
+}
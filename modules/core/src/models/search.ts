@@ -0,0 +1,289 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Enum for the token types produced by the SCIM filter tokenizer.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum SCIMFilterTokenTypes {
+    /**
+     * Un-quoted word. i.e. Attribute paths, operators, keywords and un-quoted values.
+     * @type {string}
+     */
+    WORD = "WORD",
+    /**
+     * Double quoted string literal.
+     * @type {string}
+     */
+    STRING = "STRING",
+    /**
+     * Opening parenthesis `(`.
+     * @type {string}
+     */
+    OPEN_PARENTHESIS = "OPEN_PARENTHESIS",
+    /**
+     * Closing parenthesis `)`.
+     * @type {string}
+     */
+    CLOSE_PARENTHESIS = "CLOSE_PARENTHESIS",
+    /**
+     * Opening bracket `[` of a value path.
+     * @type {string}
+     */
+    OPEN_BRACKET = "OPEN_BRACKET",
+    /**
+     * Closing bracket `]` of a value path.
+     * @type {string}
+     */
+    CLOSE_BRACKET = "CLOSE_BRACKET",
+    /**
+     * End of the filter.
+     * @type {string}
+     */
+    END = "END"
+}
+
+/**
+ * Interface for a token produced by the SCIM filter tokenizer.
+ */
+export interface SCIMFilterTokenInterface {
+    /**
+     * Type of the token.
+     */
+    type: SCIMFilterTokenTypes;
+    /**
+     * Value of the token. Un-escaped content for string literals.
+     */
+    value: string;
+    /**
+     * Zero based index of the first character of the token in the raw filter.
+     */
+    position: number;
+    /**
+     * Zero based index of the character right after the token in the raw filter.
+     */
+    end: number;
+}
+
+/**
+ * Enum for the SCIM filter comparison operators.
+ * @see {@link https://tools.ietf.org/html/rfc7644#section-3.4.2.2}
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum SCIMFilterOperators {
+    EQUAL = "eq",
+    NOT_EQUAL = "ne",
+    CONTAINS = "co",
+    STARTS_WITH = "sw",
+    ENDS_WITH = "ew",
+    PRESENT = "pr",
+    GREATER_THAN = "gt",
+    GREATER_THAN_OR_EQUAL = "ge",
+    LESS_THAN = "lt",
+    LESS_THAN_OR_EQUAL = "le"
+}
+
+/**
+ * Enum for the SCIM filter logical operators.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum SCIMFilterLogicalOperators {
+    AND = "and",
+    OR = "or"
+}
+
+/**
+ * Enum for the node types of the SCIM filter AST.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum SCIMFilterNodeTypes {
+    /**
+     * Attribute comparison. i.e. `userName eq "john"`.
+     * @type {string}
+     */
+    COMPARISON = "COMPARISON",
+    /**
+     * Attribute presence check. i.e. `title pr`.
+     * @type {string}
+     */
+    PRESENCE = "PRESENCE",
+    /**
+     * Logical `and`/`or` expression.
+     * @type {string}
+     */
+    LOGICAL = "LOGICAL",
+    /**
+     * Negated expression. i.e. `not (title pr)`.
+     * @type {string}
+     */
+    NOT = "NOT",
+    /**
+     * Complex attribute filter. i.e. `emails[type eq "work"].value`.
+     * @type {string}
+     */
+    VALUE_PATH = "VALUE_PATH"
+}
+
+/**
+ * Type of the values that can be compared against in a SCIM filter.
+ */
+export type SCIMFilterComparisonValue = string | number | boolean | null;
+
+/**
+ * Interface for an attribute comparison node.
+ */
+export interface SCIMFilterComparisonNodeInterface {
+    type: SCIMFilterNodeTypes.COMPARISON;
+    /**
+     * Attribute path. ex: `name.givenName`.
+     */
+    attribute: string;
+    /**
+     * Comparison operator.
+     */
+    operator: Exclude<SCIMFilterOperators, SCIMFilterOperators.PRESENT>;
+    /**
+     * Value to compare with.
+     */
+    value: SCIMFilterComparisonValue;
+    /**
+     * Whether the string value was quoted in the raw filter.
+     * Un-quoted values, including numbers, are kept as the raw text and serialized back as it is
+     * to retain the legacy search behaviour.
+     */
+    quoted?: boolean;
+}
+
+/**
+ * Interface for an attribute presence node.
+ */
+export interface SCIMFilterPresenceNodeInterface {
+    type: SCIMFilterNodeTypes.PRESENCE;
+    /**
+     * Attribute path. ex: `title`.
+     */
+    attribute: string;
+}
+
+/**
+ * Interface for a logical expression node.
+ */
+export interface SCIMFilterLogicalNodeInterface {
+    type: SCIMFilterNodeTypes.LOGICAL;
+    /**
+     * Logical operator.
+     */
+    operator: SCIMFilterLogicalOperators;
+    /**
+     * Left hand side expression.
+     */
+    left: SCIMFilterNode;
+    /**
+     * Right hand side expression.
+     */
+    right: SCIMFilterNode;
+}
+
+/**
+ * Interface for a negated expression node.
+ */
+export interface SCIMFilterNotNodeInterface {
+    type: SCIMFilterNodeTypes.NOT;
+    /**
+     * Negated expression.
+     */
+    expression: SCIMFilterNode;
+}
+
+/**
+ * Interface for a complex attribute filter node.
+ */
+export interface SCIMFilterValuePathNodeInterface {
+    type: SCIMFilterNodeTypes.VALUE_PATH;
+    /**
+     * Multi valued attribute path. ex: `emails`.
+     */
+    attribute: string;
+    /**
+     * Filter applied on the values of the attribute.
+     */
+    filter: SCIMFilterNode;
+    /**
+     * Sub attribute selected after the filter. ex: `value` in `emails[type eq "work"].value`.
+     */
+    subAttribute?: string;
+    /**
+     * Condition applied on the sub attribute. ex: `co "@wso2.com"` in `emails[type eq "work"].value co "@wso2.com"`.
+     * The attribute of the condition is the sub attribute.
+     */
+    condition?: SCIMFilterComparisonNodeInterface | SCIMFilterPresenceNodeInterface;
+}
+
+/**
+ * Union of all the SCIM filter AST nodes.
+ */
+export type SCIMFilterNode = SCIMFilterComparisonNodeInterface
+    | SCIMFilterPresenceNodeInterface
+    | SCIMFilterLogicalNodeInterface
+    | SCIMFilterNotNodeInterface
+    | SCIMFilterValuePathNodeInterface;
+
+/**
+ * Options for the SCIM filter parser.
+ */
+export interface SCIMFilterParserOptionsInterface {
+    /**
+     * Allow human friendly operator aliases. ex: `starts with` for `sw`.
+     */
+    allowOperatorAliases?: boolean;
+    /**
+     * Allow un-quoted string values. Consecutive words are treated as a single value.
+     */
+    allowUnquotedValues?: boolean;
+}
+
+/**
+ * Interface for the result of a search query validation.
+ */
+export interface SearchQueryValidationResultInterface {
+    /**
+     * Is the query valid.
+     */
+    valid: boolean;
+    /**
+     * Normalized query. Only available for valid queries.
+     */
+    query?: string;
+    /**
+     * Error message. Only available for invalid queries.
+     */
+    message?: string;
+    /**
+     * Zero based position of the error in the raw query.
+     */
+    position?: number;
+}
@@ -19,7 +19,22 @@
 import { saveAs } from "file-saver";
 import * as forge from "node-forge";
 import { CertificateManagementConstants } from "../constants";
-import { Certificate, DisplayCertificate } from "../models";
+import { CertificateDecodeException } from "../exceptions";
+import {
+    Certificate,
+    CertificateChainValidationInterface,
+    CertificateExpiryInterface,
+    CertificateExpiryStatuses,
+    CertificateFingerprintsInterface,
+    CertificateFormats,
+    CertificateKeyUsageInterface,
+    CertificateValidationErrors,
+    CertificateValidationIssueInterface,
+    CertificateValidationOptionsInterface,
+    DisplayCertificate,
+    JWKInterface,
+    JWKSInterface
+} from "../models";
 
 /**
  * Utility class for certificate management operations.
@@ -248,6 +263,507 @@ export class CertificateManagementUtils {
         return pemValue.join("\n");
     };
 
+    /**
+     * Calculates the SHA-1 and SHA-256 fingerprints of a certificate.
+     *
+     * @param {forge.pki.Certificate} certificate - The Forge Certificate object.
+     *
+     * @returns {CertificateFingerprintsInterface} Colon separated hex fingerprints.
+     */
+    public static getFingerprints(certificate: forge.pki.Certificate): CertificateFingerprintsInterface {
+
+        const der: string = forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes();
+
+        const digest = (md: forge.md.MessageDigest): string => md.update(der).digest().toHex()
+            .toUpperCase()
+            .match(/.{2}/g)
+            .join(":");
+
+        return {
+            sha1: digest(forge.md.sha1.create()),
+            sha256: digest(forge.md.sha256.create())
+        };
+    }
+
+    /**
+     * Resolves the key usages and the extended key usages allowed by a certificate.
+     *
+     * @param {forge.pki.Certificate} certificate - The Forge Certificate object.
+     *
+     * @returns {CertificateKeyUsageInterface} Allowed usages.
+     */
+    public static getKeyUsage(certificate: forge.pki.Certificate): CertificateKeyUsageInterface {
+
+        const keyUsage = certificate.getExtension("keyUsage") as Record<string, unknown>;
+        const extendedKeyUsage = certificate.getExtension("extKeyUsage") as Record<string, unknown>;
+
+        return {
+            extendedKeyUsage: CertificateManagementConstants.EXTENDED_KEY_USAGES
+                .filter((usage: string) => extendedKeyUsage?.[ usage ] === true),
+            keyUsage: CertificateManagementConstants.KEY_USAGES
+                .filter((usage: string) => keyUsage?.[ usage ] === true)
+        };
+    }
+
+    /**
+     * Resolves the expiry state of a certificate.
+     *
+     * @param {Date} validFrom - Start of the validity period.
+     * @param {Date} validTill - End of the validity period.
+     * @param {number} thresholdDays - Number of days before the expiry to flag the certificate as expiring.
+     * @param {Date} date - Date to evaluate the expiry at. Defaults to the current date.
+     *
+     * @returns {CertificateExpiryInterface} Expiry details.
+     */
+    public static getExpiry(validFrom: Date, validTill: Date,
+                            thresholdDays: number = CertificateManagementConstants.DEFAULT_EXPIRY_THRESHOLD_DAYS,
+                            date: Date = new Date()): CertificateExpiryInterface {
+
+        const daysToExpiry: number = Math.floor((validTill.getTime() - date.getTime()) / (24 * 60 * 60 * 1000));
+        let status: CertificateExpiryStatuses = CertificateExpiryStatuses.VALID;
+
+        if (date > validTill) {
+            status = CertificateExpiryStatuses.EXPIRED;
+        } else if (date < validFrom) {
+            status = CertificateExpiryStatuses.NOT_YET_VALID;
+        } else if (daysToExpiry <= thresholdDays) {
+            status = CertificateExpiryStatuses.EXPIRING;
+        }
+
+        return {
+            daysToExpiry,
+            status
+        };
+    }
+
+    /**
+     * Builds the chain of a certificate by following the issuers found in the intermediates and the trust store.
+     * The chain ends at a self signed certificate or when an issuer can't be found.
+     *
+     * @param {forge.pki.Certificate} certificate - The leaf certificate.
+     * @param {forge.pki.Certificate[]} intermediates - Certificates which can be used to build the chain.
+     * @param {forge.pki.Certificate[]} trustStore - Trusted certificates.
+     *
+     * @returns {forge.pki.Certificate[]} Chain starting from the leaf certificate.
+     */
+    public static buildChain(certificate: forge.pki.Certificate, intermediates: forge.pki.Certificate[] = [],
+                             trustStore: forge.pki.Certificate[] = []): forge.pki.Certificate[] {
+
+        const candidates: forge.pki.Certificate[] = [ ...trustStore, ...intermediates ];
+        const chain: forge.pki.Certificate[] = [ certificate ];
+        let current: forge.pki.Certificate = certificate;
+
+        while (chain.length < CertificateManagementConstants.MAX_CHAIN_LENGTH
+            && !CertificateManagementUtils.isSelfSigned(current)) {
+
+            const issuer: forge.pki.Certificate = candidates.find((candidate: forge.pki.Certificate) => {
+                return !chain.includes(candidate) && candidate.issued(current);
+            });
+
+            if (!issuer) {
+                break;
+            }
+
+            chain.push(issuer);
+            current = issuer;
+        }
+
+        return chain;
+    }
+
+    /**
+     * Builds and validates the chain of a certificate against a trust store. Validity periods, signatures,
+     * CA constraints of the issuers and the required usages of the leaf certificate are checked.
+     *
+     * @param {forge.pki.Certificate} certificate - The leaf certificate.
+     * @param {forge.pki.Certificate[]} intermediates - Certificates which can be used to build the chain.
+     * @param {forge.pki.Certificate[]} trustStore - Trusted certificates.
+     * @param {CertificateValidationOptionsInterface} options - Validation options.
+     *
+     * @returns {CertificateChainValidationInterface} Validation result.
+     */
+    public static validateChain(certificate: forge.pki.Certificate, intermediates: forge.pki.Certificate[] = [],
+                                trustStore: forge.pki.Certificate[] = [],
+                                options: CertificateValidationOptionsInterface = {}
+    ): CertificateChainValidationInterface {
+
+        const date: Date = options.date ?? new Date();
+        const chain: forge.pki.Certificate[] = CertificateManagementUtils.buildChain(certificate, intermediates,
+            trustStore);
+        const trustedFingerprints: string[] = trustStore.map((trusted: forge.pki.Certificate) => {
+            return CertificateManagementUtils.getFingerprints(trusted).sha256;
+        });
+        const issues: CertificateValidationIssueInterface[] = [];
+
+        chain.forEach((link: forge.pki.Certificate, depth: number) => {
+            if (date < link.validity.notBefore) {
+                issues.push({ depth, error: CertificateValidationErrors.NOT_YET_VALID });
+            }
+
+            if (date > link.validity.notAfter) {
+                issues.push({ depth, error: CertificateValidationErrors.EXPIRED });
+            }
+
+            if (depth > 0 && !CertificateManagementUtils.isCertificateAuthority(link)) {
+                issues.push({ depth, error: CertificateValidationErrors.NOT_A_CA });
+            }
+
+            const issuer: forge.pki.Certificate = chain[ depth + 1 ]
+                ?? (CertificateManagementUtils.isSelfSigned(link) ? link : null);
+
+            try {
+                if (issuer && !issuer.verify(link)) {
+                    issues.push({ depth, error: CertificateValidationErrors.INVALID_SIGNATURE });
+                }
+            } catch (e) {
+                // Signatures of the algorithms unsupported by forge (ex: ECDSA) can't be verified. Such links are
+                // reported instead of being assumed valid.
+                issues.push({
+                    depth,
+                    error: e.signatureOid
+                        ? CertificateValidationErrors.UNVERIFIABLE_SIGNATURE
+                        : CertificateValidationErrors.INVALID_SIGNATURE
+                });
+            }
+        });
+
+        const usage: CertificateKeyUsageInterface = CertificateManagementUtils.getKeyUsage(certificate);
+
+        if (certificate.getExtension("keyUsage") && options.requiredKeyUsage
+            ?.some((required: string) => !usage.keyUsage.includes(required))) {
+
+            issues.push({ depth: 0, error: CertificateValidationErrors.MISSING_KEY_USAGE });
+        }
+
+        if (certificate.getExtension("extKeyUsage") && options.requiredExtendedKeyUsage
+            ?.some((required: string) => !usage.extendedKeyUsage.includes(required))) {
+
+            issues.push({ depth: 0, error: CertificateValidationErrors.MISSING_EXTENDED_KEY_USAGE });
+        }
+
+        const trustedDepth: number = chain.findIndex((link: forge.pki.Certificate) => {
+            return trustedFingerprints.includes(CertificateManagementUtils.getFingerprints(link).sha256);
+        });
+        // A trusted link only vouches for the links below it if their signatures are verified.
+        const isTrusted: boolean = trustedDepth >= 0 && !issues.some((issue: CertificateValidationIssueInterface) => {
+            return issue.depth < trustedDepth
+                && (issue.error === CertificateValidationErrors.INVALID_SIGNATURE
+                    || issue.error === CertificateValidationErrors.UNVERIFIABLE_SIGNATURE);
+        });
+
+        if (trustedDepth < 0) {
+            issues.push({
+                depth: chain.length - 1,
+                error: CertificateManagementUtils.isSelfSigned(chain[ chain.length - 1 ])
+                    ? CertificateValidationErrors.UNTRUSTED_ROOT
+                    : CertificateValidationErrors.INCOMPLETE_CHAIN
+            });
+        }
+
+        return {
+            chain: chain.map((link: forge.pki.Certificate) => {
+                return CertificateManagementUtils.decodeForgeCertificate({ alias: null, certificate: null }, link);
+            }),
+            isTrusted,
+            isValid: issues.length === 0,
+            issues
+        };
+    }
+
+    /**
+     * Detects the format of a certificate file.
+     *
+     * @param {string} content - Binary string content of the file.
+     * @param {string} fileName - Name of the file. Used to detect the PKCS#12 files.
+     *
+     * @returns {CertificateFormats} Detected format.
+     * @throws {CertificateDecodeException}
+     */
+    public static detectFormat(content: string, fileName?: string): CertificateFormats {
+
+        const extension: string = fileName?.split(".").pop()?.toLowerCase();
+
+        if (fileName?.includes(".") && CertificateManagementConstants.PKCS12_FILE_EXTENSIONS.includes(extension)) {
+            return CertificateFormats.PKCS12;
+        }
+
+        const trimmed: string = content.trim();
+
+        if (trimmed.startsWith("{")) {
+            return CertificateFormats.JWKS;
+        }
+
+        if (trimmed.includes("-----BEGIN") || /^[A-Za-z0-9+/=\s]+$/.test(trimmed)) {
+            return CertificateFormats.PEM;
+        }
+
+        try {
+            const asn1: forge.asn1.Asn1 = forge.asn1.fromDer(content);
+
+            try {
+                forge.pki.certificateFromAsn1(asn1);
+
+                return CertificateFormats.DER;
+            } catch (e) {
+                return CertificateFormats.PKCS12;
+            }
+        } catch (e) {
+            throw new CertificateDecodeException(CertificateManagementConstants.INVALID_CERTIFICATE_ERROR, e.stack);
+        }
+    }
+
+    /**
+     * Decodes the certificates in a PEM, DER, PKCS#12 or JWKS file.
+     *
+     * @param {ArrayBuffer | string} content - Content of the file. Strings are treated as binary strings.
+     * @param {string} fileName - Name of the file.
+     * @param {string} password - Password of the PKCS#12 file.
+     *
+     * @returns {forge.pki.Certificate[]} Decoded certificates. The leaf certificate comes first.
+     * @throws {CertificateDecodeException}
+     */
+    public static decodeCertificates(content: ArrayBuffer | string, fileName?: string,
+                                     password?: string): forge.pki.Certificate[] {
+
+        const bytes: string = typeof content === "string"
+            ? content
+            : forge.util.createBuffer(content).getBytes();
+        const format: CertificateFormats = CertificateManagementUtils.detectFormat(bytes, fileName);
+
+        try {
+            switch (format) {
+                case CertificateFormats.PKCS12:
+                    return CertificateManagementUtils.sortChain(
+                        CertificateManagementUtils.decodePkcs12(bytes, password));
+                case CertificateFormats.JWKS:
+                    return CertificateManagementUtils.decodeJwks(JSON.parse(forge.util.decodeUtf8(bytes)));
+                case CertificateFormats.DER:
+                    return [ forge.pki.certificateFromAsn1(forge.asn1.fromDer(bytes)) ];
+                default:
+                    return CertificateManagementUtils.sortChain(
+                        CertificateManagementUtils.decodePemCertificates(bytes));
+            }
+        } catch (e) {
+            if (e instanceof CertificateDecodeException) {
+                throw e;
+            }
+
+            throw new CertificateDecodeException(CertificateManagementConstants.INVALID_CERTIFICATE_ERROR, e.stack,
+                format);
+        }
+    }
+
+    /**
+     * Converts a JWK to PEM. Keys with an `x5c` chain are converted to the PEM of the first certificate
+     * while RSA keys without a chain are converted to a public key PEM.
+     *
+     * @param {JWKInterface} jwk - The JSON Web Key.
+     *
+     * @returns {string} The PEM string.
+     * @throws {CertificateDecodeException}
+     */
+    public static jwkToPem(jwk: JWKInterface): string {
+
+        if (jwk.x5c?.length > 0) {
+            return forge.pki.certificateToPem(CertificateManagementUtils.decodeX5c(jwk.x5c[ 0 ]));
+        }
+
+        if (jwk.kty !== "RSA" || !jwk.n || !jwk.e) {
+            throw new CertificateDecodeException(CertificateManagementConstants.JWK_UNSUPPORTED_KEY_ERROR, null,
+                CertificateFormats.JWKS);
+        }
+
+        const toInteger = (value: string): forge.asn1.Asn1 => {
+            let bytes: string = CertificateManagementUtils.decodeBase64Url(value);
+
+            // Prevents the integer from being read as a negative number.
+            if (bytes.charCodeAt(0) > 0x7f) {
+                bytes = "\x00" + bytes;
+            }
+
+            return forge.asn1.create(forge.asn1.Class.UNIVERSAL, forge.asn1.Type.INTEGER, false, bytes);
+        };
+
+        const rsaPublicKey: forge.asn1.Asn1 = forge.asn1.create(forge.asn1.Class.UNIVERSAL,
+            forge.asn1.Type.SEQUENCE, true, [ toInteger(jwk.n), toInteger(jwk.e) ]);
+
+        return forge.pki.publicKeyToPem(forge.pki.publicKeyFromAsn1(rsaPublicKey));
+    }
+
+    /**
+     * Checks if a certificate is self signed.
+     *
+     * @param {forge.pki.Certificate} certificate - The Forge Certificate object.
+     *
+     * @returns {boolean} True if the issuer and the subject are the same.
+     */
+    public static isSelfSigned(certificate: forge.pki.Certificate): boolean {
+
+        return certificate.isIssuer(certificate);
+    }
+
+    /**
+     * Checks if a certificate is allowed to issue other certificates. Version 1 certificates don't have
+     * extensions and are treated as authorities.
+     *
+     * @param {forge.pki.Certificate} certificate - The Forge Certificate object.
+     *
+     * @returns {boolean} True if the certificate is a certificate authority.
+     */
+    private static isCertificateAuthority(certificate: forge.pki.Certificate): boolean {
+
+        if (certificate.version === 0) {
+            return true;
+        }
+
+        const basicConstraints = certificate.getExtension("basicConstraints") as { cA?: boolean };
+        const keyUsage = certificate.getExtension("keyUsage") as { keyCertSign?: boolean };
+
+        return basicConstraints?.cA === true && (!keyUsage || keyUsage.keyCertSign === true);
+    }
+
+    /**
+     * Orders a set of certificates so that the leaf certificate comes first.
+     *
+     * @param {forge.pki.Certificate[]} certificates - Certificates to sort.
+     *
+     * @returns {forge.pki.Certificate[]} Sorted certificates.
+     */
+    private static sortChain(certificates: forge.pki.Certificate[]): forge.pki.Certificate[] {
+
+        const leaves: forge.pki.Certificate[] = certificates.filter((certificate: forge.pki.Certificate) => {
+            return !certificates.some((other: forge.pki.Certificate) => {
+                return other !== certificate && certificate.issued(other);
+            });
+        });
+        const leaf: forge.pki.Certificate = leaves.find((certificate: forge.pki.Certificate) => {
+            return !CertificateManagementUtils.isSelfSigned(certificate);
+        }) ?? leaves[ 0 ];
+
+        if (!leaf) {
+            return certificates;
+        }
+
+        const chain: forge.pki.Certificate[] = CertificateManagementUtils.buildChain(leaf, certificates);
+
+        return [ ...chain, ...certificates.filter((certificate: forge.pki.Certificate) => {
+            return !chain.includes(certificate);
+        }) ];
+    }
+
+    /**
+     * Decodes every certificate in a PEM string. Stripped PEM content is also supported.
+     *
+     * @param {string} content - The PEM string.
+     *
+     * @returns {forge.pki.Certificate[]} Decoded certificates.
+     */
+    private static decodePemCertificates(content: string): forge.pki.Certificate[] {
+
+        const pem: string = content.includes("-----BEGIN")
+            ? content
+            : CertificateManagementUtils.enclosePem(content.trim());
+
+        const certificates: forge.pki.Certificate[] = forge.pem.decode(pem)
+            .filter((message: forge.pem.ObjectPEM) => message.type.endsWith("CERTIFICATE"))
+            .map((message: forge.pem.ObjectPEM) => {
+                return forge.pki.certificateFromAsn1(forge.asn1.fromDer(message.body));
+            });
+
+        if (certificates.length === 0) {
+            throw new CertificateDecodeException(CertificateManagementConstants.INVALID_CERTIFICATE_ERROR, null,
+                CertificateFormats.PEM);
+        }
+
+        return certificates;
+    }
+
+    /**
+     * Decodes the certificates in a PKCS#12 file.
+     *
+     * @param {string} content - Binary string content of the file.
+     * @param {string} password - Password of the file. An empty password is tried if not provided.
+     *
+     * @returns {forge.pki.Certificate[]} Decoded certificates.
+     * @throws {CertificateDecodeException}
+     */
+    private static decodePkcs12(content: string, password?: string): forge.pki.Certificate[] {
+
+        let pkcs12: forge.pkcs12.Pkcs12Pfx;
+
+        try {
+            pkcs12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(content), false, password ?? "");
+        } catch (e) {
+            throw new CertificateDecodeException(password
+                ? CertificateManagementConstants.PKCS12_INVALID_PASSWORD_ERROR
+                : CertificateManagementConstants.PKCS12_PASSWORD_REQUIRED_ERROR, e.stack, CertificateFormats.PKCS12);
+        }
+
+        const certificates: forge.pki.Certificate[] = (pkcs12.getBags({ bagType: forge.pki.oids.certBag })[
+            forge.pki.oids.certBag ] ?? [])
+            .map((bag: forge.pkcs12.Bag) => bag.cert)
+            .filter(Boolean);
+
+        if (certificates.length === 0) {
+            throw new CertificateDecodeException(CertificateManagementConstants.INVALID_CERTIFICATE_ERROR, null,
+                CertificateFormats.PKCS12);
+        }
+
+        return certificates;
+    }
+
+    /**
+     * Decodes the certificates in the `x5c` chains of a JWKS. A single JWK is also accepted.
+     *
+     * @param {JWKSInterface | JWKInterface} jwks - The JSON Web Key Set.
+     *
+     * @returns {forge.pki.Certificate[]} The first certificate of each key.
+     * @throws {CertificateDecodeException}
+     */
+    private static decodeJwks(jwks: JWKSInterface | JWKInterface): forge.pki.Certificate[] {
+
+        const keys: JWKInterface[] = Array.isArray((jwks as JWKSInterface).keys)
+            ? (jwks as JWKSInterface).keys
+            : [ jwks as JWKInterface ];
+
+        const certificates: forge.pki.Certificate[] = keys
+            .filter((key: JWKInterface) => key.x5c?.length > 0)
+            .map((key: JWKInterface) => CertificateManagementUtils.decodeX5c(key.x5c[ 0 ]));
+
+        if (certificates.length === 0) {
+            throw new CertificateDecodeException(CertificateManagementConstants.JWKS_NO_CERTIFICATE_ERROR, null,
+                CertificateFormats.JWKS);
+        }
+
+        return certificates;
+    }
+
+    /**
+     * Decodes a base64 encoded DER certificate of an `x5c` chain.
+     *
+     * @param {string} x5c - Base64 encoded DER certificate.
+     *
+     * @returns {forge.pki.Certificate} The Forge Certificate object.
+     */
+    private static decodeX5c(x5c: string): forge.pki.Certificate {
+
+        return forge.pki.certificateFromAsn1(forge.asn1.fromDer(forge.util.decode64(x5c)));
+    }
+
+    /**
+     * Decodes a base64url encoded value to a binary string.
+     *
+     * @param {string} value - Base64url encoded value.
+     *
+     * @returns {string} Binary string.
+     */
+    public static decodeBase64Url(value: string): string {
+
+        const base64: string = value.replace(/-/g, "+").replace(/_/g, "/");
+
+        return forge.util.decode64(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+    }
+
     /**
      * Base 64 decodes the certificate content. If not a valid base 64 content, returns null.
      *
@@ -185,6 +185,45 @@ export class CommonUtils {
         return navigator.clipboard.writeText(text).then(() => true, () => false);
     }
 
+    /**
+     * Maps the items to promises while running at most the given number of them at a time.
+     * ex: To avoid flooding the server when a request has to be sent per item.
+     *
+     * @param {T[]} items - Items to be mapped.
+     * @param {number} concurrency - Maximum number of pending promises.
+     * @param {(item: T, index: number) => Promise<R>} mapper - Maps an item to a promise.
+     * @return {Promise<R[]>} Results in the order of the items.
+     */
+    public static mapWithConcurrency<T, R>(items: T[], concurrency: number,
+                                           mapper: (item: T, index: number) => Promise<R>): Promise<R[]> {
+
+        const results: R[] = new Array(items.length);
+        let next: number = 0;
+
+        const run = (): Promise<void> => {
+            if (next >= items.length) {
+                return Promise.resolve();
+            }
+
+            const index: number = next++;
+
+            return mapper(items[ index ], index)
+                .then((result: R) => {
+                    results[ index ] = result;
+
+                    return run();
+                });
+        };
+
+        const runners: Promise<void>[] = [];
+
+        for (let i = 0; i < Math.max(1, Math.min(concurrency, items.length)); i++) {
+            runners.push(run());
+        }
+
+        return Promise.all(runners).then(() => results);
+    }
+
     /**
      * Get the list of countries to be added to the country dropdown input field.
      *
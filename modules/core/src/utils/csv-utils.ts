@@ -0,0 +1,86 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Utility class for CSV operations.
+ */
+export class CSVUtils {
+
+    /**
+     * Spreadsheet applications evaluate the cells starting with these characters as formulae.
+     */
+    private static readonly FORMULA_PREFIX_REGEX: RegExp = /^[=+\-@\t\r]/;
+
+    /**
+     * Prefix used to neutralize the cells which would otherwise be evaluated as formulae.
+     */
+    private static readonly FORMULA_ESCAPE_PREFIX: string = "'";
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Serializes lines to CSV according to RFC 4180. Text fields which would be evaluated as formulae by
+     * spreadsheet applications are prefixed with a single quote. ex: `=HYPERLINK(...)` in a user attribute.
+     *
+     * @param {(string | number)[][]} lines - Lines to be serialized.
+     * @return {string} CSV content.
+     */
+    public static serialize(lines: (string | number)[][]): string {
+
+        return lines
+            .map((fields: (string | number)[]) => fields.map(CSVUtils.escapeField).join(","))
+            .join("\r\n");
+    }
+
+    /**
+     * Escapes a single CSV field. Numbers are written as they are since they can't contain formulae.
+     *
+     * @param {string | number} field - Field value.
+     * @return {string} Escaped field.
+     */
+    public static escapeField(field: string | number): string {
+
+        const value: string = (typeof field === "string" && CSVUtils.FORMULA_PREFIX_REGEX.test(field))
+            ? CSVUtils.FORMULA_ESCAPE_PREFIX + field
+            : String(field ?? "");
+
+        return /[",\r\n]/.test(value) ? `"${ value.replace(/"/g, "\"\"") }"` : value;
+    }
+
+    /**
+     * Reverts the single quote prefix added by {@link CSVUtils.serialize} to neutralize formulae.
+     *
+     * @param {string} value - Field value.
+     * @return {string} Original value.
+     */
+    public static unescapeFormula(value: string): string {
+
+        const escaped: boolean = value.startsWith(CSVUtils.FORMULA_ESCAPE_PREFIX)
+            && CSVUtils.FORMULA_PREFIX_REGEX.test(value.substring(1));
+
+        return escaped ? value.substring(1) : value;
+    }
+}
@@ -0,0 +1,97 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TextDirection } from "../models";
+
+/**
+ * Utility class for text direction related operations.
+ */
+export class DirectionUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Returns the text direction of the document. Falls back to `ltr` when the `dir`
+     * attribute is not set on the root element.
+     *
+     * @return {TextDirection} Direction of the document.
+     */
+    public static getDocumentDirection(): TextDirection {
+
+        return document?.documentElement?.dir === "rtl" ? "rtl" : "ltr";
+    }
+
+    /**
+     * Sets the `dir` and the `lang` attributes of the root element of the document.
+     *
+     * @param {TextDirection} direction - Text direction.
+     * @param {string} language - Language code.
+     */
+    public static setDocumentDirection(direction: TextDirection, language?: string): void {
+
+        if (!document?.documentElement) {
+            return;
+        }
+
+        document.documentElement.dir = direction === "rtl" ? "rtl" : "ltr";
+
+        if (language) {
+            document.documentElement.lang = language;
+        }
+    }
+
+    /**
+     * Checks if the direction is right-to-left. Uses the direction of the document if
+     * a direction is not passed in.
+     *
+     * @param {TextDirection} direction - Text direction.
+     * @return {boolean} True if the direction is right-to-left.
+     */
+    public static isRTL(direction: TextDirection = DirectionUtils.getDocumentDirection()): boolean {
+
+        return direction === "rtl";
+    }
+
+    /**
+     * Swaps the `left` and `right` words of a horizontal position, alignment or icon name
+     * when the direction is right-to-left. ex: `top right` becomes `top left`.
+     * Values other than strings are returned as they are.
+     *
+     * @param {T} value - Value to be mirrored.
+     * @param {TextDirection} direction - Text direction.
+     * @return {T} Mirrored value.
+     */
+    public static mirror<T>(value: T, direction: TextDirection = DirectionUtils.getDocumentDirection()): T {
+
+        if (typeof value !== "string" || !DirectionUtils.isRTL(direction)) {
+            return value;
+        }
+
+        return value.replace(/\b(left|right)\b/g, (side: string) => {
+            return side === "left" ? "right" : "left";
+        }) as unknown as T;
+    }
+}
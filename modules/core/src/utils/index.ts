@@ -22,10 +22,18 @@ export * from "./certificate-management-utils";
 export * from "./common-utils";
 export * from "./context-utils";
 export * from "./crypto-utils";
+export * from "./csv-utils";
+export * from "./direction-utils";
 export * from "./encode-decode-utils";
 export * from "./image-utils";
+export * from "./json-schema-utils";
+export * from "./jwt-utils";
 export * from "./profile-utils";
+export * from "./resource-bundle-utils";
+export * from "./resource-client-utils";
 export * from "./route-utils";
+export * from "./saml-metadata-utils";
+export * from "./scim-filter-utils";
 export * from "./search-utils";
 export * from "./storage-utils";
 export * from "./string-utils";
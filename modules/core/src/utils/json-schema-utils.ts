@@ -0,0 +1,233 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { JSONSchemaInterface, JSONSchemaTypes, JSONSchemaValidationErrorInterface } from "../models";
+
+/**
+ * Utility class to validate values against JSON schemas.
+ */
+export class JSONSchemaUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Validates a value against a schema. Only the keywords listed in `JSONSchemaInterface` are evaluated.
+     *
+     * @example
+     * // Returns `[ { message: "should have the required property \"id\".", path: "" } ]`.
+     * JSONSchemaUtils.validate({ required: [ "id" ], type: "object" }, {});
+     *
+     * @param {JSONSchemaInterface} schema - Schema to validate against.
+     * @param {unknown} value - Value to be validated.
+     * @return {JSONSchemaValidationErrorInterface[]} Validation errors. Empty if the value is valid.
+     */
+    public static validate(schema: JSONSchemaInterface, value: unknown): JSONSchemaValidationErrorInterface[] {
+
+        return JSONSchemaUtils.validatePath(schema, value, []);
+    }
+
+    /**
+     * Resolves the JSON schema type of a value.
+     *
+     * @param {unknown} value - Value.
+     * @return {JSONSchemaTypes} Type of the value.
+     */
+    public static getType(value: unknown): JSONSchemaTypes {
+
+        if (value === null) {
+            return "null";
+        }
+
+        if (Array.isArray(value)) {
+            return "array";
+        }
+
+        if (typeof value === "number") {
+            return Number.isInteger(value) ? "integer" : "number";
+        }
+
+        return typeof value as JSONSchemaTypes;
+    }
+
+    /**
+     * Recursively validates the value in a path.
+     *
+     * @param {JSONSchemaInterface} schema - Schema of the path.
+     * @param {unknown} value - Value in the path.
+     * @param {string[]} path - Resolved path segments so far.
+     * @return {JSONSchemaValidationErrorInterface[]} Validation errors.
+     */
+    private static validatePath(schema: JSONSchemaInterface, value: unknown,
+                                path: string[]): JSONSchemaValidationErrorInterface[] {
+
+        if (!schema) {
+            return [];
+        }
+
+        const error = (message: string): JSONSchemaValidationErrorInterface => ({ message, path: path.join(".") });
+        const type: JSONSchemaTypes = JSONSchemaUtils.getType(value);
+
+        if (schema.type) {
+            const allowedTypes: JSONSchemaTypes[] = Array.isArray(schema.type) ? schema.type : [ schema.type ];
+            const isAllowed: boolean = allowedTypes.includes(type)
+                || (type === "integer" && allowedTypes.includes("number"));
+
+            if (!isAllowed) {
+                return [ error(`should be of type ${ allowedTypes.join(" or ") }.`) ];
+            }
+        }
+
+        if (schema.enum && !schema.enum.some((allowed: unknown) => {
+            return JSON.stringify(allowed) === JSON.stringify(value);
+        })) {
+            return [ error(`should be one of ${ schema.enum.map((allowed) => JSON.stringify(allowed)).join(", ") }.`) ];
+        }
+
+        if (type === "string") {
+            return JSONSchemaUtils.validateString(schema, value as string).map(error);
+        }
+
+        if (type === "integer" || type === "number") {
+            return JSONSchemaUtils.validateNumber(schema, value as number).map(error);
+        }
+
+        if (type === "array") {
+            const items: unknown[] = value as unknown[];
+            const errors: JSONSchemaValidationErrorInterface[] = [];
+
+            if (schema.minItems !== undefined && items.length < schema.minItems) {
+                errors.push(error(`should have at least ${ schema.minItems } item(s).`));
+            }
+
+            items.forEach((item: unknown, index: number) => {
+                errors.push(...JSONSchemaUtils.validatePath(schema.items, item, [ ...path, index.toString() ]));
+            });
+
+            return errors;
+        }
+
+        if (type === "object") {
+            return JSONSchemaUtils.validateObject(schema, value as Record<string, unknown>, path);
+        }
+
+        return [];
+    }
+
+    /**
+     * Validates the properties of an object.
+     *
+     * @param {JSONSchemaInterface} schema - Schema of the object.
+     * @param {Record<string, unknown>} value - Object to be validated.
+     * @param {string[]} path - Path of the object.
+     * @return {JSONSchemaValidationErrorInterface[]} Validation errors.
+     */
+    private static validateObject(schema: JSONSchemaInterface, value: Record<string, unknown>,
+                                  path: string[]): JSONSchemaValidationErrorInterface[] {
+
+        const errors: JSONSchemaValidationErrorInterface[] = [];
+        const properties: Record<string, JSONSchemaInterface> = schema.properties ?? {};
+
+        schema.required?.forEach((property: string) => {
+            if (value[ property ] === undefined) {
+                errors.push({ message: `should have the required property "${ property }".`, path: path.join(".") });
+            }
+        });
+
+        Object.keys(value).forEach((property: string) => {
+            if (value[ property ] === undefined) {
+                return;
+            }
+
+            if (Object.prototype.hasOwnProperty.call(properties, property)) {
+                errors.push(...JSONSchemaUtils.validatePath(properties[ property ], value[ property ],
+                    [ ...path, property ]));
+
+                return;
+            }
+
+            if (schema.additionalProperties === false) {
+                errors.push({ message: "is not an allowed property.", path: [ ...path, property ].join(".") });
+
+                return;
+            }
+
+            if (typeof schema.additionalProperties === "object") {
+                errors.push(...JSONSchemaUtils.validatePath(schema.additionalProperties, value[ property ],
+                    [ ...path, property ]));
+            }
+        });
+
+        return errors;
+    }
+
+    /**
+     * Validates the length and the pattern of a string.
+     *
+     * @param {JSONSchemaInterface} schema - Schema of the string.
+     * @param {string} value - String to be validated.
+     * @return {string[]} Error messages.
+     */
+    private static validateString(schema: JSONSchemaInterface, value: string): string[] {
+
+        const messages: string[] = [];
+
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            messages.push(`should have at least ${ schema.minLength } character(s).`);
+        }
+
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            messages.push(`should not have more than ${ schema.maxLength } character(s).`);
+        }
+
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            messages.push(`should match the pattern "${ schema.pattern }".`);
+        }
+
+        return messages;
+    }
+
+    /**
+     * Validates the range of a number.
+     *
+     * @param {JSONSchemaInterface} schema - Schema of the number.
+     * @param {number} value - Number to be validated.
+     * @return {string[]} Error messages.
+     */
+    private static validateNumber(schema: JSONSchemaInterface, value: number): string[] {
+
+        const messages: string[] = [];
+
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            messages.push(`should be greater than or equal to ${ schema.minimum }.`);
+        }
+
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            messages.push(`should be less than or equal to ${ schema.maximum }.`);
+        }
+
+        return messages;
+    }
+}
@@ -0,0 +1,214 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import * as forge from "node-forge";
+import { CertificateManagementUtils } from "./certificate-management-utils";
+import { JWTConstants } from "../constants";
+import {
+    DecodedJWTInterface,
+    JWKInterface,
+    JWKSInterface,
+    JWTHeaderInterface,
+    JWTPayloadInterface
+} from "../models";
+
+/**
+ * Utility class to decode and verify JSON Web Tokens.
+ */
+export class JWTUtils {
+
+    /**
+     * Message digest factories by their name.
+     */
+    private static readonly MESSAGE_DIGESTS: Record<string, () => forge.md.MessageDigest> = {
+        sha256: forge.md.sha256.create,
+        sha384: forge.md.sha384.create,
+        sha512: forge.md.sha512.create
+    };
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Decodes a signed JWT in the compact serialization. The signature is not verified.
+     *
+     * @param {string} token - The JWT.
+     * @return {DecodedJWTInterface} Decoded token.
+     * @throws {Error} If the token is malformed or encrypted.
+     */
+    public static decode(token: string): DecodedJWTInterface {
+
+        const parts: string[] = (token ?? "").trim().split(".");
+
+        if (parts.length === 5) {
+            throw new Error(JWTConstants.ENCRYPTED_TOKEN_ERROR);
+        }
+
+        if (parts.length !== 3 || parts.some((part: string) => !/^[A-Za-z0-9_-]*$/.test(part))) {
+            throw new Error(JWTConstants.MALFORMED_TOKEN_ERROR);
+        }
+
+        try {
+            const [ header, payload ] = parts.slice(0, 2).map((part: string) => {
+                return JSON.parse(forge.util.decodeUtf8(CertificateManagementUtils.decodeBase64Url(part)));
+            });
+
+            if (typeof header?.alg !== "string" || typeof payload !== "object" || payload === null) {
+                throw new Error(JWTConstants.MALFORMED_TOKEN_ERROR);
+            }
+
+            return {
+                header,
+                payload,
+                signature: parts[ 2 ],
+                signingInput: `${ parts[ 0 ] }.${ parts[ 1 ] }`
+            };
+        } catch (e) {
+            throw new Error(JWTConstants.MALFORMED_TOKEN_ERROR);
+        }
+    }
+
+    /**
+     * Encodes a header and a claims set to an unsecured JWT. Used to show how a token would be serialized.
+     *
+     * @param {JWTHeaderInterface} header - JOSE header.
+     * @param {JWTPayloadInterface} payload - Claims set.
+     * @param {string} signature - Base64url encoded signature to append.
+     * @return {string} The JWT.
+     */
+    public static encode(header: JWTHeaderInterface, payload: JWTPayloadInterface, signature: string = ""): string {
+
+        const encode = (value: JWTHeaderInterface | JWTPayloadInterface): string => forge.util
+            .encode64(forge.util.encodeUtf8(JSON.stringify(value)))
+            .replace(/\+/g, "-")
+            .replace(/\//g, "_")
+            .replace(/=+$/, "");
+
+        return `${ encode(header) }.${ encode(payload) }.${ signature }`;
+    }
+
+    /**
+     * Verifies the signature of a JWT against a PEM encoded certificate or public key, a JWK or a JWKS.
+     * When a key set is given for a token with a `kid`, only the keys with the same ID are tried.
+     *
+     * @param {string} token - The JWT.
+     * @param {string} keyMaterial - PEM, JWK or JWKS content.
+     * @return {boolean} True if the signature is valid.
+     * @throws {Error} If the token or the key can't be read, or the algorithm is not supported.
+     */
+    public static verify(token: string, keyMaterial: string): boolean {
+
+        const { header, signature, signingInput } = JWTUtils.decode(token);
+        const digest: string = JWTConstants.RSA_SIGNATURE_DIGESTS.get(header.alg);
+
+        if (!digest) {
+            throw new Error(JWTConstants.UNSUPPORTED_ALGORITHM_ERROR);
+        }
+
+        const keys: forge.pki.rsa.PublicKey[] = JWTUtils.readPublicKeys(keyMaterial, header.kid);
+        const createDigest = (): forge.md.MessageDigest => JWTUtils.MESSAGE_DIGESTS[ digest ]();
+        const messageDigest: forge.md.MessageDigest = createDigest();
+
+        messageDigest.update(signingInput, "utf8");
+
+        const hash: string = messageDigest.digest().bytes();
+        const scheme: forge.pki.rsa.SignatureScheme = JWTConstants.PSS_SIGNATURE_ALGORITHMS.includes(header.alg)
+            ? forge.pss.create({
+                md: createDigest(),
+                mgf: forge.mgf.mgf1.create(createDigest()),
+                saltLength: hash.length
+            })
+            : "RSASSA-PKCS1-V1_5";
+        const signatureBytes: string = CertificateManagementUtils.decodeBase64Url(signature);
+
+        return keys.some((key: forge.pki.rsa.PublicKey) => {
+            try {
+                return key.verify(hash, signatureBytes, scheme);
+            } catch (e) {
+                // Forge throws if the signature length doesn't match the key.
+                return false;
+            }
+        });
+    }
+
+    /**
+     * Reads the RSA public keys out of a PEM, JWK or JWKS.
+     *
+     * @param {string} keyMaterial - PEM, JWK or JWKS content.
+     * @param {string} kid - Key ID of the token.
+     * @return {forge.pki.rsa.PublicKey[]} Public keys to try.
+     * @throws {Error} If the content can't be read or doesn't have a matching key.
+     */
+    private static readPublicKeys(keyMaterial: string, kid?: string): forge.pki.rsa.PublicKey[] {
+
+        const content: string = (keyMaterial ?? "").trim();
+
+        try {
+            if (!content.startsWith("{")) {
+                return [ JWTUtils.readPemPublicKey(content) ];
+            }
+
+            const jwks: JWKSInterface | JWKInterface = JSON.parse(content);
+            const keys: JWKInterface[] = Array.isArray((jwks as JWKSInterface).keys)
+                ? (jwks as JWKSInterface).keys
+                : [ jwks as JWKInterface ];
+
+            let candidates: JWKInterface[] = keys.filter((key: JWKInterface) => key.kty === "RSA");
+
+            if (kid && keys.length > 1) {
+                candidates = candidates.filter((key: JWKInterface) => key.kid === kid);
+            }
+
+            if (candidates.length === 0) {
+                throw new Error(JWTConstants.NO_MATCHING_KEY_ERROR);
+            }
+
+            return candidates.map((key: JWKInterface) => {
+                return JWTUtils.readPemPublicKey(CertificateManagementUtils.jwkToPem(key));
+            });
+        } catch (e) {
+            if (e.message === JWTConstants.NO_MATCHING_KEY_ERROR) {
+                throw e;
+            }
+
+            throw new Error(JWTConstants.INVALID_KEY_ERROR);
+        }
+    }
+
+    /**
+     * Reads the RSA public key of a PEM encoded certificate or public key.
+     *
+     * @param {string} pem - PEM content.
+     * @return {forge.pki.rsa.PublicKey} Public key.
+     */
+    private static readPemPublicKey(pem: string): forge.pki.rsa.PublicKey {
+
+        if (pem.includes("-----BEGIN CERTIFICATE-----")) {
+            return forge.pki.certificateFromPem(pem).publicKey as forge.pki.rsa.PublicKey;
+        }
+
+        return forge.pki.publicKeyFromPem(pem);
+    }
+}
@@ -0,0 +1,278 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import yaml from "js-yaml";
+import { ResourceBundleConstants } from "../constants";
+import { ResourceBundleParseException } from "../exceptions";
+import {
+    ResourceBundleFormats,
+    ResourceBundleInterface,
+    ResourceDiffInterface,
+    ResourceDiffTypes
+} from "../models";
+
+/**
+ * Utility class for exporting and importing resources as portable bundles.
+ */
+export class ResourceBundleUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Creates a bundle from a resource. The values in the sensitive paths are removed from the
+     * bundled resource and the removed paths are listed in `redactedFields`.
+     *
+     * @example
+     * // Removes the secrets of every authenticator property.
+     * ResourceBundleUtils.createBundle("IdentityProvider", idp, [ "authenticators.*.secret" ]);
+     *
+     * @param {string} kind - Kind of the resource.
+     * @param {T} resource - Resource to be bundled.
+     * @param {string[]} sensitivePaths - Dot separated paths of the sensitive values. Supports `*` wildcards.
+     * @return {ResourceBundleInterface<T>} Created bundle.
+     */
+    public static createBundle<T>(kind: string, resource: T,
+                                  sensitivePaths: string[] = []): ResourceBundleInterface<T> {
+
+        const cloned: T = JSON.parse(JSON.stringify(resource));
+        const redactedFields: string[] = [];
+
+        sensitivePaths.forEach((path: string) => {
+            redactedFields.push(...ResourceBundleUtils.removePath(cloned, path.split("."), []));
+        });
+
+        return {
+            exportedAt: new Date().toISOString(),
+            kind,
+            redactedFields,
+            resource: cloned,
+            version: ResourceBundleConstants.BUNDLE_VERSION
+        };
+    }
+
+    /**
+     * Serializes a bundle to the given format.
+     *
+     * @param {ResourceBundleInterface} bundle - Bundle to be serialized.
+     * @param {ResourceBundleFormats} format - Target format.
+     * @return {string} Serialized bundle.
+     */
+    public static serialize<T>(bundle: ResourceBundleInterface<T>,
+                               format: ResourceBundleFormats = ResourceBundleFormats.JSON): string {
+
+        if (format === ResourceBundleFormats.YAML) {
+            return yaml.safeDump(bundle, { noRefs: true, skipInvalid: true });
+        }
+
+        return JSON.stringify(bundle, null, 4);
+    }
+
+    /**
+     * Parses a serialized bundle and validates its structure.
+     *
+     * @param {string} content - Serialized bundle in JSON or YAML.
+     * @param {string} kind - Expected kind of the resource.
+     * @return {ResourceBundleInterface<T>} Parsed bundle.
+     * @throws {ResourceBundleParseException}
+     */
+    public static parse<T>(content: string, kind: string): ResourceBundleInterface<T> {
+
+        let bundle: ResourceBundleInterface<T>;
+
+        try {
+            bundle = ResourceBundleUtils.detectFormat(content) === ResourceBundleFormats.JSON
+                ? JSON.parse(content)
+                : yaml.safeLoad(content);
+        } catch (e) {
+            throw new ResourceBundleParseException(ResourceBundleConstants.INVALID_BUNDLE_CONTENT_ERROR, e.stack,
+                kind);
+        }
+
+        if (!bundle || typeof bundle !== "object" || typeof bundle.kind !== "string"
+            || typeof bundle.version !== "string" || !bundle.resource || typeof bundle.resource !== "object") {
+
+            throw new ResourceBundleParseException(ResourceBundleConstants.INVALID_BUNDLE_STRUCTURE_ERROR, null,
+                kind);
+        }
+
+        if (bundle.kind !== kind) {
+            throw new ResourceBundleParseException(ResourceBundleConstants.UNSUPPORTED_BUNDLE_KIND_ERROR, null,
+                kind);
+        }
+
+        if (bundle.version.split(".")[ 0 ] !== ResourceBundleConstants.BUNDLE_VERSION.split(".")[ 0 ]) {
+            throw new ResourceBundleParseException(ResourceBundleConstants.UNSUPPORTED_BUNDLE_VERSION_ERROR, null,
+                kind);
+        }
+
+        return {
+            ...bundle,
+            redactedFields: Array.isArray(bundle.redactedFields) ? bundle.redactedFields : []
+        };
+    }
+
+    /**
+     * Detects the format of a serialized bundle.
+     *
+     * @param {string} content - Serialized bundle.
+     * @return {ResourceBundleFormats} Detected format.
+     */
+    public static detectFormat(content: string): ResourceBundleFormats {
+
+        return content?.trim().startsWith("{") ? ResourceBundleFormats.JSON : ResourceBundleFormats.YAML;
+    }
+
+    /**
+     * Builds a file name for a bundle. ex: `my-app.application.yaml`.
+     *
+     * @param {ResourceBundleInterface} bundle - Bundle to be saved.
+     * @param {string} name - Name of the resource.
+     * @param {ResourceBundleFormats} format - Format of the file.
+     * @return {string} File name.
+     */
+    public static getFileName<T>(bundle: ResourceBundleInterface<T>, name: string,
+                                 format: ResourceBundleFormats): string {
+
+        const sanitize = (value: string): string => value
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-+|-+$/g, "");
+
+        return `${ sanitize(name) || "resource" }.${ sanitize(bundle.kind) }.${ format }`;
+    }
+
+    /**
+     * Compares two resources and lists the changes required to turn the current resource into the
+     * incoming one. Objects are compared key by key while arrays and primitives are compared as values.
+     *
+     * @param {unknown} current - Current resource. ex: Resource which already exists in the environment.
+     * @param {unknown} incoming - Incoming resource. ex: Resource in an imported bundle.
+     * @param {string[]} ignoredPaths - Dot separated paths to be skipped. Supports `*` wildcards.
+     * @return {ResourceDiffInterface[]} List of changes.
+     */
+    public static diff(current: unknown, incoming: unknown, ignoredPaths: string[] = []): ResourceDiffInterface[] {
+
+        return ResourceBundleUtils.diffPath(current, incoming, [], ignoredPaths.map((path) => path.split(".")));
+    }
+
+    /**
+     * Recursively compares the values in a path.
+     *
+     * @param {unknown} current - Current value.
+     * @param {unknown} incoming - Incoming value.
+     * @param {string[]} path - Resolved path segments so far.
+     * @param {string[][]} ignoredPaths - Split paths to be skipped.
+     * @return {ResourceDiffInterface[]} List of changes.
+     */
+    private static diffPath(current: unknown, incoming: unknown, path: string[],
+                            ignoredPaths: string[][]): ResourceDiffInterface[] {
+
+        const isIgnored: boolean = ignoredPaths.some((ignored: string[]) => {
+            return ignored.length === path.length && ignored.every((segment: string, index: number) => {
+                return segment === ResourceBundleConstants.PATH_WILDCARD || segment === path[ index ];
+            });
+        });
+
+        if (isIgnored) {
+            return [];
+        }
+
+        const isObject = (value: unknown): boolean => !!value && typeof value === "object" && !Array.isArray(value);
+
+        if (isObject(current) && isObject(incoming)) {
+            const currentObject: Record<string, unknown> = current as Record<string, unknown>;
+            const incomingObject: Record<string, unknown> = incoming as Record<string, unknown>;
+            const keys: string[] = Array.from(new Set([
+                ...Object.keys(currentObject),
+                ...Object.keys(incomingObject)
+            ])).sort();
+
+            return keys.reduce((changes: ResourceDiffInterface[], key: string) => [
+                ...changes,
+                ...ResourceBundleUtils.diffPath(currentObject[ key ], incomingObject[ key ], [ ...path, key ],
+                    ignoredPaths)
+            ], []);
+        }
+
+        if (current === undefined && incoming === undefined) {
+            return [];
+        }
+
+        if (current === undefined) {
+            return [ { incomingValue: incoming, path: path.join("."), type: ResourceDiffTypes.ADDED } ];
+        }
+
+        if (incoming === undefined) {
+            return [ { currentValue: current, path: path.join("."), type: ResourceDiffTypes.REMOVED } ];
+        }
+
+        if (JSON.stringify(current) === JSON.stringify(incoming)) {
+            return [];
+        }
+
+        return [ {
+            currentValue: current,
+            incomingValue: incoming,
+            path: path.join("."),
+            type: ResourceDiffTypes.CHANGED
+        } ];
+    }
+
+    /**
+     * Removes the values matching a path from an object.
+     *
+     * @param {unknown} target - Object to remove the values from.
+     * @param {string[]} segments - Remaining path segments.
+     * @param {string[]} visited - Resolved path segments so far.
+     * @return {string[]} Resolved paths of the removed values.
+     */
+    private static removePath(target: unknown, segments: string[], visited: string[]): string[] {
+
+        if (!target || typeof target !== "object") {
+            return [];
+        }
+
+        const [ segment, ...rest ] = segments;
+        const container: Record<string, unknown> = target as Record<string, unknown>;
+        const keys: string[] = segment === ResourceBundleConstants.PATH_WILDCARD
+            ? Object.keys(container)
+            : [ segment ];
+
+        return keys.reduce((removed: string[], key: string) => {
+            if (!(key in container)) {
+                return removed;
+            }
+
+            if (rest.length > 0) {
+                return [ ...removed, ...ResourceBundleUtils.removePath(container[ key ], rest, [ ...visited, key ]) ];
+            }
+
+            delete container[ key ];
+
+            return [ ...removed, [ ...visited, key ].join(".") ];
+        }, []);
+    }
+}
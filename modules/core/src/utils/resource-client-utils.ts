@@ -0,0 +1,297 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { ResourceClientConstants } from "../constants";
+import {
+    ResourceCacheEntryInterface,
+    ResourceFetchOptionsInterface,
+    ResourceInFlightRequestInterface,
+    ResourceRequestInterface
+} from "../models";
+
+/**
+ * Utility class for the cached resource requests. De-duplicates the concurrent requests,
+ * caches the responses for a TTL and invalidates them by tags when the related resources are mutated.
+ *
+ * Each resource has a generation which is bumped on invalidation. Responses of the requests sent in
+ * an older generation are not cached and new requests are not merged with them, since they might
+ * carry the data from before the mutation.
+ */
+export class ResourceClientUtils {
+
+    private static cache: Map<string, ResourceCacheEntryInterface<unknown>> = new Map();
+    private static generations: Map<string, number> = new Map();
+    private static inFlight: Map<string, ResourceInFlightRequestInterface<unknown>> = new Map();
+    private static listeners: Map<string, Set<() => void>> = new Map();
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Resolves a resource. Fresh cached data is returned without hitting the server and
+     * concurrent requests for the same key share a single in-flight request. If the browser
+     * is offline, the last known data is returned even if it is stale.
+     *
+     * @param {ResourceRequestInterface<T>} request - Resource request.
+     * @param {ResourceFetchOptionsInterface} options - Fetch options.
+     * @return {Promise<T>}
+     */
+    public static fetch<T>(request: ResourceRequestInterface<T>,
+        options: ResourceFetchOptionsInterface = {}): Promise<T> {
+
+        const { fetcher, key, tags = [], ttl = ResourceClientConstants.DEFAULT_TTL } = request;
+        const cached: ResourceCacheEntryInterface<T> = this.get<T>(key);
+
+        if (!options.force && cached && !this.isStale(key)) {
+            return Promise.resolve(cached.data);
+        }
+
+        const generation: number = this.getGeneration(key);
+        const inFlight: ResourceInFlightRequestInterface<unknown> = this.inFlight.get(key);
+
+        if (inFlight?.generation === generation) {
+            return inFlight.promise as Promise<T>;
+        }
+
+        const promise: Promise<T> = fetcher()
+            .then((data: T) => {
+                if (this.getGeneration(key) === generation) {
+                    this.set<T>(key, data, tags, ttl);
+                }
+
+                return data;
+            })
+            .catch((error: unknown) => {
+                if (cached && this.isOffline()) {
+                    return cached.data;
+                }
+
+                throw error;
+            })
+            .finally(() => {
+                if (this.inFlight.get(key)?.promise === promise) {
+                    this.inFlight.delete(key);
+                }
+            });
+
+        this.inFlight.set(key, { generation, promise, tags });
+
+        return promise;
+    }
+
+    /**
+     * Runs a mutation and invalidates the cached resources with the given tags once it succeeds.
+     *
+     * @param {() => Promise<T>} mutation - Mutation to run.
+     * @param {string[]} tags - Tags to invalidate.
+     * @return {Promise<T>}
+     */
+    public static mutate<T>(mutation: () => Promise<T>, tags: string[] = []): Promise<T> {
+
+        return mutation()
+            .then((data: T) => {
+                this.invalidate(tags);
+
+                return data;
+            });
+    }
+
+    /**
+     * Returns the cached entry of a resource.
+     *
+     * @param {string} key - Resource key.
+     * @return {ResourceCacheEntryInterface<T>} Cached entry or undefined if the resource is not cached.
+     */
+    public static get<T>(key: string): ResourceCacheEntryInterface<T> {
+        return this.cache.get(key) as ResourceCacheEntryInterface<T>;
+    }
+
+    /**
+     * Stores a resource in the cache and notifies the subscribers.
+     *
+     * @param {string} key - Resource key.
+     * @param {T} data - Data to be cached.
+     * @param {string[]} tags - Tags of the resource.
+     * @param {number} ttl - Time in milliseconds for which the data is considered fresh.
+     */
+    public static set<T>(key: string, data: T, tags: string[] = [],
+        ttl: number = ResourceClientConstants.DEFAULT_TTL): void {
+
+        const now: number = Date.now();
+
+        this.cache.set(key, {
+            data,
+            expiresAt: now + ttl,
+            tags,
+            updatedAt: now
+        });
+        this.notify([ key ]);
+    }
+
+    /**
+     * Checks if a resource has to be re-fetched.
+     *
+     * @param {string} key - Resource key.
+     * @return {boolean} True if the resource is not cached or has expired.
+     */
+    public static isStale(key: string): boolean {
+
+        const cached: ResourceCacheEntryInterface<unknown> = this.cache.get(key);
+
+        return !cached || cached.expiresAt <= Date.now();
+    }
+
+    /**
+     * Marks the cached resources having any of the given tags as stale and notifies the subscribers.
+     * The stale data is kept so that it can still be served while revalidating or when offline.
+     * The in-flight requests of the resources are superseded.
+     *
+     * @param {string[]} tags - Tags to invalidate.
+     */
+    public static invalidate(tags: string[]): void {
+
+        const keys: Set<string> = new Set();
+        const isTagged = (resourceTags: string[]): boolean => {
+            return resourceTags.some((tag: string) => tags.includes(tag));
+        };
+
+        this.cache.forEach((entry: ResourceCacheEntryInterface<unknown>, key: string) => {
+            if (isTagged(entry.tags)) {
+                entry.expiresAt = 0;
+                keys.add(key);
+            }
+        });
+
+        this.inFlight.forEach((request: ResourceInFlightRequestInterface<unknown>, key: string) => {
+            if (isTagged(request.tags)) {
+                keys.add(key);
+            }
+        });
+
+        keys.forEach((key: string) => this.nextGeneration(key));
+        this.notify(Array.from(keys));
+    }
+
+    /**
+     * Marks a single cached resource as stale, supersedes its in-flight request and notifies the subscribers.
+     *
+     * @param {string} key - Resource key.
+     */
+    public static invalidateKey(key: string): void {
+
+        const cached: ResourceCacheEntryInterface<unknown> = this.cache.get(key);
+
+        if (!cached && !this.inFlight.has(key)) {
+            return;
+        }
+
+        if (cached) {
+            cached.expiresAt = 0;
+        }
+
+        this.nextGeneration(key);
+        this.notify([ key ]);
+    }
+
+    /**
+     * Subscribes to the changes of a cached resource.
+     *
+     * @param {string} key - Resource key.
+     * @param {() => void} listener - Listener fired when the resource is updated or invalidated.
+     * @return {() => void} Function to unsubscribe.
+     */
+    public static subscribe(key: string, listener: () => void): () => void {
+
+        if (!this.listeners.has(key)) {
+            this.listeners.set(key, new Set());
+        }
+
+        this.listeners.get(key).add(listener);
+
+        return () => {
+            const keyListeners: Set<() => void> = this.listeners.get(key);
+
+            if (!keyListeners) {
+                return;
+            }
+
+            keyListeners.delete(listener);
+
+            if (keyListeners.size === 0) {
+                this.listeners.delete(key);
+            }
+        };
+    }
+
+    /**
+     * Clears the cache and the in-flight requests. ex: On logout or tenant switch.
+     */
+    public static clear(): void {
+        // Supersede the in-flight requests so that their responses don't re-populate the cache.
+        Array.from(this.inFlight.keys()).forEach((key: string) => this.nextGeneration(key));
+
+        this.cache.clear();
+        this.inFlight.clear();
+    }
+
+    /**
+     * Checks if the browser reports that it has lost the network connection.
+     *
+     * @return {boolean}
+     */
+    public static isOffline(): boolean {
+        return typeof navigator !== "undefined" && navigator.onLine === false;
+    }
+
+    /**
+     * Returns the current generation of a resource.
+     *
+     * @param {string} key - Resource key.
+     * @return {number}
+     */
+    private static getGeneration(key: string): number {
+        return this.generations.get(key) ?? 0;
+    }
+
+    /**
+     * Moves a resource to the next generation.
+     *
+     * @param {string} key - Resource key.
+     */
+    private static nextGeneration(key: string): void {
+        this.generations.set(key, this.getGeneration(key) + 1);
+    }
+
+    /**
+     * Notifies the subscribers of the given keys.
+     *
+     * @param {string[]} keys - Resource keys.
+     */
+    private static notify(keys: string[]): void {
+        keys.forEach((key: string) => {
+            this.listeners.get(key)?.forEach((listener: () => void) => listener());
+        });
+    }
+}
@@ -0,0 +1,243 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+import { SAMLMetadataConstants } from "../constants";
+import { SAMLMetadataEndpointInterface, SAMLServiceProviderMetadataInterface } from "../models";
+
+/**
+ * Utility class to read and update SAML 2.0 metadata documents.
+ */
+export class SAMLMetadataUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Reads the service provider details from a SAML 2.0 metadata document. Elements and endpoint
+     * bindings which can't be mapped to a service provider configuration are listed in `unsupportedElements`.
+     *
+     * @param {string} content - Metadata XML.
+     * @return {SAMLServiceProviderMetadataInterface} Service provider details.
+     * @throws {Error} If the content is not a service provider metadata document.
+     */
+    public static parseServiceProviderMetadata(content: string): SAMLServiceProviderMetadataInterface {
+
+        const document: Document = SAMLMetadataUtils.parseXML(content);
+        const entityDescriptors: Element[] = Array.from(
+            document.getElementsByTagNameNS(SAMLMetadataConstants.METADATA_NAMESPACE, "EntityDescriptor"));
+
+        if (!entityDescriptors.some((descriptor: Element) => descriptor.getAttribute("entityID"))) {
+            throw new Error(SAMLMetadataConstants.MISSING_ENTITY_DESCRIPTOR_ERROR);
+        }
+
+        let entityDescriptor: Element;
+        let spDescriptor: Element;
+
+        // Aggregated metadata can list several entities. The first service provider is picked.
+        for (const descriptor of entityDescriptors) {
+            spDescriptor = SAMLMetadataUtils.getChildren(descriptor, "SPSSODescriptor")
+                .find((child: Element) => {
+                    return (child.getAttribute("protocolSupportEnumeration") ?? "").split(/\s+/)
+                        .includes(SAMLMetadataConstants.PROTOCOL);
+                });
+
+            if (spDescriptor && descriptor.getAttribute("entityID")) {
+                entityDescriptor = descriptor;
+
+                break;
+            }
+        }
+
+        if (!entityDescriptor) {
+            throw new Error(SAMLMetadataConstants.MISSING_SP_DESCRIPTOR_ERROR);
+        }
+
+        const unsupportedElements: Set<string> = new Set<string>();
+
+        SAMLMetadataUtils.getChildren(entityDescriptor).forEach((child: Element) => {
+            if (!SAMLMetadataConstants.SUPPORTED_ENTITY_DESCRIPTOR_ELEMENTS.includes(child.localName)) {
+                unsupportedElements.add(`EntityDescriptor/${ child.localName }`);
+            }
+        });
+
+        SAMLMetadataUtils.getChildren(spDescriptor).forEach((child: Element) => {
+            if (child.namespaceURI !== SAMLMetadataConstants.METADATA_NAMESPACE
+                || !SAMLMetadataConstants.SUPPORTED_SP_DESCRIPTOR_ELEMENTS.includes(child.localName)) {
+                unsupportedElements.add(`SPSSODescriptor/${ child.localName }`);
+            }
+        });
+
+        const readEndpoints = (name: string, supportedBindings: string[]): SAMLMetadataEndpointInterface[] => {
+            return SAMLMetadataUtils.getChildren(spDescriptor, name)
+                .map(SAMLMetadataUtils.readEndpoint)
+                .filter((endpoint: SAMLMetadataEndpointInterface) => {
+                    if (!supportedBindings.includes(endpoint.binding) || !endpoint.location) {
+                        unsupportedElements.add(`SPSSODescriptor/${ name }[@Binding="${ endpoint.binding }"]`);
+
+                        return false;
+                    }
+
+                    return true;
+                });
+        };
+
+        const certificates: Map<string, string> = new Map<string, string>();
+
+        SAMLMetadataUtils.getChildren(spDescriptor, "KeyDescriptor").forEach((keyDescriptor: Element) => {
+            const certificate: string = keyDescriptor
+                .getElementsByTagNameNS(SAMLMetadataConstants.XML_SIGNATURE_NAMESPACE, "X509Certificate")[ 0 ]
+                ?.textContent.replace(/\s+/g, "");
+
+            if (!certificate) {
+                return;
+            }
+
+            // Key descriptors without a `use` apply to both signing and encryption.
+            const uses: string[] = keyDescriptor.getAttribute("use")
+                ? [ keyDescriptor.getAttribute("use") ]
+                : [ "signing", "encryption" ];
+
+            uses.filter((use: string) => !certificates.has(use))
+                .forEach((use: string) => certificates.set(use, certificate));
+        });
+
+        return {
+            assertionConsumerServices: readEndpoints("AssertionConsumerService",
+                SAMLMetadataConstants.SUPPORTED_ASSERTION_CONSUMER_SERVICE_BINDINGS)
+                .sort((a: SAMLMetadataEndpointInterface, b: SAMLMetadataEndpointInterface) => {
+                    return (a.index ?? 0) - (b.index ?? 0);
+                }),
+            authnRequestsSigned: spDescriptor.getAttribute("AuthnRequestsSigned") === "true",
+            encryptionCertificate: certificates.get("encryption"),
+            entityId: entityDescriptor.getAttribute("entityID"),
+            nameIdFormats: SAMLMetadataUtils.getChildren(spDescriptor, "NameIDFormat")
+                .map((element: Element) => element.textContent.trim())
+                .filter((format: string) => !!format),
+            signingCertificate: certificates.get("signing"),
+            singleLogoutServices: readEndpoints("SingleLogoutService",
+                SAMLMetadataConstants.SUPPORTED_SINGLE_LOGOUT_SERVICE_BINDINGS),
+            unsupportedElements: Array.from(unsupportedElements),
+            wantAssertionsSigned: spDescriptor.getAttribute("WantAssertionsSigned") === "true"
+        };
+    }
+
+    /**
+     * Picks the default endpoint out of a list of indexed endpoints. As per the SAML 2.0 metadata
+     * specification, this is the first endpoint marked as the default, or else the first endpoint which is not
+     * explicitly excluded, or else the first endpoint.
+     *
+     * @param {SAMLMetadataEndpointInterface[]} endpoints - Indexed endpoints.
+     * @return {SAMLMetadataEndpointInterface} Default endpoint.
+     */
+    public static getDefaultEndpoint(endpoints: SAMLMetadataEndpointInterface[]): SAMLMetadataEndpointInterface {
+
+        return endpoints.find((endpoint: SAMLMetadataEndpointInterface) => endpoint.isDefault === true)
+            ?? endpoints.find((endpoint: SAMLMetadataEndpointInterface) => endpoint.isDefault !== false)
+            ?? endpoints[ 0 ];
+    }
+
+    /**
+     * Replaces the entity ID of the first entity in a metadata document.
+     *
+     * @param {string} content - Metadata XML.
+     * @param {string} entityId - New entity ID.
+     * @return {string} Updated metadata XML.
+     * @throws {Error} If the content doesn't describe an entity.
+     */
+    public static updateEntityId(content: string, entityId: string): string {
+
+        const document: Document = SAMLMetadataUtils.parseXML(content);
+        const entityDescriptor: Element = document
+            .getElementsByTagNameNS(SAMLMetadataConstants.METADATA_NAMESPACE, "EntityDescriptor")[ 0 ];
+
+        if (!entityDescriptor) {
+            throw new Error(SAMLMetadataConstants.MISSING_ENTITY_DESCRIPTOR_ERROR);
+        }
+
+        entityDescriptor.setAttribute("entityID", entityId);
+
+        return new XMLSerializer().serializeToString(document);
+    }
+
+    /**
+     * Parses an XML document.
+     *
+     * @param {string} content - XML content.
+     * @return {Document} Parsed document.
+     * @throws {Error} If the content is not well formed.
+     */
+    private static parseXML(content: string): Document {
+
+        const document: Document = new DOMParser().parseFromString(content ?? "", "application/xml");
+
+        if (document.getElementsByTagName("parsererror").length > 0) {
+            throw new Error(SAMLMetadataConstants.INVALID_METADATA_CONTENT_ERROR);
+        }
+
+        return document;
+    }
+
+    /**
+     * Returns the child elements of an element, optionally filtered by the local name in the metadata namespace.
+     *
+     * @param {Element} element - Parent element.
+     * @param {string} name - Local name of the children.
+     * @return {Element[]} Child elements.
+     */
+    private static getChildren(element: Element, name?: string): Element[] {
+
+        return Array.from(element.children).filter((child: Element) => {
+            return !name || (child.localName === name
+                && child.namespaceURI === SAMLMetadataConstants.METADATA_NAMESPACE);
+        });
+    }
+
+    /**
+     * Reads the attributes of an endpoint element.
+     *
+     * @param {Element} element - Endpoint element.
+     * @return {SAMLMetadataEndpointInterface} Endpoint.
+     */
+    private static readEndpoint(element: Element): SAMLMetadataEndpointInterface {
+
+        const endpoint: SAMLMetadataEndpointInterface = {
+            binding: element.getAttribute("Binding"),
+            location: element.getAttribute("Location")
+        };
+
+        if (element.hasAttribute("ResponseLocation")) {
+            endpoint.responseLocation = element.getAttribute("ResponseLocation");
+        }
+
+        if (element.hasAttribute("index")) {
+            endpoint.index = parseInt(element.getAttribute("index"), 10);
+        }
+
+        if (element.hasAttribute("isDefault")) {
+            endpoint.isDefault = element.getAttribute("isDefault") === "true";
+        }
+
+        return endpoint;
+    }
+}
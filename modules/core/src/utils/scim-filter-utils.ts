@@ -0,0 +1,699 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { SearchConstants } from "../constants";
+import { SCIMFilterParseException } from "../exceptions";
+import {
+    SCIMFilterComparisonNodeInterface,
+    SCIMFilterComparisonValue,
+    SCIMFilterLogicalNodeInterface,
+    SCIMFilterLogicalOperators,
+    SCIMFilterNode,
+    SCIMFilterNodeTypes,
+    SCIMFilterNotNodeInterface,
+    SCIMFilterOperators,
+    SCIMFilterParserOptionsInterface,
+    SCIMFilterPresenceNodeInterface,
+    SCIMFilterTokenInterface,
+    SCIMFilterTokenTypes,
+    SCIMFilterValuePathNodeInterface
+} from "../models";
+
+/**
+ * Recursive descent parser for the SCIM 2.0 filter grammar.
+ * @see {@link https://tools.ietf.org/html/rfc7644#section-3.4.2.2}
+ *
+ * Precedence from highest to lowest is `not`, `and` & `or`.
+ */
+class SCIMFilterParser {
+
+    /**
+     * Position of the first occurrence of each attribute path in the raw filter. Value path sub filter
+     * attributes are resolved against the parent attribute. i.e. `emails.type`.
+     */
+    public readonly attributePositions: Map<string, number> = new Map();
+
+    private readonly raw: string;
+    private readonly tokens: SCIMFilterTokenInterface[];
+    private readonly options: SCIMFilterParserOptionsInterface;
+    private index: number = 0;
+    private parentAttribute: string;
+
+    constructor(raw: string, options: SCIMFilterParserOptionsInterface) {
+        this.raw = raw;
+        this.options = options;
+        this.tokens = SCIMFilterUtils.tokenize(raw);
+    }
+
+    /**
+     * Parses the whole filter.
+     *
+     * @return {SCIMFilterNode} Root node of the AST.
+     */
+    public parse(): SCIMFilterNode {
+        if (this.peek().type === SCIMFilterTokenTypes.END) {
+            throw this.error("Filter is empty.", 0);
+        }
+
+        const node: SCIMFilterNode = this.parseOr();
+
+        if (this.peek().type !== SCIMFilterTokenTypes.END) {
+            throw this.unexpected("a logical operator");
+        }
+
+        return node;
+    }
+
+    private parseOr(): SCIMFilterNode {
+        let node: SCIMFilterNode = this.parseAnd();
+
+        while (this.isKeyword(this.peek(), SCIMFilterLogicalOperators.OR)) {
+            this.next();
+            node = SCIMFilterUtils.or(node, this.parseAnd());
+        }
+
+        return node;
+    }
+
+    private parseAnd(): SCIMFilterNode {
+        let node: SCIMFilterNode = this.parseUnary();
+
+        while (this.isKeyword(this.peek(), SCIMFilterLogicalOperators.AND)) {
+            this.next();
+            node = SCIMFilterUtils.and(node, this.parseUnary());
+        }
+
+        return node;
+    }
+
+    private parseUnary(): SCIMFilterNode {
+        const token: SCIMFilterTokenInterface = this.peek();
+
+        if (token.type === SCIMFilterTokenTypes.OPEN_PARENTHESIS) {
+            this.next();
+            const node: SCIMFilterNode = this.parseOr();
+            this.expect(SCIMFilterTokenTypes.CLOSE_PARENTHESIS, "\")\"");
+
+            return node;
+        }
+
+        if (this.isKeyword(token, "not")) {
+            this.next();
+            this.expect(SCIMFilterTokenTypes.OPEN_PARENTHESIS, "\"(\" after \"not\"");
+            const node: SCIMFilterNode = this.parseOr();
+            this.expect(SCIMFilterTokenTypes.CLOSE_PARENTHESIS, "\")\"");
+
+            return SCIMFilterUtils.not(node);
+        }
+
+        return this.parseAttributeExpression();
+    }
+
+    private parseAttributeExpression(): SCIMFilterNode {
+        const token: SCIMFilterTokenInterface = this.peek();
+
+        if (token.type !== SCIMFilterTokenTypes.WORD
+            || !SearchConstants.SCIM_ATTRIBUTE_PATH_REGEX.test(token.value)) {
+
+            throw this.unexpected("an attribute path");
+        }
+
+        this.next();
+
+        if (this.peek().type === SCIMFilterTokenTypes.OPEN_BRACKET) {
+            this.next();
+            this.parentAttribute = token.value;
+            const filter: SCIMFilterNode = this.parseOr();
+            this.parentAttribute = undefined;
+            const close: SCIMFilterTokenInterface = this.expect(SCIMFilterTokenTypes.CLOSE_BRACKET, "\"]\"");
+            const subAttribute: SCIMFilterTokenInterface = this.peek();
+
+            // Sub attribute should immediately follow the closing bracket. ex: `emails[type eq "work"].value`.
+            if (subAttribute.type === SCIMFilterTokenTypes.WORD
+                && subAttribute.position === close.end
+                && subAttribute.value.startsWith(".")) {
+
+                if (!SearchConstants.SCIM_ATTRIBUTE_PATH_REGEX.test(subAttribute.value.substring(1))) {
+                    throw this.unexpected("a sub attribute");
+                }
+
+                this.next();
+                this.recordAttribute(`${ token.value }.${ subAttribute.value.substring(1) }`,
+                    subAttribute.position + 1);
+
+                return SCIMFilterUtils.valuePath(token.value, filter, subAttribute.value.substring(1),
+                    this.parseCondition(subAttribute.value.substring(1), false));
+            }
+
+            return SCIMFilterUtils.valuePath(token.value, filter);
+        }
+
+        this.recordAttribute(this.parentAttribute ? `${ this.parentAttribute }.${ token.value }` : token.value,
+            token.position);
+
+        return this.parseCondition(token.value, true);
+    }
+
+    private recordAttribute(attribute: string, position: number): void {
+        if (!this.attributePositions.has(attribute)) {
+            this.attributePositions.set(attribute, position);
+        }
+    }
+
+    private parseCondition(attribute: string,
+                           required: boolean): SCIMFilterComparisonNodeInterface | SCIMFilterPresenceNodeInterface {
+
+        const operator: SCIMFilterOperators = this.parseOperator();
+
+        if (!operator) {
+            if (required) {
+                throw this.unexpected("a comparison operator");
+            }
+
+            return undefined;
+        }
+
+        if (operator === SCIMFilterOperators.PRESENT) {
+            return SCIMFilterUtils.presence(attribute);
+        }
+
+        const [ value, quoted ] = this.parseValue();
+
+        return SCIMFilterUtils.comparison(attribute, operator, value, quoted);
+    }
+
+    private parseOperator(): SCIMFilterOperators | undefined {
+        const token: SCIMFilterTokenInterface = this.peek();
+
+        if (token.type === SCIMFilterTokenTypes.WORD) {
+            const operator: SCIMFilterOperators = Object.values(SCIMFilterOperators)
+                .find((value: SCIMFilterOperators) => value === token.value.toLowerCase());
+
+            if (operator) {
+                this.next();
+
+                return operator;
+            }
+        }
+
+        if (this.options.allowOperatorAliases) {
+            for (const [ operator, aliases ] of SearchConstants.SCIM_OPERATOR_ALIASES.entries()) {
+                for (const alias of aliases) {
+                    const words: string[] = alias.split(" ");
+                    const matches: boolean = words.every((word: string, offset: number) => {
+                        const candidate: SCIMFilterTokenInterface = this.tokens[ this.index + offset ];
+
+                        return candidate
+                            && candidate.type === SCIMFilterTokenTypes.WORD
+                            && candidate.value.toLowerCase() === word;
+                    });
+
+                    if (matches) {
+                        this.index += words.length;
+
+                        return operator;
+                    }
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    private parseValue(): [ SCIMFilterComparisonValue, boolean ] {
+        const token: SCIMFilterTokenInterface = this.peek();
+
+        if (token.type === SCIMFilterTokenTypes.STRING) {
+            this.next();
+
+            return [ token.value, true ];
+        }
+
+        if (token.type !== SCIMFilterTokenTypes.WORD || this.isLogicalOperator(token)) {
+            throw this.unexpected("a value");
+        }
+
+        if (!this.options.allowUnquotedValues) {
+            const literal: SCIMFilterComparisonValue | undefined = this.parseLiteral(token.value);
+
+            if (literal === undefined) {
+                throw this.unexpected("a quoted string, number, boolean or null value");
+            }
+
+            this.next();
+
+            return [ literal, false ];
+        }
+
+        const words: string[] = [];
+
+        while (this.peek().type === SCIMFilterTokenTypes.WORD && !this.isLogicalOperator(this.peek())) {
+            words.push(this.next().value);
+        }
+
+        if (words.length === 1 && this.parseLiteral(words[ 0 ]) !== undefined) {
+            return [ this.parseLiteral(words[ 0 ]), false ];
+        }
+
+        return [ words.join(" "), false ];
+    }
+
+    private parseLiteral(value: string): SCIMFilterComparisonValue | undefined {
+        const lowerCased: string = value.toLowerCase();
+
+        if (lowerCased === "true" || lowerCased === "false") {
+            return lowerCased === "true";
+        }
+
+        if (lowerCased === "null") {
+            return null;
+        }
+
+        // Numbers are kept as the raw text. Converting them would drop the leading zeros of values such
+        // as `007` and the precision of long IDs and phone numbers when serialized back.
+        if (SearchConstants.SCIM_NUMBER_REGEX.test(value)) {
+            return value;
+        }
+
+        return undefined;
+    }
+
+    private peek(): SCIMFilterTokenInterface {
+        return this.tokens[ this.index ];
+    }
+
+    private next(): SCIMFilterTokenInterface {
+        const token: SCIMFilterTokenInterface = this.tokens[ this.index ];
+
+        if (token.type !== SCIMFilterTokenTypes.END) {
+            this.index++;
+        }
+
+        return token;
+    }
+
+    private expect(type: SCIMFilterTokenTypes, description: string): SCIMFilterTokenInterface {
+        if (this.peek().type !== type) {
+            throw this.unexpected(description);
+        }
+
+        return this.next();
+    }
+
+    private isKeyword(token: SCIMFilterTokenInterface, keyword: string): boolean {
+        return token.type === SCIMFilterTokenTypes.WORD && token.value.toLowerCase() === keyword;
+    }
+
+    private isLogicalOperator(token: SCIMFilterTokenInterface): boolean {
+        return this.isKeyword(token, SCIMFilterLogicalOperators.AND)
+            || this.isKeyword(token, SCIMFilterLogicalOperators.OR);
+    }
+
+    private unexpected(expected: string): SCIMFilterParseException {
+        const token: SCIMFilterTokenInterface = this.peek();
+        const found: string = token.type === SCIMFilterTokenTypes.END
+            ? "the end of the filter"
+            : `"${ this.raw.substring(token.position, token.end) }"`;
+
+        return this.error(`Expected ${ expected } at position ${ token.position } but found ${ found }.`,
+            token.position);
+    }
+
+    private error(message: string, position: number): SCIMFilterParseException {
+        return new SCIMFilterParseException(message, null, position, this.raw);
+    }
+}
+
+/**
+ * Utility class for SCIM filter operations.
+ */
+export class SCIMFilterUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Splits a raw SCIM filter in to tokens.
+     *
+     * @param {string} raw - Raw filter.
+     * @return {SCIMFilterTokenInterface[]} Tokens terminated by an `END` token.
+     * @throws {SCIMFilterParseException} If a quoted string is not terminated.
+     */
+    public static tokenize(raw: string): SCIMFilterTokenInterface[] {
+
+        const tokens: SCIMFilterTokenInterface[] = [];
+        const delimiters: Map<string, SCIMFilterTokenTypes> = new Map([
+            [ "(", SCIMFilterTokenTypes.OPEN_PARENTHESIS ],
+            [ ")", SCIMFilterTokenTypes.CLOSE_PARENTHESIS ],
+            [ "[", SCIMFilterTokenTypes.OPEN_BRACKET ],
+            [ "]", SCIMFilterTokenTypes.CLOSE_BRACKET ]
+        ]);
+
+        let index: number = 0;
+
+        while (index < raw.length) {
+            const character: string = raw[ index ];
+
+            if (/\s/.test(character)) {
+                index++;
+
+                continue;
+            }
+
+            if (delimiters.has(character)) {
+                tokens.push({ end: index + 1, position: index, type: delimiters.get(character), value: character });
+                index++;
+
+                continue;
+            }
+
+            if (character === "\"") {
+                let cursor: number = index + 1;
+                let value: string = "";
+
+                while (cursor < raw.length && raw[ cursor ] !== "\"") {
+                    if (raw[ cursor ] === "\\" && cursor + 1 < raw.length) {
+                        const escaped: string = raw[ cursor + 1 ];
+
+                        value += SearchConstants.SCIM_STRING_ESCAPE_SEQUENCES.has(escaped)
+                            ? SearchConstants.SCIM_STRING_ESCAPE_SEQUENCES.get(escaped)
+                            : escaped;
+                        cursor += 2;
+
+                        continue;
+                    }
+
+                    value += raw[ cursor ];
+                    cursor++;
+                }
+
+                if (cursor >= raw.length) {
+                    throw new SCIMFilterParseException(`Unterminated string starting at position ${ index }.`,
+                        null, index, raw);
+                }
+
+                tokens.push({ end: cursor + 1, position: index, type: SCIMFilterTokenTypes.STRING, value });
+                index = cursor + 1;
+
+                continue;
+            }
+
+            let cursor: number = index;
+
+            while (cursor < raw.length && !/\s/.test(raw[ cursor ]) && !delimiters.has(raw[ cursor ])
+                && raw[ cursor ] !== "\"") {
+
+                cursor++;
+            }
+
+            tokens.push({
+                end: cursor,
+                position: index,
+                type: SCIMFilterTokenTypes.WORD,
+                value: raw.substring(index, cursor)
+            });
+            index = cursor;
+        }
+
+        tokens.push({ end: raw.length, position: raw.length, type: SCIMFilterTokenTypes.END, value: "" });
+
+        return tokens;
+    }
+
+    /**
+     * Parses a raw SCIM filter in to an AST.
+     *
+     * @example
+     * // returns a `LOGICAL` node with a `COMPARISON` node and a `VALUE_PATH` node.
+     * SCIMFilterUtils.parse("userName sw \"j\" and emails[type eq \"work\"].value co \"@wso2.com\"");
+     *
+     * @param {string} raw - Raw filter.
+     * @param {SCIMFilterParserOptionsInterface} options - Parser options.
+     * @return {SCIMFilterNode} Root node of the AST.
+     * @throws {SCIMFilterParseException} If the filter is not valid. The exception contains the error position.
+     */
+    public static parse(raw: string, options: SCIMFilterParserOptionsInterface = {}): SCIMFilterNode {
+
+        return new SCIMFilterParser(raw ?? "", options).parse();
+    }
+
+    /**
+     * Resolves the position of the first occurrence of each attribute path of a filter. Value path sub filter
+     * attributes are resolved against the parent attribute as in {@link SCIMFilterUtils.getAttributes}.
+     *
+     * @param {string} raw - Raw filter.
+     * @param {SCIMFilterParserOptionsInterface} options - Parser options.
+     * @return {Map<string, number>} Zero based positions against the attribute paths.
+     * @throws {SCIMFilterParseException} If the filter is not valid.
+     */
+    public static getAttributePositions(raw: string,
+                                        options: SCIMFilterParserOptionsInterface = {}): Map<string, number> {
+
+        const parser: SCIMFilterParser = new SCIMFilterParser(raw ?? "", options);
+
+        parser.parse();
+
+        return parser.attributePositions;
+    }
+
+    /**
+     * Serializes an AST back to a SCIM filter string.
+     * Redundant parentheses are dropped and operators are lower cased.
+     *
+     * @param {SCIMFilterNode} node - Root node of the AST.
+     * @return {string} SCIM filter.
+     */
+    public static serialize(node: SCIMFilterNode): string {
+
+        switch (node.type) {
+            case SCIMFilterNodeTypes.COMPARISON:
+                return `${ node.attribute } ${ node.operator } ${
+                    SCIMFilterUtils.serializeValue(node.value, node.quoted) }`;
+            case SCIMFilterNodeTypes.PRESENCE:
+                return `${ node.attribute } ${ SCIMFilterOperators.PRESENT }`;
+            case SCIMFilterNodeTypes.NOT:
+                return `not (${ SCIMFilterUtils.serialize(node.expression) })`;
+            case SCIMFilterNodeTypes.VALUE_PATH: {
+                const path: string = `${ node.attribute }[${ SCIMFilterUtils.serialize(node.filter) }]`;
+
+                if (!node.subAttribute) {
+                    return path;
+                }
+
+                // The condition is serialized with the sub attribute. i.e. `.value co "@wso2.com"`.
+                return node.condition
+                    ? `${ path }.${ SCIMFilterUtils.serialize(node.condition) }`
+                    : `${ path }.${ node.subAttribute }`;
+            }
+            case SCIMFilterNodeTypes.LOGICAL: {
+                // `or` has a lower precedence than `and`, hence needs to be grouped when nested inside an `and`.
+                const group = (child: SCIMFilterNode): string => {
+                    const serialized: string = SCIMFilterUtils.serialize(child);
+
+                    return (node.operator === SCIMFilterLogicalOperators.AND
+                        && child.type === SCIMFilterNodeTypes.LOGICAL
+                        && child.operator === SCIMFilterLogicalOperators.OR)
+                        ? `(${ serialized })`
+                        : serialized;
+                };
+
+                return `${ group(node.left) } ${ node.operator } ${ group(node.right) }`;
+            }
+        }
+    }
+
+    /**
+     * Returns the attribute paths referred in a filter. Value path sub filters are resolved
+     * against the parent attribute. i.e. `emails[type eq "work"]` results in `emails.type`.
+     *
+     * @param {SCIMFilterNode} node - Root node of the AST.
+     * @return {string[]} Unique attribute paths.
+     */
+    public static getAttributes(node: SCIMFilterNode): string[] {
+
+        const attributes: Set<string> = new Set();
+
+        const collect = (current: SCIMFilterNode, parent?: string): void => {
+            switch (current.type) {
+                case SCIMFilterNodeTypes.COMPARISON:
+                case SCIMFilterNodeTypes.PRESENCE:
+                    attributes.add(parent ? `${ parent }.${ current.attribute }` : current.attribute);
+
+                    break;
+                case SCIMFilterNodeTypes.NOT:
+                    collect(current.expression, parent);
+
+                    break;
+                case SCIMFilterNodeTypes.LOGICAL:
+                    collect(current.left, parent);
+                    collect(current.right, parent);
+
+                    break;
+                case SCIMFilterNodeTypes.VALUE_PATH:
+                    collect(current.filter, current.attribute);
+
+                    if (current.subAttribute) {
+                        attributes.add(`${ current.attribute }.${ current.subAttribute }`);
+                    }
+
+                    break;
+            }
+        };
+
+        collect(node);
+
+        return Array.from(attributes);
+    }
+
+    /**
+     * Builds an attribute comparison node.
+     *
+     * @param {string} attribute - Attribute path.
+     * @param {SCIMFilterOperators} operator - Comparison operator.
+     * @param {SCIMFilterComparisonValue} value - Value to compare with.
+     * @param {boolean} quoted - Should the string value be quoted when serializing.
+     * @return {SCIMFilterComparisonNodeInterface}
+     */
+    public static comparison(attribute: string,
+                             operator: SCIMFilterComparisonNodeInterface[ "operator" ],
+                             value: SCIMFilterComparisonValue,
+                             quoted: boolean = true): SCIMFilterComparisonNodeInterface {
+
+        return { attribute, operator, quoted, type: SCIMFilterNodeTypes.COMPARISON, value };
+    }
+
+    /**
+     * Builds an attribute presence node.
+     *
+     * @param {string} attribute - Attribute path.
+     * @return {SCIMFilterPresenceNodeInterface}
+     */
+    public static presence(attribute: string): SCIMFilterPresenceNodeInterface {
+
+        return { attribute, type: SCIMFilterNodeTypes.PRESENCE };
+    }
+
+    /**
+     * Combines the passed in nodes with the `and` operator.
+     *
+     * @param {SCIMFilterNode} nodes - Nodes to combine.
+     * @return {SCIMFilterNode} Combined node or `null` if no nodes were passed in.
+     */
+    public static and(...nodes: SCIMFilterNode[]): SCIMFilterNode {
+
+        return SCIMFilterUtils.combine(SCIMFilterLogicalOperators.AND, nodes);
+    }
+
+    /**
+     * Combines the passed in nodes with the `or` operator.
+     *
+     * @param {SCIMFilterNode} nodes - Nodes to combine.
+     * @return {SCIMFilterNode} Combined node or `null` if no nodes were passed in.
+     */
+    public static or(...nodes: SCIMFilterNode[]): SCIMFilterNode {
+
+        return SCIMFilterUtils.combine(SCIMFilterLogicalOperators.OR, nodes);
+    }
+
+    /**
+     * Builds a negated node.
+     *
+     * @param {SCIMFilterNode} expression - Node to negate.
+     * @return {SCIMFilterNotNodeInterface}
+     */
+    public static not(expression: SCIMFilterNode): SCIMFilterNotNodeInterface {
+
+        return { expression, type: SCIMFilterNodeTypes.NOT };
+    }
+
+    /**
+     * Builds a complex attribute filter node.
+     *
+     * @param {string} attribute - Multi valued attribute path.
+     * @param {SCIMFilterNode} filter - Filter for the values.
+     * @param {string} subAttribute - Optional sub attribute.
+     * @param {SCIMFilterComparisonNodeInterface | SCIMFilterPresenceNodeInterface} condition - Optional condition
+     * on the sub attribute.
+     * @return {SCIMFilterValuePathNodeInterface}
+     */
+    public static valuePath(attribute: string,
+                            filter: SCIMFilterNode,
+                            subAttribute?: string,
+                            condition?: SCIMFilterComparisonNodeInterface | SCIMFilterPresenceNodeInterface
+    ): SCIMFilterValuePathNodeInterface {
+
+        const node: SCIMFilterValuePathNodeInterface = { attribute, filter, type: SCIMFilterNodeTypes.VALUE_PATH };
+
+        if (subAttribute) {
+            node.subAttribute = subAttribute;
+        }
+
+        if (subAttribute && condition) {
+            node.condition = condition;
+        }
+
+        return node;
+    }
+
+    /**
+     * Left folds the nodes with the passed in logical operator.
+     *
+     * @param {SCIMFilterLogicalOperators} operator - Logical operator.
+     * @param {SCIMFilterNode[]} nodes - Nodes to combine.
+     * @return {SCIMFilterNode}
+     */
+    private static combine(operator: SCIMFilterLogicalOperators, nodes: SCIMFilterNode[]): SCIMFilterNode {
+
+        const filtered: SCIMFilterNode[] = nodes.filter(Boolean);
+
+        if (filtered.length === 0) {
+            return null;
+        }
+
+        return filtered.reduce((left: SCIMFilterNode, right: SCIMFilterNode): SCIMFilterLogicalNodeInterface => {
+            return { left, operator, right, type: SCIMFilterNodeTypes.LOGICAL };
+        });
+    }
+
+    /**
+     * Serializes a comparison value.
+     *
+     * @param {SCIMFilterComparisonValue} value - Value.
+     * @param {boolean} quoted - Should string values be quoted.
+     * @return {string}
+     */
+    private static serializeValue(value: SCIMFilterComparisonValue, quoted: boolean = true): string {
+
+        if (typeof value !== "string") {
+            return String(value);
+        }
+
+        if (!quoted) {
+            return value;
+        }
+
+        return `"${ value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"") }"`;
+    }
+}
@@ -17,6 +17,14 @@
  *
  */
 
+import { SCIMFilterUtils } from "./scim-filter-utils";
+import { SCIMFilterParseException } from "../exceptions";
+import {
+    SCIMFilterNode,
+    SCIMFilterParserOptionsInterface,
+    SearchQueryValidationResultInterface
+} from "../models";
+
 /**
  * Utility class for search operations.
  */
@@ -34,37 +42,74 @@ export class SearchUtils {
     /**
      * Builds a search query once a raw search string is passed in.
      *
+     * Human friendly operator aliases are mapped to the SCIM operators.
+     * i.e if query is `name starts with john doe`, the `starts with` portion is mapped
+     * to `sw` to build the query as `name sw john doe`. Multi clause filters are normalized.
+     * If the query is not a valid filter, the raw query is returned as it is.
+     *
      * @param {string} raw - Raw search string.
      * @return {string}
      */
     public static buildSearchQuery(raw: string): string {
 
-        const SUPPORTED_OPERATOR_ALIASES: object = {
-            co: [ "contain", "contains" ],
-            eq: [ "equal", "equals" ],
-            ew: [ "end with", "ends with" ],
-            sw: [ "start with", "starts with" ]
+        const result: SearchQueryValidationResultInterface = SearchUtils.validateSearchQuery(raw);
+
+        return result.valid ? result.query : raw;
+    }
+
+    /**
+     * Validates a raw search string against the SCIM filter grammar and normalizes it.
+     * Operator aliases and un-quoted values are allowed in the raw query.
+     *
+     * @example
+     * // returns `{ query: "name sw john and (age gt 30 or title pr)", valid: true }`
+     * SearchUtils.validateSearchQuery("name starts with john AND (age gt 30 or title pr)");
+     *
+     * @param {string} raw - Raw search string.
+     * @param {string[]} supportedAttributes - Optional list of attribute paths allowed in the query.
+     * @return {SearchQueryValidationResultInterface} Validation result.
+     */
+    public static validateSearchQuery(raw: string,
+                                      supportedAttributes?: string[]): SearchQueryValidationResultInterface {
+
+        const options: SCIMFilterParserOptionsInterface = {
+            allowOperatorAliases: true,
+            allowUnquotedValues: true
         };
 
-        const parts = raw.split(" ");
-        const moderatedQueryParts = parts.splice(1, parts.length);
+        let filter: SCIMFilterNode;
+
+        try {
+            filter = SCIMFilterUtils.parse(raw, options);
+        } catch (error) {
+            if (error instanceof SCIMFilterParseException) {
+                return {
+                    message: error.message,
+                    position: error.position,
+                    valid: false
+                };
+            }
+
+            throw error;
+        }
+
+        if (supportedAttributes) {
+            const supported: string[] = supportedAttributes.map((attribute: string) => attribute.toLowerCase());
+            const unsupported: string = SCIMFilterUtils.getAttributes(filter)
+                .find((attribute: string) => !supported.includes(attribute.toLowerCase()));
 
-        // Try to extract the operator of the query by checking the aliases.
-        // i.e if query is `name starts with john doe`, extract the `starts with` portion
-        // and map it to `sw` to build the query as `name sw john doe`.
-        for (const [ i, part ] of moderatedQueryParts.entries()) {
-            for (const [ key, value ] of Object.entries(SUPPORTED_OPERATOR_ALIASES)) {
-                for (const token of value) {
-                    if (part === token) {
-                        return [ parts[ 0 ], key, moderatedQueryParts.splice(i + 1, parts.length) ].join(" ");
-                    }
-                    if ([ part, moderatedQueryParts[ i + 1 ] ].join(" ") === token) {
-                        return [ parts[ 0 ], key, moderatedQueryParts.splice(i + 2, parts.length) ].join(" ");
-                    }
-                }
+            if (unsupported) {
+                return {
+                    message: `Attribute "${ unsupported }" is not supported.`,
+                    position: SCIMFilterUtils.getAttributePositions(raw, options).get(unsupported),
+                    valid: false
+                };
             }
         }
 
-        return raw;
+        return {
+            query: SCIMFilterUtils.serialize(filter),
+            valid: true
+        };
     }
 }
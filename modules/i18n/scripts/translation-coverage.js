@@ -0,0 +1,116 @@
+/**
+ * Copyright (c) 2020, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ */
+
+const path = require("path");
+const fs = require("fs-extra");
+
+// eslint-disable-next-line no-console
+const log = console.log;
+
+const META_FILE_NAME = "meta.json";
+
+// Path for the distribution directory.
+const dist = path.join(__dirname, "..", "dist");
+
+// Path for the transpiled JSON bundles generated by the post build script.
+const bundlePath = path.join(dist, "bundle");
+
+// Path for the compiled coverage analyzer.
+const coveragePath = path.join(dist, "src", "coverage");
+
+// Usage: npm run translations:coverage -- [--base <locale>] [--format <json|xliff>] [--out <dir>] [--untranslated]
+const args = process.argv.slice(2);
+const getArg = (name) => {
+    const index = args.indexOf(name);
+
+    return index > -1 ? args[ index + 1 ] : undefined;
+};
+
+if (!fs.existsSync(path.join(bundlePath, META_FILE_NAME)) || !fs.existsSync(coveragePath + ".js")) {
+    log("\nERROR in @wso2is/i18 module");
+
+    log("\nCould not locate the i18n bundle. Please execute the build command before running this script.");
+
+    process.exit(1);
+}
+
+const { analyzeTranslationCoverage, exportMissingTranslations, getMissingTranslations } = require(coveragePath);
+
+const meta = fs.readJsonSync(path.join(bundlePath, META_FILE_NAME));
+const bundles = {};
+
+// Re-create the locale bundles from the JSON files. Namespaces without a file such as `extensions` are skipped.
+for (const [ code, localeMeta ] of Object.entries(meta)) {
+    const portals = {};
+
+    for (const [ namespace, resourcePath ] of Object.entries(localeMeta.paths || {})) {
+        const filePath = path.join(bundlePath, resourcePath);
+
+        if (fs.existsSync(filePath)) {
+            portals[ namespace ] = fs.readJsonSync(filePath);
+        }
+    }
+
+    bundles[ code ] = {
+        meta: localeMeta,
+        resources: {
+            portals
+        }
+    };
+}
+
+const report = analyzeTranslationCoverage(bundles, getArg("--base"));
+
+log("\nTranslation coverage against " + report.baseLocale + "\n");
+
+for (const locale of report.locales) {
+    log(locale.locale + " - " + locale.coverage + "%");
+
+    for (const ns of locale.namespaces) {
+        log("    " + ns.namespace + (ns.isMissing ? " (not shipped)" : "") + ": "
+            + ns.translated + "/" + ns.total + " translated, "
+            + ns.missing.length + " missing, "
+            + ns.extra.length + " extra, "
+            + ns.untranslated.length + " identical to " + report.baseLocale + ", "
+            + ns.placeholderMismatches.length + " placeholder mismatches");
+
+        for (const mismatch of ns.placeholderMismatches) {
+            log("        " + mismatch.key + ": expected [" + mismatch.expected.join(", ") + "] but found ["
+                + mismatch.actual.join(", ") + "]");
+        }
+    }
+}
+
+// Export the missing keys for the translators if an output directory is given.
+if (getArg("--out")) {
+    const format = getArg("--format") || "json";
+    const outputPath = path.resolve(getArg("--out"));
+    const missing = getMissingTranslations(report, bundles, args.includes("--untranslated"));
+
+    fs.ensureDirSync(outputPath);
+
+    for (const locale of report.locales) {
+        const filePath = path.join(outputPath, locale.locale + "." + (format === "xliff" ? "xlf" : "json"));
+
+        fs.writeFileSync(filePath, exportMissingTranslations(missing.filter((translation) => {
+            return translation.locale === locale.locale;
+        }), format, report.baseLocale));
+
+        log("\nGenerated the missing keys of " + locale.locale + " - " + filePath);
+    }
+}
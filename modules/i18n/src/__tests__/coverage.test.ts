@@ -0,0 +1,160 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import i18next from "i18next";
+import {
+    analyzeTranslationCoverage,
+    exportMissingTranslations,
+    flattenResource,
+    getInterpolationPlaceholders,
+    getMissingTranslations
+} from "../coverage";
+import { I18nDevMode } from "../dev-mode";
+import { LocaleBundles, TranslationExportFormats } from "../models";
+
+const LANGUAGE_BUNDLES: LocaleBundles = {
+    "en-US": {
+        "meta": {
+            "code": "en-US",
+            "name": "English (United States)",
+            "namespaces": [ "common", "console" ]
+        },
+        "resources": {
+            "portals": {
+                "common": {
+                    "cancel": "Cancel",
+                    "description": "{{description}}",
+                    "greeting": "Hello {{name}}",
+                    "placeholders": {
+                        "subtitles": {
+                            0: "There are no items."
+                        }
+                    }
+                },
+                "console": {
+                    "title": "Console"
+                }
+            }
+        }
+    },
+    "fr-FR": {
+        "meta": {
+            "code": "fr-FR",
+            "name": "Français (France)",
+            "namespaces": [ "common" ]
+        },
+        "resources": {
+            "portals": {
+                "common": {
+                    "cancel": "Cancel",
+                    "description": "{{description}}",
+                    "greeting": "Bonjour {{username}}",
+                    "obsolete": "Obsolète"
+                }
+            }
+        }
+    }
+};
+
+describe("If translation coverage analyzer", () => {
+
+    const report = analyzeTranslationCoverage(LANGUAGE_BUNDLES);
+    const [ common, consoleCoverage ] = report.locales[ 0 ].namespaces;
+
+    test("Should flatten the nested resources to dot separated keys", () => {
+        expect(Array.from(flattenResource(LANGUAGE_BUNDLES[ "en-US" ].resources.portals.common).keys()))
+            .toStrictEqual([ "cancel", "description", "greeting", "placeholders.subtitles.0" ]);
+    });
+
+    test("Should extract the interpolation placeholders", () => {
+        expect(getInterpolationPlaceholders("{{- name}} on {{date, LL}} by {{name}}"))
+            .toStrictEqual([ "date", "name" ]);
+    });
+
+    test("Should report the missing, extra and untranslated keys of every namespace", () => {
+        expect(report.locales.map((locale) => locale.locale)).toStrictEqual([ "fr-FR" ]);
+        expect(common.missing).toStrictEqual([ "placeholders.subtitles.0" ]);
+        expect(common.extra).toStrictEqual([ "obsolete" ]);
+        expect(common.untranslated).toStrictEqual([ "cancel" ]);
+        expect(common.translated).toBe(2);
+    });
+
+    test("Should report the placeholder mismatches", () => {
+        expect(common.placeholderMismatches).toStrictEqual([
+            { actual: [ "username" ], expected: [ "name" ], key: "greeting" }
+        ]);
+    });
+
+    test("Should report the namespaces which are not shipped by a locale", () => {
+        expect(consoleCoverage.isMissing).toBe(true);
+        expect(consoleCoverage.missing).toStrictEqual([ "title" ]);
+        expect(report.locales[ 0 ].coverage).toBe(40);
+    });
+
+    test("Should export the missing keys with the source strings", () => {
+        const missing = getMissingTranslations(report, LANGUAGE_BUNDLES);
+
+        expect(JSON.parse(exportMissingTranslations(missing, TranslationExportFormats.JSON))).toStrictEqual({
+            "fr-FR": {
+                "common": { "placeholders": { "subtitles": { "0": "There are no items." } } },
+                "console": { "title": "Console" }
+            }
+        });
+
+        const xliff: string = exportMissingTranslations(missing, TranslationExportFormats.XLIFF);
+
+        expect(xliff).toContain("<file original=\"console\" source-language=\"en-US\" target-language=\"fr-FR\"");
+        expect(xliff).toContain("<trans-unit id=\"placeholders.subtitles.0\">");
+        expect(xliff).toContain("<source>There are no items.</source>");
+    });
+});
+
+describe("If i18n dev mode", () => {
+
+    const instance = i18next.createInstance();
+
+    beforeAll(() => {
+        instance.use(I18nDevMode.createPostProcessor({ enabled: true }));
+
+        return instance.init(I18nDevMode.extendInitOptions({
+            fallbackLng: "en-US",
+            lng: "fr-FR",
+            resources: {
+                "en-US": { common: { cancel: "Cancel", save: "Save" } },
+                "fr-FR": { common: { cancel: "Annuler" } }
+            }
+        }));
+    });
+
+    afterEach(() => {
+        I18nDevMode.clearMissingTranslations();
+    });
+
+    test("Should leave the strings of the current locale as they are", () => {
+        expect(instance.t("common:cancel")).toBe("Annuler");
+        expect(I18nDevMode.getMissingTranslations()).toHaveLength(0);
+    });
+
+    test("Should highlight the fallback strings and collect the missing keys", () => {
+        expect(instance.t("common:save")).toBe("⟦Save⟧");
+        expect(I18nDevMode.getMissingTranslations()).toStrictEqual([
+            { key: "save", locale: "fr-FR", namespace: "common", source: "Save" }
+        ]);
+    });
+});
@@ -85,4 +85,28 @@ export class I18nModuleConstants {
      * @default
      */
     public static readonly META_FILENAME: string = "meta.json";
+
+    /**
+     * Name of the post processor registered in the dev mode.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly DEV_MODE_POST_PROCESSOR_NAME: string = "i18nDevMode";
+
+    /**
+     * Prefix added to the fallback strings in the dev mode.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly DEV_MODE_HIGHLIGHT_PREFIX: string = "⟦";
+
+    /**
+     * Suffix added to the fallback strings in the dev mode.
+     * @constant
+     * @type {string}
+     * @default
+     */
+    public static readonly DEV_MODE_HIGHLIGHT_SUFFIX: string = "⟧";
 }
@@ -0,0 +1,371 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { ResourceKey, ResourceLanguage } from "i18next";
+import { I18nModuleConstants } from "./constants";
+import {
+    LocaleBundle,
+    LocaleBundles,
+    LocaleCoverageInterface,
+    MissingTranslationInterface,
+    NamespaceCoverageInterface,
+    PlaceholderMismatchInterface,
+    TranslationCoverageReportInterface,
+    TranslationExportFormats
+} from "./models";
+
+/**
+ * Matches the interpolation placeholders. i.e. `{{name}}`, `{{- name}}` or `{{date, format}}`.
+ */
+const PLACEHOLDER_REGEX: RegExp = /{{-?\s*([^{}\s,]+)[^{}]*}}/g;
+
+/**
+ * Merges the resource groups of a locale bundle. i.e. `portals` to a map of the namespaces.
+ *
+ * @remarks
+ * Kept free of the other helpers so that the analyzer can be loaded by the node scripts.
+ *
+ * @param {LocaleBundle} bundle - Locale bundle.
+ * @return {ResourceLanguage} Namespaces of the locale.
+ */
+const getLocaleResources = (bundle: LocaleBundle): ResourceLanguage => {
+
+    let resources: ResourceLanguage = {};
+
+    for (const group of Object.values(bundle?.resources ?? {})) {
+        resources = {
+            ...resources,
+            ...group as ResourceLanguage
+        };
+    }
+
+    return resources;
+};
+
+/**
+ * Flattens a resource to a map of the `.` separated keys and the translations.
+ *
+ * @param {ResourceKey} resource - Resource of a namespace.
+ * @param {string} prefix - Key of the parent.
+ * @return {Map<string, string>} Flattened resource.
+ */
+export const flattenResource = (resource: ResourceKey, prefix?: string): Map<string, string> => {
+
+    let flattened: Map<string, string> = new Map<string, string>();
+
+    if (!resource || typeof resource !== "object") {
+        return flattened;
+    }
+
+    for (const [ key, value ] of Object.entries(resource)) {
+        const path: string = prefix ? `${ prefix }.${ key }` : key;
+
+        if (value !== null && typeof value === "object") {
+            flattened = new Map([ ...flattened, ...flattenResource(value, path) ]);
+        } else if (value !== undefined && value !== null) {
+            flattened.set(path, String(value));
+        }
+    }
+
+    return flattened;
+};
+
+/**
+ * Extracts the names of the interpolation placeholders of a translation.
+ *
+ * @param {string} value - Translation.
+ * @return {string[]} Sorted unique placeholder names.
+ */
+export const getInterpolationPlaceholders = (value: string): string[] => {
+
+    const placeholders: Set<string> = new Set<string>();
+
+    value.replace(PLACEHOLDER_REGEX, (match: string, name: string) => {
+        placeholders.add(name);
+
+        return match;
+    });
+
+    return Array.from(placeholders).sort();
+};
+
+/**
+ * Compares a namespace of a locale against the base locale.
+ *
+ * @param {string} namespace - Name of the namespace.
+ * @param {Map<string, string>} base - Flattened namespace of the base locale.
+ * @param {Map<string, string>} target - Flattened namespace of the locale. `undefined` if not shipped.
+ * @return {NamespaceCoverageInterface} Coverage of the namespace.
+ */
+export const analyzeNamespaceCoverage = (namespace: string, base: Map<string, string>,
+                                         target?: Map<string, string>): NamespaceCoverageInterface => {
+
+    const coverage: NamespaceCoverageInterface = {
+        extra: [],
+        isMissing: !target,
+        missing: [],
+        namespace,
+        placeholderMismatches: [],
+        total: base.size,
+        translated: 0,
+        untranslated: []
+    };
+
+    for (const [ key, baseValue ] of base) {
+        if (!target?.has(key)) {
+            coverage.missing.push(key);
+
+            continue;
+        }
+
+        const value: string = target.get(key);
+        const expected: string[] = getInterpolationPlaceholders(baseValue);
+        const actual: string[] = getInterpolationPlaceholders(value);
+
+        if (expected.join() !== actual.join()) {
+            coverage.placeholderMismatches.push({ actual, expected, key } as PlaceholderMismatchInterface);
+        }
+
+        // Values without any words such as `{{description}}` are expected to be identical.
+        if (value === baseValue && /[A-Za-z]/.test(baseValue.replace(PLACEHOLDER_REGEX, ""))) {
+            coverage.untranslated.push(key);
+
+            continue;
+        }
+
+        coverage.translated++;
+    }
+
+    target?.forEach((value: string, key: string) => {
+        if (!base.has(key)) {
+            coverage.extra.push(key);
+        }
+    });
+
+    return coverage;
+};
+
+/**
+ * Analyzes the translation coverage of the locales against a base locale. Every namespace shipped by the
+ * base locale is analyzed for each of the other locales.
+ *
+ * @example
+ * ```
+ * import * as translations from "@wso2is/i18n/dist/src/translations";
+ *
+ * analyzeTranslationCoverage(translations as unknown as LocaleBundles);
+ * ```
+ *
+ * @param {LocaleBundles} bundles - Locale bundles.
+ * @param {string} baseLocale - Locale the other locales are compared against.
+ * @return {TranslationCoverageReportInterface} Coverage report.
+ */
+export const analyzeTranslationCoverage = (
+    bundles: LocaleBundles,
+    baseLocale: string = I18nModuleConstants.DEFAULT_FALLBACK_LANGUAGE
+): TranslationCoverageReportInterface => {
+
+    const baseResources: ResourceLanguage = getLocaleResources(bundles[ baseLocale ]);
+    const locales: LocaleCoverageInterface[] = [];
+
+    for (const bundle of Object.values(bundles)) {
+        const locale: string = bundle.meta.code;
+        const resources: ResourceLanguage = getLocaleResources(bundle);
+
+        if (locale === baseLocale) {
+            continue;
+        }
+
+        const namespaces: NamespaceCoverageInterface[] = Object.keys(baseResources).map((namespace: string) => {
+            const target: ResourceKey = resources[ namespace ];
+
+            return analyzeNamespaceCoverage(namespace, flattenResource(baseResources[ namespace ]),
+                target ? flattenResource(target) : undefined);
+        });
+
+        const total: number = namespaces.reduce((count: number, ns: NamespaceCoverageInterface) => {
+            return count + ns.total;
+        }, 0);
+        const translated: number = namespaces.reduce((count: number, ns: NamespaceCoverageInterface) => {
+            return count + ns.translated;
+        }, 0);
+
+        locales.push({
+            coverage: total > 0 ? Math.floor((translated / total) * 10000) / 100 : 100,
+            locale,
+            namespaces
+        });
+    }
+
+    return {
+        baseLocale,
+        locales
+    };
+};
+
+/**
+ * Resolves the keys missing in each locale of a coverage report along with the source strings.
+ *
+ * @param {TranslationCoverageReportInterface} report - Coverage report.
+ * @param {LocaleBundles} bundles - Locale bundles the report was generated from.
+ * @param {boolean} includeUntranslated - Should the keys identical to the base locale be included.
+ * @return {MissingTranslationInterface[]} Missing keys.
+ */
+export const getMissingTranslations = (report: TranslationCoverageReportInterface, bundles: LocaleBundles,
+                                       includeUntranslated: boolean = false): MissingTranslationInterface[] => {
+
+    const baseResources: ResourceLanguage = getLocaleResources(bundles[ report.baseLocale ]);
+    const missing: MissingTranslationInterface[] = [];
+
+    for (const { locale, namespaces } of report.locales) {
+        for (const coverage of namespaces) {
+            const source: Map<string, string> = flattenResource(baseResources[ coverage.namespace ]);
+            const keys: string[] = includeUntranslated
+                ? [ ...coverage.missing, ...coverage.untranslated ]
+                : coverage.missing;
+
+            keys.forEach((key: string) => missing.push({
+                key,
+                locale,
+                namespace: coverage.namespace,
+                source: source.get(key)
+            }));
+        }
+    }
+
+    return missing;
+};
+
+/**
+ * Escapes the XML special characters.
+ *
+ * @param {string} value - Value to escape.
+ * @return {string} Escaped value.
+ */
+const escapeXML = (value: string): string => {
+
+    return value
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;");
+};
+
+/**
+ * Groups the missing keys by the locale and the namespace.
+ *
+ * @param {MissingTranslationInterface[]} translations - Missing keys.
+ * @return {Map<string, Map<string, MissingTranslationInterface[]>>} Keys grouped by the locale and the namespace.
+ */
+const groupMissingTranslations = (
+    translations: MissingTranslationInterface[]
+): Map<string, Map<string, MissingTranslationInterface[]>> => {
+
+    const groups: Map<string, Map<string, MissingTranslationInterface[]>> = new Map();
+
+    for (const translation of translations) {
+        if (!groups.has(translation.locale)) {
+            groups.set(translation.locale, new Map());
+        }
+
+        const namespaces: Map<string, MissingTranslationInterface[]> = groups.get(translation.locale);
+
+        namespaces.set(translation.namespace, [ ...(namespaces.get(translation.namespace) ?? []), translation ]);
+    }
+
+    return groups;
+};
+
+/**
+ * Generates a translator-ready file with the missing keys. The JSON format follows the structure of the
+ * locale bundles with the source strings as the values. The XLIFF format follows XLIFF 1.2 with a `file`
+ * element per locale and namespace.
+ *
+ * @param {MissingTranslationInterface[]} translations - Missing keys.
+ * @param {TranslationExportFormats} format - Format of the file.
+ * @param {string} sourceLocale - Locale of the source strings.
+ * @return {string} Content of the file.
+ */
+export const exportMissingTranslations = (
+    translations: MissingTranslationInterface[],
+    format: TranslationExportFormats = TranslationExportFormats.JSON,
+    sourceLocale: string = I18nModuleConstants.DEFAULT_FALLBACK_LANGUAGE
+): string => {
+
+    const groups: Map<string, Map<string, MissingTranslationInterface[]>> = groupMissingTranslations(translations);
+
+    if (format === TranslationExportFormats.XLIFF) {
+        const files: string[] = [];
+
+        groups.forEach((namespaces: Map<string, MissingTranslationInterface[]>, locale: string) => {
+            namespaces.forEach((keys: MissingTranslationInterface[], namespace: string) => {
+                const units: string[] = keys.map((translation: MissingTranslationInterface) => [
+                    `      <trans-unit id="${ escapeXML(translation.key) }">`,
+                    `        <source>${ escapeXML(translation.source ?? translation.key) }</source>`,
+                    "        <target/>",
+                    "      </trans-unit>"
+                ].join("\n"));
+
+                files.push([
+                    `  <file original="${ escapeXML(namespace) }" source-language="${ escapeXML(sourceLocale) }" `
+                    + `target-language="${ escapeXML(locale) }" datatype="plaintext">`,
+                    "    <body>",
+                    ...units,
+                    "    </body>",
+                    "  </file>"
+                ].join("\n"));
+            });
+        });
+
+        return [
+            "<?xml version=\"1.0\" encoding=\"UTF-8\"?>",
+            "<xliff version=\"1.2\" xmlns=\"urn:oasis:names:tc:xliff:document:1.2\">",
+            ...files,
+            "</xliff>"
+        ].join("\n");
+    }
+
+    const bundle: Record<string, ResourceLanguage> = {};
+
+    groups.forEach((namespaces: Map<string, MissingTranslationInterface[]>, locale: string) => {
+        bundle[ locale ] = {};
+
+        namespaces.forEach((keys: MissingTranslationInterface[], namespace: string) => {
+            const resource: Record<string, any> = {};
+
+            // Numeric segments such as `subtitles.0` are kept as object keys to match the bundles.
+            keys.forEach((translation: MissingTranslationInterface) => {
+                const segments: string[] = translation.key.split(".");
+                let node: Record<string, any> = resource;
+
+                segments.slice(0, -1).forEach((segment: string) => {
+                    node[ segment ] = node[ segment ] ?? {};
+                    node = node[ segment ];
+                });
+
+                node[ segments[ segments.length - 1 ] ] = translation.source ?? "";
+            });
+
+            bundle[ locale ][ namespace ] = resource;
+        });
+    });
+
+    return JSON.stringify(bundle, null, 4);
+};
@@ -0,0 +1,147 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { InitOptions, PostProcessorModule, TOptions } from "i18next";
+import { I18nModuleConstants } from "./constants";
+import { exportMissingTranslations } from "./coverage";
+import { I18nDevModeOptionsInterface, MissingTranslationInterface, TranslationExportFormats } from "./models";
+
+/**
+ * Dev mode of the i18n module. Highlights the strings resolved from a fallback locale and collects
+ * the missing keys so that they can be handed over to the translators.
+ *
+ * @example
+ * Example usage.
+ * ```
+ * I18n.init({ devMode: { enabled: true } });
+ *
+ * // Export the keys missing in the current locale.
+ * I18nDevMode.exportMissingTranslations(TranslationExportFormats.XLIFF);
+ * ```
+ */
+export class I18nDevMode {
+
+    private static missingTranslations: Map<string, MissingTranslationInterface> = new Map();
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Creates the post processor which detects the fallback strings.
+     *
+     * @param {I18nDevModeOptionsInterface} options - Dev mode options.
+     * @return {PostProcessorModule} Post processor plugin.
+     */
+    public static createPostProcessor(options: I18nDevModeOptionsInterface): PostProcessorModule {
+
+        return {
+            name: I18nModuleConstants.DEV_MODE_POST_PROCESSOR_NAME,
+            process: (value: string, key: string | string[], translateOptions: TOptions, translator: any): string => {
+                const resolved = translateOptions?.i18nResolved;
+                const language: string = translator?.language;
+
+                // Strings resolved from the current locale and the nested translations are left as they are.
+                if (!resolved || !language || (resolved.res !== undefined && resolved.usedLng === language)) {
+                    return value;
+                }
+
+                const translation: MissingTranslationInterface = {
+                    key: resolved.usedKey ?? (Array.isArray(key) ? key[ 0 ] : key),
+                    locale: language,
+                    namespace: resolved.usedNS,
+                    source: resolved.res !== undefined && typeof resolved.res === "string"
+                        ? resolved.res
+                        : undefined
+                };
+
+                I18nDevMode.missingTranslations.set(`${ translation.locale }:${ translation.namespace }:${
+                    translation.key }`, translation);
+
+                if (options.highlightFallbacks === false) {
+                    return value;
+                }
+
+                return options.highlightFormatter
+                    ? options.highlightFormatter(value, translation)
+                    : I18nModuleConstants.DEV_MODE_HIGHLIGHT_PREFIX + value
+                        + I18nModuleConstants.DEV_MODE_HIGHLIGHT_SUFFIX;
+            },
+            type: "postProcessor"
+        };
+    }
+
+    /**
+     * Extends the init options to run the dev mode post processor on every translation.
+     *
+     * @param {i18next.InitOptions} options - Init options.
+     * @return {i18next.InitOptions} Extended init options.
+     */
+    public static extendInitOptions(options: InitOptions): InitOptions {
+
+        const postProcess: string[] = options.postProcess
+            ? [].concat(options.postProcess)
+            : [];
+
+        return {
+            ...options,
+            postProcess: [ ...postProcess, I18nModuleConstants.DEV_MODE_POST_PROCESSOR_NAME ],
+            // Exposes the resolved language and key to the post processor.
+            postProcessPassResolved: true
+        };
+    }
+
+    /**
+     * Returns the missing keys collected since the dev mode was enabled.
+     *
+     * @param {string} locale - Locale to filter the keys by.
+     * @return {MissingTranslationInterface[]} Missing keys.
+     */
+    public static getMissingTranslations(locale?: string): MissingTranslationInterface[] {
+
+        return Array.from(this.missingTranslations.values())
+            .filter((translation: MissingTranslationInterface) => !locale || translation.locale === locale);
+    }
+
+    /**
+     * Exports the missing keys collected since the dev mode was enabled.
+     *
+     * @param {TranslationExportFormats} format - Format of the file.
+     * @param {string} locale - Locale to filter the keys by.
+     * @return {string} Content of the file.
+     */
+    public static exportMissingTranslations(format: TranslationExportFormats = TranslationExportFormats.JSON,
+                                            locale?: string): string {
+
+        return exportMissingTranslations(this.getMissingTranslations(locale), format);
+    }
+
+    /**
+     * Clears the collected missing keys.
+     */
+    public static clearMissingTranslations(): void {
+
+        this.missingTranslations.clear();
+    }
+}
@@ -16,9 +16,11 @@
  * under the License.
  */
 
-import i18next, { InitOptions, Module, TFunction, i18n as i18nInterface } from "i18next";
+import i18next, { Module, TFunction, i18n as i18nInterface } from "i18next";
+import { I18nDevMode } from "./dev-mode";
 import { UnsupportedI18nFrameworkException } from "./exceptions";
 import { generateI18nOptions } from "./helpers";
+import { I18nModuleInitOptions } from "./models";
 import { initReactI18next } from "react-i18next";
 import LanguageDetector from "i18next-browser-languagedetector";
 import XHR from "i18next-xhr-backend";
@@ -63,7 +65,7 @@ export class I18n {
     /**
      * Initializes the i18next instance.
      *
-     * @param {i18next.InitOptions} options - Passed in init options.
+     * @param {I18nModuleInitOptions} options - Passed in init options. `devMode` enables the i18n dev mode.
      * @param {boolean} override - Should the passed in options replace the default.
      * @param {boolean} autoDetect - If autodetect plugin should be used or not.
      * @param {boolean} useBackend - If XHR back end plugin should be used or not.
@@ -72,8 +74,8 @@ export class I18n {
      * @param {i18next.Module[]} plugins - Other plugins to use.
      * @return {Promise<i18next.TFunction>} Init promise.
      */
-    public static init(options?: InitOptions, override?: boolean, autoDetect?: boolean, useBackend?: boolean,
-                       debug?: boolean, framework: SupportedI18nFrameworks = this.defaultFramework,
+    public static init(options?: I18nModuleInitOptions, override?: boolean, autoDetect?: boolean,
+                       useBackend?: boolean, debug?: boolean, framework: SupportedI18nFrameworks = this.defaultFramework,
                        plugins?: Module[]): Promise<TFunction> {
 
         // Resolve debug mode.
@@ -107,6 +109,16 @@ export class I18n {
             throw new UnsupportedI18nFrameworkException(framework);
         }
 
-        return this.instance.init(generateI18nOptions(options, override, useBackend, this.debug));
+        const { devMode, ...initOptions } = options ?? ({} as I18nModuleInitOptions);
+
+        // If the dev mode is enabled, highlight the fallback strings and collect the missing keys.
+        if (devMode?.enabled) {
+            this.instance.use(I18nDevMode.createPostProcessor(devMode));
+
+            return this.instance.init(I18nDevMode.extendInitOptions(
+                generateI18nOptions(initOptions, override, useBackend, this.debug)));
+        }
+
+        return this.instance.init(generateI18nOptions(initOptions, override, useBackend, this.debug));
     }
 }
@@ -20,4 +20,6 @@ export * from "./exceptions";
 export * from "./models";
 export * from "./constants";
 export * from "./helpers";
+export * from "./coverage";
+export * from "./dev-mode";
 export * from "./i18n";
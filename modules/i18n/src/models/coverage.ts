@@ -0,0 +1,157 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+/**
+ * Formats the missing keys can be exported in.
+ *
+ * @readonly
+ * @enum {string}
+ */
+export enum TranslationExportFormats {
+    JSON = "json",
+    XLIFF = "xliff"
+}
+
+/**
+ * Model for an interpolation placeholder mismatch of a translation.
+ */
+export interface PlaceholderMismatchInterface {
+    /**
+     * Key of the translation.
+     */
+    key: string;
+    /**
+     * Placeholders in the base locale.
+     */
+    expected: string[];
+    /**
+     * Placeholders in the translated locale.
+     */
+    actual: string[];
+}
+
+/**
+ * Model for the translation coverage of a namespace.
+ */
+export interface NamespaceCoverageInterface {
+    /**
+     * Name of the namespace.
+     */
+    namespace: string;
+    /**
+     * Whether the locale doesn't ship the namespace at all.
+     */
+    isMissing: boolean;
+    /**
+     * Number of keys in the base locale.
+     */
+    total: number;
+    /**
+     * Number of keys translated to the locale.
+     */
+    translated: number;
+    /**
+     * Keys in the base locale which are not in the locale.
+     */
+    missing: string[];
+    /**
+     * Keys in the locale which are not in the base locale.
+     */
+    extra: string[];
+    /**
+     * Keys with a value identical to the base locale.
+     */
+    untranslated: string[];
+    /**
+     * Keys with interpolation placeholders different to the base locale.
+     */
+    placeholderMismatches: PlaceholderMismatchInterface[];
+}
+
+/**
+ * Model for the translation coverage of a locale.
+ */
+export interface LocaleCoverageInterface {
+    /**
+     * ISO language code.
+     */
+    locale: string;
+    /**
+     * Percentage of the base locale keys translated to the locale.
+     */
+    coverage: number;
+    /**
+     * Coverage of each namespace.
+     */
+    namespaces: NamespaceCoverageInterface[];
+}
+
+/**
+ * Model for the translation coverage report.
+ */
+export interface TranslationCoverageReportInterface {
+    /**
+     * Locale the other locales are compared against.
+     */
+    baseLocale: string;
+    /**
+     * Coverage of each locale other than the base locale.
+     */
+    locales: LocaleCoverageInterface[];
+}
+
+/**
+ * Model for a key missing in a locale.
+ */
+export interface MissingTranslationInterface {
+    /**
+     * ISO language code of the locale the key is missing in.
+     */
+    locale: string;
+    /**
+     * Namespace of the key.
+     */
+    namespace: string;
+    /**
+     * Key of the translation.
+     */
+    key: string;
+    /**
+     * Value of the key in the source locale if available.
+     */
+    source?: string;
+}
+
+/**
+ * Model for the i18n dev mode options.
+ */
+export interface I18nDevModeOptionsInterface {
+    /**
+     * Enables the dev mode.
+     */
+    enabled: boolean;
+    /**
+     * Should the strings resolved from a fallback locale be highlighted. Defaults to `true`.
+     */
+    highlightFallbacks?: boolean;
+    /**
+     * Formats the highlighted strings. Wraps the string in `⟦` and `⟧` by default.
+     */
+    highlightFormatter?: (value: string, translation: MissingTranslationInterface) => string;
+}
@@ -19,3 +19,4 @@
 export * from "./namespaces";
 export * from "./misc";
 export * from "./common";
+export * from "./coverage";
@@ -16,7 +16,9 @@
  * under the License.
  */
 
+import { TextDirection } from "@wso2is/core/models";
 import { InitOptions } from "i18next";
+import { I18nDevModeOptionsInterface } from "./coverage";
 
 /**
  * Model for locale meta information.
@@ -26,6 +28,10 @@ export interface LocaleMeta {
      * ISO language code.
      */
     code: string;
+    /**
+     * Text direction of the language. Defaults to `ltr` if not defined.
+     */
+    direction?: TextDirection;
     /**
      * Flag to be used on the switcher.
      */
@@ -80,9 +86,14 @@ export interface SupportedLanguagesMeta {
 }
 
 /**
- * Type for i18n module init options.
+ * Model for i18n module init options.
  */
-export type I18nModuleInitOptions = InitOptions
+export interface I18nModuleInitOptions extends InitOptions {
+    /**
+     * Options of the dev mode which highlights the fallback strings and collects the missing keys.
+     */
+    devMode?: I18nDevModeOptionsInterface;
+}
 
 /**
  * Model for defining i18n module options.
@@ -70,6 +70,7 @@ export interface ConsoleNS {
             hints: {
                 querySearch: {
                     actionKeys: string;
+                    invalid: string;
                     label: string;
                 };
             };
@@ -87,6 +88,25 @@ export interface ConsoleNS {
             content: string;
             confirmButton: string;
         };
+        dataTable: {
+            actions: {
+                export: string;
+                exportPage: string;
+            };
+            filters: {
+                placeholder: string;
+            };
+            hints: {
+                currentPage: string;
+            };
+            views: {
+                delete: string;
+                emptyPlaceholder: string;
+                header: string;
+                namePlaceholder: string;
+                save: string;
+            };
+        };
         header: {
             appSwitch: {
                 console: AppSwitchItemInterface;
@@ -305,6 +325,33 @@ export interface ConsoleNS {
             };
             applications: {
                 addWizard: {
+                    import: {
+                        buttons: {
+                            back: string;
+                            import: string;
+                            trigger: string;
+                        };
+                        conflicts: {
+                            heading: string;
+                            identityProviders: string;
+                            name: string;
+                            redactedFields: string;
+                        };
+                        fields: {
+                            name: FormAttributes;
+                        };
+                        filePicker: {
+                            dropzoneText: string;
+                            hint: string;
+                            pasteAreaPlaceholderText: string;
+                            uploadButtonText: string;
+                        };
+                        heading: string;
+                        summary: string;
+                        validations: {
+                            emptyFile: string;
+                        };
+                    };
                     steps: {
                         generalSettings: {
                             heading: string;
@@ -511,6 +558,14 @@ export interface ConsoleNS {
                             tabName: string;
                         };
                         general: {
+                            export: {
+                                buttons: {
+                                    json: string;
+                                    yaml: string;
+                                };
+                                heading: string;
+                                hint: string;
+                            };
                             tabName: string;
                         };
                         provisioning: {
@@ -576,11 +631,96 @@ export interface ConsoleNS {
                                             heading: string;
                                             hint: string;
                                             editor: {
+                                                diagnostics: {
+                                                    missingLoginRequestHandler: string;
+                                                    syntaxError: string;
+                                                    undefinedStep: string;
+                                                    unknownAuthenticator: string;
+                                                    unknownIdentityProvider: string;
+                                                    unusedVariable: string;
+                                                };
                                                 resetConfirmation: {
                                                     content: string;
                                                     heading: string;
                                                     message: string;
                                                 };
+                                                simulator: {
+                                                    actions: {
+                                                        delete: string;
+                                                        new: string;
+                                                        open: string;
+                                                        run: string;
+                                                        save: string;
+                                                    };
+                                                    fields: {
+                                                        claims: {
+                                                            hint: string;
+                                                            label: string;
+                                                            placeholder: string;
+                                                        };
+                                                        ip: {
+                                                            label: string;
+                                                            placeholder: string;
+                                                        };
+                                                        name: {
+                                                            label: string;
+                                                            placeholder: string;
+                                                        };
+                                                        params: {
+                                                            hint: string;
+                                                            label: string;
+                                                            placeholder: string;
+                                                        };
+                                                        roles: {
+                                                            label: string;
+                                                            placeholder: string;
+                                                        };
+                                                        scenario: {
+                                                            label: string;
+                                                            placeholder: string;
+                                                            untitled: string;
+                                                        };
+                                                        stepResult: {
+                                                            label: string;
+                                                        };
+                                                        userAgent: {
+                                                            label: string;
+                                                            placeholder: string;
+                                                        };
+                                                        username: {
+                                                            label: string;
+                                                            placeholder: string;
+                                                        };
+                                                    };
+                                                    heading: string;
+                                                    outcomes: {
+                                                        errorRedirect: string;
+                                                        failed: string;
+                                                        noSteps: string;
+                                                        scriptError: string;
+                                                        success: string;
+                                                        timeout: string;
+                                                    };
+                                                    placeholders: {
+                                                        noLogs: string;
+                                                        noResult: string;
+                                                        noSteps: string;
+                                                    };
+                                                    sections: {
+                                                        logs: string;
+                                                        request: string;
+                                                        result: string;
+                                                        steps: string;
+                                                        trace: string;
+                                                        user: string;
+                                                    };
+                                                    stepResults: {
+                                                        fail: string;
+                                                        success: string;
+                                                    };
+                                                    subHeading: string;
+                                                    traceItem: string;
+                                                };
                                                 templates: {
                                                     heading: string;
                                                     darkMode: string;
@@ -595,6 +735,35 @@ export interface ConsoleNS {
                                                 selectAuthenticator: string;
                                             };
                                             addAuthenticatorModal: ModalInterface;
+                                            graph: {
+                                                branches: {
+                                                    conditional: string;
+                                                    empty: string;
+                                                    heading: string;
+                                                };
+                                                hint: string;
+                                                labels: {
+                                                    attributes: string;
+                                                    subject: string;
+                                                };
+                                                nodes: {
+                                                    end: string;
+                                                    start: string;
+                                                    step: string;
+                                                };
+                                                validations: {
+                                                    emptyStep: string;
+                                                    handlerWithoutNextStep: string;
+                                                    heading: string;
+                                                    invalidAttributeStep: string;
+                                                    invalidSubjectStep: string;
+                                                    secondFactorWithoutHandler: string;
+                                                };
+                                                views: {
+                                                    graph: string;
+                                                    list: string;
+                                                };
+                                            };
                                             heading: string;
                                             hint: string;
                                             forms: {
@@ -671,6 +840,74 @@ export interface ConsoleNS {
                                 };
                             };
                         };
+                        tokenPreview: {
+                            accessToken: {
+                                heading: string;
+                                jwt: string;
+                                opaque: string;
+                                opaqueHint: string;
+                            };
+                            fields: {
+                                applicationToken: {
+                                    hint: string;
+                                    label: string;
+                                };
+                                scopes: {
+                                    hint: string;
+                                    label: string;
+                                    placeholder: string;
+                                };
+                            };
+                            heading: string;
+                            idToken: {
+                                encrypted: string;
+                                heading: string;
+                                notIssued: string;
+                                omittedClaims: {
+                                    description: string;
+                                    heading: string;
+                                };
+                                signed: string;
+                            };
+                            inspector: {
+                                actions: {
+                                    verify: string;
+                                };
+                                errors: {
+                                    encryptedToken: string;
+                                    invalidKey: string;
+                                    malformedToken: string;
+                                    noMatchingKey: string;
+                                    unsupportedAlgorithm: string;
+                                };
+                                fields: {
+                                    key: {
+                                        hint: string;
+                                        label: string;
+                                        placeholder: string;
+                                    };
+                                    token: {
+                                        label: string;
+                                        placeholder: string;
+                                    };
+                                };
+                                heading: string;
+                                results: {
+                                    expired: string;
+                                    expiresAt: string;
+                                    invalid: string;
+                                    valid: string;
+                                };
+                                subHeading: string;
+                            };
+                            sections: {
+                                encryptionHeader: string;
+                                header: string;
+                                payload: string;
+                            };
+                            subHeading: string;
+                            tabName: string;
+                        };
                     };
                 };
                 forms: {
@@ -812,6 +1049,51 @@ export interface ConsoleNS {
                             mode: FormAttributes;
                             qualifier: FormAttributes;
                         };
+                        metadata: {
+                            actions: {
+                                export: string;
+                                import: string;
+                            };
+                            diff: {
+                                columns: {
+                                    current: string;
+                                    incoming: string;
+                                    path: string;
+                                };
+                                heading: string;
+                            };
+                            export: {
+                                actions: {
+                                    download: string;
+                                };
+                                empty: string;
+                                heading: string;
+                                hint: string;
+                                unavailable: string;
+                                unsavedChanges: string;
+                            };
+                            heading: string;
+                            hint: string;
+                            import: {
+                                actions: {
+                                    apply: string;
+                                };
+                                empty: string;
+                                error: string;
+                                filePicker: {
+                                    dropzoneText: string;
+                                    pasteAreaPlaceholderText: string;
+                                    uploadButtonText: string;
+                                };
+                                heading: string;
+                                hint: string;
+                                issuerMismatch: string;
+                                unsupported: {
+                                    description: string;
+                                    heading: string;
+                                };
+                            };
+                        };
                         sections: {
                             assertion: {
                                 heading: string;
@@ -939,6 +1221,7 @@ export interface ConsoleNS {
                     deleteProtocolConfig: Notification;
                     duplicateAuthenticationStep: Notification;
                     emptyAuthenticationStep: Notification;
+                    exportApplication: Notification;
                     fetchAllowedCORSOrigins: Notification;
                     fetchApplication: Notification;
                     fetchApplications: Notification;
@@ -950,11 +1233,13 @@ export interface ConsoleNS {
                     fetchTemplate: Notification;
                     fetchTemplates: Notification;
                     getInboundProtocolConfig: Notification;
+                    invalidAuthenticationFlow: Notification;
                     regenerateSecret: Notification;
                     revokeApplication: Notification;
                     updateAdvancedConfig: Notification;
                     updateApplication: Notification;
                     updateAuthenticationFlow: Notification;
+                    updateAuthenticationScript: Notification;
                     updateClaimConfig: Notification;
                     updateInboundProtocolConfig: Notification;
                     updateInboundProvisioningConfig: Notification;
@@ -1514,6 +1799,8 @@ export interface ConsoleNS {
                 };
                 buttons: {
                     addIDP: string;
+                    exportIDP: string;
+                    importIDP: string;
                     addAuthenticator: string;
                     addConnector: string;
                     addAttribute: string;
@@ -1711,6 +1998,7 @@ export interface ConsoleNS {
                     disableAuthenticator: Notification;
                     disableOutboundProvisioningConnector: Notification;
                     duplicateCertificateUpload: Notification;
+                    exportIDP: Notification;
                     getIDP: Notification;
                     getIDPList: Notification;
                     getIDPTemplate: Notification;
@@ -1802,6 +2090,48 @@ export interface ConsoleNS {
                             };
                         };
                     };
+                    importIDP: {
+                        buttons: {
+                            import: string;
+                        };
+                        conflicts: {
+                            name: string;
+                        };
+                        diff: {
+                            columns: {
+                                current: string;
+                                incoming: string;
+                                path: string;
+                                type: string;
+                            };
+                            empty: string;
+                            heading: string;
+                            types: {
+                                added: string;
+                                changed: string;
+                                removed: string;
+                            };
+                        };
+                        fields: {
+                            name: FormAttributes;
+                        };
+                        filePicker: {
+                            dropzoneText: string;
+                            hint: string;
+                            pasteAreaPlaceholderText: string;
+                            uploadButtonText: string;
+                        };
+                        header: string;
+                        secrets: {
+                            heading: string;
+                            hint: string;
+                            placeholder: string;
+                        };
+                        summary: string;
+                        validations: {
+                            emptyFile: string;
+                        };
+                    };
                     buttons: {
                         next: string;
                         finish: string;
@@ -1863,6 +2193,19 @@ export interface ConsoleNS {
             };
             templates: {
                 emptyPlaceholder: Placeholder;
+                preview: {
+                    label: string;
+                };
+                registry: {
+                    issues: {
+                        description: string;
+                        heading: string;
+                    };
+                    notifications: {
+                        fetchRegistry: Notification;
+                        invalidTemplates: NotificationItem;
+                    };
+                };
             };
         };
         notifications: {
@@ -2026,6 +2369,8 @@ export interface ConsoleNS {
                 buttons: {
                     addNewUserBtn: string;
                     assignUserRoleBtn: string;
+                    exportUsersBtn: string;
+                    importUsersBtn: string;
                     metaColumnBtn: string;
                 };
                 forms: {
@@ -2042,7 +2387,9 @@ export interface ConsoleNS {
                 };
                 notifications: {
                     addUser: Notification;
+                    bulkImportUsers: Notification;
                     deleteUser: Notification;
+                    exportUsers: Notification;
                     fetchUsers: Notification;
                 };
                 placeholders: {
@@ -2093,7 +2440,123 @@ export interface ConsoleNS {
                     };
                 };
             };
+            activityLog: {
+                buttons: {
+                    clear: string;
+                    exportCSV: string;
+                    exportJSON: string;
+                };
+                changes: {
+                    currentValue: string;
+                    path: string;
+                    previousValue: string;
+                };
+                columns: {
+                    actor: string;
+                    operation: string;
+                    resource: string;
+                    status: string;
+                    time: string;
+                };
+                confirmations: {
+                    clear: Confirmation;
+                };
+                filters: {
+                    from: FormAttributes;
+                    operation: FormAttributes;
+                    resourceType: FormAttributes;
+                    search: {
+                        placeholder: string;
+                    };
+                    to: FormAttributes;
+                };
+                notifications: {
+                    clearEntries: Notification;
+                    getEntries: Notification;
+                };
+                operations: {
+                    create: string;
+                    delete: string;
+                    update: string;
+                };
+                placeholders: {
+                    emptyChanges: string;
+                    emptyList: Placeholder;
+                    emptySearchResults: Placeholder;
+                };
+                resourceTypes: {
+                    application: string;
+                    certificate: string;
+                    claim: string;
+                    claimDialect: string;
+                    emailTemplate: string;
+                    governanceConnector: string;
+                    group: string;
+                    identityProvider: string;
+                    oidcScope: string;
+                    other: string;
+                    role: string;
+                    user: string;
+                    userstore: string;
+                };
+                status: {
+                    failure: string;
+                    success: string;
+                };
+            };
             approvals: {
+                inbox: {
+                    actions: {
+                        approve: string;
+                        claim: string;
+                        clear: string;
+                        compare: string;
+                        reject: string;
+                        release: string;
+                        selectAll: string;
+                    };
+                    age: {
+                        days: string;
+                        hours: string;
+                    };
+                    confirmations: {
+                        approve: string;
+                        header: string;
+                        message: string;
+                        reject: string;
+                    };
+                    filters: {
+                        createdFrom: {
+                            label: string;
+                        };
+                        createdTo: {
+                            label: string;
+                        };
+                        initiators: {
+                            label: string;
+                            placeholder: string;
+                        };
+                        taskTypes: {
+                            label: string;
+                            placeholder: string;
+                        };
+                    };
+                    selected: string;
+                    sla: {
+                        label: string;
+                        option: string;
+                        statuses: {
+                            atRisk: string;
+                            breached: string;
+                            onTrack: string;
+                        };
+                    };
+                    sortOptions: {
+                        created: string;
+                        priority: string;
+                        subject: string;
+                    };
+                };
                 list: {
                     columns: {
                         actions: string;
@@ -2101,12 +2564,19 @@ export interface ConsoleNS {
                     };
                 };
                 modals: {
+                    comparison: {
+                        description: string;
+                        empty: string;
+                        header: string;
+                        parameter: string;
+                    };
                     taskDetails: {
                         header: string;
                         description: string;
                     };
                 };
                 notifications: {
+                    bulkUpdatePendingApprovals: Notification;
                     fetchApprovalDetails: Notification;
                     fetchPendingApprovals: Notification;
                     updatePendingApprovals: Notification;
@@ -2118,6 +2588,51 @@ export interface ConsoleNS {
                 };
             };
             certificates: {
+                expiryDashboard: {
+                    expiredAgo: string;
+                    expiresIn: string;
+                    heading: string;
+                    placeholder: string;
+                    statuses: {
+                        expired: string;
+                        expiring: string;
+                        notYetValid: string;
+                        valid: string;
+                    };
+                    subHeading: string;
+                    threshold: {
+                        label: string;
+                        option: string;
+                    };
+                    unreadable: string;
+                };
+                insights: {
+                    chain: {
+                        error: string;
+                        label: string;
+                        trusted: string;
+                        untrusted: string;
+                    };
+                    expiry: string;
+                    extendedKeyUsage: string;
+                    fingerprints: {
+                        sha1: string;
+                        sha256: string;
+                    };
+                    issues: {
+                        expired: string;
+                        incompleteChain: string;
+                        invalidSignature: string;
+                        missingExtendedKeyUsage: string;
+                        missingKeyUsage: string;
+                        notACA: string;
+                        notYetValid: string;
+                        untrustedRoot: string;
+                        unverifiableSignature: string;
+                    };
+                    keyUsage: string;
+                    unrestricted: string;
+                };
                 keystore: {
                     advancedSearch: {
                         form: {
@@ -2203,12 +2718,18 @@ export interface ConsoleNS {
                             action: string;
                         };
                         pastePlaceholder: string;
+                        supportedFormats: string;
+                        unlock: string;
                     };
                     forms: {
                         alias: FormField;
+                        password: FormField;
                     };
                     errorEmpty: string;
                     errorCertificate: string;
+                    errorJwks: string;
+                    errorPkcs12InvalidPassword: string;
+                    errorPkcs12Password: string;
                 };
                 truststore: {
                     advancedSearch: {
@@ -2573,6 +3094,7 @@ export interface ConsoleNS {
                     createTemplateType: string;
                     deleteTemplate: string;
                     editTemplate: string;
+                    localeStatus: string;
                     newType: string;
                 };
                 confirmations: {
@@ -2631,9 +3153,24 @@ export interface ConsoleNS {
                     actions: string;
                     name: string;
                 };
+                localeMatrix: {
+                    heading: string;
+                    hints: {
+                        extra: string;
+                        missing: string;
+                    };
+                    status: {
+                        default: string;
+                        missing: string;
+                        outdated: string;
+                        upToDate: string;
+                    };
+                    subHeading: string;
+                };
                 notifications: {
                     deleteTemplate: Notification;
                     createTemplate: Notification;
+                    getLocaleStatus: Notification;
                     getTemplateDetails: Notification;
                     getTemplates: Notification;
                     iframeUnsupported: Notification;
@@ -2642,6 +3179,17 @@ export interface ConsoleNS {
                 placeholders: {
                     emptyList: Placeholder;
                 };
+                templatePlaceholders: {
+                    copied: string;
+                    heading: string;
+                    hint: string;
+                    sample: string;
+                    validations: {
+                        heading: string;
+                        missing: string;
+                        unknown: string;
+                    };
+                };
                 viewTemplate: {
                     heading: string;
                 };
@@ -2711,8 +3259,12 @@ export interface ConsoleNS {
             };
             governanceConnectors: {
                 notifications: {
+                    exportSnapshot: Notification;
                     getConnectorCategories: Notification;
                     getConnector: Notification;
+                    getHistory: Notification;
+                    importSnapshot: Notification;
+                    rollbackConnector: Notification;
                     updateConnector: Notification;
                 };
                 form: {
@@ -2726,6 +3278,56 @@ export interface ConsoleNS {
                 categories: string;
                 pageSubHeading: string;
                 connectorSubHeading: string;
+                history: {
+                    buttons: {
+                        rollback: string;
+                        view: string;
+                    };
+                    columns: {
+                        current: string;
+                        previous: string;
+                        property: string;
+                    };
+                    fields: {
+                        compareWith: FormAttributes;
+                    };
+                    heading: string;
+                    placeholders: {
+                        empty: string;
+                        noChanges: string;
+                        noComparison: string;
+                    };
+                    sources: {
+                        import: string;
+                        initial: string;
+                        rollback: string;
+                        update: string;
+                    };
+                    subHeading: string;
+                };
+                snapshot: {
+                    buttons: {
+                        apply: string;
+                        export: string;
+                        import: string;
+                    };
+                    columns: {
+                        current: string;
+                        incoming: string;
+                    };
+                    filePicker: {
+                        dropzoneText: string;
+                        hint: string;
+                        pasteAreaPlaceholderText: string;
+                        uploadButtonText: string;
+                    };
+                    heading: string;
+                    placeholders: {
+                        noChanges: string;
+                    };
+                    redactedFields: string;
+                    subHeading: string;
+                };
             };
             helpPanel: {
                 notifications: {
@@ -3027,6 +3629,40 @@ export interface ConsoleNS {
                     };
                     placeholder: string;
                 };
+                bulkPermissionEditor: {
+                    buttons: {
+                        apply: string;
+                        back: string;
+                    };
+                    fields: {
+                        operation: {
+                            add: string;
+                            label: string;
+                            remove: string;
+                        };
+                        roles: {
+                            label: string;
+                            placeholder: string;
+                            validations: {
+                                empty: string;
+                            };
+                        };
+                    };
+                    heading: string;
+                    hints: {
+                        add: string;
+                        remove: string;
+                    };
+                    results: {
+                        error: string;
+                        notApplicable: string;
+                        success: string;
+                    };
+                    subHeading: string;
+                    validations: {
+                        emptyPermissions: string;
+                    };
+                };
                 edit: {
                     basics: {
                         buttons: {
@@ -3058,6 +3694,11 @@ export interface ConsoleNS {
                         users: string;
                         roles: string;
                     };
+                    permissions: {
+                        buttons: {
+                            export: string;
+                        };
+                    };
                     users: {
                         list: {
                             header: string;
@@ -3068,6 +3709,8 @@ export interface ConsoleNS {
                 list: {
                     buttons: {
                         addButton: string;
+                        bulkEditPermissions: string;
+                        compare: string;
                         filterDropdown: string;
                     };
                     columns: {
@@ -3088,12 +3731,47 @@ export interface ConsoleNS {
                     };
                 };
                 notifications: {
+                    bulkUpdatePermissions: Notification;
+                    copyPermissions: Notification;
                     deleteRole: Notification;
+                    fetchPermissions: Notification;
                     fetchRoles: Notification;
                     updateRole: Notification;
                     createRole: Notification;
                     createPermission: Notification;
                 };
+                permissionDiff: {
+                    buttons: {
+                        copy: string;
+                    };
+                    columns: {
+                        added: string;
+                        common: string;
+                        removed: string;
+                    };
+                    confirmations: {
+                        copy: {
+                            content: string;
+                            header: string;
+                            message: string;
+                        };
+                    };
+                    fields: {
+                        baseRole: {
+                            label: string;
+                            placeholder: string;
+                        };
+                        comparedRole: {
+                            label: string;
+                            placeholder: string;
+                        };
+                    };
+                    heading: string;
+                    placeholders: {
+                        empty: string;
+                    };
+                    subHeading: string;
+                };
             };
             serverConfigs: {
                 realmConfiguration: {
@@ -3119,6 +3797,7 @@ export interface ConsoleNS {
                 };
             };
             sidePanel: {
+                activityLog: string;
                 addEmailTemplate: string;
                 addEmailTemplateLocale: string;
                 approvals: string;
@@ -3316,6 +3995,65 @@ export interface ConsoleNS {
                             };
                         };
                     };
+                    bulkImportUserWizard: {
+                        title: string;
+                        subTitle: string;
+                        steps: {
+                            upload: string;
+                            mapping: string;
+                            preview: string;
+                            results: string;
+                        };
+                        buttons: {
+                            finish: string;
+                            import: string;
+                            next: string;
+                            previous: string;
+                        };
+                        upload: {
+                            dropzoneText: string;
+                            hint: string;
+                            pasteAreaPlaceholderText: string;
+                            uploadButtonText: string;
+                        };
+                        mapping: {
+                            columns: {
+                                attribute: string;
+                                column: string;
+                                sample: string;
+                            };
+                            hint: string;
+                            missingRequired: string;
+                            placeholder: string;
+                        };
+                        preview: {
+                            columns: {
+                                errors: string;
+                                row: string;
+                                status: string;
+                                username: string;
+                            };
+                            summary: string;
+                        };
+                        results: {
+                            inProgress: string;
+                            summary: string;
+                        };
+                        status: {
+                            failed: string;
+                            invalid: string;
+                            success: string;
+                            valid: string;
+                        };
+                        rowErrors: {
+                            duplicateUsername: string;
+                            importFailed: string;
+                            invalidAttributeValue: string;
+                            missingEmail: string;
+                            missingRequiredAttribute: string;
+                            missingUsername: string;
+                        };
+                    };
                     changePasswordModal: {
                         header: string;
                         message: string;
@@ -3569,6 +4307,7 @@ export interface ConsoleNS {
                             connection: string;
                             user: string;
                             group: string;
+                            diagnostics: string;
                         };
                     };
                 };
@@ -3588,6 +4327,58 @@ export interface ConsoleNS {
                     delete: DangerZone;
                     disable: DangerZone;
                 };
+                diagnostics: {
+                    buttons: {
+                        run: string;
+                    };
+                    columns: {
+                        details: string;
+                        duration: string;
+                        status: string;
+                        step: string;
+                    };
+                    heading: string;
+                    hint: string;
+                    results: {
+                        count: string;
+                        duration: string;
+                    };
+                    status: {
+                        failed: string;
+                        passed: string;
+                        skipped: string;
+                    };
+                    steps: {
+                        connection: {
+                            description: string;
+                            failed: string;
+                            name: string;
+                            passed: string;
+                            skipped: string;
+                        };
+                        groupMembership: {
+                            description: string;
+                            failed: string;
+                            name: string;
+                            passed: string;
+                            skipped: string;
+                        };
+                        listUsers: {
+                            description: string;
+                            failed: string;
+                            name: string;
+                            passed: string;
+                        };
+                        searchFilter: {
+                            description: string;
+                            failed: string;
+                            name: string;
+                            passed: string;
+                            skipped: string;
+                        };
+                    };
+                    subHeading: string;
+                };
                 wizard: {
                     steps: {
                         general: string;
@@ -3609,6 +4400,18 @@ export interface ConsoleNS {
                     read: string;
                     delete: string;
                     darkMode: string;
+                    validations: {
+                        emptyQuery: string;
+                        heading: string;
+                        missingNamedPlaceholder: string;
+                        multipleStatements: string;
+                        placeholderCountMismatch: string;
+                        statementTypeMismatch: string;
+                        unbalancedParentheses: string;
+                        unknownNamedPlaceholder: string;
+                        unknownStatement: string;
+                        unterminatedString: string;
+                    };
                 };
             };
             invite?: {
@@ -3695,6 +4498,7 @@ export interface ConsoleNS {
             getProfileSchema: Notification;
         };
         pages: {
+            activityLog: Page;
             addEmailTemplate: EditPage;
             approvalsPage: Page;
             editTemplate: EditPage;
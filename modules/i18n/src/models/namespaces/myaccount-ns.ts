@@ -60,6 +60,7 @@ export interface MyAccountNS {
             hints: {
                 querySearch: {
                     actionKeys: string;
+                    invalid: string;
                     label: string;
                 };
             };
@@ -309,6 +310,32 @@ export interface MyAccountNS {
             };
         };
         mfa: {
+            backupCode: {
+                actions: {
+                    generate: string;
+                };
+                description: string;
+                heading: string;
+                hint: string;
+                list: {
+                    description: string;
+                    heading: string;
+                    print: string;
+                };
+                modals: {
+                    generate: string;
+                    heading: string;
+                    regenerate: string;
+                };
+                notGenerated: string;
+                notifications: {
+                    generateError: {
+                        error: NotificationItem;
+                        genericError: NotificationItem;
+                    };
+                };
+                remaining: string;
+            };
             fido: {
                 description: string;
                 heading: string;
@@ -331,6 +358,32 @@ export interface MyAccountNS {
                     required: string;
                 };
             };
+            setupWizard: {
+                factors: {
+                    fido: {
+                        description: string;
+                        heading: string;
+                    };
+                    totp: {
+                        description: string;
+                        heading: string;
+                    };
+                };
+                heading: string;
+                steps: {
+                    backupCodes: {
+                        description: string;
+                        enrolled: string;
+                        heading: string;
+                    };
+                    enroll: {
+                        fido: string;
+                    };
+                    selectFactor: {
+                        heading: string;
+                    };
+                };
+            };
             smsOtp: {
                 descriptions: {
                     hint: string;
@@ -727,16 +780,40 @@ export interface MyAccountNS {
             urlUpdateHeader: string;
         };
         userSessions: {
+            actions: {
+                terminateOthers: string;
+            };
             browserAndOS: string;
             dangerZones: {
                 terminate: DangerZone;
             };
+            deviceGroups: {
+                actions: {
+                    hideActivity: string;
+                    showActivity: string;
+                };
+                currentDevice: string;
+                summary: string;
+                timeline: {
+                    applications: string;
+                    lastAccess: string;
+                    login: string;
+                };
+                unusualDevice: string;
+                unusualDeviceHint: string;
+            };
             lastAccessed: string;
             modals: {
                 terminateAllUserSessionsModal: {
                     heading: string;
                     message: string;
                 };
+                terminateOtherUserSessionsModal: {
+                    currentBrowserSessions: string;
+                    heading: string;
+                    message: string;
+                    unidentifiedSession: string;
+                };
                 terminateUserSessionModal: {
                     heading: string;
                     message: string;
@@ -745,6 +822,7 @@ export interface MyAccountNS {
             notifications: {
                 fetchSessions: Notification;
                 terminateAllUserSessions: Notification;
+                terminateOtherUserSessions: Notification;
                 terminateUserSession: Notification;
             };
         };
@@ -838,6 +916,9 @@ export interface MyAccountNS {
             heading: string;
         };
         mfa: {
+            actionTitles: {
+                setup: string;
+            };
             description: string;
             heading: string;
         };
@@ -0,0 +1,154 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { CommonNS } from "../../../models";
+
+export const common: CommonNS = {
+    access: "الوصول",
+    actions: "الإجراءات",
+    activate: "تفعيل",
+    active: "نشط",
+    add: "إضافة",
+    addURL: "إضافة قيمة",
+    all: "الكل",
+    applicationName: "اسم التطبيق",
+    applications: "التطبيقات",
+    approvalStatus: "حالة الموافقة",
+    approve: "موافقة",
+    assignees: "المكلفون",
+    authenticator: "أداة المصادقة",
+    authentication: "المصادقة",
+    // eslint-disable-next-line @typescript-eslint/camelcase
+    authenticator_plural: "أدوات المصادقة",
+    back: "رجوع",
+    browser: "المتصفح",
+    cancel: "إلغاء",
+    challengeQuestionNumber: "سؤال التحقق {{number}}",
+    change: "تغيير",
+    claim: "استلام",
+    clear: "مسح",
+    close: "إغلاق",
+    comingSoon: "قريبًا",
+    completed: "مكتمل",
+    configure: "تهيئة",
+    confirm: "تأكيد",
+    contains: "يحتوي على",
+    continue: "متابعة",
+    createdOn: "تاريخ الإنشاء",
+    create: "إنشاء",
+    dangerZone: "منطقة الخطر",
+    delete: "حذف",
+    description: "الوصف",
+    deviceModel: "طراز الجهاز",
+    disable: "تعطيل",
+    disabled: "معطل",
+    docs: "المستندات",
+    documentation: "التوثيق",
+    done: "تم",
+    download: "تنزيل",
+    drag: "سحب",
+    duplicateURLError: "تمت إضافة هذه القيمة مسبقًا",
+    edit: "تعديل",
+    enable: "تمكين",
+    enabled: "ممكّن",
+    endsWith: "ينتهي بـ",
+    equals: "يساوي",
+    explore: "استكشاف",
+    export: "تصدير",
+    featureAvailable: "ستتوفر هذه الميزة قريبًا!",
+    filter: "تصفية",
+    finish: "إنهاء",
+    generatePassword: "إنشاء كلمة مرور",
+    goBackHome: "العودة إلى الصفحة الرئيسية",
+    good: "جيدة",
+    help: "مساعدة",
+    hide: "إخفاء",
+    hidePassword: "إخفاء كلمة المرور",
+    identityProviders: "موفرو الهوية",
+    import: "استيراد",
+    initiator: "المُنشئ",
+    ipAddress: "عنوان IP",
+    lastAccessed: "آخر وصول",
+    lastModified: "آخر تعديل",
+    lastSeen: "آخر ظهور",
+    lastUpdatedOn: "آخر تحديث في",
+    loginTime: "وقت تسجيل الدخول",
+    logout: "تسجيل الخروج",
+    maximize: "تكبير",
+    minimize: "تصغير",
+    more: "المزيد",
+    myAccount: "حسابي",
+    name: "الاسم",
+    next: "التالي",
+    okay: "موافق",
+    operatingSystem: "نظام التشغيل",
+    operations: "العمليات",
+    overview: "نظرة عامة",
+    personalInfo: "المعلومات الشخصية",
+    pin: "تثبيت",
+    pinned: "مثبت",
+    previous: "السابق",
+    priority: "الأولوية",
+    privacy: "الخصوصية",
+    properties: "الخصائص",
+    ready: "جاهز",
+    regenerate: "إعادة الإنشاء",
+    register: "تسجيل",
+    reject: "رفض",
+    release: "تحرير",
+    remove: "إزالة",
+    removeAll: "إزالة الكل",
+    required: "هذا الحقل مطلوب.",
+    reserved: "محجوز",
+    resetFilters: "إعادة تعيين عوامل التصفية",
+    retry: "إعادة المحاولة",
+    revoke: "إبطال",
+    revokeAll: "إبطال الكل",
+    samples: "أمثلة",
+    save: "حفظ",
+    sdks: "حزم SDK",
+    search: "بحث",
+    security: "الأمان",
+    services: "الخدمات",
+    show: "إظهار",
+    showAll: "إظهار الكل",
+    showLess: "إظهار أقل",
+    showMore: "إظهار المزيد",
+    showPassword: "إظهار كلمة المرور",
+    skip: "تخطي",
+    startsWith: "يبدأ بـ",
+    step: "خطوة",
+    strong: "قوية",
+    submit: "إرسال",
+    switch: "تبديل",
+    technologies: "التقنيات",
+    terminate: "إنهاء",
+    terminateAll: "إنهاء الكل",
+    terminateSession: "إنهاء الجلسة",
+    tooShort: "قصيرة جدًا",
+    type: "النوع",
+    unpin: "إلغاء التثبيت",
+    unpinned: "غير مثبت",
+    update: "تحديث",
+    user: "المستخدم",
+    verify: "تحقق",
+    view: "عرض",
+    weak: "ضعيفة",
+    weakPassword: "يجب أن تكون قوة كلمة المرور جيدة على الأقل."
+};
@@ -49,6 +49,7 @@ export const console: ConsoleNS = {
             hints: {
                 querySearch: {
                     actionKeys: "Shift + Enter",
+                    invalid: "The query is invalid near position {{position}}.",
                     label: "To search as a query"
                 }
             },
@@ -68,6 +69,25 @@ export const console: ConsoleNS = {
                 "maintain an uninterrupted continuous session while providing smooth and personalized services. To " +
                 "learn more about how we use cookies, refer our <1>Cookie Policy</1>."
         },
+        dataTable: {
+            actions: {
+                export: "Export as CSV",
+                exportPage: "Export the current page as CSV"
+            },
+            filters: {
+                placeholder: "Filter"
+            },
+            hints: {
+                currentPage: "Sorting, filtering and export apply only to the items on the current page."
+            },
+            views: {
+                delete: "Delete view",
+                emptyPlaceholder: "No saved views",
+                header: "Saved Views",
+                namePlaceholder: "View name",
+                save: "Save"
+            }
+        },
         header: {
             appSwitch: {
                 console: {
@@ -488,6 +508,43 @@ export const console: ConsoleNS = {
             },
             applications: {
                 addWizard: {
+                    import: {
+                        buttons: {
+                            back: "Back",
+                            import: "Import",
+                            trigger: "Import from file"
+                        },
+                        conflicts: {
+                            heading: "Review before importing",
+                            identityProviders: "The following identity providers used in the sign-in flow are not " +
+                                "available in this environment: {{idps}}. Create them before importing or update " +
+                                "the sign-in flow after the import.",
+                            name: "An application named {{name}} already exists. Provide a different name.",
+                            redactedFields: "The following secrets were removed during the export and will be " +
+                                "regenerated or need to be configured again: {{fields}}."
+                        },
+                        fields: {
+                            name: {
+                                hint: "Name of the application to be created from the file.",
+                                label: "Name",
+                                placeholder: "Enter a name for the application",
+                                validations: {
+                                    empty: "Application name is required."
+                                }
+                            }
+                        },
+                        filePicker: {
+                            dropzoneText: "Drag and drop an application export file here",
+                            hint: "Select a JSON or YAML file exported from the general settings of an application.",
+                            pasteAreaPlaceholderText: "Paste the content of an application export file",
+                            uploadButtonText: "Upload File"
+                        },
+                        heading: "Import Application",
+                        summary: "Exported on {{date}}.",
+                        validations: {
+                            emptyFile: "Select a valid application export file to continue."
+                        }
+                    },
                     steps: {
                         generalSettings: {
                             heading: "General Settings"
@@ -840,6 +897,15 @@ export const console: ConsoleNS = {
                             tabName: "Info"
                         },
                         general: {
+                            export: {
+                                buttons: {
+                                    json: "Export as JSON",
+                                    yaml: "Export as YAML"
+                                },
+                                heading: "Export Application",
+                                hint: "Download the configuration of this application as a portable file which can " +
+                                    "be imported to another environment. Secrets are not included in the file."
+                            },
                             tabName: "General"
                         },
                         provisioning: {
@@ -911,12 +977,103 @@ export const console: ConsoleNS = {
                                                 }
                                             },
                                             editor: {
+                                                diagnostics: {
+                                                    missingLoginRequestHandler: "The script should define the " +
+                                                        "onLoginRequest function.",
+                                                    syntaxError: "Syntax error: {{message}}",
+                                                    undefinedStep: "Step {{step}} is not defined in the " +
+                                                        "authentication flow. Only steps 1 to {{stepCount}} are " +
+                                                        "available.",
+                                                    unknownAuthenticator: "Unknown authenticator {{name}}.",
+                                                    unknownIdentityProvider: "Unknown identity provider {{name}}.",
+                                                    unusedVariable: "{{name}} is defined but never used."
+                                                },
                                                 resetConfirmation: {
                                                     content: "This action will reset the adaptive authentication" +
                                                         " script back to default. Click 'Confirm' to proceed.",
                                                     heading: "Are you sure?",
                                                     message: "This action is irreversible."
                                                 },
+                                                simulator: {
+                                                    actions: {
+                                                        delete: "Delete scenario",
+                                                        new: "New scenario",
+                                                        open: "Simulate script",
+                                                        run: "Run simulation",
+                                                        save: "Save scenario"
+                                                    },
+                                                    fields: {
+                                                        claims: {
+                                                            hint: "Add one claim per line in the claimURI=value " +
+                                                                "format.",
+                                                            label: "Claims",
+                                                            placeholder: "http://wso2.org/claims/country=Sri Lanka"
+                                                        },
+                                                        ip: {
+                                                            label: "IP address",
+                                                            placeholder: "192.168.1.1"
+                                                        },
+                                                        name: {
+                                                            label: "Scenario name",
+                                                            placeholder: "Enter a name for the scenario"
+                                                        },
+                                                        params: {
+                                                            hint: "Add one request parameter per line in the " +
+                                                                "name=value format.",
+                                                            label: "Request parameters",
+                                                            placeholder: "prompt=login"
+                                                        },
+                                                        roles: {
+                                                            label: "Roles",
+                                                            placeholder: "Enter comma separated roles"
+                                                        },
+                                                        scenario: {
+                                                            label: "Saved scenarios",
+                                                            placeholder: "Select a saved scenario",
+                                                            untitled: "Untitled scenario"
+                                                        },
+                                                        stepResult: {
+                                                            label: "Step {{step}} result"
+                                                        },
+                                                        userAgent: {
+                                                            label: "User agent",
+                                                            placeholder: "Mozilla/5.0"
+                                                        },
+                                                        username: {
+                                                            label: "Username",
+                                                            placeholder: "Enter the username"
+                                                        }
+                                                    },
+                                                    heading: "Simulate adaptive script",
+                                                    outcomes: {
+                                                        errorRedirect: "Redirected to the error page {{url}}",
+                                                        failed: "Authentication failed",
+                                                        noSteps: "No steps were executed",
+                                                        scriptError: "Script error: {{error}}",
+                                                        success: "Authentication succeeded",
+                                                        timeout: "The script did not complete in time"
+                                                    },
+                                                    placeholders: {
+                                                        noLogs: "The script did not log any messages.",
+                                                        noResult: "Run the simulation to see the result.",
+                                                        noSteps: "The script did not execute any steps."
+                                                    },
+                                                    sections: {
+                                                        logs: "Log output",
+                                                        request: "Request",
+                                                        result: "Result",
+                                                        steps: "Step results",
+                                                        trace: "Executed steps",
+                                                        user: "User"
+                                                    },
+                                                    stepResults: {
+                                                        fail: "Failed",
+                                                        success: "Succeeded"
+                                                    },
+                                                    subHeading: "Run the script against a mock login to see which " +
+                                                        "steps are executed. Nothing is sent to the server.",
+                                                    traceItem: "Step {{step}}: {{result}}"
+                                                },
                                                 templates: {
                                                     darkMode: "Dark Mode",
                                                     heading: "Templates"
@@ -987,6 +1144,43 @@ export const console: ConsoleNS = {
                                                     }
                                                 }
                                             },
+                                            graph: {
+                                                branches: {
+                                                    conditional: "Conditional",
+                                                    empty: "The adaptive script doesn't execute the steps from " +
+                                                        "callbacks of other steps.",
+                                                    heading: "Script branches"
+                                                },
+                                                hint: "Drag the steps to reorder them and drag the authenticators " +
+                                                    "between the steps. Select the step to use the subject " +
+                                                    "identifier and the attributes from.",
+                                                labels: {
+                                                    attributes: "Attributes",
+                                                    subject: "Subject"
+                                                },
+                                                nodes: {
+                                                    end: "Success",
+                                                    start: "Start",
+                                                    step: "Step {{step}}"
+                                                },
+                                                validations: {
+                                                    emptyStep: "Step {{step}} doesn't have any authenticators.",
+                                                    handlerWithoutNextStep: "{{authenticator}} only identifies the " +
+                                                        "user. Add a step after step {{step}} to authenticate the " +
+                                                        "user.",
+                                                    heading: "The authentication flow is invalid",
+                                                    invalidAttributeStep: "Select a step to use the attributes from.",
+                                                    invalidSubjectStep: "Select a step to use the subject " +
+                                                        "identifier from.",
+                                                    secondFactorWithoutHandler: "{{authenticator}} in step " +
+                                                        "{{step}} requires Username & Password or Identifier First " +
+                                                        "in a previous step."
+                                                },
+                                                views: {
+                                                    graph: "Graph view",
+                                                    list: "List view"
+                                                }
+                                            },
                                             heading: "Step-based configuration",
                                             hint: "Create a user login flow by dragging authenticators on to the " +
                                                 "relevant steps.",
@@ -1102,6 +1296,84 @@ export const console: ConsoleNS = {
                                 }
                             },
                             tabName: "Sign-in Method"
+                        },
+                        tokenPreview: {
+                            accessToken: {
+                                heading: "Access token",
+                                jwt: "JWT",
+                                opaque: "Opaque",
+                                opaqueHint: "Opaque access tokens don't carry any claims. The following claims are " +
+                                    "returned when the token is introspected."
+                            },
+                            fields: {
+                                applicationToken: {
+                                    hint: "Preview the tokens issued for grants such as client credentials, which " +
+                                        "don't involve a user.",
+                                    label: "Issued to the application"
+                                },
+                                scopes: {
+                                    hint: "Requested attributes are only added to the ID token if they belong to " +
+                                        "one of the requested scopes.",
+                                    label: "Requested scopes",
+                                    placeholder: "Select scopes"
+                                }
+                            },
+                            heading: "Token preview",
+                            idToken: {
+                                encrypted: "Encrypted with {{algorithm}} and {{method}}",
+                                heading: "ID token",
+                                notIssued: "An ID token is only issued to users when the openid scope is requested.",
+                                omittedClaims: {
+                                    description: "The following requested attributes are left out since they don't " +
+                                        "belong to the requested scopes or aren't mapped to an OpenID Connect " +
+                                        "attribute.",
+                                    heading: "Attributes left out"
+                                },
+                                signed: "Signed with {{algorithm}}"
+                            },
+                            inspector: {
+                                actions: {
+                                    verify: "Verify signature"
+                                },
+                                errors: {
+                                    encryptedToken: "The token is encrypted. Only signed tokens can be decoded.",
+                                    invalidKey: "The key is not a valid JWKS, JWK or PEM encoded certificate or " +
+                                        "public key.",
+                                    malformedToken: "The content is not a valid JWT.",
+                                    noMatchingKey: "The JWKS doesn't have a key with the key ID of the token.",
+                                    unsupportedAlgorithm: "Only RS256, RS384, RS512, PS256, PS384 and PS512 " +
+                                        "signatures can be verified."
+                                },
+                                fields: {
+                                    key: {
+                                        hint: "The JWKS of the server is available at the JWKS endpoint listed in " +
+                                            "the Info tab.",
+                                        label: "Verification key",
+                                        placeholder: "Paste a JWKS, JWK or PEM encoded certificate or public key"
+                                    },
+                                    token: {
+                                        label: "Token",
+                                        placeholder: "Paste a JWT"
+                                    }
+                                },
+                                heading: "Token inspector",
+                                results: {
+                                    expired: "The token expired on {{date}}.",
+                                    expiresAt: "The token expires on {{date}}.",
+                                    invalid: "The signature is not valid.",
+                                    valid: "The signature is valid."
+                                },
+                                subHeading: "Decode a token and verify its signature. The token and the key are " +
+                                    "not sent to the server."
+                            },
+                            sections: {
+                                encryptionHeader: "Encryption header",
+                                header: "Header",
+                                payload: "Payload"
+                            },
+                            subHeading: "Sample tokens assembled from the saved protocol and attribute " +
+                                "configurations of the application.",
+                            tabName: "Token Preview"
                         }
                     }
                 },
@@ -1708,6 +1980,57 @@ export const console: ConsoleNS = {
                                 }
                             }
                         },
+                        metadata: {
+                            actions: {
+                                export: "Export IdP metadata",
+                                import: "Import SP metadata"
+                            },
+                            diff: {
+                                columns: {
+                                    current: "Current value",
+                                    incoming: "New value",
+                                    path: "Property"
+                                },
+                                heading: "Changes"
+                            },
+                            export: {
+                                actions: {
+                                    download: "Download"
+                                },
+                                empty: "The form doesn't have unsaved changes.",
+                                heading: "Identity provider metadata",
+                                hint: "This metadata is generated from the saved configuration of the application. " +
+                                    "Changes in the form are reflected once they are saved.",
+                                unavailable: "The identity provider metadata of the tenant couldn't be loaded.",
+                                unsavedChanges: "Unsaved changes"
+                            },
+                            heading: "Metadata",
+                            hint: "Fill the configuration from the SAML metadata of the application or download " +
+                                "the identity provider metadata to configure the application.",
+                            import: {
+                                actions: {
+                                    apply: "Apply"
+                                },
+                                empty: "The metadata doesn't change the current configuration.",
+                                error: "The metadata couldn't be read",
+                                filePicker: {
+                                    dropzoneText: "Drag and drop a metadata XML file here.",
+                                    pasteAreaPlaceholderText: "Paste the service provider metadata XML here...",
+                                    uploadButtonText: "Upload Metadata File"
+                                },
+                                heading: "Import service provider metadata",
+                                hint: "The issuer, assertion consumer URLs, single logout URLs, certificate and " +
+                                    "name ID format are filled from the metadata. Review the changes and save the " +
+                                    "form to apply them.",
+                                issuerMismatch: "The entity ID {{entityId}} in the metadata doesn't match the " +
+                                    "issuer {{issuer}}. The issuer is kept as it is.",
+                                unsupported: {
+                                    description: "The following elements of the metadata can't be mapped to the " +
+                                        "configuration and are ignored.",
+                                    heading: "Unsupported elements"
+                                }
+                            }
+                        },
                         sections: {
                             assertion: {
                                 fields: {
@@ -2243,6 +2566,16 @@ export const console: ConsoleNS = {
                             message: "Update error"
                         }
                     },
+                    exportApplication: {
+                        genericError: {
+                            description: "Couldn't export the application.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "Successfully exported the application.",
+                            message: "Export successful"
+                        }
+                    },
                     fetchAllowedCORSOrigins: {
                         error: {
                             description: "{{description}}",
@@ -2405,6 +2738,12 @@ export const console: ConsoleNS = {
                             message: "Retrieval successful"
                         }
                     },
+                    invalidAuthenticationFlow: {
+                        genericError: {
+                            description: "Resolve the issues highlighted in the authentication flow before updating.",
+                            message: "Invalid authentication flow"
+                        }
+                    },
                     regenerateSecret: {
                         error: {
                             description: "{{description}}",
@@ -2482,6 +2821,13 @@ export const console: ConsoleNS = {
                             message: "Update successful"
                         }
                     },
+                    updateAuthenticationScript: {
+                        error: {
+                            description: "The adaptive authentication script has errors. Fix the highlighted " +
+                                "issues in the script editor and try again.",
+                            message: "Invalid script"
+                        }
+                    },
                     updateClaimConfig: {
                         error: {
                             description: "{{description}}",
@@ -3807,7 +4153,9 @@ export const console: ConsoleNS = {
                     addAuthenticator: "New Authenticator",
                     addCertificate: "New Certificate",
                     addConnector: "New Connector",
-                    addIDP: "New Identity Provider"
+                    addIDP: "New Identity Provider",
+                    exportIDP: "Export",
+                    importIDP: "Import from file"
                 },
                 confirmations: {
                     deleteAuthenticator: {
@@ -4195,6 +4543,20 @@ export const console: ConsoleNS = {
                             message: ""
                         }
                     },
+                    exportIDP: {
+                        error: {
+                            description: "{{description}}",
+                            message: "Export error"
+                        },
+                        genericError: {
+                            description: "An error occurred while exporting the identity provider.",
+                            message: "Export error"
+                        },
+                        success: {
+                            description: "Successfully exported the identity provider.",
+                            message: "Export successful"
+                        }
+                    },
                     getAllLocalClaims: {
                         error: {
                             description: "{{ description }}",
@@ -4617,6 +4979,56 @@ export const console: ConsoleNS = {
                             }
                         }
                     },
+                    importIDP: {
+                        buttons: {
+                            import: "Import"
+                        },
+                        conflicts: {
+                            name: "An identity provider named {{name}} already exists. The changes below are " +
+                                "compared against it. Provide a different name to import this identity provider."
+                        },
+                        diff: {
+                            columns: {
+                                current: "Current",
+                                incoming: "Incoming",
+                                path: "Attribute",
+                                type: "Change"
+                            },
+                            empty: "No differences found.",
+                            heading: "Changes Preview",
+                            types: {
+                                added: "Added",
+                                changed: "Changed",
+                                removed: "Removed"
+                            }
+                        },
+                        fields: {
+                            name: {
+                                label: "Name",
+                                placeholder: "Enter a name for the identity provider",
+                                validations: {
+                                    empty: "Identity provider name is required."
+                                }
+                            }
+                        },
+                        filePicker: {
+                            dropzoneText: "Drag and drop an identity provider export file here",
+                            hint: "Select a JSON or YAML file exported from the edit page of an identity provider.",
+                            pasteAreaPlaceholderText: "Paste the content of an identity provider export file",
+                            uploadButtonText: "Upload File"
+                        },
+                        header: "Import Identity Provider",
+                        secrets: {
+                            heading: "Secrets",
+                            hint: "Confidential properties were removed during the export. Provide the values for " +
+                                "this environment or leave them empty and configure them later.",
+                            placeholder: "Enter the secret value"
+                        },
+                        summary: "Exported on {{date}}.",
+                        validations: {
+                            emptyFile: "Select a valid identity provider export file to continue."
+                        }
+                    },
                     buttons: {
                         finish: "Finish",
                         next: "Next",
@@ -4681,6 +5093,29 @@ export const console: ConsoleNS = {
                     action: null,
                     subtitles: "Please add templates to display here.",
                     title: "No templates to display."
+                },
+                preview: {
+                    label: "Preview"
+                },
+                registry: {
+                    issues: {
+                        description: "The following templates from the template registry are invalid and are not " +
+                            "shown.",
+                        heading: "Some templates could not be loaded"
+                    },
+                    notifications: {
+                        fetchRegistry: {
+                            genericError: {
+                                description: "Couldn't load the templates from the template registry.",
+                                message: "Something went wrong"
+                            }
+                        },
+                        invalidTemplates: {
+                            description: "{{count}} template(s) from the template registry are invalid and were " +
+                                "skipped.",
+                            message: "Invalid templates"
+                        }
+                    }
                 }
             }
         },
@@ -4819,7 +5254,159 @@ export const console: ConsoleNS = {
                     }
                 }
             },
+            activityLog: {
+                buttons: {
+                    clear: "Clear Log",
+                    exportCSV: "CSV",
+                    exportJSON: "JSON"
+                },
+                changes: {
+                    currentValue: "New value",
+                    path: "Attribute",
+                    previousValue: "Previous value"
+                },
+                columns: {
+                    actor: "Performed by",
+                    operation: "Operation",
+                    resource: "Resource",
+                    status: "Status",
+                    time: "Time"
+                },
+                confirmations: {
+                    clear: {
+                        assertionHint: "Please confirm your action.",
+                        content: "All the recorded activities will be removed from this browser. Activities " +
+                            "already sent to the collector are not affected. Please proceed with caution.",
+                        header: "Are you sure?",
+                        message: "This action is irreversible and will permanently delete the recorded activities."
+                    }
+                },
+                filters: {
+                    from: {
+                        label: "From"
+                    },
+                    operation: {
+                        label: "Operation",
+                        placeholder: "All operations"
+                    },
+                    resourceType: {
+                        label: "Resource type",
+                        placeholder: "All resource types"
+                    },
+                    search: {
+                        placeholder: "Search by user, resource or URL"
+                    },
+                    to: {
+                        label: "To"
+                    }
+                },
+                notifications: {
+                    clearEntries: {
+                        genericError: {
+                            description: "An error occurred while clearing the activity log.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "The activity log was cleared successfully.",
+                            message: "Activity log cleared"
+                        }
+                    },
+                    getEntries: {
+                        genericError: {
+                            description: "An error occurred while retrieving the activity log.",
+                            message: "Something went wrong"
+                        }
+                    }
+                },
+                operations: {
+                    create: "Create",
+                    delete: "Delete",
+                    update: "Update"
+                },
+                placeholders: {
+                    emptyChanges: "No attribute changes were recorded for this activity.",
+                    emptyList: {
+                        subtitles: "Changes made to the resources through the console will be listed here.",
+                        title: "No activities recorded yet"
+                    },
+                    emptySearchResults: {
+                        subtitles: "Try changing the filters or the search query.",
+                        title: "No matching activities"
+                    }
+                },
+                resourceTypes: {
+                    application: "Application",
+                    certificate: "Certificate",
+                    claim: "Attribute",
+                    claimDialect: "Attribute dialect",
+                    emailTemplate: "Email template",
+                    governanceConnector: "Server configuration",
+                    group: "Group",
+                    identityProvider: "Identity provider",
+                    oidcScope: "OIDC scope",
+                    other: "Other",
+                    role: "Role",
+                    user: "User",
+                    userstore: "User store"
+                },
+                status: {
+                    failure: "Failed ({{status}})",
+                    success: "Succeeded"
+                }
+            },
             approvals: {
+                inbox: {
+                    actions: {
+                        approve: "Approve ({{count}})",
+                        claim: "Claim ({{count}})",
+                        clear: "Clear selection",
+                        compare: "Compare",
+                        reject: "Reject ({{count}})",
+                        release: "Release ({{count}})",
+                        selectAll: "Select all {{count}}"
+                    },
+                    age: {
+                        days: "{{count}}d old",
+                        hours: "{{count}}h old"
+                    },
+                    confirmations: {
+                        approve: "{{count}} task(s) will be approved and the requested changes will be applied.",
+                        header: "Are you sure?",
+                        message: "This action is irreversible.",
+                        reject: "{{count}} task(s) will be rejected and the requested changes will be discarded."
+                    },
+                    filters: {
+                        createdFrom: {
+                            label: "Created from"
+                        },
+                        createdTo: {
+                            label: "Created to"
+                        },
+                        initiators: {
+                            label: "Initiator",
+                            placeholder: "All initiators"
+                        },
+                        taskTypes: {
+                            label: "Task type",
+                            placeholder: "All task types"
+                        }
+                    },
+                    selected: "{{count}} selected",
+                    sla: {
+                        label: "SLA: {{count}} hours",
+                        option: "{{count}} hours",
+                        statuses: {
+                            atRisk: "At risk of breaching the SLA",
+                            breached: "SLA breached",
+                            onTrack: "Within the SLA"
+                        }
+                    },
+                    sortOptions: {
+                        created: "Created date",
+                        priority: "Priority",
+                        subject: "Subject"
+                    }
+                },
                 list: {
                     columns: {
                         actions: "Actions",
@@ -4827,12 +5414,29 @@ export const console: ConsoleNS = {
                     }
                 },
                 modals: {
+                    comparison: {
+                        description: "Compare the changes requested by the selected tasks side by side.",
+                        empty: "The selected tasks don't have any requested parameters.",
+                        header: "Compare Approval Tasks",
+                        parameter: "Parameter"
+                    },
                     taskDetails: {
                         description: "You have a request to approve an operational action of a user.",
                         header: "Approval Task"
                     }
                 },
                 notifications: {
+                    bulkUpdatePendingApprovals: {
+                        error: {
+                            description: "{{updated}} task(s) were updated while {{failed}} task(s) could not be " +
+                                "updated.",
+                            message: "Some tasks were not updated"
+                        },
+                        success: {
+                            description: "{{updated}} task(s) were updated successfully.",
+                            message: "Tasks updated successfully"
+                        }
+                    },
                     fetchApprovalDetails: {
                         error: {
                             description: "{{description}}",
@@ -4907,6 +5511,51 @@ export const console: ConsoleNS = {
                 }
             },
             certificates: {
+                expiryDashboard: {
+                    expiredAgo: "Expired {{count}} day(s) ago",
+                    expiresIn: "Expires in {{count}} day(s)",
+                    heading: "Certificate Health",
+                    placeholder: "No certificates expire within {{days}} days.",
+                    statuses: {
+                        expired: "Expired",
+                        expiring: "Expiring",
+                        notYetValid: "Not yet valid",
+                        valid: "Valid"
+                    },
+                    subHeading: "Certificates that have expired or expire within the selected number of days.",
+                    threshold: {
+                        label: "Expiring within",
+                        option: "{{days}} days"
+                    },
+                    unreadable: "{{count}} certificate(s) couldn't be inspected."
+                },
+                insights: {
+                    chain: {
+                        error: "Couldn't retrieve the truststore to validate the certificate chain.",
+                        label: "Certificate chain",
+                        trusted: "Trusted",
+                        untrusted: "Not trusted"
+                    },
+                    expiry: "Expiry",
+                    extendedKeyUsage: "Extended key usage",
+                    fingerprints: {
+                        sha1: "SHA-1 fingerprint",
+                        sha256: "SHA-256 fingerprint"
+                    },
+                    issues: {
+                        expired: "{{name}} has expired.",
+                        incompleteChain: "The issuer of {{name}} couldn't be found in the truststore.",
+                        invalidSignature: "The signature of {{name}} is invalid.",
+                        missingExtendedKeyUsage: "{{name}} is missing a required extended key usage.",
+                        missingKeyUsage: "{{name}} is missing a required key usage.",
+                        notACA: "{{name}} isn't allowed to issue certificates.",
+                        notYetValid: "{{name}} isn't valid yet.",
+                        untrustedRoot: "The root certificate {{name}} isn't in the truststore.",
+                        unverifiableSignature: "The signature algorithm of {{name}} isn't supported."
+                    },
+                    keyUsage: "Key usage",
+                    unrestricted: "Unrestricted"
+                },
                 keystore: {
                     advancedSearch: {
                         error: "Filter query format incorrect",
@@ -4943,11 +5592,18 @@ export const console: ConsoleNS = {
                     errorCertificate: "An error occurred while decoding the certificate."
                         + " Please ensure the certificate is valid.",
                     errorEmpty: "Either add a certificate file or paste the content of a PEM-encoded certificate.",
+                    errorJwks: "The JWKS doesn't contain any X.509 certificates.",
+                    errorPkcs12InvalidPassword: "Couldn't open the PKCS#12 file with the given password.",
+                    errorPkcs12Password: "Enter the password of the PKCS#12 file to continue.",
                     forms: {
                         alias: {
                             label: "Alias",
                             placeholder: "Enter an alias",
                             requiredErrorMessage: "Alias is required"
+                        },
+                        password: {
+                            label: "Password",
+                            placeholder: "Enter the password of the PKCS#12 file"
                         }
                     },
                     list: {
@@ -5051,7 +5707,9 @@ export const console: ConsoleNS = {
                         steps: {
                             summary: "Summary",
                             upload: "Upload certificate"
-                        }
+                        },
+                        supportedFormats: "Supported formats: PEM, DER, PKCS#12 (.p12, .pfx) and JWKS.",
+                        unlock: "Open"
                     }
                 },
                 truststore: {
@@ -5674,6 +6332,7 @@ export const console: ConsoleNS = {
                     createTemplateType: "Create Template Type",
                     deleteTemplate: "Delete Template",
                     editTemplate: "Edit Template",
+                    localeStatus: "Locale Status",
                     newType: "New Template Type"
                 },
                 confirmations: {
@@ -5821,6 +6480,21 @@ export const console: ConsoleNS = {
                     actions: "Actions",
                     name: "Name"
                 },
+                localeMatrix: {
+                    heading: "Locale Status",
+                    hints: {
+                        extra: "Uses placeholders not in the default locale: {{placeholders}}.",
+                        missing: "Missing placeholders of the default locale: {{placeholders}}."
+                    },
+                    status: {
+                        default: "Default",
+                        missing: "Missing",
+                        outdated: "Outdated",
+                        upToDate: "Up to date"
+                    },
+                    subHeading: "Locales of each template type compared with the default locale. Select a status " +
+                        "to open the template."
+                },
                 notifications: {
                     createTemplate: {
                         error: {
@@ -5850,6 +6524,12 @@ export const console: ConsoleNS = {
                             message: "Email template delete successful"
                         }
                     },
+                    getLocaleStatus: {
+                        genericError: {
+                            description: "An error occurred while retrieving the locale templates.",
+                            message: "Something went wrong"
+                        }
+                    },
                     getTemplateDetails: {
                         error: {
                             description: "{{description}}",
@@ -5910,6 +6590,18 @@ export const console: ConsoleNS = {
                         title: "Add Template"
                     }
                 },
+                templatePlaceholders: {
+                    copied: "Copied!",
+                    heading: "Placeholders",
+                    hint: "Type {{trigger}} or press Ctrl+Space in the code editor to insert a placeholder. Click a " +
+                        "placeholder to copy it. Highlighted placeholders are required.",
+                    sample: "Sample value: {{value}}",
+                    validations: {
+                        heading: "Review the placeholders of the template",
+                        missing: "Required placeholders are not used: {{placeholders}}",
+                        unknown: "Unknown placeholders will not be replaced: {{placeholders}}"
+                    }
+                },
                 viewTemplate: {
                     heading: "Email Template Preview"
                 }
@@ -5928,7 +6620,47 @@ export const console: ConsoleNS = {
                         positiveIntegers: "The number should not be less than 0."
                     }
                 },
+                history: {
+                    buttons: {
+                        rollback: "Restore This Version",
+                        view: "View History"
+                    },
+                    columns: {
+                        current: "Selected version",
+                        previous: "Compared version",
+                        property: "Property"
+                    },
+                    fields: {
+                        compareWith: {
+                            label: "Compare with",
+                            placeholder: "Select a version to compare with"
+                        }
+                    },
+                    heading: "{{name}} History",
+                    placeholders: {
+                        empty: "No changes have been recorded for this connector yet.",
+                        noChanges: "There are no differences between the selected versions.",
+                        noComparison: "This is the earliest recorded version."
+                    },
+                    sources: {
+                        import: "Imported",
+                        initial: "Initial",
+                        rollback: "Restored",
+                        update: "Updated"
+                    },
+                    subHeading: "Review the changes made to the connector settings and restore a previous version."
+                },
                 notifications: {
+                    exportSnapshot: {
+                        genericError: {
+                            description: "An error occurred while exporting the connector settings.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "The connector settings were exported successfully.",
+                            message: "Export Successful"
+                        }
+                    },
                     getConnector: {
                         error: {
                             description: "{{ description }}",
@@ -5957,6 +6689,33 @@ export const console: ConsoleNS = {
                             message: ""
                         }
                     },
+                    getHistory: {
+                        genericError: {
+                            description: "An error occurred while retrieving the change history of the connector.",
+                            message: "Something went wrong"
+                        }
+                    },
+                    importSnapshot: {
+                        error: {
+                            description: "{{updated}} connector(s) were updated while {{failed}} connector(s) " +
+                                "could not be updated.",
+                            message: "Some connectors were not updated"
+                        },
+                        success: {
+                            description: "{{updated}} connector(s) were updated successfully.",
+                            message: "Import Successful"
+                        }
+                    },
+                    rollbackConnector: {
+                        genericError: {
+                            description: "An error occurred while restoring the connector settings.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "The connector settings were restored to the version of {{date}}.",
+                            message: "Restore Successful"
+                        }
+                    },
                     updateConnector: {
                         error: {
                             description: "{{ description }}",
@@ -5972,8 +6731,30 @@ export const console: ConsoleNS = {
                         }
                     }
                 },
-                pageSubHeading: "Configure and manage {{ name }}."
-
+                pageSubHeading: "Configure and manage {{ name }}.",
+                snapshot: {
+                    buttons: {
+                        apply: "Apply Changes",
+                        export: "Export All Settings",
+                        import: "Import Settings"
+                    },
+                    columns: {
+                        current: "Current value",
+                        incoming: "Incoming value"
+                    },
+                    filePicker: {
+                        dropzoneText: "Drag and drop a connector settings file here.",
+                        hint: "Select a connector settings file exported from the same or another tenant.",
+                        pasteAreaPlaceholderText: "Paste the content of the connector settings file here.",
+                        uploadButtonText: "Upload File"
+                    },
+                    heading: "Import Connector Settings",
+                    placeholders: {
+                        noChanges: "The imported settings are identical to the current settings."
+                    },
+                    redactedFields: "{{count}} secret value(s) were not exported and will be kept unchanged.",
+                    subHeading: "Review the changes in the settings file before applying them to this tenant."
+                }
             },
             groups: {
                 advancedSearch: {
@@ -6701,6 +7482,43 @@ export const console: ConsoleNS = {
                     },
                     placeholder: "Search by role name"
                 },
+                bulkPermissionEditor: {
+                    buttons: {
+                        apply: "Apply",
+                        back: "Back"
+                    },
+                    fields: {
+                        operation: {
+                            add: "Add permissions",
+                            label: "Operation",
+                            remove: "Remove permissions"
+                        },
+                        roles: {
+                            label: "Roles",
+                            placeholder: "Select the roles to update",
+                            validations: {
+                                empty: "Select at least one role."
+                            }
+                        }
+                    },
+                    heading: "Bulk Edit Permissions",
+                    hints: {
+                        add: "The selected permissions will be added to every selected role. Existing permissions " +
+                            "are kept.",
+                        remove: "The selected permissions and the permissions nested under them will be removed " +
+                            "from every selected role."
+                    },
+                    results: {
+                        error: "Could not update the permissions of the role.",
+                        notApplicable: "The role is granted a parent permission which couldn't be narrowed down. " +
+                            "Remove it instead.",
+                        success: "Permissions updated."
+                    },
+                    subHeading: "Add or remove a set of permissions from many roles at once.",
+                    validations: {
+                        emptyPermissions: "Select at least one permission."
+                    }
+                },
                 edit: {
                     basics: {
                         buttons: {
@@ -6748,6 +7566,11 @@ export const console: ConsoleNS = {
                         roles: "Roles",
                         users: "Users"
                     },
+                    permissions: {
+                        buttons: {
+                            export: "Export"
+                        }
+                    },
                     users: {
                         list: {
                             emptyPlaceholder: {
@@ -6762,6 +7585,8 @@ export const console: ConsoleNS = {
                 list: {
                     buttons: {
                         addButton: "New {{type}}",
+                        bulkEditPermissions: "Bulk Edit Permissions",
+                        compare: "Compare Roles",
                         filterDropdown: "Filter By"
                     },
                     columns: {
@@ -6804,6 +7629,27 @@ export const console: ConsoleNS = {
                     }
                 },
                 notifications: {
+                    bulkUpdatePermissions: {
+                        error: {
+                            description: "{{updated}} role(s) were updated while {{failed}} role(s) could not be " +
+                                "updated.",
+                            message: "Some roles were not updated"
+                        },
+                        success: {
+                            description: "The permissions of {{updated}} role(s) were updated successfully.",
+                            message: "Permissions updated successfully"
+                        }
+                    },
+                    copyPermissions: {
+                        genericError: {
+                            description: "Couldn't copy the permissions.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "The permissions were copied to {{role}} successfully.",
+                            message: "Permissions copied successfully"
+                        }
+                    },
                     createPermission: {
                         error: {
                             description: "{{description}}",
@@ -6846,6 +7692,12 @@ export const console: ConsoleNS = {
                             message: "Role deleted successfully"
                         }
                     },
+                    fetchPermissions: {
+                        genericError: {
+                            description: "An error occurred while retrieving the permissions of the roles.",
+                            message: "Something went wrong"
+                        }
+                    },
                     fetchRoles: {
                         genericError: {
                             description: "An error occurred while retrieving roles.",
@@ -6866,6 +7718,39 @@ export const console: ConsoleNS = {
                             message: "Role updated successfully"
                         }
                     }
+                },
+                permissionDiff: {
+                    buttons: {
+                        copy: "Copy permissions to {{target}}"
+                    },
+                    columns: {
+                        added: "Only in {{role}}",
+                        common: "In both roles",
+                        removed: "Only in {{role}}"
+                    },
+                    confirmations: {
+                        copy: {
+                            content: "The permissions of {{target}} will be replaced with the permissions of " +
+                                "{{source}}. Please proceed with caution.",
+                            header: "Are you sure?",
+                            message: "This will overwrite the existing permissions of the role."
+                        }
+                    },
+                    fields: {
+                        baseRole: {
+                            label: "Base role",
+                            placeholder: "Select a role"
+                        },
+                        comparedRole: {
+                            label: "Compared role",
+                            placeholder: "Select a role to compare with"
+                        }
+                    },
+                    heading: "Compare Roles",
+                    placeholders: {
+                        empty: "No permissions"
+                    },
+                    subHeading: "Compare the permissions assigned to two roles side by side."
                 }
             },
             serverConfigs: {
@@ -6941,6 +7826,7 @@ export const console: ConsoleNS = {
                 }
             },
             sidePanel: {
+                activityLog: "Activity",
                 addEmailTemplate: "Add Email Template",
                 addEmailTemplateLocale: "Add Email Template Locale",
                 approvals: "Approvals",
@@ -7172,6 +8058,67 @@ export const console: ConsoleNS = {
                             username: "Username"
                         }
                     },
+                    bulkImportUserWizard: {
+                        buttons: {
+                            finish: "Finish",
+                            import: "Import",
+                            next: "Next",
+                            previous: "Previous"
+                        },
+                        mapping: {
+                            columns: {
+                                attribute: "Attribute",
+                                column: "Column",
+                                sample: "Sample value"
+                            },
+                            hint: "Map the columns of the file to user attributes. Columns which are not mapped " +
+                                "are ignored.",
+                            missingRequired: "The following required attributes are not mapped: {{attributes}}",
+                            placeholder: "Select an attribute"
+                        },
+                        preview: {
+                            columns: {
+                                errors: "Errors",
+                                row: "Row",
+                                status: "Status",
+                                username: "Username"
+                            },
+                            summary: "{{valid}} of {{total}} row(s) are valid and will be imported."
+                        },
+                        results: {
+                            inProgress: "Importing users. {{processed}} of {{total}} processed.",
+                            summary: "{{success}} user(s) were imported and {{failed}} failed."
+                        },
+                        rowErrors: {
+                            duplicateUsername: "The username is already used in row {{detail}}.",
+                            importFailed: "{{detail}}",
+                            invalidAttributeValue: "The value of {{attribute}} is invalid.",
+                            missingEmail: "An email is required to invite a user without a password.",
+                            missingRequiredAttribute: "{{attribute}} is required.",
+                            missingUsername: "The username is required."
+                        },
+                        status: {
+                            failed: "Failed",
+                            invalid: "Invalid",
+                            success: "Imported",
+                            valid: "Valid"
+                        },
+                        steps: {
+                            mapping: "Attribute Mapping",
+                            preview: "Preview",
+                            results: "Results",
+                            upload: "Upload"
+                        },
+                        subTitle: "Follow the steps to import users from a CSV or JSON file",
+                        title: "Import Users",
+                        upload: {
+                            dropzoneText: "Drag and drop a CSV or JSON file here.",
+                            hint: "The first line of a CSV file should contain the column names. A JSON file " +
+                                "should contain an array of user objects.",
+                            pasteAreaPlaceholderText: "Paste the CSV or JSON content in this area...",
+                            uploadButtonText: "Upload File"
+                        }
+                    },
                     changePasswordModal: {
                         button: "Reset Password",
                         header: "Reset User Password",
@@ -7647,6 +8594,8 @@ export const console: ConsoleNS = {
                 buttons: {
                     addNewUserBtn: "New User",
                     assignUserRoleBtn: "Assign roles",
+                    exportUsersBtn: "Export",
+                    importUsersBtn: "Import",
                     metaColumnBtn: "Columns"
                 },
                 confirmations: {
@@ -7702,6 +8651,20 @@ export const console: ConsoleNS = {
                             message: "User added successfully"
                         }
                     },
+                    bulkImportUsers: {
+                        error: {
+                            description: "{{description}}",
+                            message: "Error importing the users"
+                        },
+                        genericError: {
+                            description: "Couldn't import the users.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "{{count}} user(s) were imported successfully.",
+                            message: "Users imported successfully"
+                        }
+                    },
                     deleteUser: {
                         error: {
                             description: "{{description}}",
@@ -7716,6 +8679,20 @@ export const console: ConsoleNS = {
                             message: "User deleted successfully"
                         }
                     },
+                    exportUsers: {
+                        error: {
+                            description: "{{description}}",
+                            message: "Error exporting the users"
+                        },
+                        genericError: {
+                            description: "Couldn't export the users.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "{{count}} user(s) were exported successfully.",
+                            message: "Users exported successfully"
+                        }
+                    },
                     fetchUsers: {
                         error: {
                             description: "{{description}}",
@@ -7903,6 +8880,60 @@ export const console: ConsoleNS = {
                             "Proceed with caution."
                     }
                 },
+                diagnostics: {
+                    buttons: {
+                        run: "Run Diagnostics"
+                    },
+                    columns: {
+                        details: "Details",
+                        duration: "Duration",
+                        status: "Status",
+                        step: "Step"
+                    },
+                    heading: "Diagnostics",
+                    hint: "The probes are read-only and use the saved configuration of the userstore. Update the " +
+                        "userstore before running the diagnostics to verify the changes.",
+                    results: {
+                        count: "Returned {{count}} result(s).",
+                        duration: "{{duration}} ms"
+                    },
+                    status: {
+                        failed: "Failed",
+                        passed: "Passed",
+                        skipped: "Skipped"
+                    },
+                    steps: {
+                        connection: {
+                            description: "Connects to the userstore with the connection properties.",
+                            failed: "Couldn't connect to the userstore.",
+                            name: "Connection",
+                            passed: "Connected to the userstore successfully.",
+                            skipped: "The connection can only be tested for JDBC userstores."
+                        },
+                        groupMembership: {
+                            description: "Looks up the groups of the first user.",
+                            failed: "Couldn't look up the groups of the user.",
+                            name: "Group membership lookup",
+                            passed: "Looked up the groups of the user successfully.",
+                            skipped: "There are no users to look up the groups of."
+                        },
+                        listUsers: {
+                            description: "Lists the users with the user list filter.",
+                            failed: "Couldn't list the users.",
+                            name: "List users",
+                            passed: "Listed the users successfully."
+                        },
+                        searchFilter: {
+                            description: "Searches the first user by the username with the user search filter.",
+                            failed: "The user search filter didn't return the listed user.",
+                            name: "Search filter",
+                            passed: "Found the user successfully.",
+                            skipped: "There are no users to search for."
+                        }
+                    },
+                    subHeading: "Test the connection and run a set of read-only probes against the userstore to " +
+                        "find configuration issues."
+                },
                 forms: {
                     connection: {
                         connectionErrorMessage: "Please ensure the provided connection "
@@ -8013,6 +9044,7 @@ export const console: ConsoleNS = {
                         description: "Edit userstore",
                         tabs: {
                             connection: "Connection",
+                            diagnostics: "Diagnostics",
                             general: "General",
                             group: "Group",
                             user: "User"
@@ -8053,7 +9085,20 @@ export const console: ConsoleNS = {
                     read: "Read",
                     reset: "Reset",
                     title: "SQL Query Types",
-                    update: "Update"
+                    update: "Update",
+                    validations: {
+                        emptyQuery: "The query is empty.",
+                        heading: "Issues in the query",
+                        missingNamedPlaceholder: "The {{placeholder}} parameter of the default query isn't used.",
+                        multipleStatements: "Only a single statement is allowed in the query.",
+                        placeholderCountMismatch: "The query has {{found}} parameter(s) while {{expected}} " +
+                            "value(s) are bound to it.",
+                        statementTypeMismatch: "The query must be a {{expected}} statement.",
+                        unbalancedParentheses: "The parentheses of the query aren't balanced.",
+                        unknownNamedPlaceholder: "No value is bound to the {{placeholder}} parameter.",
+                        unknownStatement: "{{statement}} isn't a supported SQL statement.",
+                        unterminatedString: "A string in the query isn't terminated."
+                    }
                 },
                 wizard: {
                     header: "Add {{type}} Userstore",
@@ -8271,6 +9316,10 @@ export const console: ConsoleNS = {
             }
         },
         pages: {
+            activityLog: {
+                subTitle: "Review the changes made through the console",
+                title: "Activity"
+            },
             addEmailTemplate: {
                 backButton: "Go back to {{name}} template",
                 subTitle: null,
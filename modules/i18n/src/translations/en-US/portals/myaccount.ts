@@ -166,6 +166,7 @@ export const myAccount: MyAccountNS = {
             hints: {
                 querySearch: {
                     actionKeys: "Shift + Enter",
+                    invalid: "The query is invalid near position {{position}}.",
                     label: "To search as a query"
                 }
             },
@@ -600,6 +601,39 @@ export const myAccount: MyAccountNS = {
                     }
                 }
             },
+            backupCode: {
+                actions: {
+                    generate: "Generate codes"
+                },
+                description: "Use one-time backup codes to sign in when you can't use your other factors.",
+                heading: "Backup Codes",
+                hint: "Generate new codes",
+                list: {
+                    description: "Keep these codes somewhere safe. Each code can be used only once and the codes " +
+                        "will not be shown again.",
+                    heading: "Your Backup Codes",
+                    print: "Print"
+                },
+                modals: {
+                    generate: "Generate a set of one-time codes to sign in when you can't use your other factors.",
+                    heading: "Backup Codes",
+                    regenerate: "Your existing backup codes will stop working once new codes are generated."
+                },
+                notGenerated: "You have not generated any backup codes yet.",
+                notifications: {
+                    generateError: {
+                        error: {
+                            description: "{{error}}",
+                            message: "Something went wrong"
+                        },
+                        genericError: {
+                            description: "An error occurred while generating the backup codes",
+                            message: "Something went wrong"
+                        }
+                    }
+                },
+                remaining: "{{count}} unused backup codes remaining."
+            },
             fido: {
                 description: "Authenticate yourself by connecting a biometric device or a FIDO key",
                 form: {
@@ -663,6 +697,34 @@ export const myAccount: MyAccountNS = {
                 },
                 tryButton: "Try with an older Device"
             },
+            setupWizard: {
+                factors: {
+                    fido: {
+                        description: "Use a security key or the biometrics of your device.",
+                        heading: "Security Key/Biometrics"
+                    },
+                    totp: {
+                        description: "Use a code generated by an authenticator app on your phone.",
+                        heading: "Authenticator App"
+                    }
+                },
+                heading: "Secure Your Account",
+                steps: {
+                    backupCodes: {
+                        description: "Generate backup codes so that you can still sign in if you lose access to " +
+                            "your second factor.",
+                        enrolled: "The second factor was added to your account.",
+                        heading: "Backup Codes"
+                    },
+                    enroll: {
+                        fido: "Click register and follow the instructions of your browser to register a security " +
+                            "key or the biometrics of your device."
+                    },
+                    selectFactor: {
+                        heading: "Choose a second factor"
+                    }
+                }
+            },
             smsOtp: {
                 descriptions: {
                     hint: "You'll receive a text message containing an one-time verification code",
@@ -1185,6 +1247,9 @@ export const myAccount: MyAccountNS = {
             urlUpdateHeader: "Enter an image URL to set your profile picture"
         },
         userSessions: {
+            actions: {
+                terminateOthers: "Sign out everywhere else"
+            },
             browserAndOS: "{{browser}} on {{os}} {{version}}",
             dangerZones: {
                 terminate: {
@@ -1193,6 +1258,22 @@ export const myAccount: MyAccountNS = {
                     subheader: "You will be logged out of the session on the particular device."
                 }
             },
+            deviceGroups: {
+                actions: {
+                    hideActivity: "Hide activity",
+                    showActivity: "Show activity"
+                },
+                currentDevice: "This device",
+                summary: "{{count}} active session(s), last active {{date}}",
+                timeline: {
+                    applications: "Applications: {{applications}}",
+                    lastAccess: "Last active",
+                    login: "Signed in"
+                },
+                unusualDevice: "New device",
+                unusualDeviceHint: "{{browser}} on {{os}} was first used to sign in to your account on {{date}}. " +
+                    "If you don't recognize it, terminate its sessions and change your password."
+            },
             lastAccessed: "Last accessed {{date}}",
             modals: {
                 terminateAllUserSessionsModal: {
@@ -1201,6 +1282,13 @@ export const myAccount: MyAccountNS = {
                         "This action will log you out of all the sessions on every device. Do you wish to " +
                         "continue?"
                 },
+                terminateOtherUserSessionsModal: {
+                    currentBrowserSessions: "{{count}} of them are from this browser and will be terminated as well.",
+                    heading: "Confirmation",
+                    message: "This action will log you out of all the other sessions. Do you wish to continue?",
+                    unidentifiedSession: "The current session couldn't be identified. Hence the {{count}} " +
+                        "session(s) of this browser, including the current one, will be kept."
+                },
                 terminateUserSessionModal: {
                     heading: "Confirmation",
                     message:
@@ -1237,6 +1325,16 @@ export const myAccount: MyAccountNS = {
                         message: "Terminated all active sessions"
                     }
                 },
+                terminateOtherUserSessions: {
+                    error: {
+                        description: "{{failed}} of {{total}} sessions could not be terminated.",
+                        message: "Couldn't terminate some sessions"
+                    },
+                    success: {
+                        description: "Successfully terminated {{count}} other session(s).",
+                        message: "Terminated the other sessions"
+                    }
+                },
                 terminateUserSession: {
                     error: {
                         description: "{{description}}",
@@ -1462,6 +1560,9 @@ export const myAccount: MyAccountNS = {
             heading: "Linked Accounts"
         },
         mfa: {
+            actionTitles: {
+                setup: "Secure your account"
+            },
             description:
                 "Add an extra layer of protection to your account by configuring multiple steps of authentication.",
             heading: "Multi-Factor Authentication"
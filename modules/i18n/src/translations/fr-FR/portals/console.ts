@@ -49,6 +49,7 @@ export const console: ConsoleNS = {
             hints: {
                 querySearch: {
                     actionKeys: "Maj + Entrée",
+                    invalid: "La requête est invalide près de la position {{position}}.",
                     label: "Pour effectuer une recherche"
                 }
             },
@@ -69,6 +70,25 @@ export const console: ConsoleNS = {
                 "fluides et personnalisés. Pour En savoir plus sur la façon dont nous utilisons les cookies, " +
                 "reportez-vous à notre <1>Politique relative aux cookies</1>."
         },
+        dataTable: {
+            actions: {
+                export: "Exporter en CSV",
+                exportPage: "Exporter la page actuelle en CSV"
+            },
+            filters: {
+                placeholder: "Filtrer"
+            },
+            hints: {
+                currentPage: "Le tri, le filtrage et l'export s'appliquent uniquement aux éléments de la page actuelle."
+            },
+            views: {
+                delete: "Supprimer la vue",
+                emptyPlaceholder: "Aucune vue enregistrée",
+                header: "Vues enregistrées",
+                namePlaceholder: "Nom de la vue",
+                save: "Enregistrer"
+            }
+        },
         header: {
             appSwitch: {
                 console: {
@@ -485,6 +505,44 @@ export const console: ConsoleNS = {
             },
             applications: {
                 addWizard: {
+                    import: {
+                        buttons: {
+                            back: "Retour",
+                            import: "Importer",
+                            trigger: "Importer depuis un fichier"
+                        },
+                        conflicts: {
+                            heading: "Vérifier avant l'importation",
+                            identityProviders: "Les fournisseurs d'identité suivants utilisés dans le flux de " +
+                                "connexion ne sont pas disponibles dans cet environnement : {{idps}}. Créez-les " +
+                                "avant l'importation ou mettez à jour le flux de connexion après l'importation.",
+                            name: "Une application nommée {{name}} existe déjà. Veuillez fournir un autre nom.",
+                            redactedFields: "Les secrets suivants ont été supprimés lors de l'exportation et " +
+                                "seront régénérés ou devront être configurés à nouveau : {{fields}}."
+                        },
+                        fields: {
+                            name: {
+                                hint: "Nom de l'application à créer à partir du fichier.",
+                                label: "Nom",
+                                placeholder: "Saisissez un nom pour l'application",
+                                validations: {
+                                    empty: "Le nom de l'application est obligatoire."
+                                }
+                            }
+                        },
+                        filePicker: {
+                            dropzoneText: "Glissez et déposez ici un fichier d'exportation d'application",
+                            hint: "Sélectionnez un fichier JSON ou YAML exporté depuis les paramètres généraux " +
+                                "d'une application.",
+                            pasteAreaPlaceholderText: "Collez le contenu d'un fichier d'exportation d'application",
+                            uploadButtonText: "Télécharger le fichier"
+                        },
+                        heading: "Importer une application",
+                        summary: "Exporté le {{date}}.",
+                        validations: {
+                            emptyFile: "Sélectionnez un fichier d'exportation d'application valide pour continuer."
+                        }
+                    },
                     steps: {
                         generalSettings: {
                             heading: "Paramètres généraux"
@@ -845,6 +903,16 @@ export const console: ConsoleNS = {
                             tabName: "Info"
                         },
                         general: {
+                            export: {
+                                buttons: {
+                                    json: "Exporter en JSON",
+                                    yaml: "Exporter en YAML"
+                                },
+                                heading: "Exporter l'application",
+                                hint: "Téléchargez la configuration de cette application dans un fichier portable " +
+                                    "qui peut être importé dans un autre environnement. Les secrets ne sont pas " +
+                                    "inclus dans le fichier."
+                            },
                             tabName: "Général"
                         },
                         provisioning: {
@@ -918,6 +986,17 @@ export const console: ConsoleNS = {
                                                 }
                                             },
                                             editor: {
+                                                diagnostics: {
+                                                    missingLoginRequestHandler: "Le script doit définir la " +
+                                                        "fonction onLoginRequest.",
+                                                    syntaxError: "Erreur de syntaxe : {{message}}",
+                                                    undefinedStep: "L'étape {{step}} n'est pas définie dans le " +
+                                                        "flux d'authentification. Seules les étapes 1 à " +
+                                                        "{{stepCount}} sont disponibles.",
+                                                    unknownAuthenticator: "Authentificateur inconnu {{name}}.",
+                                                    unknownIdentityProvider: "Fournisseur d'identité inconnu {{name}}.",
+                                                    unusedVariable: "{{name}} est défini mais jamais utilisé."
+                                                },
                                                 resetConfirmation: {
                                                     content: "Cette action réinitialisera le script d'authentification" +
                                                         " adaptative par défaut. Cliquez sur «Confirmer» pour" +
@@ -925,6 +1004,86 @@ export const console: ConsoleNS = {
                                                     heading: "Êtes-vous sûr?",
                                                     message: "Cette action est irréversible."
                                                 },
+                                                simulator: {
+                                                    actions: {
+                                                        delete: "Supprimer le scénario",
+                                                        new: "Nouveau scénario",
+                                                        open: "Simuler le script",
+                                                        run: "Lancer la simulation",
+                                                        save: "Enregistrer le scénario"
+                                                    },
+                                                    fields: {
+                                                        claims: {
+                                                            hint: "Ajoutez un attribut par ligne au format " +
+                                                                "claimURI=valeur.",
+                                                            label: "Attributs",
+                                                            placeholder: "http://wso2.org/claims/country=Sri Lanka"
+                                                        },
+                                                        ip: {
+                                                            label: "Adresse IP",
+                                                            placeholder: "192.168.1.1"
+                                                        },
+                                                        name: {
+                                                            label: "Nom du scénario",
+                                                            placeholder: "Saisissez un nom pour le scénario"
+                                                        },
+                                                        params: {
+                                                            hint: "Ajoutez un paramètre de requête par ligne au " +
+                                                                "format nom=valeur.",
+                                                            label: "Paramètres de requête",
+                                                            placeholder: "prompt=login"
+                                                        },
+                                                        roles: {
+                                                            label: "Rôles",
+                                                            placeholder: "Saisissez des rôles séparés par des virgules"
+                                                        },
+                                                        scenario: {
+                                                            label: "Scénarios enregistrés",
+                                                            placeholder: "Sélectionnez un scénario enregistré",
+                                                            untitled: "Scénario sans titre"
+                                                        },
+                                                        stepResult: {
+                                                            label: "Résultat de l'étape {{step}}"
+                                                        },
+                                                        userAgent: {
+                                                            label: "Agent utilisateur",
+                                                            placeholder: "Mozilla/5.0"
+                                                        },
+                                                        username: {
+                                                            label: "Nom d'utilisateur",
+                                                            placeholder: "Saisissez le nom d'utilisateur"
+                                                        }
+                                                    },
+                                                    heading: "Simuler le script adaptatif",
+                                                    outcomes: {
+                                                        errorRedirect: "Redirigé vers la page d'erreur {{url}}",
+                                                        failed: "Échec de l'authentification",
+                                                        noSteps: "Aucune étape n'a été exécutée",
+                                                        scriptError: "Erreur de script : {{error}}",
+                                                        success: "Authentification réussie",
+                                                        timeout: "Le script ne s'est pas terminé à temps"
+                                                    },
+                                                    placeholders: {
+                                                        noLogs: "Le script n'a journalisé aucun message.",
+                                                        noResult: "Lancez la simulation pour voir le résultat.",
+                                                        noSteps: "Le script n'a exécuté aucune étape."
+                                                    },
+                                                    sections: {
+                                                        logs: "Journaux",
+                                                        request: "Requête",
+                                                        result: "Résultat",
+                                                        steps: "Résultats des étapes",
+                                                        trace: "Étapes exécutées",
+                                                        user: "Utilisateur"
+                                                    },
+                                                    stepResults: {
+                                                        fail: "Échec",
+                                                        success: "Réussite"
+                                                    },
+                                                    subHeading: "Exécutez le script sur une connexion fictive pour " +
+                                                        "voir les étapes exécutées. Rien n'est envoyé au serveur.",
+                                                    traceItem: "Étape {{step}} : {{result}}"
+                                                },
                                                 templates: {
                                                     darkMode: "Mode sombre",
                                                     heading: "Modèles"
@@ -999,6 +1158,45 @@ export const console: ConsoleNS = {
                                                     }
                                                 }
                                             },
+                                            graph: {
+                                                branches: {
+                                                    conditional: "Conditionnel",
+                                                    empty: "Le script adaptatif n'exécute pas les étapes depuis " +
+                                                        "les rappels d'autres étapes.",
+                                                    heading: "Branches du script"
+                                                },
+                                                hint: "Faites glisser les étapes pour les réorganiser et les " +
+                                                    "authentificateurs d'une étape à l'autre. Sélectionnez " +
+                                                    "l'étape dont proviennent l'identifiant du sujet et les " +
+                                                    "attributs.",
+                                                labels: {
+                                                    attributes: "Attributs",
+                                                    subject: "Sujet"
+                                                },
+                                                nodes: {
+                                                    end: "Succès",
+                                                    start: "Début",
+                                                    step: "Étape {{step}}"
+                                                },
+                                                validations: {
+                                                    emptyStep: "L'étape {{step}} ne contient aucun authentificateur.",
+                                                    handlerWithoutNextStep: "{{authenticator}} identifie seulement " +
+                                                        "l'utilisateur. Ajoutez une étape après l'étape {{step}} " +
+                                                        "pour authentifier l'utilisateur.",
+                                                    heading: "Le flux d'authentification n'est pas valide",
+                                                    invalidAttributeStep: "Sélectionnez l'étape dont proviennent " +
+                                                        "les attributs.",
+                                                    invalidSubjectStep: "Sélectionnez l'étape dont provient " +
+                                                        "l'identifiant du sujet.",
+                                                    secondFactorWithoutHandler: "{{authenticator}} à l'étape " +
+                                                        "{{step}} nécessite Nom d'utilisateur et mot de passe ou " +
+                                                        "Identifiant d'abord dans une étape précédente."
+                                                },
+                                                views: {
+                                                    graph: "Vue graphique",
+                                                    list: "Vue en liste"
+                                                }
+                                            },
                                             heading: "Configuration par étapes",
                                             hint: "Créez des étapes d'authentification en faisant glisser les authentificateurs " +
                                                 "locaux/fédérés vers les étapes correspondantes.",
@@ -1120,6 +1318,86 @@ export const console: ConsoleNS = {
                                 }
                             },
                             tabName: "Méthode de connexion"
+                        },
+                        tokenPreview: {
+                            accessToken: {
+                                heading: "Jeton d'accès",
+                                jwt: "JWT",
+                                opaque: "Opaque",
+                                opaqueHint: "Les jetons d'accès opaques ne contiennent aucune revendication. Les " +
+                                    "revendications suivantes sont retournées lors de l'introspection du jeton."
+                            },
+                            fields: {
+                                applicationToken: {
+                                    hint: "Prévisualisez les jetons émis pour des autorisations telles que client " +
+                                        "credentials, qui n'impliquent pas d'utilisateur.",
+                                    label: "Émis pour l'application"
+                                },
+                                scopes: {
+                                    hint: "Les attributs demandés ne sont ajoutés au jeton d'identité que s'ils " +
+                                        "appartiennent à l'un des scopes demandés.",
+                                    label: "Scopes demandés",
+                                    placeholder: "Sélectionnez des scopes"
+                                }
+                            },
+                            heading: "Aperçu des jetons",
+                            idToken: {
+                                encrypted: "Chiffré avec {{algorithm}} et {{method}}",
+                                heading: "Jeton d'identité",
+                                notIssued: "Un jeton d'identité n'est émis pour les utilisateurs que si le scope " +
+                                    "openid est demandé.",
+                                omittedClaims: {
+                                    description: "Les attributs demandés suivants sont omis car ils " +
+                                        "n'appartiennent pas aux scopes demandés ou ne sont pas associés à un " +
+                                        "attribut OpenID Connect.",
+                                    heading: "Attributs omis"
+                                },
+                                signed: "Signé avec {{algorithm}}"
+                            },
+                            inspector: {
+                                actions: {
+                                    verify: "Vérifier la signature"
+                                },
+                                errors: {
+                                    encryptedToken: "Le jeton est chiffré. Seuls les jetons signés peuvent être " +
+                                        "décodés.",
+                                    invalidKey: "La clé n'est pas un JWKS, un JWK ou un certificat ou une clé " +
+                                        "publique PEM valide.",
+                                    malformedToken: "Le contenu n'est pas un JWT valide.",
+                                    noMatchingKey: "Le JWKS ne contient pas de clé avec l'identifiant de clé du jeton.",
+                                    unsupportedAlgorithm: "Seules les signatures RS256, RS384, RS512, PS256, PS384 " +
+                                        "et PS512 peuvent être vérifiées."
+                                },
+                                fields: {
+                                    key: {
+                                        hint: "Le JWKS du serveur est disponible sur le point de terminaison JWKS " +
+                                            "indiqué dans l'onglet Info.",
+                                        label: "Clé de vérification",
+                                        placeholder: "Collez un JWKS, un JWK ou un certificat ou une clé publique PEM"
+                                    },
+                                    token: {
+                                        label: "Jeton",
+                                        placeholder: "Collez un JWT"
+                                    }
+                                },
+                                heading: "Inspecteur de jetons",
+                                results: {
+                                    expired: "Le jeton a expiré le {{date}}.",
+                                    expiresAt: "Le jeton expire le {{date}}.",
+                                    invalid: "La signature n'est pas valide.",
+                                    valid: "La signature est valide."
+                                },
+                                subHeading: "Décodez un jeton et vérifiez sa signature. Le jeton et la clé ne sont " +
+                                    "pas envoyés au serveur."
+                            },
+                            sections: {
+                                encryptionHeader: "En-tête de chiffrement",
+                                header: "En-tête",
+                                payload: "Charge utile"
+                            },
+                            subHeading: "Exemples de jetons construits à partir des configurations de protocole et " +
+                                "d'attributs enregistrées de l'application.",
+                            tabName: "Aperçu des jetons"
                         }
                     }
                 },
@@ -1737,6 +2015,62 @@ export const console: ConsoleNS = {
                                 }
                             }
                         },
+                        metadata: {
+                            actions: {
+                                export: "Exporter les métadonnées de l'IdP",
+                                import: "Importer les métadonnées du SP"
+                            },
+                            diff: {
+                                columns: {
+                                    current: "Valeur actuelle",
+                                    incoming: "Nouvelle valeur",
+                                    path: "Propriété"
+                                },
+                                heading: "Modifications"
+                            },
+                            export: {
+                                actions: {
+                                    download: "Télécharger"
+                                },
+                                empty: "Le formulaire n'a pas de modifications non enregistrées.",
+                                heading: "Métadonnées du fournisseur d'identité",
+                                hint: "Ces métadonnées sont générées à partir de la configuration enregistrée de " +
+                                    "l'application. Les modifications du formulaire sont prises en compte une fois " +
+                                    "enregistrées.",
+                                unavailable: "Les métadonnées du fournisseur d'identité du tenant n'ont pas pu " +
+                                    "être chargées.",
+                                unsavedChanges: "Modifications non enregistrées"
+                            },
+                            heading: "Métadonnées",
+                            hint: "Remplissez la configuration à partir des métadonnées SAML de l'application ou " +
+                                "téléchargez les métadonnées du fournisseur d'identité pour configurer " +
+                                "l'application.",
+                            import: {
+                                actions: {
+                                    apply: "Appliquer"
+                                },
+                                empty: "Les métadonnées ne modifient pas la configuration actuelle.",
+                                error: "Les métadonnées n'ont pas pu être lues",
+                                filePicker: {
+                                    dropzoneText: "Glissez et déposez un fichier XML de métadonnées ici.",
+                                    pasteAreaPlaceholderText: "Collez le XML des métadonnées du fournisseur de " +
+                                        "services ici...",
+                                    uploadButtonText: "Importer le fichier de métadonnées"
+                                },
+                                heading: "Importer les métadonnées du fournisseur de services",
+                                hint: "L'émetteur, les URL du service consommateur d'assertions, les URL de " +
+                                    "déconnexion unique, le certificat et le format de l'identifiant de nom sont " +
+                                    "remplis à partir des métadonnées. Vérifiez les modifications et enregistrez " +
+                                    "le formulaire pour les appliquer.",
+                                issuerMismatch: "L'identifiant d'entité {{entityId}} des métadonnées ne correspond " +
+                                    "pas à l'émetteur {{issuer}}. L'émetteur est conservé tel quel.",
+                                unsupported: {
+                                    description: "Les éléments suivants des métadonnées ne peuvent pas être " +
+                                        "associés à la configuration et sont ignorés.",
+                                    heading: "Éléments non pris en charge"
+                                }
+                            }
+                        },
                         sections: {
                             assertion: {
                                 fields: {
@@ -2257,6 +2591,16 @@ export const console: ConsoleNS = {
                             message: "Erreur de mise à jour"
                         }
                     },
+                    exportApplication: {
+                        genericError: {
+                            description: "Impossible d'exporter l'application.",
+                            message: "Quelque chose s'est mal passé"
+                        },
+                        success: {
+                            description: "L'application a été exportée avec succès.",
+                            message: "Exportation réussie"
+                        }
+                    },
                     fetchAllowedCORSOrigins: {
                         error: {
                             description: "{{description}}",
@@ -2419,6 +2763,13 @@ export const console: ConsoleNS = {
                             message: "Récupération réussie"
                         }
                     },
+                    invalidAuthenticationFlow: {
+                        genericError: {
+                            description: "Corrigez les problèmes signalés dans le flux d'authentification avant la " +
+                                "mise à jour.",
+                            message: "Flux d'authentification non valide"
+                        }
+                    },
                     regenerateSecret: {
                         error: {
                             description: "{{description}}",
@@ -2496,6 +2847,13 @@ export const console: ConsoleNS = {
                             message: "Mise à jour réussie"
                         }
                     },
+                    updateAuthenticationScript: {
+                        error: {
+                            description: "Le script d'authentification adaptative contient des erreurs. Corrigez " +
+                                "les problèmes signalés dans l'éditeur de script et réessayez.",
+                            message: "Script invalide"
+                        }
+                    },
                     updateClaimConfig: {
                         error: {
                             description: "{{description}}",
@@ -2726,7 +3084,9 @@ export const console: ConsoleNS = {
                     addAuthenticator: "Ajouter un authentificateur",
                     addCertificate: "Ajouter un certificat",
                     addConnector: "Ajouter un connecteur",
-                    addIDP: "Nouveau fournisseur d'identité"
+                    addIDP: "Nouveau fournisseur d'identité",
+                    exportIDP: "Exporter",
+                    importIDP: "Importer depuis un fichier"
                 },
                 confirmations: {
                     deleteAuthenticator: {
@@ -3115,6 +3475,20 @@ export const console: ConsoleNS = {
                             message: ""
                         }
                     },
+                    exportIDP: {
+                        error: {
+                            description: "{{description}}",
+                            message: "Erreur d'exportation"
+                        },
+                        genericError: {
+                            description: "Une erreur s'est produite lors de l'exportation du fournisseur d'identité.",
+                            message: "Erreur d'exportation"
+                        },
+                        success: {
+                            description: "Le fournisseur d'identité a été exporté avec succès.",
+                            message: "Exportation réussie"
+                        }
+                    },
                     getAllLocalClaims: {
                         error: {
                             description: "{{ description }}",
@@ -3537,6 +3911,61 @@ export const console: ConsoleNS = {
                             }
                         }
                     },
+                    importIDP: {
+                        buttons: {
+                            import: "Importer"
+                        },
+                        conflicts: {
+                            name: "Un fournisseur d'identité nommé {{name}} existe déjà. Les modifications " +
+                                "ci-dessous sont comparées à celui-ci. Indiquez un autre nom pour importer ce " +
+                                "fournisseur d'identité."
+                        },
+                        diff: {
+                            columns: {
+                                current: "Actuel",
+                                incoming: "Importé",
+                                path: "Attribut",
+                                type: "Modification"
+                            },
+                            empty: "Aucune différence trouvée.",
+                            heading: "Aperçu des modifications",
+                            types: {
+                                added: "Ajouté",
+                                changed: "Modifié",
+                                removed: "Supprimé"
+                            }
+                        },
+                        fields: {
+                            name: {
+                                label: "Nom",
+                                placeholder: "Saisissez un nom pour le fournisseur d'identité",
+                                validations: {
+                                    empty: "Le nom du fournisseur d'identité est obligatoire."
+                                }
+                            }
+                        },
+                        filePicker: {
+                            dropzoneText: "Glissez et déposez ici un fichier d'exportation de fournisseur d'identité",
+                            hint: "Sélectionnez un fichier JSON ou YAML exporté depuis la page de modification " +
+                                "d'un fournisseur d'identité.",
+                            pasteAreaPlaceholderText: "Collez le contenu d'un fichier d'exportation de fournisseur " +
+                                "d'identité",
+                            uploadButtonText: "Téléverser un fichier"
+                        },
+                        header: "Importer un fournisseur d'identité",
+                        secrets: {
+                            heading: "Secrets",
+                            hint: "Les propriétés confidentielles ont été supprimées lors de l'exportation. " +
+                                "Indiquez les valeurs pour cet environnement ou laissez-les vides et " +
+                                "configurez-les plus tard.",
+                            placeholder: "Saisissez la valeur secrète"
+                        },
+                        summary: "Exporté le {{date}}.",
+                        validations: {
+                            emptyFile: "Sélectionnez un fichier d'exportation de fournisseur d'identité valide " +
+                                "pour continuer."
+                        }
+                    },
                     buttons: {
                         finish: "Terminer",
                         next: "Suivant",
@@ -3593,6 +4022,29 @@ export const console: ConsoleNS = {
                     action: null,
                     subtitles: "Veuillez ajouter des modèles à afficher ici.",
                     title: "Pas de modèles à afficher."
+                },
+                preview: {
+                    label: "Aperçu"
+                },
+                registry: {
+                    issues: {
+                        description: "Les modèles suivants du registre de modèles ne sont pas valides et ne sont " +
+                            "pas affichés.",
+                        heading: "Certains modèles n'ont pas pu être chargés"
+                    },
+                    notifications: {
+                        fetchRegistry: {
+                            genericError: {
+                                description: "Impossible de charger les modèles depuis le registre de modèles.",
+                                message: "Quelque chose s'est mal passé"
+                            }
+                        },
+                        invalidTemplates: {
+                            description: "{{count}} modèle(s) du registre de modèles ne sont pas valides et ont " +
+                                "été ignorés.",
+                            message: "Modèles non valides"
+                        }
+                    }
                 }
             },
         },
@@ -3719,7 +4171,162 @@ export const console: ConsoleNS = {
                     }
                 }
             },
+            activityLog: {
+                buttons: {
+                    clear: "Vider le journal",
+                    exportCSV: "CSV",
+                    exportJSON: "JSON"
+                },
+                changes: {
+                    currentValue: "Nouvelle valeur",
+                    path: "Attribut",
+                    previousValue: "Valeur précédente"
+                },
+                columns: {
+                    actor: "Effectuée par",
+                    operation: "Opération",
+                    resource: "Ressource",
+                    status: "Statut",
+                    time: "Heure"
+                },
+                confirmations: {
+                    clear: {
+                        assertionHint: "Veuillez confirmer votre action.",
+                        content: "Toutes les activités enregistrées seront supprimées de ce navigateur. Les " +
+                            "activités déjà envoyées au collecteur ne sont pas concernées. Veuillez procéder avec " +
+                            "prudence.",
+                        header: "Êtes-vous sûr ?",
+                        message: "Cette action est irréversible et supprimera définitivement les activités " +
+                            "enregistrées."
+                    }
+                },
+                filters: {
+                    from: {
+                        label: "Du"
+                    },
+                    operation: {
+                        label: "Opération",
+                        placeholder: "Toutes les opérations"
+                    },
+                    resourceType: {
+                        label: "Type de ressource",
+                        placeholder: "Tous les types de ressources"
+                    },
+                    search: {
+                        placeholder: "Rechercher par utilisateur, ressource ou URL"
+                    },
+                    to: {
+                        label: "Au"
+                    }
+                },
+                notifications: {
+                    clearEntries: {
+                        genericError: {
+                            description: "Une erreur s'est produite lors de la suppression du journal d'activité.",
+                            message: "Quelque chose s'est mal passé"
+                        },
+                        success: {
+                            description: "Le journal d'activité a été vidé avec succès.",
+                            message: "Journal d'activité vidé"
+                        }
+                    },
+                    getEntries: {
+                        genericError: {
+                            description: "Une erreur s'est produite lors de la récupération du journal d'activité.",
+                            message: "Quelque chose s'est mal passé"
+                        }
+                    }
+                },
+                operations: {
+                    create: "Création",
+                    delete: "Suppression",
+                    update: "Mise à jour"
+                },
+                placeholders: {
+                    emptyChanges: "Aucune modification d'attribut n'a été enregistrée pour cette activité.",
+                    emptyList: {
+                        subtitles: "Les modifications apportées aux ressources via la console seront listées ici.",
+                        title: "Aucune activité enregistrée"
+                    },
+                    emptySearchResults: {
+                        subtitles: "Essayez de modifier les filtres ou la recherche.",
+                        title: "Aucune activité correspondante"
+                    }
+                },
+                resourceTypes: {
+                    application: "Application",
+                    certificate: "Certificat",
+                    claim: "Attribut",
+                    claimDialect: "Dialecte d'attributs",
+                    emailTemplate: "Modèle d'e-mail",
+                    governanceConnector: "Configuration du serveur",
+                    group: "Groupe",
+                    identityProvider: "Fournisseur d'identité",
+                    oidcScope: "Scope OIDC",
+                    other: "Autre",
+                    role: "Rôle",
+                    user: "Utilisateur",
+                    userstore: "Annuaire d'utilisateurs"
+                },
+                status: {
+                    failure: "Échec ({{status}})",
+                    success: "Réussie"
+                }
+            },
             approvals: {
+                inbox: {
+                    actions: {
+                        approve: "Approuver ({{count}})",
+                        claim: "Réclamer ({{count}})",
+                        clear: "Effacer la sélection",
+                        compare: "Comparer",
+                        reject: "Rejeter ({{count}})",
+                        release: "Libérer ({{count}})",
+                        selectAll: "Tout sélectionner ({{count}})"
+                    },
+                    age: {
+                        days: "{{count}} j",
+                        hours: "{{count}} h"
+                    },
+                    confirmations: {
+                        approve: "{{count}} tâche(s) seront approuvées et les modifications demandées seront " +
+                            "appliquées.",
+                        header: "Êtes-vous sûr ?",
+                        message: "Cette action est irréversible.",
+                        reject: "{{count}} tâche(s) seront rejetées et les modifications demandées seront abandonnées."
+                    },
+                    filters: {
+                        createdFrom: {
+                            label: "Créée à partir du"
+                        },
+                        createdTo: {
+                            label: "Créée jusqu'au"
+                        },
+                        initiators: {
+                            label: "Initiateur",
+                            placeholder: "Tous les initiateurs"
+                        },
+                        taskTypes: {
+                            label: "Type de tâche",
+                            placeholder: "Tous les types de tâches"
+                        }
+                    },
+                    selected: "{{count}} sélectionnée(s)",
+                    sla: {
+                        label: "SLA : {{count}} heures",
+                        option: "{{count}} heures",
+                        statuses: {
+                            atRisk: "Risque de dépassement du SLA",
+                            breached: "SLA dépassé",
+                            onTrack: "Dans les délais du SLA"
+                        }
+                    },
+                    sortOptions: {
+                        created: "Date de création",
+                        priority: "Priorité",
+                        subject: "Sujet"
+                    }
+                },
                 list: {
                     columns: {
                         actions: "Actions",
@@ -3727,12 +4334,29 @@ export const console: ConsoleNS = {
                     }
                 },
                 modals: {
+                    comparison: {
+                        description: "Comparez côte à côte les modifications demandées par les tâches sélectionnées.",
+                        empty: "Les tâches sélectionnées n'ont aucun paramètre demandé.",
+                        header: "Comparer les tâches d'approbation",
+                        parameter: "Paramètre"
+                    },
                     taskDetails: {
                         header: "Tâche d'approbation",
                         description: "Vous avez une demande d'approbation d'une action opérationnelle d'un utilisateur.",
                     }
                 },
                 notifications: {
+                    bulkUpdatePendingApprovals: {
+                        error: {
+                            description: "{{updated}} tâche(s) ont été mises à jour et {{failed}} tâche(s) n'ont " +
+                                "pas pu être mises à jour.",
+                            message: "Certaines tâches n'ont pas été mises à jour"
+                        },
+                        success: {
+                            description: "{{updated}} tâche(s) ont été mises à jour avec succès.",
+                            message: "Tâches mises à jour avec succès"
+                        }
+                    },
                     fetchApprovalDetails: {
                         error: {
                             description: "{{description}}",
@@ -3807,6 +4431,51 @@ export const console: ConsoleNS = {
                 }
             },
             certificates: {
+                expiryDashboard: {
+                    expiredAgo: "Expiré depuis {{count}} jour(s)",
+                    expiresIn: "Expire dans {{count}} jour(s)",
+                    heading: "État des certificats",
+                    placeholder: "Aucun certificat n'expire dans les {{days}} jours.",
+                    statuses: {
+                        expired: "Expiré",
+                        expiring: "Expire bientôt",
+                        notYetValid: "Pas encore valide",
+                        valid: "Valide"
+                    },
+                    subHeading: "Certificats expirés ou qui expirent dans le nombre de jours sélectionné.",
+                    threshold: {
+                        label: "Expire dans",
+                        option: "{{days}} jours"
+                    },
+                    unreadable: "{{count}} certificat(s) n'ont pas pu être analysés."
+                },
+                insights: {
+                    chain: {
+                        error: "Impossible de récupérer le truststore pour valider la chaîne de certificats.",
+                        label: "Chaîne de certificats",
+                        trusted: "Approuvé",
+                        untrusted: "Non approuvé"
+                    },
+                    expiry: "Expiration",
+                    extendedKeyUsage: "Utilisation étendue de la clé",
+                    fingerprints: {
+                        sha1: "Empreinte SHA-1",
+                        sha256: "Empreinte SHA-256"
+                    },
+                    issues: {
+                        expired: "{{name}} a expiré.",
+                        incompleteChain: "L'émetteur de {{name}} est introuvable dans le truststore.",
+                        invalidSignature: "La signature de {{name}} n'est pas valide.",
+                        missingExtendedKeyUsage: "Il manque à {{name}} une utilisation étendue de la clé requise.",
+                        missingKeyUsage: "Il manque à {{name}} une utilisation de la clé requise.",
+                        notACA: "{{name}} n'est pas autorisé à émettre des certificats.",
+                        notYetValid: "{{name}} n'est pas encore valide.",
+                        untrustedRoot: "Le certificat racine {{name}} n'est pas dans le truststore.",
+                        unverifiableSignature: "L'algorithme de signature de {{name}} n'est pas pris en charge."
+                    },
+                    keyUsage: "Utilisation de la clé",
+                    unrestricted: "Non restreinte"
+                },
                 keystore: {
                     advancedSearch: {
                         error: "Le format de la requête est incorrect",
@@ -3843,11 +4512,18 @@ export const console: ConsoleNS = {
                     errorCertificate: "Une erreur s'est produite lors de l'ouverture du certificat"
                         + " Veuillez vous assurer que le certificat est valide.",
                     errorEmpty: "Ajoutez un fichier de certificat ou collez le contenu d'un certificat au format PEM.",
+                    errorJwks: "Le JWKS ne contient aucun certificat X.509.",
+                    errorPkcs12InvalidPassword: "Impossible d'ouvrir le fichier PKCS#12 avec le mot de passe fourni.",
+                    errorPkcs12Password: "Saisissez le mot de passe du fichier PKCS#12 pour continuer.",
                     forms: {
                         alias: {
                             label: "Alias",
                             placeholder: "Saisir un alias",
                             requiredErrorMessage: "L'alias est obligatoire"
+                        },
+                        password: {
+                            label: "Mot de passe",
+                            placeholder: "Saisir le mot de passe du fichier PKCS#12"
                         }
                     },
                     list: {
@@ -3950,7 +4626,9 @@ export const console: ConsoleNS = {
                         steps: {
                             summary: "Résumé",
                             upload: "Charger un certificat"
-                        }
+                        },
+                        supportedFormats: "Formats pris en charge : PEM, DER, PKCS#12 (.p12, .pfx) et JWKS.",
+                        unlock: "Ouvrir"
                     }
                 },
                 truststore: {
@@ -4573,6 +5251,7 @@ export const console: ConsoleNS = {
                     createTemplateType: "Créer un type de modèle",
                     deleteTemplate: "Supprimer le modèle",
                     editTemplate: "Modifier le modèle",
+                    localeStatus: "Statut des langues",
                     newType: "Nouveau type de modèle"
                 },
                 confirmations: {
@@ -4721,6 +5400,21 @@ export const console: ConsoleNS = {
                     actions: "Actions",
                     name: "Nom"
                 },
+                localeMatrix: {
+                    heading: "Statut des langues",
+                    hints: {
+                        extra: "Utilise des espaces réservés absents de la langue par défaut : {{placeholders}}.",
+                        missing: "Espaces réservés de la langue par défaut manquants : {{placeholders}}."
+                    },
+                    status: {
+                        default: "Par défaut",
+                        missing: "Manquant",
+                        outdated: "Obsolète",
+                        upToDate: "À jour"
+                    },
+                    subHeading: "Les langues de chaque type de modèle comparées à la langue par défaut. " +
+                        "Sélectionnez un statut pour ouvrir le modèle."
+                },
                 notifications: {
                     createTemplate: {
                         error: {
@@ -4750,6 +5444,12 @@ export const console: ConsoleNS = {
                             message: "Modèle d'e-mail supprimé avec succès"
                         }
                     },
+                    getLocaleStatus: {
+                        genericError: {
+                            description: "Une erreur s'est produite lors de la récupération des modèles de langue.",
+                            message: "Quelque chose s'est mal passé"
+                        }
+                    },
                     getTemplateDetails: {
                         error: {
                             description: "{{description}}",
@@ -4810,6 +5510,19 @@ export const console: ConsoleNS = {
                         title: "Ajouter un modèle"
                     }
                 },
+                templatePlaceholders: {
+                    copied: "Copié !",
+                    heading: "Espaces réservés",
+                    hint: "Saisissez {{trigger}} ou appuyez sur Ctrl+Espace dans l'éditeur de code pour insérer un " +
+                        "espace réservé. Cliquez sur un espace réservé pour le copier. Les espaces réservés en " +
+                        "surbrillance sont obligatoires.",
+                    sample: "Valeur d'exemple : {{value}}",
+                    validations: {
+                        heading: "Vérifiez les espaces réservés du modèle",
+                        missing: "Les espaces réservés obligatoires ne sont pas utilisés : {{placeholders}}",
+                        unknown: "Les espaces réservés inconnus ne seront pas remplacés : {{placeholders}}"
+                    }
+                },
                 viewTemplate: {
                     heading: "Aperçu du modèle d'e-mail"
                 }
@@ -4828,7 +5541,49 @@ export const console: ConsoleNS = {
                         positiveIntegers: "Le nombre ne doit pas être inférieur à 0."
                     }
                 },
+                history: {
+                    buttons: {
+                        rollback: "Restaurer cette version",
+                        view: "Voir l'historique"
+                    },
+                    columns: {
+                        current: "Version sélectionnée",
+                        previous: "Version comparée",
+                        property: "Propriété"
+                    },
+                    fields: {
+                        compareWith: {
+                            label: "Comparer avec",
+                            placeholder: "Sélectionnez une version à comparer"
+                        }
+                    },
+                    heading: "Historique de {{name}}",
+                    placeholders: {
+                        empty: "Aucune modification n'a encore été enregistrée pour ce connecteur.",
+                        noChanges: "Il n'y a aucune différence entre les versions sélectionnées.",
+                        noComparison: "Il s'agit de la plus ancienne version enregistrée."
+                    },
+                    sources: {
+                        import: "Importée",
+                        initial: "Initiale",
+                        rollback: "Restaurée",
+                        update: "Mise à jour"
+                    },
+                    subHeading: "Consultez les modifications apportées aux paramètres du connecteur et restaurez " +
+                        "une version précédente."
+                },
                 notifications: {
+                    exportSnapshot: {
+                        genericError: {
+                            description: "Une erreur s'est produite lors de l'exportation des paramètres des " +
+                                "connecteurs.",
+                            message: "Quelque chose s'est mal passé"
+                        },
+                        success: {
+                            description: "Les paramètres des connecteurs ont été exportés avec succès.",
+                            message: "Exportation réussie"
+                        }
+                    },
                     getConnector: {
                         error: {
                             description: "{{ description }}",
@@ -4857,6 +5612,35 @@ export const console: ConsoleNS = {
                             message: ""
                         }
                     },
+                    getHistory: {
+                        genericError: {
+                            description: "Une erreur s'est produite lors de la récupération de l'historique du " +
+                                "connecteur.",
+                            message: "Quelque chose s'est mal passé"
+                        }
+                    },
+                    importSnapshot: {
+                        error: {
+                            description: "{{updated}} connecteur(s) ont été mis à jour et {{failed}} connecteur(s) " +
+                                "n'ont pas pu être mis à jour.",
+                            message: "Certains connecteurs n'ont pas été mis à jour"
+                        },
+                        success: {
+                            description: "{{updated}} connecteur(s) ont été mis à jour avec succès.",
+                            message: "Importation réussie"
+                        }
+                    },
+                    rollbackConnector: {
+                        genericError: {
+                            description: "Une erreur s'est produite lors de la restauration des paramètres du " +
+                                "connecteur.",
+                            message: "Quelque chose s'est mal passé"
+                        },
+                        success: {
+                            description: "Les paramètres du connecteur ont été restaurés à la version du {{date}}.",
+                            message: "Restauration réussie"
+                        }
+                    },
                     updateConnector: {
                         error: {
                             description: "{{ description }}",
@@ -4872,8 +5656,32 @@ export const console: ConsoleNS = {
                         }
                     }
                 },
-                pageSubHeading: "Configurer et gérer {{ name }}."
-
+                pageSubHeading: "Configurer et gérer {{ name }}.",
+                snapshot: {
+                    buttons: {
+                        apply: "Appliquer les modifications",
+                        export: "Exporter tous les paramètres",
+                        import: "Importer des paramètres"
+                    },
+                    columns: {
+                        current: "Valeur actuelle",
+                        incoming: "Nouvelle valeur"
+                    },
+                    filePicker: {
+                        dropzoneText: "Glissez et déposez un fichier de paramètres de connecteurs ici.",
+                        hint: "Sélectionnez un fichier de paramètres de connecteurs exporté depuis ce locataire ou " +
+                            "un autre.",
+                        pasteAreaPlaceholderText: "Collez le contenu du fichier de paramètres de connecteurs ici.",
+                        uploadButtonText: "Télécharger le fichier"
+                    },
+                    heading: "Importer les paramètres des connecteurs",
+                    placeholders: {
+                        noChanges: "Les paramètres importés sont identiques aux paramètres actuels."
+                    },
+                    redactedFields: "{{count}} valeur(s) secrète(s) n'ont pas été exportées et resteront inchangées.",
+                    subHeading: "Vérifiez les modifications du fichier de paramètres avant de les appliquer à ce " +
+                        "locataire."
+                }
             },
             groups: {
                 advancedSearch: {
@@ -5610,6 +6418,43 @@ export const console: ConsoleNS = {
                     },
                     placeholder: "Rechercher par nom de rôle"
                 },
+                bulkPermissionEditor: {
+                    buttons: {
+                        apply: "Appliquer",
+                        back: "Retour"
+                    },
+                    fields: {
+                        operation: {
+                            add: "Ajouter des permissions",
+                            label: "Opération",
+                            remove: "Retirer des permissions"
+                        },
+                        roles: {
+                            label: "Rôles",
+                            placeholder: "Sélectionnez les rôles à mettre à jour",
+                            validations: {
+                                empty: "Sélectionnez au moins un rôle."
+                            }
+                        }
+                    },
+                    heading: "Modifier les permissions en masse",
+                    hints: {
+                        add: "Les permissions sélectionnées seront ajoutées à chaque rôle sélectionné. Les " +
+                            "permissions existantes sont conservées.",
+                        remove: "Les permissions sélectionnées et les permissions imbriquées seront retirées de " +
+                            "chaque rôle sélectionné."
+                    },
+                    results: {
+                        error: "Impossible de mettre à jour les permissions du rôle.",
+                        notApplicable: "Le rôle dispose d'une permission parente qui n'a pas pu être restreinte. " +
+                            "Retirez-la à la place.",
+                        success: "Permissions mises à jour."
+                    },
+                    subHeading: "Ajoutez ou retirez un ensemble de permissions de plusieurs rôles à la fois.",
+                    validations: {
+                        emptyPermissions: "Sélectionnez au moins une permission."
+                    }
+                },
                 edit: {
                     basics: {
                         buttons: {
@@ -5658,6 +6503,11 @@ export const console: ConsoleNS = {
                         roles: "Rôles",
                         users: "Utilisateurs"
                     },
+                    permissions: {
+                        buttons: {
+                            export: "Exporter"
+                        }
+                    },
                     users: {
                         list: {
                             emptyPlaceholder: {
@@ -5672,6 +6522,8 @@ export const console: ConsoleNS = {
                 list: {
                     buttons: {
                         addButton: "Nouveau {{type}}",
+                        bulkEditPermissions: "Modifier les permissions en masse",
+                        compare: "Comparer les rôles",
                         filterDropdown: "Filtrer par"
                     },
                     columns: {
@@ -5714,6 +6566,27 @@ export const console: ConsoleNS = {
                     }
                 },
                 notifications: {
+                    bulkUpdatePermissions: {
+                        error: {
+                            description: "{{updated}} rôle(s) ont été mis à jour et {{failed}} rôle(s) n'ont pas " +
+                                "pu être mis à jour.",
+                            message: "Certains rôles n'ont pas été mis à jour"
+                        },
+                        success: {
+                            description: "Les permissions de {{updated}} rôle(s) ont été mises à jour avec succès.",
+                            message: "Permissions mises à jour avec succès"
+                        }
+                    },
+                    copyPermissions: {
+                        genericError: {
+                            description: "Impossible de copier les permissions.",
+                            message: "Quelque chose s'est mal passé"
+                        },
+                        success: {
+                            description: "Les permissions ont été copiées vers {{role}} avec succès.",
+                            message: "Permissions copiées avec succès"
+                        }
+                    },
                     createPermission: {
                         error: {
                             description: "{{description}}",
@@ -5756,6 +6629,12 @@ export const console: ConsoleNS = {
                             message: "Rôle supprimé avec succès"
                         }
                     },
+                    fetchPermissions: {
+                        genericError: {
+                            description: "Une erreur s'est produite lors de la récupération des permissions des rôles.",
+                            message: "Quelque chose s'est mal passé"
+                        }
+                    },
                     fetchRoles: {
                         genericError: {
                             description: "Une erreur s'est produite lors de la récupération des rôles.",
@@ -5776,6 +6655,39 @@ export const console: ConsoleNS = {
                             message: "Rôle mis à jour avec succès"
                         }
                     }
+                },
+                permissionDiff: {
+                    buttons: {
+                        copy: "Copier les permissions vers {{target}}"
+                    },
+                    columns: {
+                        added: "Uniquement dans {{role}}",
+                        common: "Dans les deux rôles",
+                        removed: "Uniquement dans {{role}}"
+                    },
+                    confirmations: {
+                        copy: {
+                            content: "Les permissions de {{target}} seront remplacées par celles de {{source}}. " +
+                                "Veuillez procéder avec prudence.",
+                            header: "Êtes-vous sûr ?",
+                            message: "Cette action écrasera les permissions existantes du rôle."
+                        }
+                    },
+                    fields: {
+                        baseRole: {
+                            label: "Rôle de base",
+                            placeholder: "Sélectionnez un rôle"
+                        },
+                        comparedRole: {
+                            label: "Rôle comparé",
+                            placeholder: "Sélectionnez un rôle à comparer"
+                        }
+                    },
+                    heading: "Comparer les rôles",
+                    placeholders: {
+                        empty: "Aucune permission"
+                    },
+                    subHeading: "Comparez côte à côte les permissions attribuées à deux rôles."
                 }
             },
             serverConfigs: {
@@ -5851,6 +6763,7 @@ export const console: ConsoleNS = {
                 }
             },
             sidePanel: {
+                activityLog: "Activité",
                 addEmailTemplate: "Ajouter un modèle d'e-mail",
                 addEmailTemplateLocale: "Ajouter une langue de modèle d'e-mail",
                 approvals: "Approbations",
@@ -6085,6 +6998,68 @@ export const console: ConsoleNS = {
                             username: "Nom d'utilisateur"
                         }
                     },
+                    bulkImportUserWizard: {
+                        buttons: {
+                            finish: "Terminer",
+                            import: "Importer",
+                            next: "Suivant",
+                            previous: "Précédent"
+                        },
+                        mapping: {
+                            columns: {
+                                attribute: "Attribut",
+                                column: "Colonne",
+                                sample: "Exemple de valeur"
+                            },
+                            hint: "Associez les colonnes du fichier aux attributs utilisateur. Les colonnes non " +
+                                "associées sont ignorées.",
+                            missingRequired: "Les attributs obligatoires suivants ne sont pas associés : " +
+                                "{{attributes}}",
+                            placeholder: "Sélectionnez un attribut"
+                        },
+                        preview: {
+                            columns: {
+                                errors: "Erreurs",
+                                row: "Ligne",
+                                status: "Statut",
+                                username: "Nom d'utilisateur"
+                            },
+                            summary: "{{valid}} ligne(s) sur {{total}} sont valides et seront importées."
+                        },
+                        results: {
+                            inProgress: "Import des utilisateurs. {{processed}} sur {{total}} traité(s).",
+                            summary: "{{success}} utilisateur(s) importé(s) et {{failed}} en échec."
+                        },
+                        rowErrors: {
+                            duplicateUsername: "Le nom d'utilisateur est déjà utilisé à la ligne {{detail}}.",
+                            importFailed: "{{detail}}",
+                            invalidAttributeValue: "La valeur de {{attribute}} est invalide.",
+                            missingEmail: "Un e-mail est requis pour inviter un utilisateur sans mot de passe.",
+                            missingRequiredAttribute: "{{attribute}} est obligatoire.",
+                            missingUsername: "Le nom d'utilisateur est obligatoire."
+                        },
+                        status: {
+                            failed: "Échec",
+                            invalid: "Invalide",
+                            success: "Importé",
+                            valid: "Valide"
+                        },
+                        steps: {
+                            mapping: "Association des attributs",
+                            preview: "Aperçu",
+                            results: "Résultats",
+                            upload: "Téléversement"
+                        },
+                        subTitle: "Suivez les étapes pour importer des utilisateurs depuis un fichier CSV ou JSON",
+                        title: "Importer des utilisateurs",
+                        upload: {
+                            dropzoneText: "Glissez et déposez un fichier CSV ou JSON ici.",
+                            hint: "La première ligne d'un fichier CSV doit contenir les noms des colonnes. Un " +
+                                "fichier JSON doit contenir un tableau d'utilisateurs.",
+                            pasteAreaPlaceholderText: "Collez le contenu CSV ou JSON dans cette zone...",
+                            uploadButtonText: "Téléverser un fichier"
+                        }
+                    },
                     changePasswordModal: {
                         button: "réinitialiser le mot de passe",
                         header: "Réinitialiser le mot de passe de l'utilisateur",
@@ -6579,6 +7554,8 @@ export const console: ConsoleNS = {
                 buttons: {
                     addNewUserBtn: "Nouvel Utilisateur",
                     assignUserRoleBtn: "Assigner un rôle",
+                    exportUsersBtn: "Exporter",
+                    importUsersBtn: "Importer",
                     metaColumnBtn: "Champs"
                 },
                 confirmations: {
@@ -6638,6 +7615,20 @@ export const console: ConsoleNS = {
                             message: "Ajout d'utilisateur réussi"
                         }
                     },
+                    bulkImportUsers: {
+                        error: {
+                            description: "{{description}}",
+                            message: "Erreur lors de l'import des utilisateurs"
+                        },
+                        genericError: {
+                            description: "Impossible d'importer les utilisateurs.",
+                            message: "Quelque chose s'est mal passé"
+                        },
+                        success: {
+                            description: "{{count}} utilisateur(s) importé(s) avec succès.",
+                            message: "Utilisateurs importés avec succès"
+                        }
+                    },
                     deleteUser: {
                         error: {
                             description: "{{description}}",
@@ -6652,6 +7643,20 @@ export const console: ConsoleNS = {
                             message: "Suppression d'utilisateur réussie"
                         }
                     },
+                    exportUsers: {
+                        error: {
+                            description: "{{description}}",
+                            message: "Erreur lors de l'export des utilisateurs"
+                        },
+                        genericError: {
+                            description: "Impossible d'exporter les utilisateurs.",
+                            message: "Quelque chose s'est mal passé"
+                        },
+                        success: {
+                            description: "{{count}} utilisateur(s) exporté(s) avec succès.",
+                            message: "Utilisateurs exportés avec succès"
+                        }
+                    },
                     fetchUsers: {
                         error: {
                             description: "{{description}}",
@@ -6840,6 +7845,61 @@ export const console: ConsoleNS = {
                             "Procéder avec prudence."
                     }
                 },
+                diagnostics: {
+                    buttons: {
+                        run: "Lancer le diagnostic"
+                    },
+                    columns: {
+                        details: "Détails",
+                        duration: "Durée",
+                        status: "Statut",
+                        step: "Étape"
+                    },
+                    heading: "Diagnostic",
+                    hint: "Les sondes sont en lecture seule et utilisent la configuration enregistrée de " +
+                        "l'annuaire. Mettez à jour l'annuaire avant de lancer le diagnostic pour vérifier les " +
+                        "modifications.",
+                    results: {
+                        count: "{{count}} résultat(s) renvoyé(s).",
+                        duration: "{{duration}} ms"
+                    },
+                    status: {
+                        failed: "Échec",
+                        passed: "Réussi",
+                        skipped: "Ignoré"
+                    },
+                    steps: {
+                        connection: {
+                            description: "Se connecte à l'annuaire avec les propriétés de connexion.",
+                            failed: "Impossible de se connecter à l'annuaire.",
+                            name: "Connexion",
+                            passed: "Connexion à l'annuaire réussie.",
+                            skipped: "La connexion ne peut être testée que pour les annuaires JDBC."
+                        },
+                        groupMembership: {
+                            description: "Recherche les groupes du premier utilisateur.",
+                            failed: "Impossible de rechercher les groupes de l'utilisateur.",
+                            name: "Recherche des groupes",
+                            passed: "Les groupes de l'utilisateur ont été trouvés.",
+                            skipped: "Aucun utilisateur dont rechercher les groupes."
+                        },
+                        listUsers: {
+                            description: "Liste les utilisateurs avec le filtre de liste des utilisateurs.",
+                            failed: "Impossible de lister les utilisateurs.",
+                            name: "Lister les utilisateurs",
+                            passed: "Les utilisateurs ont été listés."
+                        },
+                        searchFilter: {
+                            description: "Recherche le premier utilisateur par son nom avec le filtre de recherche.",
+                            failed: "Le filtre de recherche n'a pas renvoyé l'utilisateur listé.",
+                            name: "Filtre de recherche",
+                            passed: "L'utilisateur a été trouvé.",
+                            skipped: "Aucun utilisateur à rechercher."
+                        }
+                    },
+                    subHeading: "Testez la connexion et lancez une série de sondes en lecture seule sur l'annuaire " +
+                        "pour détecter les problèmes de configuration."
+                },
                 forms: {
                     connection: {
                         connectionErrorMessage: "Veuillez vérifier les informations de connexion "
@@ -6949,6 +8009,7 @@ export const console: ConsoleNS = {
                         description: "Modifier l'annuaire",
                         tabs: {
                             connection: "Connexion",
+                            diagnostics: "Diagnostic",
                             general: "Général",
                             group: "Groupes",
                             user: "Utilisateurs"
@@ -6988,7 +8049,21 @@ export const console: ConsoleNS = {
                     read: "Lecture",
                     reset: "Réinitialiser",
                     title: "Types de requêtes SQL",
-                    update: "Mise à jour"
+                    update: "Mise à jour",
+                    validations: {
+                        emptyQuery: "La requête est vide.",
+                        heading: "Problèmes dans la requête",
+                        missingNamedPlaceholder: "Le paramètre {{placeholder}} de la requête par défaut n'est pas " +
+                            "utilisé.",
+                        multipleStatements: "Une seule instruction est autorisée dans la requête.",
+                        placeholderCountMismatch: "La requête contient {{found}} paramètre(s) alors que " +
+                            "{{expected}} valeur(s) y sont liées.",
+                        statementTypeMismatch: "La requête doit être une instruction {{expected}}.",
+                        unbalancedParentheses: "Les parenthèses de la requête ne sont pas équilibrées.",
+                        unknownNamedPlaceholder: "Aucune valeur n'est liée au paramètre {{placeholder}}.",
+                        unknownStatement: "{{statement}} n'est pas une instruction SQL prise en charge.",
+                        unterminatedString: "Une chaîne de la requête n'est pas terminée."
+                    }
                 },
                 wizard: {
                     header: "Ajouter un annuaire {{type}}",
@@ -7046,6 +8121,10 @@ export const console: ConsoleNS = {
             }
         },
         pages: {
+            activityLog: {
+                subTitle: "Consultez les modifications effectuées via la console",
+                title: "Activité"
+            },
             addEmailTemplate: {
                 backButton: "Revenir au modèle {{name}}",
                 subTitle: null,
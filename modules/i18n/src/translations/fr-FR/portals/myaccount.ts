@@ -166,6 +166,7 @@ export const myAccount: MyAccountNS = {
             hints: {
                 querySearch: {
                     actionKeys: "Maj + Entrée",
+                    invalid: "La requête est invalide près de la position {{position}}.",
                     label: "Chercher en tant que requête"
                 }
             },
@@ -602,6 +603,42 @@ export const myAccount: MyAccountNS = {
                     }
                 }
             },
+            backupCode: {
+                actions: {
+                    generate: "Générer des codes"
+                },
+                description: "Utilisez des codes de secours à usage unique pour vous connecter lorsque vous ne " +
+                    "pouvez pas utiliser vos autres facteurs.",
+                heading: "Codes de secours",
+                hint: "Générer de nouveaux codes",
+                list: {
+                    description: "Conservez ces codes en lieu sûr. Chaque code ne peut être utilisé qu'une seule " +
+                        "fois et les codes ne seront plus affichés.",
+                    heading: "Vos codes de secours",
+                    print: "Imprimer"
+                },
+                modals: {
+                    generate: "Générez un ensemble de codes à usage unique pour vous connecter lorsque vous ne " +
+                        "pouvez pas utiliser vos autres facteurs.",
+                    heading: "Codes de secours",
+                    regenerate: "Vos codes de secours actuels cesseront de fonctionner dès que de nouveaux codes " +
+                        "seront générés."
+                },
+                notGenerated: "Vous n'avez encore généré aucun code de secours.",
+                notifications: {
+                    generateError: {
+                        error: {
+                            description: "{{error}}",
+                            message: "Quelque chose s'est mal passé"
+                        },
+                        genericError: {
+                            description: "Une erreur s'est produite lors de la génération des codes de secours",
+                            message: "Quelque chose s'est mal passé"
+                        }
+                    }
+                },
+                remaining: "{{count}} codes de secours inutilisés restants."
+            },
             fido: {
                 description: "Authentifiez-vous à l'aide un dispositif biométrique ou dispositif FIDO",
                 form: {
@@ -666,6 +703,35 @@ export const myAccount: MyAccountNS = {
                 },
                 tryButton: "Essayez avec un dispositif moins récent"
             },
+            setupWizard: {
+                factors: {
+                    fido: {
+                        description: "Utilisez une clé de sécurité ou la biométrie de votre appareil.",
+                        heading: "Clé de sécurité/Biométrie"
+                    },
+                    totp: {
+                        description: "Utilisez un code généré par une application d'authentification sur votre " +
+                            "téléphone.",
+                        heading: "Application d'authentification"
+                    }
+                },
+                heading: "Sécurisez votre compte",
+                steps: {
+                    backupCodes: {
+                        description: "Générez des codes de secours afin de pouvoir vous connecter si vous perdez " +
+                            "l'accès à votre second facteur.",
+                        enrolled: "Le second facteur a été ajouté à votre compte.",
+                        heading: "Codes de secours"
+                    },
+                    enroll: {
+                        fido: "Cliquez sur enregistrer et suivez les instructions de votre navigateur pour " +
+                            "enregistrer une clé de sécurité ou la biométrie de votre appareil."
+                    },
+                    selectFactor: {
+                        heading: "Choisissez un second facteur"
+                    }
+                }
+            },
             smsOtp: {
                 descriptions: {
                     hint: "Vous recevrez un SMS contenant un code de vérification à usage unique"
@@ -1192,6 +1258,9 @@ export const myAccount: MyAccountNS = {
             urlUpdateHeader: "Entrez l'URL d'une image pour mettre à jour votre image de profil"
         },
         userSessions: {
+            actions: {
+                terminateOthers: "Se déconnecter partout ailleurs"
+            },
             browserAndOS: "{{browser}} sur {{os}} {{version}}",
             dangerZones: {
                 terminate: {
@@ -1200,6 +1269,23 @@ export const myAccount: MyAccountNS = {
                     subheader: "L'accès à votre compte depuis cet appareil sera supprimé."
                 }
             },
+            deviceGroups: {
+                actions: {
+                    hideActivity: "Masquer l'activité",
+                    showActivity: "Afficher l'activité"
+                },
+                currentDevice: "Cet appareil",
+                summary: "{{count}} session(s) active(s), dernière activité {{date}}",
+                timeline: {
+                    applications: "Applications : {{applications}}",
+                    lastAccess: "Dernière activité",
+                    login: "Connexion"
+                },
+                unusualDevice: "Nouvel appareil",
+                unusualDeviceHint: "{{browser}} sur {{os}} a été utilisé pour la première fois pour se connecter à " +
+                    "votre compte le {{date}}. Si vous ne le reconnaissez pas, mettez fin à ses sessions et " +
+                    "changez votre mot de passe."
+            },
             lastAccessed: "Dernier accès il y a {{date}}",
             modals: {
                 terminateAllUserSessionsModal: {
@@ -1208,6 +1294,14 @@ export const myAccount: MyAccountNS = {
                         "Cette action supprimera l'accès à votre compte depuis tous les appareils. " +
                         "Souhaitez-vous continuer ?"
                 },
+                terminateOtherUserSessionsModal: {
+                    currentBrowserSessions: "{{count}} d'entre elles proviennent de ce navigateur et seront " +
+                        "également terminées.",
+                    heading: "Confirmation",
+                    message: "Cette action vous déconnectera de toutes les autres sessions. Voulez-vous continuer ?",
+                    unidentifiedSession: "La session actuelle n'a pas pu être identifiée. Les {{count}} session(s) " +
+                        "de ce navigateur, y compris la session actuelle, seront donc conservées."
+                },
                 terminateUserSessionModal: {
                     heading: "Confirmation",
                     message:
@@ -1244,6 +1338,16 @@ export const myAccount: MyAccountNS = {
                         message: "Fermeture de toutes les sessions authentifiées"
                     }
                 },
+                terminateOtherUserSessions: {
+                    error: {
+                        description: "{{failed}} sessions sur {{total}} n'ont pas pu être terminées.",
+                        message: "Impossible de mettre fin à certaines sessions"
+                    },
+                    success: {
+                        description: "{{count}} autre(s) session(s) ont été terminées avec succès.",
+                        message: "Les autres sessions ont été terminées"
+                    }
+                },
                 terminateUserSession: {
                     error: {
                         description: "{{description}}",
@@ -1475,6 +1579,9 @@ export const myAccount: MyAccountNS = {
             heading: "Comptes associés"
         },
         mfa: {
+            actionTitles: {
+                setup: "Sécurisez votre compte"
+            },
             description:
                 "Renforcez la protection de votre compte en configurant plusieurs " +
                 "étapes d'authentification.",
@@ -16,6 +16,7 @@
  * under the License.
  */
 
+export * from "./ar-SA";
 export * from "./en-US";
 export * from "./fr-FR";
 export * from "./pt-BR";
@@ -166,6 +166,7 @@ export const myAccount: MyAccountNS = {
             hints: {
                 querySearch: {
                     actionKeys: "Shift + Enter",
+                    invalid: "A consulta é inválida perto da posição {{position}}.",
                     label: "Para pesquisar como uma consulta"
                 }
             },
@@ -599,6 +600,42 @@ export const myAccount: MyAccountNS = {
                     }
                 }
             },
+            backupCode: {
+                actions: {
+                    generate: "Gerar códigos"
+                },
+                description: "Use códigos de backup de uso único para entrar quando não puder usar seus outros " +
+                    "fatores.",
+                heading: "Códigos de backup",
+                hint: "Gerar novos códigos",
+                list: {
+                    description: "Guarde estes códigos em um lugar seguro. Cada código pode ser usado apenas uma " +
+                        "vez e os códigos não serão exibidos novamente.",
+                    heading: "Seus códigos de backup",
+                    print: "Imprimir"
+                },
+                modals: {
+                    generate: "Gere um conjunto de códigos de uso único para entrar quando não puder usar seus " +
+                        "outros fatores.",
+                    heading: "Códigos de backup",
+                    regenerate: "Seus códigos de backup atuais deixarão de funcionar quando novos códigos forem " +
+                        "gerados."
+                },
+                notGenerated: "Você ainda não gerou nenhum código de backup.",
+                notifications: {
+                    generateError: {
+                        error: {
+                            description: "{{error}}",
+                            message: "Algo deu errado"
+                        },
+                        genericError: {
+                            description: "Ocorreu um erro ao gerar os códigos de backup",
+                            message: "Algo deu errado"
+                        }
+                    }
+                },
+                remaining: "{{count}} códigos de backup não utilizados restantes."
+            },
             fido: {
                 description: "Autentique-se conectando uma chave FIDO",
                 form: {
@@ -663,6 +700,34 @@ export const myAccount: MyAccountNS = {
                 },
                 tryButton: "Tente com um dispositivo mais antigo"
             },
+            setupWizard: {
+                factors: {
+                    fido: {
+                        description: "Use uma chave de segurança ou a biometria do seu dispositivo.",
+                        heading: "Chave de segurança/Biometria"
+                    },
+                    totp: {
+                        description: "Use um código gerado por um aplicativo autenticador no seu telefone.",
+                        heading: "Aplicativo autenticador"
+                    }
+                },
+                heading: "Proteja sua conta",
+                steps: {
+                    backupCodes: {
+                        description: "Gere códigos de backup para que você ainda possa entrar se perder o acesso " +
+                            "ao seu segundo fator.",
+                        enrolled: "O segundo fator foi adicionado à sua conta.",
+                        heading: "Códigos de backup"
+                    },
+                    enroll: {
+                        fido: "Clique em registrar e siga as instruções do seu navegador para registrar uma chave " +
+                            "de segurança ou a biometria do seu dispositivo."
+                    },
+                    selectFactor: {
+                        heading: "Escolha um segundo fator"
+                    }
+                }
+            },
             smsOtp: {
                 descriptions: {
                     hint: "Você receberá uma mensagem de texto contendo o código de verificação"
@@ -1174,6 +1239,9 @@ export const myAccount: MyAccountNS = {
             urlUpdateHeader: "Insira um URL da imagem para definir sua foto de perfil"
         },
         userSessions: {
+            actions: {
+                terminateOthers: "Sair de todos os outros lugares"
+            },
             browserAndOS: "{{browser}} no {{os}} {{version}}",
             dangerZones: {
                 terminate: {
@@ -1182,6 +1250,22 @@ export const myAccount: MyAccountNS = {
                     subheader: "Você será desconectado da sessão no dispositivo específico."
                 }
             },
+            deviceGroups: {
+                actions: {
+                    hideActivity: "Ocultar atividade",
+                    showActivity: "Mostrar atividade"
+                },
+                currentDevice: "Este dispositivo",
+                summary: "{{count}} sessão(ões) ativa(s), última atividade {{date}}",
+                timeline: {
+                    applications: "Aplicativos: {{applications}}",
+                    lastAccess: "Última atividade",
+                    login: "Conectado"
+                },
+                unusualDevice: "Novo dispositivo",
+                unusualDeviceHint: "{{browser}} no {{os}} foi usado pela primeira vez para entrar na sua conta em " +
+                    "{{date}}. Se você não o reconhece, encerre as sessões dele e altere sua senha."
+            },
             lastAccessed: "Último acesso {{date}}",
             modals: {
                 terminateAllUserSessionsModal: {
@@ -1189,6 +1273,13 @@ export const myAccount: MyAccountNS = {
                     message: "Esta ação fará o logout de todas as sessões em todos os dispositivos. Você deseja " +
                         "continuar?"
                 },
+                terminateOtherUserSessionsModal: {
+                    currentBrowserSessions: "{{count}} delas são deste navegador e também serão encerradas.",
+                    heading: "Confirmação",
+                    message: "Esta ação encerrará todas as outras sessões. Você deseja continuar?",
+                    unidentifiedSession: "Não foi possível identificar a sessão atual. Portanto, as {{count}} " +
+                        "sessão(ões) deste navegador, incluindo a atual, serão mantidas."
+                },
                 terminateUserSessionModal: {
                     heading: "Confirmação",
                     message: "Esta ação fará com que você saia da sessão no dispositivo específico. Você deseja " +
@@ -1224,6 +1315,16 @@ export const myAccount: MyAccountNS = {
                         message: "Terminou todas as sessões do IDP"
                     }
                 },
+                terminateOtherUserSessions: {
+                    error: {
+                        description: "{{failed}} de {{total}} sessões não puderam ser encerradas.",
+                        message: "Não foi possível encerrar algumas sessões"
+                    },
+                    success: {
+                        description: "{{count}} outra(s) sessão(ões) foram encerradas com sucesso.",
+                        message: "As outras sessões foram encerradas"
+                    }
+                },
                 terminateUserSession: {
                     error: {
                         description: "{{description}}",
@@ -1450,6 +1551,9 @@ export const myAccount: MyAccountNS = {
             heading: "Contas Ligadas"
         },
         mfa: {
+            actionTitles: {
+                setup: "Proteja sua conta"
+            },
             description: "Adicione uma camada extra de proteção à sua conta configurando várias etapas de " +
                 "autenticação.",
             heading: "Autenticação Multifatorial"
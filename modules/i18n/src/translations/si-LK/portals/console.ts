@@ -49,6 +49,7 @@ export const console: ConsoleNS = {
             hints: {
                 querySearch: {
                     actionKeys: "Shift + Enter",
+                    invalid: "The query is invalid near position {{position}}.",
                     label: "විමසුමක් ලෙස සෙවීමට"
                 }
             },
@@ -68,6 +69,25 @@ export const console: ConsoleNS = {
                 "සුමට හා පුද්ගලීකරණය කළ සේවාවන් සපයන අතරම අඛණ්ඩ අඛණ්ඩ සැසියක් පවත්වා ගන්න." +
                 "අපි කුකීස් භාවිතා කරන ආකාරය ගැන තව දැනගන්න, අපගේ <1>Cookie Policy</1> එක බලන්න."
         },
+        dataTable: {
+            actions: {
+                export: "Export as CSV",
+                exportPage: "Export the current page as CSV"
+            },
+            filters: {
+                placeholder: "Filter"
+            },
+            hints: {
+                currentPage: "Sorting, filtering and export apply only to the items on the current page."
+            },
+            views: {
+                delete: "Delete view",
+                emptyPlaceholder: "No saved views",
+                header: "Saved Views",
+                namePlaceholder: "View name",
+                save: "Save"
+            }
+        },
         header: {
             appSwitch: {
                 console: {
@@ -493,6 +513,43 @@ export const console: ConsoleNS = {
             },
             applications: {
                 addWizard: {
+                    import: {
+                        buttons: {
+                            back: "Back",
+                            import: "Import",
+                            trigger: "Import from file"
+                        },
+                        conflicts: {
+                            heading: "Review before importing",
+                            identityProviders: "The following identity providers used in the sign-in flow are not " +
+                                "available in this environment: {{idps}}. Create them before importing or update " +
+                                "the sign-in flow after the import.",
+                            name: "An application named {{name}} already exists. Provide a different name.",
+                            redactedFields: "The following secrets were removed during the export and will be " +
+                                "regenerated or need to be configured again: {{fields}}."
+                        },
+                        fields: {
+                            name: {
+                                hint: "Name of the application to be created from the file.",
+                                label: "Name",
+                                placeholder: "Enter a name for the application",
+                                validations: {
+                                    empty: "Application name is required."
+                                }
+                            }
+                        },
+                        filePicker: {
+                            dropzoneText: "Drag and drop an application export file here",
+                            hint: "Select a JSON or YAML file exported from the general settings of an application.",
+                            pasteAreaPlaceholderText: "Paste the content of an application export file",
+                            uploadButtonText: "Upload File"
+                        },
+                        heading: "Import Application",
+                        summary: "Exported on {{date}}.",
+                        validations: {
+                            emptyFile: "Select a valid application export file to continue."
+                        }
+                    },
                     steps: {
                         generalSettings: {
                             heading: "සාමාන්‍ය සැකසුම්"
@@ -840,6 +897,15 @@ export const console: ConsoleNS = {
                             tabName: "තොරතුරු"
                         },
                         general: {
+                            export: {
+                                buttons: {
+                                    json: "Export as JSON",
+                                    yaml: "Export as YAML"
+                                },
+                                heading: "Export Application",
+                                hint: "Download the configuration of this application as a portable file which can " +
+                                    "be imported to another environment. Secrets are not included in the file."
+                            },
                             tabName: "ජනරාල්"
                         },
                         provisioning: {
@@ -909,6 +975,17 @@ export const console: ConsoleNS = {
                                                 }
                                             },
                                             editor: {
+                                                diagnostics: {
+                                                    missingLoginRequestHandler: "The script should define the " +
+                                                        "onLoginRequest function.",
+                                                    syntaxError: "Syntax error: {{message}}",
+                                                    undefinedStep: "Step {{step}} is not defined in the " +
+                                                        "authentication flow. Only steps 1 to {{stepCount}} are " +
+                                                        "available.",
+                                                    unknownAuthenticator: "Unknown authenticator {{name}}.",
+                                                    unknownIdentityProvider: "Unknown identity provider {{name}}.",
+                                                    unusedVariable: "{{name}} is defined but never used."
+                                                },
                                                 resetConfirmation: {
                                                     content: "මෙම ක්‍රියාව අනුවර්තී සත්‍යාපන ස්ක්‍රිප්ට් නැවත" +
                                                         " පෙරනිමියට යලි " +
@@ -916,6 +993,86 @@ export const console: ConsoleNS = {
                                                     heading: "ඔයාට විශ්වාස ද?",
                                                     message: "මෙම ක්‍රියාව ආපසු හැරවිය නොහැක."
                                                 },
+                                                simulator: {
+                                                    actions: {
+                                                        delete: "Delete scenario",
+                                                        new: "New scenario",
+                                                        open: "Simulate script",
+                                                        run: "Run simulation",
+                                                        save: "Save scenario"
+                                                    },
+                                                    fields: {
+                                                        claims: {
+                                                            hint: "Add one claim per line in the claimURI=value " +
+                                                                "format.",
+                                                            label: "Claims",
+                                                            placeholder: "http://wso2.org/claims/country=Sri Lanka"
+                                                        },
+                                                        ip: {
+                                                            label: "IP address",
+                                                            placeholder: "192.168.1.1"
+                                                        },
+                                                        name: {
+                                                            label: "Scenario name",
+                                                            placeholder: "Enter a name for the scenario"
+                                                        },
+                                                        params: {
+                                                            hint: "Add one request parameter per line in the " +
+                                                                "name=value format.",
+                                                            label: "Request parameters",
+                                                            placeholder: "prompt=login"
+                                                        },
+                                                        roles: {
+                                                            label: "Roles",
+                                                            placeholder: "Enter comma separated roles"
+                                                        },
+                                                        scenario: {
+                                                            label: "Saved scenarios",
+                                                            placeholder: "Select a saved scenario",
+                                                            untitled: "Untitled scenario"
+                                                        },
+                                                        stepResult: {
+                                                            label: "Step {{step}} result"
+                                                        },
+                                                        userAgent: {
+                                                            label: "User agent",
+                                                            placeholder: "Mozilla/5.0"
+                                                        },
+                                                        username: {
+                                                            label: "Username",
+                                                            placeholder: "Enter the username"
+                                                        }
+                                                    },
+                                                    heading: "Simulate adaptive script",
+                                                    outcomes: {
+                                                        errorRedirect: "Redirected to the error page {{url}}",
+                                                        failed: "Authentication failed",
+                                                        noSteps: "No steps were executed",
+                                                        scriptError: "Script error: {{error}}",
+                                                        success: "Authentication succeeded",
+                                                        timeout: "The script did not complete in time"
+                                                    },
+                                                    placeholders: {
+                                                        noLogs: "The script did not log any messages.",
+                                                        noResult: "Run the simulation to see the result.",
+                                                        noSteps: "The script did not execute any steps."
+                                                    },
+                                                    sections: {
+                                                        logs: "Log output",
+                                                        request: "Request",
+                                                        result: "Result",
+                                                        steps: "Step results",
+                                                        trace: "Executed steps",
+                                                        user: "User"
+                                                    },
+                                                    stepResults: {
+                                                        fail: "Failed",
+                                                        success: "Succeeded"
+                                                    },
+                                                    subHeading: "Run the script against a mock login to see which " +
+                                                        "steps are executed. Nothing is sent to the server.",
+                                                    traceItem: "Step {{step}}: {{result}}"
+                                                },
                                                 templates: {
                                                     darkMode: "අඳුරු ප්‍රකාරය",
                                                     heading: "සැකිලි"
@@ -986,6 +1143,43 @@ export const console: ConsoleNS = {
                                                     }
                                                 }
                                             },
+                                            graph: {
+                                                branches: {
+                                                    conditional: "Conditional",
+                                                    empty: "The adaptive script doesn't execute the steps from " +
+                                                        "callbacks of other steps.",
+                                                    heading: "Script branches"
+                                                },
+                                                hint: "Drag the steps to reorder them and drag the authenticators " +
+                                                    "between the steps. Select the step to use the subject " +
+                                                    "identifier and the attributes from.",
+                                                labels: {
+                                                    attributes: "Attributes",
+                                                    subject: "Subject"
+                                                },
+                                                nodes: {
+                                                    end: "Success",
+                                                    start: "Start",
+                                                    step: "Step {{step}}"
+                                                },
+                                                validations: {
+                                                    emptyStep: "Step {{step}} doesn't have any authenticators.",
+                                                    handlerWithoutNextStep: "{{authenticator}} only identifies the " +
+                                                        "user. Add a step after step {{step}} to authenticate the " +
+                                                        "user.",
+                                                    heading: "The authentication flow is invalid",
+                                                    invalidAttributeStep: "Select a step to use the attributes from.",
+                                                    invalidSubjectStep: "Select a step to use the subject " +
+                                                        "identifier from.",
+                                                    secondFactorWithoutHandler: "{{authenticator}} in step " +
+                                                        "{{step}} requires Username & Password or Identifier First " +
+                                                        "in a previous step."
+                                                },
+                                                views: {
+                                                    graph: "Graph view",
+                                                    list: "List view"
+                                                }
+                                            },
                                             heading: "පියවර පදනම් කරගත් වින්‍යාසය",
                                             hint: "දේශීය / ෆෙඩරල් සත්‍යාපනය කරන්නන් අදාළ පියවර වෙත ඇදගෙන " +
                                                 "යාමෙන් සත්‍යාපන පියවර සාදන්න.",
@@ -1097,6 +1291,84 @@ export const console: ConsoleNS = {
                                 }
                             },
                             tabName: "පුරනය වීමේ ක්‍රමය"
+                        },
+                        tokenPreview: {
+                            accessToken: {
+                                heading: "Access token",
+                                jwt: "JWT",
+                                opaque: "Opaque",
+                                opaqueHint: "Opaque access tokens don't carry any claims. The following claims are " +
+                                    "returned when the token is introspected."
+                            },
+                            fields: {
+                                applicationToken: {
+                                    hint: "Preview the tokens issued for grants such as client credentials, which " +
+                                        "don't involve a user.",
+                                    label: "Issued to the application"
+                                },
+                                scopes: {
+                                    hint: "Requested attributes are only added to the ID token if they belong to " +
+                                        "one of the requested scopes.",
+                                    label: "Requested scopes",
+                                    placeholder: "Select scopes"
+                                }
+                            },
+                            heading: "Token preview",
+                            idToken: {
+                                encrypted: "Encrypted with {{algorithm}} and {{method}}",
+                                heading: "ID token",
+                                notIssued: "An ID token is only issued to users when the openid scope is requested.",
+                                omittedClaims: {
+                                    description: "The following requested attributes are left out since they don't " +
+                                        "belong to the requested scopes or aren't mapped to an OpenID Connect " +
+                                        "attribute.",
+                                    heading: "Attributes left out"
+                                },
+                                signed: "Signed with {{algorithm}}"
+                            },
+                            inspector: {
+                                actions: {
+                                    verify: "Verify signature"
+                                },
+                                errors: {
+                                    encryptedToken: "The token is encrypted. Only signed tokens can be decoded.",
+                                    invalidKey: "The key is not a valid JWKS, JWK or PEM encoded certificate or " +
+                                        "public key.",
+                                    malformedToken: "The content is not a valid JWT.",
+                                    noMatchingKey: "The JWKS doesn't have a key with the key ID of the token.",
+                                    unsupportedAlgorithm: "Only RS256, RS384, RS512, PS256, PS384 and PS512 " +
+                                        "signatures can be verified."
+                                },
+                                fields: {
+                                    key: {
+                                        hint: "The JWKS of the server is available at the JWKS endpoint listed in " +
+                                            "the Info tab.",
+                                        label: "Verification key",
+                                        placeholder: "Paste a JWKS, JWK or PEM encoded certificate or public key"
+                                    },
+                                    token: {
+                                        label: "Token",
+                                        placeholder: "Paste a JWT"
+                                    }
+                                },
+                                heading: "Token inspector",
+                                results: {
+                                    expired: "The token expired on {{date}}.",
+                                    expiresAt: "The token expires on {{date}}.",
+                                    invalid: "The signature is not valid.",
+                                    valid: "The signature is valid."
+                                },
+                                subHeading: "Decode a token and verify its signature. The token and the key are " +
+                                    "not sent to the server."
+                            },
+                            sections: {
+                                encryptionHeader: "Encryption header",
+                                header: "Header",
+                                payload: "Payload"
+                            },
+                            subHeading: "Sample tokens assembled from the saved protocol and attribute " +
+                                "configurations of the application.",
+                            tabName: "Token Preview"
                         }
                     }
                 },
@@ -1693,6 +1965,57 @@ export const console: ConsoleNS = {
                                 }
                             }
                         },
+                        metadata: {
+                            actions: {
+                                export: "Export IdP metadata",
+                                import: "Import SP metadata"
+                            },
+                            diff: {
+                                columns: {
+                                    current: "Current value",
+                                    incoming: "New value",
+                                    path: "Property"
+                                },
+                                heading: "Changes"
+                            },
+                            export: {
+                                actions: {
+                                    download: "Download"
+                                },
+                                empty: "The form doesn't have unsaved changes.",
+                                heading: "Identity provider metadata",
+                                hint: "This metadata is generated from the saved configuration of the application. " +
+                                    "Changes in the form are reflected once they are saved.",
+                                unavailable: "The identity provider metadata of the tenant couldn't be loaded.",
+                                unsavedChanges: "Unsaved changes"
+                            },
+                            heading: "Metadata",
+                            hint: "Fill the configuration from the SAML metadata of the application or download " +
+                                "the identity provider metadata to configure the application.",
+                            import: {
+                                actions: {
+                                    apply: "Apply"
+                                },
+                                empty: "The metadata doesn't change the current configuration.",
+                                error: "The metadata couldn't be read",
+                                filePicker: {
+                                    dropzoneText: "Drag and drop a metadata XML file here.",
+                                    pasteAreaPlaceholderText: "Paste the service provider metadata XML here...",
+                                    uploadButtonText: "Upload Metadata File"
+                                },
+                                heading: "Import service provider metadata",
+                                hint: "The issuer, assertion consumer URLs, single logout URLs, certificate and " +
+                                    "name ID format are filled from the metadata. Review the changes and save the " +
+                                    "form to apply them.",
+                                issuerMismatch: "The entity ID {{entityId}} in the metadata doesn't match the " +
+                                    "issuer {{issuer}}. The issuer is kept as it is.",
+                                unsupported: {
+                                    description: "The following elements of the metadata can't be mapped to the " +
+                                        "configuration and are ignored.",
+                                    heading: "Unsupported elements"
+                                }
+                            }
+                        },
                         sections: {
                             assertion: {
                                 fields: {
@@ -2213,6 +2536,16 @@ export const console: ConsoleNS = {
                             message: "යාවත්කාලීන දෝෂයකි"
                         }
                     },
+                    exportApplication: {
+                        genericError: {
+                            description: "Couldn't export the application.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "Successfully exported the application.",
+                            message: "Export successful"
+                        }
+                    },
                     fetchAllowedCORSOrigins: {
                         error: {
                             description: "{{description}}",
@@ -2373,6 +2706,12 @@ export const console: ConsoleNS = {
                             message: "නැවත ලබා ගැනීම සාර්ථකයි"
                         }
                     },
+                    invalidAuthenticationFlow: {
+                        genericError: {
+                            description: "Resolve the issues highlighted in the authentication flow before updating.",
+                            message: "Invalid authentication flow"
+                        }
+                    },
                     regenerateSecret: {
                         error: {
                             description: "{{description}}",
@@ -2450,6 +2789,13 @@ export const console: ConsoleNS = {
                             message: "යාවත්කාලීන කිරීම සාර්ථකයි"
                         }
                     },
+                    updateAuthenticationScript: {
+                        error: {
+                            description: "The adaptive authentication script has errors. Fix the highlighted " +
+                                "issues in the script editor and try again.",
+                            message: "Invalid script"
+                        }
+                    },
                     updateClaimConfig: {
                         error: {
                             description: "{{description}}",
@@ -2676,7 +3022,9 @@ export const console: ConsoleNS = {
                     addAuthenticator: "නව සත්‍යාපකය",
                     addCertificate: "නව සහතිකය",
                     addConnector: "නව සම්බන්ධකය",
-                    addIDP: "නව හැඳුනුම්පත් සපයන්නා"
+                    addIDP: "නව හැඳුනුම්පත් සපයන්නා",
+                    exportIDP: "Export",
+                    importIDP: "Import from file"
                 },
                 confirmations: {
                     deleteAuthenticator: {
@@ -3065,6 +3413,20 @@ export const console: ConsoleNS = {
                             message: ""
                         }
                     },
+                    exportIDP: {
+                        error: {
+                            description: "{{description}}",
+                            message: "Export error"
+                        },
+                        genericError: {
+                            description: "An error occurred while exporting the identity provider.",
+                            message: "Export error"
+                        },
+                        success: {
+                            description: "Successfully exported the identity provider.",
+                            message: "Export successful"
+                        }
+                    },
                     getAllLocalClaims: {
                         error: {
                             description: "{{ description }}",
@@ -3488,6 +3850,56 @@ export const console: ConsoleNS = {
                             }
                         }
                     },
+                    importIDP: {
+                        buttons: {
+                            import: "Import"
+                        },
+                        conflicts: {
+                            name: "An identity provider named {{name}} already exists. The changes below are " +
+                                "compared against it. Provide a different name to import this identity provider."
+                        },
+                        diff: {
+                            columns: {
+                                current: "Current",
+                                incoming: "Incoming",
+                                path: "Attribute",
+                                type: "Change"
+                            },
+                            empty: "No differences found.",
+                            heading: "Changes Preview",
+                            types: {
+                                added: "Added",
+                                changed: "Changed",
+                                removed: "Removed"
+                            }
+                        },
+                        fields: {
+                            name: {
+                                label: "Name",
+                                placeholder: "Enter a name for the identity provider",
+                                validations: {
+                                    empty: "Identity provider name is required."
+                                }
+                            }
+                        },
+                        filePicker: {
+                            dropzoneText: "Drag and drop an identity provider export file here",
+                            hint: "Select a JSON or YAML file exported from the edit page of an identity provider.",
+                            pasteAreaPlaceholderText: "Paste the content of an identity provider export file",
+                            uploadButtonText: "Upload File"
+                        },
+                        header: "Import Identity Provider",
+                        secrets: {
+                            heading: "Secrets",
+                            hint: "Confidential properties were removed during the export. Provide the values for " +
+                                "this environment or leave them empty and configure them later.",
+                            placeholder: "Enter the secret value"
+                        },
+                        summary: "Exported on {{date}}.",
+                        validations: {
+                            emptyFile: "Select a valid identity provider export file to continue."
+                        }
+                    },
                     buttons: {
                         finish: "අවසන් කරන්න",
                         next: "ලබන",
@@ -3546,6 +3958,29 @@ export const console: ConsoleNS = {
                     action: null,
                     subtitles: "කරුණාකර මෙහි පෙන්වීමට සැකිලි එක් කරන්න.",
                     title: "පෙන්වීමට සැකිලි නොමැත."
+                },
+                preview: {
+                    label: "Preview"
+                },
+                registry: {
+                    issues: {
+                        description: "The following templates from the template registry are invalid and are not " +
+                            "shown.",
+                        heading: "Some templates could not be loaded"
+                    },
+                    notifications: {
+                        fetchRegistry: {
+                            genericError: {
+                                description: "Couldn't load the templates from the template registry.",
+                                message: "Something went wrong"
+                            }
+                        },
+                        invalidTemplates: {
+                            description: "{{count}} template(s) from the template registry are invalid and were " +
+                                "skipped.",
+                            message: "Invalid templates"
+                        }
+                    }
                 }
             },
         },
@@ -3672,7 +4107,159 @@ export const console: ConsoleNS = {
                     }
                 }
             },
+            activityLog: {
+                buttons: {
+                    clear: "Clear Log",
+                    exportCSV: "CSV",
+                    exportJSON: "JSON"
+                },
+                changes: {
+                    currentValue: "New value",
+                    path: "Attribute",
+                    previousValue: "Previous value"
+                },
+                columns: {
+                    actor: "Performed by",
+                    operation: "Operation",
+                    resource: "Resource",
+                    status: "Status",
+                    time: "Time"
+                },
+                confirmations: {
+                    clear: {
+                        assertionHint: "Please confirm your action.",
+                        content: "All the recorded activities will be removed from this browser. Activities " +
+                            "already sent to the collector are not affected. Please proceed with caution.",
+                        header: "Are you sure?",
+                        message: "This action is irreversible and will permanently delete the recorded activities."
+                    }
+                },
+                filters: {
+                    from: {
+                        label: "From"
+                    },
+                    operation: {
+                        label: "Operation",
+                        placeholder: "All operations"
+                    },
+                    resourceType: {
+                        label: "Resource type",
+                        placeholder: "All resource types"
+                    },
+                    search: {
+                        placeholder: "Search by user, resource or URL"
+                    },
+                    to: {
+                        label: "To"
+                    }
+                },
+                notifications: {
+                    clearEntries: {
+                        genericError: {
+                            description: "An error occurred while clearing the activity log.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "The activity log was cleared successfully.",
+                            message: "Activity log cleared"
+                        }
+                    },
+                    getEntries: {
+                        genericError: {
+                            description: "An error occurred while retrieving the activity log.",
+                            message: "Something went wrong"
+                        }
+                    }
+                },
+                operations: {
+                    create: "Create",
+                    delete: "Delete",
+                    update: "Update"
+                },
+                placeholders: {
+                    emptyChanges: "No attribute changes were recorded for this activity.",
+                    emptyList: {
+                        subtitles: "Changes made to the resources through the console will be listed here.",
+                        title: "No activities recorded yet"
+                    },
+                    emptySearchResults: {
+                        subtitles: "Try changing the filters or the search query.",
+                        title: "No matching activities"
+                    }
+                },
+                resourceTypes: {
+                    application: "Application",
+                    certificate: "Certificate",
+                    claim: "Attribute",
+                    claimDialect: "Attribute dialect",
+                    emailTemplate: "Email template",
+                    governanceConnector: "Server configuration",
+                    group: "Group",
+                    identityProvider: "Identity provider",
+                    oidcScope: "OIDC scope",
+                    other: "Other",
+                    role: "Role",
+                    user: "User",
+                    userstore: "User store"
+                },
+                status: {
+                    failure: "Failed ({{status}})",
+                    success: "Succeeded"
+                }
+            },
             approvals: {
+                inbox: {
+                    actions: {
+                        approve: "Approve ({{count}})",
+                        claim: "Claim ({{count}})",
+                        clear: "Clear selection",
+                        compare: "Compare",
+                        reject: "Reject ({{count}})",
+                        release: "Release ({{count}})",
+                        selectAll: "Select all {{count}}"
+                    },
+                    age: {
+                        days: "{{count}}d old",
+                        hours: "{{count}}h old"
+                    },
+                    confirmations: {
+                        approve: "{{count}} task(s) will be approved and the requested changes will be applied.",
+                        header: "Are you sure?",
+                        message: "This action is irreversible.",
+                        reject: "{{count}} task(s) will be rejected and the requested changes will be discarded."
+                    },
+                    filters: {
+                        createdFrom: {
+                            label: "Created from"
+                        },
+                        createdTo: {
+                            label: "Created to"
+                        },
+                        initiators: {
+                            label: "Initiator",
+                            placeholder: "All initiators"
+                        },
+                        taskTypes: {
+                            label: "Task type",
+                            placeholder: "All task types"
+                        }
+                    },
+                    selected: "{{count}} selected",
+                    sla: {
+                        label: "SLA: {{count}} hours",
+                        option: "{{count}} hours",
+                        statuses: {
+                            atRisk: "At risk of breaching the SLA",
+                            breached: "SLA breached",
+                            onTrack: "Within the SLA"
+                        }
+                    },
+                    sortOptions: {
+                        created: "Created date",
+                        priority: "Priority",
+                        subject: "Subject"
+                    }
+                },
                 list: {
                     columns: {
                         actions: "ක්‍රියා",
@@ -3680,12 +4267,29 @@ export const console: ConsoleNS = {
                     }
                 },
                 modals: {
+                    comparison: {
+                        description: "Compare the changes requested by the selected tasks side by side.",
+                        empty: "The selected tasks don't have any requested parameters.",
+                        header: "Compare Approval Tasks",
+                        parameter: "Parameter"
+                    },
                     taskDetails: {
                         header: "අනුමත කිරීමේ කාර්යය",
                         description: "පරිශීලකයෙකුගේ මෙහෙයුම් ක්‍රියාවක් අනුමත කිරීමට ඔබට ඉල්ලීමක් තිබේ.",
                     }
                 },
                 notifications: {
+                    bulkUpdatePendingApprovals: {
+                        error: {
+                            description: "{{updated}} task(s) were updated while {{failed}} task(s) could not be " +
+                                "updated.",
+                            message: "Some tasks were not updated"
+                        },
+                        success: {
+                            description: "{{updated}} task(s) were updated successfully.",
+                            message: "Tasks updated successfully"
+                        }
+                    },
                     fetchApprovalDetails: {
                         error: {
                             description: "{{description}}",
@@ -3761,6 +4365,51 @@ export const console: ConsoleNS = {
                 }
             },
             certificates: {
+                expiryDashboard: {
+                    expiredAgo: "Expired {{count}} day(s) ago",
+                    expiresIn: "Expires in {{count}} day(s)",
+                    heading: "Certificate Health",
+                    placeholder: "No certificates expire within {{days}} days.",
+                    statuses: {
+                        expired: "Expired",
+                        expiring: "Expiring",
+                        notYetValid: "Not yet valid",
+                        valid: "Valid"
+                    },
+                    subHeading: "Certificates that have expired or expire within the selected number of days.",
+                    threshold: {
+                        label: "Expiring within",
+                        option: "{{days}} days"
+                    },
+                    unreadable: "{{count}} certificate(s) couldn't be inspected."
+                },
+                insights: {
+                    chain: {
+                        error: "Couldn't retrieve the truststore to validate the certificate chain.",
+                        label: "Certificate chain",
+                        trusted: "Trusted",
+                        untrusted: "Not trusted"
+                    },
+                    expiry: "Expiry",
+                    extendedKeyUsage: "Extended key usage",
+                    fingerprints: {
+                        sha1: "SHA-1 fingerprint",
+                        sha256: "SHA-256 fingerprint"
+                    },
+                    issues: {
+                        expired: "{{name}} has expired.",
+                        incompleteChain: "The issuer of {{name}} couldn't be found in the truststore.",
+                        invalidSignature: "The signature of {{name}} is invalid.",
+                        missingExtendedKeyUsage: "{{name}} is missing a required extended key usage.",
+                        missingKeyUsage: "{{name}} is missing a required key usage.",
+                        notACA: "{{name}} isn't allowed to issue certificates.",
+                        notYetValid: "{{name}} isn't valid yet.",
+                        untrustedRoot: "The root certificate {{name}} isn't in the truststore.",
+                        unverifiableSignature: "The signature algorithm of {{name}} isn't supported."
+                    },
+                    keyUsage: "Key usage",
+                    unrestricted: "Unrestricted"
+                },
                 keystore: {
                     advancedSearch: {
                         error: "පෙරහන් විමසුම් ආකෘතිය වැරදිය",
@@ -3796,11 +4445,18 @@ export const console: ConsoleNS = {
                     errorCertificate: "සහතිකය විකේතනය කිරීමේදී දෝෂයක් සිදුවිය. "
                         + "කරුණාකර සහතිකය වලංගු බව සහතික කරන්න.",
                     errorEmpty: "සහතික ගොනුවක් එක් කරන්න හෝ PEM- කේතනය කළ සහතිකයක අන්තර්ගතය අලවන්න.",
+                    errorJwks: "The JWKS doesn't contain any X.509 certificates.",
+                    errorPkcs12InvalidPassword: "Couldn't open the PKCS#12 file with the given password.",
+                    errorPkcs12Password: "Enter the password of the PKCS#12 file to continue.",
                     forms: {
                         alias: {
                             label: "අන්වර්ථය",
                             placeholder: "අන්වර්ථයක් ඇතුළත් කරන්න",
                             requiredErrorMessage: "අන්වර්ථය අවශ්‍යයි"
+                        },
+                        password: {
+                            label: "Password",
+                            placeholder: "Enter the password of the PKCS#12 file"
                         }
                     },
                     list: {
@@ -3903,7 +4559,9 @@ export const console: ConsoleNS = {
                         steps: {
                             summary: "සාරාංශය",
                             upload: "සහතිකය උඩුගත කරන්න"
-                        }
+                        },
+                        supportedFormats: "Supported formats: PEM, DER, PKCS#12 (.p12, .pfx) and JWKS.",
+                        unlock: "Open"
                     }
                 },
                 truststore: {
@@ -4522,6 +5180,7 @@ export const console: ConsoleNS = {
                     createTemplateType: "සැකිලි වර්ගය සාදන්න",
                     deleteTemplate: "අච්චුව මකන්න",
                     editTemplate: "සැකිල්ල සංස්කරණය කරන්න",
+                    localeStatus: "Locale Status",
                     newType: "නව ආකෘති වර්ගය"
                 },
                 confirmations: {
@@ -4671,6 +5330,21 @@ export const console: ConsoleNS = {
                     actions: "ක්‍රියා",
                     name: "නම"
                 },
+                localeMatrix: {
+                    heading: "Locale Status",
+                    hints: {
+                        extra: "Uses placeholders not in the default locale: {{placeholders}}.",
+                        missing: "Missing placeholders of the default locale: {{placeholders}}."
+                    },
+                    status: {
+                        default: "Default",
+                        missing: "Missing",
+                        outdated: "Outdated",
+                        upToDate: "Up to date"
+                    },
+                    subHeading: "Locales of each template type compared with the default locale. Select a status " +
+                        "to open the template."
+                },
                 notifications: {
                     createTemplate: {
                         error: {
@@ -4700,6 +5374,12 @@ export const console: ConsoleNS = {
                             message: "විද්‍යුත් තැපැල් අච්චුව මකා දැමීම සාර්ථකයි"
                         }
                     },
+                    getLocaleStatus: {
+                        genericError: {
+                            description: "An error occurred while retrieving the locale templates.",
+                            message: "Something went wrong"
+                        }
+                    },
                     getTemplateDetails: {
                         error: {
                             description: "{{description}}",
@@ -4760,6 +5440,18 @@ export const console: ConsoleNS = {
                         title: "අච්චුව එක් කරන්න"
                     }
                 },
+                templatePlaceholders: {
+                    copied: "Copied!",
+                    heading: "Placeholders",
+                    hint: "Type {{trigger}} or press Ctrl+Space in the code editor to insert a placeholder. Click a " +
+                        "placeholder to copy it. Highlighted placeholders are required.",
+                    sample: "Sample value: {{value}}",
+                    validations: {
+                        heading: "Review the placeholders of the template",
+                        missing: "Required placeholders are not used: {{placeholders}}",
+                        unknown: "Unknown placeholders will not be replaced: {{placeholders}}"
+                    }
+                },
                 viewTemplate: {
                     heading: "විද්‍යුත් තැපැල් ආකෘති පෙරදසුන"
                 }
@@ -4778,7 +5470,47 @@ export const console: ConsoleNS = {
                         positiveIntegers: "අංකය 0 ට නොඅඩු විය යුතුය."
                     }
                 },
+                history: {
+                    buttons: {
+                        rollback: "Restore This Version",
+                        view: "View History"
+                    },
+                    columns: {
+                        current: "Selected version",
+                        previous: "Compared version",
+                        property: "Property"
+                    },
+                    fields: {
+                        compareWith: {
+                            label: "Compare with",
+                            placeholder: "Select a version to compare with"
+                        }
+                    },
+                    heading: "{{name}} History",
+                    placeholders: {
+                        empty: "No changes have been recorded for this connector yet.",
+                        noChanges: "There are no differences between the selected versions.",
+                        noComparison: "This is the earliest recorded version."
+                    },
+                    sources: {
+                        import: "Imported",
+                        initial: "Initial",
+                        rollback: "Restored",
+                        update: "Updated"
+                    },
+                    subHeading: "Review the changes made to the connector settings and restore a previous version."
+                },
                 notifications: {
+                    exportSnapshot: {
+                        genericError: {
+                            description: "An error occurred while exporting the connector settings.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "The connector settings were exported successfully.",
+                            message: "Export Successful"
+                        }
+                    },
                     getConnector: {
                         error: {
                             description: "{{ description }}",
@@ -4807,6 +5539,33 @@ export const console: ConsoleNS = {
                             message: ""
                         }
                     },
+                    getHistory: {
+                        genericError: {
+                            description: "An error occurred while retrieving the change history of the connector.",
+                            message: "Something went wrong"
+                        }
+                    },
+                    importSnapshot: {
+                        error: {
+                            description: "{{updated}} connector(s) were updated while {{failed}} connector(s) " +
+                                "could not be updated.",
+                            message: "Some connectors were not updated"
+                        },
+                        success: {
+                            description: "{{updated}} connector(s) were updated successfully.",
+                            message: "Import Successful"
+                        }
+                    },
+                    rollbackConnector: {
+                        genericError: {
+                            description: "An error occurred while restoring the connector settings.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "The connector settings were restored to the version of {{date}}.",
+                            message: "Restore Successful"
+                        }
+                    },
                     updateConnector: {
                         error: {
                             description: "{{ description }}",
@@ -4822,8 +5581,30 @@ export const console: ConsoleNS = {
                         }
                     }
                 },
-                pageSubHeading: "{{ name }} වින්‍යාස කර කළමනාකරණය කරන්න."
-
+                pageSubHeading: "{{ name }} වින්‍යාස කර කළමනාකරණය කරන්න.",
+                snapshot: {
+                    buttons: {
+                        apply: "Apply Changes",
+                        export: "Export All Settings",
+                        import: "Import Settings"
+                    },
+                    columns: {
+                        current: "Current value",
+                        incoming: "Incoming value"
+                    },
+                    filePicker: {
+                        dropzoneText: "Drag and drop a connector settings file here.",
+                        hint: "Select a connector settings file exported from the same or another tenant.",
+                        pasteAreaPlaceholderText: "Paste the content of the connector settings file here.",
+                        uploadButtonText: "Upload File"
+                    },
+                    heading: "Import Connector Settings",
+                    placeholders: {
+                        noChanges: "The imported settings are identical to the current settings."
+                    },
+                    redactedFields: "{{count}} secret value(s) were not exported and will be kept unchanged.",
+                    subHeading: "Review the changes in the settings file before applying them to this tenant."
+                }
             },
             groups: {
                 advancedSearch: {
@@ -5554,6 +6335,43 @@ export const console: ConsoleNS = {
                     },
                     placeholder: "භූමිකාවේ නම අනුව සොයන්න"
                 },
+                bulkPermissionEditor: {
+                    buttons: {
+                        apply: "Apply",
+                        back: "Back"
+                    },
+                    fields: {
+                        operation: {
+                            add: "Add permissions",
+                            label: "Operation",
+                            remove: "Remove permissions"
+                        },
+                        roles: {
+                            label: "Roles",
+                            placeholder: "Select the roles to update",
+                            validations: {
+                                empty: "Select at least one role."
+                            }
+                        }
+                    },
+                    heading: "Bulk Edit Permissions",
+                    hints: {
+                        add: "The selected permissions will be added to every selected role. Existing permissions " +
+                            "are kept.",
+                        remove: "The selected permissions and the permissions nested under them will be removed " +
+                            "from every selected role."
+                    },
+                    results: {
+                        error: "Could not update the permissions of the role.",
+                        notApplicable: "The role is granted a parent permission which couldn't be narrowed down. " +
+                            "Remove it instead.",
+                        success: "Permissions updated."
+                    },
+                    subHeading: "Add or remove a set of permissions from many roles at once.",
+                    validations: {
+                        emptyPermissions: "Select at least one permission."
+                    }
+                },
                 edit: {
                     basics: {
                         buttons: {
@@ -5602,6 +6420,11 @@ export const console: ConsoleNS = {
                         roles: "භූමිකාවන්",
                         users: "පරිශීලකයින්"
                     },
+                    permissions: {
+                        buttons: {
+                            export: "Export"
+                        }
+                    },
                     users: {
                         list: {
                             emptyPlaceholder: {
@@ -5616,6 +6439,8 @@ export const console: ConsoleNS = {
                 list: {
                     buttons: {
                         addButton: "නව {{type}}",
+                        bulkEditPermissions: "Bulk Edit Permissions",
+                        compare: "Compare Roles",
                         filterDropdown: "පෙරණය"
                     },
                     columns: {
@@ -5658,6 +6483,27 @@ export const console: ConsoleNS = {
                     }
                 },
                 notifications: {
+                    bulkUpdatePermissions: {
+                        error: {
+                            description: "{{updated}} role(s) were updated while {{failed}} role(s) could not be " +
+                                "updated.",
+                            message: "Some roles were not updated"
+                        },
+                        success: {
+                            description: "The permissions of {{updated}} role(s) were updated successfully.",
+                            message: "Permissions updated successfully"
+                        }
+                    },
+                    copyPermissions: {
+                        genericError: {
+                            description: "Couldn't copy the permissions.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "The permissions were copied to {{role}} successfully.",
+                            message: "Permissions copied successfully"
+                        }
+                    },
                     createPermission: {
                         error: {
                             description: "{{description}}",
@@ -5700,6 +6546,12 @@ export const console: ConsoleNS = {
                             message: "කාර්යභාරය සාර්ථකව මකා දමන ලදි"
                         }
                     },
+                    fetchPermissions: {
+                        genericError: {
+                            description: "An error occurred while retrieving the permissions of the roles.",
+                            message: "Something went wrong"
+                        }
+                    },
                     fetchRoles: {
                         genericError: {
                             description: "භූමිකාවන් ලබා ගැනීමේදී දෝෂයක් ඇතිවිය.",
@@ -5720,6 +6572,39 @@ export const console: ConsoleNS = {
                             message: "කාර්යභාරය සාර්ථකව යාවත්කාලීන කරන ලදි"
                         }
                     }
+                },
+                permissionDiff: {
+                    buttons: {
+                        copy: "Copy permissions to {{target}}"
+                    },
+                    columns: {
+                        added: "Only in {{role}}",
+                        common: "In both roles",
+                        removed: "Only in {{role}}"
+                    },
+                    confirmations: {
+                        copy: {
+                            content: "The permissions of {{target}} will be replaced with the permissions of " +
+                                "{{source}}. Please proceed with caution.",
+                            header: "Are you sure?",
+                            message: "This will overwrite the existing permissions of the role."
+                        }
+                    },
+                    fields: {
+                        baseRole: {
+                            label: "Base role",
+                            placeholder: "Select a role"
+                        },
+                        comparedRole: {
+                            label: "Compared role",
+                            placeholder: "Select a role to compare with"
+                        }
+                    },
+                    heading: "Compare Roles",
+                    placeholders: {
+                        empty: "No permissions"
+                    },
+                    subHeading: "Compare the permissions assigned to two roles side by side."
                 }
             },
             serverConfigs: {
@@ -5795,6 +6680,7 @@ export const console: ConsoleNS = {
                 }
             },
             sidePanel: {
+                activityLog: "Activity",
                 addEmailTemplate: "විද්‍යුත් තැපැල් අච්චුව එක් කරන්න",
                 addEmailTemplateLocale: "විද්‍යුත් තැපැල් ආකෘති පෙදෙසි එක් කරන්න",
                 approvals: "අනුමත කිරීම්",
@@ -6028,6 +6914,67 @@ export const console: ConsoleNS = {
                             username: "පරිශීලක නාමය"
                         }
                     },
+                    bulkImportUserWizard: {
+                        buttons: {
+                            finish: "Finish",
+                            import: "Import",
+                            next: "Next",
+                            previous: "Previous"
+                        },
+                        mapping: {
+                            columns: {
+                                attribute: "Attribute",
+                                column: "Column",
+                                sample: "Sample value"
+                            },
+                            hint: "Map the columns of the file to user attributes. Columns which are not mapped " +
+                                "are ignored.",
+                            missingRequired: "The following required attributes are not mapped: {{attributes}}",
+                            placeholder: "Select an attribute"
+                        },
+                        preview: {
+                            columns: {
+                                errors: "Errors",
+                                row: "Row",
+                                status: "Status",
+                                username: "Username"
+                            },
+                            summary: "{{valid}} of {{total}} row(s) are valid and will be imported."
+                        },
+                        results: {
+                            inProgress: "Importing users. {{processed}} of {{total}} processed.",
+                            summary: "{{success}} user(s) were imported and {{failed}} failed."
+                        },
+                        rowErrors: {
+                            duplicateUsername: "The username is already used in row {{detail}}.",
+                            importFailed: "{{detail}}",
+                            invalidAttributeValue: "The value of {{attribute}} is invalid.",
+                            missingEmail: "An email is required to invite a user without a password.",
+                            missingRequiredAttribute: "{{attribute}} is required.",
+                            missingUsername: "The username is required."
+                        },
+                        status: {
+                            failed: "Failed",
+                            invalid: "Invalid",
+                            success: "Imported",
+                            valid: "Valid"
+                        },
+                        steps: {
+                            mapping: "Attribute Mapping",
+                            preview: "Preview",
+                            results: "Results",
+                            upload: "Upload"
+                        },
+                        subTitle: "Follow the steps to import users from a CSV or JSON file",
+                        title: "Import Users",
+                        upload: {
+                            dropzoneText: "Drag and drop a CSV or JSON file here.",
+                            hint: "The first line of a CSV file should contain the column names. A JSON file " +
+                                "should contain an array of user objects.",
+                            pasteAreaPlaceholderText: "Paste the CSV or JSON content in this area...",
+                            uploadButtonText: "Upload File"
+                        }
+                    },
                     changePasswordModal: {
                         button: "මුරපදය නැවත සකසන්න",
                         header: "පරිශීලක මුරපදය යළි පිහිටුවන්න",
@@ -6505,6 +7452,8 @@ export const console: ConsoleNS = {
                 buttons: {
                     addNewUserBtn: "නව පරිශීලක",
                     assignUserRoleBtn: "භූමිකාවන් පවරන්න",
+                    exportUsersBtn: "Export",
+                    importUsersBtn: "Import",
                     metaColumnBtn: "තීරු"
                 },
                 confirmations: {
@@ -6562,6 +7511,20 @@ export const console: ConsoleNS = {
                             message: "පරිශීලකයා සාර්ථකව එකතු කරන ලදි"
                         }
                     },
+                    bulkImportUsers: {
+                        error: {
+                            description: "{{description}}",
+                            message: "Error importing the users"
+                        },
+                        genericError: {
+                            description: "Couldn't import the users.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "{{count}} user(s) were imported successfully.",
+                            message: "Users imported successfully"
+                        }
+                    },
                     deleteUser: {
                         error: {
                             description: "{{description}}",
@@ -6576,6 +7539,20 @@ export const console: ConsoleNS = {
                             message: "පරිශීලකයා සාර්ථකව මකා දමන ලදි"
                         }
                     },
+                    exportUsers: {
+                        error: {
+                            description: "{{description}}",
+                            message: "Error exporting the users"
+                        },
+                        genericError: {
+                            description: "Couldn't export the users.",
+                            message: "Something went wrong"
+                        },
+                        success: {
+                            description: "{{count}} user(s) were exported successfully.",
+                            message: "Users exported successfully"
+                        }
+                    },
                     fetchUsers: {
                         error: {
                             description: "{{description}}",
@@ -6763,6 +7740,60 @@ export const console: ConsoleNS = {
                             "විය හැකිය. ප්‍රවේශමෙන් ඉදිරියට යන්න."
                     }
                 },
+                diagnostics: {
+                    buttons: {
+                        run: "Run Diagnostics"
+                    },
+                    columns: {
+                        details: "Details",
+                        duration: "Duration",
+                        status: "Status",
+                        step: "Step"
+                    },
+                    heading: "Diagnostics",
+                    hint: "The probes are read-only and use the saved configuration of the userstore. Update the " +
+                        "userstore before running the diagnostics to verify the changes.",
+                    results: {
+                        count: "Returned {{count}} result(s).",
+                        duration: "{{duration}} ms"
+                    },
+                    status: {
+                        failed: "Failed",
+                        passed: "Passed",
+                        skipped: "Skipped"
+                    },
+                    steps: {
+                        connection: {
+                            description: "Connects to the userstore with the connection properties.",
+                            failed: "Couldn't connect to the userstore.",
+                            name: "Connection",
+                            passed: "Connected to the userstore successfully.",
+                            skipped: "The connection can only be tested for JDBC userstores."
+                        },
+                        groupMembership: {
+                            description: "Looks up the groups of the first user.",
+                            failed: "Couldn't look up the groups of the user.",
+                            name: "Group membership lookup",
+                            passed: "Looked up the groups of the user successfully.",
+                            skipped: "There are no users to look up the groups of."
+                        },
+                        listUsers: {
+                            description: "Lists the users with the user list filter.",
+                            failed: "Couldn't list the users.",
+                            name: "List users",
+                            passed: "Listed the users successfully."
+                        },
+                        searchFilter: {
+                            description: "Searches the first user by the username with the user search filter.",
+                            failed: "The user search filter didn't return the listed user.",
+                            name: "Search filter",
+                            passed: "Found the user successfully.",
+                            skipped: "There are no users to search for."
+                        }
+                    },
+                    subHeading: "Test the connection and run a set of read-only probes against the userstore to " +
+                        "find configuration issues."
+                },
                 forms: {
                     connection: {
                         connectionErrorMessage: "කරුණාකර සපයා ඇති සම්බන්ධතා URL, නම, "
@@ -6873,6 +7904,7 @@ export const console: ConsoleNS = {
                         description: "පරිශීලක වෙළඳසැල සංස්කරණය කරන්න",
                         tabs: {
                             connection: "සම්බන්ධතාවය",
+                            diagnostics: "Diagnostics",
                             general: "ජනරාල්",
                             group: "සමූහය",
                             user: "පරිශීලක"
@@ -6914,7 +7946,20 @@ export const console: ConsoleNS = {
                     read: "කියවන්න",
                     reset: "නැවත සකසන්න",
                     title: "SQL විමසුම් වර්ග",
-                    update: "යාවත්කාලීන කරන්න"
+                    update: "යාවත්කාලීන කරන්න",
+                    validations: {
+                        emptyQuery: "The query is empty.",
+                        heading: "Issues in the query",
+                        missingNamedPlaceholder: "The {{placeholder}} parameter of the default query isn't used.",
+                        multipleStatements: "Only a single statement is allowed in the query.",
+                        placeholderCountMismatch: "The query has {{found}} parameter(s) while {{expected}} " +
+                            "value(s) are bound to it.",
+                        statementTypeMismatch: "The query must be a {{expected}} statement.",
+                        unbalancedParentheses: "The parentheses of the query aren't balanced.",
+                        unknownNamedPlaceholder: "No value is bound to the {{placeholder}} parameter.",
+                        unknownStatement: "{{statement}} isn't a supported SQL statement.",
+                        unterminatedString: "A string in the query isn't terminated."
+                    }
                 },
                 wizard: {
                     header: "Store {{type}} පරිශීලක වෙළඳසැල එක් කරන්න",
@@ -6972,6 +8017,10 @@ export const console: ConsoleNS = {
             }
         },
         pages: {
+            activityLog: {
+                subTitle: "Review the changes made through the console",
+                title: "Activity"
+            },
             addEmailTemplate: {
                 backButton: "{{name}} අච්චුව වෙත ආපසු යන්න",
                 subTitle: null,
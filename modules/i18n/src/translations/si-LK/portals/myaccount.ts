@@ -166,6 +166,7 @@ export const myAccount: MyAccountNS = {
             hints: {
                 querySearch: {
                     actionKeys: "Shift + Enter",
+                    invalid: "The query is invalid near position {{position}}.",
                     label: "විමසුමක් ලෙස සෙවීමට"
                 }
             },
@@ -598,6 +599,39 @@ export const myAccount: MyAccountNS = {
                     }
                 }
             },
+            backupCode: {
+                actions: {
+                    generate: "Generate codes"
+                },
+                description: "Use one-time backup codes to sign in when you can't use your other factors.",
+                heading: "Backup Codes",
+                hint: "Generate new codes",
+                list: {
+                    description: "Keep these codes somewhere safe. Each code can be used only once and the codes " +
+                        "will not be shown again.",
+                    heading: "Your Backup Codes",
+                    print: "Print"
+                },
+                modals: {
+                    generate: "Generate a set of one-time codes to sign in when you can't use your other factors.",
+                    heading: "Backup Codes",
+                    regenerate: "Your existing backup codes will stop working once new codes are generated."
+                },
+                notGenerated: "You have not generated any backup codes yet.",
+                notifications: {
+                    generateError: {
+                        error: {
+                            description: "{{error}}",
+                            message: "Something went wrong"
+                        },
+                        genericError: {
+                            description: "An error occurred while generating the backup codes",
+                            message: "Something went wrong"
+                        }
+                    }
+                },
+                remaining: "{{count}} unused backup codes remaining."
+            },
             fido: {
                 description: "FIDO යතුරක් සම්බන්ධ කිරීමෙන් සත්\u200Dයාපනය කිරීම",
                 form: {
@@ -662,6 +696,34 @@ export const myAccount: MyAccountNS = {
                 },
                 tryButton: "පැරණි උපාංගයක් සමඟ උත්සාහ කරන්න"
             },
+            setupWizard: {
+                factors: {
+                    fido: {
+                        description: "Use a security key or the biometrics of your device.",
+                        heading: "Security Key/Biometrics"
+                    },
+                    totp: {
+                        description: "Use a code generated by an authenticator app on your phone.",
+                        heading: "Authenticator App"
+                    }
+                },
+                heading: "Secure Your Account",
+                steps: {
+                    backupCodes: {
+                        description: "Generate backup codes so that you can still sign in if you lose access to " +
+                            "your second factor.",
+                        enrolled: "The second factor was added to your account.",
+                        heading: "Backup Codes"
+                    },
+                    enroll: {
+                        fido: "Click register and follow the instructions of your browser to register a security " +
+                            "key or the biometrics of your device."
+                    },
+                    selectFactor: {
+                        heading: "Choose a second factor"
+                    }
+                }
+            },
             smsOtp: {
                 descriptions: {
                     hint: "සත්\u200Dයාපන කේතය අඩංගු කෙටි පණිවිඩයක් ඔබට ලැබෙනු ඇත"
@@ -1179,6 +1241,9 @@ export const myAccount: MyAccountNS = {
             urlUpdateHeader: "ඔබගේ පැතිකඩ පින්තූරය සැකසීමට රූප URL එකක් ඇතුළත් කරන්න"
         },
         userSessions: {
+            actions: {
+                terminateOthers: "Sign out everywhere else"
+            },
             browserAndOS: "{{os}} {{version}} මත {{browser}}",
             dangerZones: {
                 terminate: {
@@ -1187,6 +1252,22 @@ export const myAccount: MyAccountNS = {
                     subheader: "විශේෂිත උපාංගයේ සැසියෙන් ඔබ ඉවත් වනු ඇත."
                 }
             },
+            deviceGroups: {
+                actions: {
+                    hideActivity: "Hide activity",
+                    showActivity: "Show activity"
+                },
+                currentDevice: "This device",
+                summary: "{{count}} active session(s), last active {{date}}",
+                timeline: {
+                    applications: "Applications: {{applications}}",
+                    lastAccess: "Last active",
+                    login: "Signed in"
+                },
+                unusualDevice: "New device",
+                unusualDeviceHint: "{{browser}} on {{os}} was first used to sign in to your account on {{date}}. " +
+                    "If you don't recognize it, terminate its sessions and change your password."
+            },
             lastAccessed: "අවසන් ප්‍රවේශය {{date}}",
             modals: {
                 terminateAllUserSessionsModal: {
@@ -1195,6 +1276,13 @@ export const myAccount: MyAccountNS = {
                         "මෙම ක්‍රියාව මඟින් සෑම උපාංගයකම සියලුම සැසි වලින් ඔබව ඉවත් කරනු ඇත. " +
                         "ඉදිරියට යාමට ඔබ කැමතිද?"
                 },
+                terminateOtherUserSessionsModal: {
+                    currentBrowserSessions: "{{count}} of them are from this browser and will be terminated as well.",
+                    heading: "Confirmation",
+                    message: "This action will log you out of all the other sessions. Do you wish to continue?",
+                    unidentifiedSession: "The current session couldn't be identified. Hence the {{count}} " +
+                        "session(s) of this browser, including the current one, will be kept."
+                },
                 terminateUserSessionModal: {
                     heading: "තහවුරු කිරීම",
                     message:
@@ -1230,6 +1318,16 @@ export const myAccount: MyAccountNS = {
                         message: "සියලුම සක්‍රීය සැසි අවසන් කරන ලදි"
                     }
                 },
+                terminateOtherUserSessions: {
+                    error: {
+                        description: "{{failed}} of {{total}} sessions could not be terminated.",
+                        message: "Couldn't terminate some sessions"
+                    },
+                    success: {
+                        description: "Successfully terminated {{count}} other session(s).",
+                        message: "Terminated the other sessions"
+                    }
+                },
                 terminateUserSession: {
                     error: {
                         description: "{{description}}",
@@ -1458,6 +1556,9 @@ export const myAccount: MyAccountNS = {
             heading: "සම්බන්ධිත ගිණුම්"
         },
         mfa: {
+            actionTitles: {
+                setup: "Secure your account"
+            },
             description:
                 "සත්‍යාපන පියවර කිහිපයක් වින්‍යාස කිරීමෙන් ඔබගේ ගිණුමට අමතර ආරක්ෂිත තට්ටුවක් එක් කරන්න.",
             heading: "බහු සාධක සත්‍යාපනය"
@@ -166,6 +166,7 @@ export const myAccount: MyAccountNS = {
             hints: {
                 querySearch: {
                     actionKeys: "Shift + Enter",
+                    invalid: "The query is invalid near position {{position}}.",
                     label: "கேள்வியின் மூலம் தேடுவதற்கு"
                 }
             },
@@ -604,6 +605,39 @@ export const myAccount: MyAccountNS = {
                     }
                 }
             },
+            backupCode: {
+                actions: {
+                    generate: "Generate codes"
+                },
+                description: "Use one-time backup codes to sign in when you can't use your other factors.",
+                heading: "Backup Codes",
+                hint: "Generate new codes",
+                list: {
+                    description: "Keep these codes somewhere safe. Each code can be used only once and the codes " +
+                        "will not be shown again.",
+                    heading: "Your Backup Codes",
+                    print: "Print"
+                },
+                modals: {
+                    generate: "Generate a set of one-time codes to sign in when you can't use your other factors.",
+                    heading: "Backup Codes",
+                    regenerate: "Your existing backup codes will stop working once new codes are generated."
+                },
+                notGenerated: "You have not generated any backup codes yet.",
+                notifications: {
+                    generateError: {
+                        error: {
+                            description: "{{error}}",
+                            message: "Something went wrong"
+                        },
+                        genericError: {
+                            description: "An error occurred while generating the backup codes",
+                            message: "Something went wrong"
+                        }
+                    }
+                },
+                remaining: "{{count}} unused backup codes remaining."
+            },
             fido: {
                 description: "FIDO கருவியினை இணைப்பதானூடாக உங்களை உறுதிப்படுத்திக் கொள்ளுங்கள்",
                 form: {
@@ -671,6 +705,34 @@ export const myAccount: MyAccountNS = {
                 },
                 tryButton: "பழைய சாதனத்துடன் முயற்சிக்கவும்"
             },
+            setupWizard: {
+                factors: {
+                    fido: {
+                        description: "Use a security key or the biometrics of your device.",
+                        heading: "Security Key/Biometrics"
+                    },
+                    totp: {
+                        description: "Use a code generated by an authenticator app on your phone.",
+                        heading: "Authenticator App"
+                    }
+                },
+                heading: "Secure Your Account",
+                steps: {
+                    backupCodes: {
+                        description: "Generate backup codes so that you can still sign in if you lose access to " +
+                            "your second factor.",
+                        enrolled: "The second factor was added to your account.",
+                        heading: "Backup Codes"
+                    },
+                    enroll: {
+                        fido: "Click register and follow the instructions of your browser to register a security " +
+                            "key or the biometrics of your device."
+                    },
+                    selectFactor: {
+                        heading: "Choose a second factor"
+                    }
+                }
+            },
             smsOtp: {
                 descriptions: {
                     hint: "நீங்கள் உறுதிப்படுத்தும் குறியீட்டினை குறுஞ் செய்தியினூடாக பெறுவீர்கள்"
@@ -1219,6 +1281,9 @@ export const myAccount: MyAccountNS = {
             urlUpdateHeader: "உங்கள் சுயவிவரப் படத்தை அமைக்க பட URL ஐ உள்ளிடவும்"
         },
         userSessions: {
+            actions: {
+                terminateOthers: "Sign out everywhere else"
+            },
             browserAndOS: "{{os}} {{version}} இல் {{browser}}",
             dangerZones: {
                 terminate: {
@@ -1227,6 +1292,22 @@ export const myAccount: MyAccountNS = {
                     subheader: "குறிப்பிட்ட சாதனத்தில் நீங்கள் அமர்விலிருந்து வெளியேறுவீர்கள்."
                 }
             },
+            deviceGroups: {
+                actions: {
+                    hideActivity: "Hide activity",
+                    showActivity: "Show activity"
+                },
+                currentDevice: "This device",
+                summary: "{{count}} active session(s), last active {{date}}",
+                timeline: {
+                    applications: "Applications: {{applications}}",
+                    lastAccess: "Last active",
+                    login: "Signed in"
+                },
+                unusualDevice: "New device",
+                unusualDeviceHint: "{{browser}} on {{os}} was first used to sign in to your account on {{date}}. " +
+                    "If you don't recognize it, terminate its sessions and change your password."
+            },
             lastAccessed: "இறுதியாக அணுகியது {{date}}",
             modals: {
                 terminateAllUserSessionsModal: {
@@ -1235,6 +1316,13 @@ export const myAccount: MyAccountNS = {
                         "இச்செயல் சகல கருவிகளிலும் உள்ள உங்களுடைய அனைத்து IDP அமர்வுகளில் இருந்தும் " +
                         "உங்களை வெளியேற்றும். மேலும் தொடர விரும்புகின்றீர்களா?"
                 },
+                terminateOtherUserSessionsModal: {
+                    currentBrowserSessions: "{{count}} of them are from this browser and will be terminated as well.",
+                    heading: "Confirmation",
+                    message: "This action will log you out of all the other sessions. Do you wish to continue?",
+                    unidentifiedSession: "The current session couldn't be identified. Hence the {{count}} " +
+                        "session(s) of this browser, including the current one, will be kept."
+                },
                 terminateUserSessionModal: {
                     heading: "உறுதிப்பாடு",
                     message:
@@ -1271,6 +1359,16 @@ export const myAccount: MyAccountNS = {
                         message: "சகல IDP அமர்வுகளும் முடிக்கப்பட்டுவிட்டன"
                     }
                 },
+                terminateOtherUserSessions: {
+                    error: {
+                        description: "{{failed}} of {{total}} sessions could not be terminated.",
+                        message: "Couldn't terminate some sessions"
+                    },
+                    success: {
+                        description: "Successfully terminated {{count}} other session(s).",
+                        message: "Terminated the other sessions"
+                    }
+                },
                 terminateUserSession: {
                     error: {
                         description: "{{description}}",
@@ -1499,6 +1597,9 @@ export const myAccount: MyAccountNS = {
             heading: "இணைக்கப்பட்ட கணக்குகள்"
         },
         mfa: {
+            actionTitles: {
+                setup: "Secure your account"
+            },
             description: "அங்கீகாரத்தின் பல படிகளை உள்ளமைப்பதன் மூலம் உங்கள் கணக்கில் கூடுதல் பாதுகாப்பு அடுக்கைச் சேர்க்கவும்.",
             heading: "பல காரணி உறுதிப்பாடு"
         },
@@ -0,0 +1,130 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { TableColumnInterface, TableDataInterface } from "../../components/table/data-table/data-table";
+import { DataTableUtils } from "../../components/table/data-table/data-table-utils";
+
+const COLUMNS: TableColumnInterface[] = [
+    {
+        allowToggleVisibility: false,
+        dataIndex: "name",
+        id: "name",
+        key: "name",
+        title: "Name"
+    },
+    {
+        allowToggleVisibility: true,
+        dataIndex: "profile.age",
+        id: "age",
+        key: "age",
+        title: "Age"
+    },
+    {
+        allowToggleVisibility: true,
+        dataIndex: "email",
+        getValue: (item: TableDataInterface) => item.email?.toLowerCase(),
+        id: "email",
+        key: "email",
+        title: "Email"
+    },
+    {
+        allowToggleVisibility: false,
+        dataIndex: "action",
+        id: "actions",
+        key: "actions",
+        title: ""
+    }
+];
+
+const DATA: TableDataInterface[] = [
+    { email: "Emily@wso2.com", name: "emily", profile: { age: 9 } },
+    { email: "alex@wso2.com", name: "Alex", profile: { age: 10 } },
+    { email: "BOB@example.com", name: "bob", profile: { age: 9 } },
+    { email: "carol@wso2.com", name: "Carol" }
+];
+
+describe("Data table util functions", () => {
+
+    test("Should filter the rows using case insensitive contains matching of every filter", () => {
+        expect(DataTableUtils.filter(DATA, COLUMNS, { email: " WSO2 ", name: "" }).map(({ name }) => name))
+            .toEqual([ "emily", "Alex", "Carol" ]);
+        expect(DataTableUtils.filter(DATA, COLUMNS, { email: "wso2", name: "a" }).map(({ name }) => name))
+            .toEqual([ "Alex", "Carol" ]);
+        expect(DataTableUtils.filter(DATA, COLUMNS, { age: "9" }).map(({ name }) => name))
+            .toEqual([ "emily", "bob" ]);
+        expect(DataTableUtils.filter(DATA, COLUMNS, { unknown: "x" })).toBe(DATA);
+    });
+
+    test("Should sort the rows by multiple columns and keep the order of the equal rows", () => {
+        expect(DataTableUtils.sort(DATA, COLUMNS, [ { columnId: "name", order: "ascending" } ])
+            .map(({ name }) => name))
+            .toEqual([ "Alex", "bob", "Carol", "emily" ]);
+        expect(DataTableUtils.sort(DATA, COLUMNS, [
+            { columnId: "age", order: "descending" },
+            { columnId: "name", order: "ascending" }
+        ]).map(({ name }) => name))
+            .toEqual([ "Alex", "bob", "emily", "Carol" ]);
+        expect(DataTableUtils.sort(DATA, COLUMNS, [ { columnId: "age", order: "ascending" } ])
+            .map(({ name }) => name))
+            .toEqual([ "Carol", "emily", "bob", "Alex" ]);
+        expect(DataTableUtils.sort(DATA, COLUMNS, [ { columnId: "unknown", order: "ascending" } ])).toBe(DATA);
+    });
+
+    test("Should compare the numeric text in the natural order", () => {
+        const versions: TableDataInterface[] = [ { name: "v10" }, { name: "v9" }, { name: "v1" } ];
+
+        expect(DataTableUtils.sort(versions, COLUMNS, [ { columnId: "name", order: "ascending" } ])
+            .map(({ name }) => name))
+            .toEqual([ "v1", "v9", "v10" ]);
+    });
+
+    test("Should export the visible data columns as CSV", () => {
+        const columns: TableColumnInterface[] = COLUMNS.map((column: TableColumnInterface) => ({
+            ...column,
+            hidden: column.id === "email"
+        }));
+
+        expect(DataTableUtils.toCSV(DATA.slice(0, 2), columns))
+            .toBe("Name,Age\r\nemily,9\r\nAlex,10");
+    });
+
+    test("Should quote the CSV fields with separators, quotes and line breaks", () => {
+        const data: TableDataInterface[] = [
+            { email: "a@wso2.com", name: "Doe, \"John\"", profile: { age: 1 } },
+            { email: "b@wso2.com", name: "Line\nBreak", profile: { age: 2 } }
+        ];
+
+        expect(DataTableUtils.toCSV(data, COLUMNS))
+            .toBe("Name,Age,Email\r\n\"Doe, \"\"John\"\"\",1,a@wso2.com\r\n\"Line\nBreak\",2,b@wso2.com");
+    });
+
+    test("Should neutralize the text cells which spreadsheet applications evaluate as formulae", () => {
+        const data: TableDataInterface[] = [
+            { email: "@SUM(1+1)", name: "=HYPERLINK(\"https://example.com\", \"Click\")", profile: { age: -1 } },
+            { email: "-2+3", name: "+1", profile: { age: 2 } },
+            { email: "\tTab", name: "\rReturn", profile: { age: 3 } }
+        ];
+
+        expect(DataTableUtils.toCSV(data, COLUMNS).split("\r\n").slice(1)).toEqual([
+            "\"'=HYPERLINK(\"\"https://example.com\"\", \"\"Click\"\")\",-1,'@sum(1+1)",
+            "'+1,2,'-2+3",
+            "\"'\rReturn\",3,'\ttab"
+        ]);
+    });
+});
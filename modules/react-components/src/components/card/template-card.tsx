@@ -81,6 +81,16 @@ export interface TemplateCardPropsInterface extends TestableComponentInterface {
      * @param {CardProps} data - Card data.
      */
     onClick: (e: MouseEvent<HTMLAnchorElement>, data: CardProps) => void;
+    /**
+     * Callback to preview the template. A preview action is rendered only if this is provided.
+     * @param {React.MouseEvent<HTMLElement>} e - Event.
+     * @param {{ id: string }} data - Template data.
+     */
+    onPreview?: (e: MouseEvent<HTMLElement>, data: { id: string }) => void;
+    /**
+     * Label of the preview action.
+     */
+    previewLabel?: ReactNode;
     /**
      * Display disabled items as grayscale.
      */
@@ -109,6 +119,10 @@ export interface TemplateCardPropsInterface extends TestableComponentInterface {
      * Inline mode.
      */
     inline?: boolean;
+    /**
+     * Version of the template.
+     */
+    version?: string;
 }
 
 /**
@@ -151,7 +165,9 @@ export const TemplateCard: FunctionComponent<TemplateCardPropsInterface> = (
         imageOptions,
         imageSize,
         onClick,
+        onPreview,
         overlayOpacity,
+        previewLabel,
         renderDisabledItemsAsGrayscale,
         selected,
         showTags,
@@ -161,6 +177,7 @@ export const TemplateCard: FunctionComponent<TemplateCardPropsInterface> = (
         tagsAs,
         tagsSectionTitle,
         textAlign,
+        version,
         [ "data-testid" ]: testId
     } = props;
 
@@ -302,6 +319,43 @@ export const TemplateCard: FunctionComponent<TemplateCardPropsInterface> = (
             <Card.Content className="card-text-container" style={ textContainerStyles() }>
                 <Card.Header data-testid={ `${ testId }-header` }>{ name }</Card.Header>
                 <Card.Description data-testid={ `${ testId }-description` }>{ description }</Card.Description>
+                {
+                    (version || onPreview) && (
+                        <div className="template-meta" data-testid={ `${ testId }-meta` }>
+                            {
+                                version && (
+                                    <Label size="mini" data-testid={ `${ testId }-version` }>
+                                        { `v${ version }` }
+                                    </Label>
+                                )
+                            }
+                            {
+                                onPreview && (
+                                    <Popup
+                                        basic
+                                        trigger={ (
+                                            <Icon
+                                                link
+                                                name="eye"
+                                                color="grey"
+                                                onClick={ (e: MouseEvent<HTMLElement>) => {
+                                                    // Avoid selecting the template.
+                                                    e.stopPropagation();
+                                                    onPreview(e, { id });
+                                                } }
+                                                data-testid={ `${ testId }-preview-button` }
+                                            />
+                                        ) }
+                                        size="mini"
+                                        position="top center"
+                                        content={ previewLabel }
+                                        inverted
+                                    />
+                                )
+                            }
+                        </div>
+                    )
+                }
                 {
                     (showTags && tags && tags instanceof Array && tags.length > 0)
                         ? (
@@ -22,7 +22,7 @@ import classNames from "classnames";
 import * as codemirror from "codemirror";
 import JSBeautify from "js-beautify";
 import { JSHINT } from "jshint/dist/jshint";
-import React, { FunctionComponent, ReactElement, useEffect, useState } from "react";
+import React, { FunctionComponent, ReactElement, useEffect, useMemo, useRef, useState } from "react";
 import { UnControlled as CodeMirror, IUnControlledCodeMirror } from "react-codemirror2";
 import "codemirror/addon/lint/lint";
 import "codemirror/addon/lint/javascript-lint";
@@ -50,6 +50,42 @@ interface CustomWindow extends Window {
 
 (window as CustomWindow & typeof globalThis).JSHINT = JSHINT;
 
+/**
+ * Lint annotation shown in the editor gutter and inline.
+ */
+export interface CodeEditorLintAnnotationInterface {
+    /**
+     * Start position of the annotation. Lines and columns are zero based.
+     */
+    from: { line: number; ch: number };
+    /**
+     * End position of the annotation. Lines and columns are zero based.
+     */
+    to: { line: number; ch: number };
+    /**
+     * Message to be displayed.
+     */
+    message: string;
+    /**
+     * Severity of the annotation.
+     */
+    severity: "error" | "warning";
+}
+
+/**
+ * Custom hint shown in the autocomplete popup.
+ */
+export interface CodeEditorHintInterface {
+    /**
+     * Text inserted to the editor when the hint is picked.
+     */
+    text: string;
+    /**
+     * Text shown in the popup. Defaults to the `text`.
+     */
+    displayText?: string;
+}
+
 /**
  * Code editor component Prop types.
  */
@@ -58,6 +94,15 @@ export interface CodeEditorProps extends IUnControlledCodeMirror, TestableCompon
      * Whether to format the code.
      */
     beautify?: boolean;
+    /**
+     * Custom hints shown in the autocomplete popup. The popup can be opened with `Ctrl-Space`
+     * or by typing the `hintTrigger`.
+     */
+    hints?: CodeEditorHintInterface[];
+    /**
+     * Character sequence which opens the hints popup when typed. ex: `{{`.
+     */
+    hintTrigger?: string;
     /**
      * Language the code is written in.
      */
@@ -70,6 +115,11 @@ export interface CodeEditorProps extends IUnControlledCodeMirror, TestableCompon
      * Whether to enable linting or not.
      */
     lint?: boolean;
+    /**
+     * Resolves additional lint annotations for the code. These are shown along with the
+     * annotations of the default linter of the language.
+     */
+    lintAnnotations?: (code: string) => CodeEditorLintAnnotationInterface[];
     /**
      * Should the editor be formatted for a one line command.
      */
@@ -129,9 +179,12 @@ export const CodeEditor: FunctionComponent<CodeEditorProps> = (
         className,
         getThemeFromEnvironment,
         height,
+        hints,
+        hintTrigger,
         language,
         lineWrapping,
         lint,
+        lintAnnotations,
         options,
         oneLiner,
         readOnly,
@@ -158,6 +211,97 @@ export const CodeEditor: FunctionComponent<CodeEditorProps> = (
 
     const [ dark, setDark ] = useState(false);
 
+    const lintAnnotationsRef = useRef<(code: string) => CodeEditorLintAnnotationInterface[]>(lintAnnotations);
+
+    lintAnnotationsRef.current = lintAnnotations;
+
+    const hintsRef = useRef<CodeEditorHintInterface[]>(hints);
+
+    hintsRef.current = hints;
+
+    const hasLintAnnotations: boolean = !!lintAnnotations;
+
+    /**
+     * Resolves the lint configuration. If additional annotations are provided, they are
+     * merged with the annotations of the default linter of the language.
+     */
+    const lintConfig: boolean | Record<string, unknown> = useMemo(() => {
+        if (!lint || !lintAnnotations) {
+            return lint;
+        }
+
+        return {
+            getAnnotations: (code: string, lintOptions: Record<string, unknown>,
+                editor: codemirror.Editor): CodeEditorLintAnnotationInterface[] => {
+
+                const defaultLinter = editor.getHelper(codemirror.Pos(0, 0), "lint");
+
+                return [
+                    ...(defaultLinter ? defaultLinter(code, lintOptions, editor) ?? [] : []),
+                    ...(lintAnnotationsRef.current ? lintAnnotationsRef.current(code) : [])
+                ];
+            }
+        };
+    }, [ lint, hasLintAnnotations ]);
+
+    /**
+     * Re-runs the linter when the annotation resolver changes. ex: When the rules depend on external state.
+     */
+    useEffect(() => {
+        if (!lint || !hasLintAnnotations || !editorInstance) {
+            return;
+        }
+
+        editorInstance.performLint();
+    }, [ lintAnnotations ]);
+
+    /**
+     * Resolves the custom hints matching the text before the cursor. If the trigger is typed
+     * in the current token, the hints are matched from the start of the trigger.
+     *
+     * @param {codemirror.Editor} editor - Editor instance.
+     * @return {object} Hints and the range to be replaced.
+     */
+    const resolveHints = (editor: codemirror.Editor) => {
+
+        const cursor = editor.getCursor();
+        const line: string = editor.getLine(cursor.line).slice(0, cursor.ch);
+        const triggerIndex: number = hintTrigger ? line.lastIndexOf(hintTrigger) : -1;
+
+        let start: number = cursor.ch;
+
+        if (triggerIndex > -1 && !/\s/.test(line.slice(triggerIndex))) {
+            start = triggerIndex;
+        } else {
+            while (start > 0 && /[\w.:-]/.test(line.charAt(start - 1))) {
+                start--;
+            }
+        }
+
+        const typed: string = line.slice(start).toLowerCase();
+
+        return {
+            from: codemirror.Pos(cursor.line, start),
+            list: (hintsRef.current ?? [])
+                .filter((hint: CodeEditorHintInterface) => hint.text.toLowerCase().startsWith(typed))
+                .map((hint: CodeEditorHintInterface) => ({
+                    displayText: hint.displayText ?? hint.text,
+                    text: hint.text
+                })),
+            to: cursor
+        };
+    };
+
+    /**
+     * Opens the custom hints popup.
+     *
+     * @param {codemirror.Editor} editor - Editor instance.
+     */
+    const showCustomHints = (editor: codemirror.Editor): void => {
+
+        editor.showHint({ completeSingle: false, hint: resolveHints });
+    };
+
     /**
      * Gets the browser color scheme so that the color scheme of the textarea can be decided.
      */
@@ -308,6 +452,20 @@ export const CodeEditor: FunctionComponent<CodeEditorProps> = (
 
                     setEditorInstance(editor);
 
+                    if (hints) {
+                        editor.on("inputRead", (instance: codemirror.Editor) => {
+                            if (!hintTrigger || !hintsRef.current) {
+                                return;
+                            }
+
+                            const cursor = instance.getCursor();
+
+                            if (instance.getLine(cursor.line).slice(0, cursor.ch).endsWith(hintTrigger)) {
+                                showCustomHints(instance);
+                            }
+                        });
+                    }
+
                     rest.editorDidMount && rest.editorDidMount(editor, ...args);
                 } }
                 options={
@@ -315,13 +473,15 @@ export const CodeEditor: FunctionComponent<CodeEditorProps> = (
                         lineWrapping,
                         autoCloseBrackets: smart,
                         autoCloseTags: smart,
-                        extraKeys: smart ? { "Ctrl-Space": "autocomplete" } : {},
+                        extraKeys: hints
+                            ? { "Ctrl-Space": showCustomHints }
+                            : smart ? { "Ctrl-Space": "autocomplete" } : {},
                         gutters: [ "note-gutter", "CodeMirror-linenumbers", "CodeMirror-lint-markers" ],
                         indentUnit: tabSize,
                         lineNumbers: !oneLiner
                             ? showLineNumbers
                             : false,
-                        lint,
+                        lint: lintConfig,
                         matchBrackets: smart,
                         matchTags: smart,
                         mode: options?.mode ? options.mode : resolveMode(language),
@@ -13,7 +13,8 @@ import {
 import { GenericIcon } from "../icon";
 import { KJUR, X509 } from "jsrsasign";
 import * as forge from "node-forge";
-import { CertificateManagementUtils } from "@wso2is/core/utils";
+import { ResourceBundleInterface } from "@wso2is/core/models";
+import { CertificateManagementUtils, ResourceBundleUtils } from "@wso2is/core/utils";
 
 // TODO: Move polyfills to a generalized module.
 
@@ -857,3 +858,65 @@ export class CertFileStrategy implements PickerStrategy<CertificateDecodeResult>
     }
 
 }
+
+export class ResourceBundleFileStrategy implements PickerStrategy<ResourceBundleInterface> {
+
+    static readonly ENCODING: string = "UTF-8";
+    static readonly DEFAULT_MIMES: string[] = [
+        ".json",
+        ".yaml",
+        ".yml"
+    ];
+    static readonly MEGABYTE: number = 1e+6;
+    static readonly MAX_FILE_SIZE: number = 2;
+
+    kind: string;
+    mimeTypes: string[];
+
+    /**
+     * @param kind {string} expected kind of the bundled resource.
+     * @param mimeTypes {string[]} accepted mime types.
+     */
+    constructor(kind: string, mimeTypes?: string[]) {
+        this.kind = kind;
+        if (!mimeTypes || mimeTypes.length === 0)
+            this.mimeTypes = ResourceBundleFileStrategy.DEFAULT_MIMES;
+        else
+            this.mimeTypes = mimeTypes;
+    }
+
+    async serialize(data: File | string): Promise<ResourceBundleInterface> {
+        const content: string = data instanceof File ? await this.readFile(data) : data;
+
+        return ResourceBundleUtils.parse(content, this.kind);
+    }
+
+    async validate(data: File | string): Promise<ValidationResult> {
+        if (data instanceof File
+            && data.size > ResourceBundleFileStrategy.MAX_FILE_SIZE * ResourceBundleFileStrategy.MEGABYTE) {
+            return Promise.reject({
+                valid: false,
+                errorMessage: `File exceeds max size of ${ ResourceBundleFileStrategy.MAX_FILE_SIZE } MB`
+            });
+        }
+        try {
+            await this.serialize(data);
+            return { valid: true };
+        } catch (error) {
+            return Promise.reject({
+                valid: false,
+                errorMessage: error?.message ?? "Bundle content is invalid"
+            });
+        }
+    }
+
+    private readFile(file: File): Promise<string> {
+        return new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsText(file, ResourceBundleFileStrategy.ENCODING);
+        });
+    }
+
+}
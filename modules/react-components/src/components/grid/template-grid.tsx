@@ -60,6 +60,10 @@ export interface TemplateGridPropsInterface<T> extends TestableComponentInterfac
      * Callback to be fired on secondary template selection.
      */
     onSecondaryTemplateSelect?: (e: SyntheticEvent, { id }: { id: string }) => void;
+    /**
+     * Callback to be fired on template preview. Templates are previewable only if this is provided.
+     */
+    onTemplatePreview?: TemplateCardPropsInterface["onPreview"];
     /**
      * Opacity for the overlay.
      */
@@ -112,6 +116,10 @@ export interface TemplateGridPropsInterface<T> extends TestableComponentInterfac
      * Template icons.
      */
     templateIcons?: object;
+    /**
+     * Label of the template preview action.
+     */
+    templatePreviewLabel?: TemplateCardPropsInterface["previewLabel"];
     /**
      * Tag size.
      */
@@ -177,6 +185,10 @@ interface WithPropertiesInterface {
      * Template disabled or not.
      */
     disabled?: TemplateCardPropsInterface["disabled"];
+    /**
+     * Template version.
+     */
+    version?: TemplateCardPropsInterface["version"];
 }
 
 
@@ -202,6 +214,7 @@ export const TemplateGrid = <T extends WithPropertiesInterface>(
         className,
         emptyPlaceholder,
         heading,
+        onTemplatePreview,
         onTemplateSelect,
         overlayOpacity,
         paginate,
@@ -216,6 +229,7 @@ export const TemplateGrid = <T extends WithPropertiesInterface>(
         templates,
         selectedTemplate,
         templateIcons,
+        templatePreviewLabel,
         tagsAs,
         tagSize,
         useSelectionCard,
@@ -456,6 +470,9 @@ export const TemplateGrid = <T extends WithPropertiesInterface>(
                                                 name={ template.name }
                                                 id={ template.id }
                                                 onClick={ template.disabled ? null : onTemplateSelect }
+                                                onPreview={ onTemplatePreview }
+                                                previewLabel={ templatePreviewLabel }
+                                                version={ template.version }
                                                 overlayOpacity={ overlayOpacity }
                                                 imageSize={ templateIconSize }
                                                 renderDisabledItemsAsGrayscale={ renderDisabledItemsAsGrayscale }
@@ -18,7 +18,9 @@
 
 import { getGravatarImage } from "@wso2is/core/api";
 import { resolveUserDisplayName, resolveUsername } from "@wso2is/core/helpers";
-import { LinkedAccountInterface, TestableComponentInterface } from "@wso2is/core/models";
+import { useDocumentDirection } from "@wso2is/core/hooks";
+import { LinkedAccountInterface, TestableComponentInterface, TextDirection } from "@wso2is/core/models";
+import { DirectionUtils } from "@wso2is/core/utils";
 import classNames from "classnames";
 import React, { FunctionComponent, ReactElement, ReactNode, SyntheticEvent } from "react";
 import { Link } from "react-router-dom";
@@ -157,6 +159,8 @@ export const Header: FunctionComponent<HeaderPropsInterface> = (
         [ "data-testid" ]: testId
     } = props;
 
+    const documentDirection: TextDirection = useDocumentDirection();
+
     const classes = classNames(
         "app-header",
         {
@@ -262,7 +266,7 @@ export const Header: FunctionComponent<HeaderPropsInterface> = (
                                 image={ getGravatarImage(association.email) }
                                 name={ association.username }
                                 data-testid={ `${ testId }-la-avatar` }
-                                spaced="right"
+                                spaced={ DirectionUtils.mirror("right", documentDirection) }
                             />
                             <Item.Content verticalAlign="middle">
                                 <Item.Description>
@@ -367,7 +371,7 @@ export const Header: FunctionComponent<HeaderPropsInterface> = (
                                         item
                                         trigger={ trigger }
                                         floating
-                                        pointing={ userDropdownPointing }
+                                        pointing={ DirectionUtils.mirror(userDropdownPointing, documentDirection) }
                                         icon={ userDropdownIcon }
                                         className="user-dropdown"
                                         data-testid={ `${ testId }-user-dropdown` }
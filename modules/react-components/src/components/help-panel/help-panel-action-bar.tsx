@@ -16,7 +16,9 @@
  * under the License.
  */
 
-import { TestableComponentInterface } from "@wso2is/core/models";
+import { useDocumentDirection } from "@wso2is/core/hooks";
+import { TestableComponentInterface, TextDirection } from "@wso2is/core/models";
+import { DirectionUtils } from "@wso2is/core/utils";
 import classNames from "classnames";
 import React, { FunctionComponent, PropsWithChildren, ReactElement } from "react";
 
@@ -57,9 +59,11 @@ export const HelpPanelActionBar: FunctionComponent<PropsWithChildren<HelpPanelAc
         [ "data-testid" ]: testId
     } = props;
 
+    const documentDirection: TextDirection = useDocumentDirection();
+
     const classes = classNames("help-panel-action-bar", {
         clearing,
-        [ `floated-${ floated }` ]: floated
+        [ `floated-${ DirectionUtils.mirror(floated, documentDirection) }` ]: floated
     }, className);
 
     return (
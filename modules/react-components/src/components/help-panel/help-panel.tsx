@@ -16,7 +16,9 @@
  * under the License.
  */
 
-import { TestableComponentInterface } from "@wso2is/core/models";
+import { useDocumentDirection } from "@wso2is/core/hooks";
+import { TestableComponentInterface, TextDirection } from "@wso2is/core/models";
+import { DirectionUtils } from "@wso2is/core/utils";
 import classNames from "classnames";
 import React, {
     ForwardRefExoticComponent,
@@ -37,6 +39,7 @@ import {
 } from "semantic-ui-react";
 import { HelpPanelActionBar } from "./help-panel-action-bar";
 import { ReactComponent as CaretLeftIcon } from "../../assets/images/caret-left-icon.svg";
+import { ReactComponent as CaretRightIcon } from "../../assets/images/caret-right-icon.svg";
 import { GenericIcon, GenericIconProps } from "../icon";
 import { ResourceTab } from "../tab";
 import { Tooltip } from "../typography";
@@ -150,6 +153,7 @@ export const HelpPanel: ForwardRefExoticComponent<PropsWithoutRef<HelpPanelCompo
             bordered,
             children,
             className,
+            direction,
             onSidebarToggle,
             tabs,
             raised,
@@ -173,10 +177,14 @@ export const HelpPanel: ForwardRefExoticComponent<PropsWithoutRef<HelpPanelCompo
             render?: () => ReactNode;
         }[]>([]);
 
+        const documentDirection: TextDirection = useDocumentDirection();
+
         const classes = classNames(
             "help-panel",
             {
-                [ typeof bordered === "boolean" ? "bordered-default" : `bordered-${ bordered }` ]: bordered,
+                [ typeof bordered === "boolean"
+                    ? "bordered-default"
+                    : `bordered-${ DirectionUtils.mirror(bordered, documentDirection) }` ]: bordered,
                 mini: sidebarMiniEnabled && !visible,
                 raised
             },
@@ -219,6 +227,7 @@ export const HelpPanel: ForwardRefExoticComponent<PropsWithoutRef<HelpPanelCompo
             <Sidebar
                 animation="overlay"
                 className={ classes }
+                direction={ DirectionUtils.mirror(direction, documentDirection) }
                 visible={ sidebarMiniEnabled || visible }
                 data-testid={ testId }
                 { ...rest }
@@ -243,7 +252,11 @@ export const HelpPanel: ForwardRefExoticComponent<PropsWithoutRef<HelpPanelCompo
                                                             hoverable
                                                             defaultIcon
                                                             transparent
-                                                            icon={ CaretLeftIcon }
+                                                            icon={
+                                                                DirectionUtils.isRTL(documentDirection)
+                                                                    ? CaretRightIcon
+                                                                    : CaretLeftIcon
+                                                            }
                                                             size="default"
                                                             hoverType="circular"
                                                             data-testid={ `${ testId }-visibility-toggle-icon` }
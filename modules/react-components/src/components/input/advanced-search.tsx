@@ -108,6 +108,10 @@ export interface AdvancedSearchPropsInterface extends TestableComponentInterface
      * Dropdown heading.
      */
     searchOptionsHeader?: string;
+    /**
+     * Error of the last submitted search query. ex: Invalid filter syntax.
+     */
+    searchQueryError?: string;
     /**
      * Is form submitted.
      */
@@ -153,6 +157,7 @@ export const AdvancedSearch: FunctionComponent<PropsWithChildren<AdvancedSearchP
         placeholder,
         resetSubmittedState,
         searchOptionsHeader,
+        searchQueryError,
         submitted,
         [ "data-testid" ]: testId,
         triggerClearQuery
@@ -164,6 +169,7 @@ export const AdvancedSearch: FunctionComponent<PropsWithChildren<AdvancedSearchP
     const [ showSearchFieldHint, setShowSearchFieldHint ] = useState<boolean>(false);
     const [ isDropdownVisible, setIsDropdownVisible ] = useState<boolean>(false);
     const [ internalQueryClearTriggerState, setInternalQueryClearTriggerState ] = useState<boolean>(false);
+    const [ showSearchQueryError, setShowSearchQueryError ] = useState<boolean>(false);
 
     /**
      * useEffect hook to handle `internalSearchQuery` change.
@@ -194,6 +200,13 @@ export const AdvancedSearch: FunctionComponent<PropsWithChildren<AdvancedSearchP
         }
     }, [ submitted ]);
 
+    /**
+     * useEffect hook to handle `searchQueryError` prop changes.
+     */
+    useEffect(() => {
+        setShowSearchQueryError(!!searchQueryError);
+    }, [ searchQueryError ]);
+
     useEffect(() => {
         if (triggerClearQuery === undefined || (internalQueryClearTriggerState === triggerClearQuery)) {
             return;
@@ -235,6 +248,7 @@ export const AdvancedSearch: FunctionComponent<PropsWithChildren<AdvancedSearchP
         const { value } = e.target;
 
         setInternalSearchQuery(value);
+        setShowSearchQueryError(false);
     };
 
     /**
@@ -278,6 +292,7 @@ export const AdvancedSearch: FunctionComponent<PropsWithChildren<AdvancedSearchP
             query = internalSearchQuery;
             onSearchQuerySubmit(true, query);
             setShowSearchFieldHint(false);
+            setShowSearchQueryError(true);
         }
     };
 
@@ -376,6 +391,18 @@ export const AdvancedSearch: FunctionComponent<PropsWithChildren<AdvancedSearchP
                     )
                     : null
             }
+            {
+                (showSearchQueryError && searchQueryError)
+                    ? (
+                        <div
+                            className="search-query-hint active error"
+                            data-testid={ `${ testId }-query-error` }
+                        >
+                            <div className="query"><Icon name="warning circle"/>{ " " }{ searchQueryError }</div>
+                        </div>
+                    )
+                    : null
+            }
             <Popup
                 context={ searchInputRef }
                 content={ (
@@ -421,5 +448,6 @@ AdvancedSearch.defaultProps = {
     onExternalSearchQueryClear: null,
     placeholder: null,
     searchOptionsHeader: "Advanced Search",
+    searchQueryError: null,
     submitted: false
 };
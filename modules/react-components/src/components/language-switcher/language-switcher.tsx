@@ -16,8 +16,10 @@
  * under the License.
  */
 
-import { TestableComponentInterface } from "@wso2is/core/models";
-import React, { ReactElement, SyntheticEvent } from "react";
+import { useDocumentDirection } from "@wso2is/core/hooks";
+import { TestableComponentInterface, TextDirection } from "@wso2is/core/models";
+import { DirectionUtils } from "@wso2is/core/utils";
+import React, { ReactElement, SyntheticEvent, useEffect } from "react";
 import { LanguageSwitcherDropdown } from "./language-switcher-dropdown";
 
 /**
@@ -49,6 +51,11 @@ export interface LanguageSwitcherProps extends TestableComponentInterface {
      * Set of supported languages.
      */
     supportedLanguages: object;
+    /**
+     * Should the `dir` and `lang` attributes of the document be updated
+     * based on the `direction` declared in the language metadata.
+     */
+    updateDocumentDirection?: boolean;
     /**
      * Should dropdown open upwards.
      */
@@ -73,10 +80,25 @@ export const LanguageSwitcher: React.FunctionComponent<LanguageSwitcherProps> =
         onLanguageChange,
         showDropdownCaret,
         supportedLanguages,
+        updateDocumentDirection,
         upward,
         [ "data-testid" ]: testId
     } = props;
 
+    const documentDirection: TextDirection = useDocumentDirection();
+
+    /**
+     * Switches the document direction when the current language changes.
+     */
+    useEffect(() => {
+        if (!updateDocumentDirection || !currentLanguage) {
+            return;
+        }
+
+        DirectionUtils.setDocumentDirection(supportedLanguages?.[ currentLanguage ]?.direction ?? "ltr",
+            currentLanguage);
+    }, [ currentLanguage, supportedLanguages, updateDocumentDirection ]);
+
     /**
      * Handles the language change.
      *
@@ -90,7 +112,7 @@ export const LanguageSwitcher: React.FunctionComponent<LanguageSwitcherProps> =
     return (
         <LanguageSwitcherDropdown
             className={ className }
-            direction={ direction }
+            direction={ DirectionUtils.mirror(direction, documentDirection) }
             upward={ upward }
             language={ currentLanguage }
             changeLanguage={ handleLanguageChange }
@@ -108,5 +130,6 @@ LanguageSwitcher.defaultProps = {
     "data-testid": "language-switcher",
     direction: "left",
     showDropdownCaret: false,
+    updateDocumentDirection: true,
     upward: true
 };
@@ -16,7 +16,9 @@
  * under the License.
  */
 
-import { LoadableComponentInterface, TestableComponentInterface } from "@wso2is/core/models";
+import { useDocumentDirection } from "@wso2is/core/hooks";
+import { LoadableComponentInterface, TestableComponentInterface, TextDirection } from "@wso2is/core/models";
+import { DirectionUtils } from "@wso2is/core/utils";
 import classNames from "classnames";
 import React, { MouseEventHandler, ReactElement, ReactNode } from "react";
 import { Divider, Grid, Header, Icon, Placeholder, SemanticWIDTHS } from "semantic-ui-react";
@@ -133,6 +135,8 @@ export const PageHeader: React.FunctionComponent<PageHeaderPropsInterface> = (
         [ "data-testid" ]: testId
     } = props;
 
+    const documentDirection: TextDirection = useDocumentDirection();
+
     const wrapperClasses = classNames(
         "page-header-wrapper",
         {
@@ -188,7 +192,11 @@ export const PageHeader: React.FunctionComponent<PageHeaderPropsInterface> = (
                     }
                     size="tiny"
                     transparent
-                    spaced={ (typeof imageSpaced === "boolean" && !imageSpaced) ? null : "right" }
+                    spaced={
+                        (typeof imageSpaced === "boolean" && !imageSpaced)
+                            ? null
+                            : DirectionUtils.mirror("right", documentDirection)
+                    }
                     data-testid={ `${ testId }-image` }
                 />
             ) }
@@ -199,7 +207,7 @@ export const PageHeader: React.FunctionComponent<PageHeaderPropsInterface> = (
                         <Header
                             className="page-header ellipsis"
                             as={ titleAs }
-                            textAlign={ titleTextAlign }
+                            textAlign={ DirectionUtils.mirror(titleTextAlign, documentDirection) }
                             data-testid={ `${ testId }-text-wrapper-loading` }
                         >
                             <div style={ { width: "250px" } }>
@@ -216,7 +224,7 @@ export const PageHeader: React.FunctionComponent<PageHeaderPropsInterface> = (
                         <Header
                             className={ headerContentClasses }
                             as={ titleAs }
-                            textAlign={ titleTextAlign }
+                            textAlign={ DirectionUtils.mirror(titleTextAlign, documentDirection) }
                             data-testid={ `${ testId }-text-wrapper` }
                         >
                             <span data-testid={ `${ testId }-title` }>
@@ -265,7 +273,7 @@ export const PageHeader: React.FunctionComponent<PageHeaderPropsInterface> = (
                                         className={ backButtonClasses }
                                         onClick={ backButton.onClick }
                                     >
-                                        <Icon name="arrow left"/>
+                                        <Icon name={ DirectionUtils.mirror("arrow left", documentDirection) }/>
                                         { backButton.text }
                                     </div>
                                 )
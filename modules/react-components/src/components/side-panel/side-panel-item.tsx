@@ -16,7 +16,9 @@
  * under the License.
  */
 
-import { ChildRouteInterface, RouteInterface, TestableComponentInterface } from "@wso2is/core/models";
+import { useDocumentDirection } from "@wso2is/core/hooks";
+import { ChildRouteInterface, RouteInterface, TestableComponentInterface, TextDirection } from "@wso2is/core/models";
+import { DirectionUtils } from "@wso2is/core/utils";
 import classNames from "classnames";
 import kebabCase from "lodash-es/kebabCase";
 import React, { ReactElement } from "react";
@@ -71,6 +73,8 @@ export const SidePanelItem: React.FunctionComponent<SidePanelItemPropsInterface>
         [ "data-testid" ]: testId
     } = props;
 
+    const documentDirection: TextDirection = useDocumentDirection();
+
     const classes = classNames(
         "side-panel-item",
         {
@@ -162,8 +166,8 @@ export const SidePanelItem: React.FunctionComponent<SidePanelItemPropsInterface>
                             transparent
                             className="left-icon"
                             size={ iconSize }
-                            floated="left"
-                            spaced="right"
+                            floated={ DirectionUtils.mirror("left", documentDirection) }
+                            spaced={ DirectionUtils.mirror("right", documentDirection) }
                             { ...route.icon }
                             data-testid={ `${ testId }-icon` }
                         />
@@ -189,7 +193,7 @@ export const SidePanelItem: React.FunctionComponent<SidePanelItemPropsInterface>
                                         className={ `caret ${ route.open ? "down" : "right" }` }
                                         icon={ caretIcon }
                                         size="auto"
-                                        floated="right"
+                                        floated={ DirectionUtils.mirror("right", documentDirection) }
                                         data-testid={ `${ testId }-caret` }
                                         transparent
                                     />
@@ -17,7 +17,9 @@
  *
  */
 
-import { TestableComponentInterface } from "@wso2is/core/models";
+import { useDocumentDirection } from "@wso2is/core/hooks";
+import { TestableComponentInterface, TextDirection } from "@wso2is/core/models";
+import { DirectionUtils } from "@wso2is/core/utils";
 import cloneDeep from "lodash-es/cloneDeep";
 import React, { FormEvent, FunctionComponent, ReactElement } from "react";
 import { Checkbox, Form, Popup } from "semantic-ui-react";
@@ -79,6 +81,8 @@ export const DataTableColumnSelector: FunctionComponent<DataTableColumnSelectorI
         [ "data-testid" ]: testId
     } = props;
 
+    const documentDirection: TextDirection = useDocumentDirection();
+
     /**
      * Checks if the column selector should be rendered or not.
      *
@@ -168,7 +172,7 @@ export const DataTableColumnSelector: FunctionComponent<DataTableColumnSelectorI
                                 </div>
                             </>
                         }
-                        position="bottom right"
+                        position={ DirectionUtils.mirror("bottom right", documentDirection) }
                         on="click"
                         trigger={
                             <GenericIcon
@@ -0,0 +1,167 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { CSVUtils } from "@wso2is/core/utils";
+import get from "lodash-es/get";
+import {
+    DataTableSortInterface,
+    TableColumnInterface,
+    TableDataInterface
+} from "./data-table";
+
+/**
+ * Utility class for the client side data operations of the data table.
+ */
+export class DataTableUtils {
+
+    /**
+     * Private constructor to avoid object instantiation from outside
+     * the class.
+     *
+     * @hideconstructor
+     */
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+    private constructor() { }
+
+    /**
+     * Resolves the raw value of a cell. Columns can override the default `dataIndex` lookup
+     * with `getValue` when the rendered content differs from the stored data.
+     *
+     * @param {TableDataInterface} item - Row data.
+     * @param {TableColumnInterface} column - Column.
+     * @return {string | number} Cell value.
+     */
+    public static getCellValue(item: TableDataInterface, column: TableColumnInterface): string | number {
+
+        const value: unknown = column.getValue
+            ? column.getValue(item)
+            : get(item, column.dataIndex);
+
+        if (value === undefined || value === null) {
+            return "";
+        }
+
+        return (typeof value === "number") ? value : String(value);
+    }
+
+    /**
+     * Checks if a column holds data. i.e. Not an action column.
+     *
+     * @param {TableColumnInterface} column - Column.
+     * @return {boolean}
+     */
+    public static isDataColumn(column: TableColumnInterface): boolean {
+
+        return column.dataIndex !== "action";
+    }
+
+    /**
+     * Filters the rows using case insensitive `contains` matching of the per column filter values.
+     *
+     * @param {TableDataInterface[]} data - Rows.
+     * @param {TableColumnInterface[]} columns - Columns.
+     * @param {Record<string, string>} filters - Filter values against the column IDs.
+     * @return {TableDataInterface[]} Matching rows.
+     */
+    public static filter(data: TableDataInterface[], columns: TableColumnInterface[],
+                         filters: Record<string, string>): TableDataInterface[] {
+
+        const activeFilters: [ TableColumnInterface, string ][] = columns
+            .filter((column: TableColumnInterface) => filters[ column.id ]?.trim())
+            .map((column: TableColumnInterface) => [ column, filters[ column.id ].trim().toLowerCase() ]);
+
+        if (activeFilters.length === 0) {
+            return data;
+        }
+
+        return data.filter((item: TableDataInterface) => {
+            return activeFilters.every(([ column, value ]: [ TableColumnInterface, string ]) => {
+                return String(DataTableUtils.getCellValue(item, column)).toLowerCase().includes(value);
+            });
+        });
+    }
+
+    /**
+     * Sorts the rows by the given sort orders. Earlier entries take precedence and the
+     * original order is kept for the rows which compare equal.
+     *
+     * @param {TableDataInterface[]} data - Rows.
+     * @param {TableColumnInterface[]} columns - Columns.
+     * @param {DataTableSortInterface[]} sortOrders - Sort orders.
+     * @return {TableDataInterface[]} Sorted rows.
+     */
+    public static sort(data: TableDataInterface[], columns: TableColumnInterface[],
+                       sortOrders: DataTableSortInterface[]): TableDataInterface[] {
+
+        const activeSortOrders: [ TableColumnInterface, number ][] = sortOrders
+            .map((sortOrder: DataTableSortInterface): [ TableColumnInterface, number ] => [
+                columns.find((column: TableColumnInterface) => column.id === sortOrder.columnId),
+                sortOrder.order === "descending" ? -1 : 1
+            ])
+            .filter(([ column ]: [ TableColumnInterface, number ]) => !!column);
+
+        if (activeSortOrders.length === 0) {
+            return data;
+        }
+
+        const collator: Intl.Collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+        return data
+            .map((item: TableDataInterface, index: number) => ({ index, item }))
+            .sort((a: { index: number; item: TableDataInterface }, b: { index: number; item: TableDataInterface }) => {
+                for (const [ column, direction ] of activeSortOrders) {
+                    const first: string | number = DataTableUtils.getCellValue(a.item, column);
+                    const second: string | number = DataTableUtils.getCellValue(b.item, column);
+                    const result: number = (typeof first === "number" && typeof second === "number")
+                        ? first - second
+                        : collator.compare(String(first), String(second));
+
+                    if (result !== 0) {
+                        return result * direction;
+                    }
+                }
+
+                return a.index - b.index;
+            })
+            .map(({ item }: { index: number; item: TableDataInterface }) => item);
+    }
+
+    /**
+     * Serializes the rows to CSV using {@link CSVUtils.serialize}, which neutralizes the formulae.
+     * Only the visible data columns are included.
+     *
+     * @param {TableDataInterface[]} data - Rows.
+     * @param {TableColumnInterface[]} columns - Columns.
+     * @return {string} CSV content.
+     */
+    public static toCSV(data: TableDataInterface[], columns: TableColumnInterface[]): string {
+
+        const exportableColumns: TableColumnInterface[] = columns.filter((column: TableColumnInterface) => {
+            return !column.hidden && DataTableUtils.isDataColumn(column);
+        });
+
+        return CSVUtils.serialize([
+            exportableColumns.map((column: TableColumnInterface) => {
+                return typeof column.title === "string" ? column.title : column.id;
+            }),
+            ...data.map((item: TableDataInterface) => exportableColumns
+                .map((column: TableColumnInterface) => DataTableUtils.getCellValue(item, column)))
+        ]);
+    }
+}
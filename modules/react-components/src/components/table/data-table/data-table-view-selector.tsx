@@ -0,0 +1,239 @@
+/**
+ * Copyright (c) 2021, WSO2 Inc. (http://www.wso2.org) All Rights Reserved.
+ *
+ * WSO2 Inc. licenses this file to you under the Apache License,
+ * Version 2.0 (the "License"); you may not use this file except
+ * in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing,
+ * software distributed under the License is distributed on an
+ * "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+ * KIND, either express or implied. See the License for the
+ * specific language governing permissions and limitations
+ * under the License.
+ *
+ */
+
+import { useDocumentDirection } from "@wso2is/core/hooks";
+import { TestableComponentInterface, TextDirection } from "@wso2is/core/models";
+import { DirectionUtils } from "@wso2is/core/utils";
+import React, {
+    ChangeEvent,
+    FunctionComponent,
+    KeyboardEvent,
+    ReactElement,
+    SyntheticEvent,
+    useState
+} from "react";
+import { Button, Icon, Input, List, Popup } from "semantic-ui-react";
+import { DataTableViewInterface } from "./data-table";
+import { Heading } from "../../typography";
+
+/**
+ * Interface for the data table view selector labels.
+ */
+export interface DataTableViewSelectorLabelsInterface {
+    /**
+     * Heading of the popup.
+     */
+    header?: string;
+    /**
+     * Placeholder shown when there are no saved views.
+     */
+    emptyPlaceholder?: string;
+    /**
+     * Placeholder of the view name input.
+     */
+    namePlaceholder?: string;
+    /**
+     * Hint of the delete action.
+     */
+    delete?: string;
+    /**
+     * Label of the save action.
+     */
+    save?: string;
+}
+
+/**
+ * Proptypes for the data table view selector component.
+ */
+export interface DataTableViewSelectorPropsInterface extends TestableComponentInterface {
+    /**
+     * Trigger icon float.
+     */
+    floated?: "left" | "right";
+    /**
+     * Labels of the component.
+     */
+    labels?: DataTableViewSelectorLabelsInterface;
+    /**
+     * Callback to apply a view.
+     * @param {DataTableViewInterface} view - Selected view.
+     */
+    onViewApply: (view: DataTableViewInterface) => void;
+    /**
+     * Callback to delete a view.
+     * @param {DataTableViewInterface} view - View to be deleted.
+     */
+    onViewDelete: (view: DataTableViewInterface) => void;
+    /**
+     * Callback to save the current state of the table as a view.
+     * @param {string} name - Name of the view.
+     */
+    onViewSave: (name: string) => void;
+    /**
+     * Saved views.
+     */
+    views: DataTableViewInterface[];
+}
+
+/**
+ * Data table saved view selector.
+ *
+ * @param {DataTableViewSelectorPropsInterface} props - Props injected to the component.
+ * @return {React.ReactElement}
+ */
+export const DataTableViewSelector: FunctionComponent<DataTableViewSelectorPropsInterface> = (
+    props: DataTableViewSelectorPropsInterface
+): ReactElement => {
+
+    const {
+        floated,
+        labels,
+        onViewApply,
+        onViewDelete,
+        onViewSave,
+        views,
+        [ "data-testid" ]: testId
+    } = props;
+
+    const [ viewName, setViewName ] = useState<string>("");
+
+    const documentDirection: TextDirection = useDocumentDirection();
+
+    const resolvedLabels: DataTableViewSelectorLabelsInterface = {
+        ...DataTableViewSelector.defaultProps.labels,
+        ...labels
+    };
+
+    /**
+     * Saves the current state of the table under the entered name.
+     */
+    const handleViewSave = (): void => {
+        if (!viewName.trim()) {
+            return;
+        }
+
+        onViewSave(viewName.trim());
+        setViewName("");
+    };
+
+    return (
+        <div className="data-table-view-selector" data-testid={ testId }>
+            <Popup
+                flowing
+                basic
+                pinned
+                className="data-table-view-selector-popup"
+                content={
+                    <>
+                        <div className="data-table-view-selector-popup-heading-container">
+                            <Heading as="h6">
+                                { resolvedLabels.header }
+                            </Heading>
+                        </div>
+                        <div className="data-table-view-selector-popup-content">
+                            {
+                                views.length > 0
+                                    ? (
+                                        <List selection verticalAlign="middle">
+                                            {
+                                                views.map((view: DataTableViewInterface) => (
+                                                    <List.Item
+                                                        key={ view.name }
+                                                        onClick={ () => onViewApply(view) }
+                                                        data-testid={ `${ testId }-view` }
+                                                    >
+                                                        <List.Content floated="right">
+                                                            <Icon
+                                                                link
+                                                                name="trash alternate"
+                                                                color="grey"
+                                                                title={ resolvedLabels.delete }
+                                                                onClick={ (e: SyntheticEvent) => {
+                                                                    e.stopPropagation();
+                                                                    onViewDelete(view);
+                                                                } }
+                                                                data-testid={ `${ testId }-delete-button` }
+                                                            />
+                                                        </List.Content>
+                                                        <List.Content>{ view.name }</List.Content>
+                                                    </List.Item>
+                                                ))
+                                            }
+                                        </List>
+                                    )
+                                    : (
+                                        <div className="data-table-view-selector-placeholder">
+                                            { resolvedLabels.emptyPlaceholder }
+                                        </div>
+                                    )
+                            }
+                            <Input
+                                fluid
+                                size="small"
+                                value={ viewName }
+                                placeholder={ resolvedLabels.namePlaceholder }
+                                onChange={ (e: ChangeEvent<HTMLInputElement>) => setViewName(e.target.value) }
+                                onKeyDown={ (e: KeyboardEvent<HTMLInputElement>) => {
+                                    e.key === "Enter" && handleViewSave();
+                                } }
+                                action={ (
+                                    <Button
+                                        basic
+                                        size="small"
+                                        disabled={ !viewName.trim() }
+                                        onClick={ handleViewSave }
+                                        data-testid={ `${ testId }-save-button` }
+                                    >
+                                        { resolvedLabels.save }
+                                    </Button>
+                                ) }
+                                data-testid={ `${ testId }-name-input` }
+                            />
+                        </div>
+                    </>
+                }
+                position={ DirectionUtils.mirror("bottom right", documentDirection) }
+                on="click"
+                trigger={
+                    <Icon
+                        link
+                        className={ `data-table-operation-trigger ${ floated }` }
+                        name="bookmark outline"
+                        color="grey"
+                    />
+                }
+            />
+        </div>
+    );
+};
+
+/**
+ * Default props for the component.
+ */
+DataTableViewSelector.defaultProps = {
+    "data-testid": "data-table-view-selector",
+    floated: "right",
+    labels: {
+        delete: "Delete view",
+        emptyPlaceholder: "No saved views",
+        header: "Saved Views",
+        namePlaceholder: "View name",
+        save: "Save"
+    }
+};
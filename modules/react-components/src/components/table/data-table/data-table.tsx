@@ -17,17 +17,34 @@
  *
  */
 
-import { TestableComponentInterface } from "@wso2is/core/models";
+import { useDocumentDirection } from "@wso2is/core/hooks";
+import { TestableComponentInterface, TextDirection } from "@wso2is/core/models";
+import { DirectionUtils } from "@wso2is/core/utils";
 import classNames from "classnames";
 import get from "lodash-es/get";
 import isEqual from "lodash-es/isEqual";
-import React, { Fragment, ReactElement, ReactNode, SyntheticEvent, useEffect, useState } from "react";
+import React, {
+    ChangeEvent,
+    FocusEvent,
+    Fragment,
+    KeyboardEvent,
+    MouseEvent,
+    ReactElement,
+    ReactNode,
+    SyntheticEvent,
+    UIEvent,
+    useEffect,
+    useMemo,
+    useRef,
+    useState
+} from "react";
 import {
     Dropdown,
     DropdownItemProps,
     Grid,
     Header,
     Icon,
+    Input,
     Placeholder,
     Popup,
     Responsive,
@@ -45,8 +62,11 @@ import { DataTableFooter } from "./data-table-footer";
 import { DataTableHeader } from "./data-table-header";
 import { DataTableHeaderCell } from "./data-table-header-cell";
 import { DataTableRow } from "./data-table-row";
+import { DataTableUtils } from "./data-table-utils";
+import { DataTableViewSelector, DataTableViewSelectorLabelsInterface } from "./data-table-view-selector";
 import { Avatar } from "../../avatar";
 import { GenericIconProps } from "../../icon";
+import { Hint } from "../../typography";
 
 /**
  * Interface for the Data Table sub components.
@@ -86,6 +106,10 @@ export interface DataTablePropsInterface<T = {}> extends Omit<TableProps, "colum
      * Custom icon for the column selector trigger.
      */
     columnSelectorTriggerIcon?: GenericIconProps[ "icon" ];
+    /**
+     * Placeholder for the column filter inputs.
+     */
+    columnFilterPlaceholder?: string;
     /**
      * Table data source.
      */
@@ -98,6 +122,19 @@ export interface DataTablePropsInterface<T = {}> extends Omit<TableProps, "colum
      * Table data source.
      */
     data: TableDataInterface<T>[];
+    /**
+     * Enables moving between the rows using the arrow, `Home` & `End` keys and
+     * selecting them using `Enter` or `Space`.
+     */
+    enableKeyboardNavigation?: boolean;
+    /**
+     * Hint for the CSV export trigger.
+     */
+    exportButtonLabel?: string;
+    /**
+     * Name of the exported CSV file without the extension.
+     */
+    exportFileName?: string;
     /**
      * Table extensions.
      */
@@ -107,7 +144,7 @@ export interface DataTablePropsInterface<T = {}> extends Omit<TableProps, "colum
      */
     externalSearch?: ReactNode;
     /**
-     * Table id.
+     * Table id. Required to persist the saved views.
      */
     id?: string;
     /**
@@ -118,19 +155,44 @@ export interface DataTablePropsInterface<T = {}> extends Omit<TableProps, "colum
      * Optional meta for the loading state.
      */
     loadingStateOptions?: TableLoadingStateOptionsInterface;
+    /**
+     * Allows sorting by more than one column. Columns are added to the sort by holding
+     * `Shift` while clicking on the header cells.
+     */
+    multiSort?: boolean;
     /**
      * Callback to inform the new set of visible columns.
      * @param {TableColumnInterface[]} columns - New columns.
      */
     onColumnSelectionChange?: (columns: TableColumnInterface[]) => void;
+    /**
+     * Callback to inform the new column filter values.
+     * @param {Record<string, string>} filters - Filter values against the column IDs.
+     */
+    onFilterChange?: (filters: Record<string, string>) => void;
     /**
      * Callback row selection.
      */
     onRowClick: (e: SyntheticEvent, item: TableDataInterface) => void;
+    /**
+     * Hint shown under the table operations. ex: To state that the local sorting, filtering & export
+     * only cover the current page of a paginated list.
+     */
+    operationsHint?: ReactNode;
+    /**
+     * Callback to inform the new sort orders.
+     * @param {DataTableSortInterface[]} sortOrders - Sort orders in the order of precedence.
+     */
+    onSortChange?: (sortOrders: DataTableSortInterface[]) => void;
     /**
      * Placeholders for the table.
      */
     placeholders?: ReactNode;
+    /**
+     * Should the table sort & filter the data by itself. If not, the data is expected to be
+     * processed by the parent using `onSortChange` & `onFilterChange`.
+     */
+    processDataLocally?: boolean;
     /**
      * UI Props for the Row.
      */
@@ -139,6 +201,14 @@ export interface DataTablePropsInterface<T = {}> extends Omit<TableProps, "colum
      * Show/Hide column selector.
      */
     showColumnSelector?: boolean;
+    /**
+     * Show/Hide the filter inputs of the filterable columns.
+     */
+    showColumnFilters?: boolean;
+    /**
+     * Show/Hide the CSV export trigger.
+     */
+    showExport?: boolean;
     /**
      * Show/Hide header cells.
      */
@@ -155,6 +225,10 @@ export interface DataTablePropsInterface<T = {}> extends Omit<TableProps, "colum
      * Should the toggle disallowed columns be shown as disabled.
      */
     showToggleDisallowedColumns?: boolean;
+    /**
+     * Should the column headers stick to the top while scrolling.
+     */
+    stickyHeader?: boolean;
     /**
      * Should the table appear on a transparent background.
      */
@@ -163,6 +237,18 @@ export interface DataTablePropsInterface<T = {}> extends Omit<TableProps, "colum
      * Specifies if a row should be selectable.
      */
     isRowSelectable?: (item: TableDataInterface<T>) => boolean;
+    /**
+     * Labels for the saved view selector.
+     */
+    viewSelectorLabels?: DataTableViewSelectorLabelsInterface;
+    /**
+     * Storage for the saved views. The view selector is shown only if this and the `id` are provided.
+     */
+    viewStorage?: DataTableViewStorageInterface;
+    /**
+     * Renders only the rows in the visible window of a fixed height scroll container.
+     */
+    virtualization?: TableVirtualizationOptionsInterface;
 }
 
 /**
@@ -218,6 +304,10 @@ export interface StrictColumnPropsInterface {
      * key prop for React.
      */
     key?: string | number;
+    /**
+     * Should the column have a filter input.
+     */
+    filterable?: boolean;
     /**
      * Unique ID for the column.
      */
@@ -227,6 +317,11 @@ export interface StrictColumnPropsInterface {
      * @param {DataTableSortOrder} sortOrder - New sort order.
      */
     getSortOrder?: (sortOrder: DataTableSortOrder, column: TableColumnInterface) => void;
+    /**
+     * Resolves the raw value used for sorting, filtering & exporting. Defaults to the value at `dataIndex`.
+     * @param {TableDataInterface} item - Row data.
+     */
+    getValue?: (item: TableDataInterface) => string | number;
     /**
      * Should the column be hidden.
      */
@@ -258,6 +353,59 @@ export interface StrictColumnPropsInterface {
  */
 export type DataTableSortOrder = "" | "ascending" | "descending";
 
+/**
+ * Interface for a sort order of a column.
+ */
+export interface DataTableSortInterface {
+    /**
+     * ID of the column.
+     */
+    columnId: string;
+    /**
+     * Sort order.
+     */
+    order: DataTableSortOrder;
+}
+
+/**
+ * Interface for a saved view of the table.
+ */
+export interface DataTableViewInterface {
+    /**
+     * Column filter values against the column IDs.
+     */
+    filters: Record<string, string>;
+    /**
+     * IDs of the hidden columns.
+     */
+    hiddenColumns: string[];
+    /**
+     * Name of the view.
+     */
+    name: string;
+    /**
+     * Sort orders in the order of precedence.
+     */
+    sortOrders: DataTableSortInterface[];
+}
+
+/**
+ * Interface for the storage adapter of the saved views.
+ */
+export interface DataTableViewStorageInterface {
+    /**
+     * Retrieves the saved views of a table.
+     * @param {string} tableId - ID of the table.
+     */
+    getViews: (tableId: string) => Promise<DataTableViewInterface[]>;
+    /**
+     * Persists the saved views of a table.
+     * @param {string} tableId - ID of the table.
+     * @param {DataTableViewInterface[]} views - Saved views.
+     */
+    saveViews: (tableId: string, views: DataTableViewInterface[]) => Promise<void>;
+}
+
 /**
  * Table Column Interface.
  */
@@ -327,6 +475,24 @@ export interface TableLoadingStateOptionsInterface {
     imageType?: "circular" | "square";
 }
 
+/**
+ * Interface for the row virtualization options.
+ */
+export interface TableVirtualizationOptionsInterface {
+    /**
+     * Height of the scroll container in pixels.
+     */
+    height: number;
+    /**
+     * Number of rows to render outside the visible window. Helps to avoid flickering while scrolling.
+     */
+    overscan?: number;
+    /**
+     * Fixed height of a row in pixels.
+     */
+    rowHeight: number;
+}
+
 export interface TableExtensionInterface {
     /**
      * Position to place the extension.
@@ -342,6 +508,12 @@ export interface TableExtensionInterface {
     isExternalRendererProvided?: boolean;
 }
 
+/**
+ * Default number of rows rendered outside the visible window of a virtualized table.
+ * @type {number}
+ */
+const DEFAULT_VIRTUALIZATION_OVERSCAN: number = 5;
+
 /**
  * Data Driven Table Component.
  *
@@ -360,31 +532,48 @@ export const DataTable = <T extends object = {}>(
         columnSelectorHeader,
         columnSelectorWidth,
         columnSelectorTriggerIcon,
+        columnFilterPlaceholder,
         columns: initialColumns,
         data,
+        enableKeyboardNavigation,
+        exportButtonLabel,
+        exportFileName,
         extensions,
         externalSearch,
+        id,
         isLoading,
         loadingStateOptions,
+        multiSort,
         onColumnSelectionChange,
+        onFilterChange,
         onRowClick,
+        onSortChange,
+        operationsHint,
         placeholders: externalPlaceholders,
+        processDataLocally,
         rowUIProps,
         selectable,
         showColumnSelector,
+        showColumnFilters,
+        showExport,
         showHeader,
         showOperationsHeader,
         showSearch,
         showToggleDisallowedColumns,
+        stickyHeader,
         testId,
         isRowSelectable,
         transparent,
+        viewSelectorLabels,
+        viewStorage,
+        virtualization,
         ...rest
     } = props;
 
     const classes = classNames(
         "data-table",
         {
+            "sticky-header": stickyHeader,
             transparent
         },
         className
@@ -392,6 +581,46 @@ export const DataTable = <T extends object = {}>(
 
     const [ columns, setColumns ] = useState<TableColumnInterface[]>(initialColumns);
     const [ dynamicTableProps, setDynamicTableProps ] = useState<TableProps>(undefined);
+    const [ sortOrders, setSortOrders ] = useState<DataTableSortInterface[]>(
+        (initialColumns ?? [])
+            .filter((column: TableColumnInterface) => column.sortOrder)
+            .map((column: TableColumnInterface) => ({ columnId: column.id, order: column.sortOrder }))
+    );
+    const [ filters, setFilters ] = useState<Record<string, string>>({});
+    const [ views, setViews ] = useState<DataTableViewInterface[]>([]);
+    const [ scrollTop, setScrollTop ] = useState<number>(0);
+    const [ activeRowIndex, setActiveRowIndex ] = useState<number>(-1);
+
+    const scrollContainer = useRef<HTMLDivElement>(null);
+    const rowContainer = useRef<HTMLElement>(null);
+
+    const documentDirection: TextDirection = useDocumentDirection();
+
+    const isViewSelectorEnabled: boolean = !!(viewStorage && id);
+    const resolvedTestId: string = testId ?? props[ "data-testid" ];
+
+    useEffect(() => {
+        if (!isViewSelectorEnabled) {
+            return;
+        }
+
+        viewStorage.getViews(id)
+            .then((views: DataTableViewInterface[]) => setViews(views ?? []))
+            .catch(() => setViews([]));
+    }, [ viewStorage, id ]);
+
+    useEffect(() => {
+        if (!enableKeyboardNavigation || activeRowIndex < 0 || !rowContainer.current) {
+            return;
+        }
+
+        const row: HTMLElement = rowContainer.current
+            .querySelector<HTMLElement>(`[data-row-index="${ activeRowIndex }"]`);
+
+        if (row && row !== document.activeElement) {
+            row.focus();
+        }
+    }, [ activeRowIndex, scrollTop ]);
 
     useEffect(() => {
         if (!initialColumns) {
@@ -464,6 +693,17 @@ export const DataTable = <T extends object = {}>(
         return isDataValid(data);
     };
 
+    /**
+     * Rows after applying the local sorting & filtering.
+     */
+    const rows: TableDataInterface[] = useMemo(() => {
+        if (!processDataLocally || !isDataValid(data) || !isColumnsValid(columns)) {
+            return data ?? [];
+        }
+
+        return DataTableUtils.sort(DataTableUtils.filter(data, columns, filters), columns, sortOrders);
+    }, [ data, columns, filters, sortOrders, processDataLocally ]);
+
     const renderActions = (item: TableDataInterface, action: TableActionsInterface, index: number): ReactElement => {
 
         const {
@@ -491,7 +731,7 @@ export const DataTable = <T extends object = {}>(
             return (
                 <Dropdown
                     key={ index }
-                    direction="left"
+                    direction={ DirectionUtils.mirror("left", documentDirection) }
                     icon={ null }
                     trigger={ (
                         <Popup
@@ -591,6 +831,8 @@ export const DataTable = <T extends object = {}>(
             hidden: columnHidden,
             getSortOrder: getColumnSortOrder,
             onClick: columnOnClick,
+            // Sort orders are resolved from the internal state to support sorting by multiple columns.
+            // eslint-disable-next-line @typescript-eslint/no-unused-vars
             sortOrder: columnSortOrder,
             sortable: columnSortable,
             ...rest
@@ -600,13 +842,35 @@ export const DataTable = <T extends object = {}>(
             return;
         }
 
-        const handleHeaderCellClick = (e: SyntheticEvent) => {
+        const handleHeaderCellClick = (e: MouseEvent) => {
             columnOnClick && columnOnClick(e);
 
             if (!columnSortable) {
                 return;
             }
 
+            const currentOrder: DataTableSortOrder = sortOrders
+                .find((sortOrder: DataTableSortInterface) => sortOrder.columnId === column.id)?.order;
+            let newOrder: DataTableSortOrder;
+            let newSortOrders: DataTableSortInterface[];
+
+            if (multiSort && e.shiftKey) {
+                // Cycles through ascending, descending & unsorted while keeping the other sorted columns.
+                newOrder = !currentOrder
+                    ? "ascending"
+                    : currentOrder === "ascending" ? "descending" : "";
+                newSortOrders = currentOrder
+                    ? sortOrders
+                        .map((sortOrder: DataTableSortInterface) => sortOrder.columnId === column.id
+                            ? { ...sortOrder, order: newOrder }
+                            : sortOrder)
+                        .filter((sortOrder: DataTableSortInterface) => sortOrder.order)
+                    : [ ...sortOrders, { columnId: column.id, order: newOrder } ];
+            } else {
+                newOrder = currentOrder === "ascending" ? "descending" : "ascending";
+                newSortOrders = [ { columnId: column.id, order: newOrder } ];
+            }
+
             const modifiedColumns: TableColumnInterface[] = [ ...columns ];
 
             modifiedColumns.forEach((evalColumn: TableColumnInterface) => {
@@ -614,16 +878,13 @@ export const DataTable = <T extends object = {}>(
                     return;
                 }
 
-                const newOrder: DataTableSortOrder = evalColumn.sortOrder === "ascending"
-                    ? "descending"
-                    : "ascending";
-
                 getColumnSortOrder && getColumnSortOrder(newOrder, column);
 
                 evalColumn.sortOrder = newOrder;
             });
 
             setColumns(modifiedColumns);
+            handleSortOrdersChange(newSortOrders);
         };
 
         const resolveSortOrder = (order: DataTableSortOrder) => {
@@ -641,9 +902,11 @@ export const DataTable = <T extends object = {}>(
         return (
             <DataTable.HeaderCell
                 key={ columnKey ?? index }
-                textAlign={ columnTextAlign }
+                textAlign={ DirectionUtils.mirror(columnTextAlign, documentDirection) }
                 onClick={ handleHeaderCellClick }
-                sorted={ resolveSortOrder(columnSortOrder) }
+                sorted={ resolveSortOrder(
+                    sortOrders.find((sortOrder: DataTableSortInterface) => sortOrder.columnId === column.id)?.order
+                ) }
                 { ...rest }
             >
                 { columnTitle }
@@ -716,8 +979,325 @@ export const DataTable = <T extends object = {}>(
         onColumnSelectionChange(columns);
     };
 
-    return (
+    /**
+     * Updates the sort orders and informs the parent.
+     *
+     * @param {DataTableSortInterface[]} newSortOrders - New sort orders.
+     */
+    const handleSortOrdersChange = (newSortOrders: DataTableSortInterface[]): void => {
+        setSortOrders(newSortOrders);
+        onSortChange && onSortChange(newSortOrders);
+    };
+
+    /**
+     * Updates the filter value of a column and informs the parent.
+     *
+     * @param {string} columnId - ID of the column.
+     * @param {string} value - Filter value.
+     */
+    const handleColumnFilterChange = (columnId: string, value: string): void => {
+        const newFilters: Record<string, string> = { ...filters, [ columnId ]: value };
+
+        if (!value) {
+            delete newFilters[ columnId ];
+        }
+
+        setFilters(newFilters);
+        onFilterChange && onFilterChange(newFilters);
+    };
+
+    /**
+     * Applies the columns, sort orders and filters of a saved view.
+     *
+     * @param {DataTableViewInterface} view - Saved view.
+     */
+    const handleViewApply = (view: DataTableViewInterface): void => {
+        const viewColumns: TableColumnInterface[] = columns.map((column: TableColumnInterface) => {
+            return column.allowToggleVisibility
+                ? { ...column, hidden: view.hiddenColumns.includes(column.id) }
+                : column;
+        });
+        const viewSortOrders: DataTableSortInterface[] = view.sortOrders
+            .filter((sortOrder: DataTableSortInterface) => {
+                return columns.some((column: TableColumnInterface) => column.id === sortOrder.columnId);
+            });
+
+        if (!isEqual(viewColumns, columns)) {
+            setColumns(viewColumns);
+            onColumnSelectionChange && onColumnSelectionChange(viewColumns);
+        }
+
+        viewSortOrders.forEach((sortOrder: DataTableSortInterface) => {
+            const column: TableColumnInterface = columns
+                .find((column: TableColumnInterface) => column.id === sortOrder.columnId);
+
+            column.getSortOrder && column.getSortOrder(sortOrder.order, column);
+        });
+
+        handleSortOrdersChange(viewSortOrders);
+        setFilters(view.filters);
+        onFilterChange && onFilterChange(view.filters);
+    };
+
+    /**
+     * Persists the saved views. The views are left unchanged if they can't be persisted.
+     *
+     * @param {DataTableViewInterface[]} newViews - Saved views.
+     */
+    const persistViews = (newViews: DataTableViewInterface[]): void => {
+        viewStorage.saveViews(id, newViews)
+            .then(() => setViews(newViews))
+            .catch(() => null);
+    };
+
+    /**
+     * Saves the current columns, sort orders and filters as a view. A view with the same name is replaced.
+     *
+     * @param {string} name - Name of the view.
+     */
+    const handleViewSave = (name: string): void => {
+        const view: DataTableViewInterface = {
+            filters,
+            hiddenColumns: columns
+                .filter((column: TableColumnInterface) => column.hidden)
+                .map((column: TableColumnInterface) => column.id),
+            name,
+            sortOrders
+        };
+
+        persistViews([ ...views.filter((savedView: DataTableViewInterface) => savedView.name !== name), view ]);
+    };
+
+    /**
+     * Deletes a saved view.
+     *
+     * @param {DataTableViewInterface} view - Saved view.
+     */
+    const handleViewDelete = (view: DataTableViewInterface): void => {
+        persistViews(views.filter((savedView: DataTableViewInterface) => savedView.name !== view.name));
+    };
+
+    /**
+     * Downloads the visible columns of the processed rows as a CSV file.
+     */
+    const handleExport = (): void => {
+        const blob: Blob = new Blob([ DataTableUtils.toCSV(rows, columns) ], { type: "text/csv;charset=utf-8" });
+        const url: string = URL.createObjectURL(blob);
+        const anchor: HTMLAnchorElement = document.createElement("a");
+
+        anchor.href = url;
+        anchor.download = `${ exportFileName }.csv`;
+        document.body.appendChild(anchor);
+        anchor.click();
+        document.body.removeChild(anchor);
+        URL.revokeObjectURL(url);
+    };
+
+    /**
+     * Resolves the range of rows to be rendered. All the rows are rendered if virtualization is disabled.
+     *
+     * @return {[number, number]} Start (inclusive) & end (exclusive) indexes.
+     */
+    const resolveVisibleRange = (): [ number, number ] => {
+        if (!virtualization) {
+            return [ 0, rows.length ];
+        }
+
+        const { height, overscan, rowHeight } = virtualization;
+        const resolvedOverscan: number = overscan ?? DEFAULT_VIRTUALIZATION_OVERSCAN;
+
+        return [
+            Math.max(0, Math.floor(scrollTop / rowHeight) - resolvedOverscan),
+            Math.min(rows.length, Math.ceil((scrollTop + height) / rowHeight) + resolvedOverscan)
+        ];
+    };
+
+    /**
+     * Scrolls the virtualized rows so that the row at the given index is within the visible window.
+     *
+     * @param {number} index - Row index.
+     */
+    const scrollRowIntoWindow = (index: number): void => {
+        if (!virtualization || !scrollContainer.current) {
+            return;
+        }
+
+        const { height, rowHeight } = virtualization;
+        const container: HTMLDivElement = scrollContainer.current;
+        const rowTop: number = index * rowHeight;
+
+        if (rowTop < container.scrollTop) {
+            container.scrollTop = rowTop;
+        } else if (rowTop + rowHeight > container.scrollTop + height) {
+            container.scrollTop = rowTop + rowHeight - height;
+        }
+
+        setScrollTop(container.scrollTop);
+    };
+
+    /**
+     * Handles the keyboard navigation between the rows.
+     *
+     * @param {React.KeyboardEvent<HTMLElement>} e - Keyboard event.
+     * @param {TableDataInterface} item - Row data.
+     * @param {number} index - Row index.
+     */
+    const handleRowKeyDown = (e: KeyboardEvent<HTMLElement>, item: TableDataInterface, index: number): void => {
+        // Ignore the events bubbling up from the interactive elements inside the row.
+        if (e.target !== e.currentTarget) {
+            return;
+        }
+
+        let nextIndex: number;
+
+        switch (e.key) {
+            case "ArrowDown":
+                nextIndex = Math.min(index + 1, rows.length - 1);
+
+                break;
+            case "ArrowUp":
+                nextIndex = Math.max(index - 1, 0);
+
+                break;
+            case "Home":
+                nextIndex = 0;
+
+                break;
+            case "End":
+                nextIndex = rows.length - 1;
+
+                break;
+            case "Enter":
+            case " ":
+                e.preventDefault();
+                selectable && isRowSelectable(item) && onRowClick(e, item);
+
+                return;
+            default:
+                return;
+        }
+
+        e.preventDefault();
+        scrollRowIntoWindow(nextIndex);
+        setActiveRowIndex(nextIndex);
+    };
+
+    /**
+     * Tracks the focused row to restore the focus after the virtualized rows are re-rendered.
+     *
+     * @param {React.FocusEvent<HTMLElement>} e - Focus event.
+     * @param {number} index - Row index.
+     */
+    const handleRowFocus = (e: FocusEvent<HTMLElement>, index: number): void => {
+        if (e.target !== e.currentTarget) {
+            return;
+        }
+
+        rowContainer.current = e.currentTarget.parentElement;
+        setActiveRowIndex(index);
+    };
+
+    /**
+     * Renders the table operations. i.e. CSV export, saved views and column selector.
+     *
+     * @param {"left" | "right"} floated - Direction to float the operations.
+     * @return {React.ReactElement}
+     */
+    const renderTableOperations = (floated: "left" | "right"): ReactElement => (
+        <div className={ `data-table-operations ${ floated }` }>
+            {
+                showExport && (
+                    <Popup
+                        trigger={ (
+                            <Icon
+                                link
+                                className="data-table-operation-trigger"
+                                name="download"
+                                color="grey"
+                                disabled={ rows.length === 0 }
+                                onClick={ handleExport }
+                                data-testid={ `${ resolvedTestId }-export-button` }
+                            />
+                        ) }
+                        position="top center"
+                        content={ exportButtonLabel }
+                        inverted
+                    />
+                )
+            }
+            {
+                isViewSelectorEnabled && isColumnsValid(columns) && (
+                    <DataTableViewSelector
+                        floated={ floated }
+                        labels={ viewSelectorLabels }
+                        onViewApply={ handleViewApply }
+                        onViewDelete={ handleViewDelete }
+                        onViewSave={ handleViewSave }
+                        views={ views }
+                        data-testid={ `${ resolvedTestId }-view-selector` }
+                    />
+                )
+            }
+            {
+                showColumnSelector && isColumnsValid(columns) && (
+                    <DataTableColumnSelector
+                        columns={ columns }
+                        columnSelectorHeader={ columnSelectorHeader }
+                        columnSelectorWidth={ columnSelectorWidth }
+                        floated={ floated }
+                        onColumnSelectionChange={ handleColumnSelectorChange }
+                        showToggleDisallowedColumns={ showToggleDisallowedColumns }
+                        triggerIcon={ columnSelectorTriggerIcon }
+                    />
+                )
+            }
+        </div>
+    );
+
+    /**
+     * Renders the filter inputs of the filterable columns.
+     *
+     * @return {React.ReactElement}
+     */
+    const renderColumnFilters = (): ReactElement => (
+        <DataTable.Row className="data-table-filter-row">
+            {
+                columns.map((column: TableColumnInterface, index: number) => {
+                    if (column.hidden) {
+                        return;
+                    }
+
+                    return (
+                        <DataTable.HeaderCell key={ column.key ?? index }>
+                            {
+                                column.filterable && (
+                                    <Input
+                                        fluid
+                                        transparent
+                                        size="small"
+                                        icon="filter"
+                                        iconPosition="left"
+                                        value={ filters[ column.id ] ?? "" }
+                                        placeholder={ columnFilterPlaceholder }
+                                        onChange={ (e: ChangeEvent<HTMLInputElement>) => {
+                                            handleColumnFilterChange(column.id, e.target.value);
+                                        } }
+                                        data-testid={ `${ resolvedTestId }-${ column.id }-filter` }
+                                    />
+                                )
+                            }
+                        </DataTable.HeaderCell>
+                    );
+                })
+            }
+        </DataTable.Row>
+    );
+
+    const visibleRange: [ number, number ] = resolveVisibleRange();
+
+    const table: ReactElement = (
         <Table
+            id={ id }
             className={ classes }
             selectable={ !isLoading && selectable }
             data-testid={ testId }
@@ -764,7 +1344,8 @@ export const DataTable = <T extends object = {}>(
                             }
 
                             {
-                                showOperationsHeader && (showSearch || showColumnSelector) && (
+                                showOperationsHeader
+                                && (showSearch || showColumnSelector || showExport || isViewSelectorEnabled) && (
                                     <DataTable.Header fullWidth>
                                         <DataTable.Row>
                                             <DataTable.HeaderCell
@@ -785,23 +1366,14 @@ export const DataTable = <T extends object = {}>(
                                                             as={ Grid.Column }
                                                             minWidth={ Responsive.onlyMobile.maxWidth }
                                                             mobile={ 16 } tablet={ 8 } computer={ 8 }
-                                                            textAlign="right"
+                                                            textAlign={
+                                                                DirectionUtils.mirror("right", documentDirection)
+                                                            }
                                                         >
                                                             {
-                                                                showColumnSelector && isColumnsValid(columns) && (
-                                                                    <DataTableColumnSelector
-                                                                        columns={ columns }
-                                                                        columnSelectorHeader={ columnSelectorHeader }
-                                                                        columnSelectorWidth={ columnSelectorWidth }
-                                                                        floated="right"
-                                                                        onColumnSelectionChange={
-                                                                            handleColumnSelectorChange
-                                                                        }
-                                                                        showToggleDisallowedColumns={
-                                                                            showToggleDisallowedColumns
-                                                                        }
-                                                                        triggerIcon={ columnSelectorTriggerIcon }
-                                                                    />
+                                                                renderTableOperations(
+                                                                    DirectionUtils.mirror<"left" | "right">("right",
+                                                                        documentDirection)
                                                                 )
                                                             }
                                                         </Responsive>
@@ -809,27 +1381,29 @@ export const DataTable = <T extends object = {}>(
                                                             as={ Grid.Column }
                                                             maxWidth={ Responsive.onlyMobile.maxWidth }
                                                             mobile={ 16 } tablet={ 8 } computer={ 8 }
-                                                            textAlign="left"
+                                                            textAlign={
+                                                                DirectionUtils.mirror("left", documentDirection)
+                                                            }
                                                         >
                                                             {
-                                                                showColumnSelector && isColumnsValid(columns) && (
-                                                                    <DataTableColumnSelector
-                                                                        columns={ columns }
-                                                                        columnSelectorHeader={ columnSelectorHeader }
-                                                                        columnSelectorWidth={ columnSelectorWidth }
-                                                                        floated="left"
-                                                                        onColumnSelectionChange={
-                                                                            handleColumnSelectorChange
-                                                                        }
-                                                                        showToggleDisallowedColumns={
-                                                                            showToggleDisallowedColumns
-                                                                        }
-                                                                        triggerIcon={ columnSelectorTriggerIcon }
-                                                                    />
+                                                                renderTableOperations(
+                                                                    DirectionUtils.mirror<"left" | "right">("left",
+                                                                        documentDirection)
                                                                 )
                                                             }
                                                         </Responsive>
                                                     </Grid.Row>
+                                                    {
+                                                        operationsHint && (
+                                                            <Grid.Row className="data-table-operations-hint">
+                                                                <Grid.Column width={ 16 }>
+                                                                    <Hint compact icon="info circle">
+                                                                        { operationsHint }
+                                                                    </Hint>
+                                                                </Grid.Column>
+                                                            </Grid.Row>
+                                                        )
+                                                    }
                                                 </Grid>
                                             </DataTable.HeaderCell>
                                         </DataTable.Row>
@@ -838,27 +1412,45 @@ export const DataTable = <T extends object = {}>(
                             }
 
                             {
-                                isColumnsValid(columns) && showHeader && (
-                                    <DataTable.Header>
-                                        <DataTable.Row>
-                                            {
-                                                columns.map((column: TableColumnInterface, index) =>
-                                                    renderHeaderCell(column, index))
-                                            }
-                                        </DataTable.Row>
+                                isColumnsValid(columns) && (showHeader || showColumnFilters) && (
+                                    <DataTable.Header className="data-table-column-header">
+                                        {
+                                            showHeader && (
+                                                <DataTable.Row>
+                                                    {
+                                                        columns.map((column: TableColumnInterface, index) =>
+                                                            renderHeaderCell(column, index))
+                                                    }
+                                                </DataTable.Row>
+                                            )
+                                        }
+                                        { showColumnFilters && renderColumnFilters() }
                                     </DataTable.Header>
                                 )
                             }
 
                             <DataTable.Body>
+                                {
+                                    isColumnsValid(columns) && virtualization && visibleRange[ 0 ] > 0 && (
+                                        <DataTable.Row
+                                            aria-hidden
+                                            className="no-hover data-table-virtualization-spacer"
+                                            style={ { height: visibleRange[ 0 ] * virtualization.rowHeight } }
+                                        >
+                                            <DataTable.Cell colSpan={ columns.length } />
+                                        </DataTable.Row>
+                                    )
+                                }
                                 {
                                     isColumnsValid(columns)
-                                        ? data.map((item: TableDataInterface, index) => {
+                                        ? rows.slice(...visibleRange).map((item: TableDataInterface, offset) => {
 
                                             if (!item) {
                                                 return;
                                             }
 
+                                            const index: number = visibleRange[ 0 ] + offset;
+
                                             const {
                                                 key: itemKey,
                                                 rendererProps,
@@ -880,6 +1472,17 @@ export const DataTable = <T extends object = {}>(
                                                             && onRowClick(e, item)
                                                     }
                                                     selectable={ isRowSelectable(item) }
+                                                    { ...(enableKeyboardNavigation ? {
+                                                        "data-row-index": index,
+                                                        onFocus: (e: FocusEvent<HTMLElement>) => {
+                                                            handleRowFocus(e, index);
+                                                        },
+                                                        onKeyDown: (e: KeyboardEvent<HTMLElement>) => {
+                                                            handleRowKeyDown(e, item, index);
+                                                        },
+                                                        tabIndex: 0
+                                                    } : {}) }
+                                                    style={ virtualization && { height: virtualization.rowHeight } }
                                                     { ...rowUIProps }
                                                     { ...rowUIPropOverrides }
                                                 >
@@ -901,7 +1504,11 @@ export const DataTable = <T extends object = {}>(
                                                                 <DataTable.Cell
                                                                     key={ index }
                                                                     action={ column.dataIndex === "action" }
-                                                                    textAlign={ itemTextAlign || columnTextAlign }
+                                                                    textAlign={
+                                                                        DirectionUtils.mirror(
+                                                                            itemTextAlign || columnTextAlign,
+                                                                            documentDirection)
+                                                                    }
                                                                     width={ itemWidth ?? columnWidth }
                                                                     { ...cellUIProps }
                                                                     { ...cellUIPropOverrides }
@@ -920,6 +1527,19 @@ export const DataTable = <T extends object = {}>(
                                         })
                                         : null
                                 }
+                                {
+                                    isColumnsValid(columns) && virtualization && visibleRange[ 1 ] < rows.length && (
+                                        <DataTable.Row
+                                            aria-hidden
+                                            className="no-hover data-table-virtualization-spacer"
+                                            style={ {
+                                                height: (rows.length - visibleRange[ 1 ]) * virtualization.rowHeight
+                                            } }
+                                        >
+                                            <DataTable.Cell colSpan={ columns.length } />
+                                        </DataTable.Row>
+                                    )
+                                }
                             </DataTable.Body>
 
                             {
@@ -962,10 +1582,29 @@ export const DataTable = <T extends object = {}>(
             }
         </Table>
     );
+
+    if (!virtualization) {
+        return table;
+    }
+
+    return (
+        <div
+            ref={ scrollContainer }
+            className="data-table-scroll-container"
+            style={ { height: virtualization.height } }
+            onScroll={ (e: UIEvent<HTMLDivElement>) => setScrollTop(e.currentTarget.scrollTop) }
+            data-testid={ `${ resolvedTestId }-scroll-container` }
+        >
+            { table }
+        </div>
+    );
 };
 
 DataTable.defaultProps = {
+    columnFilterPlaceholder: "Filter",
     "data-testid": "data-table",
+    exportButtonLabel: "Export as CSV",
+    exportFileName: "table-data",
     isRowSelectable: () => true,
     selectable: true,
     showHeader: true,
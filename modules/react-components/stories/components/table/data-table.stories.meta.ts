@@ -35,6 +35,11 @@ export const meta: StoryMetaInterface = {
         {
             description: "Usage of a sortable Data Table.",
             title: "Sortable"
+        },
+        {
+            description: "Usage of a Data Table which sorts by multiple columns, filters, virtualizes the rows, " +
+                "saves views and exports the visible data as CSV.",
+            title: "Local Data Processing"
         }
     ],
     title: `${ StoryCategories.COMPONENTS }/Data Table`
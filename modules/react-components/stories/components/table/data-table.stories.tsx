@@ -28,6 +28,8 @@ import {
     AppAvatar,
     DataTable,
     DataTableSortOrder,
+    DataTableViewInterface,
+    DataTableViewStorageInterface,
     LinkButton,
     PrimaryButton,
     TableColumnInterface
@@ -388,3 +390,93 @@ Sortable.story = {
         }
     }
 };
+
+/**
+ * Story to display a Data Table which processes the data locally.
+ *
+ * @return {React.ReactElement}
+ */
+export const LocalDataProcessing = (): ReactElement => {
+
+    const [ views ] = useState<Map<string, DataTableViewInterface[]>>(new Map());
+
+    const viewStorage: DataTableViewStorageInterface = {
+        getViews: (tableId: string) => Promise.resolve(views.get(tableId) ?? []),
+        saveViews: (tableId: string, savedViews: DataTableViewInterface[]) => {
+            views.set(tableId, savedViews);
+
+            return Promise.resolve();
+        }
+    };
+
+    const list: DataTableDemoDataInterface[] = Array.from({ length: 1000 }, (value: unknown, index: number) => ({
+        ...DEMO_DATA_LIST[ index % DEMO_DATA_LIST.length ],
+        name: `${ DEMO_DATA_LIST[ index % DEMO_DATA_LIST.length ].name } ${ index }`
+    }));
+
+    return (
+        <DataTable
+            id="local-data-processing-table"
+            enableKeyboardNavigation
+            multiSort
+            processDataLocally
+            showColumnFilters
+            showColumnSelector
+            showExport
+            showOperationsHeader
+            stickyHeader
+            viewStorage={ viewStorage }
+            virtualization={ { height: 500, rowHeight: 62 } }
+            data={ list }
+            onColumnSelectionChange={ (columns: TableColumnInterface[]): void => {
+                action(`Visible columns changed to ${ columns.filter((column) => !column.hidden).length }`);
+            } }
+            columns={ [
+                {
+                    allowToggleVisibility: false,
+                    dataIndex: "name",
+                    filterable: true,
+                    id: "name",
+                    key: 0,
+                    render: (item) => (
+                        <Header as="h6" image>
+                            <AppAvatar
+                                name={ item.name }
+                                image={ item.imageUrl }
+                                size="mini"
+                            />
+                            <Header.Content>
+                                { item.name }
+                                <Header.Subheader>{ item.description }</Header.Subheader>
+                            </Header.Content>
+                        </Header>
+                    ),
+                    sortable: true,
+                    title: "Name"
+                },
+                {
+                    allowToggleVisibility: true,
+                    dataIndex: "clientId",
+                    filterable: true,
+                    id: "clientId",
+                    key: 1,
+                    sortable: true,
+                    title: "Client ID"
+                }
+            ] }
+            onRowClick={
+                (e: SyntheticEvent, item: DataTableDemoDataInterface): void => {
+                    action(`Clicked on the row of ${ item.name }`);
+                }
+            }
+        />
+    );
+};
+
+LocalDataProcessing.story = {
+    parameters: {
+        docs: {
+            storyDescription: meta.stories[ 3 ].description
+        }
+    }
+};